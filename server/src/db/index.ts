@@ -8,11 +8,25 @@ export {
   Hackathon,
   Application,
   ScreeningMessage,
+  DirectConversation,
+  DirectMessage,
   TeamMember,
   TeamSpace,
+  SpaceChannel,
   SpaceMessage,
   SpaceLink,
   SpaceTask,
+  SpaceLabel,
+  SpaceMilestone,
+  TaskComment,
+  TaskActivity,
+  RefreshToken,
+  EmailVerificationToken,
+  PasswordResetToken,
+  QueuedMessage,
+  EventSequence,
+  ReadCursor,
+  Notification,
 } from './models.js';
 
 // Export interfaces
@@ -22,11 +36,30 @@ export type {
   IHackathon,
   IApplication,
   IScreeningMessage,
+  IMessageRevision,
+  IMessageReaction,
+  IMessageMention,
+  IDirectConversation,
+  IDirectMessage,
   ITeamMember,
   ITeamSpace,
+  ITaskWorkflowColumn,
+  ISpaceChannel,
   ISpaceMessage,
   ISpaceLink,
   ISpaceTask,
+  ISpaceLabel,
+  ISpaceMilestone,
+  ITaskChecklistItem,
+  ITaskComment,
+  ITaskActivity,
+  IRefreshToken,
+  IEmailVerificationToken,
+  IPasswordResetToken,
+  IQueuedMessage,
+  IEventSequence,
+  IReadCursor,
+  INotification,
 } from './models.js';
 
 // Export validation schemas
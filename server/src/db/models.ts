@@ -18,6 +18,15 @@ export interface IUser extends Document {
   googleId?: string;
   emailVerified: boolean;
   onboardingCompleted: boolean;
+  passwordChangedAt?: Date;
+  lastSeenAt?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes: string[];
+  twoFactorLastUsedStep?: number;
+  twoFactorFailedAttempts: number;
+  twoFactorLockedUntil?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -47,6 +56,17 @@ const UserSchema = new Schema<IUser>({
   googleId: { type: String, sparse: true, unique: true },
   emailVerified: { type: Boolean, default: false },
   onboardingCompleted: { type: Boolean, default: false },
+  passwordChangedAt: { type: Date },
+  // When the user last connected or disconnected their last real-time socket
+  lastSeenAt: { type: Date },
+  // Two-factor secrets and recovery code hashes are never returned unless explicitly selected
+  twoFactorEnabled: { type: Boolean, default: false },
+  twoFactorSecret: { type: String, select: false },
+  twoFactorPendingSecret: { type: String, select: false },
+  twoFactorRecoveryCodes: { type: [String], default: [], select: false },
+  twoFactorLastUsedStep: { type: Number, select: false },
+  twoFactorFailedAttempts: { type: Number, default: 0, select: false },
+  twoFactorLockedUntil: { type: Date, select: false },
 }, {
   timestamps: true,
 });
@@ -152,10 +172,29 @@ ApplicationSchema.index({ createdAt: -1 });
 export const Application = mongoose.model<IApplication>('Application', ApplicationSchema);
 
 // Screening Message Interface
+// A message's content before an edit, kept for audit
+export interface IMessageRevision {
+  content: string;
+  // When this content was replaced
+  editedAt: Date;
+}
+
+const MessageRevisionSchema = new Schema<IMessageRevision>({
+  content: { type: String, required: true },
+  editedAt: { type: Date, required: true },
+}, {
+  _id: false,
+});
+
 export interface IScreeningMessage extends Document {
   applicationId: mongoose.Types.ObjectId;
   senderId: mongoose.Types.ObjectId;
   content: string;
+  clientId?: string;
+  editedAt?: Date;
+  editHistory: IMessageRevision[];
+  deletedAt?: Date;
+  deletedBy?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -165,15 +204,83 @@ const ScreeningMessageSchema = new Schema<IScreeningMessage>({
   applicationId: { type: Schema.Types.ObjectId, ref: 'Application', required: true },
   senderId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   content: { type: String, required: true },
+  // Id chosen by the sending client so a retried send isn't stored twice
+  clientId: { type: String },
+  editedAt: { type: Date },
+  // Earlier versions of the content, oldest first
+  editHistory: { type: [MessageRevisionSchema], default: [] },
+  // Deleted messages are kept but no longer shown
+  deletedAt: { type: Date },
+  deletedBy: { type: Schema.Types.ObjectId, ref: 'User' },
 }, {
   timestamps: true,
 });
 
 // Indexes
 ScreeningMessageSchema.index({ applicationId: 1, createdAt: 1 });
+ScreeningMessageSchema.index(
+  { senderId: 1, clientId: 1 },
+  { unique: true, partialFilterExpression: { clientId: { $type: 'string' } } }
+);
 
 export const ScreeningMessage = mongoose.model<IScreeningMessage>('ScreeningMessage', ScreeningMessageSchema);
 
+// Direct Conversation Interface (a one-to-one chat between two teammates)
+export interface IDirectConversation extends Document {
+  // Always two users, sorted so the pair has one conversation whoever starts it
+  participantIds: mongoose.Types.ObjectId[];
+  // Both user IDs joined with ':' in the same order, unique per pair
+  participantKey: string;
+  lastMessageAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Direct Conversation Schema
+const DirectConversationSchema = new Schema<IDirectConversation>({
+  participantIds: [{ type: Schema.Types.ObjectId, ref: 'User', required: true }],
+  participantKey: { type: String, required: true },
+  lastMessageAt: { type: Date },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+DirectConversationSchema.index({ participantKey: 1 }, { unique: true });
+DirectConversationSchema.index({ participantIds: 1, lastMessageAt: -1 });
+
+export const DirectConversation = mongoose.model<IDirectConversation>('DirectConversation', DirectConversationSchema);
+
+// Direct Message Interface
+export interface IDirectMessage extends Document {
+  conversationId: mongoose.Types.ObjectId;
+  senderId: mongoose.Types.ObjectId;
+  content: string;
+  clientId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Direct Message Schema
+const DirectMessageSchema = new Schema<IDirectMessage>({
+  conversationId: { type: Schema.Types.ObjectId, ref: 'DirectConversation', required: true },
+  senderId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  content: { type: String, required: true },
+  // Id chosen by the sending client so a retried send isn't stored twice
+  clientId: { type: String },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+DirectMessageSchema.index({ conversationId: 1, createdAt: 1 });
+DirectMessageSchema.index(
+  { senderId: 1, clientId: 1 },
+  { unique: true, partialFilterExpression: { clientId: { $type: 'string' } } }
+);
+
+export const DirectMessage = mongoose.model<IDirectMessage>('DirectMessage', DirectMessageSchema);
+
 // Team Member Interface
 export interface ITeamMember extends Document {
   userId: mongoose.Types.ObjectId;
@@ -209,16 +316,34 @@ export interface ITeamSpace extends Document {
   postId: mongoose.Types.ObjectId;
   name: string;
   description?: string;
+  // Whether members, not just founders, may create, rename and archive channels
+  membersCanManageChannels: boolean;
+  // The task board's columns, in order; spaces that never changed them have none and use the default
+  taskWorkflow?: ITaskWorkflowColumn[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface ITaskWorkflowColumn {
+  status: string;
+  name: string;
+}
+
+const TaskWorkflowColumnSchema = new Schema<ITaskWorkflowColumn>({
+  status: { type: String, required: true },
+  name: { type: String, required: true, trim: true },
+}, {
+  _id: false,
+});
+
 // Team Space Schema
 const TeamSpaceSchema = new Schema<ITeamSpace>({
   postType: { type: String, enum: ['startup', 'hackathon'], required: true },
   postId: { type: Schema.Types.ObjectId, required: true },
   name: { type: String, required: true, trim: true },
   description: { type: String },
+  membersCanManageChannels: { type: Boolean, default: false },
+  taskWorkflow: { type: [TaskWorkflowColumnSchema], default: undefined },
 }, {
   timestamps: true,
 });
@@ -228,26 +353,122 @@ TeamSpaceSchema.index({ postId: 1, postType: 1 }, { unique: true });
 
 export const TeamSpace = mongoose.model<ITeamSpace>('TeamSpace', TeamSpaceSchema);
 
+// Space Channel Interface (a named message stream inside a Builder Space, like #general)
+export interface ISpaceChannel extends Document {
+  spaceId: mongoose.Types.ObjectId;
+  // Lowercase, without the leading #
+  name: string;
+  // Every space has one default channel, #general, which can't be archived
+  isDefault: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  archivedAt?: Date;
+  archivedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Space Channel Schema
+const SpaceChannelSchema = new Schema<ISpaceChannel>({
+  spaceId: { type: Schema.Types.ObjectId, ref: 'TeamSpace', required: true },
+  name: { type: String, required: true, trim: true, lowercase: true },
+  isDefault: { type: Boolean, default: false },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  // Archived channels keep their history but take no new messages
+  archivedAt: { type: Date },
+  archivedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+SpaceChannelSchema.index({ spaceId: 1, name: 1 }, { unique: true });
+SpaceChannelSchema.index({ spaceId: 1, isDefault: 1 }, { unique: true, partialFilterExpression: { isDefault: true } });
+
+export const SpaceChannel = mongoose.model<ISpaceChannel>('SpaceChannel', SpaceChannelSchema);
+
 // Space Message Interface
 export interface ISpaceMessage extends Document {
   spaceId: mongoose.Types.ObjectId;
+  channelId?: mongoose.Types.ObjectId;
   senderId: mongoose.Types.ObjectId;
   content: string;
+  clientId?: string;
+  editedAt?: Date;
+  editHistory: IMessageRevision[];
+  deletedAt?: Date;
+  deletedBy?: mongoose.Types.ObjectId;
+  parentMessageId?: mongoose.Types.ObjectId;
+  replyCount: number;
+  lastReplyAt?: Date;
+  reactions: IMessageReaction[];
+  mentions: IMessageMention[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface IMessageMention {
+  userId: mongoose.Types.ObjectId;
+  // Where the mention sits in the content, including the `@`
+  start: number;
+  length: number;
+}
+
+const MessageMentionSchema = new Schema<IMessageMention>({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  start: { type: Number, required: true },
+  length: { type: Number, required: true },
+}, {
+  _id: false,
+});
+
+export interface IMessageReaction {
+  emoji: string;
+  userIds: mongoose.Types.ObjectId[];
+}
+
+const MessageReactionSchema = new Schema<IMessageReaction>({
+  emoji: { type: String, required: true },
+  userIds: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+}, {
+  _id: false,
+});
+
 // Space Message Schema
 const SpaceMessageSchema = new Schema<ISpaceMessage>({
   spaceId: { type: Schema.Types.ObjectId, ref: 'TeamSpace', required: true },
+  // Messages from before channels existed have none until they are moved into #general
+  channelId: { type: Schema.Types.ObjectId, ref: 'SpaceChannel' },
   senderId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   content: { type: String, required: true },
+  // Id chosen by the sending client so a retried send isn't stored twice
+  clientId: { type: String },
+  editedAt: { type: Date },
+  // Earlier versions of the content, oldest first
+  editHistory: { type: [MessageRevisionSchema], default: [] },
+  // Deleted messages are kept but no longer shown
+  deletedAt: { type: Date },
+  deletedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  // Set on thread replies; the main chat only shows messages without one
+  parentMessageId: { type: Schema.Types.ObjectId, ref: 'SpaceMessage' },
+  // Kept on the thread's first message
+  replyCount: { type: Number, default: 0 },
+  lastReplyAt: { type: Date },
+  // One entry per emoji, listing who reacted with it
+  reactions: { type: [MessageReactionSchema], default: [] },
+  // Team members mentioned with @, in the order they appear
+  mentions: { type: [MessageMentionSchema], default: [] },
 }, {
   timestamps: true,
 });
 
 // Indexes
 SpaceMessageSchema.index({ spaceId: 1, createdAt: 1 });
+SpaceMessageSchema.index({ channelId: 1, createdAt: 1 });
+SpaceMessageSchema.index({ parentMessageId: 1, createdAt: 1 }, { sparse: true });
+SpaceMessageSchema.index(
+  { senderId: 1, clientId: 1 },
+  { unique: true, partialFilterExpression: { clientId: { $type: 'string' } } }
+);
 
 export const SpaceMessage = mongoose.model<ISpaceMessage>('SpaceMessage', SpaceMessageSchema);
 
@@ -278,13 +499,36 @@ SpaceLinkSchema.index({ spaceId: 1, createdAt: -1 });
 
 export const SpaceLink = mongoose.model<ISpaceLink>('SpaceLink', SpaceLinkSchema);
 
+// One step of a task's checklist
+export interface ITaskChecklistItem {
+  _id: mongoose.Types.ObjectId;
+  text: string;
+  done: boolean;
+  doneBy?: mongoose.Types.ObjectId;
+}
+
+const TaskChecklistItemSchema = new Schema<ITaskChecklistItem>({
+  text: { type: String, required: true },
+  done: { type: Boolean, default: false },
+  doneBy: { type: Schema.Types.ObjectId, ref: 'User' },
+});
+
 // Space Task Interface
 export interface ISpaceTask extends Document {
   spaceId: mongoose.Types.ObjectId;
   creatorId: mongoose.Types.ObjectId;
   title: string;
   description?: string;
-  completed: boolean;
+  // A column of the space's task workflow
+  status: string;
+  position: number;
+  assigneeIds: mongoose.Types.ObjectId[];
+  dueDate?: Date;
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  labelIds: mongoose.Types.ObjectId[];
+  checklist: mongoose.Types.DocumentArray<ITaskChecklistItem>;
+  blockedByIds: mongoose.Types.ObjectId[];
+  milestoneId?: mongoose.Types.ObjectId;
   completedBy?: mongoose.Types.ObjectId;
   completedAt?: Date;
   createdAt: Date;
@@ -297,7 +541,19 @@ const SpaceTaskSchema = new Schema<ISpaceTask>({
   creatorId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   title: { type: String, required: true, trim: true },
   description: { type: String },
-  completed: { type: Boolean, default: false },
+  status: { type: String, default: 'todo' },
+  // Order within the status column, lowest first
+  position: { type: Number, default: 0 },
+  // Team members working on it
+  assigneeIds: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+  dueDate: { type: Date },
+  priority: { type: String, enum: ['low', 'medium', 'high', 'urgent'], default: 'medium' },
+  labelIds: [{ type: Schema.Types.ObjectId, ref: 'SpaceLabel' }],
+  // Steps, in order
+  checklist: { type: [TaskChecklistItemSchema], default: [] },
+  // Tasks in the same space that have to be done before this one can be
+  blockedByIds: [{ type: Schema.Types.ObjectId, ref: 'SpaceTask' }],
+  milestoneId: { type: Schema.Types.ObjectId, ref: 'SpaceMilestone' },
   completedBy: { type: Schema.Types.ObjectId, ref: 'User' },
   completedAt: { type: Date },
 }, {
@@ -305,7 +561,364 @@ const SpaceTaskSchema = new Schema<ISpaceTask>({
 });
 
 // Indexes
-SpaceTaskSchema.index({ spaceId: 1, completed: 1 });
+SpaceTaskSchema.index({ spaceId: 1, status: 1, position: 1 });
 SpaceTaskSchema.index({ spaceId: 1, createdAt: -1 });
+SpaceTaskSchema.index({ assigneeIds: 1, status: 1 });
+SpaceTaskSchema.index({ blockedByIds: 1 });
+SpaceTaskSchema.index({ milestoneId: 1 });
 
 export const SpaceTask = mongoose.model<ISpaceTask>('SpaceTask', SpaceTaskSchema);
+
+// Task Comment Interface
+export interface ITaskComment extends Document {
+  taskId: mongoose.Types.ObjectId;
+  spaceId: mongoose.Types.ObjectId;
+  authorId: mongoose.Types.ObjectId;
+  content: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Task Comment Schema - the discussion thread on one task
+const TaskCommentSchema = new Schema<ITaskComment>({
+  taskId: { type: Schema.Types.ObjectId, ref: 'SpaceTask', required: true },
+  spaceId: { type: Schema.Types.ObjectId, ref: 'TeamSpace', required: true },
+  authorId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  content: { type: String, required: true },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+TaskCommentSchema.index({ taskId: 1, createdAt: 1 });
+
+export const TaskComment = mongoose.model<ITaskComment>('TaskComment', TaskCommentSchema);
+
+// A team member as they were when an activity happened
+export interface IActivityUser {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+}
+
+const ActivityUserSchema = new Schema<IActivityUser>({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  name: { type: String, required: true },
+}, {
+  _id: false,
+});
+
+// Task Activity Interface
+export interface ITaskActivity extends Document {
+  taskId: mongoose.Types.ObjectId;
+  spaceId: mongoose.Types.ObjectId;
+  actorId: mongoose.Types.ObjectId;
+  action: 'created' | 'status_changed' | 'assigned' | 'edited';
+  // status_changed
+  fromStatus?: string;
+  toStatus?: string;
+  // assigned
+  addedAssignees: IActivityUser[];
+  removedAssignees: IActivityUser[];
+  // edited: which fields changed
+  fields: string[];
+  createdAt: Date;
+}
+
+// Task Activity Schema - what happened to a task, who did it and when; entries are never changed
+const TaskActivitySchema = new Schema<ITaskActivity>({
+  taskId: { type: Schema.Types.ObjectId, ref: 'SpaceTask', required: true, immutable: true },
+  spaceId: { type: Schema.Types.ObjectId, ref: 'TeamSpace', required: true, immutable: true },
+  actorId: { type: Schema.Types.ObjectId, ref: 'User', required: true, immutable: true },
+  action: { type: String, enum: ['created', 'status_changed', 'assigned', 'edited'], required: true, immutable: true },
+  fromStatus: { type: String, immutable: true },
+  toStatus: { type: String, immutable: true },
+  addedAssignees: { type: [ActivityUserSchema], default: [], immutable: true },
+  removedAssignees: { type: [ActivityUserSchema], default: [], immutable: true },
+  fields: { type: [String], default: [], immutable: true },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+// Indexes
+TaskActivitySchema.index({ taskId: 1, createdAt: 1 });
+
+// Updates are refused outright rather than ignored field by field
+for (const operation of ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'] as const) {
+  TaskActivitySchema.pre(operation, function () {
+    throw new Error('Task activity cannot be changed');
+  });
+}
+
+export const TaskActivity = mongoose.model<ITaskActivity>('TaskActivity', TaskActivitySchema);
+
+// Space Label Interface
+export interface ISpaceLabel extends Document {
+  spaceId: mongoose.Types.ObjectId;
+  name: string;
+  color: 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'purple' | 'pink';
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Space Label Schema - a label for the tasks of one Builder Space, like "backend"
+const SpaceLabelSchema = new Schema<ISpaceLabel>({
+  spaceId: { type: Schema.Types.ObjectId, ref: 'TeamSpace', required: true },
+  name: { type: String, required: true },
+  color: {
+    type: String,
+    enum: ['gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'purple', 'pink'],
+    default: 'gray',
+  },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+SpaceLabelSchema.index({ spaceId: 1, name: 1 }, { unique: true });
+
+export const SpaceLabel = mongoose.model<ISpaceLabel>('SpaceLabel', SpaceLabelSchema);
+
+// Space Milestone Interface
+export interface ISpaceMilestone extends Document {
+  spaceId: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  startDate: Date;
+  endDate: Date;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Space Milestone Schema - a time box for some of a Builder Space's tasks, like "MVP demo"
+const SpaceMilestoneSchema = new Schema<ISpaceMilestone>({
+  spaceId: { type: Schema.Types.ObjectId, ref: 'TeamSpace', required: true },
+  name: { type: String, required: true, trim: true },
+  description: { type: String },
+  // Midnight UTC of its first and last days
+  startDate: { type: Date, required: true },
+  endDate: { type: Date, required: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+SpaceMilestoneSchema.index({ spaceId: 1, startDate: 1 });
+
+export const SpaceMilestone = mongoose.model<ISpaceMilestone>('SpaceMilestone', SpaceMilestoneSchema);
+
+// Refresh Token Interface
+export interface IRefreshToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  familyId: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedByHash?: string;
+  // The successor, encrypted with a key derived from this token (see RefreshTokenService)
+  sealedSuccessor?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Refresh Token Schema
+const RefreshTokenSchema = new Schema<IRefreshToken>({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  familyId: { type: String, required: true },
+  expiresAt: { type: Date, required: true },
+  revokedAt: { type: Date },
+  replacedByHash: { type: String },
+  sealedSuccessor: { type: String },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+RefreshTokenSchema.index({ familyId: 1 });
+RefreshTokenSchema.index({ userId: 1 });
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', RefreshTokenSchema);
+
+// Email Verification Token Interface
+export interface IEmailVerificationToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  email: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Email Verification Token Schema
+const EmailVerificationTokenSchema = new Schema<IEmailVerificationToken>({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  email: { type: String, required: true, lowercase: true, trim: true },
+  tokenHash: { type: String, required: true, unique: true },
+  expiresAt: { type: Date, required: true },
+  usedAt: { type: Date },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+EmailVerificationTokenSchema.index({ userId: 1, createdAt: -1 });
+EmailVerificationTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const EmailVerificationToken = mongoose.model<IEmailVerificationToken>('EmailVerificationToken', EmailVerificationTokenSchema);
+
+// Password Reset Token Interface
+export interface IPasswordResetToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Password Reset Token Schema
+const PasswordResetTokenSchema = new Schema<IPasswordResetToken>({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  expiresAt: { type: Date, required: true },
+  usedAt: { type: Date },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+PasswordResetTokenSchema.index({ userId: 1, createdAt: -1 });
+PasswordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const PasswordResetToken = mongoose.model<IPasswordResetToken>('PasswordResetToken', PasswordResetTokenSchema);
+
+// Queued Message Interface (per-user log of real-time events, used for replay and offline delivery)
+export interface IQueuedMessage extends Document {
+  userId: mongoose.Types.ObjectId;
+  seq: number;
+  type: string;
+  payload: unknown;
+  senderId?: string;
+  timestamp: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Queued Message Schema
+const QueuedMessageSchema = new Schema<IQueuedMessage>({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  seq: { type: Number, required: true },
+  type: { type: String, required: true },
+  payload: { type: Schema.Types.Mixed },
+  senderId: { type: String },
+  timestamp: { type: Date, required: true },
+  expiresAt: { type: Date, required: true },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+QueuedMessageSchema.index({ userId: 1, seq: 1 }, { unique: true });
+QueuedMessageSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const QueuedMessage = mongoose.model<IQueuedMessage>('QueuedMessage', QueuedMessageSchema);
+
+// Event Sequence Interface (per-user counter for real-time event sequence numbers)
+export interface IEventSequence extends Document {
+  userId: mongoose.Types.ObjectId;
+  seq: number;
+  ackedSeq: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Event Sequence Schema
+const EventSequenceSchema = new Schema<IEventSequence>({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, unique: true },
+  seq: { type: Number, default: 0 },
+  ackedSeq: { type: Number, default: 0 },
+}, {
+  timestamps: true,
+});
+
+export const EventSequence = mongoose.model<IEventSequence>('EventSequence', EventSequenceSchema);
+
+// Read Cursor Interface (how far a user has read in a group, screening or direct chat)
+export interface IReadCursor extends Document {
+  userId: mongoose.Types.ObjectId;
+  chat: 'group' | 'screening' | 'direct';
+  // Channel ID for Builder Space chats, application ID for screening chats, conversation ID for direct chats
+  chatId: mongoose.Types.ObjectId;
+  lastReadMessageId: mongoose.Types.ObjectId;
+  lastReadMessageAt: Date;
+  readAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Read Cursor Schema
+const ReadCursorSchema = new Schema<IReadCursor>({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  chat: { type: String, enum: ['group', 'screening', 'direct'], required: true },
+  chatId: { type: Schema.Types.ObjectId, required: true },
+  lastReadMessageId: { type: Schema.Types.ObjectId, required: true },
+  // createdAt of the last read message; messages after it are unread
+  lastReadMessageAt: { type: Date, required: true },
+  readAt: { type: Date, required: true },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+ReadCursorSchema.index({ userId: 1, chat: 1, chatId: 1 }, { unique: true });
+ReadCursorSchema.index({ chat: 1, chatId: 1 });
+
+export const ReadCursor = mongoose.model<IReadCursor>('ReadCursor', ReadCursorSchema);
+
+// Notification Interface (something that happened for one user, kept until they read it)
+export interface INotification extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: 'mention';
+  // Who caused it
+  actorId: mongoose.Types.ObjectId;
+  spaceId?: mongoose.Types.ObjectId;
+  messageId?: mongoose.Types.ObjectId;
+  // Set when the message is a thread reply
+  parentMessageId?: mongoose.Types.ObjectId;
+  preview: string;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Notification Schema
+const NotificationSchema = new Schema<INotification>({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  type: { type: String, enum: ['mention'], required: true },
+  actorId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  spaceId: { type: Schema.Types.ObjectId, ref: 'TeamSpace' },
+  messageId: { type: Schema.Types.ObjectId, ref: 'SpaceMessage' },
+  parentMessageId: { type: Schema.Types.ObjectId, ref: 'SpaceMessage' },
+  preview: { type: String, required: true },
+  readAt: { type: Date },
+}, {
+  timestamps: true,
+});
+
+// Indexes
+NotificationSchema.index({ userId: 1, createdAt: -1 });
+NotificationSchema.index({ userId: 1, readAt: 1 });
+// One notification per message and user, however often the message is edited
+NotificationSchema.index(
+  { userId: 1, messageId: 1, type: 1 },
+  { unique: true, partialFilterExpression: { messageId: { $exists: true } } }
+);
+
+export const Notification = mongoose.model<INotification>('Notification', NotificationSchema);
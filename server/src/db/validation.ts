@@ -97,11 +97,20 @@ export const insertSpaceLinkSchema = z.object({
 export const insertSpaceTaskSchema = z.object({
   title: z.string().min(1),
   description: z.string().optional(),
-  completed: z.boolean().default(false),
+  status: z.string().min(1).default('todo'),
 });
 
 export const updateSpaceTaskSchema = z.object({
   title: z.string().min(1).optional(),
   description: z.string().optional(),
-  completed: z.boolean().optional(),
+  status: z.string().min(1).optional(),
+});
+
+// Chat history page (?before=<cursor> or ?after=<cursor>, &limit=<n>)
+export const messagePageQuerySchema = z.object({
+  before: z.string().min(1).optional(),
+  after: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+}).refine((query) => !(query.before && query.after), {
+  message: 'Use either before or after, not both',
 });
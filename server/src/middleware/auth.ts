@@ -7,6 +7,7 @@ export interface AuthRequest extends Request {
     id: string;
     email: string;
     name: string;
+    emailVerified?: boolean;
   };
   // Explicitly include Express Request properties
   headers: any;
@@ -15,6 +16,64 @@ export interface AuthRequest extends Request {
   body: any;
 }
 
+// Access tokens issued before the last password reset are no longer valid.
+// JWT iat has one-second precision, so compare at that granularity.
+export const isIssuedBeforePasswordChange = (issuedAt: number, passwordChangedAt?: Date) => {
+  return !!passwordChangedAt && issuedAt < Math.floor(passwordChangedAt.getTime() / 1000);
+};
+
+export interface AccessTokenPayload {
+  userId: string;
+  email: string;
+  type?: string;
+  iat: number;
+  exp: number;
+}
+
+export interface VerifiedAccessToken {
+  user: NonNullable<AuthRequest['user']>;
+  issuedAt: number;
+  expiresAt: Date;
+}
+
+/**
+ * Verify an access token and load the user it belongs to
+ * Shared by the HTTP middleware and the WebSocket handshake
+ *
+ * @throws jwt.TokenExpiredError if the token has expired
+ * @throws Error if the token is invalid, revoked, or its user no longer exists
+ */
+export const verifyAccessToken = async (token: string): Promise<VerifiedAccessToken> => {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET!) as AccessTokenPayload;
+
+  // Only access tokens authenticate requests; refresh and email tokens carry a type
+  if (decoded.type) {
+    throw new Error('Invalid or expired token');
+  }
+
+  // Verify user still exists
+  const user = await User.findById(decoded.userId).select('_id email name emailVerified passwordChangedAt');
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (isIssuedBeforePasswordChange(decoded.iat, user.passwordChangedAt)) {
+    throw new Error('Session ended after a password change');
+  }
+
+  return {
+    user: {
+      id: user._id.toString(),
+      email: user.email,
+      name: user.name,
+      emailVerified: user.emailVerified,
+    },
+    issuedAt: decoded.iat,
+    expiresAt: new Date(decoded.exp * 1000),
+  };
+};
+
 export const authenticateToken = async (
   req: AuthRequest,
   res: Response,
@@ -28,25 +87,22 @@ export const authenticateToken = async (
       return res.status(401).json({ error: 'Access token required' });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as {
-      userId: string;
-      email: string;
-    };
+    const { user } = await verifyAccessToken(token);
 
-    // Verify user still exists
-    const user = await User.findById(decoded.userId).select('_id email name');
-
-    if (!user) {
-      return res.status(401).json({ error: 'User not found' });
-    }
-
-    req.user = {
-      id: user._id.toString(),
-      email: user.email,
-      name: user.name,
-    };
+    req.user = user;
     next();
   } catch (error) {
+    // Expired access tokens get a 401 so the client knows to refresh
+    if (error instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({ error: 'Access token expired', code: 'TOKEN_EXPIRED' });
+    }
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'User not found') {
+      return res.status(401).json({ error: message });
+    }
+    if (message.includes('password change')) {
+      return res.status(401).json({ error: message, code: 'TOKEN_REVOKED' });
+    }
     console.error('Auth middleware error:', error);
     return res.status(403).json({ error: 'Invalid or expired token' });
   }
@@ -62,20 +118,8 @@ export const optionalAuth = async (
     const token = authHeader && authHeader.split(' ')[1];
 
     if (token) {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as {
-        userId: string;
-        email: string;
-      };
-
-      const user = await User.findById(decoded.userId).select('_id email name');
-
-      if (user) {
-        req.user = {
-          id: user._id.toString(),
-          email: user.email,
-          name: user.name,
-        };
-      }
+      const { user } = await verifyAccessToken(token);
+      req.user = user;
     }
 
     next();
@@ -83,4 +127,27 @@ export const optionalAuth = async (
     // Continue without auth if token is invalid
     next();
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Block users who have not verified their email address
+ * Must be used after authenticateToken
+ */
+export const requireVerifiedEmail = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  if (!req.user.emailVerified) {
+    return res.status(403).json({
+      error: 'Please verify your email address before continuing',
+      code: 'EMAIL_NOT_VERIFIED',
+    });
+  }
+
+  next();
+};
@@ -1,13 +1,13 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { Application, Startup, Hackathon, User, TeamMember, insertApplicationSchema } from '../db/index.js';
-import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { authenticateToken, AuthRequest, requireVerifiedEmail } from '../middleware/auth.js';
 import { broadcastStatsUpdate } from '../utils/statsHelper.js';
 
 const router = Router();
 
 // Apply to startup or hackathon
-router.post('/', authenticateToken, async (req: AuthRequest, res) => {
+router.post('/', authenticateToken, requireVerifiedEmail, async (req: AuthRequest, res) => {
   try {
     const applicationData = insertApplicationSchema.parse(req.body);
 
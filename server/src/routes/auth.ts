@@ -1,19 +1,33 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { z } from 'zod';
 import { User } from '../db/index.js';
-import { hashPassword, comparePassword } from '../utils/password.js';
-import { generateTokens } from '../utils/jwt.js';
+import { hashPassword, comparePassword, passwordSchema } from '../utils/password.js';
+import { REFRESH_TOKEN_TTL_MS, generateTwoFactorChallengeToken } from '../utils/jwt.js';
 import { verifyGoogleToken, getGoogleAuthUrl } from '../utils/google-auth.js';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
 import { broadcastStatsUpdate } from '../utils/statsHelper.js';
+import { refreshTokenService } from '../services/RefreshTokenService.js';
+import { emailVerificationService } from '../services/EmailVerificationService.js';
+import { passwordResetService } from '../services/PasswordResetService.js';
+import { twoFactorService } from '../services/TwoFactorService.js';
 
 const router = Router();
 
+// Set refresh token as httpOnly cookie
+const setRefreshTokenCookie = (res: Response, refreshToken: string) => {
+  res.cookie('refreshToken', refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: REFRESH_TOKEN_TTL_MS,
+  });
+};
+
 // Validation schemas
 const signupSchema = z.object({
   name: z.string().min(1, 'Name is required').max(255),
   email: z.string().email('Invalid email format'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
+  password: passwordSchema,
 });
 
 const loginSchema = z.object({
@@ -25,6 +39,28 @@ const googleAuthSchema = z.object({
   token: z.string().min(1, 'Google token is required'),
 });
 
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: passwordSchema,
+});
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(32),
+});
+
+const twoFactorChallengeSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().trim().min(1, 'Code is required').max(32),
+});
+
 // Sign up with email
 router.post('/signup', async (req, res) => {
   try {
@@ -49,16 +85,16 @@ router.post('/signup', async (req, res) => {
       onboardingCompleted: false,
     });
 
-    // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(newUser._id.toString(), newUser.email);
+    // Send verification email (signup still succeeds if mail delivery fails)
+    try {
+      await emailVerificationService.sendVerificationEmail(newUser._id.toString());
+    } catch (mailError) {
+      console.error('Verification email error:', mailError instanceof Error ? mailError.message : 'Unknown error');
+    }
 
-    // Set refresh token as httpOnly cookie
-    res.cookie('refreshToken', refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-    });
+    // Start a new session
+    const { accessToken, refreshToken } = await refreshTokenService.createSession(newUser._id.toString(), newUser.email);
+    setRefreshTokenCookie(res, refreshToken);
 
     // Broadcast stats update to all connected users
     broadcastStatsUpdate();
@@ -69,6 +105,8 @@ router.post('/signup', async (req, res) => {
         id: newUser._id.toString(),
         name: newUser.name,
         email: newUser.email,
+        emailVerified: newUser.emailVerified,
+        twoFactorEnabled: newUser.twoFactorEnabled,
         avatar: newUser.avatar,
         onboardingCompleted: newUser.onboardingCompleted,
       },
@@ -101,16 +139,18 @@ router.post('/login', async (req, res) => {
       return res.status(401).json({ error: 'Invalid email or password' });
     }
 
-    // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(user._id.toString(), user.email);
+    // Accounts with two-factor enabled must complete POST /2fa/verify before getting tokens
+    if (user.twoFactorEnabled) {
+      return res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user._id.toString(), user.email),
+      });
+    }
 
-    // Set refresh token as httpOnly cookie
-    res.cookie('refreshToken', refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-    });
+    // Start a new session
+    const { accessToken, refreshToken } = await refreshTokenService.createSession(user._id.toString(), user.email);
+    setRefreshTokenCookie(res, refreshToken);
 
     res.json({
       message: 'Login successful',
@@ -118,6 +158,8 @@ router.post('/login', async (req, res) => {
         id: user._id.toString(),
         name: user.name,
         email: user.email,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
         avatar: user.avatar,
         college: user.college,
         city: user.city,
@@ -176,16 +218,17 @@ router.post('/google', async (req, res) => {
       }
     }
 
-    // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(user._id.toString(), user.email);
+    if (user.twoFactorEnabled) {
+      return res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user._id.toString(), user.email),
+      });
+    }
 
-    // Set refresh token as httpOnly cookie
-    res.cookie('refreshToken', refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-    });
+    // Start a new session
+    const { accessToken, refreshToken } = await refreshTokenService.createSession(user._id.toString(), user.email);
+    setRefreshTokenCookie(res, refreshToken);
 
     res.json({
       message: 'Google login successful',
@@ -193,6 +236,8 @@ router.post('/google', async (req, res) => {
         id: user._id.toString(),
         name: user.name,
         email: user.email,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
         avatar: user.avatar,
         college: user.college,
         city: user.city,
@@ -212,6 +257,51 @@ router.post('/google', async (req, res) => {
   }
 });
 
+// Complete login with a two-factor code or recovery code
+router.post('/2fa/verify', async (req, res) => {
+  try {
+    const { challengeToken, code } = twoFactorChallengeSchema.parse(req.body);
+
+    const user = await twoFactorService.completeChallenge(challengeToken, code);
+
+    // Start a new session
+    const { accessToken, refreshToken } = await refreshTokenService.createSession(user._id.toString(), user.email);
+    setRefreshTokenCookie(res, refreshToken);
+
+    res.json({
+      message: 'Login successful',
+      user: {
+        id: user._id.toString(),
+        name: user.name,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+        avatar: user.avatar,
+        college: user.college,
+        city: user.city,
+        bio: user.bio,
+        skills: user.skills,
+        preferences: user.preferences,
+        onboardingCompleted: user.onboardingCompleted,
+      },
+      accessToken,
+    });
+  } catch (error) {
+    console.error('Two-factor verify error:', error instanceof Error ? error.message : 'Unknown error');
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Too many')) {
+      return res.status(429).json({ error: message });
+    }
+    if (message.includes('Invalid two-factor code') || message.includes('challenge')) {
+      return res.status(401).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Get Google Auth URL
 router.get('/google/url', (req, res) => {
   try {
@@ -223,12 +313,196 @@ router.get('/google/url', (req, res) => {
   }
 });
 
+// Exchange a refresh token for a new token pair (rotates the refresh token)
+router.post('/refresh', async (req, res) => {
+  try {
+    const presentedToken = req.cookies?.refreshToken || req.body?.refreshToken;
+
+    if (!presentedToken) {
+      return res.status(401).json({ error: 'Refresh token required' });
+    }
+
+    const { accessToken, refreshToken } = await refreshTokenService.rotateRefreshToken(presentedToken);
+    setRefreshTokenCookie(res, refreshToken);
+
+    res.json({
+      message: 'Token refreshed successfully',
+      accessToken,
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error instanceof Error ? error.message : 'Unknown error');
+    res.clearCookie('refreshToken');
+    res.status(401).json({ error: 'Invalid or expired refresh token' });
+  }
+});
+
 // Logout
-router.post('/logout', (req, res) => {
+router.post('/logout', async (req, res) => {
+  try {
+    const presentedToken = req.cookies?.refreshToken || req.body?.refreshToken;
+
+    if (presentedToken) {
+      await refreshTokenService.revokeRefreshToken(presentedToken);
+    }
+  } catch (error) {
+    console.error('Logout error:', error instanceof Error ? error.message : 'Unknown error');
+  }
+
   res.clearCookie('refreshToken');
   res.json({ message: 'Logged out successfully' });
 });
 
+// Verify email address from the link sent by email
+router.get('/verify-email', async (req, res) => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.query);
+
+    await emailVerificationService.verifyEmail(token);
+
+    res.json({ message: 'Email verified successfully' });
+  } catch (error) {
+    console.error('Verify email error:', error instanceof Error ? error.message : 'Unknown error');
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof Error && error.message.includes('Verification link')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Resend the verification email
+router.post('/resend-verification', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    await emailVerificationService.sendVerificationEmail(req.user!.id);
+
+    res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Resend verification error:', error instanceof Error ? error.message : 'Unknown error');
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Too many')) {
+      return res.status(429).json({ error: message });
+    }
+    if (message.includes('already verified')) {
+      return res.status(400).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Request a password reset link
+router.post('/forgot-password', async (req, res) => {
+  try {
+    const { email } = forgotPasswordSchema.parse(req.body);
+
+    await passwordResetService.requestPasswordReset(email);
+
+    // Same response whether or not the account exists
+    res.json({ message: 'If an account exists for that email, a reset link has been sent' });
+  } catch (error) {
+    console.error('Forgot password error:', error instanceof Error ? error.message : 'Unknown error');
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Set a new password using a reset link
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { token, password } = resetPasswordSchema.parse(req.body);
+
+    await passwordResetService.resetPassword(token, password);
+
+    res.clearCookie('refreshToken');
+    res.json({ message: 'Password reset successfully. Please sign in with your new password.' });
+  } catch (error) {
+    console.error('Reset password error:', error instanceof Error ? error.message : 'Unknown error');
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof Error && error.message.includes('Reset link')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Map two-factor settings errors to responses
+const handleTwoFactorError = (res: Response, error: unknown, context: string) => {
+  console.error(`${context} error:`, error instanceof Error ? error.message : 'Unknown error');
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: error.errors[0].message });
+  }
+  const message = error instanceof Error ? error.message : '';
+  if (message.includes('not found')) {
+    return res.status(404).json({ error: message });
+  }
+  if (message.includes('Too many')) {
+    return res.status(429).json({ error: message });
+  }
+  if (message.includes('Invalid two-factor code') || message.includes('already enabled') ||
+      message.includes('not enabled') || message.includes('No two-factor setup')) {
+    return res.status(400).json({ error: message });
+  }
+  res.status(500).json({ error: 'Internal server error' });
+};
+
+// Start two-factor enrollment
+router.post('/2fa/setup', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { secret, otpauthUri } = await twoFactorService.beginSetup(req.user!.id);
+
+    res.json({ secret, otpauthUri });
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Two-factor setup');
+  }
+});
+
+// Confirm enrollment with a code from the authenticator app
+router.post('/2fa/enable', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    const recoveryCodes = await twoFactorService.enable(req.user!.id, code);
+
+    res.json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes,
+    });
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Two-factor enable');
+  }
+});
+
+// Turn two-factor authentication off
+router.post('/2fa/disable', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    await twoFactorService.disable(req.user!.id, code);
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Two-factor disable');
+  }
+});
+
+// Replace recovery codes
+router.post('/2fa/recovery-codes', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user!.id, code);
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    handleTwoFactorError(res, error, 'Recovery codes');
+  }
+});
+
 // Get current user
 router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -243,6 +517,8 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res) => {
         id: user._id.toString(),
         name: user.name,
         email: user.email,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
         avatar: user.avatar,
         college: user.college,
         city: user.city,
@@ -269,6 +545,13 @@ router.put('/profile', authenticateToken, async (req: AuthRequest, res) => {
     delete updateData.email;
     delete updateData.password;
     delete updateData.googleId;
+    delete updateData.emailVerified;
+    delete updateData.passwordChangedAt;
+    for (const key of Object.keys(updateData)) {
+      if (key.startsWith('twoFactor')) {
+        delete updateData[key];
+      }
+    }
 
     const updatedUser = await User.findByIdAndUpdate(
       req.user!.id,
@@ -286,6 +569,8 @@ router.put('/profile', authenticateToken, async (req: AuthRequest, res) => {
         id: updatedUser._id.toString(),
         name: updatedUser.name,
         email: updatedUser.email,
+        emailVerified: updatedUser.emailVerified,
+        twoFactorEnabled: updatedUser.twoFactorEnabled,
         avatar: updatedUser.avatar,
         college: updatedUser.college,
         city: updatedUser.city,
@@ -3,19 +3,56 @@ import { z } from 'zod';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
 import { builderSpaceService } from '../services/BuilderSpaceService.js';
 import { groupChatService } from '../services/GroupChatService.js';
+import { channelService } from '../services/ChannelService.js';
 import { sharedLinkService } from '../services/SharedLinkService.js';
 import { taskService } from '../services/TaskService.js';
-import { TeamSpace, TeamMember, User } from '../db/index.js';
+import { taskLabelService } from '../services/TaskLabelService.js';
+import { taskCommentService } from '../services/TaskCommentService.js';
+import { taskActivityService } from '../services/TaskActivityService.js';
+import { taskWorkflowService } from '../services/TaskWorkflowService.js';
+import { milestoneService } from '../services/MilestoneService.js';
+import { messageBroadcastService } from '../services/MessageBroadcastService.js';
+import { readCursorService } from '../services/ReadCursorService.js';
+import { TeamSpace, TeamMember, SpaceChannel, User, messagePageQuerySchema } from '../db/index.js';
+import { labelColorSchema, taskPrioritySchema, taskStatusSchema, taskWorkflowColumnSchema } from '../shared/realtimeProtocol.js';
+import { TASK_SORTS } from '../utils/taskQuery.js';
 
 const router = Router();
 
+// Filter and sort for task lists, e.g. ?filter=mine+overdue&sort=due
+const taskListQuerySchema = z.object({
+  filter: z.string().max(500).optional(),
+  sort: z.enum(TASK_SORTS).optional(),
+});
+
+// Task fields besides title, description and status; null clears one
+const taskDetailsSchema = z.object({
+  assigneeIds: z.array(z.string()).max(50).optional(),
+  dueDate: z.string().datetime({ message: 'Due date must be an ISO date' }).nullable().optional(),
+  priority: taskPrioritySchema.optional(),
+  labelIds: z.array(z.string()).max(20).optional(),
+  milestoneId: z.string().nullable().optional(),
+});
+
 // Get all Builder Spaces for the current user
 router.get('/my', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.id;
-    const spaces = await builderSpaceService.getUserBuilderSpaces(userId);
+    // Spaces come back as plain objects, which carry _id but not the id virtual
+    const spaces = (await builderSpaceService.getUserBuilderSpaces(userId)).map((space) => ({
+      ...space,
+      id: (space as { _id?: { toString(): string } })._id?.toString() ?? space.id,
+    }));
+    // Read positions are kept per channel, so a space's count is its channels' counts added up
+    const channels = await SpaceChannel.find({ spaceId: { $in: spaces.map(space => space.id) } });
+    const channelUnreadCounts = await readCursorService.getUnreadCounts(userId, 'group', channels.map(channel => channel.id));
+    const unreadCounts: Record<string, number> = {};
+    for (const channel of channels) {
+      const spaceId = channel.spaceId.toString();
+      unreadCounts[spaceId] = (unreadCounts[spaceId] ?? 0) + channelUnreadCounts[channel.id];
+    }
     
-    // Add member count to each space
+    // Add member count and unread message count to each space
     const spacesWithCount = await Promise.all(
       spaces.map(async (space) => {
         const memberCount = await TeamMember.countDocuments({
@@ -26,6 +63,7 @@ router.get('/my', authenticateToken, async (req: AuthRequest, res) => {
         return {
           ...space,
           memberCount,
+          unreadCount: unreadCounts[space.id] ?? 0,
         };
       })
     );
@@ -37,6 +75,27 @@ router.get('/my', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// Get the tasks assigned to the current user across all of their Builder Spaces
+router.get('/my/tasks', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const query = taskListQuerySchema.parse(req.query);
+
+    const tasks = await taskService.getMyTasks(req.user!.id, query);
+
+    res.json({ tasks });
+  } catch (error) {
+    console.error('Get my tasks error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Invalid filter')) {
+      return res.status(400).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Invite user to Builder Space
 router.post('/:id/invite', authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -144,7 +203,7 @@ router.get('/:id/members', authenticateToken, async (req: AuthRequest, res) => {
       postType: space.postType,
       postId: space.postId
     })
-      .populate('userId', 'name email avatar')
+      .populate('userId', 'name email avatar lastSeenAt')
       .lean();
 
     // Check if current user is founder
@@ -159,6 +218,8 @@ router.get('/:id/members', authenticateToken, async (req: AuthRequest, res) => {
       userName: m.userId.name,
       userEmail: m.userId.email,
       userAvatar: m.userId.avatar,
+      lastSeenAt: m.userId.lastSeenAt,
+      isOnline: messageBroadcastService.isUserOnline(m.userId._id.toString()),
     }));
 
     res.json({
@@ -220,20 +281,155 @@ router.delete('/:id/members/:memberId', authenticateToken, async (req: AuthReque
   }
 });
 
+/**
+ * Status for a channel management error
+ */
+function channelErrorStatus(message: string): number {
+  if (message.includes('not found')) return 404;
+  if (message.includes('Access denied') || message.includes('not authorized')) return 403;
+  if (message.includes('already exists')) return 409;
+  if (message.includes('Invalid channel name') || message.includes('cannot be archived')) return 400;
+  return 500;
+}
+
+const channelNameSchema = z.object({
+  name: z.string().min(1, 'Channel name is required').max(100),
+});
+
+// List the Builder Space's channels, #general first, archived ones included
+router.get('/:id/channels', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const channels = await channelService.listChannels(req.params.id, req.user!.id);
+
+    res.json({ channels });
+  } catch (error) {
+    console.error('Get channels error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = channelErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Create a channel (founders only unless the space lets members manage channels)
+router.post('/:id/channels', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { name } = channelNameSchema.parse(req.body);
+
+    const channel = await channelService.createChannel({ spaceId: req.params.id, userId: req.user!.id, name });
+
+    res.status(201).json({ channel });
+  } catch (error) {
+    console.error('Create channel error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    const status = channelErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Rename a channel
+router.patch('/:id/channels/:channelId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { name } = channelNameSchema.parse(req.body);
+
+    const channel = await channelService.renameChannel({
+      spaceId: req.params.id,
+      channelId: req.params.channelId,
+      userId: req.user!.id,
+      name,
+    });
+
+    res.json({ channel });
+  } catch (error) {
+    console.error('Rename channel error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    const status = channelErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Archive a channel: its history stays readable but it takes no new messages
+router.post('/:id/channels/:channelId/archive', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const channel = await channelService.archiveChannel({
+      spaceId: req.params.id,
+      channelId: req.params.channelId,
+      userId: req.user!.id,
+    });
+
+    res.json({ channel });
+  } catch (error) {
+    console.error('Archive channel error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = channelErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Take a channel out of the archive
+router.post('/:id/channels/:channelId/unarchive', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const channel = await channelService.unarchiveChannel({
+      spaceId: req.params.id,
+      channelId: req.params.channelId,
+      userId: req.user!.id,
+    });
+
+    res.json({ channel });
+  } catch (error) {
+    console.error('Unarchive channel error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = channelErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Change Builder Space settings (founders only)
+router.patch('/:id/settings', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { membersCanManageChannels } = z.object({
+      membersCanManageChannels: z.boolean(),
+    }).parse(req.body);
+
+    await channelService.setMembersCanManageChannels(req.params.id, req.user!.id, membersCanManageChannels);
+
+    res.json({ message: 'Settings updated', settings: { membersCanManageChannels } });
+  } catch (error) {
+    console.error('Update Builder Space settings error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    const status = channelErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
 // Send group message in Builder Space
 router.post('/:id/messages', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
     const userId = req.user!.id;
     
-    const { content } = z.object({
+    const { content, clientId, channelId, parentMessageId } = z.object({
       content: z.string().min(1).max(5000),
+      clientId: z.string().min(1).max(64).optional(),
+      channelId: z.string().min(1).optional(),
+      parentMessageId: z.string().min(1).optional(),
     }).parse(req.body);
 
     const messageData = await groupChatService.sendGroupMessage({
       spaceId: id,
       senderId: userId,
       content,
+      clientId,
+      channelId,
+      parentMessageId,
     });
 
     res.status(201).json({
@@ -245,6 +441,15 @@ router.post('/:id/messages', authenticateToken, async (req: AuthRequest, res) =>
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors[0].message });
     }
+    if (error.message.includes('Message not found') || error.message.includes('Channel not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message.includes('Invalid thread') || error.message.includes('has been deleted')) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.message.includes('is archived')) {
+      return res.status(409).json({ error: error.message });
+    }
     if (error.message.includes('not found') || error.message.includes('not a member') || error.message.includes('not authorized')) {
       return res.status(403).json({ error: error.message });
     }
@@ -252,17 +457,28 @@ router.post('/:id/messages', authenticateToken, async (req: AuthRequest, res) =>
   }
 });
 
-// Get group messages in Builder Space
+// Get a page of a channel's messages in Builder Space (#general without ?channelId=; newest first page, older ones with ?before=)
 router.get('/:id/messages', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
     const userId = req.user!.id;
+    const page = messagePageQuerySchema.parse(req.query);
+    const { channelId } = z.object({ channelId: z.string().min(1).optional() }).parse(req.query);
 
-    const messages = await groupChatService.getGroupMessages(id, userId);
+    const { messages, hasMore, startCursor, endCursor } = await groupChatService.getGroupMessages(id, userId, page, channelId);
 
-    res.json({ messages });
+    res.json({ messages, hasMore, startCursor, endCursor });
   } catch (error: any) {
     console.error('Get group messages error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error.message.includes('Invalid cursor')) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.message.includes('Channel not found')) {
+      return res.status(404).json({ error: error.message });
+    }
     if (error.message.includes('not found') || error.message.includes('not a member')) {
       return res.status(403).json({ error: error.message });
     }
@@ -270,6 +486,205 @@ router.get('/:id/messages', authenticateToken, async (req: AuthRequest, res) =>
   }
 });
 
+// Get a thread: the message that started it and a page of its replies
+router.get('/:id/messages/:messageId/replies', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id, messageId } = req.params;
+    const userId = req.user!.id;
+    const page = messagePageQuerySchema.parse(req.query);
+
+    const { parent, messages, hasMore, startCursor, endCursor } = await groupChatService.getThreadMessages(
+      id,
+      messageId,
+      userId,
+      page
+    );
+
+    res.json({ parent, messages, hasMore, startCursor, endCursor });
+  } catch (error) {
+    console.error('Get thread replies error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (message.includes('Invalid cursor') || message.includes('Invalid thread')) {
+      return res.status(400).json({ error: message });
+    }
+    if (message.includes('Message not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('Access denied') || message.includes('not found')) {
+      return res.status(403).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add or take back the user's emoji reaction to a group message
+router.post('/:id/messages/:messageId/reactions', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id, messageId } = req.params;
+    const userId = req.user!.id;
+
+    const { emoji } = z.object({
+      emoji: z.string().min(1).max(32),
+    }).parse(req.body);
+
+    const reaction = await groupChatService.toggleReaction({
+      spaceId: id,
+      messageId,
+      userId,
+      emoji,
+    });
+
+    res.json({ reaction });
+  } catch (error) {
+    console.error('Toggle reaction error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (message.includes('Invalid emoji')) {
+      return res.status(400).json({ error: message });
+    }
+    if (message.includes('Message not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('Access denied') || message.includes('not found')) {
+      return res.status(403).json({ error: message });
+    }
+    if (message.includes('has been deleted')) {
+      return res.status(409).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Edit own group message within the edit window
+router.patch('/:id/messages/:messageId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id, messageId } = req.params;
+    const userId = req.user!.id;
+
+    const { content } = z.object({
+      content: z.string().min(1).max(5000),
+    }).parse(req.body);
+
+    const messageData = await groupChatService.editGroupMessage({
+      spaceId: id,
+      messageId,
+      userId,
+      content,
+    });
+
+    res.json({
+      message: 'Message updated successfully',
+      data: messageData,
+    });
+  } catch (error) {
+    console.error('Edit group message error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (message.includes('Message not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('Access denied') || message.includes('not found')) {
+      return res.status(403).json({ error: message });
+    }
+    if (message.includes('has been deleted') || message.includes('changed by someone else')) {
+      return res.status(409).json({ error: message });
+    }
+    if (message.includes('Message content')) {
+      return res.status(400).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a group message (own within the edit window, or any as a founder)
+router.delete('/:id/messages/:messageId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id, messageId } = req.params;
+    const userId = req.user!.id;
+
+    const messageData = await groupChatService.deleteGroupMessage({
+      spaceId: id,
+      messageId,
+      userId,
+    });
+
+    res.json({
+      message: 'Message deleted successfully',
+      data: messageData,
+    });
+  } catch (error) {
+    console.error('Delete group message error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Message not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('Access denied') || message.includes('not found')) {
+      return res.status(403).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark a Builder Space channel as read up to a message (the newest one if none is given)
+router.post('/:id/channels/:channelId/read', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id, channelId } = req.params;
+    const userId = req.user!.id;
+
+    const { messageId } = z.object({
+      messageId: z.string().min(1).optional(),
+    }).parse(req.body);
+
+    const channel = await channelService.resolveChannel(id, channelId);
+    const readReceipt = await readCursorService.markRead(userId, 'group', channel.id, messageId);
+
+    res.json({ readReceipt });
+  } catch (error) {
+    console.error('Mark group chat read error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (message.includes('Message not found') || message.includes('Channel not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('not found') || message.includes('not a team member')) {
+      return res.status(403).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get how far each team member has read in a Builder Space channel
+router.get('/:id/channels/:channelId/read', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id, channelId } = req.params;
+    const userId = req.user!.id;
+
+    const channel = await channelService.resolveChannel(id, channelId);
+    const readReceipts = await readCursorService.getReadReceipts(userId, 'group', channel.id);
+
+    res.json({ readReceipts });
+  } catch (error) {
+    console.error('Get group chat read receipts error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Channel not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('not found') || message.includes('not a team member')) {
+      return res.status(403).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Add shared link to Builder Space
 router.post('/:id/links', authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -354,9 +769,10 @@ router.post('/:id/tasks', authenticateToken, async (req: AuthRequest, res) => {
     const { id } = req.params;
     const userId = req.user!.id;
     
-    const { title, description } = z.object({
+    const { title, description, status, dueDate, ...details } = taskDetailsSchema.extend({
       title: z.string().min(1).max(200),
       description: z.string().max(2000).optional(),
+      status: taskStatusSchema.optional(),
     }).parse(req.body);
 
     const task = await taskService.createTask({
@@ -364,6 +780,9 @@ router.post('/:id/tasks', authenticateToken, async (req: AuthRequest, res) => {
       creatorId: userId,
       title,
       description,
+      status,
+      dueDate: dueDate ? new Date(dueDate) : null,
+      ...details,
     });
 
     res.status(201).json({
@@ -375,6 +794,9 @@ router.post('/:id/tasks', authenticateToken, async (req: AuthRequest, res) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors[0].message });
     }
+    if (error.message.includes('Invalid task')) {
+      return res.status(400).json({ error: error.message });
+    }
     if (error.message.includes('not found') || error.message.includes('not a member')) {
       return res.status(403).json({ error: error.message });
     }
@@ -388,11 +810,19 @@ router.get('/:id/tasks', authenticateToken, async (req: AuthRequest, res) => {
     const { id } = req.params;
     const userId = req.user!.id;
 
-    const tasks = await taskService.getTasks(id, userId);
+    const query = taskListQuerySchema.parse(req.query);
+
+    const tasks = await taskService.getTasks(id, userId, query);
 
     res.json({ tasks });
   } catch (error: any) {
     console.error('Get tasks error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error.message.includes('Invalid filter')) {
+      return res.status(400).json({ error: error.message });
+    }
     if (error.message.includes('not found') || error.message.includes('not a member')) {
       return res.status(403).json({ error: error.message });
     }
@@ -400,20 +830,23 @@ router.get('/:id/tasks', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Update task status in Builder Space
+// Move task to a status column, and optionally a place in it, in Builder Space
 router.put('/:id/tasks/:taskId', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const { taskId } = req.params;
+    const { id, taskId } = req.params;
     const userId = req.user!.id;
     
-    const { completed } = z.object({
-      completed: z.boolean(),
+    const { status, index } = z.object({
+      status: taskStatusSchema,
+      index: z.number().int().min(0).optional(),
     }).parse(req.body);
 
-    const task = await taskService.updateTaskStatus({
+    const task = await taskService.moveTask({
+      spaceId: id,
       taskId,
       userId,
-      completed,
+      status,
+      index,
     });
 
     res.json({
@@ -431,6 +864,54 @@ router.put('/:id/tasks/:taskId', authenticateToken, async (req: AuthRequest, res
     if (error.message.includes('not a member')) {
       return res.status(403).json({ error: error.message });
     }
+    if (error.message.includes('is blocked')) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error.message.includes('Invalid task')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Edit a task's title, description, assignees, due date, priority or labels
+router.patch('/:id/tasks/:taskId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { id, taskId } = req.params;
+    const userId = req.user!.id;
+
+    const { dueDate, ...fields } = taskDetailsSchema.extend({
+      title: z.string().min(1).max(200).optional(),
+      description: z.string().max(2000).nullable().optional(),
+    }).parse(req.body);
+
+    const task = await taskService.updateTask({
+      spaceId: id,
+      taskId,
+      userId,
+      ...fields,
+      dueDate: dueDate === undefined ? undefined : dueDate && new Date(dueDate),
+    });
+
+    res.json({
+      message: 'Task updated successfully',
+      task,
+    });
+  } catch (error) {
+    console.error('Edit task error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Invalid task')) {
+      return res.status(400).json({ error: message });
+    }
+    if (message.includes('not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('not a member')) {
+      return res.status(403).json({ error: message });
+    }
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -438,10 +919,10 @@ router.put('/:id/tasks/:taskId', authenticateToken, async (req: AuthRequest, res
 // Delete task from Builder Space
 router.delete('/:id/tasks/:taskId', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const { taskId } = req.params;
+    const { id, taskId } = req.params;
     const userId = req.user!.id;
 
-    await taskService.deleteTask(taskId, userId);
+    await taskService.deleteTask(id, taskId, userId);
 
     res.json({ message: 'Task deleted successfully' });
   } catch (error: any) {
@@ -449,13 +930,446 @@ router.delete('/:id/tasks/:taskId', authenticateToken, async (req: AuthRequest,
     if (error.message.includes('not found')) {
       return res.status(404).json({ error: error.message });
     }
-    if (error.message.includes('not authorized')) {
+    if (error.message.includes('not authorized') || error.message.includes('not a member')) {
       return res.status(403).json({ error: error.message });
     }
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+/**
+ * Status for an error with a task's checklist, dependencies, comments or history
+ */
+function taskDetailErrorStatus(message: string): number {
+  if (message.includes('not found')) return 404;
+  if (message.includes('Access denied')) return 403;
+  if (message.includes('Invalid task') || message.includes('Invalid comment') || message.includes('Invalid dependency')) return 400;
+  return 500;
+}
+
+const checklistItemSchema = z.object({
+  text: z.string().min(1, 'Checklist item text is required').max(200),
+});
+
+// Add a step to a task's checklist
+router.post('/:id/tasks/:taskId/checklist', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { text } = checklistItemSchema.parse(req.body);
+
+    const task = await taskService.addChecklistItem(req.params.id, req.params.taskId, req.user!.id, text);
+
+    res.status(201).json({ task });
+  } catch (error) {
+    console.error('Add checklist item error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    const status = taskDetailErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Tick off or rename a checklist step
+router.patch('/:id/tasks/:taskId/checklist/:itemId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { text, done } = checklistItemSchema.partial().extend({ done: z.boolean().optional() }).parse(req.body);
+
+    const task = await taskService.updateChecklistItem({
+      spaceId: req.params.id,
+      taskId: req.params.taskId,
+      itemId: req.params.itemId,
+      userId: req.user!.id,
+      text,
+      done,
+    });
+
+    res.json({ task });
+  } catch (error) {
+    console.error('Update checklist item error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    const status = taskDetailErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Take a step off a task's checklist
+router.delete('/:id/tasks/:taskId/checklist/:itemId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const task = await taskService.removeChecklistItem(req.params.id, req.params.taskId, req.params.itemId, req.user!.id);
+
+    res.json({ task });
+  } catch (error) {
+    console.error('Remove checklist item error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = taskDetailErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Get the space's blocked-by edges and the tasks at either end of one
+router.get('/:id/dependencies', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const dependencies = await taskService.getDependencyGraph(req.params.id, req.user!.id);
+
+    res.json({ dependencies });
+  } catch (error) {
+    console.error('Get task dependencies error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = taskDetailErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Make a task wait on another task of the space
+router.post('/:id/tasks/:taskId/dependencies', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { blockedById } = z.object({
+      blockedById: z.string().min(1, 'Blocking task is required'),
+    }).parse(req.body);
+
+    const task = await taskService.addDependency(req.params.id, req.params.taskId, blockedById, req.user!.id);
+
+    res.status(201).json({ task });
+  } catch (error) {
+    console.error('Add task dependency error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    const status = taskDetailErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Stop a task waiting on another
+router.delete('/:id/tasks/:taskId/dependencies/:blockedById', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const task = await taskService.removeDependency(req.params.id, req.params.taskId, req.params.blockedById, req.user!.id);
+
+    res.json({ task });
+  } catch (error) {
+    console.error('Remove task dependency error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = taskDetailErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Get a task's comments, oldest first
+router.get('/:id/tasks/:taskId/comments', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const comments = await taskCommentService.listComments(req.params.id, req.params.taskId, req.user!.id);
+
+    res.json({ comments });
+  } catch (error) {
+    console.error('Get task comments error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = taskDetailErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Comment on a task
+router.post('/:id/tasks/:taskId/comments', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { content } = z.object({
+      content: z.string().min(1, 'Comment content is required').max(2000),
+    }).parse(req.body);
+
+    const comment = await taskCommentService.createComment({ spaceId: req.params.id, taskId: req.params.taskId, userId: req.user!.id, content });
+
+    res.status(201).json({ comment });
+  } catch (error) {
+    console.error('Create task comment error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    const status = taskDetailErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Delete a task comment (only by its author)
+router.delete('/:id/tasks/:taskId/comments/:commentId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    await taskCommentService.deleteComment(req.params.id, req.params.taskId, req.params.commentId, req.user!.id);
+
+    res.json({ message: 'Comment deleted successfully' });
+  } catch (error) {
+    console.error('Delete task comment error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = taskDetailErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Get a task's history, oldest first
+router.get('/:id/tasks/:taskId/activity', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const activity = await taskActivityService.listActivity(req.params.id, req.params.taskId, req.user!.id);
+
+    res.json({ activity });
+  } catch (error) {
+    console.error('Get task activity error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = taskDetailErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+/**
+ * Status for a task label error
+ */
+function labelErrorStatus(message: string): number {
+  if (message.includes('not found')) return 404;
+  if (message.includes('Access denied')) return 403;
+  if (message.includes('already exists')) return 409;
+  if (message.includes('Invalid label')) return 400;
+  return 500;
+}
+
+const labelSchema = z.object({
+  name: z.string().min(1, 'Label name is required').max(100),
+  color: labelColorSchema.optional(),
+});
+
+// List the Builder Space's task labels
+router.get('/:id/labels', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const labels = await taskLabelService.listLabels(req.params.id, req.user!.id);
+
+    res.json({ labels });
+  } catch (error) {
+    console.error('Get labels error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = labelErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Create a task label
+router.post('/:id/labels', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { name, color } = labelSchema.parse(req.body);
+
+    const label = await taskLabelService.createLabel({ spaceId: req.params.id, userId: req.user!.id, name, color });
+
+    res.status(201).json({ label });
+  } catch (error) {
+    console.error('Create label error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    const status = labelErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Rename or recolor a task label
+router.patch('/:id/labels/:labelId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { name, color } = labelSchema.partial().parse(req.body);
+
+    const label = await taskLabelService.updateLabel({
+      spaceId: req.params.id,
+      labelId: req.params.labelId,
+      userId: req.user!.id,
+      name,
+      color,
+    });
+
+    res.json({ label });
+  } catch (error) {
+    console.error('Update label error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    const status = labelErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Delete a task label, taking it off every task that has it
+router.delete('/:id/labels/:labelId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    await taskLabelService.deleteLabel(req.params.id, req.params.labelId, req.user!.id);
+
+    res.json({ message: 'Label deleted successfully' });
+  } catch (error) {
+    console.error('Delete label error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = labelErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+/**
+ * Status for a task board workflow error
+ */
+function workflowErrorStatus(message: string): number {
+  if (message.includes('not found')) return 404;
+  if (message.includes('Access denied')) return 403;
+  if (message.includes('Invalid workflow')) return 400;
+  return 500;
+}
+
+// Get the task board's columns, in order
+router.get('/:id/task-workflow', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const workflow = await taskWorkflowService.getWorkflow(req.params.id, req.user!.id);
+
+    res.json({ workflow });
+  } catch (error) {
+    console.error('Get task workflow error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = workflowErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Replace the task board's columns (founders only)
+router.put('/:id/task-workflow', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { columns } = z.object({ columns: z.array(taskWorkflowColumnSchema) }).parse(req.body);
+
+    const workflow = await taskWorkflowService.updateWorkflow({ spaceId: req.params.id, userId: req.user!.id, columns });
+
+    res.json({ workflow });
+  } catch (error) {
+    console.error('Update task workflow error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    const status = workflowErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+/**
+ * Status for a milestone error
+ */
+function milestoneErrorStatus(message: string): number {
+  if (message.includes('not found')) return 404;
+  if (message.includes('Access denied')) return 403;
+  if (message.includes('Invalid milestone')) return 400;
+  return 500;
+}
+
+// A calendar day like 2024-03-01, as midnight UTC
+const milestoneDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must look like 2024-03-01')
+  .transform(day => new Date(`${day}T00:00:00Z`))
+  .refine(date => !Number.isNaN(date.getTime()), 'Dates must look like 2024-03-01');
+
+const milestoneSchema = z.object({
+  name: z.string().min(1, 'Milestone name is required').max(100),
+  description: z.string().max(500).optional(),
+  startDate: milestoneDateSchema,
+  endDate: milestoneDateSchema,
+});
+
+// List the Builder Space's milestones, soonest first
+router.get('/:id/milestones', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const milestones = await milestoneService.listMilestones(req.params.id, req.user!.id);
+
+    res.json({ milestones });
+  } catch (error) {
+    console.error('Get milestones error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = milestoneErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Create a milestone
+router.post('/:id/milestones', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { name, description, startDate, endDate } = milestoneSchema.parse(req.body);
+
+    const milestone = await milestoneService.createMilestone({
+      spaceId: req.params.id,
+      userId: req.user!.id,
+      name,
+      description,
+      startDate,
+      endDate,
+    });
+
+    res.status(201).json({ milestone });
+  } catch (error) {
+    console.error('Create milestone error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    const status = milestoneErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Rename a milestone, change its description or move its dates
+router.patch('/:id/milestones/:milestoneId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const fields = milestoneSchema.partial().extend({
+      description: z.string().max(500).nullable().optional(),
+    }).parse(req.body);
+
+    const milestone = await milestoneService.updateMilestone({
+      spaceId: req.params.id,
+      milestoneId: req.params.milestoneId,
+      userId: req.user!.id,
+      ...fields,
+    });
+
+    res.json({ milestone });
+  } catch (error) {
+    console.error('Update milestone error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    const message = error instanceof Error ? error.message : '';
+    const status = milestoneErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Delete a milestone; its tasks stay on the board without one
+router.delete('/:id/milestones/:milestoneId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    await milestoneService.deleteMilestone(req.params.id, req.params.milestoneId, req.user!.id);
+
+    res.json({ message: 'Milestone deleted successfully' });
+  } catch (error) {
+    console.error('Delete milestone error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = milestoneErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
+// Get a milestone's remaining work on each of its days
+router.get('/:id/milestones/:milestoneId/burndown', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const burndown = await milestoneService.getBurndown(req.params.id, req.params.milestoneId, req.user!.id);
+
+    res.json({ burndown });
+  } catch (error) {
+    console.error('Get milestone burndown error:', error);
+    const message = error instanceof Error ? error.message : '';
+    const status = milestoneErrorStatus(message);
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : message });
+  }
+});
+
 // Delete entire Builder Space (only by founder)
 router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
@@ -486,10 +1400,14 @@ router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
     }
 
     // Delete all related data
-    const { TeamMember, SpaceLink, SpaceTask, SpaceMessage } = await import('../db/index.js');
+    const { TeamMember, SpaceLink, SpaceTask, SpaceLabel, SpaceMilestone, SpaceMessage, TaskComment, TaskActivity } = await import('../db/index.js');
     await TeamMember.deleteMany({ postType: space.postType, postId: space.postId });
     await SpaceLink.deleteMany({ spaceId: id });
     await SpaceTask.deleteMany({ spaceId: id });
+    await SpaceLabel.deleteMany({ spaceId: id });
+    await SpaceMilestone.deleteMany({ spaceId: id });
+    await TaskComment.deleteMany({ spaceId: id });
+    await TaskActivity.deleteMany({ spaceId: id });
     await SpaceMessage.deleteMany({ spaceId: id });
     await TeamSpace.findByIdAndDelete(id);
 
@@ -0,0 +1,222 @@
+import { Router } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { directMessageService } from '../services/DirectMessageService.js';
+import { readCursorService } from '../services/ReadCursorService.js';
+import { messagePageQuerySchema } from '../db/validation.js';
+
+const router = Router();
+
+/**
+ * GET /api/direct-messages
+ * Get the authenticated user's direct conversations, most recently active first
+ */
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const conversations = await directMessageService.listConversations(userId);
+    const unreadCounts = await readCursorService.getUnreadCounts(
+      userId,
+      'direct',
+      conversations.map(conversation => conversation.id)
+    );
+
+    res.json({
+      conversations: conversations.map(conversation => ({
+        ...conversation,
+        unreadCount: unreadCounts[conversation.id] ?? 0,
+      })),
+    });
+  } catch (error) {
+    console.error('Get direct conversations error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/direct-messages/contacts
+ * Get everyone the user can message, i.e. people they share a team with
+ */
+router.get('/contacts', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const contacts = await directMessageService.listContacts(req.user!.id);
+    res.json({ contacts });
+  } catch (error) {
+    console.error('Get direct message contacts error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/direct-messages
+ * Open the conversation with a teammate, starting it if needed
+ */
+router.post('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { userId } = req.body;
+
+    if (!userId || typeof userId !== 'string') {
+      return res.status(400).json({ error: 'User ID is required' });
+    }
+
+    const conversation = await directMessageService.getOrCreateConversation(req.user!.id, userId);
+    res.json({ conversation });
+  } catch (error) {
+    console.error('Open direct conversation error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('Access denied')) {
+      return res.status(403).json({ error: message });
+    }
+    if (message.includes('Invalid recipient')) {
+      return res.status(400).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/direct-messages/:id
+ * Get one conversation
+ */
+router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const conversation = await directMessageService.getConversation(req.params.id, req.user!.id);
+    res.json({ conversation });
+  } catch (error) {
+    console.error('Get direct conversation error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('Access denied')) {
+      return res.status(403).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/direct-messages/:id/messages
+ * Send a direct message
+ */
+router.post('/:id/messages', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { content, clientId } = req.body;
+
+    if (!content || typeof content !== 'string') {
+      return res.status(400).json({ error: 'Message content is required' });
+    }
+    if (clientId !== undefined && (typeof clientId !== 'string' || !clientId || clientId.length > 64)) {
+      return res.status(400).json({ error: 'Invalid client id' });
+    }
+
+    const message = await directMessageService.sendDirectMessage({
+      conversationId: req.params.id,
+      senderId: req.user!.id,
+      content,
+      clientId,
+    });
+
+    res.status(201).json({ message });
+  } catch (error) {
+    console.error('Send direct message error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Conversation not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('Access denied')) {
+      return res.status(403).json({ error: message });
+    }
+    if (message.includes('empty') || message.includes('exceed')) {
+      return res.status(400).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/direct-messages/:id/messages
+ * Get a page of a conversation's history
+ * The newest messages come first; pass ?before=<startCursor> for older ones or ?after=<endCursor> for newer ones
+ */
+router.get('/:id/messages', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const parsed = messagePageQuerySchema.safeParse(req.query);
+
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const { messages, hasMore, startCursor, endCursor } = await directMessageService.getDirectMessages(
+      req.params.id,
+      req.user!.id,
+      parsed.data
+    );
+    res.json({ messages, hasMore, startCursor, endCursor });
+  } catch (error) {
+    console.error('Get direct messages error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Invalid cursor')) {
+      return res.status(400).json({ error: message });
+    }
+    if (message.includes('not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('Access denied')) {
+      return res.status(403).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/direct-messages/:id/read
+ * Mark a conversation as read up to a message (the newest one if none is given)
+ */
+router.post('/:id/read', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { messageId } = req.body;
+
+    if (messageId !== undefined && (typeof messageId !== 'string' || !messageId)) {
+      return res.status(400).json({ error: 'Invalid message id' });
+    }
+
+    const readReceipt = await readCursorService.markRead(req.user!.id, 'direct', req.params.id, messageId);
+    res.json({ readReceipt });
+  } catch (error) {
+    console.error('Mark direct conversation read error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('Access denied')) {
+      return res.status(403).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/direct-messages/:id/read
+ * Get how far each participant has read
+ */
+router.get('/:id/read', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const readReceipts = await readCursorService.getReadReceipts(req.user!.id, 'direct', req.params.id);
+    res.json({ readReceipts });
+  } catch (error) {
+    console.error('Get direct conversation read receipts error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('Access denied')) {
+      return res.status(403).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { messageBroadcastService } from '../services/MessageBroadcastService.js';
+
+const router = Router();
+
+const missedQuerySchema = z.object({
+  after: z.coerce.number().int('after must be a sequence number').min(0, 'after must be a sequence number').optional(),
+});
+
+const acknowledgeSchema = z.object({
+  seq: z.number().int('seq must be a sequence number').min(1, 'seq must be a sequence number'),
+});
+
+// Get real-time events after a sequence number (default: after the last acknowledged one)
+router.get('/missed', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { after } = missedQuerySchema.parse(req.query);
+
+    const { messages, latestSeq, complete } = await messageBroadcastService.getMissedMessages(req.user!.id, after);
+
+    // When the gap is no longer retained the client has to reload its data instead
+    res.json({ events: messages, latestSeq, resyncRequired: after !== undefined && !complete });
+  } catch (error) {
+    console.error('Get missed events error:', error instanceof Error ? error.message : 'Unknown error');
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Acknowledge every event up to a sequence number so they are not delivered again
+router.post('/ack', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { seq } = acknowledgeSchema.parse(req.body);
+
+    await messageBroadcastService.acknowledgeMessages(req.user!.id, seq);
+
+    res.json({ message: 'Events acknowledged' });
+  } catch (error) {
+    console.error('Acknowledge events error:', error instanceof Error ? error.message : 'Unknown error');
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { User, Hackathon, Application, TeamSpace, TeamMember, insertHackathonSchema } from '../db/index.js';
-import { authenticateToken, AuthRequest, optionalAuth } from '../middleware/auth.js';
+import { authenticateToken, AuthRequest, requireVerifiedEmail, optionalAuth } from '../middleware/auth.js';
 import { broadcastStatsUpdate } from '../utils/statsHelper.js';
 
 const router = Router();
@@ -134,7 +134,7 @@ router.get('/:id', optionalAuth, async (req: AuthRequest, res) => {
 });
 
 // Create new hackathon
-router.post('/', authenticateToken, async (req: AuthRequest, res) => {
+router.post('/', authenticateToken, requireVerifiedEmail, async (req: AuthRequest, res) => {
   try {
     const hackathonData = insertHackathonSchema.parse(req.body);
 
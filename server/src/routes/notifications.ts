@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { notificationService } from '../services/NotificationService.js';
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  unreadOnly: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int('limit must be a whole number').min(1, 'limit must be at least 1').max(100, 'limit cannot exceed 100').optional(),
+});
+
+// Get the user's notifications, newest first, with the unread count
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { unreadOnly, limit } = listQuerySchema.parse(req.query);
+
+    const result = await notificationService.getNotifications(req.user!.id, {
+      unreadOnly: unreadOnly === 'true',
+      limit,
+    });
+
+    res.json(result);
+  } catch (error) {
+    console.error('Get notifications error:', error instanceof Error ? error.message : 'Unknown error');
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark every notification as read
+router.post('/read-all', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const updated = await notificationService.markAllRead(req.user!.id);
+
+    res.json({ message: 'Notifications marked as read', updated });
+  } catch (error) {
+    console.error('Mark all notifications read error:', error instanceof Error ? error.message : 'Unknown error');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark one notification as read
+router.post('/:id/read', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    await notificationService.markRead(req.user!.id, req.params.id);
+
+    res.json({ message: 'Notification marked as read' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    console.error('Mark notification read error:', message || 'Unknown error');
+    if (message.includes('not found')) {
+      return res.status(404).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -4,6 +4,7 @@ import request from 'supertest';
 import screeningChatRoutes from './screeningChats.js';
 import { screeningChatService } from '../services/ScreeningChatService.js';
 import { screeningMessageService } from '../services/ScreeningMessageService.js';
+import { readCursorService } from '../services/ReadCursorService.js';
 import { authenticateToken } from '../middleware/auth.js';
 import { validateScreeningChatAccess } from '../middleware/screeningChatAuth.js';
 
@@ -21,6 +22,16 @@ vi.mock('../services/ScreeningMessageService.js', () => ({
   screeningMessageService: {
     sendScreeningMessage: vi.fn(),
     getScreeningMessages: vi.fn(),
+    editScreeningMessage: vi.fn(),
+    deleteScreeningMessage: vi.fn(),
+  },
+}));
+
+vi.mock('../services/ReadCursorService.js', () => ({
+  readCursorService: {
+    markRead: vi.fn(),
+    getReadReceipts: vi.fn(),
+    getUnreadCounts: vi.fn(),
   },
 }));
 
@@ -74,6 +85,7 @@ describe('Screening Chat Routes', () => {
       ];
 
       vi.mocked(screeningChatService.getUserScreeningChats).mockResolvedValue(mockChats);
+      vi.mocked(readCursorService.getUnreadCounts).mockResolvedValue({ 'app-1': 2 });
 
       const response = await request(app)
         .get('/api/screening-chats')
@@ -84,10 +96,12 @@ describe('Screening Chat Routes', () => {
           {
             ...mockChats[0],
             createdAt: testDate.toISOString(),
+            unreadCount: 2,
           }
         ]
       });
       expect(screeningChatService.getUserScreeningChats).toHaveBeenCalledWith('test-user-id');
+      expect(readCursorService.getUnreadCounts).toHaveBeenCalledWith('test-user-id', 'screening', ['app-1']);
     });
 
     it('should handle errors gracefully', async () => {
@@ -355,13 +369,21 @@ describe('Screening Chat Routes', () => {
         },
       ];
 
-      vi.mocked(screeningMessageService.getScreeningMessages).mockResolvedValue(mockMessages);
+      vi.mocked(screeningMessageService.getScreeningMessages).mockResolvedValue({
+        messages: mockMessages,
+        hasMore: false,
+        startCursor: 'cursor-1',
+        endCursor: 'cursor-2',
+      });
 
       const response = await request(app)
         .get('/api/screening-chats/app-1/messages')
         .expect(200);
 
       expect(response.body).toEqual({ 
+        hasMore: false,
+        startCursor: 'cursor-1',
+        endCursor: 'cursor-2',
         messages: [
           {
             ...mockMessages[0],
@@ -377,18 +399,59 @@ describe('Screening Chat Routes', () => {
       });
       expect(screeningMessageService.getScreeningMessages).toHaveBeenCalledWith(
         'app-1',
-        'test-user-id'
+        'test-user-id',
+        {}
       );
     });
 
     it('should return empty array if no messages exist', async () => {
-      vi.mocked(screeningMessageService.getScreeningMessages).mockResolvedValue([]);
+      vi.mocked(screeningMessageService.getScreeningMessages).mockResolvedValue({
+        messages: [],
+        hasMore: false,
+        startCursor: null,
+        endCursor: null,
+      });
 
       const response = await request(app)
         .get('/api/screening-chats/app-1/messages')
         .expect(200);
 
-      expect(response.body).toEqual({ messages: [] });
+      expect(response.body).toEqual({ messages: [], hasMore: false, startCursor: null, endCursor: null });
+    });
+
+    it('should pass the cursor and page size through', async () => {
+      vi.mocked(screeningMessageService.getScreeningMessages).mockResolvedValue({
+        messages: [],
+        hasMore: false,
+        startCursor: null,
+        endCursor: null,
+      });
+
+      await request(app)
+        .get('/api/screening-chats/app-1/messages?before=cursor-1&limit=20')
+        .expect(200);
+
+      expect(screeningMessageService.getScreeningMessages).toHaveBeenCalledWith(
+        'app-1',
+        'test-user-id',
+        { before: 'cursor-1', limit: 20 }
+      );
+    });
+
+    it('should return 400 for conflicting or invalid cursors', async () => {
+      await request(app)
+        .get('/api/screening-chats/app-1/messages?before=a&after=b')
+        .expect(400);
+      await request(app)
+        .get('/api/screening-chats/app-1/messages?limit=0')
+        .expect(400);
+
+      vi.mocked(screeningMessageService.getScreeningMessages).mockRejectedValue(new Error('Invalid cursor'));
+      const response = await request(app)
+        .get('/api/screening-chats/app-1/messages?before=garbage')
+        .expect(400);
+
+      expect(response.body).toEqual({ error: 'Invalid cursor' });
     });
 
     it('should return 403 if user is not authorized', async () => {
@@ -405,4 +468,116 @@ describe('Screening Chat Routes', () => {
       });
     });
   });
+
+  describe('PATCH /api/screening-chats/:id/messages/:messageId', () => {
+    it('should edit the message', async () => {
+      const testDate = new Date('2024-01-01T00:00:00.000Z');
+      const editedAt = new Date('2024-01-01T00:05:00.000Z');
+      const mockMessage = {
+        id: 'msg-1',
+        applicationId: 'app-1',
+        senderId: 'test-user-id',
+        senderName: 'Test User',
+        content: 'Hello, fixed typo',
+        editedAt,
+        createdAt: testDate,
+        updatedAt: editedAt,
+      };
+      vi.mocked(screeningMessageService.editScreeningMessage).mockResolvedValue(mockMessage);
+
+      const response = await request(app)
+        .patch('/api/screening-chats/app-1/messages/msg-1')
+        .send({ content: 'Hello, fixed typo' })
+        .expect(200);
+
+      expect(response.body.message).toMatchObject({ id: 'msg-1', content: 'Hello, fixed typo', editedAt: editedAt.toISOString() });
+      expect(screeningMessageService.editScreeningMessage).toHaveBeenCalledWith({
+        applicationId: 'app-1',
+        messageId: 'msg-1',
+        userId: 'test-user-id',
+        content: 'Hello, fixed typo',
+      });
+    });
+
+    it('should return 403 once the edit window has passed', async () => {
+      vi.mocked(screeningMessageService.editScreeningMessage).mockRejectedValue(
+        new Error('Access denied: The edit window for this message has passed')
+      );
+
+      await request(app)
+        .patch('/api/screening-chats/app-1/messages/msg-1')
+        .send({ content: 'Too late' })
+        .expect(403);
+    });
+
+    it('should return 409 if the message was deleted', async () => {
+      vi.mocked(screeningMessageService.editScreeningMessage).mockRejectedValue(
+        new Error('Message has been deleted')
+      );
+
+      await request(app)
+        .patch('/api/screening-chats/app-1/messages/msg-1')
+        .send({ content: 'Anyone there?' })
+        .expect(409);
+    });
+  });
+
+  describe('DELETE /api/screening-chats/:id/messages/:messageId', () => {
+    it('should return 404 if the message is not in the chat', async () => {
+      vi.mocked(screeningMessageService.deleteScreeningMessage).mockRejectedValue(new Error('Message not found'));
+
+      const response = await request(app)
+        .delete('/api/screening-chats/app-1/messages/msg-9')
+        .expect(404);
+
+      expect(response.body).toEqual({ error: 'Message not found' });
+      expect(screeningMessageService.deleteScreeningMessage).toHaveBeenCalledWith({
+        applicationId: 'app-1',
+        messageId: 'msg-9',
+        userId: 'test-user-id',
+      });
+    });
+  });
+
+  describe('POST /api/screening-chats/:id/read', () => {
+    it('should mark the chat read up to the given message', async () => {
+      const readAt = new Date('2024-01-02T00:00:00.000Z');
+      const readReceipt = {
+        chat: 'screening',
+        chatId: 'app-1',
+        userId: 'test-user-id',
+        messageId: 'msg-2',
+        readAt,
+      };
+      vi.mocked(readCursorService.markRead).mockResolvedValue(readReceipt as never);
+
+      const response = await request(app)
+        .post('/api/screening-chats/app-1/read')
+        .send({ messageId: 'msg-2' })
+        .expect(200);
+
+      expect(response.body).toEqual({ readReceipt: { ...readReceipt, readAt: readAt.toISOString() } });
+      expect(readCursorService.markRead).toHaveBeenCalledWith('test-user-id', 'screening', 'app-1', 'msg-2');
+    });
+
+    it('should reject an invalid message id', async () => {
+      await request(app)
+        .post('/api/screening-chats/app-1/read')
+        .send({ messageId: 42 })
+        .expect(400);
+
+      expect(readCursorService.markRead).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if the message is not in the chat', async () => {
+      vi.mocked(readCursorService.markRead).mockRejectedValue(new Error('Message not found'));
+
+      const response = await request(app)
+        .post('/api/screening-chats/app-1/read')
+        .send({ messageId: 'msg-9' })
+        .expect(404);
+
+      expect(response.body).toEqual({ error: 'Message not found' });
+    });
+  });
 });
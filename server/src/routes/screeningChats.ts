@@ -3,6 +3,8 @@ import { authenticateToken, AuthRequest } from '../middleware/auth.js';
 import { validateScreeningChatAccess } from '../middleware/screeningChatAuth.js';
 import { screeningChatService } from '../services/ScreeningChatService.js';
 import { screeningMessageService } from '../services/ScreeningMessageService.js';
+import { readCursorService } from '../services/ReadCursorService.js';
+import { messagePageQuerySchema } from '../db/validation.js';
 
 const router = Router();
 
@@ -12,7 +14,17 @@ const router = Router();
  */
 router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const screeningChats = await screeningChatService.getUserScreeningChats(req.user!.id);
+    const chats = await screeningChatService.getUserScreeningChats(req.user!.id);
+    const unreadCounts = await readCursorService.getUnreadCounts(
+      req.user!.id,
+      'screening',
+      chats.map(chat => chat.applicationId)
+    );
+
+    const screeningChats = chats.map(chat => ({
+      ...chat,
+      unreadCount: unreadCounts[chat.applicationId] ?? 0,
+    }));
     res.json({ screeningChats });
   } catch (error: any) {
     console.error('Get screening chats error:', error);
@@ -80,16 +92,20 @@ router.get('/:id', authenticateToken, validateScreeningChatAccess, async (req: A
 router.post('/:id/messages', authenticateToken, validateScreeningChatAccess, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { content } = req.body;
+    const { content, clientId } = req.body;
 
     if (!content) {
       return res.status(400).json({ error: 'Message content is required' });
     }
+    if (clientId !== undefined && (typeof clientId !== 'string' || !clientId || clientId.length > 64)) {
+      return res.status(400).json({ error: 'Invalid client id' });
+    }
 
     const message = await screeningMessageService.sendScreeningMessage({
       applicationId: id,
       senderId: req.user!.id,
       content,
+      clientId,
     });
 
     res.status(201).json({ message });
@@ -107,15 +123,29 @@ router.post('/:id/messages', authenticateToken, validateScreeningChatAccess, asy
 
 /**
  * GET /api/screening-chats/:id/messages
- * Get message history for a screening chat
+ * Get a page of message history for a screening chat
+ * The newest messages come first; pass ?before=<startCursor> for older ones or ?after=<endCursor> for newer ones
  */
 router.get('/:id/messages', authenticateToken, validateScreeningChatAccess, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const messages = await screeningMessageService.getScreeningMessages(id, req.user!.id);
-    res.json({ messages });
+    const parsed = messagePageQuerySchema.safeParse(req.query);
+
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const { messages, hasMore, startCursor, endCursor } = await screeningMessageService.getScreeningMessages(
+      id,
+      req.user!.id,
+      parsed.data
+    );
+    res.json({ messages, hasMore, startCursor, endCursor });
   } catch (error: any) {
     console.error('Get screening messages error:', error);
+    if (error.message.includes('Invalid cursor')) {
+      return res.status(400).json({ error: error.message });
+    }
     if (error.message.includes('Access denied')) {
       return res.status(403).json({ error: error.message });
     }
@@ -123,4 +153,119 @@ router.get('/:id/messages', authenticateToken, validateScreeningChatAccess, asyn
   }
 });
 
+/**
+ * PATCH /api/screening-chats/:id/messages/:messageId
+ * Edit one of your own messages within the edit window
+ */
+router.patch('/:id/messages/:messageId', authenticateToken, validateScreeningChatAccess, async (req: AuthRequest, res) => {
+  try {
+    const { id, messageId } = req.params;
+    const { content } = req.body;
+
+    if (!content || typeof content !== 'string') {
+      return res.status(400).json({ error: 'Message content is required' });
+    }
+
+    const message = await screeningMessageService.editScreeningMessage({
+      applicationId: id,
+      messageId,
+      userId: req.user!.id,
+      content,
+    });
+
+    res.json({ message });
+  } catch (error) {
+    console.error('Edit screening message error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Message not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('Access denied')) {
+      return res.status(403).json({ error: message });
+    }
+    if (message.includes('has been deleted') || message.includes('changed by someone else')) {
+      return res.status(409).json({ error: message });
+    }
+    if (message.includes('empty') || message.includes('exceed')) {
+      return res.status(400).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/screening-chats/:id/messages/:messageId
+ * Delete one of your own messages within the edit window
+ */
+router.delete('/:id/messages/:messageId', authenticateToken, validateScreeningChatAccess, async (req: AuthRequest, res) => {
+  try {
+    const { id, messageId } = req.params;
+
+    const message = await screeningMessageService.deleteScreeningMessage({
+      applicationId: id,
+      messageId,
+      userId: req.user!.id,
+    });
+
+    res.json({ message });
+  } catch (error) {
+    console.error('Delete screening message error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Message not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('Access denied')) {
+      return res.status(403).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/screening-chats/:id/read
+ * Mark a screening chat as read up to a message (the newest one if none is given)
+ */
+router.post('/:id/read', authenticateToken, validateScreeningChatAccess, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { messageId } = req.body;
+
+    if (messageId !== undefined && (typeof messageId !== 'string' || !messageId)) {
+      return res.status(400).json({ error: 'Invalid message id' });
+    }
+
+    const readReceipt = await readCursorService.markRead(req.user!.id, 'screening', id, messageId);
+    res.json({ readReceipt });
+  } catch (error) {
+    console.error('Mark screening chat read error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.includes('Access denied')) {
+      return res.status(403).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/screening-chats/:id/read
+ * Get how far each participant has read
+ */
+router.get('/:id/read', authenticateToken, validateScreeningChatAccess, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const readReceipts = await readCursorService.getReadReceipts(req.user!.id, 'screening', id);
+    res.json({ readReceipts });
+  } catch (error) {
+    console.error('Get screening chat read receipts error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Access denied')) {
+      return res.status(403).json({ error: message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
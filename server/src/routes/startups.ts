@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { User, Startup, Application, TeamSpace, TeamMember, insertStartupSchema } from '../db/index.js';
-import { authenticateToken, AuthRequest, optionalAuth } from '../middleware/auth.js';
+import { authenticateToken, AuthRequest, requireVerifiedEmail, optionalAuth } from '../middleware/auth.js';
 import { broadcastStatsUpdate } from '../utils/statsHelper.js';
 
 const router = Router();
@@ -132,7 +132,7 @@ router.get('/:id', optionalAuth, async (req: AuthRequest, res) => {
 });
 
 // Create new startup
-router.post('/', authenticateToken, async (req: AuthRequest, res) => {
+router.post('/', authenticateToken, requireVerifiedEmail, async (req: AuthRequest, res) => {
   try {
     const startupData = insertStartupSchema.parse(req.body);
 
@@ -19,9 +19,17 @@ import builderSpaceRoutes from './routes/builderSpaces.js';
 import teamRoutes from './routes/teams.js';
 import statsRoutes from './routes/stats.js';
 import uploadRoutes from './routes/upload.js';
+import eventRoutes from './routes/events.js';
+import notificationRoutes from './routes/notifications.js';
+import directMessageRoutes from './routes/directMessages.js';
 
 // Import services
 import { messageBroadcastService } from './services/MessageBroadcastService.js';
+import { realtimeCommandService } from './services/RealtimeCommandService.js';
+import { channelService } from './services/ChannelService.js';
+import { readCursorService } from './services/ReadCursorService.js';
+import { taskService } from './services/TaskService.js';
+import { createMessageBroker } from './utils/messageBroker.js';
 
 // Load environment variables
 dotenv.config({ path: '.env' });
@@ -30,6 +38,24 @@ dotenv.config({ path: '.env' });
 try {
   await connectDB();
   console.log('✅ MongoDB connected - all features available');
+  // Chat history from before channels existed moves into each Builder Space's #general
+  channelService.migrateLegacyMessages()
+    .then((moved) => {
+      if (moved > 0) console.log(`✅ Moved ${moved} messages into #general channels`);
+    })
+    .catch((error) => console.error('❌ Channel migration error:', error));
+  // Read positions kept per Builder Space before channels existed move to #general
+  readCursorService.migrateLegacyCursors()
+    .then((moved) => {
+      if (moved > 0) console.log(`✅ Moved ${moved} read positions into #general channels`);
+    })
+    .catch((error) => console.error('❌ Read position migration error:', error));
+  // Tasks from before the board had status columns go into todo or done
+  taskService.migrateLegacyTasks()
+    .then((moved) => {
+      if (moved > 0) console.log(`✅ Moved ${moved} tasks onto the task board`);
+    })
+    .catch((error) => console.error('❌ Task migration error:', error));
 } catch (error) {
   console.warn('⚠️  MongoDB connection failed - server will run in limited mode');
   console.warn('   Some features may not work without database connection');
@@ -220,6 +246,9 @@ app.use('/api/builder-spaces', builderSpaceRoutes);
 app.use('/api/teams', teamRoutes);
 app.use('/api/stats', statsRoutes);
 app.use('/api/upload', uploadRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/direct-messages', directMessageRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -243,7 +272,10 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 const httpServer = createServer(app);
 
 // Initialize WebSocket through MessageBroadcastService
-messageBroadcastService.initialize(httpServer);
+// Set REDIS_URL to share real-time events and presence between several instances
+messageBroadcastService.initialize(httpServer, createMessageBroker());
+// Clients can send messages and toggle tasks over their socket as well as over REST
+messageBroadcastService.setCommandHandler((userId, command) => realtimeCommandService.execute(userId, command));
 
 // Start server
 httpServer.listen(PORT, '0.0.0.0', () => {
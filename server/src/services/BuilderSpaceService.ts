@@ -1,4 +1,5 @@
-import { TeamSpace, TeamMember, Startup, Hackathon } from '../db/index.js';
+import mongoose from 'mongoose';
+import { TeamSpace, TeamMember, Startup, Hackathon, ITeamSpace } from '../db/index.js';
 
 export interface BuilderSpaceDetails {
   id: string;
@@ -92,6 +93,35 @@ export class BuilderSpaceService {
     return space.toObject() as BuilderSpaceDetails;
   }
 
+  /**
+   * Get a Builder Space document for a user who must be on its team
+   * Services that change what is inside a space (tasks, labels, milestones, channels) start here
+   *
+   * @param spaceId - The ID of the Builder Space
+   * @param userId - The ID of the user
+   * @returns The Builder Space
+   * @throws Error if space not found or user is not a team member
+   */
+  async requireMemberSpace(spaceId: string, userId: string): Promise<ITeamSpace> {
+    const space = mongoose.isValidObjectId(spaceId) ? await TeamSpace.findById(spaceId) : null;
+
+    if (!space) {
+      throw new Error('Builder Space not found');
+    }
+
+    const isAuthorized = await this.validateTeamMemberAccess(
+      userId,
+      space.postType as 'startup' | 'hackathon',
+      space.postId.toString()
+    );
+
+    if (!isAuthorized) {
+      throw new Error('Access denied: You are not a member of this Builder Space');
+    }
+
+    return space;
+  }
+
   /**
    * Get a Builder Space by post type and ID
    * 
@@ -178,6 +208,30 @@ export class BuilderSpaceService {
     return !!member;
   }
 
+  /**
+   * Check whether a user is a founder of the team that owns a Builder Space
+   * Founders can moderate the space, e.g. delete other members' messages
+   * 
+   * @param userId - The ID of the user
+   * @param postType - The type of post (startup or hackathon)
+   * @param postId - The ID of the post
+   * @returns True if the user is a founder of the team
+   */
+  async isFounder(
+    userId: string,
+    postType: 'startup' | 'hackathon',
+    postId: string
+  ): Promise<boolean> {
+    const founder = await TeamMember.findOne({
+      userId,
+      postType,
+      postId,
+      role: 'founder',
+    });
+
+    return !!founder;
+  }
+
   /**
    * Validate Builder Space uniqueness for a team
    * 
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ChannelService } from './ChannelService.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService } from './MessageBroadcastService.js';
+import { SpaceChannel, SpaceMessage, TeamSpace } from '../db/index.js';
+import { PRIYA_ID, SPACE_ID, CREATED_AT, storedDocument } from '../tests/fixtures.js';
+
+vi.mock('../db/index.js', () => ({
+  SpaceChannel: {
+    findOne: vi.fn(),
+    create: vi.fn(),
+  },
+  SpaceMessage: {
+    updateMany: vi.fn(),
+    distinct: vi.fn(),
+  },
+  TeamSpace: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./MessageBroadcastService.js', () => ({
+  MessageType: { CHANNEL_UPDATED: 'channel_updated' },
+  messageBroadcastService: { broadcastGroupMessage: vi.fn() },
+}));
+
+const GENERAL_ID = '64b7f0c2a1b2c3d4e5f60740';
+const DESIGN_ID = '64b7f0c2a1b2c3d4e5f60741';
+
+const storedChannel = storedDocument(() => ({
+  _id: GENERAL_ID,
+  id: GENERAL_ID,
+  spaceId: SPACE_ID,
+  name: 'general',
+  isDefault: true,
+  createdAt: CREATED_AT,
+  updatedAt: CREATED_AT,
+}));
+
+describe('ChannelService', () => {
+  let service: ChannelService;
+  let isFounder: ReturnType<typeof vi.spyOn>;
+  let space: { postType: string; postId: string; membersCanManageChannels: boolean };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    space = { postType: 'startup', postId: 'post-1', membersCanManageChannels: false };
+    vi.spyOn(BuilderSpaceService.prototype, 'validateTeamMemberAccess').mockResolvedValue(true);
+    isFounder = vi.spyOn(BuilderSpaceService.prototype, 'isFounder').mockResolvedValue(true);
+    vi.mocked(TeamSpace.findById).mockResolvedValue(space as never);
+    vi.mocked(SpaceMessage.updateMany).mockResolvedValue({ modifiedCount: 0 } as never);
+    service = new ChannelService();
+  });
+
+  it('should create #general with the earlier history the first time it is needed', async () => {
+    vi.mocked(SpaceChannel.findOne).mockResolvedValue(null);
+    vi.mocked(SpaceChannel.create).mockResolvedValue(storedChannel() as never);
+    vi.mocked(SpaceMessage.updateMany).mockResolvedValue({ modifiedCount: 42 } as never);
+
+    const channel = await service.getDefaultChannel(SPACE_ID);
+
+    expect(channel.name).toBe('general');
+    expect(SpaceChannel.create).toHaveBeenCalledWith({ spaceId: SPACE_ID, name: 'general', isDefault: true });
+    expect(SpaceMessage.updateMany).toHaveBeenCalledWith(
+      { spaceId: SPACE_ID, channelId: { $exists: false } },
+      { $set: { channelId: GENERAL_ID } }
+    );
+  });
+
+  it('should create a channel with a normalized name and tell the team', async () => {
+    vi.mocked(SpaceChannel.findOne).mockResolvedValue(storedChannel() as never);
+    vi.mocked(SpaceChannel.create).mockResolvedValue(
+      storedChannel({ _id: DESIGN_ID, id: DESIGN_ID, name: 'design-team', isDefault: false, createdBy: PRIYA_ID }) as never
+    );
+
+    const channel = await service.createChannel({ spaceId: SPACE_ID, userId: PRIYA_ID, name: ' #Design Team ' });
+
+    expect(SpaceChannel.create).toHaveBeenCalledWith({ spaceId: SPACE_ID, name: 'design-team', createdBy: PRIYA_ID });
+    expect(channel).toMatchObject({ id: DESIGN_ID, name: 'design-team', isDefault: false, archivedAt: null });
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(
+      SPACE_ID,
+      expect.objectContaining({ type: 'channel_updated', payload: channel })
+    );
+  });
+
+  it('should only let founders manage channels unless members are allowed to', async () => {
+    isFounder.mockResolvedValue(false);
+    vi.mocked(SpaceChannel.findOne).mockResolvedValue(storedChannel() as never);
+
+    await expect(service.createChannel({ spaceId: SPACE_ID, userId: PRIYA_ID, name: 'backend' }))
+      .rejects.toThrow('Only founders can manage channels');
+
+    space.membersCanManageChannels = true;
+    vi.mocked(SpaceChannel.create).mockResolvedValue(storedChannel({ name: 'backend', isDefault: false }) as never);
+
+    await expect(service.createChannel({ spaceId: SPACE_ID, userId: PRIYA_ID, name: 'backend' }))
+      .resolves.toMatchObject({ name: 'backend' });
+  });
+
+  it('should reject invalid and taken names', async () => {
+    vi.mocked(SpaceChannel.findOne).mockResolvedValue(storedChannel() as never);
+    vi.mocked(SpaceChannel.create).mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+
+    await expect(service.createChannel({ spaceId: SPACE_ID, userId: PRIYA_ID, name: 'ship it!' }))
+      .rejects.toThrow('Invalid channel name');
+    await expect(service.createChannel({ spaceId: SPACE_ID, userId: PRIYA_ID, name: 'Design' }))
+      .rejects.toThrow('A channel named #design already exists');
+  });
+
+  it('should archive channels but not #general', async () => {
+    const design = storedChannel({ _id: DESIGN_ID, id: DESIGN_ID, name: 'design', isDefault: false });
+    vi.mocked(SpaceChannel.findOne).mockResolvedValueOnce(storedChannel() as never).mockResolvedValueOnce(design as never);
+
+    await expect(service.archiveChannel({ spaceId: SPACE_ID, channelId: GENERAL_ID, userId: PRIYA_ID }))
+      .rejects.toThrow('cannot be archived');
+
+    const archived = await service.archiveChannel({ spaceId: SPACE_ID, channelId: DESIGN_ID, userId: PRIYA_ID });
+
+    expect(design.save).toHaveBeenCalled();
+    expect(archived.archivedAt).toBeInstanceOf(Date);
+    expect(archived.archivedBy).toBe(PRIYA_ID);
+  });
+});
@@ -0,0 +1,337 @@
+import mongoose from 'mongoose';
+import { SpaceChannel, SpaceMessage, ISpaceChannel, ITeamSpace } from '../db/index.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService, MessageType } from './MessageBroadcastService.js';
+import { ChannelPayload } from '../shared/realtimeProtocol.js';
+
+// Every Builder Space has this channel; history from before channels existed lives in it
+export const DEFAULT_CHANNEL_NAME = 'general';
+
+const MAX_CHANNEL_NAME_LENGTH = 32;
+const CHANNEL_NAME_PATTERN = /^[\p{Ll}\p{Lo}\p{N}][\p{Ll}\p{Lo}\p{N}_-]*$/u;
+
+export interface CreateChannelParams {
+  spaceId: string;
+  userId: string;
+  name: string;
+}
+
+export interface RenameChannelParams {
+  spaceId: string;
+  channelId: string;
+  userId: string;
+  name: string;
+}
+
+export interface ChannelChangeParams {
+  spaceId: string;
+  channelId: string;
+  userId: string;
+}
+
+/**
+ * ChannelService manages the channels inside a Builder Space, like #general or #design
+ *
+ * Each space has a default #general channel, created the first time it is needed.
+ * Founders create, rename and archive channels; members can too once a founder allows it.
+ * Archiving keeps a channel's history readable but stops new messages; #general can't be archived.
+ */
+export class ChannelService {
+  private builderSpaceService: BuilderSpaceService;
+
+  constructor() {
+    this.builderSpaceService = new BuilderSpaceService();
+  }
+
+  /**
+   * List a Builder Space's channels, #general first, archived ones included
+   *
+   * @param spaceId - The ID of the Builder Space
+   * @param userId - The user asking, who must be a team member
+   * @returns The space's channels
+   * @throws Error if the space is not found or the user is not a team member
+   */
+  async listChannels(spaceId: string, userId: string): Promise<ChannelPayload[]> {
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+    await this.getDefaultChannel(spaceId);
+
+    const channels = await SpaceChannel.find({ spaceId }).sort({ isDefault: -1, name: 1 });
+    return channels.map(channel => this.toPayload(channel));
+  }
+
+  /**
+   * Create a channel
+   *
+   * @param params - Space, creating user and channel name
+   * @returns The new channel
+   * @throws Error if unauthorized, the name is invalid or already taken
+   */
+  async createChannel(params: CreateChannelParams): Promise<ChannelPayload> {
+    const { spaceId, userId } = params;
+    const space = await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+    await this.checkCanManageChannels(space, userId);
+
+    const name = this.normalizeName(params.name);
+    await this.getDefaultChannel(spaceId);
+
+    let channel: ISpaceChannel;
+    try {
+      channel = await SpaceChannel.create({ spaceId, name, createdBy: userId });
+    } catch (error) {
+      throw this.duplicateNameError(error, name);
+    }
+
+    return this.broadcastChange(channel, userId);
+  }
+
+  /**
+   * Rename a channel; its messages stay in it
+   *
+   * @param params - Space, channel, renaming user and new name
+   * @returns The renamed channel
+   * @throws Error if unauthorized, the channel is not found, or the name is invalid or already taken
+   */
+  async renameChannel(params: RenameChannelParams): Promise<ChannelPayload> {
+    const { spaceId, channelId, userId } = params;
+    const space = await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+    await this.checkCanManageChannels(space, userId);
+
+    const channel = await this.findChannel(spaceId, channelId);
+    const name = this.normalizeName(params.name);
+
+    if (channel.name === name) {
+      return this.toPayload(channel);
+    }
+
+    channel.name = name;
+    try {
+      await channel.save();
+    } catch (error) {
+      throw this.duplicateNameError(error, name);
+    }
+
+    return this.broadcastChange(channel, userId);
+  }
+
+  /**
+   * Archive a channel, so it keeps its history but takes no new messages
+   *
+   * @param params - Space, channel and archiving user
+   * @returns The archived channel
+   * @throws Error if unauthorized, the channel is not found or is the default channel
+   */
+  async archiveChannel(params: ChannelChangeParams): Promise<ChannelPayload> {
+    const { spaceId, channelId, userId } = params;
+    const space = await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+    await this.checkCanManageChannels(space, userId);
+
+    const channel = await this.findChannel(spaceId, channelId);
+
+    if (channel.isDefault) {
+      throw new Error(`#${channel.name} is the default channel and cannot be archived`);
+    }
+    if (channel.archivedAt) {
+      return this.toPayload(channel);
+    }
+
+    channel.archivedAt = new Date();
+    channel.archivedBy = new mongoose.Types.ObjectId(userId);
+    await channel.save();
+
+    return this.broadcastChange(channel, userId);
+  }
+
+  /**
+   * Take a channel out of the archive so it takes messages again
+   *
+   * @param params - Space, channel and user
+   * @returns The channel
+   * @throws Error if unauthorized or the channel is not found
+   */
+  async unarchiveChannel(params: ChannelChangeParams): Promise<ChannelPayload> {
+    const { spaceId, channelId, userId } = params;
+    const space = await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+    await this.checkCanManageChannels(space, userId);
+
+    const channel = await this.findChannel(spaceId, channelId);
+
+    if (!channel.archivedAt) {
+      return this.toPayload(channel);
+    }
+
+    channel.archivedAt = undefined;
+    channel.archivedBy = undefined;
+    await channel.save();
+
+    return this.broadcastChange(channel, userId);
+  }
+
+  /**
+   * Let members, not just founders, manage channels, or take that back
+   * Only founders can change this
+   *
+   * @throws Error if the space is not found or the user is not a founder
+   */
+  async setMembersCanManageChannels(spaceId: string, userId: string, allowed: boolean): Promise<void> {
+    const space = await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+    const isFounder = await this.builderSpaceService.isFounder(
+      userId,
+      space.postType as 'startup' | 'hackathon',
+      space.postId.toString()
+    );
+
+    if (!isFounder) {
+      throw new Error('Access denied: Only founders can change who manages channels');
+    }
+
+    space.membersCanManageChannels = allowed;
+    await space.save();
+  }
+
+  /**
+   * The channel a message goes in: the given one, or #general without one
+   * Callers have already checked the user is a team member
+   *
+   * @throws Error if the channel is not in the space
+   */
+  async resolveChannel(spaceId: string, channelId?: string | mongoose.Types.ObjectId | null): Promise<ISpaceChannel> {
+    return channelId ? this.findChannel(spaceId, channelId.toString()) : this.getDefaultChannel(spaceId);
+  }
+
+  /**
+   * The space's #general channel, created with the space's earlier history if it doesn't exist yet
+   */
+  async getDefaultChannel(spaceId: string): Promise<ISpaceChannel> {
+    const existing = await SpaceChannel.findOne({ spaceId, isDefault: true });
+    if (existing) {
+      return existing;
+    }
+
+    let channel: ISpaceChannel;
+    try {
+      channel = await SpaceChannel.create({ spaceId, name: DEFAULT_CHANNEL_NAME, isDefault: true });
+    } catch (error) {
+      // Created at the same time by another request, which also moves the history
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+      return SpaceChannel.findOne({ spaceId, isDefault: true });
+    }
+
+    await this.moveLegacyMessages(spaceId, channel);
+    return channel;
+  }
+
+  /**
+   * Move messages sent before channels existed into each space's #general
+   * Safe to run repeatedly; it is run when the server starts
+   *
+   * @returns How many messages were moved
+   */
+  async migrateLegacyMessages(): Promise<number> {
+    const spaceIds = await SpaceMessage.distinct('spaceId', { channelId: { $exists: false } });
+    let moved = 0;
+
+    for (const spaceId of spaceIds) {
+      const channel = await this.getDefaultChannel(spaceId.toString());
+      moved += await this.moveLegacyMessages(spaceId.toString(), channel);
+    }
+
+    return moved;
+  }
+
+  private async moveLegacyMessages(spaceId: string, channel: ISpaceChannel): Promise<number> {
+    const result = await SpaceMessage.updateMany(
+      { spaceId, channelId: { $exists: false } },
+      { $set: { channelId: channel._id } }
+    );
+    return result.modifiedCount;
+  }
+
+  private async checkCanManageChannels(space: ITeamSpace, userId: string): Promise<void> {
+    if (space.membersCanManageChannels) {
+      return;
+    }
+
+    const isFounder = await this.builderSpaceService.isFounder(
+      userId,
+      space.postType as 'startup' | 'hackathon',
+      space.postId.toString()
+    );
+
+    if (!isFounder) {
+      throw new Error('Access denied: Only founders can manage channels in this Builder Space');
+    }
+  }
+
+  private async findChannel(spaceId: string, channelId: string): Promise<ISpaceChannel> {
+    const channel = mongoose.isValidObjectId(channelId)
+      ? await SpaceChannel.findOne({ _id: channelId, spaceId })
+      : null;
+
+    if (!channel) {
+      throw new Error('Channel not found');
+    }
+
+    return channel;
+  }
+
+  /**
+   * Lowercase, without a leading #, with spaces turned into dashes: "#Design Team" becomes "design-team"
+   *
+   * @throws Error if the name is empty, too long or has characters other than letters, numbers, - and _
+   */
+  private normalizeName(name: string): string {
+    const normalized = name.trim().replace(/^#/, '').trim().replace(/\s+/g, '-').toLowerCase();
+
+    if (!normalized) {
+      throw new Error('Invalid channel name: Name cannot be empty');
+    }
+    if (normalized.length > MAX_CHANNEL_NAME_LENGTH) {
+      throw new Error(`Invalid channel name: Name cannot exceed ${MAX_CHANNEL_NAME_LENGTH} characters`);
+    }
+    if (!CHANNEL_NAME_PATTERN.test(normalized)) {
+      throw new Error('Invalid channel name: Use letters, numbers, - and _ only, starting with a letter or number');
+    }
+
+    return normalized;
+  }
+
+  private duplicateNameError(error: unknown, name: string): unknown {
+    return (error as { code?: number }).code === 11000
+      ? new Error(`A channel named #${name} already exists in this Builder Space`)
+      : error;
+  }
+
+  /**
+   * Send a created or changed channel to every team member
+   */
+  private async broadcastChange(channel: ISpaceChannel, userId: string): Promise<ChannelPayload> {
+    const payload = this.toPayload(channel);
+
+    await messageBroadcastService.broadcastGroupMessage(payload.spaceId, {
+      type: MessageType.CHANNEL_UPDATED,
+      payload,
+      timestamp: payload.updatedAt,
+      senderId: userId,
+    });
+
+    return payload;
+  }
+
+  private toPayload(channel: ISpaceChannel): ChannelPayload {
+    return {
+      id: channel.id,
+      spaceId: channel.spaceId.toString(),
+      name: channel.name,
+      isDefault: channel.isDefault,
+      createdBy: channel.createdBy?.toString() ?? null,
+      archivedAt: channel.archivedAt ?? null,
+      archivedBy: channel.archivedBy?.toString() ?? null,
+      createdAt: channel.createdAt,
+      updatedAt: channel.updatedAt,
+    };
+  }
+}
+
+export const channelService = new ChannelService();
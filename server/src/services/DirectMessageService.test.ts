@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { DirectMessageService } from './DirectMessageService.js';
+import { messageBroadcastService } from './MessageBroadcastService.js';
+import { DirectConversation, DirectMessage, TeamMember, User } from '../db/index.js';
+
+vi.mock('../db/index.js', () => ({
+  DirectConversation: {
+    findOne: vi.fn(),
+    findById: vi.fn(),
+    create: vi.fn(),
+    updateOne: vi.fn(),
+  },
+  DirectMessage: {
+    findOne: vi.fn(),
+    create: vi.fn(),
+  },
+  TeamMember: {
+    find: vi.fn(),
+    exists: vi.fn(),
+  },
+  User: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./MessageBroadcastService.js', () => ({
+  MessageType: { DIRECT_MESSAGE: 'direct_message' },
+  messageBroadcastService: { broadcastToUsers: vi.fn() },
+}));
+
+const PRIYA_ID = '64b7f0c2a1b2c3d4e5f60719';
+const MARCUS_ID = '64b7f0c2a1b2c3d4e5f60718';
+const CONVERSATION_ID = '64b7f0c2a1b2c3d4e5f60750';
+const MESSAGE_ID = '64b7f0c2a1b2c3d4e5f60751';
+const SENT_AT = new Date();
+
+const conversation = {
+  _id: new mongoose.Types.ObjectId(CONVERSATION_ID),
+  id: CONVERSATION_ID,
+  participantIds: [new mongoose.Types.ObjectId(MARCUS_ID), new mongoose.Types.ObjectId(PRIYA_ID)],
+  participantKey: `${MARCUS_ID}:${PRIYA_ID}`,
+  createdAt: SENT_AT,
+};
+
+const storedMessage = {
+  id: MESSAGE_ID,
+  conversationId: new mongoose.Types.ObjectId(CONVERSATION_ID),
+  senderId: new mongoose.Types.ObjectId(PRIYA_ID),
+  content: 'hey',
+  createdAt: SENT_AT,
+  updatedAt: SENT_AT,
+};
+
+/**
+ * Stand-in for TeamMember.find(...).select(...).lean() returning the user's teams
+ */
+const teamsQuery = (teams: unknown[]) => {
+  const query = {
+    select: vi.fn(() => query),
+    lean: vi.fn().mockResolvedValue(teams),
+  };
+  return query as never;
+};
+
+describe('DirectMessageService', () => {
+  let service: DirectMessageService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new DirectMessageService();
+
+    vi.mocked(TeamMember.find).mockReturnValue(teamsQuery([{ postType: 'startup', postId: 'post-1' }]));
+    vi.mocked(TeamMember.exists).mockResolvedValue({ _id: 'member-1' } as never);
+    vi.mocked(User.findById).mockImplementation(async (id) => ({ _id: id, name: id === PRIYA_ID ? 'Priya Sharma' : 'Marcus Lee' }) as never);
+  });
+
+  it('should start one conversation per pair of teammates, whoever opens it', async () => {
+    vi.mocked(DirectConversation.findOne).mockResolvedValue(null);
+    vi.mocked(DirectConversation.create).mockResolvedValue(conversation as never);
+
+    const result = await service.getOrCreateConversation(PRIYA_ID, MARCUS_ID);
+
+    expect(result).toMatchObject({ id: CONVERSATION_ID, otherUser: { id: MARCUS_ID, name: 'Marcus Lee' } });
+    expect(DirectConversation.create).toHaveBeenCalledWith({
+      participantIds: [MARCUS_ID, PRIYA_ID],
+      participantKey: `${MARCUS_ID}:${PRIYA_ID}`,
+    });
+    expect(TeamMember.exists).toHaveBeenCalledWith({ userId: MARCUS_ID, $or: [{ postType: 'startup', postId: 'post-1' }] });
+  });
+
+  it('should refuse people who share no team', async () => {
+    vi.mocked(TeamMember.exists).mockResolvedValue(null);
+
+    await expect(service.getOrCreateConversation(PRIYA_ID, MARCUS_ID)).rejects.toThrow('Access denied');
+    await expect(service.getOrCreateConversation(PRIYA_ID, PRIYA_ID)).rejects.toThrow('Invalid recipient');
+
+    vi.mocked(DirectConversation.findById).mockResolvedValue(conversation as never);
+    await expect(service.sendDirectMessage({
+      conversationId: CONVERSATION_ID,
+      senderId: PRIYA_ID,
+      content: 'still there?',
+    })).rejects.toThrow('share a team');
+    expect(DirectMessage.create).not.toHaveBeenCalled();
+  });
+
+  it('should store a message and push it to the other participant only', async () => {
+    vi.mocked(DirectConversation.findById).mockResolvedValue(conversation as never);
+    vi.mocked(DirectMessage.create).mockResolvedValue(storedMessage as never);
+
+    const message = await service.sendDirectMessage({
+      conversationId: CONVERSATION_ID,
+      senderId: PRIYA_ID,
+      content: '<b>hey</b>',
+    });
+
+    expect(DirectMessage.create).toHaveBeenCalledWith(expect.objectContaining({ senderId: PRIYA_ID, content: 'hey' }));
+    expect(DirectConversation.updateOne).toHaveBeenCalledWith({ _id: conversation._id }, { lastMessageAt: SENT_AT });
+    expect(message).toMatchObject({ id: MESSAGE_ID, senderName: 'Priya Sharma', recipientId: MARCUS_ID });
+    expect(messageBroadcastService.broadcastToUsers).toHaveBeenCalledWith(
+      [MARCUS_ID],
+      expect.objectContaining({ type: 'direct_message', payload: message, senderId: PRIYA_ID })
+    );
+  });
+
+  it('should return the first message when a send is retried with the same client id', async () => {
+    vi.mocked(DirectConversation.findById).mockResolvedValue(conversation as never);
+    vi.mocked(DirectMessage.findOne).mockResolvedValue(storedMessage as never);
+
+    const message = await service.sendDirectMessage({
+      conversationId: CONVERSATION_ID,
+      senderId: PRIYA_ID,
+      content: 'hey',
+      clientId: 'c-1',
+    });
+
+    expect(message.id).toBe(MESSAGE_ID);
+    expect(DirectMessage.findOne).toHaveBeenCalledWith({ senderId: PRIYA_ID, clientId: 'c-1' });
+    expect(DirectMessage.create).not.toHaveBeenCalled();
+    expect(messageBroadcastService.broadcastToUsers).not.toHaveBeenCalled();
+  });
+
+  it('should not let outsiders into a conversation', async () => {
+    vi.mocked(DirectConversation.findById).mockResolvedValue(conversation as never);
+
+    await expect(service.getDirectMessages(CONVERSATION_ID, '64b7f0c2a1b2c3d4e5f6071a')).rejects.toThrow('Access denied');
+    await expect(service.getDirectMessages('not-an-id', PRIYA_ID)).rejects.toThrow('Conversation not found');
+  });
+});
@@ -0,0 +1,339 @@
+import mongoose from 'mongoose';
+import { DirectConversation, DirectMessage, TeamMember, User, IDirectConversation, IDirectMessage } from '../db/index.js';
+import { messageBroadcastService, MessageType } from './MessageBroadcastService.js';
+import { DirectMessagePayload } from '../shared/realtimeProtocol.js';
+import { MessagePage, MessagePageQuery, buildMessagePageQuery, toMessagePage } from '../utils/messagePagination.js';
+import { sanitizeContent } from '../utils/markdown.js';
+
+export interface DirectContact {
+  id: string;
+  name: string;
+  avatar?: string;
+  lastSeenAt?: Date;
+}
+
+export interface DirectConversationSummary {
+  id: string;
+  otherUser: DirectContact;
+  lastMessage: {
+    content: string;
+    senderId: string;
+    createdAt: Date;
+  } | null;
+  lastMessageAt: Date | null;
+  createdAt: Date;
+}
+
+export interface SendDirectMessageParams {
+  conversationId: string;
+  senderId: string;
+  content: string;
+  // Client-generated id; sending again with the same id returns the first message
+  clientId?: string;
+}
+
+/**
+ * DirectMessageService handles one-to-one conversations between teammates
+ *
+ * Two users can message each other while they share at least one team, i.e. both
+ * have a TeamMember record for the same startup or hackathon. Each pair has a
+ * single conversation, whichever of them starts it. Someone who leaves every
+ * shared team can still read the history but can't send anything new.
+ */
+export class DirectMessageService {
+  /**
+   * Everyone who shares at least one team with the user
+   *
+   * @param userId - The user
+   * @returns Teammates sorted by name, without the user
+   */
+  async listContacts(userId: string): Promise<DirectContact[]> {
+    const teams = await this.getTeams(userId);
+    if (teams.length === 0) {
+      return [];
+    }
+
+    const members = await TeamMember.find({ $or: teams, userId: { $ne: userId } })
+      .populate('userId', 'name avatar lastSeenAt')
+      .lean();
+
+    const contacts = new Map<string, DirectContact>();
+    for (const member of members) {
+      const user = member.userId as unknown as { _id: mongoose.Types.ObjectId; name: string; avatar?: string; lastSeenAt?: Date } | null;
+      if (user && !contacts.has(user._id.toString())) {
+        contacts.set(user._id.toString(), this.toContact(user));
+      }
+    }
+
+    return [...contacts.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get the conversation between two teammates, starting it if they haven't talked yet
+   *
+   * @param userId - The user opening the conversation
+   * @param otherUserId - Who they want to message
+   * @returns The conversation
+   * @throws Error if the other user is not found or the two don't share a team
+   */
+  async getOrCreateConversation(userId: string, otherUserId: string): Promise<DirectConversationSummary> {
+    if (otherUserId === userId) {
+      throw new Error('Invalid recipient: You cannot message yourself');
+    }
+
+    const otherUser = mongoose.isValidObjectId(otherUserId) ? await User.findById(otherUserId) : null;
+    if (!otherUser) {
+      throw new Error('User not found');
+    }
+
+    if (!(await this.sharesTeam(userId, otherUserId))) {
+      throw new Error('Access denied: You can only message people you share a team with');
+    }
+
+    const participantIds = [userId, otherUserId].sort();
+    const participantKey = participantIds.join(':');
+
+    let conversation = await DirectConversation.findOne({ participantKey });
+    if (!conversation) {
+      try {
+        conversation = await DirectConversation.create({ participantIds, participantKey });
+      } catch (error) {
+        // Both users started the conversation at once and the other request won
+        if ((error as { code?: number }).code !== 11000) {
+          throw error;
+        }
+        conversation = await DirectConversation.findOne({ participantKey });
+      }
+    }
+
+    return this.toSummary(conversation!, this.toContact(otherUser), null);
+  }
+
+  /**
+   * List the user's conversations, the most recently active first
+   *
+   * @param userId - The user
+   * @returns Conversations with the other participant and the latest message
+   */
+  async listConversations(userId: string): Promise<DirectConversationSummary[]> {
+    const conversations = await DirectConversation.find({ participantIds: userId })
+      .populate('participantIds', 'name avatar lastSeenAt')
+      .sort({ lastMessageAt: -1, createdAt: -1 });
+
+    const lastMessages = await Promise.all(conversations.map(conversation =>
+      DirectMessage.findOne({ conversationId: conversation._id }).sort({ createdAt: -1, _id: -1 })
+    ));
+
+    return conversations.map((conversation, index) => {
+      const participants = conversation.participantIds as unknown as { _id: mongoose.Types.ObjectId; name: string }[];
+      const otherUser = participants.find(participant => participant._id.toString() !== userId);
+      return this.toSummary(
+        conversation,
+        otherUser ? this.toContact(otherUser) : { id: '', name: 'Unknown User' },
+        lastMessages[index]
+      );
+    });
+  }
+
+  /**
+   * Get one of the user's conversations
+   *
+   * @param conversationId - The conversation
+   * @param userId - The user asking, who must be in it
+   * @throws Error if the conversation is not found or the user is not in it
+   */
+  async getConversation(conversationId: string, userId: string): Promise<DirectConversationSummary> {
+    const { conversation, otherUserId } = await this.findConversation(conversationId, userId);
+    const otherUser = await User.findById(otherUserId);
+
+    return this.toSummary(
+      conversation,
+      otherUser ? this.toContact(otherUser) : { id: otherUserId, name: 'Unknown User' },
+      null
+    );
+  }
+
+  /**
+   * Send a direct message
+   * The sender must still share a team with the other participant
+   *
+   * @param params - Conversation, sender and content
+   * @returns The stored message
+   * @throws Error if unauthorized or validation fails
+   */
+  async sendDirectMessage(params: SendDirectMessageParams): Promise<DirectMessagePayload> {
+    const { conversationId, senderId, content, clientId } = params;
+
+    const { conversation, otherUserId } = await this.findConversation(conversationId, senderId);
+
+    if (!(await this.sharesTeam(senderId, otherUserId))) {
+      throw new Error('Access denied: You can only message people you share a team with');
+    }
+
+    const sanitizedContent = sanitizeContent(content);
+
+    const sender = await User.findById(senderId);
+    if (!sender) {
+      throw new Error('Sender not found');
+    }
+
+    // A retried send must not post the message twice
+    const alreadySent = await this.findSentMessage(senderId, clientId);
+    if (alreadySent) {
+      return this.toDirectMessage(alreadySent, sender.name, otherUserId);
+    }
+
+    let message: IDirectMessage;
+    try {
+      message = await DirectMessage.create({
+        conversationId: conversation._id,
+        senderId,
+        content: sanitizedContent,
+        clientId,
+      });
+    } catch (error) {
+      // The same send arrived twice at once and the other copy was stored first
+      const sentConcurrently = (error as { code?: number }).code === 11000 ? await this.findSentMessage(senderId, clientId) : null;
+      if (!sentConcurrently) {
+        throw error;
+      }
+      return this.toDirectMessage(sentConcurrently, sender.name, otherUserId);
+    }
+
+    await DirectConversation.updateOne({ _id: conversation._id }, { lastMessageAt: message.createdAt });
+
+    const messageData = this.toDirectMessage(message, sender.name, otherUserId);
+    messageBroadcastService.broadcastToUsers([otherUserId], {
+      type: MessageType.DIRECT_MESSAGE,
+      payload: messageData,
+      timestamp: message.createdAt,
+      senderId,
+    });
+
+    return messageData;
+  }
+
+  /**
+   * Get a page of a conversation's history
+   * Without a cursor this is the newest page; each page is in chronological order (oldest first)
+   *
+   * @param conversationId - The conversation
+   * @param userId - The user asking, who must be in it
+   * @param page - Optional before/after cursor and page size
+   * @throws Error if unauthorized or the cursor is invalid
+   */
+  async getDirectMessages(
+    conversationId: string,
+    userId: string,
+    page: MessagePageQuery = {}
+  ): Promise<MessagePage<DirectMessagePayload>> {
+    const { otherUserId } = await this.findConversation(conversationId, userId);
+
+    const { filter, sort, fetchLimit } = buildMessagePageQuery(page);
+    const messages = await DirectMessage.find({ conversationId, ...filter })
+      .populate('senderId', 'name')
+      .sort(sort)
+      .limit(fetchLimit);
+
+    return toMessagePage(messages, page, (message: IDirectMessage) => {
+      const sender = message.senderId as unknown as { _id: mongoose.Types.ObjectId; name?: string } | null;
+      const senderId = sender?._id?.toString() ?? '';
+      return {
+        id: message.id,
+        conversationId,
+        senderId,
+        senderName: sender?.name || 'Unknown User',
+        recipientId: senderId === userId ? otherUserId : userId,
+        content: message.content,
+        createdAt: message.createdAt,
+        updatedAt: message.updatedAt,
+      };
+    });
+  }
+
+  /**
+   * Load a conversation, checking the user is one of its two participants
+   */
+  private async findConversation(conversationId: string, userId: string) {
+    const conversation = mongoose.isValidObjectId(conversationId)
+      ? await DirectConversation.findById(conversationId)
+      : null;
+
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+
+    const participantIds = conversation.participantIds.map(id => id.toString());
+    if (!participantIds.includes(userId)) {
+      throw new Error('Access denied: You are not part of this conversation');
+    }
+
+    return { conversation, otherUserId: participantIds.find(id => id !== userId)! };
+  }
+
+  /**
+   * The teams a user is on, as TeamMember filters
+   */
+  private async getTeams(userId: string) {
+    const memberships = await TeamMember.find({ userId }).select('postType postId').lean();
+    return memberships.map(membership => ({ postType: membership.postType, postId: membership.postId }));
+  }
+
+  private async sharesTeam(userId: string, otherUserId: string): Promise<boolean> {
+    const teams = await this.getTeams(userId);
+    if (teams.length === 0) {
+      return false;
+    }
+
+    return !!(await TeamMember.exists({ userId: otherUserId, $or: teams }));
+  }
+
+  /**
+   * Find a message the sender already sent with this client id
+   */
+  private async findSentMessage(senderId: string, clientId?: string) {
+    return clientId ? DirectMessage.findOne({ senderId, clientId }) : null;
+  }
+
+  private toContact(user: { _id: unknown; name: string; avatar?: string; lastSeenAt?: Date }): DirectContact {
+    return {
+      id: String(user._id),
+      name: user.name,
+      avatar: user.avatar,
+      lastSeenAt: user.lastSeenAt,
+    };
+  }
+
+  private toSummary(
+    conversation: IDirectConversation,
+    otherUser: DirectContact,
+    lastMessage: IDirectMessage | null
+  ): DirectConversationSummary {
+    return {
+      id: conversation.id,
+      otherUser,
+      lastMessage: lastMessage && {
+        content: lastMessage.content,
+        senderId: lastMessage.senderId.toString(),
+        createdAt: lastMessage.createdAt,
+      },
+      lastMessageAt: conversation.lastMessageAt ?? null,
+      createdAt: conversation.createdAt,
+    };
+  }
+
+  private toDirectMessage(message: IDirectMessage, senderName: string, recipientId: string): DirectMessagePayload {
+    return {
+      id: message.id,
+      conversationId: message.conversationId.toString(),
+      senderId: message.senderId.toString(),
+      senderName,
+      recipientId,
+      content: message.content,
+      createdAt: message.createdAt,
+      updatedAt: message.updatedAt,
+    };
+  }
+}
+
+export const directMessageService = new DirectMessageService();
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { EmailVerificationService } from './EmailVerificationService.js';
+import { EmailVerificationToken, User } from '../db/index.js';
+import { JsonFileMailTransport, setMailTransport } from '../utils/mailer.js';
+import { generateEmailVerificationToken, hashToken } from '../utils/jwt.js';
+
+vi.mock('../db/index.js', () => ({
+  EmailVerificationToken: {
+    create: vi.fn(),
+    find: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  User: {
+    findById: vi.fn(),
+  },
+}));
+
+const mockRecentSends = (sends: { createdAt: Date }[]) => {
+  vi.mocked(EmailVerificationToken.find).mockReturnValue({
+    sort: vi.fn().mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        lean: vi.fn().mockResolvedValue(sends),
+      }),
+    }),
+  } as never);
+};
+
+describe('EmailVerificationService', () => {
+  let service: EmailVerificationService;
+  let mailDir: string;
+  let mailPath: string;
+
+  const readMail = async () => {
+    const raw = await fs.readFile(mailPath, 'utf8');
+    return raw.trim().split('\n').map((line) => JSON.parse(line));
+  };
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    process.env.FRONTEND_URL = 'http://localhost:5173';
+    mailDir = await fs.mkdtemp(path.join(os.tmpdir(), 'codejam-mail-'));
+    mailPath = path.join(mailDir, 'mail.jsonl');
+    setMailTransport(new JsonFileMailTransport(mailPath));
+    service = new EmailVerificationService();
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    setMailTransport(null);
+    await fs.rm(mailDir, { recursive: true, force: true });
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should email a verification link and store its hash', async () => {
+      vi.mocked(User.findById).mockResolvedValue({
+        _id: 'user-1',
+        name: 'Priya',
+        email: 'priya@test.com',
+        emailVerified: false,
+      } as never);
+      mockRecentSends([]);
+
+      await service.sendVerificationEmail('user-1');
+
+      const [mail] = await readMail();
+      expect(mail.to).toBe('priya@test.com');
+      const token = decodeURIComponent(mail.text.match(/verify-email\?token=([^\s]+)/)[1]);
+
+      expect(EmailVerificationToken.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', email: 'priya@test.com', tokenHash: hashToken(token) })
+      );
+      expect(EmailVerificationToken.updateMany).toHaveBeenCalled();
+    });
+
+    it('should refuse to resend within the cooldown', async () => {
+      vi.mocked(User.findById).mockResolvedValue({
+        _id: 'user-1',
+        name: 'Priya',
+        email: 'priya@test.com',
+        emailVerified: false,
+      } as never);
+      mockRecentSends([{ createdAt: new Date() }]);
+
+      await expect(service.sendVerificationEmail('user-1')).rejects.toThrow('Too many');
+      expect(EmailVerificationToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to send to verified users', async () => {
+      vi.mocked(User.findById).mockResolvedValue({ _id: 'user-1', emailVerified: true } as never);
+
+      await expect(service.sendVerificationEmail('user-1')).rejects.toThrow('already verified');
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the user as verified', async () => {
+      const token = generateEmailVerificationToken('user-1', 'priya@test.com', 3600);
+      const user = { _id: 'user-1', email: 'priya@test.com', emailVerified: false, save: vi.fn() };
+
+      vi.mocked(EmailVerificationToken.findOneAndUpdate).mockResolvedValue({
+        userId: 'user-1',
+        email: 'priya@test.com',
+      } as never);
+      vi.mocked(User.findById).mockResolvedValue(user as never);
+
+      await service.verifyEmail(token);
+
+      expect(user.emailVerified).toBe(true);
+      expect(user.save).toHaveBeenCalled();
+      expect(EmailVerificationToken.findOneAndUpdate).toHaveBeenCalledWith(
+        { tokenHash: hashToken(token), usedAt: { $exists: false } },
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should reject a token that was already used', async () => {
+      const token = generateEmailVerificationToken('user-1', 'priya@test.com', 3600);
+      vi.mocked(EmailVerificationToken.findOneAndUpdate).mockResolvedValue(null);
+
+      await expect(service.verifyEmail(token)).rejects.toThrow('already been used');
+    });
+
+    it('should reject a link sent to a previous email address', async () => {
+      const token = generateEmailVerificationToken('user-1', 'old@test.com', 3600);
+      vi.mocked(EmailVerificationToken.findOneAndUpdate).mockResolvedValue({
+        userId: 'user-1',
+        email: 'old@test.com',
+      } as never);
+      vi.mocked(User.findById).mockResolvedValue({ _id: 'user-1', email: 'new@test.com', emailVerified: false } as never);
+
+      await expect(service.verifyEmail(token)).rejects.toThrow('invalid');
+    });
+
+    it('should reject tampered tokens', async () => {
+      await expect(service.verifyEmail('not-a-token')).rejects.toThrow('invalid or has expired');
+      expect(EmailVerificationToken.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
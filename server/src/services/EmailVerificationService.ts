@@ -0,0 +1,127 @@
+import { EmailVerificationToken, User } from '../db/index.js';
+import { generateEmailVerificationToken, verifyEmailVerificationToken, hashToken } from '../utils/jwt.js';
+import { sendMail, escapeHtml } from '../utils/mailer.js';
+
+/**
+ * EmailVerificationService confirms that password signups own their email address
+ *
+ * Verification links carry a signed token. Only its hash is stored, and it is
+ * marked as used the first time it is redeemed, so each link works once.
+ * Requesting a new link invalidates the previous ones.
+ */
+export class EmailVerificationService {
+  private readonly TOKEN_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+  private readonly RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between emails
+  private readonly MAX_SENDS_PER_HOUR = 5;
+
+  /**
+   * Send a verification email to a user
+   * Throttled per user to prevent mail flooding
+   *
+   * @param userId - The ID of the user
+   * @throws Error if user not found, already verified, or throttled
+   */
+  async sendVerificationEmail(userId: string): Promise<void> {
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.emailVerified) {
+      throw new Error('Email is already verified');
+    }
+
+    await this.assertNotThrottled(userId);
+
+    // Only the newest link should work; older records are kept for throttling
+    await EmailVerificationToken.updateMany(
+      { userId, usedAt: { $exists: false } },
+      { $set: { usedAt: new Date() } }
+    );
+
+    const token = generateEmailVerificationToken(userId, user.email, this.TOKEN_TTL_SECONDS);
+    await EmailVerificationToken.create({
+      userId,
+      email: user.email,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + this.TOKEN_TTL_SECONDS * 1000),
+    });
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    const link = `${frontendUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await sendMail({
+      to: user.email,
+      subject: 'Verify your CodeJam email address',
+      text: `Hi ${user.name},\n\nPlease confirm your email address by opening this link:\n\n${link}\n\nThe link expires in 24 hours. If you did not create a CodeJam account, you can ignore this email.`,
+      html: `<p>Hi ${escapeHtml(user.name)},</p><p>Please confirm your email address by clicking the link below:</p><p><a href="${link}">Verify email address</a></p><p>The link expires in 24 hours. If you did not create a CodeJam account, you can ignore this email.</p>`,
+    });
+  }
+
+  /**
+   * Redeem a verification token and mark the user's email as verified
+   *
+   * @param token - The token from the verification link
+   * @returns The ID of the verified user
+   * @throws Error if the token is invalid, expired or already used
+   */
+  async verifyEmail(token: string): Promise<string> {
+    let payload;
+    try {
+      payload = verifyEmailVerificationToken(token);
+    } catch {
+      throw new Error('Verification link is invalid or has expired');
+    }
+
+    // Atomically mark the token as used so it cannot be redeemed twice
+    const record = await EmailVerificationToken.findOneAndUpdate(
+      { tokenHash: hashToken(token), usedAt: { $exists: false } },
+      { $set: { usedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!record || record.userId.toString() !== payload.userId) {
+      throw new Error('Verification link is invalid or has already been used');
+    }
+
+    const user = await User.findById(payload.userId);
+
+    // The link only verifies the address it was sent to
+    if (!user || user.email !== record.email) {
+      throw new Error('Verification link is invalid or has already been used');
+    }
+
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      await user.save();
+    }
+
+    return user._id.toString();
+  }
+
+  /**
+   * Reject the request if the user was sent a verification email too recently
+   * or too often in the last hour
+   */
+  private async assertNotThrottled(userId: string): Promise<void> {
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    const recent = await EmailVerificationToken.find({
+      userId,
+      createdAt: { $gte: oneHourAgo },
+    })
+      .sort({ createdAt: -1 })
+      .select('createdAt')
+      .lean();
+
+    if (recent.length >= this.MAX_SENDS_PER_HOUR) {
+      throw new Error('Too many verification emails requested. Please try again later.');
+    }
+
+    if (recent.length > 0 && Date.now() - new Date(recent[0].createdAt).getTime() < this.RESEND_COOLDOWN_MS) {
+      throw new Error('Too many verification emails requested. Please wait a minute before trying again.');
+    }
+  }
+}
+
+export const emailVerificationService = new EmailVerificationService();
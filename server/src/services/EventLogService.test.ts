@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventLogService } from './EventLogService.js';
+import { EventSequence, QueuedMessage } from '../db/index.js';
+
+vi.mock('../db/index.js', () => ({
+  EventSequence: {
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    updateOne: vi.fn(),
+  },
+  QueuedMessage: {
+    create: vi.fn(),
+    find: vi.fn(),
+    deleteMany: vi.fn(),
+    countDocuments: vi.fn(),
+  },
+}));
+
+interface StoredEvent {
+  userId: string;
+  seq: number;
+  type: string;
+  payload: unknown;
+  senderId?: string;
+  timestamp: Date;
+  expiresAt: Date;
+}
+
+type Range = { $gt?: number; $gte?: number; $lt?: number; $lte?: number };
+
+const PRIYA_ID = '64b7f0c2a1b2c3d4e5f60718';
+const ARJUN_ID = '64b7f0c2a1b2c3d4e5f60719';
+
+const inRange = (value: number, range: Range | undefined) =>
+  !range ||
+  ((range.$gt === undefined || value > range.$gt) &&
+    (range.$gte === undefined || value >= range.$gte) &&
+    (range.$lt === undefined || value < range.$lt) &&
+    (range.$lte === undefined || value <= range.$lte));
+
+/**
+ * Minimal in-memory stand-in for the EventSequence and QueuedMessage collections
+ */
+const createLogStore = () => {
+  const sequences = new Map<string, { seq: number; ackedSeq: number }>();
+  let events: StoredEvent[] = [];
+
+  const matches = (event: StoredEvent, query: Record<string, unknown>) => {
+    if (query.userId && event.userId !== query.userId) return false;
+    if (!inRange(event.seq, query.seq as Range)) return false;
+    const expiresAt = query.expiresAt as { $gt: Date } | undefined;
+    if (expiresAt && event.expiresAt <= expiresAt.$gt) return false;
+    return true;
+  };
+
+  vi.mocked(EventSequence.findOneAndUpdate).mockImplementation((async ({ userId }: { userId: string }) => {
+    const sequence = sequences.get(userId) ?? { seq: 0, ackedSeq: 0 };
+    sequence.seq++;
+    sequences.set(userId, sequence);
+    return { ...sequence };
+  }) as never);
+
+  vi.mocked(EventSequence.findOne).mockImplementation((({ userId }: { userId: string }) => ({
+    select: () => ({ lean: async () => sequences.get(userId) ?? null }),
+  })) as never);
+
+  vi.mocked(EventSequence.updateOne).mockImplementation((async (query: Record<string, unknown>, update: { $set: { ackedSeq: number } }) => {
+    const sequence = sequences.get(query.userId as string);
+    if (sequence && inRange(sequence.seq, query.seq as Range) && inRange(sequence.ackedSeq, query.ackedSeq as Range)) {
+      sequence.ackedSeq = update.$set.ackedSeq;
+      return { modifiedCount: 1 };
+    }
+    return { modifiedCount: 0 };
+  }) as never);
+
+  vi.mocked(QueuedMessage.create).mockImplementation((async (event: StoredEvent) => {
+    events.push(event);
+  }) as never);
+
+  vi.mocked(QueuedMessage.find).mockImplementation(((query: Record<string, unknown>) => {
+    let results = events.filter((event) => matches(event, query));
+    const chain = {
+      sort: () => {
+        results = [...results].sort((a, b) => a.seq - b.seq);
+        return chain;
+      },
+      lean: async () => results,
+    };
+    return chain;
+  }) as never);
+
+  vi.mocked(QueuedMessage.deleteMany).mockImplementation((async (query: Record<string, unknown>) => {
+    const before = events.length;
+    events = events.filter((event) => !matches(event, query));
+    return { deletedCount: before - events.length };
+  }) as never);
+
+  vi.mocked(QueuedMessage.countDocuments).mockImplementation((async (query: Record<string, unknown>) =>
+    events.filter((event) => matches(event, query)).length) as never);
+
+  return {
+    all: () => events,
+    sequence: (userId: string) => sequences.get(userId),
+    expireAll: () => events.forEach((event) => { event.expiresAt = new Date(0); }),
+  };
+};
+
+describe('EventLogService', () => {
+  let service: EventLogService;
+  let store: ReturnType<typeof createLogStore>;
+
+  const append = (userId: string, payload: unknown = {}) =>
+    service.append(userId, { type: 'group_message', payload, timestamp: new Date() });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = createLogStore();
+    service = new EventLogService();
+  });
+
+  it('should number each user\'s events separately', async () => {
+    expect(await append(PRIYA_ID)).toBe(1);
+    expect(await append(PRIYA_ID)).toBe(2);
+    expect(await append(ARJUN_ID)).toBe(1);
+
+    expect(store.all()[1]).toMatchObject({ userId: PRIYA_ID, seq: 2, type: 'group_message' });
+    expect(store.all()[1].expiresAt.getTime()).toBeGreaterThan(Date.now() + 23 * 60 * 60 * 1000);
+  });
+
+  it('should return the events after a sequence number in order', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await append(PRIYA_ID, { index: i });
+    }
+
+    const range = await service.getEventsAfter(PRIYA_ID, 2);
+
+    expect(range.complete).toBe(true);
+    expect(range.latestSeq).toBe(5);
+    expect(range.events.map((event) => event.seq)).toEqual([3, 4, 5]);
+    expect(range.events[0].payload).toEqual({ index: 3 });
+  });
+
+  it('should keep only the newest events and report older gaps as incomplete', async () => {
+    for (let i = 1; i <= 102; i++) {
+      await append(PRIYA_ID, { index: i });
+    }
+
+    expect(store.all()).toHaveLength(100);
+    expect((await service.getEventsAfter(PRIYA_ID, 2)).complete).toBe(true);
+
+    const tooOld = await service.getEventsAfter(PRIYA_ID, 1);
+    expect(tooOld.complete).toBe(false);
+    expect(tooOld.latestSeq).toBe(102);
+  });
+
+  it('should report expired and unknown gaps as incomplete', async () => {
+    await append(PRIYA_ID);
+    store.expireAll();
+
+    expect((await service.getEventsAfter(PRIYA_ID, 0)).complete).toBe(false);
+    expect((await service.getEventsAfter(PRIYA_ID, 1)).complete).toBe(true);
+    // A client remembering a sequence this log never reached has stale state
+    expect((await service.getEventsAfter(PRIYA_ID, 7)).complete).toBe(false);
+  });
+
+  it('should only move acknowledgements forward and never past the latest event', async () => {
+    await append(PRIYA_ID);
+    await append(PRIYA_ID);
+    await append(PRIYA_ID);
+
+    await service.acknowledge(PRIYA_ID, 2);
+    expect(await service.countUnacknowledged(PRIYA_ID)).toBe(1);
+
+    await service.acknowledge(PRIYA_ID, 1);
+    await service.acknowledge(PRIYA_ID, 9);
+    expect(store.sequence(PRIYA_ID)!.ackedSeq).toBe(2);
+
+    // Other users cannot acknowledge Priya's events
+    await service.acknowledge(ARJUN_ID, 3);
+    expect(await service.getAckedSeq(PRIYA_ID)).toBe(2);
+  });
+});
@@ -0,0 +1,165 @@
+import mongoose from 'mongoose';
+import { EventSequence, QueuedMessage } from '../db/index.js';
+
+/**
+ * A real-time event as stored in a user's event log
+ */
+export interface LoggedEvent {
+  seq: number;
+  type: string;
+  payload: unknown;
+  senderId?: string;
+  timestamp: Date;
+}
+
+/**
+ * Result of reading a user's log after a given sequence number
+ */
+export interface EventRange {
+  events: LoggedEvent[];
+  latestSeq: number;
+  // False when some events after the requested sequence are no longer retained
+  complete: boolean;
+}
+
+/**
+ * EventLogService keeps a per-user log of real-time events in MongoDB
+ *
+ * Every event sent to a user gets the next number in that user's sequence.
+ * Clients remember the last sequence number they saw, so after a reconnect the
+ * gap can be replayed. The log keeps the newest MAX_EVENTS_PER_USER events for
+ * MAX_EVENT_AGE_MS; older gaps need a full resync.
+ *
+ * Clients acknowledge the highest sequence number they have processed. Events
+ * after that are what a user "missed" while all of their devices were offline.
+ */
+export class EventLogService {
+  readonly MAX_EVENTS_PER_USER = 100;
+  readonly MAX_EVENT_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+  /**
+   * Check whether events for this user can be logged
+   */
+  canLog(userId: string): boolean {
+    return mongoose.Types.ObjectId.isValid(userId);
+  }
+
+  /**
+   * Append an event to a user's log
+   *
+   * @param userId - User ID
+   * @param event - The event to store
+   * @returns The sequence number assigned to the event
+   */
+  async append(userId: string, event: Omit<LoggedEvent, 'seq'>): Promise<number> {
+    const sequence = await EventSequence.findOneAndUpdate(
+      { userId },
+      { $inc: { seq: 1 } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+    const seq = sequence!.seq;
+
+    await QueuedMessage.create({
+      userId,
+      seq,
+      type: event.type,
+      payload: event.payload,
+      senderId: event.senderId,
+      timestamp: event.timestamp,
+      expiresAt: new Date(Date.now() + this.MAX_EVENT_AGE_MS),
+    });
+
+    // Sequence numbers are contiguous, so the size limit is a simple range delete
+    if (seq > this.MAX_EVENTS_PER_USER) {
+      await QueuedMessage.deleteMany({ userId, seq: { $lte: seq - this.MAX_EVENTS_PER_USER } });
+    }
+
+    return seq;
+  }
+
+  /**
+   * Get the events logged after a sequence number
+   *
+   * @param userId - User ID
+   * @param afterSeq - The last sequence number the client saw
+   * @returns The retained events in order, and whether they cover the whole gap
+   */
+  async getEventsAfter(userId: string, afterSeq: number): Promise<EventRange> {
+    const latestSeq = await this.getLatestSeq(userId);
+
+    if (afterSeq === latestSeq) {
+      return { events: [], latestSeq, complete: true };
+    }
+
+    // A sequence from the future means the client's state belongs to some other log
+    if (afterSeq > latestSeq) {
+      return { events: [], latestSeq, complete: false };
+    }
+
+    const stored = await QueuedMessage.find({
+      userId,
+      seq: { $gt: afterSeq },
+      expiresAt: { $gt: new Date() },
+    })
+      .sort({ seq: 1 })
+      .lean();
+
+    const events = stored.map(event => ({
+      seq: event.seq,
+      type: event.type,
+      payload: event.payload,
+      senderId: event.senderId,
+      timestamp: event.timestamp,
+    }));
+
+    return {
+      events,
+      latestSeq,
+      complete: events.length > 0 && events[0].seq === afterSeq + 1,
+    };
+  }
+
+  /**
+   * Get the highest sequence number assigned to a user so far
+   */
+  async getLatestSeq(userId: string): Promise<number> {
+    const sequence = await EventSequence.findOne({ userId }).select('seq').lean();
+    return sequence?.seq ?? 0;
+  }
+
+  /**
+   * Get the highest sequence number any of the user's clients acknowledged
+   */
+  async getAckedSeq(userId: string): Promise<number> {
+    const sequence = await EventSequence.findOne({ userId }).select('ackedSeq').lean();
+    return sequence?.ackedSeq ?? 0;
+  }
+
+  /**
+   * Record that a client has processed every event up to a sequence number
+   * Acknowledgements never move backwards or past the latest event
+   *
+   * @param userId - User ID
+   * @param seq - Highest sequence number processed
+   */
+  async acknowledge(userId: string, seq: number): Promise<void> {
+    if (!Number.isInteger(seq) || seq < 1) {
+      return;
+    }
+
+    await EventSequence.updateOne(
+      { userId, seq: { $gte: seq }, ackedSeq: { $lt: seq } },
+      { $set: { ackedSeq: seq } }
+    );
+  }
+
+  /**
+   * Count retained events that no client has acknowledged yet
+   */
+  async countUnacknowledged(userId: string): Promise<number> {
+    const ackedSeq = await this.getAckedSeq(userId);
+    return QueuedMessage.countDocuments({ userId, seq: { $gt: ackedSeq }, expiresAt: { $gt: new Date() } });
+  }
+}
+
+export const eventLogService = new EventLogService();
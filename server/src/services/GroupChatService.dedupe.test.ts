@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GroupChatService } from './GroupChatService.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService } from './MessageBroadcastService.js';
+import { SpaceMessage, TeamSpace, User } from '../db/index.js';
+
+vi.mock('../db/index.js', () => ({
+  SpaceMessage: {
+    findOne: vi.fn(),
+    create: vi.fn(),
+  },
+  TeamSpace: {
+    findById: vi.fn(),
+  },
+  User: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./MessageBroadcastService.js', () => ({
+  MessageType: { GROUP_MESSAGE: 'group_message' },
+  messageBroadcastService: { broadcastGroupMessage: vi.fn() },
+}));
+
+vi.mock('./ChannelService.js', () => ({
+  channelService: { resolveChannel: vi.fn(async () => ({ _id: '64b7f0c2a1b2c3d4e5f60740', name: 'general' })) },
+}));
+
+const PRIYA_ID = '64b7f0c2a1b2c3d4e5f60718';
+const SPACE_ID = '64b7f0c2a1b2c3d4e5f60720';
+
+const storedMessage = (content: string) => ({
+  id: '64b7f0c2a1b2c3d4e5f60730',
+  spaceId: SPACE_ID,
+  senderId: PRIYA_ID,
+  content,
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+});
+
+describe('GroupChatService client ids', () => {
+  let service: GroupChatService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(BuilderSpaceService.prototype, 'validateTeamMemberAccess').mockResolvedValue(true);
+    vi.mocked(TeamSpace.findById).mockResolvedValue({ _id: SPACE_ID, postType: 'startup', postId: 'post-1' } as never);
+    vi.mocked(User.findById).mockResolvedValue({ name: 'Priya' } as never);
+    service = new GroupChatService();
+  });
+
+  it('should store the client id with a new message', async () => {
+    vi.mocked(SpaceMessage.findOne).mockResolvedValue(null);
+    vi.mocked(SpaceMessage.create).mockResolvedValue(storedMessage('hello') as never);
+
+    await service.sendGroupMessage({ spaceId: SPACE_ID, senderId: PRIYA_ID, content: 'hello', clientId: 'c-1' });
+
+    expect(SpaceMessage.findOne).toHaveBeenCalledWith({ senderId: PRIYA_ID, clientId: 'c-1' });
+    expect(SpaceMessage.create).toHaveBeenCalledWith(expect.objectContaining({ clientId: 'c-1' }));
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return the original message when the same client id is sent again', async () => {
+    vi.mocked(SpaceMessage.findOne).mockResolvedValue(storedMessage('hello') as never);
+
+    const message = await service.sendGroupMessage({ spaceId: SPACE_ID, senderId: PRIYA_ID, content: 'hello', clientId: 'c-1' });
+
+    expect(message).toMatchObject({ id: '64b7f0c2a1b2c3d4e5f60730', content: 'hello', senderName: 'Priya' });
+    expect(SpaceMessage.create).not.toHaveBeenCalled();
+    expect(messageBroadcastService.broadcastGroupMessage).not.toHaveBeenCalled();
+  });
+
+  it('should return the other copy when a duplicate send races it to the database', async () => {
+    vi.mocked(SpaceMessage.findOne)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(storedMessage('hello') as never);
+    vi.mocked(SpaceMessage.create).mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+
+    const message = await service.sendGroupMessage({ spaceId: SPACE_ID, senderId: PRIYA_ID, content: 'hello', clientId: 'c-1' });
+
+    expect(message.id).toBe('64b7f0c2a1b2c3d4e5f60730');
+    expect(messageBroadcastService.broadcastGroupMessage).not.toHaveBeenCalled();
+  });
+});
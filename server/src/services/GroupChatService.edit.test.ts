@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GroupChatService } from './GroupChatService.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService } from './MessageBroadcastService.js';
+import { SpaceMessage, TeamSpace, User } from '../db/index.js';
+import { PRIYA_ID, MARCUS_ID, SPACE_ID, MESSAGE_ID, CREATED_AT, storedDocument, storedSpace } from '../tests/fixtures.js';
+
+vi.mock('../db/index.js', () => ({
+  SpaceMessage: {
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    findById: vi.fn(),
+  },
+  TeamSpace: {
+    findById: vi.fn(),
+  },
+  User: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./MessageBroadcastService.js', () => ({
+  MessageType: { GROUP_MESSAGE: 'group_message', GROUP_MESSAGE_UPDATED: 'group_message_updated' },
+  messageBroadcastService: { broadcastGroupMessage: vi.fn() },
+}));
+
+const NOW = new Date('2024-01-01T10:05:00Z');
+
+const storedMessage = storedDocument(() => ({
+  _id: MESSAGE_ID,
+  id: MESSAGE_ID,
+  spaceId: SPACE_ID,
+  senderId: PRIYA_ID,
+  content: 'helo team',
+  editHistory: [],
+  createdAt: CREATED_AT,
+  updatedAt: CREATED_AT,
+}));
+
+describe('GroupChatService edits and deletes', () => {
+  let service: GroupChatService;
+  let isFounder: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+    vi.spyOn(BuilderSpaceService.prototype, 'validateTeamMemberAccess').mockResolvedValue(true);
+    isFounder = vi.spyOn(BuilderSpaceService.prototype, 'isFounder').mockResolvedValue(false);
+    vi.mocked(TeamSpace.findById).mockResolvedValue(storedSpace() as never);
+    vi.mocked(User.findById).mockResolvedValue({ name: 'Priya' } as never);
+    vi.mocked(SpaceMessage.findOne).mockResolvedValue(storedMessage() as never);
+    service = new GroupChatService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep the previous content when the sender edits a message', async () => {
+    vi.mocked(SpaceMessage.findOneAndUpdate).mockResolvedValue(
+      storedMessage({ content: 'hello team', editedAt: NOW }) as never
+    );
+
+    const message = await service.editGroupMessage({ spaceId: SPACE_ID, messageId: MESSAGE_ID, userId: PRIYA_ID, content: 'hello team' });
+
+    expect(SpaceMessage.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: MESSAGE_ID, content: 'helo team', deletedAt: { $exists: false } },
+      {
+        $set: { content: 'hello team', editedAt: NOW, mentions: [] },
+        $push: { editHistory: { content: 'helo team', editedAt: NOW } },
+      },
+      { new: true }
+    );
+    expect(message).toMatchObject({ content: 'hello team', editedAt: NOW, deletedAt: null });
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(
+      SPACE_ID,
+      expect.objectContaining({ type: 'group_message_updated', payload: message })
+    );
+  });
+
+  it('should not let anyone else edit a message, or the sender once the window has passed', async () => {
+    await expect(
+      service.editGroupMessage({ spaceId: SPACE_ID, messageId: MESSAGE_ID, userId: MARCUS_ID, content: 'hijacked' })
+    ).rejects.toThrow('Access denied');
+
+    vi.setSystemTime(new Date('2024-01-01T11:00:00Z'));
+    await expect(
+      service.editGroupMessage({ spaceId: SPACE_ID, messageId: MESSAGE_ID, userId: PRIYA_ID, content: 'hello team' })
+    ).rejects.toThrow('edit window');
+
+    expect(SpaceMessage.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should report a conflict when the message changed while it was being edited', async () => {
+    vi.mocked(SpaceMessage.findOneAndUpdate).mockResolvedValue(null);
+
+    await expect(
+      service.editGroupMessage({ spaceId: SPACE_ID, messageId: MESSAGE_ID, userId: PRIYA_ID, content: 'hello team' })
+    ).rejects.toThrow('changed by someone else');
+    expect(messageBroadcastService.broadcastGroupMessage).not.toHaveBeenCalled();
+  });
+
+  it('should let a founder delete any message and hide its content', async () => {
+    isFounder.mockResolvedValue(true);
+    vi.mocked(SpaceMessage.findOneAndUpdate).mockResolvedValue(
+      storedMessage({ deletedAt: NOW, deletedBy: MARCUS_ID }) as never
+    );
+
+    const message = await service.deleteGroupMessage({ spaceId: SPACE_ID, messageId: MESSAGE_ID, userId: MARCUS_ID });
+
+    expect(isFounder).toHaveBeenCalledWith(MARCUS_ID, 'startup', 'post-1');
+    expect(message).toMatchObject({ content: '', deletedAt: NOW, deletedBy: MARCUS_ID });
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(
+      SPACE_ID,
+      expect.objectContaining({ type: 'group_message_updated' })
+    );
+  });
+
+  it('should not let other members delete a message', async () => {
+    await expect(
+      service.deleteGroupMessage({ spaceId: SPACE_ID, messageId: MESSAGE_ID, userId: MARCUS_ID })
+    ).rejects.toThrow('Access denied');
+    expect(SpaceMessage.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
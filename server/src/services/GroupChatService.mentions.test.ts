@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { GroupChatService } from './GroupChatService.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { notificationService } from './NotificationService.js';
+import { SpaceMessage, TeamSpace, TeamMember, User } from '../db/index.js';
+import { PRIYA_ID, MARCUS_ID, ANA_ID, SPACE_ID, MESSAGE_ID, storedDocument, storedSpace } from '../tests/fixtures.js';
+
+vi.mock('../db/index.js', () => ({
+  SpaceMessage: {
+    findOne: vi.fn(),
+    create: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+  },
+  TeamSpace: {
+    findById: vi.fn(),
+  },
+  TeamMember: {
+    find: vi.fn(),
+  },
+  User: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./MessageBroadcastService.js', () => ({
+  MessageType: { GROUP_MESSAGE: 'group_message', GROUP_MESSAGE_UPDATED: 'group_message_updated' },
+  messageBroadcastService: { broadcastGroupMessage: vi.fn() },
+}));
+
+vi.mock('./ChannelService.js', () => ({
+  channelService: { resolveChannel: vi.fn(async () => ({ _id: '64b7f0c2a1b2c3d4e5f60740', name: 'general' })) },
+}));
+
+vi.mock('./NotificationService.js', () => ({
+  notificationService: { notifyMentions: vi.fn() },
+}));
+
+const SENT_AT = new Date();
+
+const storedMessage = storedDocument(() => ({
+  _id: new mongoose.Types.ObjectId(MESSAGE_ID),
+  id: MESSAGE_ID,
+  spaceId: SPACE_ID,
+  senderId: PRIYA_ID,
+  content: 'hello',
+  mentions: [],
+  createdAt: SENT_AT,
+  updatedAt: SENT_AT,
+}));
+
+const teamMembers = [
+  { userId: { _id: new mongoose.Types.ObjectId(PRIYA_ID), name: 'Priya Sharma' } },
+  { userId: { _id: new mongoose.Types.ObjectId(MARCUS_ID), name: 'Marcus Lee' } },
+  { userId: { _id: new mongoose.Types.ObjectId(ANA_ID), name: 'Ana Costa' } },
+];
+
+describe('GroupChatService mentions', () => {
+  let service: GroupChatService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(BuilderSpaceService.prototype, 'validateTeamMemberAccess').mockResolvedValue(true);
+    vi.mocked(TeamSpace.findById).mockResolvedValue(storedSpace() as never);
+    vi.mocked(TeamMember.find).mockReturnValue({
+      populate: () => ({ lean: () => Promise.resolve(teamMembers) }),
+    } as never);
+    vi.mocked(User.findById).mockResolvedValue({ name: 'Priya Sharma' } as never);
+    service = new GroupChatService();
+  });
+
+  it('should store mentioned members on the message and notify them', async () => {
+    const content = '@Marcus can you pair with @ana costa?';
+    const mentions = [
+      { userId: MARCUS_ID, start: 0, length: 7 },
+      { userId: ANA_ID, start: 26, length: 10 },
+    ];
+    vi.mocked(SpaceMessage.create).mockResolvedValue(storedMessage({ content, mentions }) as never);
+
+    const message = await service.sendGroupMessage({ spaceId: SPACE_ID, senderId: PRIYA_ID, content });
+
+    expect(SpaceMessage.create).toHaveBeenCalledWith(expect.objectContaining({ mentions }));
+    expect(message.mentions).toEqual(mentions);
+    expect(notificationService.notifyMentions).toHaveBeenCalledWith({
+      spaceId: SPACE_ID,
+      messageId: MESSAGE_ID,
+      parentMessageId: null,
+      actorId: PRIYA_ID,
+      content,
+      userIds: [MARCUS_ID, ANA_ID],
+    });
+  });
+
+  it('should only notify members an edit newly mentions', async () => {
+    const content = '@Marcus and @Ana, standup moved';
+    vi.mocked(SpaceMessage.findOne).mockResolvedValue(storedMessage({
+      content: '@Marcus standup moved',
+      mentions: [{ userId: new mongoose.Types.ObjectId(MARCUS_ID), start: 0, length: 7 }],
+    }) as never);
+    vi.mocked(SpaceMessage.findOneAndUpdate).mockImplementation((_filter, update) =>
+      Promise.resolve(storedMessage({ ...(update as { $set: object }).$set })) as never
+    );
+
+    await service.editGroupMessage({ spaceId: SPACE_ID, messageId: MESSAGE_ID, userId: PRIYA_ID, content });
+
+    expect(notificationService.notifyMentions).toHaveBeenCalledWith(expect.objectContaining({ userIds: [ANA_ID] }));
+  });
+
+  it('should not look up members when nobody is mentioned', async () => {
+    vi.mocked(SpaceMessage.create).mockResolvedValue(storedMessage() as never);
+
+    const message = await service.sendGroupMessage({ spaceId: SPACE_ID, senderId: PRIYA_ID, content: 'hello' });
+
+    expect(message.mentions).toEqual([]);
+    expect(TeamMember.find).not.toHaveBeenCalled();
+    expect(notificationService.notifyMentions).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { GroupChatService } from './GroupChatService.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService } from './MessageBroadcastService.js';
+import { channelService } from './ChannelService.js';
+import { SpaceMessage, TeamSpace, User } from '../db/index.js';
+import { PRIYA_ID, MARCUS_ID, SPACE_ID, CREATED_AT, storedDocument, storedSpace } from '../tests/fixtures.js';
+
+vi.mock('../db/index.js', () => ({
+  SpaceMessage: {
+    findOne: vi.fn(),
+    create: vi.fn(),
+    findByIdAndUpdate: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+  },
+  TeamSpace: {
+    findById: vi.fn(),
+  },
+  User: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./MessageBroadcastService.js', () => ({
+  MessageType: {
+    GROUP_MESSAGE: 'group_message',
+    GROUP_MESSAGE_REPLY: 'group_message_reply',
+    GROUP_MESSAGE_REACTION: 'group_message_reaction',
+  },
+  messageBroadcastService: { broadcastGroupMessage: vi.fn() },
+}));
+
+vi.mock('./ChannelService.js', () => ({
+  channelService: { resolveChannel: vi.fn(async () => ({ _id: '64b7f0c2a1b2c3d4e5f60740', name: 'general' })) },
+}));
+
+const PARENT_ID = '64b7f0c2a1b2c3d4e5f60730';
+const REPLY_ID = '64b7f0c2a1b2c3d4e5f60731';
+
+const storedMessage = storedDocument(() => ({
+  _id: new mongoose.Types.ObjectId(PARENT_ID),
+  id: PARENT_ID,
+  spaceId: SPACE_ID,
+  senderId: PRIYA_ID,
+  content: 'Who takes the login task?',
+  replyCount: 0,
+  reactions: [],
+  createdAt: CREATED_AT,
+  updatedAt: CREATED_AT,
+}));
+
+const reactionsOf = (...userIds: string[]) => [{ emoji: '👍', userIds: userIds.map(id => new mongoose.Types.ObjectId(id)) }];
+
+describe('GroupChatService threads and reactions', () => {
+  let service: GroupChatService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(BuilderSpaceService.prototype, 'validateTeamMemberAccess').mockResolvedValue(true);
+    vi.mocked(TeamSpace.findById).mockResolvedValue(storedSpace() as never);
+    vi.mocked(User.findById).mockResolvedValue({ name: 'Marcus' } as never);
+    service = new GroupChatService();
+  });
+
+  describe('replies', () => {
+    it('should store a reply under its thread and count it', async () => {
+      const repliedAt = new Date('2024-01-01T10:02:00Z');
+      vi.mocked(SpaceMessage.findOne).mockResolvedValue(storedMessage({ channelId: 'design-channel' }) as never);
+      vi.mocked(SpaceMessage.create).mockResolvedValue(storedMessage({
+        _id: new mongoose.Types.ObjectId(REPLY_ID),
+        id: REPLY_ID,
+        senderId: MARCUS_ID,
+        content: 'I will',
+        parentMessageId: PARENT_ID,
+        createdAt: repliedAt,
+        updatedAt: repliedAt,
+      }) as never);
+      vi.mocked(SpaceMessage.findByIdAndUpdate).mockResolvedValue(
+        storedMessage({ replyCount: 3, lastReplyAt: repliedAt }) as never
+      );
+
+      const reply = await service.sendGroupMessage({
+        spaceId: SPACE_ID,
+        senderId: MARCUS_ID,
+        content: 'I will',
+        parentMessageId: PARENT_ID,
+      });
+
+      expect(reply).toMatchObject({ id: REPLY_ID, parentMessageId: PARENT_ID, senderName: 'Marcus' });
+      expect(SpaceMessage.create).toHaveBeenCalledWith(expect.objectContaining({ parentMessageId: PARENT_ID }));
+      // Replies go in their thread's channel
+      expect(channelService.resolveChannel).toHaveBeenCalledWith(SPACE_ID, 'design-channel');
+      expect(SpaceMessage.findByIdAndUpdate).toHaveBeenCalledWith(
+        PARENT_ID,
+        { $inc: { replyCount: 1 }, $max: { lastReplyAt: repliedAt } },
+        { new: true }
+      );
+      expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledTimes(1);
+      expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(
+        SPACE_ID,
+        expect.objectContaining({
+          type: 'group_message_reply',
+          payload: { reply, replyCount: 3, lastReplyAt: repliedAt },
+        }),
+        MARCUS_ID
+      );
+    });
+
+    it('should not let replies start threads of their own', async () => {
+      vi.mocked(SpaceMessage.findOne).mockResolvedValue(storedMessage({ parentMessageId: 'another-thread' }) as never);
+
+      await expect(service.sendGroupMessage({
+        spaceId: SPACE_ID,
+        senderId: MARCUS_ID,
+        content: 'Nested?',
+        parentMessageId: PARENT_ID,
+      })).rejects.toThrow('Invalid thread');
+      expect(SpaceMessage.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reactions', () => {
+    beforeEach(() => {
+      vi.mocked(SpaceMessage.findOne).mockResolvedValue(storedMessage() as never);
+    });
+
+    it('should add a reaction the user has not made yet', async () => {
+      vi.mocked(SpaceMessage.findOneAndUpdate)
+        .mockResolvedValueOnce(null) // not reacted yet, nothing to take back
+        .mockResolvedValueOnce(storedMessage({ reactions: reactionsOf(PRIYA_ID, MARCUS_ID) }) as never);
+
+      const reaction = await service.toggleReaction({ spaceId: SPACE_ID, messageId: PARENT_ID, userId: MARCUS_ID, emoji: '👍' });
+
+      expect(reaction).toEqual({
+        spaceId: SPACE_ID,
+        messageId: PARENT_ID,
+        userId: MARCUS_ID,
+        emoji: '👍',
+        added: true,
+        reactions: [{ emoji: '👍', userIds: [PRIYA_ID, MARCUS_ID] }],
+      });
+      expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(
+        SPACE_ID,
+        expect.objectContaining({ type: 'group_message_reaction', payload: reaction })
+      );
+    });
+
+    it('should take the reaction back when the user reacts with the same emoji again', async () => {
+      vi.mocked(SpaceMessage.findOneAndUpdate)
+        .mockResolvedValueOnce(storedMessage({ reactions: [{ emoji: '👍', userIds: [] }] }) as never)
+        .mockResolvedValueOnce(storedMessage({ reactions: [] }) as never);
+
+      const reaction = await service.toggleReaction({ spaceId: SPACE_ID, messageId: PARENT_ID, userId: MARCUS_ID, emoji: '👍' });
+
+      expect(reaction).toMatchObject({ added: false, reactions: [] });
+      expect(SpaceMessage.findOneAndUpdate).toHaveBeenLastCalledWith(
+        { _id: expect.anything() },
+        { $pull: { reactions: { userIds: { $size: 0 } } } },
+        { new: true }
+      );
+    });
+
+    it('should accept joined sequences and keycaps as one emoji', async () => {
+      for (const emoji of ['👨\u200d👩\u200d👧\u200d👦', '1\ufe0f\u20e3']) {
+        vi.mocked(SpaceMessage.findOneAndUpdate)
+          .mockResolvedValueOnce(null)
+          .mockResolvedValueOnce(storedMessage({ reactions: [{ emoji, userIds: [new mongoose.Types.ObjectId(MARCUS_ID)] }] }) as never);
+
+        const reaction = await service.toggleReaction({ spaceId: SPACE_ID, messageId: PARENT_ID, userId: MARCUS_ID, emoji });
+
+        expect(reaction).toMatchObject({ emoji, added: true });
+      }
+    });
+
+    it('should only accept a single emoji', async () => {
+      for (const emoji of ['hello', '12', '👍 👎', '<b>']) {
+        await expect(
+          service.toggleReaction({ spaceId: SPACE_ID, messageId: PARENT_ID, userId: MARCUS_ID, emoji })
+        ).rejects.toThrow('Invalid emoji');
+      }
+
+      await expect(
+        service.toggleReaction({ spaceId: SPACE_ID, messageId: 'not-an-id', userId: MARCUS_ID, emoji: '🇮🇳' })
+      ).rejects.toThrow('Message not found');
+      expect(SpaceMessage.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
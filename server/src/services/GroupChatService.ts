@@ -1,22 +1,81 @@
-import { SpaceMessage, TeamSpace, User } from '../db/index.js';
+import mongoose from 'mongoose';
+import { SpaceMessage, TeamSpace, TeamMember, User, ISpaceMessage, ITeamSpace, IMessageReaction } from '../db/index.js';
 import { BuilderSpaceService } from './BuilderSpaceService.js';
 import { messageBroadcastService, MessageType } from './MessageBroadcastService.js';
-import DOMPurify from 'isomorphic-dompurify';
+import { notificationService } from './NotificationService.js';
+import { channelService } from './ChannelService.js';
+import { MessagePage, MessagePageQuery, buildMessagePageQuery, toMessagePage } from '../utils/messagePagination.js';
+import { getEditableUntil, isWithinEditWindow } from '../utils/messageEditWindow.js';
+import { parseMentions, ParsedMention } from '../utils/mentions.js';
+import { GroupMessageReactionPayload, MessageMention, MessageReaction } from '../shared/realtimeProtocol.js';
+import { sanitizeContent } from '../utils/markdown.js';
+
+// Distinct emojis one message can collect
+const MAX_REACTIONS_PER_MESSAGE = 20;
+
+// One emoji, including skin tones, flags, keycaps like 1️⃣ and joined sequences like 👩‍💻
+// The joiners are alternatives rather than a character class, where they would combine with their neighbours
+const EMOJI_PATTERN = /^(?:\p{Extended_Pictographic}|\p{Emoji_Component}|\u200d|\ufe0f|\u20e3){1,32}$/u;
+const PICTOGRAPH_PATTERN = /\p{Extended_Pictographic}|\p{Regional_Indicator}|\u20e3/u;
 
 export interface GroupMessage {
   id: string;
   spaceId: string;
+  channelId?: string | null;
   senderId: string;
   senderName: string;
   content: string;
+  editedAt?: Date | null;
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
+  // Until when the sender may still edit or delete the message
+  editableUntil?: Date;
+  // Set on thread replies
+  parentMessageId?: string | null;
+  replyCount?: number;
+  lastReplyAt?: Date | null;
+  reactions?: MessageReaction[];
+  // Team members mentioned in the content
+  mentions?: MessageMention[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface GroupThread extends MessagePage<GroupMessage> {
+  // The message that started the thread; the page holds its replies
+  parent: GroupMessage;
+}
+
 export interface SendGroupMessageParams {
   spaceId: string;
   senderId: string;
   content: string;
+  // Client-generated id; sending again with the same id returns the first message
+  clientId?: string;
+  // Channel to post in; #general when not given
+  channelId?: string;
+  // Reply in the thread started by this message, in that message's channel
+  parentMessageId?: string;
+}
+
+export interface ToggleReactionParams {
+  spaceId: string;
+  messageId: string;
+  userId: string;
+  emoji: string;
+}
+
+export interface EditGroupMessageParams {
+  spaceId: string;
+  messageId: string;
+  userId: string;
+  content: string;
+}
+
+export interface DeleteGroupMessageParams {
+  spaceId: string;
+  messageId: string;
+  userId: string;
 }
 
 export class GroupChatService {
@@ -26,52 +85,19 @@ export class GroupChatService {
     this.builderSpaceService = new BuilderSpaceService();
   }
 
-  /**
-   * Validate and sanitize message content
-   * Removes potentially harmful content and ensures message is not empty
-   * 
-   * @param content - The raw message content
-   * @returns Sanitized content
-   * @throws Error if content is empty after sanitization
-   */
-  private validateAndSanitizeContent(content: string): string {
-    // Trim whitespace
-    const trimmed = content.trim();
-
-    if (!trimmed) {
-      throw new Error('Message content cannot be empty');
-    }
-
-    // Sanitize HTML/XSS content
-    const sanitized = DOMPurify.sanitize(trimmed, {
-      ALLOWED_TAGS: [], // Strip all HTML tags
-      ALLOWED_ATTR: [], // Strip all attributes
-      KEEP_CONTENT: true, // Keep text content
-    });
-
-    if (!sanitized.trim()) {
-      throw new Error('Message content cannot be empty after sanitization');
-    }
-
-    // Limit message length
-    const maxLength = 5000;
-    if (sanitized.length > maxLength) {
-      throw new Error(`Message content cannot exceed ${maxLength} characters`);
-    }
-
-    return sanitized;
-  }
-
   /**
    * Send a group message with team member validation
-   * Only team members can send messages in the Builder Space
+   * Only team members can send messages in the Builder Space.
+   * Messages go in the given channel, or #general. Archived channels take no new messages.
+   * With parentMessageId the message is a reply in that message's thread instead of the main chat.
+   * Team members @mentioned in the content are notified, even if they are offline.
    * 
-   * @param params - Message parameters including spaceId, senderId, and content
+   * @param params - Message parameters including spaceId, senderId, content and optional channelId and parentMessageId
    * @returns The created message with sender information
    * @throws Error if unauthorized or validation fails
    */
   async sendGroupMessage(params: SendGroupMessageParams): Promise<GroupMessage> {
-    const { spaceId, senderId, content } = params;
+    const { spaceId, senderId, content, clientId, channelId, parentMessageId } = params;
 
     // Get the space to validate it exists and get post info
     const space = await TeamSpace.findById(spaceId);
@@ -92,7 +118,7 @@ export class GroupChatService {
     }
 
     // Validate and sanitize content
-    const sanitizedContent = this.validateAndSanitizeContent(content);
+    const sanitizedContent = sanitizeContent(content);
 
     // Get sender information
     const sender = await User.findById(senderId);
@@ -101,22 +127,49 @@ export class GroupChatService {
       throw new Error('Sender not found');
     }
 
+    // A retried send must not post the message twice
+    const alreadySent = await this.findSentMessage(senderId, clientId);
+    if (alreadySent) {
+      return this.toGroupMessage(alreadySent, sender.name);
+    }
+
+    const parent = parentMessageId ? await this.findThreadParent(spaceId, parentMessageId) : null;
+    const channel = await channelService.resolveChannel(spaceId, parent ? parent.channelId : channelId);
+
+    if (channel.archivedAt) {
+      throw new Error(`#${channel.name} is archived and no longer takes new messages`);
+    }
+
+    const mentions = await this.findMentions(space, sanitizedContent);
+
     // Create message
-    const message = await SpaceMessage.create({
-      spaceId,
-      senderId,
-      content: sanitizedContent,
-    });
+    let message;
+    try {
+      message = await SpaceMessage.create({
+        spaceId,
+        channelId: channel._id,
+        senderId,
+        content: sanitizedContent,
+        clientId,
+        parentMessageId,
+        mentions,
+      });
+    } catch (error) {
+      // The same send arrived twice at once and the other copy was stored first
+      const sentConcurrently = (error as { code?: number }).code === 11000 ? await this.findSentMessage(senderId, clientId) : null;
+      if (!sentConcurrently) {
+        throw error;
+      }
+      return this.toGroupMessage(sentConcurrently, sender.name);
+    }
 
-    const messageData: GroupMessage = {
-      id: message.id,
-      spaceId,
-      senderId,
-      senderName: sender.name,
-      content: sanitizedContent,
-      createdAt: message.createdAt,
-      updatedAt: message.updatedAt,
-    };
+    const messageData = this.toGroupMessage(message, sender.name);
+    await this.notifyMentioned(messageData, mentions);
+
+    if (parentMessageId) {
+      await this.addReplyToThread(spaceId, parentMessageId, messageData);
+      return messageData;
+    }
 
     // Broadcast message to all team members in real-time (excluding sender)
     await messageBroadcastService.broadcastGroupMessage(
@@ -134,15 +187,414 @@ export class GroupChatService {
   }
 
   /**
-   * Get group message history with team member authorization
-   * Returns messages in chronological order (oldest first)
+   * The message a reply goes under; threads are one level deep
+   */
+  private async findThreadParent(spaceId: string, parentMessageId: string): Promise<ISpaceMessage> {
+    const parent = mongoose.isValidObjectId(parentMessageId)
+      ? await SpaceMessage.findOne({ _id: parentMessageId, spaceId })
+      : null;
+
+    if (!parent) {
+      throw new Error('Message not found');
+    }
+    if (parent.parentMessageId) {
+      throw new Error('Invalid thread: replies cannot have replies of their own');
+    }
+    if (parent.deletedAt) {
+      throw new Error('Message has been deleted');
+    }
+
+    return parent;
+  }
+
+  /**
+   * Count a new reply on its thread and send it to the other team members
+   */
+  private async addReplyToThread(spaceId: string, parentMessageId: string, reply: GroupMessage): Promise<void> {
+    const parent = await SpaceMessage.findByIdAndUpdate(
+      parentMessageId,
+      { $inc: { replyCount: 1 }, $max: { lastReplyAt: reply.createdAt } },
+      { new: true }
+    );
+
+    await messageBroadcastService.broadcastGroupMessage(
+      spaceId,
+      {
+        type: MessageType.GROUP_MESSAGE_REPLY,
+        payload: {
+          reply,
+          replyCount: parent?.replyCount ?? 1,
+          lastReplyAt: parent?.lastReplyAt ?? reply.createdAt,
+        },
+        timestamp: reply.createdAt,
+        senderId: reply.senderId,
+      },
+      reply.senderId // Exclude sender from broadcast
+    );
+  }
+
+  /**
+   * Team members mentioned in message content
+   */
+  private async findMentions(space: ITeamSpace, content: string): Promise<ParsedMention[]> {
+    if (!content.includes('@')) {
+      return [];
+    }
+
+    const members = await TeamMember.find({ postType: space.postType, postId: space.postId })
+      .populate('userId', 'name')
+      .lean();
+
+    return parseMentions(
+      content,
+      members
+        .map(member => member.userId as unknown as { _id: mongoose.Types.ObjectId; name?: string } | null)
+        .filter(user => user?.name)
+        .map(user => ({ userId: user._id.toString(), name: user.name }))
+    );
+  }
+
+  private async notifyMentioned(messageData: GroupMessage, mentions: ParsedMention[]): Promise<void> {
+    if (mentions.length === 0) {
+      return;
+    }
+
+    await notificationService.notifyMentions({
+      spaceId: messageData.spaceId,
+      messageId: messageData.id,
+      parentMessageId: messageData.parentMessageId,
+      actorId: messageData.senderId,
+      content: messageData.content,
+      userIds: mentions.map(mention => mention.userId),
+    });
+  }
+
+  /**
+   * Find a message the sender already sent with this client id
+   */
+  private async findSentMessage(senderId: string, clientId?: string) {
+    return clientId ? SpaceMessage.findOne({ senderId, clientId }) : null;
+  }
+
+  private toGroupMessage(
+    message: ISpaceMessage,
+    senderName: string,
+    senderId = message.senderId.toString()
+  ): GroupMessage {
+    return {
+      id: message.id,
+      spaceId: message.spaceId.toString(),
+      channelId: message.channelId?.toString() ?? null,
+      senderId,
+      senderName,
+      // Deleted messages keep their content for audit but it is never sent out
+      content: message.deletedAt ? '' : message.content,
+      editedAt: message.editedAt ?? null,
+      deletedAt: message.deletedAt ?? null,
+      deletedBy: message.deletedBy?.toString() ?? null,
+      editableUntil: getEditableUntil(message.createdAt),
+      parentMessageId: message.parentMessageId?.toString() ?? null,
+      replyCount: message.replyCount ?? 0,
+      lastReplyAt: message.lastReplyAt ?? null,
+      reactions: this.toReactions(message.reactions),
+      mentions: message.deletedAt ? [] : (message.mentions ?? []).map(mention => ({
+        userId: mention.userId.toString(),
+        start: mention.start,
+        length: mention.length,
+      })),
+      createdAt: message.createdAt,
+      updatedAt: message.updatedAt,
+    };
+  }
+
+  /**
+   * Map a message loaded with its sender populated
+   */
+  private toPopulatedGroupMessage(message: ISpaceMessage): GroupMessage {
+    // Senders who have since been deleted populate as null
+    const sender = message.senderId as unknown as { _id: mongoose.Types.ObjectId; name?: string } | null;
+    return this.toGroupMessage(message, sender?.name || 'Unknown User', sender?._id?.toString() ?? '');
+  }
+
+  private toReactions(reactions: IMessageReaction[] = []): MessageReaction[] {
+    return reactions.map(reaction => ({
+      emoji: reaction.emoji,
+      userIds: reaction.userIds.map(userId => userId.toString()),
+    }));
+  }
+
+  /**
+   * Add or remove the user's reaction to a group message
+   * Reacting again with the same emoji takes the reaction back
+   * 
+   * @param params - Space, message, reacting user and emoji
+   * @returns The change and every reaction on the message after it
+   * @throws Error if unauthorized, the message is deleted or the emoji is invalid
+   */
+  async toggleReaction(params: ToggleReactionParams): Promise<GroupMessageReactionPayload> {
+    const { spaceId, messageId, userId } = params;
+    const emoji = params.emoji.trim();
+
+    if (!EMOJI_PATTERN.test(emoji) || !PICTOGRAPH_PATTERN.test(emoji)) {
+      throw new Error('Invalid emoji');
+    }
+
+    const { message } = await this.findMemberMessage(spaceId, messageId, userId);
+
+    if (message.deletedAt) {
+      throw new Error('Message has been deleted');
+    }
+
+    const reactor = new mongoose.Types.ObjectId(userId);
+    let added = false;
+
+    // Take the reaction back if the user already reacted with this emoji
+    let updated: ISpaceMessage | null = await SpaceMessage.findOneAndUpdate(
+      { _id: message._id, reactions: { $elemMatch: { emoji, userIds: reactor } } },
+      { $pull: { 'reactions.$.userIds': reactor } },
+      { new: true }
+    );
+
+    if (updated) {
+      // Drop emojis nobody is reacting with any more
+      updated = await SpaceMessage.findOneAndUpdate(
+        { _id: message._id },
+        { $pull: { reactions: { userIds: { $size: 0 } } } },
+        { new: true }
+      ) ?? updated;
+    } else {
+      added = true;
+      updated = await this.addReaction(message._id, emoji, reactor);
+    }
+
+    const payload: GroupMessageReactionPayload = {
+      spaceId,
+      messageId: message.id,
+      userId,
+      emoji,
+      added,
+      reactions: this.toReactions(updated.reactions),
+    };
+
+    // Everyone sees the change, including the user's other devices
+    await messageBroadcastService.broadcastGroupMessage(spaceId, {
+      type: MessageType.GROUP_MESSAGE_REACTION,
+      payload,
+      timestamp: new Date(),
+      senderId: userId,
+    });
+
+    return payload;
+  }
+
+  /**
+   * Join an existing reaction, or start a new one while the message has room for it
+   */
+  private async addReaction(
+    messageId: mongoose.Types.ObjectId,
+    emoji: string,
+    reactor: mongoose.Types.ObjectId
+  ): Promise<ISpaceMessage> {
+    const joinExisting = () => SpaceMessage.findOneAndUpdate(
+      { _id: messageId, 'reactions.emoji': emoji },
+      { $addToSet: { 'reactions.$.userIds': reactor } },
+      { new: true }
+    );
+
+    const joined = await joinExisting();
+    if (joined) {
+      return joined;
+    }
+
+    const started = await SpaceMessage.findOneAndUpdate(
+      {
+        _id: messageId,
+        'reactions.emoji': { $ne: emoji },
+        [`reactions.${MAX_REACTIONS_PER_MESSAGE - 1}`]: { $exists: false },
+      },
+      { $push: { reactions: { emoji, userIds: [reactor] } } },
+      { new: true }
+    );
+    if (started) {
+      return started;
+    }
+
+    // Someone else started this reaction in the meantime, or the message is full
+    const joinedLate = await joinExisting();
+    if (!joinedLate) {
+      throw new Error(`Invalid emoji: a message can have at most ${MAX_REACTIONS_PER_MESSAGE} different reactions`);
+    }
+    return joinedLate;
+  }
+
+  /**
+   * Edit a group message
+   * Only the sender can edit, within the edit window; the previous content is kept in the edit history.
+   * Members the edit newly mentions are notified.
+   * 
+   * @param params - Space, message, editing user and new content
+   * @returns The edited message
+   * @throws Error if unauthorized, the window has passed, the message is deleted or validation fails
+   */
+  async editGroupMessage(params: EditGroupMessageParams): Promise<GroupMessage> {
+    const { spaceId, messageId, userId, content } = params;
+
+    const { message, space } = await this.findMemberMessage(spaceId, messageId, userId);
+
+    if (message.deletedAt) {
+      throw new Error('Message has been deleted');
+    }
+    if (message.senderId.toString() !== userId) {
+      throw new Error('Access denied: You can only edit your own messages');
+    }
+    if (!isWithinEditWindow(message.createdAt)) {
+      throw new Error('Access denied: The edit window for this message has passed');
+    }
+
+    const sanitizedContent = sanitizeContent(content);
+    const sender = await User.findById(userId);
+    const senderName = sender?.name || 'Unknown User';
+
+    if (sanitizedContent === message.content) {
+      return this.toGroupMessage(message, senderName);
+    }
+
+    const mentions = await this.findMentions(space, sanitizedContent);
+
+    // Only replace the content that was read, so two edits at once can't lose a revision
+    const editedAt = new Date();
+    const edited = await SpaceMessage.findOneAndUpdate(
+      { _id: message._id, content: message.content, deletedAt: { $exists: false } },
+      {
+        $set: { content: sanitizedContent, editedAt, mentions },
+        $push: { editHistory: { content: message.content, editedAt } },
+      },
+      { new: true }
+    );
+
+    if (!edited) {
+      throw new Error('Message was changed by someone else, reload and try again');
+    }
+
+    const messageData = this.toGroupMessage(edited, senderName);
+    const alreadyMentioned = new Set((message.mentions ?? []).map(mention => mention.userId.toString()));
+    await this.notifyMentioned(messageData, mentions.filter(mention => !alreadyMentioned.has(mention.userId)));
+    await this.broadcastUpdate(spaceId, messageData, userId);
+    return messageData;
+  }
+
+  /**
+   * Delete a group message
+   * Senders can delete their own messages within the edit window; founders can delete any message in their space.
+   * The message is kept for audit and shown to everyone as deleted.
+   * 
+   * @param params - Space, message and deleting user
+   * @returns The deleted message, with its content removed
+   * @throws Error if unauthorized or the window has passed
+   */
+  async deleteGroupMessage(params: DeleteGroupMessageParams): Promise<GroupMessage> {
+    const { spaceId, messageId, userId } = params;
+
+    const { message, space } = await this.findMemberMessage(spaceId, messageId, userId);
+    const sender = await User.findById(message.senderId);
+    const senderName = sender?.name || 'Unknown User';
+
+    if (message.deletedAt) {
+      return this.toGroupMessage(message, senderName);
+    }
+
+    const isSender = message.senderId.toString() === userId;
+    if (!isSender || !isWithinEditWindow(message.createdAt)) {
+      const isFounder = await this.builderSpaceService.isFounder(
+        userId,
+        space.postType as 'startup' | 'hackathon',
+        space.postId.toString()
+      );
+
+      if (!isFounder) {
+        throw new Error(isSender
+          ? 'Access denied: The edit window for this message has passed'
+          : 'Access denied: Only the sender or a founder can delete this message');
+      }
+    }
+
+    const deleted = await SpaceMessage.findOneAndUpdate(
+      { _id: message._id, deletedAt: { $exists: false } },
+      { $set: { deletedAt: new Date(), deletedBy: userId } },
+      { new: true }
+    );
+
+    // Someone else deleted it first
+    if (!deleted) {
+      const current = await SpaceMessage.findById(message._id);
+      return this.toGroupMessage(current ?? message, senderName);
+    }
+
+    const messageData = this.toGroupMessage(deleted, senderName);
+    await this.broadcastUpdate(spaceId, messageData, userId);
+    return messageData;
+  }
+
+  /**
+   * Load a message in a space, checking the user is a team member
+   */
+  private async findMemberMessage(spaceId: string, messageId: string, userId: string) {
+    const space = await TeamSpace.findById(spaceId);
+
+    if (!space) {
+      throw new Error('Builder Space not found');
+    }
+
+    const isAuthorized = await this.builderSpaceService.validateTeamMemberAccess(
+      userId,
+      space.postType as 'startup' | 'hackathon',
+      space.postId.toString()
+    );
+
+    if (!isAuthorized) {
+      throw new Error('Access denied: You are not authorized to access messages in this Builder Space');
+    }
+
+    const message = mongoose.isValidObjectId(messageId)
+      ? await SpaceMessage.findOne({ _id: messageId, spaceId })
+      : null;
+
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    return { message, space };
+  }
+
+  /**
+   * Send an edited or deleted message to every team member, so open chats update in place
+   */
+  private async broadcastUpdate(spaceId: string, messageData: GroupMessage, userId: string): Promise<void> {
+    await messageBroadcastService.broadcastGroupMessage(spaceId, {
+      type: MessageType.GROUP_MESSAGE_UPDATED,
+      payload: messageData,
+      timestamp: messageData.editedAt && !messageData.deletedAt ? messageData.editedAt : new Date(),
+      senderId: userId,
+    });
+  }
+
+  /**
+   * Get a page of a channel's message history with team member authorization
+   * Without a cursor this is the newest page; each page is in chronological order (oldest first)
    * 
    * @param spaceId - The ID of the Builder Space
    * @param userId - The ID of the user requesting messages
-   * @returns Array of messages with sender information
-   * @throws Error if unauthorized
+   * @param page - Optional before/after cursor and page size
+   * @param channelId - The channel to read; #general when not given
+   * @returns Page of messages with sender information
+   * @throws Error if unauthorized, the channel is not found or the cursor is invalid
    */
-  async getGroupMessages(spaceId: string, userId: string): Promise<GroupMessage[]> {
+  async getGroupMessages(
+    spaceId: string,
+    userId: string,
+    page: MessagePageQuery = {},
+    channelId?: string
+  ): Promise<MessagePage<GroupMessage>> {
     // Get the space to validate it exists and get post info
     const space = await TeamSpace.findById(spaceId);
 
@@ -161,21 +613,52 @@ export class GroupChatService {
       throw new Error('Access denied: You are not authorized to view messages in this Builder Space');
     }
 
-    // Get messages with sender information
-    const messages = await SpaceMessage.find({ spaceId })
+    const channel = await channelService.resolveChannel(spaceId, channelId);
+
+    // Get messages with sender information; thread replies are only shown in their thread
+    const { filter, sort, fetchLimit } = buildMessagePageQuery(page);
+    const messages = await SpaceMessage.find({ spaceId, channelId: channel._id, parentMessageId: null, ...filter })
       .populate('senderId', 'name')
-      .sort({ createdAt: 1 }) // Chronological order (oldest first)
-      .lean();
+      .sort(sort)
+      .limit(fetchLimit);
 
-    return messages.map((msg: any) => ({
-      id: msg.id || msg._id.toString(),
-      spaceId: msg.spaceId,
-      senderId: msg.senderId?._id?.toString() || msg.senderId,
-      senderName: msg.senderId?.name || 'Unknown User',
-      content: msg.content,
-      createdAt: msg.createdAt,
-      updatedAt: msg.updatedAt,
-    }));
+    return toMessagePage(messages, page, (msg) => this.toPopulatedGroupMessage(msg));
+  }
+
+  /**
+   * Get a thread: the message that started it and a page of its replies
+   * Pages work like getGroupMessages, newest replies first, each page oldest first
+   * 
+   * @param spaceId - The ID of the Builder Space
+   * @param messageId - The message that started the thread
+   * @param userId - The ID of the user requesting the thread
+   * @param page - Optional before/after cursor and page size
+   * @returns The thread's first message and a page of replies
+   * @throws Error if unauthorized, the message is not found or the cursor is invalid
+   */
+  async getThreadMessages(
+    spaceId: string,
+    messageId: string,
+    userId: string,
+    page: MessagePageQuery = {}
+  ): Promise<GroupThread> {
+    const { message } = await this.findMemberMessage(spaceId, messageId, userId);
+
+    if (message.parentMessageId) {
+      throw new Error('Invalid thread: replies cannot have replies of their own');
+    }
+
+    const sender = await User.findById(message.senderId);
+    const { filter, sort, fetchLimit } = buildMessagePageQuery(page);
+    const replies = await SpaceMessage.find({ spaceId, parentMessageId: message._id, ...filter })
+      .populate('senderId', 'name')
+      .sort(sort)
+      .limit(fetchLimit);
+
+    return {
+      parent: this.toGroupMessage(message, sender?.name || 'Unknown User'),
+      ...toMessagePage(replies, page, (reply) => this.toPopulatedGroupMessage(reply)),
+    };
   }
 
   /**
@@ -206,26 +689,17 @@ export class GroupChatService {
       throw new Error('Access denied: You are not authorized to view messages in this Builder Space');
     }
 
-    // Get most recent message
-    const message = await SpaceMessage.findOne({ spaceId })
+    // Get most recent message in the main chat
+    const message = await SpaceMessage.findOne({ spaceId, parentMessageId: null })
       .populate('senderId', 'name')
       .sort({ createdAt: -1 })
-      .limit(1)
-      .lean();
+      .limit(1);
 
     if (!message) {
       return null;
     }
 
-    return {
-      id: message.id || (message as any)._id.toString(),
-      spaceId: message.spaceId.toString(),
-      senderId: (message.senderId as any)?._id?.toString() || message.senderId,
-      senderName: (message.senderId as any)?.name || 'Unknown User',
-      content: message.content,
-      createdAt: message.createdAt,
-      updatedAt: message.updatedAt,
-    };
+    return this.toPopulatedGroupMessage(message);
   }
 
   /**
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { WebSocket } from 'ws';
+import {
+  MessageBroadcastService,
+  MessageType,
+  WS_AUTH_PROTOCOL,
+  WS_CLOSE_SESSION_REVOKED,
+  WS_CLOSE_TOKEN_EXPIRED,
+} from './MessageBroadcastService.js';
+import { User, TeamMember } from '../db/index.js';
+import { eventLogService } from './EventLogService.js';
+
+vi.mock('../db/index.js', () => ({
+  User: {
+    findById: vi.fn(),
+    find: vi.fn(),
+    updateOne: vi.fn(),
+  },
+  TeamMember: {
+    find: vi.fn(),
+  },
+  TeamSpace: {
+    find: vi.fn(),
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./EventLogService.js', () => ({
+  eventLogService: {
+    canLog: () => true,
+    append: vi.fn(),
+    getAckedSeq: vi.fn(),
+    getEventsAfter: vi.fn(),
+  },
+}));
+
+const USER_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+const mockUser = (user: Record<string, unknown> | null) => {
+  vi.mocked(User.findById).mockReturnValue({
+    select: vi.fn().mockResolvedValue(user),
+  } as never);
+};
+
+const mockConnectedUsers = (users: Record<string, unknown>[]) => {
+  vi.mocked(User.find).mockReturnValue({
+    select: vi.fn().mockReturnValue({
+      lean: vi.fn().mockResolvedValue(users),
+    }),
+  } as never);
+};
+
+describe('MessageBroadcastService authentication', () => {
+  let service: MessageBroadcastService;
+  let httpServer: Server;
+  let url: string;
+
+  const accessToken = (options: jwt.SignOptions = { expiresIn: '7d' }, claims: Record<string, unknown> = {}) =>
+    jwt.sign({ userId: USER_ID, email: 'priya@test.com', ...claims }, 'test-secret', options);
+
+  // Resolves with the HTTP status if the handshake is rejected, or the open socket
+  // and its first message (the server sends CONNECT straight away)
+  const connect = (protocols?: string[]) =>
+    new Promise<{
+      status?: number;
+      ws?: WebSocket;
+      firstMessage?: Promise<{ type: string; payload: Record<string, unknown> }>;
+    }>((resolve) => {
+      const ws = new WebSocket(url, protocols);
+      const firstMessage = new Promise<{ type: string; payload: Record<string, unknown> }>((resolveMessage) => {
+        ws.once('message', (data) => resolveMessage(JSON.parse(data.toString())));
+      });
+      ws.on('open', () => resolve({ ws, firstMessage }));
+      ws.on('unexpected-response', (_req, res) => resolve({ status: res.statusCode }));
+    });
+
+  const nextClose = (ws: WebSocket) =>
+    new Promise<number>((resolve) => {
+      ws.once('close', (code) => resolve(code));
+    });
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    vi.clearAllMocks();
+    // Nothing missed while offline
+    let seq = 0;
+    vi.mocked(eventLogService.append).mockImplementation(async () => ++seq);
+    vi.mocked(eventLogService.getAckedSeq).mockResolvedValue(0);
+    vi.mocked(eventLogService.getEventsAfter).mockResolvedValue({ events: [], latestSeq: 0, complete: true });
+    vi.mocked(TeamMember.find).mockResolvedValue([] as never);
+    mockUser({ _id: USER_ID, email: 'priya@test.com', name: 'Priya', emailVerified: true });
+
+    httpServer = createServer();
+    service = new MessageBroadcastService();
+    service.initialize(httpServer);
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    url = `ws://127.0.0.1:${(httpServer.address() as AddressInfo).port}/ws`;
+  });
+
+  afterEach(async () => {
+    service.shutdown();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('should reject connections without a token', async () => {
+    const { status } = await connect();
+    expect(status).toBe(401);
+  });
+
+  it('should ignore the old userId query parameter', async () => {
+    url = `${url}?userId=${USER_ID}`;
+    const { status } = await connect();
+    expect(status).toBe(401);
+    expect(service.isUserOnline(USER_ID)).toBe(false);
+  });
+
+  it('should reject expired, refresh and tampered tokens', async () => {
+    const expired = accessToken({ expiresIn: -10 });
+    const refresh = accessToken({ expiresIn: '30d' }, { type: 'refresh' });
+    const tampered = jwt.sign({ userId: USER_ID }, 'wrong-secret');
+
+    for (const token of [expired, refresh, tampered]) {
+      const { status } = await connect([WS_AUTH_PROTOCOL, token]);
+      expect(status).toBe(401);
+    }
+  });
+
+  it('should reject tokens for deleted users', async () => {
+    mockUser(null);
+    const { status } = await connect([WS_AUTH_PROTOCOL, accessToken()]);
+    expect(status).toBe(401);
+  });
+
+  it('should connect as the user named in the token', async () => {
+    const { ws, firstMessage } = await connect([WS_AUTH_PROTOCOL, accessToken()]);
+    const message = await firstMessage!;
+
+    expect(ws!.protocol).toBe(WS_AUTH_PROTOCOL);
+    expect(message.type).toBe(MessageType.CONNECT);
+    expect(message.payload.userId).toBe(USER_ID);
+    expect(service.isUserOnline(USER_ID)).toBe(true);
+    ws!.close();
+  });
+
+  it('should close the socket when the token expires', async () => {
+    const { ws } = await connect([WS_AUTH_PROTOCOL, accessToken({ expiresIn: 1 })]);
+
+    expect(await nextClose(ws!)).toBe(WS_CLOSE_TOKEN_EXPIRED);
+  });
+
+  it('should close the socket when the user is deleted', async () => {
+    const { ws } = await connect([WS_AUTH_PROTOCOL, accessToken()]);
+    mockConnectedUsers([]);
+
+    const closed = nextClose(ws!);
+    await service['revalidateSessions']();
+
+    expect(await closed).toBe(WS_CLOSE_SESSION_REVOKED);
+  });
+
+  it('should close the socket after a password change', async () => {
+    const { ws } = await connect([WS_AUTH_PROTOCOL, accessToken()]);
+    mockConnectedUsers([{ _id: USER_ID, passwordChangedAt: new Date(Date.now() + 5000) }]);
+
+    const closed = nextClose(ws!);
+    await service['revalidateSessions']();
+
+    expect(await closed).toBe(WS_CLOSE_SESSION_REVOKED);
+  });
+});
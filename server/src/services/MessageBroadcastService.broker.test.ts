@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { WebSocket } from 'ws';
+import { MessageBroadcastService, MessageType, WS_AUTH_PROTOCOL } from './MessageBroadcastService.js';
+import { eventLogService } from './EventLogService.js';
+import { User, TeamMember, TeamSpace } from '../db/index.js';
+import { InMemoryMessageBroker } from '../utils/messageBroker.js';
+
+vi.mock('../db/index.js', () => ({
+  User: {
+    findById: vi.fn(),
+    find: vi.fn(),
+    updateOne: vi.fn(),
+  },
+  TeamMember: {
+    find: vi.fn(),
+  },
+  TeamSpace: {
+    find: vi.fn(),
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./EventLogService.js', () => ({
+  eventLogService: {
+    canLog: () => true,
+    append: vi.fn(),
+    getAckedSeq: vi.fn(),
+    getEventsAfter: vi.fn(),
+  },
+}));
+
+const PRIYA_ID = '64b7f0c2a1b2c3d4e5f60718';
+const ARJUN_ID = '64b7f0c2a1b2c3d4e5f60719';
+const SPACE_ID = '64b7f0c2a1b2c3d4e5f60720';
+
+interface ReceivedMessage {
+  type: string;
+  payload: Record<string, unknown>;
+  seq?: number;
+}
+
+/**
+ * One server instance: its own HTTP server and service, sharing the broker with the others
+ */
+interface Instance {
+  service: MessageBroadcastService;
+  httpServer: Server;
+  url: string;
+}
+
+describe('MessageBroadcastService across instances', () => {
+  let broker: InMemoryMessageBroker;
+  let first: Instance;
+  let second: Instance;
+  let sockets: WebSocket[];
+
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+  const startInstance = async (): Promise<Instance> => {
+    const service = new MessageBroadcastService();
+    const httpServer = createServer();
+    service.initialize(httpServer, broker);
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    return { service, httpServer, url: `ws://127.0.0.1:${(httpServer.address() as AddressInfo).port}/ws` };
+  };
+
+  const stopInstance = async ({ service, httpServer }: Instance) => {
+    service.shutdown();
+    await new Promise((resolve) => httpServer.close(resolve));
+  };
+
+  const connect = async (instance: Instance, userId: string) => {
+    const token = jwt.sign({ userId, email: `${userId}@test.com` }, 'test-secret', { expiresIn: '7d' });
+    const ws = new WebSocket(instance.url, [WS_AUTH_PROTOCOL, token]);
+    const messages: ReceivedMessage[] = [];
+    sockets.push(ws);
+
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => ws.once('open', resolve));
+    await settle();
+
+    return { ws, messages };
+  };
+
+  const ofType = (messages: ReceivedMessage[], type: MessageType) =>
+    messages.filter((message) => message.type === type);
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    vi.clearAllMocks();
+    sockets = [];
+
+    let seq = 0;
+    vi.mocked(eventLogService.append).mockImplementation(async () => ++seq);
+    vi.mocked(eventLogService.getAckedSeq).mockResolvedValue(0);
+    vi.mocked(eventLogService.getEventsAfter).mockResolvedValue({ events: [], latestSeq: 0, complete: true });
+
+    vi.mocked(User.findById).mockImplementation((id) => ({
+      select: vi.fn().mockResolvedValue({ _id: id, email: `${id}@test.com`, name: 'Test', emailVerified: true }),
+    }) as never);
+    // Priya and Arjun share one Builder Space
+    const members = [
+      { userId: PRIYA_ID, postType: 'startup', postId: 'post-1' },
+      { userId: ARJUN_ID, postType: 'startup', postId: 'post-1' },
+    ];
+    vi.mocked(TeamMember.find).mockImplementation(((query: { userId?: string }) =>
+      Promise.resolve(query.userId ? members.filter((member) => member.userId === query.userId) : members)
+    ) as never);
+    vi.mocked(TeamSpace.find).mockResolvedValue([{ _id: SPACE_ID }] as never);
+    vi.mocked(TeamSpace.findById).mockResolvedValue({ _id: SPACE_ID, postType: 'startup', postId: 'post-1' } as never);
+
+    broker = new InMemoryMessageBroker();
+    first = await startInstance();
+    second = await startInstance();
+    await settle();
+  });
+
+  afterEach(async () => {
+    for (const ws of sockets) {
+      ws.terminate();
+    }
+    await stopInstance(first);
+    await stopInstance(second);
+  });
+
+  it('should deliver group messages to sockets on another instance', async () => {
+    const priya = await connect(second, PRIYA_ID);
+
+    await first.service.broadcastGroupMessage(SPACE_ID, {
+      type: MessageType.GROUP_MESSAGE,
+      payload: { spaceId: SPACE_ID, content: 'hello' },
+      timestamp: new Date(),
+      senderId: ARJUN_ID,
+    }, ARJUN_ID);
+    await settle();
+
+    expect(ofType(priya.messages, MessageType.GROUP_MESSAGE)).toEqual([
+      expect.objectContaining({ seq: 1, payload: { spaceId: SPACE_ID, content: 'hello' } }),
+    ]);
+    expect(eventLogService.append).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share presence between instances', async () => {
+    const arjun = await connect(first, ARJUN_ID);
+    await connect(second, PRIYA_ID);
+
+    expect(first.service.isUserOnline(PRIYA_ID)).toBe(true);
+    expect(first.service.getOnlineUsers().sort()).toEqual([PRIYA_ID, ARJUN_ID].sort());
+    expect(ofType(arjun.messages, MessageType.USER_ONLINE)).toEqual([
+      expect.objectContaining({ payload: { userId: PRIYA_ID } }),
+    ]);
+
+    // A second device on the other instance is not a new sign-in
+    const phone = await connect(first, PRIYA_ID);
+    expect(ofType(arjun.messages, MessageType.USER_ONLINE)).toHaveLength(1);
+
+    phone.ws.close();
+    await settle();
+    expect(first.service.isUserOnline(PRIYA_ID)).toBe(true);
+    expect(ofType(arjun.messages, MessageType.USER_OFFLINE)).toHaveLength(0);
+  });
+
+  it('should forget the users of an instance that shuts down', async () => {
+    await connect(second, PRIYA_ID);
+    expect(first.service.isUserOnline(PRIYA_ID)).toBe(true);
+
+    await stopInstance(second);
+    second = await startInstance();
+    await settle();
+
+    expect(first.service.isUserOnline(PRIYA_ID)).toBe(false);
+  });
+
+  it('should share who has a chat open between instances', async () => {
+    const priya = await connect(first, PRIYA_ID);
+    const arjun = await connect(second, ARJUN_ID);
+    const open = (ws: WebSocket) =>
+      ws.send(JSON.stringify({ type: MessageType.OPEN_CHAT, payload: { chat: 'group', chatId: SPACE_ID } }));
+
+    open(priya.ws);
+    await settle();
+    open(arjun.ws);
+    await settle();
+
+    const viewers = (messages: ReceivedMessage[]) =>
+      (ofType(messages, MessageType.CHAT_PRESENCE).at(-1)?.payload.userIds as string[]).sort();
+    expect(viewers(arjun.messages)).toEqual([PRIYA_ID, ARJUN_ID].sort());
+    expect(viewers(priya.messages)).toEqual([PRIYA_ID, ARJUN_ID].sort());
+
+    arjun.ws.close();
+    await settle();
+    expect(viewers(priya.messages)).toEqual([PRIYA_ID]);
+  });
+
+  it('should put events that overtook each other back in order', async () => {
+    const priya = await connect(second, PRIYA_ID);
+    const publish = (seq: number) =>
+      broker.publish('realtime:users', JSON.stringify({
+        userIds: [PRIYA_ID],
+        message: { type: MessageType.TASK_UPDATED, payload: { seq }, timestamp: new Date(), seq },
+      }));
+
+    await publish(2);
+    await publish(1);
+    await new Promise((resolve) => setTimeout(resolve, 400));
+
+    expect(ofType(priya.messages, MessageType.TASK_UPDATED).map((message) => message.seq)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { WebSocket } from 'ws';
+import { MessageBroadcastService, MessageType, WS_AUTH_PROTOCOL } from './MessageBroadcastService.js';
+import { User, TeamMember, TeamSpace } from '../db/index.js';
+import { eventLogService } from './EventLogService.js';
+
+vi.mock('../db/index.js', () => ({
+  User: {
+    findById: vi.fn(),
+    find: vi.fn(),
+    updateOne: vi.fn(),
+  },
+  TeamMember: {
+    find: vi.fn(),
+  },
+  TeamSpace: {
+    find: vi.fn(),
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./EventLogService.js', () => ({
+  eventLogService: {
+    canLog: () => true,
+    append: vi.fn(),
+    getAckedSeq: vi.fn(),
+    getEventsAfter: vi.fn(),
+    acknowledge: vi.fn(),
+  },
+}));
+
+const PRIYA_ID = '64b7f0c2a1b2c3d4e5f60718';
+const ARJUN_ID = '64b7f0c2a1b2c3d4e5f60719';
+const SPACE_ID = '64b7f0c2a1b2c3d4e5f60720';
+
+interface ReceivedMessage {
+  type: string;
+  payload: Record<string, unknown>;
+  seq?: number;
+}
+
+/**
+ * Test client that records every message it receives
+ */
+interface TestClient {
+  ws: WebSocket;
+  messages: ReceivedMessage[];
+}
+
+describe('MessageBroadcastService with multiple connections per user', () => {
+  let service: MessageBroadcastService;
+  let httpServer: Server;
+  let url: string;
+  let clients: TestClient[];
+
+  const connect = (userId: string) =>
+    new Promise<TestClient>((resolve, reject) => {
+      const token = jwt.sign({ userId, email: `${userId}@test.com` }, 'test-secret', { expiresIn: '7d' });
+      const ws = new WebSocket(url, [WS_AUTH_PROTOCOL, token]);
+      const client: TestClient = { ws, messages: [] };
+      clients.push(client);
+
+      ws.on('message', (data) => client.messages.push(JSON.parse(data.toString())));
+      ws.on('error', reject);
+      // Wait for the server's CONNECT so the connection is registered
+      const waitForConnect = () => {
+        if (client.messages.some((message) => message.type === MessageType.CONNECT)) {
+          resolve(client);
+        } else {
+          setTimeout(waitForConnect, 5);
+        }
+      };
+      ws.on('open', waitForConnect);
+    });
+
+  const close = (client: TestClient) =>
+    new Promise<void>((resolve) => {
+      client.ws.once('close', () => resolve());
+      client.ws.close();
+    });
+
+  // Let in-flight frames and async status broadcasts settle
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+  const messagesOfType = (client: TestClient, type: MessageType) =>
+    client.messages.filter((message) => message.type === type);
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    vi.clearAllMocks();
+    // Nothing missed while offline
+    let seq = 0;
+    vi.mocked(eventLogService.append).mockImplementation(async () => ++seq);
+    vi.mocked(eventLogService.getAckedSeq).mockResolvedValue(0);
+    vi.mocked(eventLogService.getEventsAfter).mockResolvedValue({ events: [], latestSeq: 0, complete: true });
+    clients = [];
+
+    vi.mocked(User.findById).mockImplementation((id) => ({
+      select: vi.fn().mockResolvedValue({ _id: id, email: `${id}@test.com`, name: 'Test', emailVerified: true }),
+    }) as never);
+    // Priya and Arjun share one Builder Space
+    const members = [
+      { userId: PRIYA_ID, postType: 'startup', postId: 'post-1' },
+      { userId: ARJUN_ID, postType: 'startup', postId: 'post-1' },
+    ];
+    vi.mocked(TeamMember.find).mockImplementation(((query: { userId?: string }) =>
+      Promise.resolve(query.userId ? members.filter((member) => member.userId === query.userId) : members)
+    ) as never);
+    vi.mocked(TeamSpace.find).mockResolvedValue([{ _id: SPACE_ID }] as never);
+    vi.mocked(TeamSpace.findById).mockResolvedValue({ _id: SPACE_ID, postType: 'startup', postId: 'post-1' } as never);
+
+    httpServer = createServer();
+    service = new MessageBroadcastService();
+    service.initialize(httpServer);
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    url = `ws://127.0.0.1:${(httpServer.address() as AddressInfo).port}/ws`;
+  });
+
+  afterEach(async () => {
+    for (const client of clients) {
+      client.ws.terminate();
+    }
+    service.shutdown();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('should keep the first socket when the same user opens a second one', async () => {
+    const laptop = await connect(PRIYA_ID);
+    const phone = await connect(PRIYA_ID);
+
+    expect(service.getConnectionCount(PRIYA_ID)).toBe(2);
+    expect(service.getOnlineUserCount()).toBe(1);
+    expect(laptop.ws.readyState).toBe(WebSocket.OPEN);
+    expect(phone.ws.readyState).toBe(WebSocket.OPEN);
+  });
+
+  it('should fan out sendToUser to every socket of the user', async () => {
+    const laptop = await connect(PRIYA_ID);
+    const phone = await connect(PRIYA_ID);
+
+    const sent = service.sendToUser(PRIYA_ID, {
+      type: MessageType.GROUP_MESSAGE,
+      payload: { content: 'hello' },
+      timestamp: new Date(),
+    });
+    await settle();
+
+    expect(sent).toBe(true);
+    expect(messagesOfType(laptop, MessageType.GROUP_MESSAGE)).toHaveLength(1);
+    expect(messagesOfType(phone, MessageType.GROUP_MESSAGE)).toHaveLength(1);
+    // Both sockets see the same position in Priya's event log
+    expect(eventLogService.append).toHaveBeenCalledTimes(1);
+    expect(messagesOfType(laptop, MessageType.GROUP_MESSAGE)[0].seq).toBe(1);
+    expect(messagesOfType(phone, MessageType.GROUP_MESSAGE)[0].seq).toBe(1);
+  });
+
+  it('should only go offline when the last socket closes', async () => {
+    const arjun = await connect(ARJUN_ID);
+    const laptop = await connect(PRIYA_ID);
+    const phone = await connect(PRIYA_ID);
+    await settle();
+
+    // Only the first socket announces Priya as online
+    expect(messagesOfType(arjun, MessageType.USER_ONLINE)).toHaveLength(1);
+
+    await close(laptop);
+    await settle();
+
+    expect(service.isUserOnline(PRIYA_ID)).toBe(true);
+    expect(messagesOfType(arjun, MessageType.USER_OFFLINE)).toHaveLength(0);
+
+    await close(phone);
+    await settle();
+
+    expect(service.isUserOnline(PRIYA_ID)).toBe(false);
+    expect(messagesOfType(arjun, MessageType.USER_OFFLINE)).toHaveLength(1);
+  });
+
+  it('should answer heartbeats on the socket that sent them', async () => {
+    const laptop = await connect(PRIYA_ID);
+    const phone = await connect(PRIYA_ID);
+
+    laptop.ws.send(JSON.stringify({ type: MessageType.HEARTBEAT }));
+    await settle();
+
+    expect(messagesOfType(laptop, MessageType.HEARTBEAT)).toHaveLength(1);
+    expect(messagesOfType(phone, MessageType.HEARTBEAT)).toHaveLength(0);
+  });
+
+  it('should ignore frames that do not match the protocol', async () => {
+    const laptop = await connect(PRIYA_ID);
+
+    laptop.ws.send('not json');
+    laptop.ws.send(JSON.stringify({ type: MessageType.ACK, payload: { seq: 'all' } }));
+    laptop.ws.send(JSON.stringify({ type: MessageType.GROUP_MESSAGE, payload: { content: 'hi' } }));
+    laptop.ws.send(JSON.stringify({ type: MessageType.ACK, payload: { seq: 2 } }));
+    await settle();
+
+    expect(laptop.ws.readyState).toBe(WebSocket.OPEN);
+    expect(eventLogService.acknowledge).toHaveBeenCalledTimes(1);
+    expect(eventLogService.acknowledge).toHaveBeenCalledWith(PRIYA_ID, 2);
+  });
+
+  it('should answer commands with an ack or a nack on the socket that sent them', async () => {
+    const sent = { id: 'msg-1', spaceId: SPACE_ID, content: 'hello' };
+    const handler = vi.fn()
+      .mockResolvedValueOnce(sent)
+      .mockRejectedValueOnce(new Error('Access denied: You are not authorized to send messages in this Builder Space'));
+    service.setCommandHandler(handler);
+    const laptop = await connect(PRIYA_ID);
+    const phone = await connect(PRIYA_ID);
+
+    const command = { type: MessageType.SEND_GROUP_MESSAGE, payload: { spaceId: SPACE_ID, content: 'hello' } };
+    laptop.ws.send(JSON.stringify({ ...command, clientId: 'c-1' }));
+    laptop.ws.send(JSON.stringify({ ...command, clientId: 'c-2' }));
+    await settle();
+
+    expect(handler).toHaveBeenCalledWith(PRIYA_ID, { ...command, clientId: 'c-1' });
+    expect(messagesOfType(laptop, MessageType.COMMAND_ACK)).toEqual([
+      expect.objectContaining({ payload: { clientId: 'c-1', result: sent } }),
+    ]);
+    expect(messagesOfType(laptop, MessageType.COMMAND_NACK)).toEqual([
+      expect.objectContaining({ payload: { clientId: 'c-2', error: expect.stringContaining('Access denied') } }),
+    ]);
+    expect(messagesOfType(phone, MessageType.COMMAND_ACK)).toHaveLength(0);
+    expect(eventLogService.append).not.toHaveBeenCalledWith(PRIYA_ID, expect.objectContaining({ type: MessageType.COMMAND_ACK }));
+  });
+
+  it('should close only the stale socket', async () => {
+    const laptop = await connect(PRIYA_ID);
+    await connect(PRIYA_ID);
+
+    // The laptop went to sleep two minutes ago; the phone is still sending heartbeats
+    const [laptopConnection] = service['connections'].get(PRIYA_ID)!;
+    laptopConnection.lastHeartbeat = new Date(Date.now() - 120000);
+    service['closeStaleConnections']();
+    await settle();
+
+    expect(service.getConnectionCount(PRIYA_ID)).toBe(1);
+    expect(service.isUserOnline(PRIYA_ID)).toBe(true);
+    expect(laptop.ws.readyState).toBe(WebSocket.CLOSED);
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { WebSocket } from 'ws';
+import { MessageBroadcastService, MessageType, WS_AUTH_PROTOCOL } from './MessageBroadcastService.js';
+import { User, TeamMember, TeamSpace } from '../db/index.js';
+import { eventLogService } from './EventLogService.js';
+import { screeningChatService } from './ScreeningChatService.js';
+
+vi.mock('../db/index.js', () => ({
+  User: {
+    findById: vi.fn(),
+    find: vi.fn(),
+    updateOne: vi.fn(),
+  },
+  TeamMember: {
+    find: vi.fn(),
+  },
+  TeamSpace: {
+    find: vi.fn(),
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./EventLogService.js', () => ({
+  eventLogService: {
+    canLog: () => true,
+    append: vi.fn(),
+    getAckedSeq: vi.fn(),
+    getEventsAfter: vi.fn(),
+  },
+}));
+
+vi.mock('./ScreeningChatService.js', () => ({
+  screeningChatService: {
+    validateScreeningChatAccess: vi.fn(),
+  },
+}));
+
+const PRIYA_ID = '64b7f0c2a1b2c3d4e5f60718';
+const ARJUN_ID = '64b7f0c2a1b2c3d4e5f60719';
+const RAHUL_ID = '64b7f0c2a1b2c3d4e5f60721';
+const SPACE_ID = '64b7f0c2a1b2c3d4e5f60720';
+const APPLICATION_ID = '64b7f0c2a1b2c3d4e5f60722';
+
+interface ReceivedMessage {
+  type: string;
+  payload: Record<string, unknown>;
+}
+
+interface TestClient {
+  ws: WebSocket;
+  messages: ReceivedMessage[];
+}
+
+describe('MessageBroadcastService chat presence and typing', () => {
+  let service: MessageBroadcastService;
+  let httpServer: Server;
+  let url: string;
+  let clients: TestClient[];
+
+  const connect = (userId: string) =>
+    new Promise<TestClient>((resolve, reject) => {
+      const token = jwt.sign({ userId, email: `${userId}@test.com` }, 'test-secret', { expiresIn: '7d' });
+      const ws = new WebSocket(url, [WS_AUTH_PROTOCOL, token]);
+      const client: TestClient = { ws, messages: [] };
+      clients.push(client);
+
+      ws.on('message', (data) => client.messages.push(JSON.parse(data.toString())));
+      ws.on('error', reject);
+      const waitForConnect = () => {
+        if (client.messages.some((message) => message.type === MessageType.CONNECT)) {
+          resolve(client);
+        } else {
+          setTimeout(waitForConnect, 5);
+        }
+      };
+      ws.on('open', waitForConnect);
+    });
+
+  const send = (client: TestClient, type: MessageType, chat: 'group' | 'screening', chatId: string) =>
+    client.ws.send(JSON.stringify({ type, payload: { chat, chatId } }));
+
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+  const lastPresence = (client: TestClient) =>
+    client.messages.filter((message) => message.type === MessageType.CHAT_PRESENCE).at(-1)?.payload.userIds;
+
+  const typingEvents = (client: TestClient) =>
+    client.messages
+      .filter((message) => message.type === MessageType.TYPING)
+      .map((message) => message.payload.typing);
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    vi.clearAllMocks();
+    vi.mocked(eventLogService.append).mockResolvedValue(1);
+    vi.mocked(eventLogService.getAckedSeq).mockResolvedValue(0);
+    vi.mocked(eventLogService.getEventsAfter).mockResolvedValue({ events: [], latestSeq: 0, complete: true });
+    vi.mocked(User.updateOne).mockResolvedValue({} as never);
+    clients = [];
+
+    vi.mocked(User.findById).mockImplementation((id) => ({
+      select: vi.fn().mockResolvedValue({ _id: id, email: `${id}@test.com`, name: 'Test', emailVerified: true }),
+    }) as never);
+    // Priya and Arjun are on the team; Rahul is not
+    const members = [
+      { userId: PRIYA_ID, postType: 'startup', postId: 'post-1' },
+      { userId: ARJUN_ID, postType: 'startup', postId: 'post-1' },
+    ];
+    vi.mocked(TeamMember.find).mockImplementation(((query: { userId?: string }) =>
+      Promise.resolve(query.userId ? members.filter((member) => member.userId === query.userId) : members)
+    ) as never);
+    vi.mocked(TeamSpace.find).mockResolvedValue([{ _id: SPACE_ID }] as never);
+    vi.mocked(TeamSpace.findById).mockResolvedValue({ _id: SPACE_ID, postType: 'startup', postId: 'post-1' } as never);
+    // Rahul applied to Priya's startup
+    vi.mocked(screeningChatService.validateScreeningChatAccess).mockImplementation(async (_applicationId, userId) =>
+      userId === PRIYA_ID || userId === RAHUL_ID
+        ? { authorized: true, participants: { founderId: PRIYA_ID, applicantId: RAHUL_ID } }
+        : { authorized: false }
+    );
+
+    httpServer = createServer();
+    service = new MessageBroadcastService();
+    service.initialize(httpServer);
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    url = `ws://127.0.0.1:${(httpServer.address() as AddressInfo).port}/ws`;
+  });
+
+  afterEach(async () => {
+    for (const client of clients) {
+      client.ws.terminate();
+    }
+    service.shutdown();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('should tell everyone viewing a space who has it open', async () => {
+    const priya = await connect(PRIYA_ID);
+    const arjun = await connect(ARJUN_ID);
+
+    send(priya, MessageType.OPEN_CHAT, 'group', SPACE_ID);
+    await settle();
+    expect(lastPresence(priya)).toEqual([PRIYA_ID]);
+
+    send(arjun, MessageType.OPEN_CHAT, 'group', SPACE_ID);
+    await settle();
+    expect((lastPresence(priya) as string[]).sort()).toEqual([PRIYA_ID, ARJUN_ID].sort());
+    expect((lastPresence(arjun) as string[]).sort()).toEqual([PRIYA_ID, ARJUN_ID].sort());
+
+    arjun.ws.close();
+    await settle();
+    expect(lastPresence(priya)).toEqual([PRIYA_ID]);
+  });
+
+  it('should keep a user in the space until their last tab closes it', async () => {
+    const arjun = await connect(ARJUN_ID);
+    const laptop = await connect(PRIYA_ID);
+    const phone = await connect(PRIYA_ID);
+    send(arjun, MessageType.OPEN_CHAT, 'group', SPACE_ID);
+    send(laptop, MessageType.OPEN_CHAT, 'group', SPACE_ID);
+    await settle();
+    send(phone, MessageType.OPEN_CHAT, 'group', SPACE_ID);
+    await settle();
+
+    expect((lastPresence(phone) as string[]).sort()).toEqual([PRIYA_ID, ARJUN_ID].sort());
+
+    send(laptop, MessageType.CLOSE_CHAT, 'group', SPACE_ID);
+    await settle();
+    expect((lastPresence(arjun) as string[]).sort()).toEqual([PRIYA_ID, ARJUN_ID].sort());
+
+    send(phone, MessageType.CLOSE_CHAT, 'group', SPACE_ID);
+    await settle();
+    expect(lastPresence(arjun)).toEqual([ARJUN_ID]);
+  });
+
+  it('should not let outsiders open a chat or see who is in it', async () => {
+    const priya = await connect(PRIYA_ID);
+    const rahul = await connect(RAHUL_ID);
+    send(priya, MessageType.OPEN_CHAT, 'group', SPACE_ID);
+    send(rahul, MessageType.OPEN_CHAT, 'group', SPACE_ID);
+    await settle();
+
+    expect(lastPresence(priya)).toEqual([PRIYA_ID]);
+    expect(lastPresence(rahul)).toBeUndefined();
+  });
+
+  it('should relay typing to the other participants and stop it when the typist goes quiet', async () => {
+    Object.assign(service, { TYPING_TIMEOUT: 150 });
+    const priya = await connect(PRIYA_ID);
+    const rahul = await connect(RAHUL_ID);
+    const arjun = await connect(ARJUN_ID);
+
+    send(rahul, MessageType.TYPING_START, 'screening', APPLICATION_ID);
+    await settle();
+    send(rahul, MessageType.TYPING_START, 'screening', APPLICATION_ID);
+    await settle();
+
+    expect(typingEvents(priya)).toEqual([true]);
+    expect(typingEvents(rahul)).toEqual([]);
+    expect(typingEvents(arjun)).toEqual([]);
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    expect(typingEvents(priya)).toEqual([true, false]);
+  });
+
+  it('should stop typing when asked and record when users were last seen', async () => {
+    const priya = await connect(PRIYA_ID);
+    const arjun = await connect(ARJUN_ID);
+
+    send(arjun, MessageType.TYPING_START, 'group', SPACE_ID);
+    await settle();
+    send(arjun, MessageType.TYPING_STOP, 'group', SPACE_ID);
+    await settle();
+    expect(typingEvents(priya)).toEqual([true, false]);
+
+    arjun.ws.close();
+    await settle();
+    expect(User.updateOne).toHaveBeenCalledWith({ _id: ARJUN_ID }, { $set: { lastSeenAt: expect.any(Date) } });
+    expect(vi.mocked(User.updateOne).mock.calls.filter(([filter]) => (filter as { _id: string })._id === ARJUN_ID)).toHaveLength(2);
+  });
+});
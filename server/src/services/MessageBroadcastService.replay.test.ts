@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { WebSocket } from 'ws';
+import { MessageBroadcastService, MessageType, WS_AUTH_PROTOCOL } from './MessageBroadcastService.js';
+import { eventLogService, LoggedEvent, EventRange } from './EventLogService.js';
+import { User, TeamMember } from '../db/index.js';
+
+vi.mock('../db/index.js', () => ({
+  User: {
+    findById: vi.fn(),
+    find: vi.fn(),
+    updateOne: vi.fn(),
+  },
+  TeamMember: {
+    find: vi.fn(),
+  },
+  TeamSpace: {
+    find: vi.fn(),
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./EventLogService.js', () => ({
+  eventLogService: {
+    canLog: () => true,
+    append: vi.fn(),
+    getAckedSeq: vi.fn(),
+    getEventsAfter: vi.fn(),
+    acknowledge: vi.fn(),
+  },
+}));
+
+const PRIYA_ID = '64b7f0c2a1b2c3d4e5f60718';
+const ARJUN_ID = '64b7f0c2a1b2c3d4e5f60719';
+
+interface ReceivedMessage {
+  type: string;
+  payload: Record<string, unknown>;
+  seq?: number;
+}
+
+/**
+ * In-memory event log for Priya; events before oldestRetained count as pruned
+ */
+const createFakeLog = () => {
+  const log = { events: [] as LoggedEvent[], ackedSeq: 0, oldestRetained: 1 };
+
+  vi.mocked(eventLogService.append).mockImplementation(async (_userId, event) => {
+    const seq = log.events.length + 1;
+    log.events.push({ ...event, seq });
+    return seq;
+  });
+  vi.mocked(eventLogService.getAckedSeq).mockImplementation(async () => log.ackedSeq);
+  vi.mocked(eventLogService.getEventsAfter).mockImplementation(async (_userId, afterSeq): Promise<EventRange> => {
+    const latestSeq = log.events.length;
+    if (afterSeq === latestSeq) return { events: [], latestSeq, complete: true };
+    if (afterSeq > latestSeq) return { events: [], latestSeq, complete: false };
+    const events = log.events.filter((event) => event.seq > afterSeq && event.seq >= log.oldestRetained);
+    return { events, latestSeq, complete: events[0]?.seq === afterSeq + 1 };
+  });
+
+  return log;
+};
+
+describe('MessageBroadcastService event stream', () => {
+  let service: MessageBroadcastService;
+  let log: ReturnType<typeof createFakeLog>;
+
+  // Logging runs in the background after sendToUser returns
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+  const groupMessage = (index: number) => ({
+    type: MessageType.GROUP_MESSAGE,
+    payload: { index },
+    timestamp: new Date(),
+    senderId: ARJUN_ID,
+  });
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-secret';
+    vi.clearAllMocks();
+    log = createFakeLog();
+    vi.mocked(TeamMember.find).mockResolvedValue([] as never);
+    service = new MessageBroadcastService();
+  });
+
+  it('should log messages for offline users', async () => {
+    const sent = service.sendToUser(PRIYA_ID, groupMessage(1));
+    await settle();
+
+    expect(sent).toBe(false);
+    expect(log.events).toHaveLength(1);
+    expect(log.events[0]).toMatchObject({ seq: 1, type: MessageType.GROUP_MESSAGE, senderId: ARJUN_ID });
+  });
+
+  it('should not log presence or stats updates', async () => {
+    service.sendToUser(PRIYA_ID, { type: MessageType.USER_ONLINE, payload: { userId: ARJUN_ID }, timestamp: new Date() });
+    service.sendToUser(PRIYA_ID, { type: MessageType.STATS_UPDATE, payload: {}, timestamp: new Date() });
+    await settle();
+
+    expect(eventLogService.append).not.toHaveBeenCalled();
+  });
+
+  describe('on reconnect', () => {
+    let httpServer: Server;
+    let url: string;
+    let sockets: WebSocket[];
+
+    beforeEach(async () => {
+      sockets = [];
+      vi.mocked(User.findById).mockImplementation((id) => ({
+        select: vi.fn().mockResolvedValue({ _id: id, email: 'priya@test.com', name: 'Priya', emailVerified: true }),
+      }) as never);
+
+      httpServer = createServer();
+      service.initialize(httpServer);
+      await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+      url = `ws://127.0.0.1:${(httpServer.address() as AddressInfo).port}/ws`;
+    });
+
+    afterEach(async () => {
+      for (const ws of sockets) {
+        ws.terminate();
+      }
+      service.shutdown();
+      await new Promise((resolve) => httpServer.close(resolve));
+    });
+
+    const connect = async (lastSeq?: number) => {
+      const token = jwt.sign({ userId: PRIYA_ID, email: 'priya@test.com' }, 'test-secret', { expiresIn: '7d' });
+      const query = lastSeq === undefined ? '' : `?lastSeq=${lastSeq}`;
+      const ws = new WebSocket(`${url}${query}`, [WS_AUTH_PROTOCOL, token]);
+      const received: ReceivedMessage[] = [];
+      sockets.push(ws);
+
+      ws.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        if (message.type !== MessageType.CONNECT) {
+          received.push(message);
+        }
+      });
+      await new Promise((resolve) => ws.once('open', resolve));
+      await settle();
+
+      return { ws, received };
+    };
+
+    it('should replay exactly the gap after the last seen sequence', async () => {
+      for (let i = 1; i <= 5; i++) {
+        service.sendToUser(PRIYA_ID, groupMessage(i));
+      }
+      await settle();
+
+      const { received } = await connect(3);
+
+      expect(received.map((message) => message.seq)).toEqual([4, 5]);
+      expect(received[0].payload).toEqual({ index: 4 });
+    });
+
+    it('should replay from the last acknowledgement for a fresh client and accept acks', async () => {
+      for (let i = 1; i <= 3; i++) {
+        service.sendToUser(PRIYA_ID, groupMessage(i));
+      }
+      await settle();
+      log.ackedSeq = 1;
+
+      const { ws, received } = await connect();
+      expect(received.map((message) => message.seq)).toEqual([2, 3]);
+
+      ws.send(JSON.stringify({ type: MessageType.ACK, payload: { seq: 3 } }));
+      await settle();
+
+      expect(eventLogService.acknowledge).toHaveBeenCalledWith(PRIYA_ID, 3);
+    });
+
+    it('should ask for a full resync when the gap was pruned', async () => {
+      for (let i = 1; i <= 5; i++) {
+        service.sendToUser(PRIYA_ID, groupMessage(i));
+      }
+      await settle();
+      log.oldestRetained = 4;
+
+      const { received } = await connect(1);
+
+      expect(received).toEqual([
+        expect.objectContaining({ type: MessageType.RESYNC_REQUIRED, payload: { latestSeq: 5 } }),
+      ]);
+    });
+
+    it('should hold live messages until the replay is sent, without duplicates', async () => {
+      service.sendToUser(PRIYA_ID, groupMessage(1));
+      await settle();
+
+      // Slow down the replay query so a live message arrives in the middle of it
+      let releaseReplay: () => void = () => {};
+      const readLog = vi.mocked(eventLogService.getEventsAfter).getMockImplementation()!;
+      vi.mocked(eventLogService.getEventsAfter).mockImplementationOnce(async (userId, afterSeq) => {
+        await new Promise<void>((resolve) => { releaseReplay = resolve; });
+        return readLog(userId, afterSeq);
+      });
+
+      const { received } = await connect(0);
+      service.sendToUser(PRIYA_ID, groupMessage(2));
+      await settle();
+      expect(received).toHaveLength(0);
+
+      releaseReplay();
+      await settle();
+
+      expect(received.map((message) => message.seq)).toEqual([1, 2]);
+    });
+  });
+});
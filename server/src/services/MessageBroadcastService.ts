@@ -1,110 +1,195 @@
 import { WebSocket, WebSocketServer } from 'ws';
-import type { Server } from 'http';
-import { TeamMember, TeamSpace } from '../db/index.js';
-import mongoose from 'mongoose';
+import crypto from 'crypto';
+import type { Server, IncomingMessage } from 'http';
+import jwt from 'jsonwebtoken';
+import { TeamMember, TeamSpace, User, DirectConversation } from '../db/index.js';
+import { verifyAccessToken, isIssuedBeforePasswordChange } from '../middleware/auth.js';
+import { eventLogService, LoggedEvent } from './EventLogService.js';
+import { screeningChatService } from './ScreeningChatService.js';
+import { MessageBroker, InMemoryMessageBroker } from '../utils/messageBroker.js';
+import {
+  MessageType,
+  ChatKind,
+  ServerMessage,
+  ClientCommand,
+  ClientCommandType,
+  CommandResults,
+  clientMessageSchema,
+} from '../shared/realtimeProtocol.js';
+
+export { MessageType };
 
 /**
- * Message types for WebSocket communication
+ * Message sent to clients; see shared/realtimeProtocol.ts for every type and payload
  */
-export enum MessageType {
-  // Connection management
-  CONNECT = 'connect',
-  DISCONNECT = 'disconnect',
-  HEARTBEAT = 'heartbeat',
-  
-  // Group chat messages
-  GROUP_MESSAGE = 'group_message',
-  
-  // Screening chat messages
-  SCREENING_MESSAGE = 'screening_message',
-  
-  // Builder Space updates
-  LINK_ADDED = 'link_added',
-  LINK_REMOVED = 'link_removed',
-  TASK_CREATED = 'task_created',
-  TASK_UPDATED = 'task_updated',
-  TASK_DELETED = 'task_deleted',
-  
-  // Team formation
-  TEAM_MEMBER_JOINED = 'team_member_joined',
-  BUILDER_SPACE_CREATED = 'builder_space_created',
-  
-  // Screening chat creation
-  SCREENING_CHAT_CREATED = 'screening_chat_created',
-  
-  // User status
-  USER_ONLINE = 'user_online',
-  USER_OFFLINE = 'user_offline',
-  
-  // Platform stats
-  STATS_UPDATE = 'stats_update',
-}
+export type BroadcastMessage = ServerMessage;
 
 /**
- * WebSocket message payload structure
+ * Carries out a command a client sent over its socket
+ * Rejects with an error whose message can be shown to the user
  */
-export interface BroadcastMessage {
-  type: MessageType;
-  payload: any;
-  timestamp: Date;
-  senderId?: string;
-}
+export type CommandHandler = (userId: string, command: ClientCommand) => Promise<CommandResults[ClientCommandType]>;
+
+/**
+ * Message types that only matter while they are fresh and are never queued for offline users
+ */
+const EPHEMERAL_MESSAGE_TYPES = new Set<MessageType>([
+  MessageType.CONNECT,
+  MessageType.DISCONNECT,
+  MessageType.HEARTBEAT,
+  MessageType.ACK,
+  MessageType.RESYNC_REQUIRED,
+  MessageType.COMMAND_ACK,
+  MessageType.COMMAND_NACK,
+  MessageType.CHAT_PRESENCE,
+  MessageType.TYPING,
+  MessageType.USER_ONLINE,
+  MessageType.USER_OFFLINE,
+  MessageType.STATS_UPDATE,
+]);
 
 /**
  * Connection information for tracking online users
+ * A user has one of these per open socket (tab or device)
  */
 interface ConnectionInfo {
   userId: string;
   ws: WebSocket;
   lastHeartbeat: Date;
+  tokenIssuedAt: number;
+  expiryTimer: NodeJS.Timeout;
+  // While missed events are replayed, live events are held back so the order is kept
+  replaying: boolean;
+  pendingMessages: BroadcastMessage[];
+  lastSentSeq: number;
+  // Chats open in this tab, as chat keys (see chatKey)
+  openChats: Set<string>;
 }
 
 /**
- * Queued message for offline users
+ * Upgrade request after the access token was verified in the handshake
  */
-interface QueuedMessage {
-  userId: string;
+interface AuthenticatedUpgradeRequest extends IncomingMessage {
+  auth?: {
+    userId: string;
+    issuedAt: number;
+    expiresAt: Date;
+  };
+}
+
+/**
+ * Close codes sent when the server ends an authenticated session
+ * The client refreshes its access token after TOKEN_EXPIRED and stops reconnecting after SESSION_REVOKED
+ */
+export const WS_CLOSE_TOKEN_EXPIRED = 4001;
+export const WS_CLOSE_SESSION_REVOKED = 4003;
+
+// Browsers cannot set headers on WebSocket requests, so the client offers the
+// access token as a second subprotocol next to this one. This keeps the token
+// out of URLs and access logs.
+export const WS_AUTH_PROTOCOL = 'bearer';
+
+// setTimeout delays are capped at 2^31 - 1 ms (about 24.8 days)
+const MAX_TIMER_DELAY_MS = 2147483647;
+
+// Broker channels shared by every server instance
+const USER_CHANNEL = 'realtime:users';
+const PRESENCE_CHANNEL = 'realtime:presence';
+
+/**
+ * Message relayed through the broker to whichever instances hold the recipients' sockets
+ * userIds is null for messages meant for everyone who is connected
+ */
+interface UserEnvelope {
+  userIds: string[] | null;
   message: BroadcastMessage;
-  queuedAt: Date;
 }
 
+/**
+ * A user typing in a chat, until they stop or go quiet for TYPING_TIMEOUT
+ */
+interface TypingState {
+  recipients: string[];
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Key identifying a chat in presence and typing state
+ */
+const chatKey = (chat: ChatKind, chatId: string): string => `${chat}:${chatId}`;
+
+/**
+ * Presence updates exchanged between instances
+ * Snapshots repeat on every heartbeat, so an instance that stops sending them is forgotten
+ */
+type PresenceEnvelope =
+  | { kind: 'online' | 'offline'; instanceId: string; userId: string }
+  | { kind: 'snapshot'; instanceId: string; userIds: string[]; chats: Record<string, string[]> }
+  | { kind: 'chat'; instanceId: string; chatKey: string; userIds: string[] }
+  | { kind: 'sync'; instanceId: string }
+  | { kind: 'leave'; instanceId: string };
+
 /**
  * MessageBroadcastService handles real-time message delivery via WebSocket
  * 
  * Features:
- * - WebSocket connection management
+ * - WebSocket connection management (any number of sockets per user)
  * - Online user tracking
  * - Message broadcasting to team members
- * - Message queuing for offline users
+ * - Per-user sequence numbers, with gap replay when a client reconnects
+ * - Durable event log for offline users (MongoDB, acknowledged delivery)
+ * - Pub/sub broker, so messages and presence work across server instances
+ * - Client commands (sending messages, moving tasks), answered with an ack or nack
+ * - Per-chat presence (who has a chat open), typing indicators and last-seen times
  * - Heartbeat monitoring for connection health
  * 
  * Requirements: 5.1, 5.5, 8.1
  */
 export class MessageBroadcastService {
   private wss: WebSocketServer | null = null;
-  private connections: Map<string, ConnectionInfo> = new Map();
-  private messageQueue: Map<string, QueuedMessage[]> = new Map();
+  private connections: Map<string, Set<ConnectionInfo>> = new Map();
+  // Events for a user are logged one at a time so sequence numbers go out in order
+  private logQueues: Map<string, Promise<void>> = new Map();
+  // Users connected to other instances, as last reported through the broker
+  private remotePresence: Map<string, { userIds: Set<string>; chats: Map<string, Set<string>>; lastSeen: number }> = new Map();
+  // Typing indicators started on this instance, by `${chatKey}|${userId}`
+  private typing: Map<string, TypingState> = new Map();
+  private readonly instanceId = crypto.randomUUID();
+  private commandHandler: CommandHandler | null = null;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private readonly HEARTBEAT_INTERVAL = 30000; // 30 seconds
-  private readonly MESSAGE_QUEUE_MAX_SIZE = 100; // Max queued messages per user
-  private readonly MESSAGE_QUEUE_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly PRESENCE_TIMEOUT = 90000; // Forget instances silent for three heartbeats
+  private readonly GAP_WAIT = 250; // How long an out-of-order event may wait for the one before it
+  private readonly TYPING_TIMEOUT = 6000; // Typing stops when the client hasn't repeated typing_start for this long
 
-  constructor() {
-    // No database connection needed - using Mongoose models directly
+  constructor(private broker: MessageBroker = new InMemoryMessageBroker()) {
+    this.attachBroker();
   }
 
   /**
    * Initialize WebSocket server
    * 
    * @param server - HTTP server instance to attach WebSocket server to
+   * @param broker - Broker shared with other instances; keeps the current one if omitted
    */
-  initialize(server: Server): void {
+  initialize(server: Server, broker?: MessageBroker): void {
+    if (broker) {
+      this.broker = broker;
+      this.attachBroker();
+    }
+
     this.wss = new WebSocketServer({ 
       server,
       path: '/ws',
+      verifyClient: (info, done) => {
+        this.verifyClient(info.req, done);
+      },
+      handleProtocols: (protocols) => {
+        return protocols.has(WS_AUTH_PROTOCOL) ? WS_AUTH_PROTOCOL : false;
+      },
     });
 
-    this.wss.on('connection', (ws: WebSocket, req) => {
+    this.wss.on('connection', (ws: WebSocket, req: AuthenticatedUpgradeRequest) => {
       this.handleConnection(ws, req);
     });
 
@@ -114,52 +199,155 @@ export class MessageBroadcastService {
     console.log('✅ MessageBroadcastService initialized with WebSocket support');
   }
 
+  /**
+   * Set what carries out commands sent by clients
+   * Until one is set, every command is rejected
+   *
+   * @param handler - Command handler, normally RealtimeCommandService.execute
+   */
+  setCommandHandler(handler: CommandHandler): void {
+    this.commandHandler = handler;
+  }
+
+  /**
+   * Extract the access token offered in the Sec-WebSocket-Protocol header
+   *
+   * @param req - HTTP upgrade request
+   * @returns The token, or null if none was offered
+   */
+  private extractToken(req: IncomingMessage): string | null {
+    const header = req.headers['sec-websocket-protocol'];
+
+    if (!header) {
+      return null;
+    }
+
+    const protocols = header.split(',').map(protocol => protocol.trim());
+    const authIndex = protocols.indexOf(WS_AUTH_PROTOCOL);
+
+    return authIndex !== -1 && protocols[authIndex + 1] ? protocols[authIndex + 1] : null;
+  }
+
+  /**
+   * Read the last sequence number the client saw from the ?lastSeq= query parameter
+   *
+   * @param req - HTTP upgrade request
+   * @returns The sequence number, or null if the client did not send a valid one
+   */
+  private extractLastSeq(req: IncomingMessage): number | null {
+    const value = new URL(req.url ?? '', 'http://localhost').searchParams.get('lastSeq');
+
+    if (value === null || !/^\d+$/.test(value)) {
+      return null;
+    }
+
+    return Number(value);
+  }
+
+  /**
+   * Authenticate the upgrade request before the WebSocket is accepted
+   * Uses the same access token checks as the HTTP auth middleware
+   *
+   * @param req - HTTP upgrade request
+   * @param done - Callback that accepts or rejects the handshake
+   */
+  private async verifyClient(
+    req: AuthenticatedUpgradeRequest,
+    done: (result: boolean, code?: number, message?: string) => void
+  ): Promise<void> {
+    const token = this.extractToken(req);
+
+    if (!token) {
+      done(false, 401, 'Access token required');
+      return;
+    }
+
+    try {
+      const { user, issuedAt, expiresAt } = await verifyAccessToken(token);
+      req.auth = { userId: user.id, issuedAt, expiresAt };
+      done(true);
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        done(false, 401, 'Access token expired');
+        return;
+      }
+      done(false, 401, 'Invalid or expired token');
+    }
+  }
+
   /**
    * Handle new WebSocket connection
    * 
    * @param ws - WebSocket connection
-   * @param req - HTTP request
+   * @param req - HTTP upgrade request, authenticated by verifyClient
    */
-  private handleConnection(ws: WebSocket, req: any): void {
-    // Extract userId from query parameters or headers
-    const url = new URL(req.url || '', `http://${req.headers.host}`);
-    const userId = url.searchParams.get('userId');
-
-    if (!userId) {
-      ws.close(1008, 'User ID required');
+  private handleConnection(ws: WebSocket, req: AuthenticatedUpgradeRequest): void {
+    if (!req.auth) {
+      ws.close(WS_CLOSE_SESSION_REVOKED, 'Authentication required');
       return;
     }
 
-    // Store connection
-    this.connections.set(userId, {
+    const { userId, issuedAt, expiresAt } = req.auth;
+
+    // Close the socket when the access token expires; the client reconnects with a fresh one
+    const expiryTimer = setTimeout(() => {
+      ws.close(WS_CLOSE_TOKEN_EXPIRED, 'Access token expired');
+    }, Math.min(Math.max(expiresAt.getTime() - Date.now(), 0), MAX_TIMER_DELAY_MS));
+
+    const connection: ConnectionInfo = {
       userId,
       ws,
       lastHeartbeat: new Date(),
-    });
+      tokenIssuedAt: issuedAt,
+      expiryTimer,
+      replaying: true,
+      pendingMessages: [],
+      lastSentSeq: 0,
+      openChats: new Set(),
+    };
+
+    // Store connection alongside the user's other tabs and devices
+    let userConnections = this.connections.get(userId);
+    const isFirstConnection = !userConnections;
+    if (!userConnections) {
+      userConnections = new Set();
+      this.connections.set(userId, userConnections);
+    }
+    userConnections.add(connection);
 
-    console.log(`🔌 User ${userId} connected via WebSocket`);
+    console.log(`🔌 User ${userId} connected via WebSocket (${userConnections.size} open)`);
 
-    // Send connection confirmation
-    this.sendToUser(userId, {
+    // Send connection confirmation to this socket only
+    this.sendToConnection(connection, {
       type: MessageType.CONNECT,
       payload: { userId, message: 'Connected successfully' },
       timestamp: new Date(),
     });
 
-    // Deliver queued messages
-    this.deliverQueuedMessages(userId);
+    // Replay whatever the client missed, then switch to live delivery
+    this.resumeStream(connection, this.extractLastSeq(req)).catch((error) => {
+      console.error(`Error replaying events to user ${userId}:`, error);
+    });
+
+    // Notify others that user is online (only for their first socket)
+    if (isFirstConnection) {
+      this.publishPresence({ kind: 'online', instanceId: this.instanceId, userId });
+      this.touchLastSeen(userId);
 
-    // Notify others that user is online
-    this.broadcastUserStatus(userId, true);
+      if (!this.isOnlineElsewhere(userId)) {
+        this.broadcastUserStatus(userId, true);
+      }
+    }
 
     // Handle incoming messages
     ws.on('message', (data: Buffer) => {
-      this.handleMessage(userId, data);
+      this.handleMessage(connection, data);
     });
 
     // Handle disconnection
     ws.on('close', () => {
-      this.handleDisconnection(userId);
+      clearTimeout(expiryTimer);
+      this.handleDisconnection(connection);
     });
 
     // Handle errors
@@ -171,42 +359,528 @@ export class MessageBroadcastService {
   /**
    * Handle incoming WebSocket message
    * 
-   * @param userId - User ID of sender
+   * @param connection - Connection the message arrived on
    * @param data - Message data
    */
-  private handleMessage(userId: string, data: Buffer): void {
+  private handleMessage(connection: ConnectionInfo, data: Buffer): void {
     try {
-      const message = JSON.parse(data.toString());
+      const parsed = clientMessageSchema.safeParse(JSON.parse(data.toString()));
+
+      // Frames that don't match the protocol are dropped
+      if (!parsed.success) {
+        console.warn(`Ignoring invalid WebSocket message from user ${connection.userId}: ${parsed.error.errors[0].message}`);
+        return;
+      }
 
-      // Handle heartbeat
-      if (message.type === MessageType.HEARTBEAT) {
-        const connection = this.connections.get(userId);
-        if (connection) {
+      const message = parsed.data;
+
+      switch (message.type) {
+        case MessageType.HEARTBEAT:
           connection.lastHeartbeat = new Date();
           // Send heartbeat response
-          this.sendToUser(userId, {
+          this.sendToConnection(connection, {
             type: MessageType.HEARTBEAT,
             payload: { timestamp: new Date() },
             timestamp: new Date(),
           });
-        }
+          break;
+
+        // Acknowledgement of everything up to a sequence number
+        case MessageType.ACK:
+          this.acknowledgeMessages(connection.userId, message.payload.seq).catch((error) => {
+            console.error(`Error acknowledging messages for user ${connection.userId}:`, error);
+          });
+          break;
+
+        case MessageType.SEND_GROUP_MESSAGE:
+        case MessageType.SEND_SCREENING_MESSAGE:
+        case MessageType.SEND_DIRECT_MESSAGE:
+        case MessageType.MOVE_TASK:
+          this.handleCommand(connection, message);
+          break;
+
+        case MessageType.OPEN_CHAT:
+          this.openChat(connection, message.payload.chat, message.payload.chatId).catch((error) => {
+            console.error(`Error opening chat for user ${connection.userId}:`, error);
+          });
+          break;
+
+        case MessageType.CLOSE_CHAT:
+          this.closeChat(connection, message.payload.chat, message.payload.chatId);
+          break;
+
+        case MessageType.TYPING_START:
+          this.startTyping(connection.userId, message.payload.chat, message.payload.chatId).catch((error) => {
+            console.error(`Error starting typing indicator for user ${connection.userId}:`, error);
+          });
+          break;
+
+        case MessageType.TYPING_STOP:
+          this.stopTyping(connection.userId, message.payload.chat, message.payload.chatId);
+          break;
+      }
+    } catch (error) {
+      console.error(`Error handling message from user ${connection.userId}:`, error);
+    }
+  }
+
+  /**
+   * Run a client command and answer on the socket it came from
+   * The ack carries the result and the nack the reason, both tagged with the command's client id
+   *
+   * @param connection - Connection the command arrived on
+   * @param command - Validated command
+   */
+  private async handleCommand(connection: ConnectionInfo, command: ClientCommand): Promise<void> {
+    const { clientId } = command;
+
+    try {
+      if (!this.commandHandler) {
+        throw new Error('Commands are not available');
       }
+
+      const result = await this.commandHandler(connection.userId, command);
+      this.sendToConnection(connection, {
+        type: MessageType.COMMAND_ACK,
+        payload: { clientId, result },
+        timestamp: new Date(),
+      });
     } catch (error) {
-      console.error(`Error handling message from user ${userId}:`, error);
+      this.sendToConnection(connection, {
+        type: MessageType.COMMAND_NACK,
+        payload: { clientId, error: error instanceof Error ? error.message : 'Internal server error' },
+        timestamp: new Date(),
+      });
     }
   }
 
   /**
-   * Handle user disconnection
+   * Handle a socket disconnecting
+   * The user only goes offline when their last socket closes
+   * Safe to call more than once for the same connection
    * 
+   * @param connection - Connection that closed
+   */
+  private handleDisconnection(connection: ConnectionInfo): void {
+    const { userId } = connection;
+    const userConnections = this.connections.get(userId);
+
+    if (!userConnections || !userConnections.delete(connection)) {
+      return;
+    }
+
+    console.log(`🔌 User ${userId} disconnected from WebSocket (${userConnections.size} open)`);
+
+    if (userConnections.size === 0) {
+      this.connections.delete(userId);
+    }
+
+    for (const key of connection.openChats) {
+      this.leaveChat(userId, key);
+    }
+    connection.openChats.clear();
+
+    if (userConnections.size > 0) {
+      return;
+    }
+
+    this.publishPresence({ kind: 'offline', instanceId: this.instanceId, userId });
+    this.touchLastSeen(userId);
+
+    // Notify others that user is offline, unless they are still connected to another instance
+    if (!this.isOnlineElsewhere(userId)) {
+      this.broadcastUserStatus(userId, false);
+    }
+  }
+
+  /**
+   * Record that the user was connected just now
+   *
+   * @param userId - User ID
+   */
+  private async touchLastSeen(userId: string): Promise<void> {
+    try {
+      await User.updateOne({ _id: userId }, { $set: { lastSeenAt: new Date() } });
+    } catch (error) {
+      console.error(`Error updating last seen time for user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Get who may see a chat's presence and typing, if the user is one of them
+   *
+   * @param chat - Kind of chat
+   * @param chatId - Space ID for group chats, application ID for screening chats, conversation ID for direct chats
+   * @param userId - User asking
+   * @returns Participant user IDs, or null if the user isn't one
+   */
+  private async getChatParticipants(chat: ChatKind, chatId: string, userId: string): Promise<string[] | null> {
+    if (chat === ChatKind.GROUP) {
+      const members = await this.getTeamMembersBySpace(chatId);
+      return members.includes(userId) ? members : null;
+    }
+
+    if (chat === ChatKind.DIRECT) {
+      const conversation = await DirectConversation.findById(chatId);
+      const participants = conversation?.participantIds.map(id => id.toString()) ?? [];
+      return participants.includes(userId) ? participants : null;
+    }
+
+    const { authorized, participants } = await screeningChatService.validateScreeningChatAccess(chatId, userId);
+    return authorized && participants ? [participants.founderId, participants.applicantId] : null;
+  }
+
+  /**
+   * Mark a chat as open in a tab and tell everyone viewing it
+   *
+   * @param connection - Connection (tab) that opened the chat
+   * @param chat - Kind of chat
+   * @param chatId - Chat ID
+   */
+  private async openChat(connection: ConnectionInfo, chat: ChatKind, chatId: string): Promise<void> {
+    const { userId } = connection;
+    const participants = await this.getChatParticipants(chat, chatId, userId);
+
+    if (!participants) {
+      console.warn(`User ${userId} tried to open ${chat} chat ${chatId} without access`);
+      return;
+    }
+
+    // The socket may have closed while access was checked
+    if (!this.connections.get(userId)?.has(connection)) {
+      return;
+    }
+
+    const key = chatKey(chat, chatId);
+    const wasViewing = this.getLocalChatViewers(key).has(userId);
+    connection.openChats.add(key);
+
+    if (wasViewing) {
+      // Another tab of the same user already has it open, so only this tab needs the list
+      this.sendToConnection(connection, this.chatPresenceMessage(chat, chatId, this.getChatViewers(key)));
+      return;
+    }
+
+    this.publishChatViewers(key);
+    this.broadcastChatPresence(chat, chatId);
+  }
+
+  /**
+   * Mark a chat as closed in a tab
+   *
+   * @param connection - Connection (tab) that closed the chat
+   * @param chat - Kind of chat
+   * @param chatId - Chat ID
+   */
+  private closeChat(connection: ConnectionInfo, chat: ChatKind, chatId: string): void {
+    const key = chatKey(chat, chatId);
+
+    if (connection.openChats.delete(key)) {
+      this.leaveChat(connection.userId, key);
+    }
+  }
+
+  /**
+   * Update presence after one of a user's tabs stopped viewing a chat
+   * Nothing changes while another tab of theirs on this instance still has it open
+   *
    * @param userId - User ID
+   * @param key - Chat key
+   */
+  private leaveChat(userId: string, key: string): void {
+    if (this.getLocalChatViewers(key).has(userId)) {
+      return;
+    }
+
+    const separator = key.indexOf(':');
+    const chat = key.slice(0, separator) as ChatKind;
+    const chatId = key.slice(separator + 1);
+
+    this.stopTyping(userId, chat, chatId);
+    this.publishChatViewers(key);
+    this.broadcastChatPresence(chat, chatId);
+  }
+
+  /**
+   * Get users with the chat open in a tab connected to this instance
+   *
+   * @param key - Chat key
+   */
+  private getLocalChatViewers(key: string): Set<string> {
+    const viewers = new Set<string>();
+
+    for (const connection of this.getAllConnections()) {
+      if (connection.openChats.has(key)) {
+        viewers.add(connection.userId);
+      }
+    }
+
+    return viewers;
+  }
+
+  /**
+   * Get users with the chat open on any instance
+   *
+   * @param key - Chat key
+   */
+  private getChatViewers(key: string): string[] {
+    const viewers = this.getLocalChatViewers(key);
+
+    for (const instance of this.remotePresence.values()) {
+      instance.chats.get(key)?.forEach((userId) => viewers.add(userId));
+    }
+
+    return Array.from(viewers);
+  }
+
+  private chatPresenceMessage(chat: ChatKind, chatId: string, userIds: string[]): BroadcastMessage {
+    return {
+      type: MessageType.CHAT_PRESENCE,
+      payload: { chat, chatId, userIds },
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Send the current viewer list to everyone viewing the chat
+   *
+   * @param chat - Kind of chat
+   * @param chatId - Chat ID
    */
-  private handleDisconnection(userId: string): void {
-    this.connections.delete(userId);
-    console.log(`🔌 User ${userId} disconnected from WebSocket`);
+  private broadcastChatPresence(chat: ChatKind, chatId: string): void {
+    const viewers = this.getChatViewers(chatKey(chat, chatId));
+
+    this.publishToUsers(viewers, this.chatPresenceMessage(chat, chatId, viewers)).catch((error) => {
+      console.error(`Error publishing presence for ${chat} chat ${chatId}:`, error);
+    });
+  }
 
-    // Notify others that user is offline
-    this.broadcastUserStatus(userId, false);
+  /**
+   * Tell the other instances who has the chat open here
+   *
+   * @param key - Chat key
+   */
+  private publishChatViewers(key: string): void {
+    this.publishPresence({
+      kind: 'chat',
+      instanceId: this.instanceId,
+      chatKey: key,
+      userIds: Array.from(this.getLocalChatViewers(key)),
+    });
+  }
+
+  /**
+   * Show that a user is typing, or keep showing it if they already were
+   *
+   * @param userId - User who is typing
+   * @param chat - Kind of chat
+   * @param chatId - Chat ID
+   */
+  private async startTyping(userId: string, chat: ChatKind, chatId: string): Promise<void> {
+    const key = `${chatKey(chat, chatId)}|${userId}`;
+
+    if (this.typing.has(key)) {
+      this.typing.get(key)!.timer.refresh();
+      return;
+    }
+
+    const participants = await this.getChatParticipants(chat, chatId, userId);
+
+    if (!participants) {
+      return;
+    }
+
+    // Another typing_start may have been handled while participants were looked up
+    if (this.typing.has(key)) {
+      this.typing.get(key)!.timer.refresh();
+      return;
+    }
+
+    const recipients = participants.filter((id) => id !== userId);
+    this.typing.set(key, {
+      recipients,
+      timer: setTimeout(() => this.stopTyping(userId, chat, chatId), this.TYPING_TIMEOUT),
+    });
+    this.publishTyping(recipients, userId, chat, chatId, true);
+  }
+
+  /**
+   * Stop showing that a user is typing
+   *
+   * @param userId - User who stopped typing
+   * @param chat - Kind of chat
+   * @param chatId - Chat ID
+   */
+  private stopTyping(userId: string, chat: ChatKind, chatId: string): void {
+    const key = `${chatKey(chat, chatId)}|${userId}`;
+    const state = this.typing.get(key);
+
+    if (!state) {
+      return;
+    }
+
+    clearTimeout(state.timer);
+    this.typing.delete(key);
+    this.publishTyping(state.recipients, userId, chat, chatId, false);
+  }
+
+  private publishTyping(recipients: string[], userId: string, chat: ChatKind, chatId: string, typing: boolean): void {
+    this.publishToUsers(recipients, {
+      type: MessageType.TYPING,
+      payload: { chat, chatId, userId, typing },
+      timestamp: new Date(),
+    }).catch((error) => {
+      console.error(`Error publishing typing indicator for ${chat} chat ${chatId}:`, error);
+    });
+  }
+
+  /**
+   * Subscribe to the broker channels and ask the other instances who is online
+   */
+  private attachBroker(): void {
+    const broker = this.broker;
+
+    Promise.all([
+      broker.subscribe(USER_CHANNEL, (raw) => this.handleUserEnvelope(raw)),
+      broker.subscribe(PRESENCE_CHANNEL, (raw) => this.handlePresenceEnvelope(raw)),
+    ])
+      .then(() => this.publishPresence({ kind: 'sync', instanceId: this.instanceId }))
+      .catch((error) => {
+        console.error('Error subscribing to message broker:', error);
+      });
+  }
+
+  /**
+   * Publish a message for users, wherever their sockets are connected
+   * 
+   * @param userIds - Recipient user IDs, or null for everyone connected
+   * @param message - Message to deliver
+   */
+  private async publishToUsers(userIds: string[] | null, message: BroadcastMessage): Promise<void> {
+    const envelope: UserEnvelope = { userIds, message };
+    await this.broker.publish(USER_CHANNEL, JSON.stringify(envelope));
+  }
+
+  /**
+   * Deliver a message from the broker to the recipients' sockets on this instance
+   * 
+   * @param raw - Serialized UserEnvelope
+   */
+  private handleUserEnvelope(raw: string): void {
+    const { userIds, message } = JSON.parse(raw) as UserEnvelope;
+
+    for (const userId of userIds ?? Array.from(this.connections.keys())) {
+      for (const connection of this.connections.get(userId) ?? []) {
+        if (message.seq === undefined) {
+          this.sendToConnection(connection, message);
+        } else {
+          this.deliverSequenced(connection, message);
+        }
+      }
+    }
+  }
+
+  /**
+   * Tell the other instances about users connected here
+   * 
+   * @param update - Presence update
+   */
+  private publishPresence(update: PresenceEnvelope): void {
+    this.broker.publish(PRESENCE_CHANNEL, JSON.stringify(update)).catch((error) => {
+      console.error('Error publishing presence:', error);
+    });
+  }
+
+  /**
+   * Publish the full list of users connected to this instance
+   */
+  private publishPresenceSnapshot(): void {
+    const chats: Record<string, string[]> = {};
+
+    for (const connection of this.getAllConnections()) {
+      for (const key of connection.openChats) {
+        chats[key] = [...new Set([...(chats[key] ?? []), connection.userId])];
+      }
+    }
+
+    this.publishPresence({
+      kind: 'snapshot',
+      instanceId: this.instanceId,
+      userIds: Array.from(this.connections.keys()),
+      chats,
+    });
+  }
+
+  /**
+   * Track users connected to other instances
+   * 
+   * @param raw - Serialized PresenceEnvelope
+   */
+  private handlePresenceEnvelope(raw: string): void {
+    const update = JSON.parse(raw) as PresenceEnvelope;
+
+    if (update.instanceId === this.instanceId) {
+      return;
+    }
+
+    if (update.kind === 'sync') {
+      this.publishPresenceSnapshot();
+      return;
+    }
+
+    if (update.kind === 'leave') {
+      this.remotePresence.delete(update.instanceId);
+      return;
+    }
+
+    let instance = this.remotePresence.get(update.instanceId);
+    if (!instance) {
+      instance = { userIds: new Set(), chats: new Map(), lastSeen: Date.now() };
+      this.remotePresence.set(update.instanceId, instance);
+    }
+    instance.lastSeen = Date.now();
+
+    if (update.kind === 'snapshot') {
+      instance.userIds = new Set(update.userIds);
+      instance.chats = new Map(Object.entries(update.chats ?? {}).map(([key, userIds]) => [key, new Set(userIds)]));
+    } else if (update.kind === 'chat') {
+      if (update.userIds.length > 0) {
+        instance.chats.set(update.chatKey, new Set(update.userIds));
+      } else {
+        instance.chats.delete(update.chatKey);
+      }
+    } else if (update.kind === 'online') {
+      instance.userIds.add(update.userId);
+    } else {
+      instance.userIds.delete(update.userId);
+    }
+  }
+
+  /**
+   * Forget instances that stopped sending presence snapshots (crashed or scaled down)
+   */
+  private pruneRemotePresence(): void {
+    const cutoff = Date.now() - this.PRESENCE_TIMEOUT;
+
+    for (const [instanceId, instance] of this.remotePresence) {
+      if (instance.lastSeen < cutoff) {
+        this.remotePresence.delete(instanceId);
+      }
+    }
+  }
+
+  /**
+   * Check if a user has an open socket on another instance
+   * 
+   * @param userId - User ID
+   */
+  private isOnlineElsewhere(userId: string): boolean {
+    for (const instance of this.remotePresence.values()) {
+      if (instance.userIds.has(userId)) {
+        return true;
+      }
+    }
+    return false;
   }
 
   /**
@@ -214,21 +888,60 @@ export class MessageBroadcastService {
    */
   private startHeartbeatMonitoring(): void {
     this.heartbeatInterval = setInterval(() => {
-      const now = new Date();
-      const staleThreshold = 60000; // 60 seconds
-
-      for (const [userId, connection] of this.connections.entries()) {
-        const timeSinceHeartbeat = now.getTime() - connection.lastHeartbeat.getTime();
-        
-        if (timeSinceHeartbeat > staleThreshold) {
-          console.log(`⚠️ Stale connection detected for user ${userId}, closing...`);
-          connection.ws.close(1000, 'Connection timeout');
-          this.connections.delete(userId);
-        }
-      }
+      this.closeStaleConnections();
+      this.publishPresenceSnapshot();
+      this.pruneRemotePresence();
+
+      this.revalidateSessions().catch((error) => {
+        console.error('Error revalidating WebSocket sessions:', error);
+      });
     }, this.HEARTBEAT_INTERVAL);
   }
 
+  /**
+   * Close sockets that have not sent a heartbeat recently
+   * Each socket is checked on its own, so a live tab does not keep a dead one open
+   */
+  private closeStaleConnections(): void {
+    const now = new Date();
+    const staleThreshold = 60000; // 60 seconds
+
+    for (const connection of this.getAllConnections()) {
+      const timeSinceHeartbeat = now.getTime() - connection.lastHeartbeat.getTime();
+      
+      if (timeSinceHeartbeat > staleThreshold) {
+        console.log(`⚠️ Stale connection detected for user ${connection.userId}, closing...`);
+        connection.ws.close(1000, 'Connection timeout');
+        this.handleDisconnection(connection);
+      }
+    }
+  }
+
+  /**
+   * Close connections whose user was deleted or whose token was revoked by a password change
+   */
+  private async revalidateSessions(): Promise<void> {
+    const userIds = Array.from(this.connections.keys());
+
+    if (userIds.length === 0) {
+      return;
+    }
+
+    const users = await User.find({ _id: { $in: userIds } })
+      .select('_id passwordChangedAt')
+      .lean();
+    const usersById = new Map(users.map(user => [user._id.toString(), user]));
+
+    for (const connection of this.getAllConnections()) {
+      const user = usersById.get(connection.userId);
+
+      if (!user || isIssuedBeforePasswordChange(connection.tokenIssuedAt, user.passwordChangedAt)) {
+        console.log(`🔒 Session for user ${connection.userId} is no longer valid, closing WebSocket...`);
+        connection.ws.close(WS_CLOSE_SESSION_REVOKED, 'Session revoked');
+      }
+    }
+  }
+
   /**
    * Stop heartbeat monitoring
    */
@@ -240,28 +953,115 @@ export class MessageBroadcastService {
   }
 
   /**
-   * Send message to a specific user
+   * Get every open connection across all users
+   */
+  private getAllConnections(): ConnectionInfo[] {
+    return Array.from(this.connections.values()).flatMap(userConnections => Array.from(userConnections));
+  }
+
+  /**
+   * Send message on a single socket
+   * 
+   * @param connection - Connection to send on
+   * @param message - Message to send
+   * @returns True if message was sent
+   */
+  private sendToConnection(connection: ConnectionInfo, message: BroadcastMessage): boolean {
+    if (connection.ws.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+
+    try {
+      connection.ws.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      console.error(`Error sending message to user ${connection.userId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Send message to a specific user on all of their open sockets, on any instance
+   * Non-ephemeral messages are first appended to the user's event log, which
+   * gives them a sequence number and keeps them for offline delivery
    * 
    * @param userId - User ID
    * @param message - Message to send
-   * @returns True if message was sent, false if user is offline
+   * @returns True if the user has an open socket, false if user is offline
    */
   sendToUser(userId: string, message: BroadcastMessage): boolean {
-    const connection = this.connections.get(userId);
+    const isOnline = this.isUserOnline(userId);
 
-    if (connection && connection.ws.readyState === WebSocket.OPEN) {
-      try {
-        connection.ws.send(JSON.stringify(message));
-        return true;
-      } catch (error) {
-        console.error(`Error sending message to user ${userId}:`, error);
-        return false;
+    if (EPHEMERAL_MESSAGE_TYPES.has(message.type) || !eventLogService.canLog(userId)) {
+      this.publishToUsers([userId], message).catch((error) => {
+        console.error(`Error publishing message for user ${userId}:`, error);
+      });
+      return isOnline;
+    }
+
+    this.enqueueForUser(userId, async () => {
+      const seq = await eventLogService.append(userId, message as Omit<LoggedEvent, 'seq'>);
+      await this.publishToUsers([userId], { ...message, seq });
+    });
+
+    return isOnline;
+  }
+
+  /**
+   * Run work for a user after any earlier work for the same user has finished
+   * 
+   * @param userId - User ID
+   * @param work - Work to run
+   */
+  private enqueueForUser(userId: string, work: () => Promise<void>): void {
+    const previous = this.logQueues.get(userId) ?? Promise.resolve();
+    const next = previous
+      .then(work)
+      .catch((error) => {
+        console.error(`Error logging event for user ${userId}:`, error);
+      });
+
+    this.logQueues.set(userId, next);
+    next.then(() => {
+      if (this.logQueues.get(userId) === next) {
+        this.logQueues.delete(userId);
       }
+    });
+  }
+
+  /**
+   * Send a sequenced message on a socket, holding it back while the socket is replaying
+   * 
+   * @param connection - Connection to send on
+   * @param message - Message with its sequence number
+   */
+  private deliverSequenced(connection: ConnectionInfo, message: BroadcastMessage): void {
+    if (connection.replaying) {
+      connection.pendingMessages.push(message);
+      return;
     }
 
-    // User is offline, queue the message
-    this.queueMessage(userId, message);
-    return false;
+    const seq = message.seq!;
+
+    if (seq <= connection.lastSentSeq) {
+      return;
+    }
+
+    // Events logged by different instances can overtake each other in the broker.
+    // Give the earlier one a moment to arrive, then fill whatever is still missing from the log.
+    if (seq > connection.lastSentSeq + 1) {
+      connection.replaying = true;
+      connection.pendingMessages.push(message);
+      setTimeout(() => {
+        this.resumeStream(connection, connection.lastSentSeq).catch((error) => {
+          console.error(`Error filling event gap for user ${connection.userId}:`, error);
+        });
+      }, this.GAP_WAIT);
+      return;
+    }
+
+    this.sendToConnection(connection, message);
+    connection.lastSentSeq = seq;
   }
 
   /**
@@ -272,19 +1072,22 @@ export class MessageBroadcastService {
    * @returns Object with counts of online and offline users
    */
   broadcastToUsers(userIds: string[], message: BroadcastMessage): { online: number; offline: number } {
-    let online = 0;
-    let offline = 0;
-
-    for (const userId of userIds) {
-      const sent = this.sendToUser(userId, message);
-      if (sent) {
-        online++;
-      } else {
-        offline++;
+    const online = userIds.filter(userId => this.isUserOnline(userId)).length;
+
+    // Ephemeral messages are the same for everyone, so they go through the broker once
+    if (EPHEMERAL_MESSAGE_TYPES.has(message.type)) {
+      if (userIds.length > 0) {
+        this.publishToUsers(userIds, message).catch((error) => {
+          console.error('Error publishing broadcast:', error);
+        });
+      }
+    } else {
+      for (const userId of userIds) {
+        this.sendToUser(userId, message);
       }
     }
 
-    return { online, offline };
+    return { online, offline: userIds.length - online };
   }
 
   /**
@@ -352,69 +1155,92 @@ export class MessageBroadcastService {
   }
 
   /**
-   * Queue message for offline user
+   * Get logged messages a user has not seen yet
    * 
    * @param userId - User ID
-   * @param message - Message to queue
+   * @param afterSeq - Last sequence number the client saw; defaults to the last acknowledged one
+   * @returns Messages oldest first, each carrying its seq, and whether the gap could be filled
    */
-  private queueMessage(userId: string, message: BroadcastMessage): void {
-    if (!this.messageQueue.has(userId)) {
-      this.messageQueue.set(userId, []);
-    }
-
-    const queue = this.messageQueue.get(userId)!;
-
-    // Check queue size limit
-    if (queue.length >= this.MESSAGE_QUEUE_MAX_SIZE) {
-      // Remove oldest message
-      queue.shift();
-    }
-
-    queue.push({
-      userId,
-      message,
-      queuedAt: new Date(),
-    });
+  async getMissedMessages(
+    userId: string,
+    afterSeq?: number
+  ): Promise<{ messages: BroadcastMessage[]; latestSeq: number; complete: boolean }> {
+    const fromSeq = afterSeq ?? await eventLogService.getAckedSeq(userId);
+    const { events, latestSeq, complete } = await eventLogService.getEventsAfter(userId, fromSeq);
+
+    return {
+      // Logged events were validated as BroadcastMessages when they were sent
+      messages: events.map(event => ({
+        type: event.type,
+        payload: event.payload,
+        timestamp: event.timestamp,
+        senderId: event.senderId,
+        seq: event.seq,
+      }) as BroadcastMessage),
+      latestSeq,
+      complete,
+    };
+  }
 
-    console.log(`📬 Queued message for offline user ${userId} (queue size: ${queue.length})`);
+  /**
+   * Record that the client has processed every message up to a sequence number
+   * 
+   * @param userId - User ID (only the user's own log can be acknowledged)
+   * @param seq - Highest sequence number processed
+   */
+  async acknowledgeMessages(userId: string, seq: number): Promise<void> {
+    await eventLogService.acknowledge(userId, seq);
   }
 
   /**
-   * Deliver queued messages to user when they come online
+   * Bring a newly opened socket up to date
+   *
+   * A client that sends the last sequence number it saw gets exactly the gap
+   * replayed, or a RESYNC_REQUIRED message if the gap is no longer retained.
+   * A fresh client gets everything after the user's last acknowledgement.
+   * Live messages logged meanwhile are held back and sent afterwards.
    * 
-   * @param userId - User ID
+   * @param connection - Connection to bring up to date
+   * @param lastSeq - Last sequence number the client saw, if it sent one
    */
-  private deliverQueuedMessages(userId: string): void {
-    const queue = this.messageQueue.get(userId);
+  private async resumeStream(connection: ConnectionInfo, lastSeq: number | null): Promise<void> {
+    const { userId } = connection;
 
-    if (!queue || queue.length === 0) {
-      return;
-    }
+    try {
+      if (!eventLogService.canLog(userId)) {
+        return;
+      }
 
-    const now = new Date();
-    let delivered = 0;
-    let expired = 0;
+      const { messages, latestSeq, complete } = await this.getMissedMessages(userId, lastSeq ?? undefined);
+
+      if (lastSeq !== null && !complete) {
+        this.sendToConnection(connection, {
+          type: MessageType.RESYNC_REQUIRED,
+          payload: { latestSeq },
+          timestamp: new Date(),
+        });
+        connection.lastSentSeq = latestSeq;
+        console.log(`🔄 Gap after seq ${lastSeq} is gone for user ${userId}, asked client to resync`);
+        return;
+      }
 
-    for (const queuedMessage of queue) {
-      const age = now.getTime() - queuedMessage.queuedAt.getTime();
+      for (const message of messages) {
+        this.sendToConnection(connection, message);
+      }
+      connection.lastSentSeq = Math.max(lastSeq ?? 0, latestSeq, ...messages.map(message => message.seq ?? 0));
 
-      // Skip expired messages
-      if (age > this.MESSAGE_QUEUE_MAX_AGE) {
-        expired++;
-        continue;
+      if (messages.length > 0) {
+        console.log(`📬 Replayed ${messages.length} missed messages to user ${userId}`);
       }
+    } finally {
+      connection.replaying = false;
+      const pending = connection.pendingMessages.sort((a, b) => a.seq! - b.seq!);
+      connection.pendingMessages = [];
 
-      // Deliver message
-      const sent = this.sendToUser(userId, queuedMessage.message);
-      if (sent) {
-        delivered++;
+      for (const message of pending) {
+        this.deliverSequenced(connection, message);
       }
     }
-
-    // Clear queue
-    this.messageQueue.delete(userId);
-
-    console.log(`📬 Delivered ${delivered} queued messages to user ${userId} (${expired} expired)`);
   }
 
   /**
@@ -465,13 +1291,23 @@ export class MessageBroadcastService {
   }
 
   /**
-   * Check if a user is currently online
+   * Check if a user is currently online on any instance
    * 
    * @param userId - User ID
    * @returns True if user is online
    */
   isUserOnline(userId: string): boolean {
-    return this.connections.has(userId);
+    return this.connections.has(userId) || this.isOnlineElsewhere(userId);
+  }
+
+  /**
+   * Get the number of open sockets for a user on this instance
+   * 
+   * @param userId - User ID
+   * @returns Number of open sockets (0 if not connected here)
+   */
+  getConnectionCount(userId: string): number {
+    return this.connections.get(userId)?.size ?? 0;
   }
 
   /**
@@ -480,7 +1316,13 @@ export class MessageBroadcastService {
    * @returns Array of online user IDs
    */
   getOnlineUsers(): string[] {
-    return Array.from(this.connections.keys());
+    const userIds = new Set(this.connections.keys());
+
+    for (const instance of this.remotePresence.values()) {
+      instance.userIds.forEach(userId => userIds.add(userId));
+    }
+
+    return Array.from(userIds);
   }
 
   /**
@@ -489,18 +1331,17 @@ export class MessageBroadcastService {
    * @returns Number of online users
    */
   getOnlineUserCount(): number {
-    return this.connections.size;
+    return this.getOnlineUsers().length;
   }
 
   /**
-   * Get queued message count for a user
+   * Get the number of logged messages no client of the user has acknowledged
    * 
    * @param userId - User ID
-   * @returns Number of queued messages
+   * @returns Number of unacknowledged messages
    */
-  getQueuedMessageCount(userId: string): number {
-    const queue = this.messageQueue.get(userId);
-    return queue ? queue.length : 0;
+  async getQueuedMessageCount(userId: string): Promise<number> {
+    return eventLogService.countUnacknowledged(userId);
   }
 
   /**
@@ -515,10 +1356,11 @@ export class MessageBroadcastService {
       timestamp: new Date(),
     };
 
-    // Broadcast to all connected users
-    const onlineUsers = this.getOnlineUsers();
-    this.broadcastToUsers(onlineUsers, message);
-    console.log(`📊 Broadcast stats update to ${onlineUsers.length} users`);
+    // Broadcast to all connected users, on every instance
+    this.publishToUsers(null, message).catch((error) => {
+      console.error('Error publishing stats update:', error);
+    });
+    console.log(`📊 Broadcast stats update to ${this.getOnlineUserCount()} users`);
   }
 
   /**
@@ -531,12 +1373,25 @@ export class MessageBroadcastService {
     this.stopHeartbeatMonitoring();
 
     // Close all connections
-    for (const [userId, connection] of this.connections.entries()) {
+    for (const connection of this.getAllConnections()) {
+      clearTimeout(connection.expiryTimer);
       connection.ws.close(1000, 'Server shutting down');
     }
 
     this.connections.clear();
 
+    for (const { timer } of this.typing.values()) {
+      clearTimeout(timer);
+    }
+    this.typing.clear();
+
+    // Let the other instances drop our users right away instead of waiting for the timeout
+    const broker = this.broker;
+    broker
+      .publish(PRESENCE_CHANNEL, JSON.stringify({ kind: 'leave', instanceId: this.instanceId }))
+      .catch(() => {})
+      .finally(() => broker.close());
+
     // Close WebSocket server
     if (this.wss) {
       this.wss.close(() => {
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { MilestoneService } from './MilestoneService.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService } from './MessageBroadcastService.js';
+import { SpaceMilestone, SpaceTask, TaskActivity, TeamSpace } from '../db/index.js';
+import { PRIYA_ID, SPACE_ID, TASK_ID, MILESTONE_ID, CREATED_AT, storedDocument, storedSpace } from '../tests/fixtures.js';
+
+vi.mock('../db/index.js', () => ({
+  SpaceMilestone: {
+    create: vi.fn(),
+    find: vi.fn(),
+    findOne: vi.fn(),
+    deleteOne: vi.fn(),
+  },
+  SpaceTask: {
+    find: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  TaskActivity: {
+    find: vi.fn(),
+  },
+  TeamSpace: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./MessageBroadcastService.js', () => ({
+  MessageType: { MILESTONE_UPDATED: 'milestone_updated', MILESTONE_DELETED: 'milestone_deleted' },
+  messageBroadcastService: { broadcastGroupMessage: vi.fn() },
+}));
+
+// Midway through the MVP demo milestone
+const NOW = new Date('2024-03-02T12:00:00Z');
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const storedMilestone = storedDocument(() => ({
+  _id: MILESTONE_ID,
+  id: MILESTONE_ID,
+  spaceId: SPACE_ID,
+  name: 'MVP demo',
+  startDate: day('2024-03-01'),
+  endDate: day('2024-03-03'),
+  createdAt: CREATED_AT,
+  updatedAt: CREATED_AT,
+}));
+
+describe('MilestoneService', () => {
+  let service: MilestoneService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+    vi.spyOn(BuilderSpaceService.prototype, 'validateTeamMemberAccess').mockResolvedValue(true);
+    vi.mocked(TeamSpace.findById).mockResolvedValue(storedSpace() as never);
+    service = new MilestoneService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should create a milestone and tell the team', async () => {
+    vi.mocked(SpaceMilestone.create).mockImplementation(async (fields: never) => storedMilestone(fields) as never);
+
+    const milestone = await service.createMilestone({
+      spaceId: SPACE_ID,
+      userId: PRIYA_ID,
+      name: '  Submission  ',
+      startDate: day('2024-03-01'),
+      endDate: day('2024-03-10'),
+    });
+
+    expect(SpaceMilestone.create).toHaveBeenCalledWith(expect.objectContaining({ name: 'Submission', createdBy: PRIYA_ID }));
+    expect(milestone).toMatchObject({ name: 'Submission', description: null, endDate: day('2024-03-10') });
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(SPACE_ID, expect.objectContaining({
+      type: 'milestone_updated',
+      payload: milestone,
+    }));
+  });
+
+  it('should reject dates out of order and milestones longer than a year', async () => {
+    await expect(service.createMilestone({ spaceId: SPACE_ID, userId: PRIYA_ID, name: 'MVP', startDate: day('2024-03-10'), endDate: day('2024-03-01') }))
+      .rejects.toThrow('Invalid milestone: The end date cannot be before the start date');
+
+    const milestone = storedMilestone();
+    vi.mocked(SpaceMilestone.findOne).mockResolvedValue(milestone as never);
+    await expect(service.updateMilestone({ spaceId: SPACE_ID, milestoneId: MILESTONE_ID, userId: PRIYA_ID, endDate: day('2025-03-02') }))
+      .rejects.toThrow('cannot be longer than 366 days');
+    expect(milestone.save).not.toHaveBeenCalled();
+  });
+
+  it('should leave a deleted milestone\'s tasks on the board', async () => {
+    vi.mocked(SpaceMilestone.findOne).mockResolvedValue(storedMilestone() as never);
+
+    await service.deleteMilestone(SPACE_ID, MILESTONE_ID, PRIYA_ID);
+
+    expect(SpaceMilestone.deleteOne).toHaveBeenCalledWith({ _id: MILESTONE_ID });
+    expect(SpaceTask.updateMany).toHaveBeenCalledWith(
+      { spaceId: SPACE_ID, milestoneId: MILESTONE_ID },
+      { $unset: { milestoneId: 1 } }
+    );
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(SPACE_ID, expect.objectContaining({
+      type: 'milestone_deleted',
+      payload: { id: MILESTONE_ID, spaceId: SPACE_ID },
+    }));
+  });
+
+  it('should build the burndown from the history of the milestone\'s tasks', async () => {
+    vi.mocked(SpaceMilestone.findOne).mockResolvedValue(storedMilestone() as never);
+    vi.mocked(SpaceTask.find).mockResolvedValue([
+      { _id: TASK_ID, id: TASK_ID, status: 'done', createdAt: day('2024-02-28') },
+      { _id: 'other', id: 'other', status: 'todo', createdAt: day('2024-02-28') },
+    ] as never);
+    vi.mocked(TaskActivity.find).mockReturnValue({
+      sort: () => Promise.resolve([{
+        taskId: new mongoose.Types.ObjectId(TASK_ID),
+        fromStatus: 'review',
+        toStatus: 'done',
+        createdAt: new Date('2024-03-02T09:00:00Z'),
+      }]),
+    } as never);
+
+    const burndown = await service.getBurndown(SPACE_ID, MILESTONE_ID, PRIYA_ID);
+
+    expect(TaskActivity.find).toHaveBeenCalledWith({ taskId: { $in: [TASK_ID, 'other'] }, action: 'status_changed' });
+    expect(burndown).toEqual({
+      milestoneId: MILESTONE_ID,
+      total: 2,
+      remaining: 1,
+      series: [
+        { date: '2024-03-01', remaining: 2, ideal: 2 },
+        { date: '2024-03-02', remaining: 1, ideal: 1 },
+        { date: '2024-03-03', remaining: null, ideal: 0 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import mongoose from 'mongoose';
+import { SpaceMilestone, SpaceTask, TaskActivity, ISpaceMilestone } from '../db/index.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService, MessageType } from './MessageBroadcastService.js';
+import { BurndownPayload, MilestonePayload, TaskStatus } from '../shared/realtimeProtocol.js';
+import { buildBurndown, BurndownTask } from '../utils/burndown.js';
+
+const MAX_NAME_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 500;
+// A year, which also bounds the length of a burndown series
+const MAX_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CreateMilestoneParams {
+  spaceId: string;
+  userId: string;
+  name: string;
+  description?: string;
+  // Midnight UTC of the first and last days
+  startDate: Date;
+  endDate: Date;
+}
+
+// The fields to change; null clears the description
+export interface UpdateMilestoneParams {
+  spaceId: string;
+  milestoneId: string;
+  userId: string;
+  name?: string;
+  description?: string | null;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * MilestoneService manages the milestones of a Builder Space: time boxes such as
+ * "MVP demo" or a hackathon's submission deadline, each with some of the space's tasks
+ *
+ * Any team member can create, change and delete milestones; tasks join one through
+ * TaskService. Deleting a milestone leaves its tasks on the board without one. Changes
+ * are sent to the team as MILESTONE_UPDATED and MILESTONE_DELETED.
+ */
+export class MilestoneService {
+  private builderSpaceService: BuilderSpaceService;
+
+  constructor() {
+    this.builderSpaceService = new BuilderSpaceService();
+  }
+
+  /**
+   * List a Builder Space's milestones, soonest first
+   *
+   * @throws Error if the space is not found or the user is not a team member
+   */
+  async listMilestones(spaceId: string, userId: string): Promise<MilestonePayload[]> {
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    const milestones = await SpaceMilestone.find({ spaceId }).sort({ startDate: 1, endDate: 1 });
+    return milestones.map(milestone => this.toPayload(milestone));
+  }
+
+  /**
+   * Create a milestone
+   *
+   * @returns The new milestone
+   * @throws Error if unauthorized, or the name, description or dates are invalid
+   */
+  async createMilestone(params: CreateMilestoneParams): Promise<MilestonePayload> {
+    const { spaceId, userId, startDate, endDate } = params;
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    const name = params.name.trim();
+    const description = params.description?.trim() || undefined;
+    this.validateMilestone(name, description, startDate, endDate);
+
+    const milestone = await SpaceMilestone.create({ spaceId, name, description, startDate, endDate, createdBy: userId });
+
+    return this.broadcastChange(milestone, userId);
+  }
+
+  /**
+   * Rename a milestone, change its description or move its dates
+   *
+   * @returns The changed milestone
+   * @throws Error if unauthorized, the milestone is not found, or the changes are invalid
+   */
+  async updateMilestone(params: UpdateMilestoneParams): Promise<MilestonePayload> {
+    const { spaceId, milestoneId, userId } = params;
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    const milestone = await this.findMilestone(spaceId, milestoneId);
+    const name = params.name?.trim() ?? milestone.name;
+    const description = params.description === undefined
+      ? milestone.description
+      : params.description?.trim() || undefined;
+    const startDate = params.startDate ?? milestone.startDate;
+    const endDate = params.endDate ?? milestone.endDate;
+    this.validateMilestone(name, description, startDate, endDate);
+
+    milestone.name = name;
+    milestone.description = description;
+    milestone.startDate = startDate;
+    milestone.endDate = endDate;
+    await milestone.save();
+
+    return this.broadcastChange(milestone, userId);
+  }
+
+  /**
+   * Delete a milestone; its tasks stay on the board without one
+   *
+   * @throws Error if unauthorized or the milestone is not found
+   */
+  async deleteMilestone(spaceId: string, milestoneId: string, userId: string): Promise<void> {
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+    const milestone = await this.findMilestone(spaceId, milestoneId);
+
+    await SpaceMilestone.deleteOne({ _id: milestone._id });
+    await SpaceTask.updateMany({ spaceId, milestoneId: milestone._id }, { $unset: { milestoneId: 1 } });
+
+    // Clients take the milestone off their tasks themselves, so no task updates are sent
+    await messageBroadcastService.broadcastGroupMessage(spaceId, {
+      type: MessageType.MILESTONE_DELETED,
+      payload: { id: milestone.id, spaceId },
+      timestamp: new Date(),
+      senderId: userId,
+    });
+  }
+
+  /**
+   * How many of a milestone's tasks were left on each of its days, read from their history
+   *
+   * @throws Error if unauthorized or the milestone is not found
+   */
+  async getBurndown(spaceId: string, milestoneId: string, userId: string): Promise<BurndownPayload> {
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+    const milestone = await this.findMilestone(spaceId, milestoneId);
+
+    const tasks = await SpaceTask.find({ spaceId, milestoneId: milestone._id }, 'status completedAt createdAt');
+    const statusChanges = tasks.length > 0
+      ? await TaskActivity.find({ taskId: { $in: tasks.map(task => task._id) }, action: 'status_changed' })
+        .sort({ createdAt: 1, _id: 1 })
+      : [];
+
+    const burndownTasks: BurndownTask[] = tasks.map(task => ({
+      createdAt: task.createdAt,
+      completedAt: task.completedAt,
+      statusChanges: statusChanges
+        .filter(change => change.taskId.toString() === task.id)
+        .map(change => ({
+          at: change.createdAt,
+          fromStatus: change.fromStatus as TaskStatus,
+          toStatus: change.toStatus as TaskStatus,
+        })),
+    }));
+
+    return {
+      milestoneId: milestone.id,
+      total: tasks.length,
+      remaining: tasks.filter(task => task.status !== 'done').length,
+      series: buildBurndown(burndownTasks, milestone.startDate, milestone.endDate),
+    };
+  }
+
+  private async findMilestone(spaceId: string, milestoneId: string): Promise<ISpaceMilestone> {
+    const milestone = mongoose.isValidObjectId(milestoneId)
+      ? await SpaceMilestone.findOne({ _id: milestoneId, spaceId })
+      : null;
+
+    if (!milestone) {
+      throw new Error('Milestone not found');
+    }
+
+    return milestone;
+  }
+
+  /**
+   * @throws Error if the name is empty, a field is too long, or the dates are out of order or too far apart
+   */
+  private validateMilestone(name: string, description: string | undefined, startDate: Date, endDate: Date): void {
+    if (!name) {
+      throw new Error('Invalid milestone: Name cannot be empty');
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new Error(`Invalid milestone: Name cannot exceed ${MAX_NAME_LENGTH} characters`);
+    }
+    if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new Error(`Invalid milestone: Description cannot exceed ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    if (endDate.getTime() < startDate.getTime()) {
+      throw new Error('Invalid milestone: The end date cannot be before the start date');
+    }
+    if ((endDate.getTime() - startDate.getTime()) / DAY_MS + 1 > MAX_DAYS) {
+      throw new Error(`Invalid milestone: A milestone cannot be longer than ${MAX_DAYS} days`);
+    }
+  }
+
+  /**
+   * Send a created or changed milestone to every team member
+   */
+  private async broadcastChange(milestone: ISpaceMilestone, userId: string): Promise<MilestonePayload> {
+    const payload = this.toPayload(milestone);
+
+    await messageBroadcastService.broadcastGroupMessage(payload.spaceId, {
+      type: MessageType.MILESTONE_UPDATED,
+      payload,
+      timestamp: payload.updatedAt,
+      senderId: userId,
+    });
+
+    return payload;
+  }
+
+  private toPayload(milestone: ISpaceMilestone): MilestonePayload {
+    return {
+      id: milestone.id,
+      spaceId: milestone.spaceId.toString(),
+      name: milestone.name,
+      description: milestone.description ?? null,
+      startDate: milestone.startDate,
+      endDate: milestone.endDate,
+      createdAt: milestone.createdAt,
+      updatedAt: milestone.updatedAt,
+    };
+  }
+}
+
+export const milestoneService = new MilestoneService();
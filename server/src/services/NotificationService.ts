@@ -0,0 +1,171 @@
+import mongoose from 'mongoose';
+import { Notification, INotification, User, TeamSpace } from '../db/index.js';
+import { messageBroadcastService, MessageType } from './MessageBroadcastService.js';
+import { NotificationPayload } from '../shared/realtimeProtocol.js';
+
+// Longest message excerpt kept with a notification
+const PREVIEW_LENGTH = 140;
+
+export interface MentionNotificationParams {
+  spaceId: string;
+  messageId: string;
+  parentMessageId?: string | null;
+  actorId: string;
+  content: string;
+  // Mentioned users; the actor and duplicates are skipped
+  userIds: string[];
+}
+
+export interface NotificationList {
+  notifications: NotificationPayload[];
+  unreadCount: number;
+}
+
+/**
+ * NotificationService keeps per-user notifications, such as being mentioned in a Builder Space
+ *
+ * Notifications are stored until the user reads them and pushed over the WebSocket as
+ * they happen. Pushes go through the user's event log, so a user who is offline gets
+ * them when they reconnect; anything older is still listed by getNotifications.
+ */
+export class NotificationService {
+  /**
+   * Notify users that they were mentioned in a message
+   * A message notifies each user once, even if it is edited to mention them again
+   *
+   * @param params - The message, who wrote it and who it mentions
+   * @returns The notifications that were created
+   */
+  async notifyMentions(params: MentionNotificationParams): Promise<NotificationPayload[]> {
+    const { spaceId, messageId, parentMessageId, actorId, content } = params;
+    const userIds = [...new Set(params.userIds)].filter(userId => userId !== actorId);
+
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const [actor, space] = await Promise.all([User.findById(actorId), TeamSpace.findById(spaceId)]);
+    const preview = content.length > PREVIEW_LENGTH ? `${content.slice(0, PREVIEW_LENGTH - 1)}…` : content;
+
+    const created: INotification[] = [];
+    for (const userId of userIds) {
+      try {
+        created.push(await Notification.create({
+          userId,
+          type: 'mention',
+          actorId,
+          spaceId,
+          messageId,
+          parentMessageId: parentMessageId ?? undefined,
+          preview,
+        }));
+      } catch (error) {
+        // Already notified about this message
+        if ((error as { code?: number }).code !== 11000) {
+          throw error;
+        }
+      }
+    }
+
+    const actorName = actor?.name || 'Someone';
+    const spaceName = space?.name ?? null;
+
+    return created.map(notification => {
+      const payload = this.toPayload(notification, actorName, spaceName);
+      messageBroadcastService.sendToUser(notification.userId.toString(), {
+        type: MessageType.NOTIFICATION,
+        payload,
+        timestamp: payload.createdAt,
+        senderId: actorId,
+      });
+      return payload;
+    });
+  }
+
+  /**
+   * Get a user's notifications, newest first
+   *
+   * @param userId - The user
+   * @param options - Only unread ones, and how many at most
+   * @returns Notifications and how many are unread in total
+   */
+  async getNotifications(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ): Promise<NotificationList> {
+    const limit = Math.min(Math.max(options.limit ?? 30, 1), 100);
+    const filter = { userId, ...(options.unreadOnly && { readAt: { $exists: false } }) };
+
+    const [notifications, unreadCount] = await Promise.all([
+      Notification.find(filter)
+        .populate('actorId', 'name')
+        .populate('spaceId', 'name')
+        .sort({ createdAt: -1 })
+        .limit(limit),
+      Notification.countDocuments({ userId, readAt: { $exists: false } }),
+    ]);
+
+    return {
+      notifications: notifications.map(notification => this.toPayload(
+        notification,
+        (notification.actorId as unknown as { name?: string })?.name || 'Someone',
+        (notification.spaceId as unknown as { name?: string })?.name ?? null
+      )),
+      unreadCount,
+    };
+  }
+
+  /**
+   * Mark one of the user's notifications as read
+   *
+   * @throws Error if the notification is not found
+   */
+  async markRead(userId: string, notificationId: string): Promise<void> {
+    const notification = mongoose.isValidObjectId(notificationId)
+      ? await Notification.findOne({ _id: notificationId, userId })
+      : null;
+
+    if (!notification) {
+      throw new Error('Notification not found');
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save();
+    }
+  }
+
+  /**
+   * Mark all of the user's notifications as read
+   *
+   * @returns How many were unread
+   */
+  async markAllRead(userId: string): Promise<number> {
+    const result = await Notification.updateMany(
+      { userId, readAt: { $exists: false } },
+      { readAt: new Date() }
+    );
+    return result.modifiedCount;
+  }
+
+  private toPayload(notification: INotification, actorName: string, spaceName: string | null): NotificationPayload {
+    const idOf = (ref?: { _id?: unknown; toString(): string }) =>
+      ref ? String((ref as { _id?: unknown })._id ?? ref) : null;
+
+    return {
+      id: notification.id,
+      type: notification.type,
+      actorId: idOf(notification.actorId),
+      actorName,
+      spaceId: idOf(notification.spaceId),
+      spaceName,
+      messageId: idOf(notification.messageId),
+      parentMessageId: idOf(notification.parentMessageId),
+      preview: notification.preview,
+      readAt: notification.readAt ?? null,
+      createdAt: notification.createdAt,
+    };
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PasswordResetService } from './PasswordResetService.js';
+import { refreshTokenService } from './RefreshTokenService.js';
+import { PasswordResetToken, User } from '../db/index.js';
+import { setMailTransport, MailMessage } from '../utils/mailer.js';
+import { hashToken } from '../utils/jwt.js';
+import { comparePassword } from '../utils/password.js';
+
+vi.mock('../db/index.js', () => ({
+  PasswordResetToken: {
+    create: vi.fn(),
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  User: {
+    findOne: vi.fn(),
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./RefreshTokenService.js', () => ({
+  refreshTokenService: {
+    revokeAllForUser: vi.fn(),
+  },
+}));
+
+const mockLatestRequest = (latest: { createdAt: Date } | null) => {
+  vi.mocked(PasswordResetToken.findOne).mockReturnValue({
+    sort: vi.fn().mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        lean: vi.fn().mockResolvedValue(latest),
+      }),
+    }),
+  } as never);
+};
+
+describe('PasswordResetService', () => {
+  let service: PasswordResetService;
+  let sent: MailMessage[];
+
+  beforeEach(() => {
+    sent = [];
+    setMailTransport({ send: async (message) => { sent.push(message); } });
+    service = new PasswordResetService();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    setMailTransport(null);
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should email a reset link and store only its hash', async () => {
+      vi.mocked(User.findOne).mockResolvedValue({ _id: 'user-1', name: 'Priya', email: 'priya@test.com' } as never);
+      mockLatestRequest(null);
+
+      await service.requestPasswordReset('Priya@Test.com');
+
+      expect(User.findOne).toHaveBeenCalledWith({ email: 'priya@test.com' });
+      expect(sent).toHaveLength(1);
+      const token = sent[0].text.match(/reset-password\?token=([a-f0-9]+)/)![1];
+      expect(PasswordResetToken.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', tokenHash: hashToken(token) })
+      );
+    });
+
+    it('should do nothing for unknown emails', async () => {
+      vi.mocked(User.findOne).mockResolvedValue(null);
+
+      await service.requestPasswordReset('nobody@test.com');
+
+      expect(sent).toHaveLength(0);
+      expect(PasswordResetToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should ignore repeated requests within the cooldown', async () => {
+      vi.mocked(User.findOne).mockResolvedValue({ _id: 'user-1', name: 'Priya', email: 'priya@test.com' } as never);
+      mockLatestRequest({ createdAt: new Date() });
+
+      await service.requestPasswordReset('priya@test.com');
+
+      expect(sent).toHaveLength(0);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and revoke all sessions', async () => {
+      const user: Record<string, unknown> = { _id: 'user-1', password: 'old-hash', save: vi.fn() };
+      vi.mocked(PasswordResetToken.findOneAndUpdate).mockResolvedValue({ userId: 'user-1' } as never);
+      vi.mocked(User.findById).mockResolvedValue(user as never);
+
+      await service.resetPassword('reset-token', 'new-password');
+
+      expect(PasswordResetToken.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ tokenHash: hashToken('reset-token'), usedAt: { $exists: false } }),
+        expect.anything(),
+        expect.anything()
+      );
+      expect(await comparePassword('new-password', user.password as string)).toBe(true);
+      expect(user.passwordChangedAt).toBeInstanceOf(Date);
+      expect(user.save).toHaveBeenCalled();
+      expect(refreshTokenService.revokeAllForUser).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should enforce the password rules', async () => {
+      await expect(service.resetPassword('reset-token', '123')).rejects.toThrow('at least 6 characters');
+      expect(PasswordResetToken.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reject used or expired tokens', async () => {
+      vi.mocked(PasswordResetToken.findOneAndUpdate).mockResolvedValue(null);
+
+      await expect(service.resetPassword('reset-token', 'new-password')).rejects.toThrow('invalid or has expired');
+      expect(refreshTokenService.revokeAllForUser).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import { PasswordResetToken, User } from '../db/index.js';
+import { hashToken } from '../utils/jwt.js';
+import { hashPassword, passwordSchema } from '../utils/password.js';
+import { sendMail, escapeHtml } from '../utils/mailer.js';
+import { refreshTokenService } from './RefreshTokenService.js';
+
+/**
+ * PasswordResetService lets users regain access through an emailed one-time link
+ *
+ * Reset tokens are random, short-lived and stored only as a SHA-256 hash.
+ * A successful reset signs the user out of every session.
+ */
+export class PasswordResetService {
+  private readonly TOKEN_TTL_MS = 30 * 60 * 1000; // 30 minutes
+  private readonly REQUEST_COOLDOWN_MS = 60 * 1000; // 1 minute between emails
+
+  /**
+   * Email a password reset link if an account exists for the address
+   * Never reveals whether the account exists
+   *
+   * @param email - The email address entered by the user
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await User.findOne({ email: email.toLowerCase() });
+
+    if (!user) {
+      return;
+    }
+
+    // Silently drop repeated requests so the endpoint cannot be used to flood an inbox
+    const latest = await PasswordResetToken.findOne({ userId: user._id })
+      .sort({ createdAt: -1 })
+      .select('createdAt')
+      .lean();
+
+    if (latest && Date.now() - new Date(latest.createdAt).getTime() < this.REQUEST_COOLDOWN_MS) {
+      return;
+    }
+
+    // Only the newest link should work
+    await PasswordResetToken.updateMany(
+      { userId: user._id, usedAt: { $exists: false } },
+      { $set: { usedAt: new Date() } }
+    );
+
+    const token = crypto.randomBytes(32).toString('hex');
+    await PasswordResetToken.create({
+      userId: user._id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + this.TOKEN_TTL_MS),
+    });
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    const link = `${frontendUrl}/reset-password?token=${token}`;
+
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your CodeJam password',
+      text: `Hi ${user.name},\n\nSomeone asked to reset the password for your CodeJam account. Open this link to choose a new password:\n\n${link}\n\nThe link expires in 30 minutes. If you did not ask for a reset, you can ignore this email.`,
+      html: `<p>Hi ${escapeHtml(user.name)},</p><p>Someone asked to reset the password for your CodeJam account.</p><p><a href="${link}">Choose a new password</a></p><p>The link expires in 30 minutes. If you did not ask for a reset, you can ignore this email.</p>`,
+    });
+  }
+
+  /**
+   * Redeem a reset token and set a new password
+   * Revokes every refresh token and invalidates access tokens issued before the reset
+   *
+   * @param token - The token from the reset link
+   * @param newPassword - The new password
+   * @throws Error if the token is invalid, expired or already used, or the password is too weak
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const parsed = passwordSchema.safeParse(newPassword);
+    if (!parsed.success) {
+      throw new Error(parsed.error.errors[0].message);
+    }
+
+    // Atomically mark the token as used so it cannot be redeemed twice
+    const record = await PasswordResetToken.findOneAndUpdate(
+      { tokenHash: hashToken(token), usedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+      { $set: { usedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!record) {
+      throw new Error('Reset link is invalid or has expired');
+    }
+
+    const user = await User.findById(record.userId);
+
+    if (!user) {
+      throw new Error('Reset link is invalid or has expired');
+    }
+
+    user.password = await hashPassword(newPassword);
+    user.passwordChangedAt = new Date();
+    // Redeeming an emailed link proves the user controls the address
+    user.emailVerified = true;
+    await user.save();
+
+    // Sign the user out everywhere
+    await refreshTokenService.revokeAllForUser(user._id.toString());
+    await PasswordResetToken.updateMany(
+      { userId: user._id, usedAt: { $exists: false } },
+      { $set: { usedAt: new Date() } }
+    );
+  }
+}
+
+export const passwordResetService = new PasswordResetService();
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { ReadCursorService } from './ReadCursorService.js';
+import { messageBroadcastService } from './MessageBroadcastService.js';
+import { screeningChatService } from './ScreeningChatService.js';
+import { channelService } from './ChannelService.js';
+import { ReadCursor, SpaceChannel, SpaceMessage, ScreeningMessage, DirectConversation, DirectMessage, TeamSpace, TeamMember } from '../db/index.js';
+import { MessageType } from '../shared/realtimeProtocol.js';
+
+vi.mock('../db/index.js', () => ({
+  ReadCursor: {
+    findOneAndUpdate: vi.fn(),
+    findOne: vi.fn(),
+    find: vi.fn(),
+    distinct: vi.fn(),
+    updateOne: vi.fn(),
+    deleteOne: vi.fn(),
+  },
+  SpaceChannel: {
+    findById: vi.fn(),
+  },
+  SpaceMessage: {
+    findOne: vi.fn(),
+    countDocuments: vi.fn(),
+  },
+  ScreeningMessage: {
+    findOne: vi.fn(),
+    countDocuments: vi.fn(),
+  },
+  DirectConversation: {
+    findById: vi.fn(),
+  },
+  DirectMessage: {
+    findOne: vi.fn(),
+    countDocuments: vi.fn(),
+  },
+  TeamSpace: {
+    findById: vi.fn(),
+    find: vi.fn(),
+  },
+  TeamMember: {
+    find: vi.fn(),
+  },
+}));
+
+vi.mock('./MessageBroadcastService.js', () => ({
+  MessageType: { READ_RECEIPT: 'read_receipt' },
+  messageBroadcastService: { broadcastToUsers: vi.fn() },
+}));
+
+vi.mock('./ScreeningChatService.js', () => ({
+  screeningChatService: { validateScreeningChatAccess: vi.fn() },
+}));
+
+vi.mock('./ChannelService.js', () => ({
+  channelService: { getDefaultChannel: vi.fn() },
+}));
+
+const PRIYA_ID = '64b7f0c2a1b2c3d4e5f60718';
+const ARJUN_ID = '64b7f0c2a1b2c3d4e5f60719';
+const SPACE_ID = '64b7f0c2a1b2c3d4e5f60720';
+const CHANNEL_ID = '64b7f0c2a1b2c3d4e5f60725';
+const APPLICATION_ID = '64b7f0c2a1b2c3d4e5f60721';
+const CONVERSATION_ID = '64b7f0c2a1b2c3d4e5f60723';
+const MESSAGE_ID = new mongoose.Types.ObjectId();
+const MESSAGE_AT = new Date('2024-01-01T10:00:00.000Z');
+
+/**
+ * Chainable stand-in for findOne(...).sort(...).select(...).lean()
+ */
+const messageQuery = (message: unknown) => {
+  const query = {
+    sort: vi.fn(() => query),
+    select: vi.fn(() => query),
+    lean: vi.fn().mockResolvedValue(message),
+  };
+  return query as never;
+};
+
+const cursorFor = (userId: string) => ({
+  chat: 'group',
+  chatId: CHANNEL_ID,
+  userId,
+  lastReadMessageId: MESSAGE_ID,
+  lastReadMessageAt: MESSAGE_AT,
+  readAt: new Date('2024-01-01T11:00:00.000Z'),
+});
+
+describe('ReadCursorService', () => {
+  let service: ReadCursorService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ReadCursorService();
+
+    vi.mocked(SpaceChannel.findById).mockResolvedValue({ _id: CHANNEL_ID, spaceId: SPACE_ID } as never);
+    vi.mocked(TeamSpace.findById).mockResolvedValue({ _id: SPACE_ID, postType: 'startup', postId: 'post-1' } as never);
+    vi.mocked(TeamMember.find).mockResolvedValue([{ userId: PRIYA_ID }, { userId: ARJUN_ID }] as never);
+  });
+
+  it('should move a channel cursor to its newest message and send a receipt to the whole team', async () => {
+    vi.mocked(SpaceMessage.findOne).mockReturnValue(messageQuery({ _id: MESSAGE_ID, createdAt: MESSAGE_AT }));
+    vi.mocked(ReadCursor.findOneAndUpdate).mockResolvedValue(cursorFor(PRIYA_ID) as never);
+
+    const receipt = await service.markRead(PRIYA_ID, 'group', CHANNEL_ID);
+
+    expect(receipt).toEqual({
+      chat: 'group',
+      chatId: CHANNEL_ID,
+      userId: PRIYA_ID,
+      messageId: MESSAGE_ID.toString(),
+      readAt: new Date('2024-01-01T11:00:00.000Z'),
+    });
+    expect(TeamSpace.findById).toHaveBeenCalledWith(SPACE_ID);
+    expect(SpaceMessage.findOne).toHaveBeenCalledWith({ channelId: CHANNEL_ID, parentMessageId: null });
+    expect(ReadCursor.findOneAndUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: PRIYA_ID, chat: 'group', chatId: CHANNEL_ID }),
+      expect.objectContaining({ lastReadMessageId: MESSAGE_ID, lastReadMessageAt: MESSAGE_AT }),
+      { upsert: true, new: true }
+    );
+    expect(messageBroadcastService.broadcastToUsers).toHaveBeenCalledWith(
+      [PRIYA_ID, ARJUN_ID],
+      expect.objectContaining({ type: MessageType.READ_RECEIPT, payload: receipt, senderId: PRIYA_ID })
+    );
+  });
+
+  it('should not move the cursor back or send a receipt when already read further', async () => {
+    vi.mocked(SpaceMessage.findOne).mockReturnValue(messageQuery({ _id: MESSAGE_ID, createdAt: MESSAGE_AT }));
+    vi.mocked(ReadCursor.findOneAndUpdate).mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+    vi.mocked(ReadCursor.findOne).mockResolvedValue(cursorFor(PRIYA_ID) as never);
+
+    const receipt = await service.markRead(PRIYA_ID, 'group', CHANNEL_ID, MESSAGE_ID.toString());
+
+    expect(receipt?.messageId).toBe(MESSAGE_ID.toString());
+    expect(messageBroadcastService.broadcastToUsers).not.toHaveBeenCalled();
+  });
+
+  it('should refuse users outside the chat and messages from other chats', async () => {
+    vi.mocked(screeningChatService.validateScreeningChatAccess).mockResolvedValue({ authorized: false });
+    await expect(service.markRead(PRIYA_ID, 'screening', APPLICATION_ID)).rejects.toThrow('Access denied');
+
+    vi.mocked(TeamMember.find).mockResolvedValue([{ userId: ARJUN_ID }] as never);
+    await expect(service.markRead(PRIYA_ID, 'group', CHANNEL_ID)).rejects.toThrow('not a team member');
+    vi.mocked(TeamMember.find).mockResolvedValue([{ userId: PRIYA_ID }, { userId: ARJUN_ID }] as never);
+
+    // A message from another channel of the same space is not in this one
+    vi.mocked(SpaceMessage.findOne).mockReturnValue(messageQuery(null));
+    await expect(service.markRead(PRIYA_ID, 'group', CHANNEL_ID, MESSAGE_ID.toString())).rejects.toThrow('Message not found');
+    expect(SpaceMessage.findOne).toHaveBeenCalledWith({ channelId: CHANNEL_ID, _id: MESSAGE_ID.toString() });
+
+    vi.mocked(SpaceChannel.findById).mockResolvedValue(null);
+    await expect(service.markRead(PRIYA_ID, 'group', CHANNEL_ID)).rejects.toThrow('Channel not found');
+
+    vi.mocked(screeningChatService.validateScreeningChatAccess).mockResolvedValue({
+      authorized: true,
+      participants: { founderId: PRIYA_ID, applicantId: ARJUN_ID },
+    });
+    vi.mocked(ScreeningMessage.findOne).mockReturnValue(messageQuery(null));
+    await expect(service.markRead(PRIYA_ID, 'screening', APPLICATION_ID, MESSAGE_ID.toString())).rejects.toThrow('Message not found');
+    await expect(service.markRead(PRIYA_ID, 'screening', APPLICATION_ID, 'not-an-id')).rejects.toThrow('Message not found');
+
+    expect(ReadCursor.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should count only messages from others after the cursor', async () => {
+    vi.mocked(ReadCursor.find).mockResolvedValue([{ ...cursorFor(PRIYA_ID), chat: 'screening', chatId: APPLICATION_ID }] as never);
+    vi.mocked(ScreeningMessage.countDocuments).mockResolvedValueOnce(3 as never).mockResolvedValueOnce(5 as never);
+    const otherApplicationId = '64b7f0c2a1b2c3d4e5f60722';
+
+    const counts = await service.getUnreadCounts(PRIYA_ID, 'screening', [APPLICATION_ID, otherApplicationId]);
+
+    expect(counts).toEqual({ [APPLICATION_ID]: 3, [otherApplicationId]: 5 });
+    expect(ScreeningMessage.countDocuments).toHaveBeenCalledWith({
+      applicationId: APPLICATION_ID,
+      senderId: { $ne: PRIYA_ID },
+      $or: [
+        { createdAt: { $gt: MESSAGE_AT } },
+        { createdAt: MESSAGE_AT, _id: { $gt: MESSAGE_ID } },
+      ],
+    });
+    // Nothing read yet in the other chat, so every message from the founder counts
+    expect(ScreeningMessage.countDocuments).toHaveBeenCalledWith({
+      applicationId: otherApplicationId,
+      senderId: { $ne: PRIYA_ID },
+    });
+  });
+
+  it('should count unread messages in one channel without the rest of the space or thread replies', async () => {
+    vi.mocked(ReadCursor.find).mockResolvedValue([] as never);
+    vi.mocked(SpaceMessage.countDocuments).mockResolvedValue(2 as never);
+
+    const counts = await service.getUnreadCounts(PRIYA_ID, 'group', [CHANNEL_ID]);
+
+    expect(counts).toEqual({ [CHANNEL_ID]: 2 });
+    expect(SpaceMessage.countDocuments).toHaveBeenCalledWith({
+      channelId: CHANNEL_ID,
+      parentMessageId: null,
+      senderId: { $ne: PRIYA_ID },
+    });
+  });
+
+  it('should move read positions kept per space to its #general', async () => {
+    const generalId = new mongoose.Types.ObjectId();
+    vi.mocked(ReadCursor.distinct).mockResolvedValue([SPACE_ID] as never);
+    vi.mocked(TeamSpace.find).mockResolvedValue([{ id: SPACE_ID, _id: SPACE_ID }] as never);
+    vi.mocked(channelService.getDefaultChannel).mockResolvedValue({ _id: generalId } as never);
+    vi.mocked(ReadCursor.find).mockResolvedValue([{ _id: 'cursor-1' }, { _id: 'cursor-2' }] as never);
+    vi.mocked(ReadCursor.updateOne)
+      .mockResolvedValueOnce({} as never)
+      .mockRejectedValueOnce(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+
+    const moved = await service.migrateLegacyCursors();
+
+    expect(moved).toBe(1);
+    expect(ReadCursor.find).toHaveBeenCalledWith({ chat: 'group', chatId: SPACE_ID });
+    expect(ReadCursor.updateOne).toHaveBeenCalledWith({ _id: 'cursor-1' }, { $set: { chatId: generalId } });
+    // The user has read #general since, so the older position is dropped
+    expect(ReadCursor.deleteOne).toHaveBeenCalledWith({ _id: 'cursor-2' });
+  });
+
+  it('should track direct conversations for their two participants only', async () => {
+    vi.mocked(DirectConversation.findById).mockResolvedValue({ participantIds: [PRIYA_ID, ARJUN_ID] } as never);
+    vi.mocked(DirectMessage.findOne).mockReturnValue(messageQuery({ _id: MESSAGE_ID, createdAt: MESSAGE_AT }));
+    vi.mocked(ReadCursor.findOneAndUpdate).mockResolvedValue({ ...cursorFor(PRIYA_ID), chat: 'direct', chatId: CONVERSATION_ID } as never);
+
+    await service.markRead(PRIYA_ID, 'direct', CONVERSATION_ID);
+
+    expect(DirectMessage.findOne).toHaveBeenCalledWith({ conversationId: CONVERSATION_ID });
+    expect(messageBroadcastService.broadcastToUsers).toHaveBeenCalledWith(
+      [PRIYA_ID, ARJUN_ID],
+      expect.objectContaining({ type: MessageType.READ_RECEIPT })
+    );
+
+    const outsiderId = '64b7f0c2a1b2c3d4e5f60724';
+    await expect(service.markRead(outsiderId, 'direct', CONVERSATION_ID)).rejects.toThrow('Access denied');
+  });
+});
@@ -0,0 +1,253 @@
+import mongoose from 'mongoose';
+import {
+  ReadCursor,
+  SpaceChannel,
+  SpaceMessage,
+  ScreeningMessage,
+  DirectConversation,
+  DirectMessage,
+  TeamSpace,
+  TeamMember,
+  IReadCursor,
+} from '../db/index.js';
+import { screeningChatService } from './ScreeningChatService.js';
+import { channelService } from './ChannelService.js';
+import { messageBroadcastService, MessageType } from './MessageBroadcastService.js';
+import { ChatKind, ReadReceiptPayload } from '../shared/realtimeProtocol.js';
+
+/**
+ * Where a message sits in a chat; messages are ordered by createdAt, ties broken by id
+ */
+interface MessagePosition {
+  _id: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+/**
+ * ReadCursorService tracks how far each user has read in their group, screening and direct chats
+ *
+ * A user has one cursor per chat pointing at the newest message they have read.
+ * Cursors only move forward, so a late request from a device showing older
+ * messages can't mark newer ones unread again. Every move is sent to everyone in
+ * the chat as a read receipt, including the reader's other devices.
+ * In Builder Spaces each channel has its own cursor, and only a channel's main chat
+ * counts; thread replies aren't tracked.
+ */
+export class ReadCursorService {
+  /**
+   * Mark a chat as read up to a message
+   *
+   * @param userId - The reader
+   * @param chat - 'group' for a Builder Space channel, 'screening' for a screening chat, 'direct' for a direct conversation
+   * @param chatId - Channel ID, application ID or conversation ID
+   * @param messageId - Newest message the user has seen; defaults to the newest message in the chat
+   * @returns The user's read cursor, or null if the chat has no messages yet
+   * @throws Error if the chat or message is not found or the user is not in the chat
+   */
+  async markRead(userId: string, chat: ChatKind, chatId: string, messageId?: string): Promise<ReadReceiptPayload | null> {
+    const participants = await this.getParticipants(userId, chat, chatId);
+
+    if (messageId && !mongoose.isValidObjectId(messageId)) {
+      throw new Error('Message not found');
+    }
+
+    const message = await this.findMessage(chat, chatId, messageId);
+    if (!message) {
+      if (messageId) {
+        throw new Error('Message not found');
+      }
+      return null;
+    }
+
+    let cursor: IReadCursor | null;
+    try {
+      cursor = await ReadCursor.findOneAndUpdate(
+        {
+          userId,
+          chat,
+          chatId,
+          $or: [
+            { lastReadMessageAt: { $lt: message.createdAt } },
+            { lastReadMessageAt: message.createdAt, lastReadMessageId: { $lt: message._id } },
+          ],
+        },
+        { lastReadMessageId: message._id, lastReadMessageAt: message.createdAt, readAt: new Date() },
+        { upsert: true, new: true }
+      );
+    } catch (error) {
+      // The cursor is already at or past this message, so the upsert collided with it
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+      cursor = await ReadCursor.findOne({ userId, chat, chatId });
+      return cursor ? this.toReceipt(cursor) : null;
+    }
+
+    const receipt = this.toReceipt(cursor!);
+    messageBroadcastService.broadcastToUsers(participants, {
+      type: MessageType.READ_RECEIPT,
+      payload: receipt,
+      timestamp: receipt.readAt,
+      senderId: userId,
+    });
+
+    return receipt;
+  }
+
+  /**
+   * Get how far everyone in a chat has read
+   *
+   * @param userId - The user asking, who must be in the chat
+   * @param chat - 'group', 'screening' or 'direct'
+   * @param chatId - Channel ID, application ID or conversation ID
+   * @returns One receipt per participant who has read anything
+   * @throws Error if the chat is not found or the user is not in the chat
+   */
+  async getReadReceipts(userId: string, chat: ChatKind, chatId: string): Promise<ReadReceiptPayload[]> {
+    await this.getParticipants(userId, chat, chatId);
+
+    const cursors = await ReadCursor.find({ chat, chatId });
+    return cursors.map(cursor => this.toReceipt(cursor));
+  }
+
+  /**
+   * Count the messages from other people a user hasn't read yet
+   * Callers pass chats the user is already known to be in
+   *
+   * @param userId - The reader
+   * @param chat - 'group', 'screening' or 'direct'
+   * @param chatIds - Channel IDs, application IDs or conversation IDs
+   * @returns Unread count per chat ID
+   */
+  async getUnreadCounts(userId: string, chat: ChatKind, chatIds: string[]): Promise<Record<string, number>> {
+    const cursors = await ReadCursor.find({ userId, chat, chatId: { $in: chatIds } });
+    const cursorByChat = new Map(cursors.map(cursor => [cursor.chatId.toString(), cursor]));
+
+    const counts = await Promise.all(chatIds.map(chatId => {
+      const cursor = cursorByChat.get(chatId);
+      const filter = {
+        senderId: { $ne: userId },
+        ...(cursor && {
+          $or: [
+            { createdAt: { $gt: cursor.lastReadMessageAt } },
+            { createdAt: cursor.lastReadMessageAt, _id: { $gt: cursor.lastReadMessageId } },
+          ],
+        }),
+      };
+
+      switch (chat) {
+        case ChatKind.GROUP:
+          return SpaceMessage.countDocuments({ channelId: chatId, parentMessageId: null, ...filter });
+        case ChatKind.DIRECT:
+          return DirectMessage.countDocuments({ conversationId: chatId, ...filter });
+        default:
+          return ScreeningMessage.countDocuments({ applicationId: chatId, ...filter });
+      }
+    }));
+
+    return Object.fromEntries(chatIds.map((chatId, index) => [chatId, counts[index]]));
+  }
+
+  /**
+   * Move read positions from before channels existed, which were kept per Builder Space, to each space's #general
+   * Safe to run repeatedly; it is run when the server starts
+   *
+   * @returns How many read positions were moved
+   */
+  async migrateLegacyCursors(): Promise<number> {
+    const spaces = await TeamSpace.find({ _id: { $in: await ReadCursor.distinct('chatId', { chat: ChatKind.GROUP }) } });
+    let moved = 0;
+
+    for (const space of spaces) {
+      const channel = await channelService.getDefaultChannel(space.id);
+      const cursors = await ReadCursor.find({ chat: ChatKind.GROUP, chatId: space._id });
+
+      for (const cursor of cursors) {
+        try {
+          await ReadCursor.updateOne({ _id: cursor._id }, { $set: { chatId: channel._id } });
+          moved++;
+        } catch (error) {
+          // The user has read #general since, which is the newer position
+          if ((error as { code?: number }).code !== 11000) {
+            throw error;
+          }
+          await ReadCursor.deleteOne({ _id: cursor._id });
+        }
+      }
+    }
+
+    return moved;
+  }
+
+  /**
+   * Everyone in a chat, after checking that the user is one of them
+   */
+  private async getParticipants(userId: string, chat: ChatKind, chatId: string): Promise<string[]> {
+    if (chat === ChatKind.SCREENING) {
+      const access = await screeningChatService.validateScreeningChatAccess(chatId, userId);
+      if (!access.authorized || !access.participants) {
+        throw new Error('Access denied: You are not authorized to access this screening chat');
+      }
+      return [access.participants.founderId, access.participants.applicantId];
+    }
+
+    if (chat === ChatKind.DIRECT) {
+      const conversation = mongoose.isValidObjectId(chatId) ? await DirectConversation.findById(chatId) : null;
+      if (!conversation) {
+        throw new Error('Conversation not found');
+      }
+
+      const participantIds = conversation.participantIds.map(id => id.toString());
+      if (!participantIds.includes(userId)) {
+        throw new Error('Access denied: You are not part of this conversation');
+      }
+      return participantIds;
+    }
+
+    const channel = mongoose.isValidObjectId(chatId) ? await SpaceChannel.findById(chatId) : null;
+    if (!channel) {
+      throw new Error('Channel not found');
+    }
+
+    const space = await TeamSpace.findById(channel.spaceId);
+    if (!space) {
+      throw new Error('Builder Space not found');
+    }
+
+    const members = await TeamMember.find({ postType: space.postType, postId: space.postId });
+    const memberIds = members.map(member => member.userId.toString());
+    if (!memberIds.includes(userId)) {
+      throw new Error('Access denied: User is not a team member');
+    }
+    return memberIds;
+  }
+
+  /**
+   * The given message, or the newest one in the main chat when no ID is given
+   */
+  private async findMessage(chat: ChatKind, chatId: string, messageId?: string): Promise<MessagePosition | null> {
+    const filter = messageId ? { _id: messageId } : chat === ChatKind.GROUP ? { parentMessageId: null } : {};
+    const newestFirst = { createdAt: -1, _id: -1 } as const;
+
+    switch (chat) {
+      case ChatKind.GROUP:
+        return SpaceMessage.findOne({ channelId: chatId, ...filter }).sort(newestFirst).select('_id createdAt').lean<MessagePosition>();
+      case ChatKind.DIRECT:
+        return DirectMessage.findOne({ conversationId: chatId, ...filter }).sort(newestFirst).select('_id createdAt').lean<MessagePosition>();
+      default:
+        return ScreeningMessage.findOne({ applicationId: chatId, ...filter }).sort(newestFirst).select('_id createdAt').lean<MessagePosition>();
+    }
+  }
+
+  private toReceipt(cursor: IReadCursor): ReadReceiptPayload {
+    return {
+      chat: cursor.chat,
+      chatId: cursor.chatId.toString(),
+      userId: cursor.userId.toString(),
+      messageId: cursor.lastReadMessageId.toString(),
+      readAt: cursor.readAt,
+    };
+  }
+}
+
+export const readCursorService = new ReadCursorService();
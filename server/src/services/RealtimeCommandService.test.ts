@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RealtimeCommandService } from './RealtimeCommandService.js';
+import { groupChatService } from './GroupChatService.js';
+import { screeningMessageService } from './ScreeningMessageService.js';
+import { directMessageService } from './DirectMessageService.js';
+import { taskService } from './TaskService.js';
+import { MessageType } from '../shared/realtimeProtocol.js';
+
+vi.mock('./GroupChatService.js', () => ({
+  groupChatService: { sendGroupMessage: vi.fn() },
+}));
+
+vi.mock('./ScreeningMessageService.js', () => ({
+  screeningMessageService: { sendScreeningMessage: vi.fn() },
+}));
+
+vi.mock('./DirectMessageService.js', () => ({
+  directMessageService: { sendDirectMessage: vi.fn() },
+}));
+
+vi.mock('./TaskService.js', () => ({
+  taskService: { moveTask: vi.fn() },
+}));
+
+const USER_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+describe('RealtimeCommandService', () => {
+  let service: RealtimeCommandService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new RealtimeCommandService();
+  });
+
+  it('should send messages as the authenticated user with the client id', async () => {
+    const sent = { id: 'msg-1', spaceId: 'space-1', content: 'hello' };
+    vi.mocked(groupChatService.sendGroupMessage).mockResolvedValue(sent as never);
+
+    const result = await service.execute(USER_ID, {
+      type: MessageType.SEND_GROUP_MESSAGE,
+      clientId: 'c-1',
+      payload: { spaceId: 'space-1', content: 'hello' },
+    });
+
+    expect(result).toBe(sent);
+    expect(groupChatService.sendGroupMessage).toHaveBeenCalledWith({
+      spaceId: 'space-1',
+      senderId: USER_ID,
+      content: 'hello',
+      clientId: 'c-1',
+    });
+  });
+
+  it('should route screening messages and task moves to their services', async () => {
+    await service.execute(USER_ID, {
+      type: MessageType.SEND_SCREENING_MESSAGE,
+      clientId: 'c-2',
+      payload: { applicationId: 'app-1', content: 'hi' },
+    });
+    await service.execute(USER_ID, {
+      type: MessageType.MOVE_TASK,
+      clientId: 'c-3',
+      payload: { spaceId: 'space-1', taskId: 'task-1', status: 'review', index: 0 },
+    });
+
+    expect(screeningMessageService.sendScreeningMessage).toHaveBeenCalledWith({
+      applicationId: 'app-1',
+      senderId: USER_ID,
+      content: 'hi',
+      clientId: 'c-2',
+    });
+    expect(taskService.moveTask).toHaveBeenCalledWith({
+      spaceId: 'space-1',
+      taskId: 'task-1',
+      userId: USER_ID,
+      status: 'review',
+      index: 0,
+    });
+  });
+
+  it('should route direct messages to the direct message service', async () => {
+    await service.execute(USER_ID, {
+      type: MessageType.SEND_DIRECT_MESSAGE,
+      clientId: 'c-5',
+      payload: { conversationId: 'conversation-1', content: 'hey' },
+    });
+
+    expect(directMessageService.sendDirectMessage).toHaveBeenCalledWith({
+      conversationId: 'conversation-1',
+      senderId: USER_ID,
+      content: 'hey',
+      clientId: 'c-5',
+    });
+  });
+
+  it('should pass on authorization errors but hide internal ones', async () => {
+    vi.mocked(groupChatService.sendGroupMessage)
+      .mockRejectedValueOnce(new Error('Access denied: You are not authorized to send messages in this Builder Space'))
+      .mockRejectedValueOnce(new Error('connection pool exhausted'));
+    const command = {
+      type: MessageType.SEND_GROUP_MESSAGE,
+      clientId: 'c-4',
+      payload: { spaceId: 'space-1', content: 'hello' },
+    } as const;
+
+    await expect(service.execute(USER_ID, command)).rejects.toThrow('Access denied');
+    await expect(service.execute(USER_ID, command)).rejects.toThrow('Internal server error');
+  });
+});
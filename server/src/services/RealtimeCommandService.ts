@@ -0,0 +1,79 @@
+import { groupChatService } from './GroupChatService.js';
+import { screeningMessageService } from './ScreeningMessageService.js';
+import { directMessageService } from './DirectMessageService.js';
+import { taskService } from './TaskService.js';
+import { MessageType, ClientCommand, ClientCommandType, CommandResults } from '../shared/realtimeProtocol.js';
+
+/**
+ * Errors whose message is meant for the user; anything else is reported as an internal error
+ */
+const USER_FACING_ERRORS = ['not found', 'Access denied', 'not authorized', 'not a member', 'empty', 'exceed', 'Invalid thread', 'Invalid task', 'has been deleted', 'is archived', 'is blocked'];
+
+/**
+ * RealtimeCommandService carries out commands clients send over the WebSocket
+ *
+ * Commands go through the same services as the REST endpoints, so authorization,
+ * validation and broadcasting to other users are identical. Each command has a
+ * client-generated id: messages are stored with it, so a command resent after a
+ * dropped ack (or sent again over REST) returns the original message, and task
+ * moves carry where the task ends up, so repeating one has no further effect.
+ */
+export class RealtimeCommandService {
+  /**
+   * Carry out a command on behalf of a user
+   *
+   * @param userId - Authenticated user who sent the command
+   * @param command - Validated command
+   * @returns What the command produced, sent back in the ack
+   * @throws Error with a message that can be shown to the user
+   */
+  async execute(userId: string, command: ClientCommand): Promise<CommandResults[ClientCommandType]> {
+    try {
+      switch (command.type) {
+        case MessageType.SEND_GROUP_MESSAGE:
+          return await groupChatService.sendGroupMessage({
+            spaceId: command.payload.spaceId,
+            senderId: userId,
+            content: command.payload.content,
+            clientId: command.clientId,
+            channelId: command.payload.channelId,
+            parentMessageId: command.payload.parentMessageId,
+          });
+
+        case MessageType.SEND_SCREENING_MESSAGE:
+          return await screeningMessageService.sendScreeningMessage({
+            applicationId: command.payload.applicationId,
+            senderId: userId,
+            content: command.payload.content,
+            clientId: command.clientId,
+          });
+
+        case MessageType.SEND_DIRECT_MESSAGE:
+          return await directMessageService.sendDirectMessage({
+            conversationId: command.payload.conversationId,
+            senderId: userId,
+            content: command.payload.content,
+            clientId: command.clientId,
+          });
+
+        case MessageType.MOVE_TASK:
+          return await taskService.moveTask({
+            spaceId: command.payload.spaceId,
+            taskId: command.payload.taskId,
+            userId,
+            status: command.payload.status,
+            index: command.payload.index,
+          });
+      }
+    } catch (error) {
+      console.error(`Realtime command ${command.type} error:`, error);
+      const message = error instanceof Error ? error.message : '';
+      if (USER_FACING_ERRORS.some((fragment) => message.includes(fragment))) {
+        throw error;
+      }
+      throw new Error('Internal server error');
+    }
+  }
+}
+
+export const realtimeCommandService = new RealtimeCommandService();
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RefreshTokenService } from './RefreshTokenService.js';
+import { RefreshToken, User } from '../db/index.js';
+import { generateTokens, verifyRefreshToken, hashToken } from '../utils/jwt.js';
+
+vi.mock('../db/index.js', () => ({
+  RefreshToken: {
+    create: vi.fn(),
+    deleteOne: vi.fn(),
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    updateOne: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  User: {
+    findById: vi.fn(),
+  },
+}));
+
+describe('RefreshTokenService', () => {
+  let service: RefreshTokenService;
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-secret';
+    service = new RefreshTokenService();
+    vi.clearAllMocks();
+    vi.mocked(User.findById).mockReturnValue({
+      select: vi.fn().mockResolvedValue({ _id: 'user-1', email: 'user@test.com' }),
+    } as never);
+  });
+
+  describe('createSession', () => {
+    it('should store only the hash of the issued refresh token', async () => {
+      const { accessToken, refreshToken } = await service.createSession('user-1', 'user@test.com');
+
+      expect(accessToken).toBeTruthy();
+      const payload = verifyRefreshToken(refreshToken);
+      expect(payload.userId).toBe('user-1');
+
+      expect(RefreshToken.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-1',
+          tokenHash: hashToken(refreshToken),
+          familyId: payload.familyId,
+        })
+      );
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('should revoke the presented token and issue a successor in the same family', async () => {
+      const { refreshToken, familyId } = generateTokens('user-1', 'user@test.com');
+
+      vi.mocked(RefreshToken.findOneAndUpdate).mockResolvedValue({ userId: 'user-1', familyId } as never);
+
+      const rotated = await service.rotateRefreshToken(refreshToken);
+
+      expect(rotated.refreshToken).not.toBe(refreshToken);
+      expect(verifyRefreshToken(rotated.refreshToken).familyId).toBe(familyId);
+      expect(RefreshToken.create).toHaveBeenCalledWith(
+        expect.objectContaining({ tokenHash: hashToken(rotated.refreshToken), familyId })
+      );
+      expect(RefreshToken.findOneAndUpdate).toHaveBeenCalledWith(
+        { tokenHash: hashToken(refreshToken), revokedAt: { $exists: false } },
+        { $set: expect.objectContaining({ replacedByHash: hashToken(rotated.refreshToken) }) },
+        expect.anything()
+      );
+      expect(RefreshToken.deleteOne).not.toHaveBeenCalled();
+    });
+
+    describe('when the token was just rotated', () => {
+      // Rotates the token once and returns what the claim stored for it
+      const rotateOnce = async (refreshToken: string) => {
+        vi.mocked(RefreshToken.findOneAndUpdate).mockResolvedValueOnce({} as never);
+        const rotated = await service.rotateRefreshToken(refreshToken);
+        const [, update] = vi.mocked(RefreshToken.findOneAndUpdate).mock.calls[0] as unknown as [
+          unknown,
+          { $set: { revokedAt: Date; replacedByHash: string; sealedSuccessor: string } },
+        ];
+        return { rotated, stored: update.$set };
+      };
+
+      it('should hand out the same successor again, e.g. to a second tab', async () => {
+        const { refreshToken, familyId } = generateTokens('user-1', 'user@test.com');
+        const { rotated, stored } = await rotateOnce(refreshToken);
+
+        vi.mocked(RefreshToken.findOneAndUpdate).mockResolvedValue(null);
+        vi.mocked(RefreshToken.findOne)
+          .mockResolvedValueOnce({ userId: 'user-1', familyId, ...stored } as never)
+          .mockResolvedValueOnce({ tokenHash: stored.replacedByHash } as never);
+
+        const again = await service.rotateRefreshToken(refreshToken);
+
+        expect(again.refreshToken).toBe(rotated.refreshToken);
+        expect(again.accessToken).toBeTruthy();
+        expect(RefreshToken.findOne).toHaveBeenLastCalledWith({
+          tokenHash: stored.replacedByHash,
+          revokedAt: { $exists: false },
+        });
+        // The successor minted for the second attempt is thrown away
+        expect(RefreshToken.deleteOne).toHaveBeenCalledTimes(1);
+        expect(RefreshToken.updateMany).not.toHaveBeenCalled();
+      });
+
+      it('should treat it as reuse once the grace period is over', async () => {
+        const { refreshToken, familyId } = generateTokens('user-1', 'user@test.com');
+        const { stored } = await rotateOnce(refreshToken);
+
+        vi.mocked(RefreshToken.findOneAndUpdate).mockResolvedValue(null);
+        vi.mocked(RefreshToken.findOne).mockResolvedValueOnce({
+          userId: 'user-1',
+          familyId,
+          ...stored,
+          revokedAt: new Date(Date.now() - 11 * 1000),
+        } as never);
+
+        await expect(service.rotateRefreshToken(refreshToken)).rejects.toThrow('reuse detected');
+        expect(RefreshToken.updateMany).toHaveBeenCalledWith(
+          { familyId, revokedAt: { $exists: false } },
+          expect.anything()
+        );
+      });
+
+      it('should treat it as reuse when the successor was revoked', async () => {
+        const { refreshToken, familyId } = generateTokens('user-1', 'user@test.com');
+        const { stored } = await rotateOnce(refreshToken);
+
+        vi.mocked(RefreshToken.findOneAndUpdate).mockResolvedValue(null);
+        vi.mocked(RefreshToken.findOne)
+          .mockResolvedValueOnce({ userId: 'user-1', familyId, ...stored } as never)
+          .mockResolvedValueOnce(null);
+
+        await expect(service.rotateRefreshToken(refreshToken)).rejects.toThrow('reuse detected');
+      });
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      const { refreshToken, familyId } = generateTokens('user-1', 'user@test.com');
+
+      vi.mocked(RefreshToken.findOneAndUpdate).mockResolvedValue(null);
+      vi.mocked(RefreshToken.findOne).mockResolvedValue({ userId: 'user-1', familyId } as never);
+
+      await expect(service.rotateRefreshToken(refreshToken)).rejects.toThrow('reuse detected');
+      expect(RefreshToken.updateMany).toHaveBeenCalledWith(
+        { familyId, revokedAt: { $exists: false } },
+        expect.anything()
+      );
+    });
+
+    it('should reject tokens that were never issued', async () => {
+      const { refreshToken } = generateTokens('user-1', 'user@test.com');
+
+      vi.mocked(RefreshToken.findOneAndUpdate).mockResolvedValue(null);
+      vi.mocked(RefreshToken.findOne).mockResolvedValue(null);
+
+      await expect(service.rotateRefreshToken(refreshToken)).rejects.toThrow('Invalid refresh token');
+      expect(RefreshToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject access tokens', async () => {
+      const { accessToken } = generateTokens('user-1', 'user@test.com');
+
+      await expect(service.rotateRefreshToken(accessToken)).rejects.toThrow('Invalid refresh token');
+      expect(RefreshToken.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeRefreshToken', () => {
+    it('should revoke the token by its hash', async () => {
+      await service.revokeRefreshToken('some-token');
+
+      expect(RefreshToken.updateOne).toHaveBeenCalledWith(
+        { tokenHash: hashToken('some-token'), revokedAt: { $exists: false } },
+        expect.anything()
+      );
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { RefreshToken, User, IRefreshToken } from '../db/index.js';
+import {
+  generateAccessToken,
+  generateTokens,
+  verifyRefreshToken,
+  hashToken,
+  REFRESH_TOKEN_TTL_MS,
+} from '../utils/jwt.js';
+
+// How long a rotated token still gets its successor, e.g. when two browser tabs refresh at once
+const ROTATION_GRACE_MS = 10 * 1000;
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// The key to a token's sealed successor is derived from the token, so the database alone cannot open it
+const successorKey = (refreshToken: string) =>
+  crypto.createHash('sha256').update(`successor:${refreshToken}`).digest();
+
+const sealSuccessor = (successor: string, refreshToken: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', successorKey(refreshToken), iv);
+  const sealed = Buffer.concat([cipher.update(successor, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), sealed].map(part => part.toString('base64url')).join('.');
+};
+
+const openSuccessor = (sealedSuccessor: string, refreshToken: string): string | null => {
+  try {
+    const [iv, tag, sealed] = sealedSuccessor.split('.').map(part => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', successorKey(refreshToken), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(sealed), decipher.final()]).toString('utf8');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * RefreshTokenService issues, rotates and revokes refresh tokens
+ *
+ * Every refresh token belongs to a family that starts at login. Each use of a
+ * refresh token revokes it and issues a successor in the same family. If a token
+ * that was already rotated is presented again, it has most likely been stolen,
+ * so the whole family is revoked and the user must sign in again. The exception is
+ * a token rotated in the last few seconds whose successor is still valid: that is
+ * usually another tab refreshing with the same cookie, so it gets the same successor.
+ *
+ * Only a SHA-256 hash of each token is stored, along with its successor encrypted
+ * with a key derived from the token itself.
+ */
+export class RefreshTokenService {
+  /**
+   * Start a new session for a user
+   *
+   * @param userId - The ID of the user
+   * @param email - The email of the user
+   * @returns A fresh access token and refresh token pair
+   */
+  async createSession(userId: string, email: string): Promise<SessionTokens> {
+    const { accessToken, refreshToken, familyId } = generateTokens(userId, email);
+    await this.storeToken(userId, refreshToken, familyId);
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   * The presented token is revoked and replaced by a new one in the same family
+   *
+   * @param refreshToken - The refresh token presented by the client
+   * @returns A new access token and refresh token pair
+   * @throws Error if the token is invalid, expired, revoked or reused
+   */
+  async rotateRefreshToken(refreshToken: string): Promise<SessionTokens> {
+    let payload;
+    try {
+      payload = verifyRefreshToken(refreshToken);
+    } catch {
+      throw new Error('Invalid refresh token');
+    }
+
+    const user = await User.findById(payload.userId).select('_id email');
+
+    if (!user) {
+      await this.revokeFamily(payload.familyId);
+      throw new Error('User not found');
+    }
+
+    const userId = user._id.toString();
+    const tokenHash = hashToken(refreshToken);
+
+    // The successor is stored first, so a refresh racing this one finds it as soon as the token is claimed
+    const tokens = generateTokens(userId, user.email, payload.familyId);
+    const nextHash = await this.storeToken(userId, tokens.refreshToken, payload.familyId);
+
+    // Atomically claim the token so two concurrent refreshes cannot both rotate it
+    const claimed = await RefreshToken.findOneAndUpdate(
+      { tokenHash, revokedAt: { $exists: false } },
+      {
+        $set: {
+          revokedAt: new Date(),
+          replacedByHash: nextHash,
+          sealedSuccessor: sealSuccessor(tokens.refreshToken, refreshToken),
+        },
+      },
+      { new: true }
+    );
+
+    if (claimed) {
+      return { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken };
+    }
+
+    await RefreshToken.deleteOne({ tokenHash: nextHash });
+    const existing = await RefreshToken.findOne({ tokenHash });
+
+    if (!existing) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const successor = await this.findRecentSuccessor(existing, refreshToken);
+    if (successor) {
+      return { accessToken: generateAccessToken(userId, user.email), refreshToken: successor };
+    }
+
+    // The token was already used or revoked: treat it as stolen
+    await this.revokeFamily(existing.familyId);
+    console.warn(`⚠️ Refresh token reuse detected for user ${existing.userId}, family ${existing.familyId} revoked`);
+    throw new Error('Refresh token reuse detected');
+  }
+
+  /**
+   * Revoke a single refresh token (e.g. on logout)
+   * Unknown or malformed tokens are ignored
+   *
+   * @param refreshToken - The refresh token to revoke
+   */
+  async revokeRefreshToken(refreshToken: string): Promise<void> {
+    await RefreshToken.updateOne(
+      { tokenHash: hashToken(refreshToken), revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Revoke every refresh token in a token family
+   *
+   * @param familyId - The token family ID
+   */
+  async revokeFamily(familyId: string): Promise<void> {
+    await RefreshToken.updateMany(
+      { familyId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Revoke every outstanding refresh token of a user, signing them out everywhere
+   *
+   * @param userId - The ID of the user
+   */
+  async revokeAllForUser(userId: string): Promise<void> {
+    await RefreshToken.updateMany(
+      { userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+  }
+
+  /**
+   * The successor of a token rotated within the grace period, if it is still valid
+   * Tokens revoked by logout or a family revocation have none
+   */
+  private async findRecentSuccessor(token: IRefreshToken, refreshToken: string): Promise<string | null> {
+    if (!token.revokedAt || !token.replacedByHash || !token.sealedSuccessor) {
+      return null;
+    }
+    if (Date.now() - token.revokedAt.getTime() > ROTATION_GRACE_MS) {
+      return null;
+    }
+
+    const successor = await RefreshToken.findOne({ tokenHash: token.replacedByHash, revokedAt: { $exists: false } });
+    return successor ? openSuccessor(token.sealedSuccessor, refreshToken) : null;
+  }
+
+  /**
+   * Persist the hash of a refresh token
+   *
+   * @returns The stored token hash
+   */
+  private async storeToken(userId: string, refreshToken: string, familyId: string): Promise<string> {
+    const tokenHash = hashToken(refreshToken);
+    await RefreshToken.create({
+      userId,
+      tokenHash,
+      familyId,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    });
+    return tokenHash;
+  }
+}
+
+export const refreshTokenService = new RefreshTokenService();
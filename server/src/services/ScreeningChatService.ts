@@ -20,12 +20,14 @@ export interface ScreeningChatDetails {
     name: string;
     email: string;
     avatar?: string;
+    lastSeenAt?: Date;
   };
   applicant?: {
     id: string;
     name: string;
     email: string;
     avatar?: string;
+    lastSeenAt?: Date;
   };
   application?: {
     post?: {
@@ -163,12 +165,14 @@ export class ScreeningChatService {
         name: founderUser.name,
         email: founderUser.email,
         avatar: founderUser.avatar || undefined,
+        lastSeenAt: founderUser.lastSeenAt,
       } : undefined,
       applicant: applicantUser ? {
         id: applicantUser.id,
         name: applicantUser.name,
         email: applicantUser.email,
         avatar: applicantUser.avatar || undefined,
+        lastSeenAt: applicantUser.lastSeenAt,
       } : undefined,
       application: {
         post: {
@@ -245,17 +249,11 @@ export class ScreeningChatService {
         ]);
 
         // Get last message for this chat
-        const lastMessage = await ScreeningMessage.findOne({ chatId: app.id || app._id })
+        const lastMessage = await ScreeningMessage.findOne({ applicationId: app.id || app._id })
           .sort({ createdAt: -1 })
           .limit(1)
           .lean();
 
-        // Get unread message count (messages sent by the other person)
-        const unreadCount = await ScreeningMessage.countDocuments({
-          chatId: app.id || app._id,
-          senderId: { $ne: userId }
-        });
-
         return {
           id: app.id || app._id.toString(),
           applicationId: app.id || app._id.toString(),
@@ -285,11 +283,11 @@ export class ScreeningChatService {
             },
           },
           lastMessage: lastMessage ? {
-            content: lastMessage.content,
+            content: lastMessage.deletedAt ? '' : lastMessage.content,
             createdAt: lastMessage.createdAt,
+            deletedAt: lastMessage.deletedAt ?? null,
             senderId: lastMessage.senderId,
           } : undefined,
-          unreadCount,
         };
       })
     );
@@ -1,7 +1,10 @@
-import { ScreeningMessage, Application, User } from '../db/index.js';
+import mongoose from 'mongoose';
+import { ScreeningMessage, Application, User, IScreeningMessage } from '../db/index.js';
 import { ScreeningChatService } from './ScreeningChatService.js';
 import { messageBroadcastService, MessageType } from './MessageBroadcastService.js';
-import DOMPurify from 'isomorphic-dompurify';
+import { MessagePage, MessagePageQuery, buildMessagePageQuery, toMessagePage } from '../utils/messagePagination.js';
+import { getEditableUntil, isWithinEditWindow } from '../utils/messageEditWindow.js';
+import { sanitizeContent } from '../utils/markdown.js';
 
 export interface ScreeningMessage {
   id: string;
@@ -9,6 +12,11 @@ export interface ScreeningMessage {
   senderId: string;
   senderName: string;
   content: string;
+  editedAt?: Date | null;
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
+  // Until when the sender may still edit or delete the message
+  editableUntil?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -17,6 +25,14 @@ export interface SendMessageParams {
   applicationId: string;
   senderId: string;
   content: string;
+  // Client-generated id; sending again with the same id returns the first message
+  clientId?: string;
+}
+
+export interface ChangeMessageParams {
+  applicationId: string;
+  messageId: string;
+  userId: string;
 }
 
 export class ScreeningMessageService {
@@ -26,42 +42,6 @@ export class ScreeningMessageService {
     this.screeningChatService = new ScreeningChatService();
   }
 
-  /**
-   * Validate and sanitize message content
-   * Removes potentially harmful content and ensures message is not empty
-   * 
-   * @param content - The raw message content
-   * @returns Sanitized content
-   * @throws Error if content is empty after sanitization
-   */
-  private validateAndSanitizeContent(content: string): string {
-    // Trim whitespace
-    const trimmed = content.trim();
-
-    if (!trimmed) {
-      throw new Error('Message content cannot be empty');
-    }
-
-    // Sanitize HTML/XSS content
-    const sanitized = DOMPurify.sanitize(trimmed, {
-      ALLOWED_TAGS: [], // Strip all HTML tags
-      ALLOWED_ATTR: [], // Strip all attributes
-      KEEP_CONTENT: true, // Keep text content
-    });
-
-    if (!sanitized.trim()) {
-      throw new Error('Message content cannot be empty after sanitization');
-    }
-
-    // Limit message length
-    const maxLength = 5000;
-    if (sanitized.length > maxLength) {
-      throw new Error(`Message content cannot exceed ${maxLength} characters`);
-    }
-
-    return sanitized;
-  }
-
   /**
    * Send a screening message with authorization check
    * Only authorized participants (founder and applicant) can send messages
@@ -71,7 +51,7 @@ export class ScreeningMessageService {
    * @throws Error if unauthorized or validation fails
    */
   async sendScreeningMessage(params: SendMessageParams): Promise<ScreeningMessage> {
-    const { applicationId, senderId, content } = params;
+    const { applicationId, senderId, content, clientId } = params;
 
     // Validate authorization - only founder and applicant can send messages
     const authCheck = await this.screeningChatService.validateScreeningChatAccess(
@@ -84,7 +64,7 @@ export class ScreeningMessageService {
     }
 
     // Validate and sanitize content
-    const sanitizedContent = this.validateAndSanitizeContent(content);
+    const sanitizedContent = sanitizeContent(content);
 
     // Get sender information
     const sender = await User.findById(senderId);
@@ -93,12 +73,29 @@ export class ScreeningMessageService {
       throw new Error('Sender not found');
     }
 
+    // A retried send must not post the message twice
+    const alreadySent = await this.findSentMessage(senderId, clientId);
+    if (alreadySent) {
+      return this.toScreeningMessage(alreadySent, sender.name);
+    }
+
     // Create message
-    const message = await ScreeningMessage.create({
-      applicationId,
-      senderId,
-      content: sanitizedContent,
-    });
+    let message;
+    try {
+      message = await ScreeningMessage.create({
+        applicationId,
+        senderId,
+        content: sanitizedContent,
+        clientId,
+      });
+    } catch (error) {
+      // The same send arrived twice at once and the other copy was stored first
+      const sentConcurrently = (error as { code?: number }).code === 11000 ? await this.findSentMessage(senderId, clientId) : null;
+      if (!sentConcurrently) {
+        throw error;
+      }
+      return this.toScreeningMessage(sentConcurrently, sender.name);
+    }
 
     const messageData: ScreeningMessage = {
       id: message.id,
@@ -107,6 +104,7 @@ export class ScreeningMessageService {
       senderName: sender.name,
       content: sanitizedContent,
       createdAt: message.createdAt,
+      editableUntil: getEditableUntil(message.createdAt),
       updatedAt: message.updatedAt,
     };
 
@@ -128,15 +126,178 @@ export class ScreeningMessageService {
   }
 
   /**
-   * Get screening message history with authorization check
-   * Returns messages in chronological order (oldest first)
+   * Find a message the sender already sent with this client id
+   */
+  private async findSentMessage(senderId: string, clientId?: string) {
+    return clientId ? ScreeningMessage.findOne({ senderId, clientId }) : null;
+  }
+
+  private toScreeningMessage(message: IScreeningMessage, senderName: string): ScreeningMessage {
+    return {
+      id: message.id,
+      applicationId: message.applicationId.toString(),
+      senderId: message.senderId.toString(),
+      senderName,
+      // Deleted messages keep their content for audit but it is never sent out
+      content: message.deletedAt ? '' : message.content,
+      editedAt: message.editedAt ?? null,
+      deletedAt: message.deletedAt ?? null,
+      deletedBy: message.deletedBy?.toString() ?? null,
+      editableUntil: getEditableUntil(message.createdAt),
+      createdAt: message.createdAt,
+      updatedAt: message.updatedAt,
+    };
+  }
+
+  /**
+   * Edit a screening message
+   * Only the sender can edit, within the edit window; the previous content is kept in the edit history
+   * 
+   * @param params - Chat, message and editing user, plus the new content
+   * @returns The edited message
+   * @throws Error if unauthorized, the window has passed, the message is deleted or validation fails
+   */
+  async editScreeningMessage(params: ChangeMessageParams & { content: string }): Promise<ScreeningMessage> {
+    const { applicationId, messageId, userId, content } = params;
+
+    const { message, participants } = await this.findOwnMessageForChange(applicationId, messageId, userId);
+
+    if (message.deletedAt) {
+      throw new Error('Message has been deleted');
+    }
+
+    const sanitizedContent = sanitizeContent(content);
+    const sender = await User.findById(userId);
+    const senderName = sender?.name || 'Unknown User';
+
+    if (sanitizedContent === message.content) {
+      return this.toScreeningMessage(message, senderName);
+    }
+
+    // Only replace the content that was read, so two edits at once can't lose a revision
+    const editedAt = new Date();
+    const edited = await ScreeningMessage.findOneAndUpdate(
+      { _id: message._id, content: message.content, deletedAt: { $exists: false } },
+      {
+        $set: { content: sanitizedContent, editedAt },
+        $push: { editHistory: { content: message.content, editedAt } },
+      },
+      { new: true }
+    );
+
+    if (!edited) {
+      throw new Error('Message was changed by someone else, reload and try again');
+    }
+
+    const messageData = this.toScreeningMessage(edited, senderName);
+    this.broadcastUpdate(participants, messageData, editedAt, userId);
+    return messageData;
+  }
+
+  /**
+   * Delete a screening message
+   * Only the sender can delete, within the edit window. The message is kept for audit and shown as deleted.
+   * 
+   * @param params - Chat, message and deleting user
+   * @returns The deleted message, with its content removed
+   * @throws Error if unauthorized or the window has passed
+   */
+  async deleteScreeningMessage(params: ChangeMessageParams): Promise<ScreeningMessage> {
+    const { applicationId, messageId, userId } = params;
+
+    const { message, participants } = await this.findOwnMessageForChange(applicationId, messageId, userId);
+    const sender = await User.findById(userId);
+    const senderName = sender?.name || 'Unknown User';
+
+    if (message.deletedAt) {
+      return this.toScreeningMessage(message, senderName);
+    }
+
+    const deletedAt = new Date();
+    const deleted = await ScreeningMessage.findOneAndUpdate(
+      { _id: message._id, deletedAt: { $exists: false } },
+      { $set: { deletedAt, deletedBy: userId } },
+      { new: true }
+    );
+
+    // Deleted from another tab first
+    if (!deleted) {
+      const current = await ScreeningMessage.findById(message._id);
+      return this.toScreeningMessage(current ?? message, senderName);
+    }
+
+    const messageData = this.toScreeningMessage(deleted, senderName);
+    this.broadcastUpdate(participants, messageData, deletedAt, userId);
+    return messageData;
+  }
+
+  /**
+   * Load one of the user's own messages in a screening chat, checking it can still be changed
+   */
+  private async findOwnMessageForChange(applicationId: string, messageId: string, userId: string) {
+    const authCheck = await this.screeningChatService.validateScreeningChatAccess(
+      applicationId,
+      userId
+    );
+
+    if (!authCheck.authorized || !authCheck.participants) {
+      throw new Error('Access denied: You are not authorized to change messages in this screening chat');
+    }
+
+    const message = mongoose.isValidObjectId(messageId)
+      ? await ScreeningMessage.findOne({ _id: messageId, applicationId })
+      : null;
+
+    if (!message) {
+      throw new Error('Message not found');
+    }
+    if (message.senderId.toString() !== userId) {
+      throw new Error('Access denied: You can only change your own messages');
+    }
+    if (!message.deletedAt && !isWithinEditWindow(message.createdAt)) {
+      throw new Error('Access denied: The edit window for this message has passed');
+    }
+
+    return { message, participants: authCheck.participants };
+  }
+
+  /**
+   * Send an edited or deleted message to both participants, so open chats update in place
+   */
+  private broadcastUpdate(
+    participants: { founderId: string; applicantId: string },
+    messageData: ScreeningMessage,
+    timestamp: Date,
+    userId: string
+  ): void {
+    messageBroadcastService.broadcastScreeningMessage(
+      messageData.applicationId,
+      participants.founderId,
+      participants.applicantId,
+      {
+        type: MessageType.SCREENING_MESSAGE_UPDATED,
+        payload: messageData,
+        timestamp,
+        senderId: userId,
+      }
+    );
+  }
+
+  /**
+   * Get a page of screening message history with authorization check
+   * Without a cursor this is the newest page; each page is in chronological order (oldest first)
    * 
    * @param applicationId - The ID of the screening chat (application)
    * @param userId - The ID of the user requesting messages
-   * @returns Array of messages with sender information
-   * @throws Error if unauthorized
+   * @param page - Optional before/after cursor and page size
+   * @returns Page of messages with sender information
+   * @throws Error if unauthorized or the cursor is invalid
    */
-  async getScreeningMessages(applicationId: string, userId: string): Promise<ScreeningMessage[]> {
+  async getScreeningMessages(
+    applicationId: string,
+    userId: string,
+    page: MessagePageQuery = {}
+  ): Promise<MessagePage<ScreeningMessage>> {
     // Validate authorization - only founder and applicant can view messages
     const authCheck = await this.screeningChatService.validateScreeningChatAccess(
       applicationId,
@@ -148,17 +309,23 @@ export class ScreeningMessageService {
     }
 
     // Get messages with sender information
-    const messages = await ScreeningMessage.find({ applicationId })
+    const { filter, sort, fetchLimit } = buildMessagePageQuery(page);
+    const messages = await ScreeningMessage.find({ applicationId, ...filter })
       .populate('senderId', 'name')
-      .sort({ createdAt: 1 }) // Chronological order (oldest first)
+      .sort(sort)
+      .limit(fetchLimit)
       .lean();
 
-    return messages.map((msg: any) => ({
+    return toMessagePage(messages, page, (msg: any) => ({
       id: msg.id || msg._id.toString(),
       applicationId: msg.applicationId,
       senderId: msg.senderId?._id?.toString() || msg.senderId,
       senderName: msg.senderId?.name || 'Unknown User',
-      content: msg.content,
+      content: msg.deletedAt ? '' : msg.content,
+      editedAt: msg.editedAt ?? null,
+      deletedAt: msg.deletedAt ?? null,
+      deletedBy: msg.deletedBy?.toString() ?? null,
+      editableUntil: getEditableUntil(msg.createdAt),
       createdAt: msg.createdAt,
       updatedAt: msg.updatedAt,
     }));
@@ -200,7 +367,11 @@ export class ScreeningMessageService {
       applicationId: message.applicationId.toString(),
       senderId: (message.senderId as any)?._id?.toString() || message.senderId,
       senderName: (message.senderId as any)?.name || 'Unknown User',
-      content: message.content,
+      content: message.deletedAt ? '' : message.content,
+      editedAt: message.editedAt ?? null,
+      deletedAt: message.deletedAt ?? null,
+      deletedBy: message.deletedBy?.toString() ?? null,
+      editableUntil: getEditableUntil(message.createdAt),
       createdAt: message.createdAt,
       updatedAt: message.updatedAt,
     };
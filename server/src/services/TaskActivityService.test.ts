@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { TaskActivityService } from './TaskActivityService.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { SpaceTask, TaskActivity, TeamSpace, User } from '../db/index.js';
+import { PRIYA_ID, MARCUS_ID, SPACE_ID, TASK_ID, CREATED_AT, storedSpace } from '../tests/fixtures.js';
+
+vi.mock('../db/index.js', () => ({
+  SpaceTask: {
+    findOne: vi.fn(),
+  },
+  TaskActivity: {
+    create: vi.fn(),
+    find: vi.fn(),
+  },
+  TeamSpace: {
+    findById: vi.fn(),
+  },
+  User: {
+    find: vi.fn(),
+  },
+}));
+
+const ACTIVITY_ID = '64b7f0c2a1b2c3d4e5f607a0';
+
+const task = { _id: TASK_ID, spaceId: new mongoose.Types.ObjectId(SPACE_ID) };
+
+describe('TaskActivityService', () => {
+  let service: TaskActivityService;
+  let isMember: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    isMember = vi.spyOn(BuilderSpaceService.prototype, 'validateTeamMemberAccess').mockResolvedValue(true);
+    vi.mocked(SpaceTask.findOne).mockResolvedValue(task as never);
+    vi.mocked(TeamSpace.findById).mockResolvedValue(storedSpace() as never);
+    service = new TaskActivityService();
+  });
+
+  it('should keep the names assignees had when they were assigned', async () => {
+    vi.mocked(User.find).mockResolvedValue([{ id: MARCUS_ID, name: 'Marcus Lee' }] as never);
+
+    await service.record({ task: task as never, actorId: PRIYA_ID, action: 'assigned', addedAssigneeIds: [MARCUS_ID, PRIYA_ID] });
+
+    expect(TaskActivity.create).toHaveBeenCalledWith(expect.objectContaining({
+      taskId: TASK_ID,
+      actorId: PRIYA_ID,
+      action: 'assigned',
+      addedAssignees: [{ userId: MARCUS_ID, name: 'Marcus Lee' }, { userId: PRIYA_ID, name: 'Unknown User' }],
+      removedAssignees: [],
+    }));
+  });
+
+  it('should not look anyone up for entries without assignees', async () => {
+    await service.record({ task: task as never, actorId: PRIYA_ID, action: 'status_changed', fromStatus: 'todo', toStatus: 'review' });
+
+    expect(User.find).not.toHaveBeenCalled();
+    expect(TaskActivity.create).toHaveBeenCalledWith(expect.objectContaining({ fromStatus: 'todo', toStatus: 'review', fields: [] }));
+  });
+
+  it('should list a task\'s history oldest first, for team members only', async () => {
+    const entry = {
+      id: ACTIVITY_ID,
+      taskId: new mongoose.Types.ObjectId(TASK_ID),
+      spaceId: new mongoose.Types.ObjectId(SPACE_ID),
+      actorId: { _id: new mongoose.Types.ObjectId(PRIYA_ID), name: 'Priya Sharma' },
+      action: 'edited',
+      addedAssignees: [],
+      removedAssignees: [],
+      fields: ['title'],
+      createdAt: CREATED_AT,
+    };
+    const sort = vi.fn().mockResolvedValue([entry]);
+    vi.mocked(TaskActivity.find).mockReturnValue({ populate: () => ({ sort }) } as never);
+
+    const [activity] = await service.listActivity(SPACE_ID, TASK_ID, PRIYA_ID);
+
+    expect(sort).toHaveBeenCalledWith({ createdAt: 1, _id: 1 });
+    expect(activity).toMatchObject({ actorName: 'Priya Sharma', action: 'edited', fields: ['title'], fromStatus: null });
+
+    isMember.mockResolvedValue(false);
+    await expect(service.listActivity(SPACE_ID, TASK_ID, MARCUS_ID)).rejects.toThrow('not a member');
+  });
+});
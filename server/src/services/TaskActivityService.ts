@@ -0,0 +1,113 @@
+import mongoose from 'mongoose';
+import { SpaceTask, TaskActivity, User, ISpaceTask, ITaskActivity } from '../db/index.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { TaskActivityPayload, TaskStatus } from '../shared/realtimeProtocol.js';
+
+export interface RecordActivityParams {
+  task: ISpaceTask;
+  actorId: string;
+  action: ITaskActivity['action'];
+  fromStatus?: TaskStatus;
+  toStatus?: TaskStatus;
+  addedAssigneeIds?: string[];
+  removedAssigneeIds?: string[];
+  // The fields an edit changed, like title or checklist
+  fields?: string[];
+}
+
+/**
+ * TaskActivityService keeps the history of each task: who created it, changed its
+ * status, reassigned it or edited it, and when
+ *
+ * Entries are only ever added. Assignees are stored with the names they had at the
+ * time, so the history reads the same after someone renames themselves or leaves.
+ */
+export class TaskActivityService {
+  private builderSpaceService: BuilderSpaceService;
+
+  constructor() {
+    this.builderSpaceService = new BuilderSpaceService();
+  }
+
+  /**
+   * Add an entry to a task's history
+   * Callers have already checked the actor is a team member
+   */
+  async record(params: RecordActivityParams): Promise<void> {
+    const { task, actorId, action, fromStatus, toStatus, fields = [] } = params;
+    const addedAssigneeIds = params.addedAssigneeIds ?? [];
+    const removedAssigneeIds = params.removedAssigneeIds ?? [];
+
+    const users = addedAssigneeIds.length + removedAssigneeIds.length > 0
+      ? await User.find({ _id: { $in: [...addedAssigneeIds, ...removedAssigneeIds] } }, 'name')
+      : [];
+    const withNames = (ids: string[]) => ids.map(userId => ({
+      userId,
+      name: users.find(user => user.id === userId)?.name || 'Unknown User',
+    }));
+
+    await TaskActivity.create({
+      taskId: task._id,
+      spaceId: task.spaceId,
+      actorId,
+      action,
+      fromStatus,
+      toStatus,
+      addedAssignees: withNames(addedAssigneeIds),
+      removedAssignees: withNames(removedAssigneeIds),
+      fields,
+    });
+  }
+
+  /**
+   * A task's history, oldest first
+   *
+   * @throws Error if the task is not found or the user is not a member of its team
+   */
+  async listActivity(spaceId: string, taskId: string, userId: string): Promise<TaskActivityPayload[]> {
+    const task = await this.findMemberTask(spaceId, taskId, userId);
+
+    const activity = await TaskActivity.find({ taskId: task._id })
+      .populate('actorId', 'name')
+      .sort({ createdAt: 1, _id: 1 });
+
+    return activity.map(entry => this.toPayload(entry));
+  }
+
+  private async findMemberTask(spaceId: string, taskId: string, userId: string): Promise<ISpaceTask> {
+    const task = mongoose.isValidObjectId(spaceId) && mongoose.isValidObjectId(taskId)
+      ? await SpaceTask.findOne({ _id: taskId, spaceId })
+      : null;
+
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    return task;
+  }
+
+  private toPayload(entry: ITaskActivity): TaskActivityPayload {
+    const actor = entry.actorId as unknown as { _id: mongoose.Types.ObjectId; name?: string } | null;
+    const users = (list: ITaskActivity['addedAssignees']) =>
+      list.map(({ userId, name }) => ({ id: userId.toString(), name }));
+
+    return {
+      id: entry.id,
+      taskId: entry.taskId.toString(),
+      spaceId: entry.spaceId.toString(),
+      actorId: actor?._id?.toString() ?? '',
+      actorName: actor?.name || 'Unknown User',
+      action: entry.action,
+      fromStatus: entry.fromStatus ?? null,
+      toStatus: entry.toStatus ?? null,
+      addedAssignees: users(entry.addedAssignees),
+      removedAssignees: users(entry.removedAssignees),
+      fields: entry.fields,
+      createdAt: entry.createdAt,
+    };
+  }
+}
+
+export const taskActivityService = new TaskActivityService();
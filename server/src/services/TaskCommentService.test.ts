@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { TaskCommentService } from './TaskCommentService.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService } from './MessageBroadcastService.js';
+import { SpaceTask, TaskComment, TeamSpace } from '../db/index.js';
+import { PRIYA_ID, MARCUS_ID, SPACE_ID, TASK_ID, CREATED_AT, storedDocument, storedSpace } from '../tests/fixtures.js';
+
+vi.mock('../db/index.js', () => ({
+  SpaceTask: {
+    findOne: vi.fn(),
+  },
+  TaskComment: {
+    create: vi.fn(),
+    find: vi.fn(),
+    findOne: vi.fn(),
+    deleteOne: vi.fn(),
+  },
+  TeamSpace: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./MessageBroadcastService.js', () => ({
+  MessageType: { TASK_COMMENT_CREATED: 'task_comment_created', TASK_COMMENT_DELETED: 'task_comment_deleted' },
+  messageBroadcastService: { broadcastGroupMessage: vi.fn() },
+}));
+
+const COMMENT_ID = '64b7f0c2a1b2c3d4e5f60790';
+const PRIYA = { _id: new mongoose.Types.ObjectId(PRIYA_ID), name: 'Priya Sharma' };
+
+const storedComment = storedDocument(() => ({
+  _id: COMMENT_ID,
+  id: COMMENT_ID,
+  taskId: new mongoose.Types.ObjectId(TASK_ID),
+  spaceId: new mongoose.Types.ObjectId(SPACE_ID),
+  authorId: PRIYA,
+  content: 'Looks good',
+  createdAt: CREATED_AT,
+}));
+
+describe('TaskCommentService', () => {
+  let service: TaskCommentService;
+  let isMember: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    isMember = vi.spyOn(BuilderSpaceService.prototype, 'validateTeamMemberAccess').mockResolvedValue(true);
+    vi.mocked(SpaceTask.findOne).mockResolvedValue({ _id: TASK_ID, spaceId: new mongoose.Types.ObjectId(SPACE_ID) } as never);
+    vi.mocked(TeamSpace.findById).mockResolvedValue(storedSpace() as never);
+    service = new TaskCommentService();
+  });
+
+  it('should add a sanitized comment and tell the team', async () => {
+    vi.mocked(TaskComment.create).mockImplementation(async (fields: never) => storedComment({ ...(fields as object), authorId: PRIYA }) as never);
+
+    const comment = await service.createComment({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, content: '  Ship it <script>alert(1)</script> ' });
+
+    expect(TaskComment.create).toHaveBeenCalledWith(expect.objectContaining({ taskId: TASK_ID, authorId: PRIYA_ID }));
+    expect(comment.content).not.toContain('<script>');
+    expect(comment).toMatchObject({ taskId: TASK_ID, spaceId: SPACE_ID, authorName: 'Priya Sharma' });
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(SPACE_ID, expect.objectContaining({
+      type: 'task_comment_created',
+      payload: comment,
+    }));
+  });
+
+  it('should reject empty comments and people outside the team', async () => {
+    await expect(service.createComment({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, content: '   ' }))
+      .rejects.toThrow('Invalid comment: Comment cannot be empty');
+
+    isMember.mockResolvedValue(false);
+    await expect(service.listComments(SPACE_ID, TASK_ID, MARCUS_ID)).rejects.toThrow('not a member');
+    expect(TaskComment.create).not.toHaveBeenCalled();
+  });
+
+  it('should only let the author delete a comment', async () => {
+    vi.mocked(TaskComment.findOne).mockResolvedValue(storedComment({ authorId: new mongoose.Types.ObjectId(PRIYA_ID) }) as never);
+
+    await expect(service.deleteComment(SPACE_ID, TASK_ID, COMMENT_ID, MARCUS_ID)).rejects.toThrow('not authorized');
+    expect(TaskComment.deleteOne).not.toHaveBeenCalled();
+
+    await service.deleteComment(SPACE_ID, TASK_ID, COMMENT_ID, PRIYA_ID);
+
+    expect(TaskComment.findOne).toHaveBeenCalledWith({ _id: COMMENT_ID, taskId: TASK_ID, spaceId: SPACE_ID });
+    expect(TaskComment.deleteOne).toHaveBeenCalledWith({ _id: COMMENT_ID });
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(SPACE_ID, expect.objectContaining({
+      type: 'task_comment_deleted',
+      payload: { id: COMMENT_ID, taskId: TASK_ID, spaceId: SPACE_ID },
+    }));
+  });
+});
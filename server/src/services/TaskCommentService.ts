@@ -0,0 +1,136 @@
+import mongoose from 'mongoose';
+import { SpaceTask, TaskComment, ISpaceTask, ITaskComment } from '../db/index.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService, MessageType } from './MessageBroadcastService.js';
+import { TaskCommentPayload } from '../shared/realtimeProtocol.js';
+import { sanitizeContent } from '../utils/markdown.js';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+export interface CreateCommentParams {
+  spaceId: string;
+  taskId: string;
+  userId: string;
+  content: string;
+}
+
+/**
+ * TaskCommentService manages the comment thread on each task, so a discussion
+ * stays with the task instead of scrolling away in the group chat
+ *
+ * Any team member can comment; only the author can delete a comment. Comments take
+ * the same Markdown as chat messages and are sent to the team as TASK_COMMENT_CREATED
+ * and TASK_COMMENT_DELETED.
+ */
+export class TaskCommentService {
+  private builderSpaceService: BuilderSpaceService;
+
+  constructor() {
+    this.builderSpaceService = new BuilderSpaceService();
+  }
+
+  /**
+   * A task's comments, oldest first
+   *
+   * @throws Error if the task is not found or the user is not a member of its team
+   */
+  async listComments(spaceId: string, taskId: string, userId: string): Promise<TaskCommentPayload[]> {
+    const task = await this.findMemberTask(spaceId, taskId, userId);
+
+    const comments = await TaskComment.find({ taskId: task._id })
+      .populate('authorId', 'name')
+      .sort({ createdAt: 1, _id: 1 });
+
+    return comments.map(comment => this.toPayload(comment));
+  }
+
+  /**
+   * Comment on a task
+   *
+   * @returns The new comment
+   * @throws Error if unauthorized or the content is empty or too long
+   */
+  async createComment(params: CreateCommentParams): Promise<TaskCommentPayload> {
+    const { spaceId, taskId, userId } = params;
+    const task = await this.findMemberTask(spaceId, taskId, userId);
+
+    const content = sanitizeContent(params.content, MAX_COMMENT_LENGTH, 'Invalid comment: Comment');
+
+    const comment = await TaskComment.create({
+      taskId: task._id,
+      spaceId: task.spaceId,
+      authorId: userId,
+      content,
+    });
+    await comment.populate('authorId', 'name');
+
+    const payload = this.toPayload(comment);
+    await messageBroadcastService.broadcastGroupMessage(payload.spaceId, {
+      type: MessageType.TASK_COMMENT_CREATED,
+      payload,
+      timestamp: payload.createdAt,
+      senderId: userId,
+    });
+
+    return payload;
+  }
+
+  /**
+   * Delete a comment
+   * Only its author can, while still a team member
+   *
+   * @throws Error if the comment is not found on that task or the user may not delete it
+   */
+  async deleteComment(spaceId: string, taskId: string, commentId: string, userId: string): Promise<void> {
+    const comment = [spaceId, taskId, commentId].every(id => mongoose.isValidObjectId(id))
+      ? await TaskComment.findOne({ _id: commentId, taskId, spaceId })
+      : null;
+
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+    if (comment.authorId.toString() !== userId) {
+      throw new Error('Access denied: You are not authorized to delete this comment');
+    }
+    await this.findMemberTask(spaceId, taskId, userId);
+
+    await TaskComment.deleteOne({ _id: comment._id });
+
+    await messageBroadcastService.broadcastGroupMessage(spaceId, {
+      type: MessageType.TASK_COMMENT_DELETED,
+      payload: { id: comment.id, taskId, spaceId },
+      timestamp: new Date(),
+      senderId: userId,
+    });
+  }
+
+  private async findMemberTask(spaceId: string, taskId: string, userId: string): Promise<ISpaceTask> {
+    const task = mongoose.isValidObjectId(spaceId) && mongoose.isValidObjectId(taskId)
+      ? await SpaceTask.findOne({ _id: taskId, spaceId })
+      : null;
+
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    return task;
+  }
+
+  private toPayload(comment: ITaskComment): TaskCommentPayload {
+    const author = comment.authorId as unknown as { _id: mongoose.Types.ObjectId; name?: string } | null;
+
+    return {
+      id: comment.id,
+      taskId: comment.taskId.toString(),
+      spaceId: comment.spaceId.toString(),
+      authorId: author?._id?.toString() ?? '',
+      authorName: author?.name || 'Unknown User',
+      content: comment.content,
+      createdAt: comment.createdAt,
+    };
+  }
+}
+
+export const taskCommentService = new TaskCommentService();
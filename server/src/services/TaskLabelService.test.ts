@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TaskLabelService } from './TaskLabelService.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService } from './MessageBroadcastService.js';
+import { SpaceLabel, SpaceTask, TeamSpace } from '../db/index.js';
+import { PRIYA_ID, SPACE_ID, CREATED_AT, storedDocument, storedSpace } from '../tests/fixtures.js';
+
+vi.mock('../db/index.js', () => ({
+  SpaceLabel: {
+    create: vi.fn(),
+    findOne: vi.fn(),
+    deleteOne: vi.fn(),
+  },
+  SpaceTask: {
+    updateMany: vi.fn(),
+  },
+  TeamSpace: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./MessageBroadcastService.js', () => ({
+  MessageType: { TASK_LABEL_UPDATED: 'task_label_updated', TASK_LABEL_DELETED: 'task_label_deleted' },
+  messageBroadcastService: { broadcastGroupMessage: vi.fn() },
+}));
+
+const LABEL_ID = '64b7f0c2a1b2c3d4e5f60770';
+
+const storedLabel = storedDocument(() => ({
+  _id: LABEL_ID,
+  id: LABEL_ID,
+  spaceId: SPACE_ID,
+  name: 'backend',
+  color: 'gray',
+  createdAt: CREATED_AT,
+  updatedAt: CREATED_AT,
+}));
+
+describe('TaskLabelService', () => {
+  let service: TaskLabelService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(BuilderSpaceService.prototype, 'validateTeamMemberAccess').mockResolvedValue(true);
+    vi.mocked(TeamSpace.findById).mockResolvedValue(storedSpace() as never);
+    service = new TaskLabelService();
+  });
+
+  it('should create a label with a normalized name and tell the team', async () => {
+    vi.mocked(SpaceLabel.create).mockResolvedValue(storedLabel({ name: 'needs-design', color: 'pink' }) as never);
+
+    const label = await service.createLabel({ spaceId: SPACE_ID, userId: PRIYA_ID, name: ' Needs Design ', color: 'pink' });
+
+    expect(SpaceLabel.create).toHaveBeenCalledWith({ spaceId: SPACE_ID, name: 'needs-design', color: 'pink', createdBy: PRIYA_ID });
+    expect(label).toMatchObject({ id: LABEL_ID, name: 'needs-design', color: 'pink' });
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(SPACE_ID, expect.objectContaining({
+      type: 'task_label_updated',
+      payload: label,
+    }));
+  });
+
+  it('should reject invalid and taken names', async () => {
+    await expect(service.createLabel({ spaceId: SPACE_ID, userId: PRIYA_ID, name: 'front/end' }))
+      .rejects.toThrow('Invalid label');
+
+    vi.mocked(SpaceLabel.create).mockRejectedValue(Object.assign(new Error('E11000'), { code: 11000 }));
+    await expect(service.createLabel({ spaceId: SPACE_ID, userId: PRIYA_ID, name: 'backend' }))
+      .rejects.toThrow('A label named "backend" already exists in this Builder Space');
+  });
+
+  it('should recolor a label and leave an unchanged one alone', async () => {
+    const label = storedLabel();
+    vi.mocked(SpaceLabel.findOne).mockResolvedValue(label as never);
+
+    await service.updateLabel({ spaceId: SPACE_ID, labelId: LABEL_ID, userId: PRIYA_ID, color: 'gray' });
+    expect(label.save).not.toHaveBeenCalled();
+
+    const updated = await service.updateLabel({ spaceId: SPACE_ID, labelId: LABEL_ID, userId: PRIYA_ID, color: 'blue' });
+    expect(label.save).toHaveBeenCalled();
+    expect(updated).toMatchObject({ name: 'backend', color: 'blue' });
+  });
+
+  it('should take a deleted label off the tasks that have it', async () => {
+    vi.mocked(SpaceLabel.findOne).mockResolvedValue(storedLabel() as never);
+
+    await service.deleteLabel(SPACE_ID, LABEL_ID, PRIYA_ID);
+
+    expect(SpaceLabel.deleteOne).toHaveBeenCalledWith({ _id: LABEL_ID });
+    expect(SpaceTask.updateMany).toHaveBeenCalledWith(
+      { spaceId: SPACE_ID, labelIds: LABEL_ID },
+      { $pull: { labelIds: LABEL_ID } }
+    );
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(SPACE_ID, expect.objectContaining({
+      type: 'task_label_deleted',
+      payload: { id: LABEL_ID, spaceId: SPACE_ID },
+    }));
+  });
+});
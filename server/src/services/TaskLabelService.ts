@@ -0,0 +1,205 @@
+import mongoose from 'mongoose';
+import { SpaceLabel, SpaceTask, ISpaceLabel } from '../db/index.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService, MessageType } from './MessageBroadcastService.js';
+import { LabelColor, TaskLabelPayload } from '../shared/realtimeProtocol.js';
+
+const MAX_LABEL_NAME_LENGTH = 24;
+const LABEL_NAME_PATTERN = /^[\p{Ll}\p{Lo}\p{N}][\p{Ll}\p{Lo}\p{N}_-]*$/u;
+
+export interface CreateLabelParams {
+  spaceId: string;
+  userId: string;
+  name: string;
+  color?: LabelColor;
+}
+
+export interface UpdateLabelParams {
+  spaceId: string;
+  labelId: string;
+  userId: string;
+  name?: string;
+  color?: LabelColor;
+}
+
+/**
+ * TaskLabelService manages the labels a Builder Space puts on its tasks, like "backend"
+ *
+ * Labels belong to one space and any team member can create, change and delete them.
+ * Names are normalized like channel names, so a filter such as `label:backend` finds them.
+ * Deleting a label takes it off every task that has it.
+ */
+export class TaskLabelService {
+  private builderSpaceService: BuilderSpaceService;
+
+  constructor() {
+    this.builderSpaceService = new BuilderSpaceService();
+  }
+
+  /**
+   * List a Builder Space's labels by name
+   *
+   * @throws Error if the space is not found or the user is not a team member
+   */
+  async listLabels(spaceId: string, userId: string): Promise<TaskLabelPayload[]> {
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    const labels = await SpaceLabel.find({ spaceId }).sort({ name: 1 });
+    return labels.map(label => this.toPayload(label));
+  }
+
+  /**
+   * Create a label
+   *
+   * @param params - Space, creating user, name and optional color (gray by default)
+   * @returns The new label
+   * @throws Error if unauthorized, the name is invalid or already taken
+   */
+  async createLabel(params: CreateLabelParams): Promise<TaskLabelPayload> {
+    const { spaceId, userId, color = 'gray' } = params;
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    const name = this.normalizeName(params.name);
+
+    let label: ISpaceLabel;
+    try {
+      label = await SpaceLabel.create({ spaceId, name, color, createdBy: userId });
+    } catch (error) {
+      throw this.duplicateNameError(error, name);
+    }
+
+    return this.broadcastChange(label, userId);
+  }
+
+  /**
+   * Rename or recolor a label; the tasks that have it keep it
+   *
+   * @returns The changed label
+   * @throws Error if unauthorized, the label is not found, or the name is invalid or already taken
+   */
+  async updateLabel(params: UpdateLabelParams): Promise<TaskLabelPayload> {
+    const { spaceId, labelId, userId } = params;
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    const label = await this.findLabel(spaceId, labelId);
+    const name = params.name === undefined ? label.name : this.normalizeName(params.name);
+    const color = params.color ?? label.color;
+
+    if (label.name === name && label.color === color) {
+      return this.toPayload(label);
+    }
+
+    label.name = name;
+    label.color = color;
+    try {
+      await label.save();
+    } catch (error) {
+      throw this.duplicateNameError(error, name);
+    }
+
+    return this.broadcastChange(label, userId);
+  }
+
+  /**
+   * Delete a label and take it off the space's tasks
+   *
+   * @throws Error if unauthorized or the label is not found
+   */
+  async deleteLabel(spaceId: string, labelId: string, userId: string): Promise<void> {
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+    const label = await this.findLabel(spaceId, labelId);
+
+    await SpaceLabel.deleteOne({ _id: label._id });
+    await SpaceTask.updateMany({ spaceId, labelIds: label._id }, { $pull: { labelIds: label._id } });
+
+    // Clients take the label off their tasks themselves, so no task updates are sent
+    await messageBroadcastService.broadcastGroupMessage(spaceId, {
+      type: MessageType.TASK_LABEL_DELETED,
+      payload: { id: label.id, spaceId },
+      timestamp: new Date(),
+      senderId: userId,
+    });
+  }
+
+  /**
+   * Labels by ID, from any space
+   * Callers have already checked the user may see them, e.g. because they are on the user's tasks
+   */
+  async findLabels(labelIds: string[]): Promise<TaskLabelPayload[]> {
+    const ids = [...new Set(labelIds)];
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const labels = await SpaceLabel.find({ _id: { $in: ids } });
+    return labels.map(label => this.toPayload(label));
+  }
+
+  private async findLabel(spaceId: string, labelId: string): Promise<ISpaceLabel> {
+    const label = mongoose.isValidObjectId(labelId)
+      ? await SpaceLabel.findOne({ _id: labelId, spaceId })
+      : null;
+
+    if (!label) {
+      throw new Error('Label not found');
+    }
+
+    return label;
+  }
+
+  /**
+   * Lowercase with spaces turned into dashes: "Needs Design" becomes "needs-design"
+   *
+   * @throws Error if the name is empty, too long or has characters other than letters, numbers, - and _
+   */
+  private normalizeName(name: string): string {
+    const normalized = name.trim().replace(/\s+/g, '-').toLowerCase();
+
+    if (!normalized) {
+      throw new Error('Invalid label: Name cannot be empty');
+    }
+    if (normalized.length > MAX_LABEL_NAME_LENGTH) {
+      throw new Error(`Invalid label: Name cannot exceed ${MAX_LABEL_NAME_LENGTH} characters`);
+    }
+    if (!LABEL_NAME_PATTERN.test(normalized)) {
+      throw new Error('Invalid label: Use letters, numbers, - and _ only, starting with a letter or number');
+    }
+
+    return normalized;
+  }
+
+  private duplicateNameError(error: unknown, name: string): unknown {
+    return (error as { code?: number }).code === 11000
+      ? new Error(`A label named "${name}" already exists in this Builder Space`)
+      : error;
+  }
+
+  /**
+   * Send a created or changed label to every team member
+   */
+  private async broadcastChange(label: ISpaceLabel, userId: string): Promise<TaskLabelPayload> {
+    const payload = this.toPayload(label);
+
+    await messageBroadcastService.broadcastGroupMessage(payload.spaceId, {
+      type: MessageType.TASK_LABEL_UPDATED,
+      payload,
+      timestamp: payload.updatedAt,
+      senderId: userId,
+    });
+
+    return payload;
+  }
+
+  private toPayload(label: ISpaceLabel): TaskLabelPayload {
+    return {
+      id: label.id,
+      spaceId: label.spaceId.toString(),
+      name: label.name,
+      color: label.color,
+      createdAt: label.createdAt,
+      updatedAt: label.updatedAt,
+    };
+  }
+}
+
+export const taskLabelService = new TaskLabelService();
@@ -0,0 +1,388 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import mongoose from 'mongoose';
+import { TaskService } from './TaskService.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService } from './MessageBroadcastService.js';
+import { SpaceLabel, SpaceMilestone, SpaceTask, TaskActivity, TaskComment, TeamMember, TeamSpace, User } from '../db/index.js';
+import { PRIYA_ID, MARCUS_ID, SPACE_ID, TASK_ID, MILESTONE_ID, CREATED_AT, storedDocument, storedSpace } from '../tests/fixtures.js';
+
+vi.mock('../db/index.js', () => ({
+  SpaceTask: {
+    create: vi.fn(),
+    find: vi.fn(),
+    findOne: vi.fn(),
+    deleteOne: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  SpaceLabel: {
+    find: vi.fn(),
+    countDocuments: vi.fn(),
+  },
+  SpaceMilestone: {
+    countDocuments: vi.fn(),
+  },
+  TeamMember: {
+    countDocuments: vi.fn(),
+  },
+  TeamSpace: {
+    findById: vi.fn(),
+  },
+  TaskActivity: {
+    create: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+  TaskComment: {
+    deleteMany: vi.fn(),
+  },
+  User: {
+    find: vi.fn(),
+  },
+}));
+
+vi.mock('./MessageBroadcastService.js', () => ({
+  MessageType: { TASK_CREATED: 'task_created', TASK_UPDATED: 'task_updated', TASK_DELETED: 'task_deleted' },
+  messageBroadcastService: { broadcastGroupMessage: vi.fn() },
+}));
+
+const BACKEND_LABEL_ID = '64b7f0c2a1b2c3d4e5f60770';
+const ITEM_ID = '64b7f0c2a1b2c3d4e5f60780';
+const BLOCKER_ID = '64b7f0c2a1b2c3d4e5f60751';
+// How a task's creator looks once populated
+const PRIYA = { _id: new mongoose.Types.ObjectId(PRIYA_ID), name: 'Priya Sharma', toString: () => PRIYA_ID };
+
+let nextTaskId = 0x60760;
+
+const storedTask = storedDocument(() => {
+  const id = `64b7f0c2a1b2c3d4e5f${(nextTaskId++).toString(16)}`;
+  return {
+    _id: id,
+    id,
+    spaceId: new mongoose.Types.ObjectId(SPACE_ID),
+    creatorId: PRIYA,
+    title: 'Set up CI',
+    status: 'todo',
+    position: 0,
+    assigneeIds: [],
+    priority: 'medium',
+    labelIds: [],
+    checklist: [],
+    blockedByIds: [],
+    createdAt: CREATED_AT,
+    updatedAt: CREATED_AT,
+  };
+});
+
+// A checklist that can be searched and changed the way a DocumentArray can
+const storedChecklist = (items: { _id: string; text: string; done: boolean }[]) => {
+  const checklist = items.map(item => ({
+    ...item,
+    deleteOne: () => checklist.splice(checklist.findIndex(({ _id }) => _id === item._id), 1),
+  }));
+  return Object.assign(checklist, { id: (id: string) => checklist.find(({ _id }) => _id === id) ?? null });
+};
+
+const mockColumn = (tasks: unknown[]) => {
+  vi.mocked(SpaceTask.find).mockReturnValue({ sort: () => Promise.resolve(tasks) } as never);
+};
+
+// The tasks SpaceTask.find gives once its creators, finishers and assignees are populated
+const mockPopulatedTasks = (tasks: unknown[]) => {
+  const populate = () => ({ populate: () => ({ populate: () => Promise.resolve(tasks) }) });
+  vi.mocked(SpaceTask.find).mockReturnValue({ populate } as never);
+};
+
+describe('TaskService board', () => {
+  let service: TaskService;
+  let isMember: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    isMember = vi.spyOn(BuilderSpaceService.prototype, 'validateTeamMemberAccess').mockResolvedValue(true);
+    vi.mocked(TeamSpace.findById).mockResolvedValue(storedSpace() as never);
+    vi.mocked(User.find).mockResolvedValue([] as never);
+    service = new TaskService();
+  });
+
+  it('should add a task at the bottom of its column and tell the team', async () => {
+    vi.mocked(SpaceTask.findOne).mockReturnValue({ sort: () => Promise.resolve(storedTask({ position: 2048 })) } as never);
+    vi.mocked(SpaceTask.create).mockImplementation(async (fields: never) => storedTask({ ...(fields as object), creatorId: PRIYA }) as never);
+
+    const task = await service.createTask({ spaceId: SPACE_ID, creatorId: PRIYA_ID, title: '  Write the pitch  ', status: 'in_progress' });
+
+    expect(SpaceTask.create).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Write the pitch',
+      status: 'in_progress',
+      position: 3072,
+    }));
+    expect(task).toMatchObject({ title: 'Write the pitch', status: 'in_progress', creatorName: 'Priya Sharma' });
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(SPACE_ID, expect.objectContaining({
+      type: 'task_created',
+      payload: task,
+    }));
+  });
+
+  it('should reject tasks without a title and people outside the team', async () => {
+    await expect(service.createTask({ spaceId: SPACE_ID, creatorId: PRIYA_ID, title: '   ' }))
+      .rejects.toThrow('Invalid task: Title cannot be empty');
+
+    isMember.mockResolvedValue(false);
+    await expect(service.getTasks(SPACE_ID, MARCUS_ID)).rejects.toThrow('not a member');
+    expect(SpaceTask.create).not.toHaveBeenCalled();
+  });
+
+  it('should move a task between two others in another column and record who finished it', async () => {
+    const task = storedTask({ _id: TASK_ID, id: TASK_ID, status: 'review', position: 0 });
+    vi.mocked(SpaceTask.findOne).mockResolvedValue(task as never);
+    mockColumn([storedTask({ status: 'done', position: 0 }), storedTask({ status: 'done', position: 1024 })]);
+
+    const moved = await service.moveTask({ spaceId: SPACE_ID, taskId: TASK_ID, userId: MARCUS_ID, status: 'done', index: 1 });
+
+    expect(task.save).toHaveBeenCalled();
+    expect(moved).toMatchObject({ status: 'done', position: 512, completedAt: expect.any(Date) });
+    expect(task.completedBy?.toString()).toBe(MARCUS_ID);
+    expect(TaskActivity.create).toHaveBeenCalledWith(expect.objectContaining({
+      actorId: MARCUS_ID,
+      action: 'status_changed',
+      fromStatus: 'review',
+      toStatus: 'done',
+    }));
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(SPACE_ID, expect.objectContaining({
+      type: 'task_updated',
+      senderId: MARCUS_ID,
+    }));
+  });
+
+  it('should leave a task that is already in place alone', async () => {
+    const task = storedTask({ _id: TASK_ID, id: TASK_ID, position: 1024 });
+    vi.mocked(SpaceTask.findOne).mockResolvedValue(task as never);
+    mockColumn([storedTask({ position: 0 }), storedTask({ position: 2048 })]);
+
+    await service.moveTask({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, status: 'todo', index: 1 });
+
+    expect(task.save).not.toHaveBeenCalled();
+    expect(TaskActivity.create).not.toHaveBeenCalled();
+    expect(messageBroadcastService.broadcastGroupMessage).not.toHaveBeenCalled();
+  });
+
+  it('should spread a column out again when there is no room between two tasks', async () => {
+    const task = storedTask({ _id: TASK_ID, id: TASK_ID, status: 'todo', position: 0 });
+    const first = storedTask({ status: 'review', position: 1 });
+    const second = storedTask({ status: 'review', position: 1 + Number.EPSILON });
+    vi.mocked(SpaceTask.findOne).mockResolvedValue(task as never);
+    mockColumn([first, second]);
+
+    await service.moveTask({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, status: 'review', index: 1 });
+
+    expect([first.position, task.position, second.position]).toEqual([0, 1024, 2048]);
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not move a task to done while a blocker is open', async () => {
+    const task = storedTask({ _id: TASK_ID, id: TASK_ID, status: 'review', blockedByIds: [new mongoose.Types.ObjectId(BLOCKER_ID)] });
+    vi.mocked(SpaceTask.findOne).mockResolvedValue(task as never);
+    vi.mocked(SpaceTask.find).mockResolvedValueOnce([{ title: 'Write tests' }] as never);
+
+    await expect(service.moveTask({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, status: 'done' }))
+      .rejects.toThrow('Task is blocked: Finish "Write tests" first');
+    expect(task.save).not.toHaveBeenCalled();
+
+    vi.mocked(SpaceTask.find).mockResolvedValueOnce([] as never);
+    mockColumn([]);
+    await service.moveTask({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, status: 'done' });
+
+    expect(task.status).toBe('done');
+  });
+
+  it('should only put a task in a column of its space\'s board', async () => {
+    vi.mocked(TeamSpace.findById).mockResolvedValue(storedSpace({
+      taskWorkflow: [{ status: 'todo', name: 'Backlog' }, { status: 'qa', name: 'QA' }, { status: 'done', name: 'Shipped' }],
+    }) as never);
+    const task = storedTask({ _id: TASK_ID, id: TASK_ID });
+    vi.mocked(SpaceTask.findOne).mockResolvedValue(task as never);
+    mockColumn([]);
+
+    await expect(service.moveTask({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, status: 'review' }))
+      .rejects.toThrow('Invalid task: "review" is not a column of this task board');
+    await expect(service.createTask({ spaceId: SPACE_ID, creatorId: PRIYA_ID, title: 'Write the pitch', status: 'review' }))
+      .rejects.toThrow('Invalid task');
+    expect(task.save).not.toHaveBeenCalled();
+
+    const moved = await service.moveTask({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, status: 'qa' });
+    expect(moved).toMatchObject({ status: 'qa' });
+  });
+
+  it('should add a blocker from the same space unless it closes a cycle', async () => {
+    const task = storedTask({ _id: TASK_ID, id: TASK_ID, blockedByIds: [] });
+    const blocker = { _id: new mongoose.Types.ObjectId(BLOCKER_ID), title: 'Write tests' };
+    vi.mocked(SpaceTask.findOne).mockImplementation((async ({ _id }: { _id: string }) => _id === TASK_ID ? task : blocker) as never);
+    // The blocker already waits on a task that waits on this one
+    vi.mocked(SpaceTask.find).mockResolvedValue([
+      { id: BLOCKER_ID, blockedByIds: [new mongoose.Types.ObjectId(ITEM_ID)] },
+      { id: ITEM_ID, blockedByIds: [new mongoose.Types.ObjectId(TASK_ID)] },
+    ] as never);
+
+    await expect(service.addDependency(SPACE_ID, TASK_ID, BLOCKER_ID, PRIYA_ID))
+      .rejects.toThrow('Invalid dependency: "Write tests" is already waiting on this task');
+    await expect(service.addDependency(SPACE_ID, TASK_ID, TASK_ID, PRIYA_ID)).rejects.toThrow('cannot block itself');
+    expect(task.save).not.toHaveBeenCalled();
+
+    vi.mocked(SpaceTask.find).mockResolvedValue([{ id: BLOCKER_ID, blockedByIds: [new mongoose.Types.ObjectId(ITEM_ID)] }] as never);
+    const blocked = await service.addDependency(SPACE_ID, TASK_ID, BLOCKER_ID, PRIYA_ID);
+
+    expect(SpaceTask.findOne).toHaveBeenCalledWith({ _id: BLOCKER_ID, spaceId: task.spaceId }, 'title');
+    expect(blocked.blockedByIds).toEqual([BLOCKER_ID]);
+    expect(TaskActivity.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'edited', fields: ['dependencies'] }));
+  });
+
+  it('should not find a task through another space', async () => {
+    const otherSpaceId = '64b7f0c2a1b2c3d4e5f60721';
+    vi.mocked(SpaceTask.findOne).mockResolvedValue(null);
+
+    await expect(service.moveTask({ spaceId: otherSpaceId, taskId: TASK_ID, userId: PRIYA_ID, status: 'done' }))
+      .rejects.toThrow('Task not found');
+    expect(SpaceTask.findOne).toHaveBeenCalledWith({ _id: TASK_ID, spaceId: otherSpaceId });
+    await expect(service.deleteTask('not-an-id', TASK_ID, PRIYA_ID)).rejects.toThrow('Task not found');
+    expect(SpaceTask.findOne).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only let the creator delete a task', async () => {
+    const task = storedTask({ _id: TASK_ID, id: TASK_ID, creatorId: new mongoose.Types.ObjectId(PRIYA_ID) });
+    vi.mocked(SpaceTask.findOne).mockResolvedValue(task as never);
+
+    await expect(service.deleteTask(SPACE_ID, TASK_ID, MARCUS_ID)).rejects.toThrow('not authorized');
+    expect(SpaceTask.deleteOne).not.toHaveBeenCalled();
+
+    await service.deleteTask(SPACE_ID, TASK_ID, PRIYA_ID);
+
+    expect(SpaceTask.deleteOne).toHaveBeenCalledWith({ _id: TASK_ID });
+    expect(SpaceTask.updateMany).toHaveBeenCalledWith(
+      { spaceId: task.spaceId, blockedByIds: TASK_ID },
+      { $pull: { blockedByIds: TASK_ID } }
+    );
+    expect(TaskComment.deleteMany).toHaveBeenCalledWith({ taskId: TASK_ID });
+    expect(TaskActivity.deleteMany).toHaveBeenCalledWith({ taskId: TASK_ID });
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(SPACE_ID, expect.objectContaining({
+      type: 'task_deleted',
+      payload: { id: TASK_ID, spaceId: SPACE_ID },
+    }));
+  });
+
+  it('should assign a task to team members only', async () => {
+    const task = storedTask({ _id: TASK_ID, id: TASK_ID });
+    vi.mocked(SpaceTask.findOne).mockResolvedValue(task as never);
+    vi.mocked(TeamMember.countDocuments).mockResolvedValue(1 as never);
+
+    await expect(service.updateTask({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, assigneeIds: [MARCUS_ID, SPACE_ID] }))
+      .rejects.toThrow('Invalid task: Tasks can only be assigned to team members');
+    expect(task.save).not.toHaveBeenCalled();
+
+    const dueDate = new Date('2024-03-01T23:59:59Z');
+    await service.updateTask({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, assigneeIds: [MARCUS_ID, MARCUS_ID], dueDate, priority: 'high' });
+
+    expect(task.assigneeIds.map(String)).toEqual([MARCUS_ID]);
+    expect(task).toMatchObject({ dueDate, priority: 'high', title: 'Set up CI' });
+    expect(task.save).toHaveBeenCalled();
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(SPACE_ID, expect.objectContaining({
+      type: 'task_updated',
+    }));
+  });
+
+  it('should record reassignments and edits in the task\'s history', async () => {
+    const task = storedTask({ _id: TASK_ID, id: TASK_ID, assigneeIds: [new mongoose.Types.ObjectId(PRIYA_ID)] });
+    vi.mocked(SpaceTask.findOne).mockResolvedValue(task as never);
+    vi.mocked(TeamMember.countDocuments).mockResolvedValue(1 as never);
+    vi.mocked(User.find).mockResolvedValue([{ id: MARCUS_ID, name: 'Marcus Lee' }, { id: PRIYA_ID, name: 'Priya Sharma' }] as never);
+
+    await service.updateTask({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, title: 'Set up CI', priority: 'urgent', assigneeIds: [MARCUS_ID] });
+
+    expect(TaskActivity.create).toHaveBeenCalledTimes(2);
+    expect(TaskActivity.create).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'assigned',
+      addedAssignees: [{ userId: MARCUS_ID, name: 'Marcus Lee' }],
+      removedAssignees: [{ userId: PRIYA_ID, name: 'Priya Sharma' }],
+    }));
+    expect(TaskActivity.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'edited', fields: ['priority'] }));
+  });
+
+  it('should only put a task in one of its space\'s milestones', async () => {
+    const task = storedTask({ _id: TASK_ID, id: TASK_ID });
+    vi.mocked(SpaceTask.findOne).mockResolvedValue(task as never);
+    vi.mocked(SpaceMilestone.countDocuments).mockResolvedValue(0 as never);
+
+    await expect(service.updateTask({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, milestoneId: MILESTONE_ID }))
+      .rejects.toThrow('Invalid task: Milestones must belong to this Builder Space');
+
+    vi.mocked(SpaceMilestone.countDocuments).mockResolvedValue(1 as never);
+    const updated = await service.updateTask({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, milestoneId: MILESTONE_ID });
+
+    expect(SpaceMilestone.countDocuments).toHaveBeenCalledWith({ spaceId: SPACE_ID, _id: MILESTONE_ID });
+    expect(updated.milestoneId).toBe(MILESTONE_ID);
+    expect(TaskActivity.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'edited', fields: ['milestone'] }));
+
+    await service.updateTask({ spaceId: SPACE_ID, taskId: TASK_ID, userId: PRIYA_ID, milestoneId: null });
+    expect(task.milestoneId).toBeUndefined();
+  });
+
+  it('should keep a checklist and only record changes to its steps', async () => {
+    const task = storedTask({ _id: TASK_ID, id: TASK_ID, checklist: storedChecklist([{ _id: ITEM_ID, text: 'Pick a CI provider', done: false }]) });
+    vi.mocked(SpaceTask.findOne).mockResolvedValue(task as never);
+
+    const ticked = await service.updateChecklistItem({ spaceId: SPACE_ID, taskId: TASK_ID, itemId: ITEM_ID, userId: MARCUS_ID, done: true });
+
+    expect(ticked.checklist).toEqual([{ id: ITEM_ID, text: 'Pick a CI provider', done: true }]);
+    expect(task.checklist[0]).toMatchObject({ doneBy: expect.any(mongoose.Types.ObjectId) });
+    expect(TaskActivity.create).not.toHaveBeenCalled();
+
+    const removed = await service.removeChecklistItem(SPACE_ID, TASK_ID, ITEM_ID, MARCUS_ID);
+
+    expect(removed.checklist).toEqual([]);
+    expect(TaskActivity.create).toHaveBeenCalledWith(expect.objectContaining({ action: 'edited', fields: ['checklist'] }));
+    await expect(service.addChecklistItem(SPACE_ID, TASK_ID, MARCUS_ID, '  ')).rejects.toThrow('Invalid task: Checklist items cannot be empty');
+    await expect(service.removeChecklistItem(SPACE_ID, TASK_ID, ITEM_ID, MARCUS_ID)).rejects.toThrow('Checklist item not found');
+  });
+
+  it('should filter a space\'s tasks by assignee, due date and label', async () => {
+    vi.mocked(SpaceLabel.find).mockResolvedValue([{ _id: BACKEND_LABEL_ID, name: 'backend' }] as never);
+    mockPopulatedTasks([
+      storedTask({ title: 'Later', position: 1024, dueDate: new Date('2024-01-20') }),
+      storedTask({ title: 'Sooner', position: 2048, dueDate: new Date('2024-01-10') }),
+    ]);
+
+    const tasks = await service.getTasks(SPACE_ID, PRIYA_ID, { filter: 'mine overdue label:backend', sort: 'due' });
+
+    expect(tasks.map(({ title }) => title)).toEqual(['Sooner', 'Later']);
+    expect(SpaceTask.find).toHaveBeenCalledWith({
+      $and: [
+        { spaceId: SPACE_ID },
+        { assigneeIds: PRIYA_ID },
+        { dueDate: { $lt: expect.any(Date) }, status: { $ne: 'done' } },
+        { labelIds: { $in: [BACKEND_LABEL_ID] } },
+      ],
+    });
+  });
+
+  it('should find nothing for a label the space does not have', async () => {
+    vi.mocked(SpaceLabel.find).mockResolvedValue([] as never);
+
+    expect(await service.getTasks(SPACE_ID, PRIYA_ID, { filter: 'label:frontend' })).toEqual([]);
+    expect(SpaceTask.find).not.toHaveBeenCalled();
+    await expect(service.getTasks(SPACE_ID, PRIYA_ID, { filter: 'someday' })).rejects.toThrow('Invalid filter');
+  });
+
+  it('should list a user\'s unfinished tasks from all of their spaces with the space name', async () => {
+    vi.spyOn(BuilderSpaceService.prototype, 'getUserBuilderSpaces').mockResolvedValue([
+      { _id: SPACE_ID, name: 'Launchpad', taskWorkflow: [{ status: 'todo', name: 'Backlog' }, { status: 'done', name: 'Shipped' }] },
+    ] as never);
+    vi.mocked(SpaceLabel.find).mockResolvedValue([
+      { id: BACKEND_LABEL_ID, spaceId: SPACE_ID, name: 'backend', color: 'blue', createdAt: CREATED_AT, updatedAt: CREATED_AT },
+    ] as never);
+    mockPopulatedTasks([storedTask({ labelIds: [BACKEND_LABEL_ID] })]);
+
+    const [task] = await service.getMyTasks(MARCUS_ID);
+
+    expect(SpaceTask.find).toHaveBeenCalledWith({
+      $and: [{ spaceId: { $in: [SPACE_ID] }, assigneeIds: MARCUS_ID }, { status: { $ne: 'done' } }],
+    });
+    expect(task).toMatchObject({ spaceName: 'Launchpad', statusName: 'Backlog', labels: [{ name: 'backend', color: 'blue' }] });
+  });
+});
@@ -1,16 +1,841 @@
-// Stub file - actual implementation in TaskService.ts.bak
+import mongoose, { FilterQuery } from 'mongoose';
+import { SpaceLabel, SpaceMilestone, SpaceTask, TaskActivity, TaskComment, TeamMember, ISpaceTask, ITeamSpace } from '../db/index.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { TaskActivityService } from './TaskActivityService.js';
+import { TaskLabelService } from './TaskLabelService.js';
+import { TaskWorkflowService } from './TaskWorkflowService.js';
+import { messageBroadcastService, MessageType } from './MessageBroadcastService.js';
+import { TaskDependencyGraphPayload, TaskLabelPayload, TaskPayload, TaskPriority, TaskStatus } from '../shared/realtimeProtocol.js';
+import { createsDependencyCycle } from '../shared/taskDependencies.js';
+import { parseTaskFilter, sortTasks, TaskFilter, TaskListQuery } from '../utils/taskQuery.js';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_CHECKLIST_ITEMS = 50;
+const MAX_CHECKLIST_ITEM_LENGTH = 200;
+const MAX_BLOCKERS = 20;
+
+// Gap between neighbouring positions when a task goes at either end of a column
+const POSITION_STEP = 1024;
+
+export interface CreateTaskParams {
+  spaceId: string;
+  creatorId: string;
+  title: string;
+  description?: string;
+  // Column to add it to, todo by default
+  status?: TaskStatus;
+  assigneeIds?: string[];
+  dueDate?: Date | null;
+  priority?: TaskPriority;
+  labelIds?: string[];
+  milestoneId?: string | null;
+}
+
+// The fields to change; null clears an optional one
+export interface UpdateTaskParams {
+  spaceId: string;
+  taskId: string;
+  userId: string;
+  title?: string;
+  description?: string | null;
+  assigneeIds?: string[];
+  dueDate?: Date | null;
+  priority?: TaskPriority;
+  labelIds?: string[];
+  milestoneId?: string | null;
+}
+
+export interface MoveTaskParams {
+  spaceId: string;
+  taskId: string;
+  userId: string;
+  status: TaskStatus;
+  // Place in the destination column, counted without the task itself; the bottom without one
+  index?: number;
+}
+
+export interface UpdateChecklistItemParams {
+  spaceId: string;
+  taskId: string;
+  itemId: string;
+  userId: string;
+  text?: string;
+  done?: boolean;
+}
+
+// A task in the cross-space "My tasks" list, with what it needs from its space
+export type MyTaskPayload = TaskPayload & {
+  spaceName: string;
+  // What the task's column is called on its space's board
+  statusName: string;
+  labels: TaskLabelPayload[];
+};
+
+/**
+ * TaskService manages the task board of a Builder Space
+ *
+ * Every task sits in one column of its space's workflow (see TaskWorkflowService) at a
+ * position within it.
+ * Any team member can add tasks and move them between and within columns; moving a
+ * task to done records who finished it. Tasks can be assigned to team members and
+ * have a due date, a priority, labels from the space's TaskLabelService, a milestone from
+ * its MilestoneService and a checklist.
+ * A task can be blocked by other tasks of its space, and cannot be moved to done until
+ * they are; the blocked-by edges never form a cycle. Only the creator can delete a
+ * task. Every change is sent to the team as TASK_CREATED, TASK_UPDATED or
+ * TASK_DELETED, and creating, moving to another column, reassigning and editing are
+ * kept in the task's history by TaskActivityService.
+ */
 export class TaskService {
-  async createTask(data: any) {
-    throw new Error('TaskService not implemented');
+  private builderSpaceService: BuilderSpaceService;
+  private taskLabelService: TaskLabelService;
+  private taskActivityService: TaskActivityService;
+  private taskWorkflowService: TaskWorkflowService;
+
+  constructor() {
+    this.builderSpaceService = new BuilderSpaceService();
+    this.taskLabelService = new TaskLabelService();
+    this.taskActivityService = new TaskActivityService();
+    this.taskWorkflowService = new TaskWorkflowService();
   }
-  async getTasks(spaceId: string, userId: string) {
-    throw new Error('TaskService not implemented');
+
+  /**
+   * Add a task at the bottom of a column
+   *
+   * @param params - Space, creator, title and the optional fields; todo and medium priority by default
+   * @returns The new task
+   * @throws Error if unauthorized or validation fails
+   */
+  async createTask(params: CreateTaskParams): Promise<TaskPayload> {
+    const { spaceId, creatorId, status = 'todo', priority = 'medium' } = params;
+    const space = await this.builderSpaceService.requireMemberSpace(spaceId, creatorId);
+
+    const title = params.title.trim();
+    const description = params.description?.trim() || undefined;
+    this.validateTask(title, description);
+    this.taskWorkflowService.validateStatus(space, status);
+
+    const assigneeIds = await this.validateAssignees(space, params.assigneeIds ?? []);
+    const labelIds = await this.validateLabels(spaceId, params.labelIds ?? []);
+    const milestoneId = await this.validateMilestone(spaceId, params.milestoneId);
+
+    const task = await SpaceTask.create({
+      spaceId,
+      creatorId,
+      title,
+      description,
+      status,
+      assigneeIds,
+      dueDate: params.dueDate ?? undefined,
+      priority,
+      labelIds,
+      milestoneId,
+      position: await this.nextPosition(spaceId, status),
+      ...(status === 'done' && { completedBy: creatorId, completedAt: new Date() }),
+    });
+    await this.taskActivityService.record({ task, actorId: creatorId, action: 'created' });
+
+    const payload = await this.toPayload(task);
+    await this.broadcast(MessageType.TASK_CREATED, payload, creatorId);
+    return payload;
   }
-  async updateTaskStatus(data: any) {
-    throw new Error('TaskService not implemented');
+
+  /**
+   * List a Builder Space's tasks, column by column in board order unless sorted otherwise
+   *
+   * @param spaceId - The ID of the Builder Space
+   * @param userId - The user asking, who must be a team member
+   * @param query - Optional filter, like `mine overdue`, and sort (see utils/taskQuery)
+   * @throws Error if the space is not found, the user is not a team member or the filter is invalid
+   */
+  async getTasks(spaceId: string, userId: string, query: TaskListQuery = {}): Promise<TaskPayload[]> {
+    const space = await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    const conditions = await this.filterConditions(parseTaskFilter(query.filter), userId, [spaceId]);
+    if (!conditions) {
+      return [];
+    }
+
+    const tasks = await this.findPopulated({ $and: [{ spaceId }, ...conditions] });
+    const statuses = this.taskWorkflowService.columnsOf(space).map(column => column.status);
+    return sortTasks(tasks.map(task => this.toPopulatedPayload(task)), query.sort, statuses);
+  }
+
+  /**
+   * List the tasks assigned to a user in all of their Builder Spaces, soonest due first
+   * Done tasks are left out unless the filter asks for a status
+   *
+   * @param userId - The user asking
+   * @param query - Optional filter and sort, as for getTasks
+   * @throws Error if the filter is invalid
+   */
+  async getMyTasks(userId: string, query: TaskListQuery = {}): Promise<MyTaskPayload[]> {
+    const filter = parseTaskFilter(query.filter);
+
+    // Spaces come back as plain objects, which carry _id but not the id virtual
+    const spaces = (await this.builderSpaceService.getUserBuilderSpaces(userId)).map(space => ({
+      id: (space as { _id?: { toString(): string } })._id?.toString() ?? space.id,
+      name: space.name,
+      columns: this.taskWorkflowService.columnsOf(space as Pick<ITeamSpace, 'taskWorkflow'>),
+    }));
+    const spaceIds = spaces.map(space => space.id);
+
+    const conditions = spaceIds.length > 0 ? await this.filterConditions(filter, userId, spaceIds) : null;
+    if (!conditions) {
+      return [];
+    }
+
+    const tasks = await this.findPopulated({
+      $and: [
+        { spaceId: { $in: spaceIds }, assigneeIds: userId },
+        ...(filter.statuses.length === 0 ? [{ status: { $ne: 'done' } }] : []),
+        ...conditions,
+      ],
+    });
+
+    const labels = await this.taskLabelService.findLabels(tasks.flatMap(task => task.labelIds.map(id => id.toString())));
+    const labelsById = new Map(labels.map(label => [label.id, label]));
+    const spacesById = new Map(spaces.map(space => [space.id, space]));
+
+    const myTasks = tasks.map(task => {
+      const payload = this.toPopulatedPayload(task);
+      const space = spacesById.get(payload.spaceId);
+      return {
+        ...payload,
+        spaceName: space?.name ?? '',
+        statusName: space?.columns.find(column => column.status === payload.status)?.name ?? payload.status,
+        labels: payload.labelIds.filter(id => labelsById.has(id)).map(id => labelsById.get(id)!),
+      };
+    });
+
+    return sortTasks(myTasks, query.sort ?? 'due');
   }
-  async deleteTask(taskId: string, userId: string) {
-    throw new Error('TaskService not implemented');
+
+  /**
+   * Change a task's title, description, assignees, due date, priority or labels
+   * Any team member can; moving it is moveTask's job
+   *
+   * @param params - Task, changing user and the fields to change
+   * @returns The changed task
+   * @throws Error if the task is not found, the user is not a team member or validation fails
+   */
+  async updateTask(params: UpdateTaskParams): Promise<TaskPayload> {
+    const { spaceId, taskId, userId } = params;
+    const task = await this.findTask(spaceId, taskId);
+    const space = await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    const title = params.title === undefined ? task.title : params.title.trim();
+    const description = params.description === undefined
+      ? task.description
+      : params.description?.trim() || undefined;
+    this.validateTask(title, description);
+
+    const ids = (list: mongoose.Types.ObjectId[]) => list.map(id => id.toString());
+    const previousAssigneeIds = ids(task.assigneeIds);
+    const previous = {
+      title: task.title,
+      description: task.description,
+      dueDate: task.dueDate?.getTime(),
+      priority: task.priority,
+      labels: ids(task.labelIds).sort().join(),
+      milestone: task.milestoneId?.toString(),
+    };
+
+    task.title = title;
+    task.description = description;
+
+    if (params.assigneeIds !== undefined) {
+      task.assigneeIds = await this.validateAssignees(space, params.assigneeIds);
+    }
+    if (params.labelIds !== undefined) {
+      task.labelIds = await this.validateLabels(spaceId, params.labelIds);
+    }
+    if (params.dueDate !== undefined) {
+      task.dueDate = params.dueDate ?? undefined;
+    }
+    if (params.priority !== undefined) {
+      task.priority = params.priority;
+    }
+    if (params.milestoneId !== undefined) {
+      task.milestoneId = await this.validateMilestone(spaceId, params.milestoneId);
+    }
+
+    await task.save();
+
+    const current = {
+      title: task.title,
+      description: task.description,
+      dueDate: task.dueDate?.getTime(),
+      priority: task.priority,
+      labels: ids(task.labelIds).sort().join(),
+      milestone: task.milestoneId?.toString(),
+    };
+    const fields = (Object.keys(current) as (keyof typeof current)[]).filter(field => current[field] !== previous[field]);
+    const assigneeIds = ids(task.assigneeIds);
+    const addedAssigneeIds = assigneeIds.filter(id => !previousAssigneeIds.includes(id));
+    const removedAssigneeIds = previousAssigneeIds.filter(id => !assigneeIds.includes(id));
+
+    if (addedAssigneeIds.length + removedAssigneeIds.length > 0) {
+      await this.taskActivityService.record({ task, actorId: userId, action: 'assigned', addedAssigneeIds, removedAssigneeIds });
+    }
+    if (fields.length > 0) {
+      await this.taskActivityService.record({ task, actorId: userId, action: 'edited', fields });
+    }
+
+    const payload = await this.toPayload(task);
+    await this.broadcast(MessageType.TASK_UPDATED, payload, userId);
+    return payload;
+  }
+
+  /**
+   * Move a task to a column and a place in it
+   * Moving it where it already is changes nothing and sends no update
+   *
+   * @param params - Task, moving user, destination column and place in it
+   * @returns The task where it ended up
+   * @throws Error if the task is not found, the user is not a team member, the space's
+   * board has no such column, or it is moved to done while one of its blockers is not
+   */
+  async moveTask(params: MoveTaskParams): Promise<TaskPayload> {
+    const { spaceId, taskId, userId, status } = params;
+    const task = await this.findTask(spaceId, taskId);
+    const space = await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+    this.taskWorkflowService.validateStatus(space, status);
+
+    if (status === 'done' && task.status !== 'done' && task.blockedByIds.length > 0) {
+      const openBlockers = await SpaceTask.find({ _id: { $in: task.blockedByIds }, status: { $ne: 'done' } }, 'title');
+
+      if (openBlockers.length > 0) {
+        throw new Error(`Task is blocked: Finish ${openBlockers.map(({ title }) => `"${title}"`).join(', ')} first`);
+      }
+    }
+
+    const column = await SpaceTask.find({ spaceId: task.spaceId, status, _id: { $ne: task._id } })
+      .sort({ position: 1, createdAt: 1 });
+    const index = Math.min(params.index ?? column.length, column.length);
+
+    const before = column[index - 1]?.position;
+    const after = column[index]?.position;
+    const isInPlace = task.status === status &&
+      (before === undefined || before < task.position) &&
+      (after === undefined || task.position < after);
+
+    if (isInPlace) {
+      return this.toPayload(task);
+    }
+
+    const fromStatus = task.status;
+    if (task.status !== status) {
+      task.status = status;
+      task.completedBy = status === 'done' ? new mongoose.Types.ObjectId(userId) : undefined;
+      task.completedAt = status === 'done' ? new Date() : undefined;
+    }
+
+    const position = this.positionBetween(before, after);
+    if (position === undefined) {
+      // The gap is used up, so the column is spread out again with the task in its place
+      await this.renumberColumn(task, column, index, userId);
+    } else {
+      task.position = position;
+      await task.save();
+    }
+
+    if (fromStatus !== status) {
+      await this.taskActivityService.record({ task, actorId: userId, action: 'status_changed', fromStatus, toStatus: status });
+    }
+
+    const payload = await this.toPayload(task);
+    await this.broadcast(MessageType.TASK_UPDATED, payload, userId);
+    return payload;
+  }
+
+  /**
+   * Add a step to the bottom of a task's checklist
+   *
+   * @returns The task with its new checklist
+   * @throws Error if the task is not found, the user is not a team member or the text is invalid
+   */
+  async addChecklistItem(spaceId: string, taskId: string, userId: string, text: string): Promise<TaskPayload> {
+    const task = await this.findTask(spaceId, taskId);
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    const trimmed = this.validateChecklistText(text);
+    if (task.checklist.length >= MAX_CHECKLIST_ITEMS) {
+      throw new Error(`Invalid task: A checklist cannot have more than ${MAX_CHECKLIST_ITEMS} items`);
+    }
+
+    task.checklist.push({ text: trimmed, done: false });
+    await task.save();
+    await this.taskActivityService.record({ task, actorId: userId, action: 'edited', fields: ['checklist'] });
+
+    return this.broadcastChange(task, userId);
+  }
+
+  /**
+   * Tick off a checklist step, or rename it
+   * Ticking is progress rather than an edit, so only renaming goes in the history
+   *
+   * @returns The task with its changed checklist
+   * @throws Error if the task or step is not found, the user is not a team member or the text is invalid
+   */
+  async updateChecklistItem(params: UpdateChecklistItemParams): Promise<TaskPayload> {
+    const { spaceId, taskId, itemId, userId, done } = params;
+    const task = await this.findTask(spaceId, taskId);
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    const item = this.findChecklistItem(task, itemId);
+    const text = params.text === undefined ? item.text : this.validateChecklistText(params.text);
+    const isRenamed = text !== item.text;
+
+    item.text = text;
+    if (done !== undefined && done !== item.done) {
+      item.done = done;
+      item.doneBy = done ? new mongoose.Types.ObjectId(userId) : undefined;
+    }
+
+    await task.save();
+    if (isRenamed) {
+      await this.taskActivityService.record({ task, actorId: userId, action: 'edited', fields: ['checklist'] });
+    }
+
+    return this.broadcastChange(task, userId);
+  }
+
+  /**
+   * Take a step off a task's checklist
+   *
+   * @returns The task with its remaining checklist
+   * @throws Error if the task or step is not found or the user is not a team member
+   */
+  async removeChecklistItem(spaceId: string, taskId: string, itemId: string, userId: string): Promise<TaskPayload> {
+    const task = await this.findTask(spaceId, taskId);
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    this.findChecklistItem(task, itemId).deleteOne();
+
+    await task.save();
+    await this.taskActivityService.record({ task, actorId: userId, action: 'edited', fields: ['checklist'] });
+
+    return this.broadcastChange(task, userId);
+  }
+
+  /**
+   * Every blocked-by edge of a space's tasks, for the board to show which are blocked
+   *
+   * @returns The edges and the tasks at either end of one
+   * @throws Error if unauthorized
+   */
+  async getDependencyGraph(spaceId: string, userId: string): Promise<TaskDependencyGraphPayload> {
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    const blocked = await SpaceTask.find({ spaceId, 'blockedByIds.0': { $exists: true } }, 'title status blockedByIds');
+    const edges = blocked.flatMap(task =>
+      task.blockedByIds.map(blockedById => ({ taskId: task.id, blockedById: blockedById.toString() }))
+    );
+    const blockerIds = [...new Set(edges.map(edge => edge.blockedById))]
+      .filter(id => !blocked.some(task => task.id === id));
+    const blockers = blockerIds.length > 0 ? await SpaceTask.find({ _id: { $in: blockerIds } }, 'title status') : [];
+
+    return {
+      tasks: [...blocked, ...blockers].map(task => ({ id: task.id, title: task.title, status: task.status })),
+      edges,
+    };
+  }
+
+  /**
+   * Make a task wait on another task of its space
+   *
+   * @returns The task with its new blocker
+   * @throws Error if either task is not found, the user is not a team member, or the
+   * edge would make the tasks wait on each other
+   */
+  async addDependency(spaceId: string, taskId: string, blockedById: string, userId: string): Promise<TaskPayload> {
+    const task = await this.findTask(spaceId, taskId);
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    if (blockedById === task.id) {
+      throw new Error('Invalid dependency: A task cannot block itself');
+    }
+
+    const blocker = mongoose.isValidObjectId(blockedById)
+      ? await SpaceTask.findOne({ _id: blockedById, spaceId: task.spaceId }, 'title')
+      : null;
+
+    if (!blocker) {
+      throw new Error('Invalid dependency: Tasks can only be blocked by tasks in the same Builder Space');
+    }
+    if (task.blockedByIds.some(id => id.toString() === blockedById)) {
+      return this.toPayload(task);
+    }
+    if (task.blockedByIds.length >= MAX_BLOCKERS) {
+      throw new Error(`Invalid dependency: A task cannot be blocked by more than ${MAX_BLOCKERS} tasks`);
+    }
+
+    const blocked = await SpaceTask.find({ spaceId: task.spaceId, 'blockedByIds.0': { $exists: true } }, 'blockedByIds');
+    const edges = blocked.flatMap(({ id, blockedByIds }) =>
+      blockedByIds.map(blockerId => ({ taskId: id, blockedById: blockerId.toString() }))
+    );
+
+    if (createsDependencyCycle(edges, task.id, blockedById)) {
+      throw new Error(`Invalid dependency: "${blocker.title}" is already waiting on this task`);
+    }
+
+    task.blockedByIds.push(blocker._id as mongoose.Types.ObjectId);
+    await task.save();
+    await this.taskActivityService.record({ task, actorId: userId, action: 'edited', fields: ['dependencies'] });
+
+    return this.broadcastChange(task, userId);
+  }
+
+  /**
+   * Stop a task waiting on another
+   *
+   * @returns The task without the blocker
+   * @throws Error if the task or the edge is not found or the user is not a team member
+   */
+  async removeDependency(spaceId: string, taskId: string, blockedById: string, userId: string): Promise<TaskPayload> {
+    const task = await this.findTask(spaceId, taskId);
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    const blockedByIds = task.blockedByIds.filter(id => id.toString() !== blockedById);
+    if (blockedByIds.length === task.blockedByIds.length) {
+      throw new Error('Dependency not found');
+    }
+
+    task.blockedByIds = blockedByIds;
+    await task.save();
+    await this.taskActivityService.record({ task, actorId: userId, action: 'edited', fields: ['dependencies'] });
+
+    return this.broadcastChange(task, userId);
+  }
+
+  /**
+   * Delete a task
+   * Only its creator can, while still a team member
+   *
+   * @throws Error if the task is not found or the user may not delete it
+   */
+  async deleteTask(spaceId: string, taskId: string, userId: string): Promise<void> {
+    const task = await this.findTask(spaceId, taskId);
+
+    if (task.creatorId.toString() !== userId) {
+      throw new Error('Access denied: You are not authorized to delete this task');
+    }
+    await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    await SpaceTask.deleteOne({ _id: task._id });
+    // Tasks it was blocking are no longer waiting on it
+    await SpaceTask.updateMany({ spaceId: task.spaceId, blockedByIds: task._id }, { $pull: { blockedByIds: task._id } });
+    await TaskComment.deleteMany({ taskId: task._id });
+    await TaskActivity.deleteMany({ taskId: task._id });
+
+    await messageBroadcastService.broadcastGroupMessage(spaceId, {
+      type: MessageType.TASK_DELETED,
+      payload: { id: task.id, spaceId },
+      timestamp: new Date(),
+      senderId: userId,
+    });
+  }
+
+  /**
+   * Put tasks from before the board had columns into todo or done, in the order they were created
+   * Safe to run repeatedly; it is run when the server starts
+   *
+   * @returns How many tasks were moved
+   */
+  async migrateLegacyTasks(): Promise<number> {
+    // `completed` is no longer in the schema, so this goes to the collection directly
+    const result = await SpaceTask.collection.updateMany(
+      { status: { $exists: false } },
+      [
+        {
+          $set: {
+            status: { $cond: [{ $eq: ['$completed', true] }, 'done', 'todo'] },
+            position: { $toDouble: '$createdAt' },
+          },
+        },
+        { $unset: 'completed' },
+      ]
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * A task of the given space; a task of another space is not found, whatever the user can see
+   */
+  private async findTask(spaceId: string, taskId: string): Promise<ISpaceTask> {
+    const task = mongoose.isValidObjectId(spaceId) && mongoose.isValidObjectId(taskId)
+      ? await SpaceTask.findOne({ _id: taskId, spaceId })
+      : null;
+
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    return task;
+  }
+
+  /**
+   * @throws Error if the title is empty or either field is too long
+   */
+  private validateTask(title: string, description?: string): void {
+    if (!title) {
+      throw new Error('Invalid task: Title cannot be empty');
+    }
+    if (title.length > MAX_TITLE_LENGTH) {
+      throw new Error(`Invalid task: Title cannot exceed ${MAX_TITLE_LENGTH} characters`);
+    }
+    if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new Error(`Invalid task: Description cannot exceed ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+  }
+
+  private findChecklistItem(task: ISpaceTask, itemId: string) {
+    const item = mongoose.isValidObjectId(itemId) ? task.checklist.id(itemId) : null;
+
+    if (!item) {
+      throw new Error('Checklist item not found');
+    }
+
+    return item;
+  }
+
+  /**
+   * @returns The text, trimmed
+   * @throws Error if it is empty or too long
+   */
+  private validateChecklistText(text: string): string {
+    const trimmed = text.trim();
+
+    if (!trimmed) {
+      throw new Error('Invalid task: Checklist items cannot be empty');
+    }
+    if (trimmed.length > MAX_CHECKLIST_ITEM_LENGTH) {
+      throw new Error(`Invalid task: Checklist items cannot exceed ${MAX_CHECKLIST_ITEM_LENGTH} characters`);
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * The assignees as IDs, without repeats
+   *
+   * @throws Error if any of them is not a member of the space's team
+   */
+  private async validateAssignees(space: ITeamSpace, assigneeIds: string[]): Promise<mongoose.Types.ObjectId[]> {
+    const ids = [...new Set(assigneeIds)];
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const members = ids.every(id => mongoose.isValidObjectId(id))
+      ? await TeamMember.countDocuments({ postType: space.postType, postId: space.postId, userId: { $in: ids } })
+      : 0;
+
+    if (members !== ids.length) {
+      throw new Error('Invalid task: Tasks can only be assigned to team members');
+    }
+
+    return ids.map(id => new mongoose.Types.ObjectId(id));
+  }
+
+  /**
+   * The labels as IDs, without repeats
+   *
+   * @throws Error if any of them is not one of the space's labels
+   */
+  private async validateLabels(spaceId: string, labelIds: string[]): Promise<mongoose.Types.ObjectId[]> {
+    const ids = [...new Set(labelIds)];
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const labels = ids.every(id => mongoose.isValidObjectId(id))
+      ? await SpaceLabel.countDocuments({ spaceId, _id: { $in: ids } })
+      : 0;
+
+    if (labels !== ids.length) {
+      throw new Error('Invalid task: Labels must belong to this Builder Space');
+    }
+
+    return ids.map(id => new mongoose.Types.ObjectId(id));
+  }
+
+  /**
+   * @returns The milestone as an ID, or undefined for none
+   * @throws Error if it is not one of the space's milestones
+   */
+  private async validateMilestone(spaceId: string, milestoneId?: string | null): Promise<mongoose.Types.ObjectId | undefined> {
+    if (!milestoneId) {
+      return undefined;
+    }
+
+    const milestone = mongoose.isValidObjectId(milestoneId)
+      ? await SpaceMilestone.countDocuments({ spaceId, _id: milestoneId })
+      : 0;
+
+    if (milestone === 0) {
+      throw new Error('Invalid task: Milestones must belong to this Builder Space');
+    }
+
+    return new mongoose.Types.ObjectId(milestoneId);
+  }
+
+  /**
+   * Query conditions for a parsed filter, or null when nothing can match, e.g. a label
+   * none of the spaces has
+   */
+  private async filterConditions(
+    filter: TaskFilter,
+    userId: string,
+    spaceIds: string[]
+  ): Promise<FilterQuery<ISpaceTask>[] | null> {
+    const conditions: FilterQuery<ISpaceTask>[] = [];
+
+    if (filter.mine) {
+      conditions.push({ assigneeIds: userId });
+    }
+    if (filter.unassigned) {
+      // Also matches tasks from before assignees existed, which have no list at all
+      conditions.push({ 'assigneeIds.0': { $exists: false } });
+    }
+    if (filter.overdue) {
+      conditions.push({ dueDate: { $lt: new Date() }, status: { $ne: 'done' } });
+    }
+    if (filter.priorities.length > 0) {
+      conditions.push({ priority: { $in: filter.priorities } });
+    }
+    if (filter.statuses.length > 0) {
+      conditions.push({ status: { $in: filter.statuses } });
+    }
+
+    if (filter.labels.length > 0) {
+      const labels = await SpaceLabel.find({ spaceId: { $in: spaceIds }, name: { $in: filter.labels } });
+
+      // Each space has its own label of a name, so a task needs one of them for every name
+      for (const name of new Set(filter.labels)) {
+        const ids = labels.filter(label => label.name === name).map(label => label._id);
+        if (ids.length === 0) {
+          return null;
+        }
+        conditions.push({ labelIds: { $in: ids } });
+      }
+    }
+
+    return conditions;
+  }
+
+  private findPopulated(query: FilterQuery<ISpaceTask>) {
+    return SpaceTask.find(query)
+      .populate('creatorId', 'name')
+      .populate('completedBy', 'name')
+      .populate('assigneeIds', 'name');
+  }
+
+  /**
+   * Position below the last task in a column
+   */
+  private async nextPosition(spaceId: string, status: TaskStatus): Promise<number> {
+    const last = await SpaceTask.findOne({ spaceId, status }).sort({ position: -1 });
+    return last ? last.position + POSITION_STEP : 0;
+  }
+
+  /**
+   * A position between two neighbours, either of which may be missing, or undefined
+   * when they are too close together to fit one in
+   */
+  private positionBetween(before?: number, after?: number): number | undefined {
+    if (before === undefined && after === undefined) {
+      return 0;
+    }
+    if (before === undefined) {
+      return after! - POSITION_STEP;
+    }
+    if (after === undefined) {
+      return before + POSITION_STEP;
+    }
+
+    const middle = (before + after) / 2;
+    return middle > before && middle < after ? middle : undefined;
+  }
+
+  /**
+   * Give a column evenly spaced positions with the task at `index`, and send the
+   * other tasks' new positions to the team
+   */
+  private async renumberColumn(task: ISpaceTask, column: ISpaceTask[], index: number, userId: string): Promise<void> {
+    const ordered = [...column.slice(0, index), task, ...column.slice(index)];
+    ordered.forEach((columnTask, position) => {
+      columnTask.position = position * POSITION_STEP;
+    });
+
+    await Promise.all(ordered.map(columnTask => columnTask.save()));
+
+    for (const columnTask of ordered) {
+      if (columnTask !== task) {
+        await this.broadcast(MessageType.TASK_UPDATED, await this.toPayload(columnTask), userId);
+      }
+    }
+  }
+
+  private async broadcast(
+    type: typeof MessageType.TASK_CREATED | typeof MessageType.TASK_UPDATED,
+    payload: TaskPayload,
+    userId: string
+  ): Promise<void> {
+    await messageBroadcastService.broadcastGroupMessage(payload.spaceId, {
+      type,
+      payload,
+      timestamp: payload.updatedAt,
+      senderId: userId,
+    });
+  }
+
+  private async broadcastChange(task: ISpaceTask, userId: string): Promise<TaskPayload> {
+    const payload = await this.toPayload(task);
+    await this.broadcast(MessageType.TASK_UPDATED, payload, userId);
+    return payload;
+  }
+
+  private async toPayload(task: ISpaceTask): Promise<TaskPayload> {
+    await task.populate([
+      { path: 'creatorId', select: 'name' },
+      { path: 'completedBy', select: 'name' },
+      { path: 'assigneeIds', select: 'name' },
+    ]);
+    return this.toPopulatedPayload(task);
+  }
+
+  private toPopulatedPayload(task: ISpaceTask): TaskPayload {
+    const creator = task.creatorId as unknown as { _id: mongoose.Types.ObjectId; name?: string } | null;
+    const completedBy = task.completedBy as unknown as { _id: mongoose.Types.ObjectId; name?: string } | null;
+    // Users who have since been deleted populate as null
+    const assignees = (task.assigneeIds as unknown as ({ _id: mongoose.Types.ObjectId; name?: string } | null)[])
+      .filter(assignee => assignee?._id);
+
+    return {
+      id: task.id,
+      spaceId: task.spaceId.toString(),
+      creatorId: creator?._id?.toString() ?? '',
+      creatorName: creator?.name || 'Unknown User',
+      title: task.title,
+      description: task.description ?? null,
+      status: task.status,
+      position: task.position,
+      assignees: assignees.map(assignee => ({ id: assignee._id.toString(), name: assignee.name || 'Unknown User' })),
+      dueDate: task.dueDate ?? null,
+      priority: task.priority,
+      labelIds: task.labelIds.map(id => id.toString()),
+      checklist: task.checklist.map(item => ({ id: item._id.toString(), text: item.text, done: item.done })),
+      blockedByIds: task.blockedByIds.map(id => id.toString()),
+      milestoneId: task.milestoneId?.toString() ?? null,
+      completedBy: completedBy?._id?.toString() ?? null,
+      completedByName: completedBy ? completedBy.name || 'Unknown User' : null,
+      completedAt: task.completedAt ?? null,
+      createdAt: task.createdAt,
+      updatedAt: task.updatedAt,
+    };
   }
 }
 
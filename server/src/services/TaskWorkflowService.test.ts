@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TaskWorkflowService } from './TaskWorkflowService.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService } from './MessageBroadcastService.js';
+import { SpaceTask, TeamSpace } from '../db/index.js';
+import { PRIYA_ID, MARCUS_ID, SPACE_ID, storedSpace } from '../tests/fixtures.js';
+
+vi.mock('../db/index.js', () => ({
+  SpaceTask: {
+    distinct: vi.fn(),
+  },
+  TeamSpace: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./MessageBroadcastService.js', () => ({
+  MessageType: { TASK_WORKFLOW_UPDATED: 'task_workflow_updated' },
+  messageBroadcastService: { broadcastGroupMessage: vi.fn() },
+}));
+
+const DEFAULT_COLUMNS = [
+  { status: 'todo', name: 'To do' },
+  { status: 'in_progress', name: 'In progress' },
+  { status: 'review', name: 'Review' },
+  { status: 'done', name: 'Done' },
+];
+
+describe('TaskWorkflowService', () => {
+  let service: TaskWorkflowService;
+  let isMember: ReturnType<typeof vi.spyOn>;
+  let isFounder: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    isMember = vi.spyOn(BuilderSpaceService.prototype, 'validateTeamMemberAccess').mockResolvedValue(true);
+    isFounder = vi.spyOn(BuilderSpaceService.prototype, 'isFounder').mockResolvedValue(true);
+    vi.mocked(TeamSpace.findById).mockResolvedValue(storedSpace() as never);
+    vi.mocked(SpaceTask.distinct).mockResolvedValue([] as never);
+    service = new TaskWorkflowService();
+  });
+
+  it('should give a space that never changed its board the default columns', async () => {
+    const workflow = await service.getWorkflow(SPACE_ID, MARCUS_ID);
+
+    expect(workflow).toEqual({ spaceId: SPACE_ID, columns: DEFAULT_COLUMNS });
+
+    isMember.mockResolvedValue(false);
+    await expect(service.getWorkflow(SPACE_ID, MARCUS_ID)).rejects.toThrow('not a member');
+  });
+
+  it('should save renamed and added columns with trimmed names and tell the team', async () => {
+    const space = storedSpace();
+    vi.mocked(TeamSpace.findById).mockResolvedValue(space as never);
+    const columns = [
+      { status: 'todo', name: ' Backlog ' },
+      { status: 'in_progress', name: 'Building' },
+      { status: 'review', name: 'Review' },
+      { status: 'qa', name: 'QA' },
+      { status: 'done', name: 'Shipped' },
+    ];
+
+    const workflow = await service.updateWorkflow({ spaceId: SPACE_ID, userId: PRIYA_ID, columns });
+
+    expect(workflow.columns.map(column => column.name)).toEqual(['Backlog', 'Building', 'Review', 'QA', 'Shipped']);
+    expect(space.taskWorkflow).toEqual(workflow.columns);
+    expect(space.save).toHaveBeenCalled();
+    expect(messageBroadcastService.broadcastGroupMessage).toHaveBeenCalledWith(SPACE_ID, expect.objectContaining({
+      type: 'task_workflow_updated',
+      payload: workflow,
+      senderId: PRIYA_ID,
+    }));
+  });
+
+  it('should only let founders change the columns', async () => {
+    isFounder.mockResolvedValue(false);
+
+    await expect(service.updateWorkflow({ spaceId: SPACE_ID, userId: MARCUS_ID, columns: DEFAULT_COLUMNS }))
+      .rejects.toThrow('Access denied: Only founders can change the task board columns');
+    expect(messageBroadcastService.broadcastGroupMessage).not.toHaveBeenCalled();
+  });
+
+  it('should keep todo first, done last and every status its own', async () => {
+    const update = (columns: { status: string; name: string }[]) =>
+      service.updateWorkflow({ spaceId: SPACE_ID, userId: PRIYA_ID, columns });
+
+    await expect(update([{ status: 'in_progress', name: 'Building' }, { status: 'done', name: 'Done' }]))
+      .rejects.toThrow('Invalid workflow: The first column must be todo and the last done');
+    await expect(update([{ status: 'todo', name: 'To do' }, { status: 'review', name: 'Review' }]))
+      .rejects.toThrow('Invalid workflow: The first column must be todo and the last done');
+    await expect(update([{ status: 'todo', name: 'To do' }, { status: 'todo', name: 'Again' }, { status: 'done', name: 'Done' }]))
+      .rejects.toThrow('Invalid workflow: Each column needs its own status');
+    await expect(update([{ status: 'todo', name: 'To do' }, { status: 'QA!', name: 'QA' }, { status: 'done', name: 'Done' }]))
+      .rejects.toThrow('Invalid workflow: Statuses use lowercase letters');
+    await expect(update([{ status: 'todo', name: '   ' }, { status: 'done', name: 'Done' }]))
+      .rejects.toThrow('Invalid workflow: Column names are 1 to 30 characters');
+    expect(TeamSpace.findById).toHaveBeenCalledTimes(5);
+  });
+
+  it('should not remove a column that still has tasks', async () => {
+    vi.mocked(SpaceTask.distinct).mockResolvedValue(['review'] as never);
+
+    await expect(service.updateWorkflow({
+      spaceId: SPACE_ID,
+      userId: PRIYA_ID,
+      columns: [{ status: 'todo', name: 'To do' }, { status: 'done', name: 'Done' }],
+    })).rejects.toThrow('Invalid workflow: Move the tasks out of "Review" before removing it');
+    expect(SpaceTask.distinct).toHaveBeenCalledWith('status', {
+      spaceId: SPACE_ID,
+      status: { $in: ['in_progress', 'review'] },
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { SpaceTask, ITeamSpace, ITaskWorkflowColumn } from '../db/index.js';
+import { BuilderSpaceService } from './BuilderSpaceService.js';
+import { messageBroadcastService, MessageType } from './MessageBroadcastService.js';
+import {
+  DEFAULT_TASK_WORKFLOW,
+  taskStatusSchema,
+  TaskStatus,
+  TaskWorkflowColumn,
+  TaskWorkflowPayload,
+} from '../shared/realtimeProtocol.js';
+
+const FIRST_STATUS = 'todo';
+const LAST_STATUS = 'done';
+const MAX_COLUMNS = 8;
+const MAX_COLUMN_NAME_LENGTH = 30;
+
+export interface UpdateWorkflowParams {
+  spaceId: string;
+  userId: string;
+  columns: TaskWorkflowColumn[];
+}
+
+/**
+ * TaskWorkflowService manages the columns of a Builder Space's task board
+ *
+ * A space starts with To do, In progress, Review and Done (DEFAULT_TASK_WORKFLOW).
+ * Founders can rename every column and add, remove or reorder the ones in between;
+ * todo stays first because new tasks start there, and done stays last because tasks
+ * moved there count as finished. A column can only be removed once no task is in it.
+ * Changes are sent to the team as TASK_WORKFLOW_UPDATED.
+ */
+export class TaskWorkflowService {
+  private builderSpaceService: BuilderSpaceService;
+
+  constructor() {
+    this.builderSpaceService = new BuilderSpaceService();
+  }
+
+  /**
+   * Get a Builder Space's task board columns, in order
+   *
+   * @throws Error if the space is not found or the user is not a team member
+   */
+  async getWorkflow(spaceId: string, userId: string): Promise<TaskWorkflowPayload> {
+    const space = await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+    return { spaceId, columns: this.columnsOf(space) };
+  }
+
+  /**
+   * Replace a Builder Space's task board columns
+   *
+   * @param params - Space, changing user and every column in order; a column is kept by listing its status
+   * @returns The new workflow
+   * @throws Error if unauthorized, the user is not a founder, the columns are invalid
+   * or a removed column still has tasks
+   */
+  async updateWorkflow(params: UpdateWorkflowParams): Promise<TaskWorkflowPayload> {
+    const { spaceId, userId } = params;
+    const space = await this.builderSpaceService.requireMemberSpace(spaceId, userId);
+
+    const isFounder = await this.builderSpaceService.isFounder(
+      userId,
+      space.postType as 'startup' | 'hackathon',
+      space.postId.toString()
+    );
+
+    if (!isFounder) {
+      throw new Error('Access denied: Only founders can change the task board columns');
+    }
+
+    const columns = this.validateColumns(params.columns);
+
+    const kept = new Set(columns.map(column => column.status));
+    const removed = this.columnsOf(space).filter(column => !kept.has(column.status));
+    if (removed.length > 0) {
+      const occupied: string[] = await SpaceTask.distinct('status', {
+        spaceId: space._id,
+        status: { $in: removed.map(column => column.status) },
+      });
+
+      if (occupied.length > 0) {
+        const names = removed.filter(column => occupied.includes(column.status)).map(column => `"${column.name}"`);
+        throw new Error(`Invalid workflow: Move the tasks out of ${names.join(', ')} before removing ${names.length > 1 ? 'them' : 'it'}`);
+      }
+    }
+
+    space.taskWorkflow = columns;
+    await space.save();
+
+    const payload = { spaceId, columns };
+    await messageBroadcastService.broadcastGroupMessage(spaceId, {
+      type: MessageType.TASK_WORKFLOW_UPDATED,
+      payload,
+      timestamp: new Date(),
+      senderId: userId,
+    });
+
+    return payload;
+  }
+
+  /**
+   * A space's columns, or the default ones if it never changed them
+   */
+  columnsOf(space: Pick<ITeamSpace, 'taskWorkflow'>): TaskWorkflowColumn[] {
+    const columns = space.taskWorkflow?.length ? space.taskWorkflow : DEFAULT_TASK_WORKFLOW;
+    return columns.map(({ status, name }) => ({ status, name }));
+  }
+
+  /**
+   * Check that a task can be put in a column of its space's board
+   *
+   * @throws Error if the space has no such column
+   */
+  validateStatus(space: Pick<ITeamSpace, 'taskWorkflow'>, status: TaskStatus): void {
+    if (!this.columnsOf(space).some(column => column.status === status)) {
+      throw new Error(`Invalid task: "${status}" is not a column of this task board`);
+    }
+  }
+
+  /**
+   * The columns with their names trimmed
+   *
+   * @throws Error if there are too few or too many, a status repeats or is malformed, a name is
+   * empty or too long, or the board doesn't start with todo and end with done
+   */
+  private validateColumns(columns: TaskWorkflowColumn[]): ITaskWorkflowColumn[] {
+    if (columns.length < 2 || columns.length > MAX_COLUMNS) {
+      throw new Error(`Invalid workflow: A task board has between 2 and ${MAX_COLUMNS} columns`);
+    }
+    if (columns[0].status !== FIRST_STATUS || columns[columns.length - 1].status !== LAST_STATUS) {
+      throw new Error(`Invalid workflow: The first column must be ${FIRST_STATUS} and the last ${LAST_STATUS}`);
+    }
+    if (new Set(columns.map(column => column.status)).size !== columns.length) {
+      throw new Error('Invalid workflow: Each column needs its own status');
+    }
+
+    return columns.map(({ status, name }) => {
+      if (!taskStatusSchema.safeParse(status).success) {
+        throw new Error('Invalid workflow: Statuses use lowercase letters, numbers and _, starting with a letter');
+      }
+
+      const trimmed = name.trim();
+      if (!trimmed || trimmed.length > MAX_COLUMN_NAME_LENGTH) {
+        throw new Error(`Invalid workflow: Column names are 1 to ${MAX_COLUMN_NAME_LENGTH} characters`);
+      }
+
+      return { status, name: trimmed };
+    });
+  }
+}
+
+export const taskWorkflowService = new TaskWorkflowService();
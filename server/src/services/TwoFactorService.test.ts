@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TwoFactorService } from './TwoFactorService.js';
+import { User } from '../db/index.js';
+import { generateTwoFactorChallengeToken, hashToken } from '../utils/jwt.js';
+import { generateTotp, generateTotpSecret } from '../utils/totp.js';
+
+vi.mock('../db/index.js', () => ({
+  User: {
+    findById: vi.fn(),
+    findByIdAndUpdate: vi.fn(),
+    updateOne: vi.fn(),
+  },
+}));
+
+const mockSelectedUser = (user: Record<string, unknown> | null) => {
+  vi.mocked(User.findById).mockReturnValue({
+    select: vi.fn().mockResolvedValue(user),
+  } as never);
+};
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-secret';
+    service = new TwoFactorService();
+    vi.clearAllMocks();
+  });
+
+  describe('enrollment', () => {
+    it('should store a pending secret and return an otpauth URI', async () => {
+      const user: Record<string, unknown> = { _id: 'user-1', email: 'priya@test.com', twoFactorEnabled: false, save: vi.fn() };
+      vi.mocked(User.findById).mockResolvedValue(user as never);
+
+      const { secret, otpauthUri } = await service.beginSetup('user-1');
+
+      expect(user.twoFactorPendingSecret).toBe(secret);
+      expect(user.twoFactorEnabled).toBe(false);
+      expect(otpauthUri).toContain(`secret=${secret}`);
+      expect(user.save).toHaveBeenCalled();
+    });
+
+    it('should enable two-factor with a valid code and return hashed recovery codes', async () => {
+      const secret = generateTotpSecret();
+      const user: Record<string, unknown> = { _id: 'user-1', twoFactorEnabled: false, twoFactorPendingSecret: secret, save: vi.fn() };
+      mockSelectedUser(user);
+
+      const recoveryCodes = await service.enable('user-1', generateTotp(secret));
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(user.twoFactorEnabled).toBe(true);
+      expect(user.twoFactorSecret).toBe(secret);
+      expect(user.twoFactorPendingSecret).toBeUndefined();
+      expect(user.twoFactorRecoveryCodes).toEqual(
+        recoveryCodes.map((code) => hashToken(code.replace('-', '')))
+      );
+    });
+
+    it('should not enable two-factor with a wrong code', async () => {
+      const secret = generateTotpSecret();
+      const user = { _id: 'user-1', twoFactorEnabled: false, twoFactorPendingSecret: secret, save: vi.fn() };
+      mockSelectedUser(user);
+
+      const wrongCode = generateTotp(secret) === '000000' ? '111111' : '000000';
+      await expect(service.enable('user-1', wrongCode)).rejects.toThrow('Invalid two-factor code');
+      expect(user.twoFactorEnabled).toBe(false);
+      expect(user.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeChallenge', () => {
+    const secret = generateTotpSecret();
+    const enabledUser = () => ({ _id: 'user-1', email: 'priya@test.com', twoFactorEnabled: true, twoFactorSecret: secret });
+
+    it('should accept a current code once', async () => {
+      const user = enabledUser();
+      mockSelectedUser(user);
+      vi.mocked(User.updateOne).mockResolvedValue({ modifiedCount: 1 } as never);
+
+      const result = await service.completeChallenge(
+        generateTwoFactorChallengeToken('user-1', 'priya@test.com'),
+        generateTotp(secret)
+      );
+
+      expect(result).toBe(user);
+      expect(User.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: 'user-1' }),
+        expect.objectContaining({ $set: expect.objectContaining({ twoFactorLastUsedStep: expect.any(Number) }) })
+      );
+    });
+
+    it('should reject a replayed code and count the failure', async () => {
+      mockSelectedUser(enabledUser());
+      vi.mocked(User.updateOne).mockResolvedValue({ modifiedCount: 0 } as never);
+      vi.mocked(User.findByIdAndUpdate).mockReturnValue({
+        select: vi.fn().mockResolvedValue({ twoFactorFailedAttempts: 1 }),
+      } as never);
+
+      await expect(
+        service.completeChallenge(generateTwoFactorChallengeToken('user-1', 'priya@test.com'), generateTotp(secret))
+      ).rejects.toThrow('Invalid two-factor code');
+      expect(User.findByIdAndUpdate).toHaveBeenCalledWith('user-1', { $inc: { twoFactorFailedAttempts: 1 } }, { new: true });
+    });
+
+    it('should consume a recovery code', async () => {
+      mockSelectedUser(enabledUser());
+      vi.mocked(User.updateOne).mockResolvedValue({ modifiedCount: 1 } as never);
+
+      await service.completeChallenge(generateTwoFactorChallengeToken('user-1', 'priya@test.com'), 'ABCDE-12345');
+
+      const hash = hashToken('abcde12345');
+      expect(User.updateOne).toHaveBeenCalledWith(
+        { _id: 'user-1', twoFactorRecoveryCodes: hash },
+        expect.objectContaining({ $pull: { twoFactorRecoveryCodes: hash } })
+      );
+    });
+
+    it('should lock the second step after too many failures', async () => {
+      mockSelectedUser(enabledUser());
+      vi.mocked(User.updateOne).mockResolvedValue({ modifiedCount: 0 } as never);
+      vi.mocked(User.findByIdAndUpdate).mockReturnValue({
+        select: vi.fn().mockResolvedValue({ twoFactorFailedAttempts: 5 }),
+      } as never);
+
+      await expect(
+        service.completeChallenge(generateTwoFactorChallengeToken('user-1', 'priya@test.com'), '000000')
+      ).rejects.toThrow('Invalid two-factor code');
+      expect(User.updateOne).toHaveBeenLastCalledWith(
+        { _id: 'user-1' },
+        { $set: expect.objectContaining({ twoFactorLockedUntil: expect.any(Date) }) }
+      );
+
+      mockSelectedUser({ ...enabledUser(), twoFactorLockedUntil: new Date(Date.now() + 60_000) });
+      await expect(
+        service.completeChallenge(generateTwoFactorChallengeToken('user-1', 'priya@test.com'), generateTotp(secret))
+      ).rejects.toThrow('Too many');
+    });
+
+    it('should reject tampered challenges', async () => {
+      await expect(service.completeChallenge('not-a-token', '123456')).rejects.toThrow('invalid or has expired');
+      expect(User.findById).not.toHaveBeenCalled();
+    });
+  });
+});
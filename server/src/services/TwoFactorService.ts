@@ -0,0 +1,260 @@
+import crypto from 'crypto';
+import { User, IUser } from '../db/index.js';
+import { hashToken, verifyTwoFactorChallengeToken } from '../utils/jwt.js';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp.js';
+
+// Fields excluded from queries by default that the two-factor checks need
+const TWO_FACTOR_FIELDS = '+twoFactorSecret +twoFactorPendingSecret +twoFactorLastUsedStep +twoFactorLockedUntil';
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * TwoFactorService manages optional TOTP two-factor authentication
+ *
+ * Enrollment is two-step: setup stores a pending secret, and only a valid code
+ * from the authenticator app turns it on. Enabling also issues single-use
+ * recovery codes, which are stored only as SHA-256 hashes.
+ *
+ * Codes are accepted at most once, and repeated failures lock the second step
+ * for a while to stop brute force guessing.
+ */
+export class TwoFactorService {
+  private readonly RECOVERY_CODE_COUNT = 10;
+  private readonly MAX_FAILED_ATTEMPTS = 5;
+  private readonly LOCKOUT_MS = 15 * 60 * 1000; // 15 minutes
+
+  /**
+   * Start enrollment by generating a new secret for the user's authenticator app
+   *
+   * @param userId - The ID of the user
+   * @returns The base32 secret and the otpauth:// URI for QR codes
+   * @throws Error if the user is not found or already has two-factor enabled
+   */
+  async beginSetup(userId: string): Promise<TwoFactorSetup> {
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save();
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   *
+   * @param userId - The ID of the user
+   * @param code - The current 6-digit code
+   * @returns The recovery codes, shown to the user exactly once
+   * @throws Error if there is no pending setup or the code is wrong
+   */
+  async enable(userId: string, code: string): Promise<string[]> {
+    const user = await User.findById(userId).select(TWO_FACTOR_FIELDS);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      throw new Error('No two-factor setup in progress');
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code.trim());
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    user.twoFactorEnabled = true;
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorRecoveryCodes = recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode));
+    user.twoFactorLastUsedStep = step;
+    user.twoFactorFailedAttempts = 0;
+    await user.save();
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn two-factor authentication off
+   *
+   * @param userId - The ID of the user
+   * @param code - A current code or an unused recovery code
+   * @throws Error if two-factor is not enabled or the code is wrong
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.getEnabledUser(userId);
+
+    await this.verifySecondFactor(user, code);
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: { twoFactorEnabled: false, twoFactorRecoveryCodes: [], twoFactorFailedAttempts: 0 },
+        $unset: { twoFactorSecret: 1, twoFactorPendingSecret: 1, twoFactorLastUsedStep: 1, twoFactorLockedUntil: 1 },
+      }
+    );
+  }
+
+  /**
+   * Replace all recovery codes with a fresh set
+   *
+   * @param userId - The ID of the user
+   * @param code - A current code or an unused recovery code
+   * @returns The new recovery codes
+   * @throws Error if two-factor is not enabled or the code is wrong
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.getEnabledUser(userId);
+
+    await this.verifySecondFactor(user, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await User.updateOne(
+      { _id: user._id },
+      { $set: { twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)) } }
+    );
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Complete the second login step
+   *
+   * @param challengeToken - The challenge token returned by the first login step
+   * @param code - A current code or an unused recovery code
+   * @returns The user, ready for a session to be started
+   * @throws Error if the challenge is invalid or expired, or the code is wrong
+   */
+  async completeChallenge(challengeToken: string, code: string): Promise<IUser> {
+    let userId: string;
+    try {
+      userId = verifyTwoFactorChallengeToken(challengeToken).userId;
+    } catch {
+      throw new Error('Two-factor challenge is invalid or has expired');
+    }
+
+    const user = await User.findById(userId).select(TWO_FACTOR_FIELDS);
+
+    if (!user || !user.twoFactorEnabled) {
+      throw new Error('Two-factor challenge is invalid or has expired');
+    }
+
+    await this.verifySecondFactor(user, code);
+
+    return user;
+  }
+
+  private async getEnabledUser(userId: string): Promise<IUser> {
+    const user = await User.findById(userId).select(TWO_FACTOR_FIELDS);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!user.twoFactorEnabled) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    return user;
+  }
+
+  /**
+   * Accept either a TOTP code or a recovery code, each at most once
+   */
+  private async verifySecondFactor(user: IUser, code: string): Promise<void> {
+    if (user.twoFactorLockedUntil && user.twoFactorLockedUntil > new Date()) {
+      throw new Error('Too many two-factor attempts. Please try again later');
+    }
+
+    const trimmed = code.trim();
+
+    if (user.twoFactorSecret) {
+      const step = verifyTotp(user.twoFactorSecret, trimmed);
+
+      if (step !== null) {
+        // Only a newer time step than the last accepted one counts, so a code cannot be replayed
+        const result = await User.updateOne(
+          {
+            _id: user._id,
+            $or: [{ twoFactorLastUsedStep: { $exists: false } }, { twoFactorLastUsedStep: { $lt: step } }],
+          },
+          {
+            $set: { twoFactorLastUsedStep: step, twoFactorFailedAttempts: 0 },
+            $unset: { twoFactorLockedUntil: 1 },
+          }
+        );
+
+        if (result.modifiedCount === 1) {
+          return;
+        }
+      }
+    }
+
+    const recoveryHash = this.hashRecoveryCode(trimmed);
+    const result = await User.updateOne(
+      { _id: user._id, twoFactorRecoveryCodes: recoveryHash },
+      {
+        $pull: { twoFactorRecoveryCodes: recoveryHash },
+        $set: { twoFactorFailedAttempts: 0 },
+        $unset: { twoFactorLockedUntil: 1 },
+      }
+    );
+
+    if (result.modifiedCount === 1) {
+      return;
+    }
+
+    await this.recordFailedAttempt(user);
+    throw new Error('Invalid two-factor code');
+  }
+
+  private async recordFailedAttempt(user: IUser): Promise<void> {
+    const updated = await User.findByIdAndUpdate(
+      user._id,
+      { $inc: { twoFactorFailedAttempts: 1 } },
+      { new: true }
+    ).select('+twoFactorFailedAttempts');
+
+    if (updated && updated.twoFactorFailedAttempts >= this.MAX_FAILED_ATTEMPTS) {
+      await User.updateOne(
+        { _id: user._id },
+        { $set: { twoFactorFailedAttempts: 0, twoFactorLockedUntil: new Date(Date.now() + this.LOCKOUT_MS) } }
+      );
+    }
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  // Recovery codes are matched case-insensitively and with or without the dash
+  private hashRecoveryCode(code: string): string {
+    return hashToken(code.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { parseMarkdown } from './markdown.js';
+
+describe('parseMarkdown', () => {
+  it('should parse bold, italics, inline code and links with their source positions', () => {
+    const [paragraph] = parseMarkdown('**Ship** it _today_, see `npm run build` and https://example.com/docs.');
+
+    expect(paragraph).toEqual({
+      type: 'paragraph',
+      children: [
+        { type: 'strong', children: [{ type: 'text', text: 'Ship', offset: 2 }] },
+        { type: 'text', text: ' it ', offset: 8 },
+        { type: 'emphasis', children: [{ type: 'text', text: 'today', offset: 13 }] },
+        { type: 'text', text: ', see ', offset: 19 },
+        { type: 'code', text: 'npm run build', start: 25, end: 40 },
+        { type: 'text', text: ' and ', offset: 40 },
+        { type: 'link', url: 'https://example.com/docs', offset: 45 },
+        { type: 'text', text: '.', offset: 69 },
+      ],
+    });
+  });
+
+  it('should parse lists and fenced code blocks with a language tag', () => {
+    const source = 'Steps:\n1. install\n2. run\n\n```TS\nconst a = 1 < 2;\n```\n- done';
+
+    expect(parseMarkdown(source)).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'Steps:', offset: 0 }] },
+      {
+        type: 'list',
+        ordered: true,
+        start: 1,
+        items: [[{ type: 'text', text: 'install', offset: 10 }], [{ type: 'text', text: 'run', offset: 21 }]],
+      },
+      { type: 'codeBlock', language: 'ts', code: 'const a = 1 < 2;', start: 26, end: 52 },
+      { type: 'list', ordered: false, start: 1, items: [[{ type: 'text', text: 'done', offset: 55 }]] },
+    ]);
+  });
+
+  it('should leave snake_case, escapes, unclosed delimiters and other Markdown as text', () => {
+    const text = (source: string) => parseMarkdown(source).flatMap(block =>
+      block.type === 'paragraph' ? block.children.map(node => node.type === 'text' ? node.text : node.type) : [block.type]
+    ).join('');
+
+    expect(text('call my_func_name now')).toBe('call my_func_name now');
+    expect(text('\\*not italic\\*')).toBe('*not italic*');
+    expect(text('2 * 3 and **open')).toBe('2 * 3 and **open');
+    expect(text('# Title and [docs](https\\://example.com)')).toBe('# Title and [docs](https://example.com)');
+  });
+
+  it('should run an unclosed code fence to the end of the message', () => {
+    expect(parseMarkdown('```\n**not bold**')).toEqual([
+      { type: 'codeBlock', language: null, code: '**not bold**', start: 0, end: 16 },
+    ]);
+  });
+});
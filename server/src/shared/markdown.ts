@@ -0,0 +1,359 @@
+/**
+ * The Markdown dialect of chat messages
+ *
+ * Messages are stored as Markdown source and rendered by the client. The dialect
+ * is deliberately small: **bold** (or __bold__), *italics* (or _italics_),
+ * bulleted and numbered lists, `inline code`, fenced code blocks with an
+ * optional language tag, and bare http(s) URLs, which become links. Anything
+ * else, like headings, quotes or [text](url) links, stays plain text, and a
+ * backslash before punctuation keeps it literal.
+ *
+ * This file is imported by the frontend as well (via the @shared alias). The
+ * server parses messages with it before storing them, so both sides agree on
+ * what is code and what is a link.
+ */
+
+export interface MarkdownText {
+  type: 'text';
+  text: string;
+  // Where the text starts in the source, so mentions can be placed on it
+  offset: number;
+}
+
+export interface MarkdownStrong {
+  type: 'strong';
+  children: MarkdownInline[];
+}
+
+export interface MarkdownEmphasis {
+  type: 'emphasis';
+  children: MarkdownInline[];
+}
+
+export interface MarkdownCode {
+  type: 'code';
+  text: string;
+  // The span in the source, backticks included
+  start: number;
+  end: number;
+}
+
+export interface MarkdownLink {
+  type: 'link';
+  url: string;
+  offset: number;
+}
+
+export type MarkdownInline = MarkdownText | MarkdownStrong | MarkdownEmphasis | MarkdownCode | MarkdownLink;
+
+export interface MarkdownParagraph {
+  type: 'paragraph';
+  children: MarkdownInline[];
+}
+
+export interface MarkdownList {
+  type: 'list';
+  ordered: boolean;
+  // Number of the first item in a numbered list
+  start: number;
+  items: MarkdownInline[][];
+}
+
+export interface MarkdownCodeBlock {
+  type: 'codeBlock';
+  // Lowercased language tag, or null when there is none or it isn't a plain name
+  language: string | null;
+  code: string;
+  // The block in the source, fences included
+  start: number;
+  end: number;
+}
+
+export type MarkdownBlock = MarkdownParagraph | MarkdownList | MarkdownCodeBlock;
+
+interface SourceLine {
+  text: string;
+  offset: number;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)[ \t]*$/;
+const LANGUAGE = /^[a-z0-9_+#.-]{1,20}$/i;
+const BULLET_ITEM = /^ {0,3}[-*+][ \t]+(?=\S)/;
+const NUMBERED_ITEM = /^ {0,3}(\d{1,9})[.)][ \t]+(?=\S)/;
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+const WORD_CHARACTER = /[\p{L}\p{N}_]/u;
+const WHITESPACE = /\s/;
+const URL_PATTERN = /^https?:\/\/[^\s<>`"]+/i;
+// Usually ends the sentence around a URL rather than the URL itself
+const URL_TRAILING_PUNCTUATION = /[.,:;!?'*_~]$/;
+
+/**
+ * Parse message content into blocks
+ *
+ * @param source - Message content
+ * @returns Paragraphs, lists and code blocks in order
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = splitLines(source);
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const fence = FENCE.exec(line.text);
+
+    if (fence) {
+      // An unclosed fence runs to the end of the message
+      let closing = index + 1;
+      while (closing < lines.length && !isClosingFence(lines[closing].text, fence[1])) {
+        closing++;
+      }
+      const last = lines[Math.min(closing, lines.length - 1)];
+
+      blocks.push({
+        type: 'codeBlock',
+        language: LANGUAGE.test(fence[2]) ? fence[2].toLowerCase() : null,
+        code: lines.slice(index + 1, closing).map(codeLine => codeLine.text).join('\n'),
+        start: line.offset,
+        end: last.offset + last.text.length,
+      });
+      index = closing + 1;
+      continue;
+    }
+
+    if (!line.text.trim()) {
+      index++;
+      continue;
+    }
+
+    const ordered = NUMBERED_ITEM.test(line.text);
+    if (ordered || BULLET_ITEM.test(line.text)) {
+      const marker = ordered ? NUMBERED_ITEM : BULLET_ITEM;
+      const items: MarkdownInline[][] = [];
+      const start = ordered ? Number(NUMBERED_ITEM.exec(line.text)![1]) : 1;
+
+      while (index < lines.length && marker.test(lines[index].text)) {
+        const { text, offset } = lines[index];
+        const markerLength = marker.exec(text)![0].length;
+        items.push(parseInline(text.slice(markerLength), offset + markerLength));
+        index++;
+      }
+
+      blocks.push({ type: 'list', ordered, start, items });
+      continue;
+    }
+
+    // A paragraph runs until a blank line or another kind of block
+    let last = index;
+    while (last + 1 < lines.length && startsParagraphLine(lines[last + 1].text)) {
+      last++;
+    }
+
+    const end = lines[last].offset + lines[last].text.length;
+    blocks.push({ type: 'paragraph', children: parseInline(source.slice(line.offset, end), line.offset) });
+    index = last + 1;
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse the inline parts of a paragraph or list item
+ *
+ * @param text - The text
+ * @param offset - Where the text starts in the message
+ */
+function parseInline(text: string, offset: number): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let plainStart = 0;
+  let index = 0;
+
+  const flush = (end: number) => {
+    if (end > plainStart) {
+      nodes.push({ type: 'text', text: text.slice(plainStart, end), offset: offset + plainStart });
+    }
+  };
+  const emit = (node: MarkdownInline, start: number, end: number) => {
+    flush(start);
+    nodes.push(node);
+    index = end;
+    plainStart = end;
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === '\\' && ESCAPABLE.test(text[index + 1] ?? '')) {
+      emit({ type: 'text', text: text[index + 1], offset: offset + index + 1 }, index, index + 2);
+      continue;
+    }
+
+    if (char === '`') {
+      const run = runLength(text, index, '`');
+      const closing = findClosingBackticks(text, index + run, run);
+
+      if (closing === -1) {
+        index += run;
+        continue;
+      }
+
+      let code = text.slice(index + run, closing);
+      if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim()) {
+        code = code.slice(1, -1);
+      }
+      emit({ type: 'code', text: code, start: offset + index, end: offset + closing + run }, index, closing + run);
+      continue;
+    }
+
+    if (char === '*' || char === '_') {
+      const emphasis = parseEmphasis(text, index, offset);
+
+      if (!emphasis) {
+        index += runLength(text, index, char);
+        continue;
+      }
+
+      emit(emphasis.node, index, emphasis.end);
+      continue;
+    }
+
+    if ((char === 'h' || char === 'H') && (index === 0 || !WORD_CHARACTER.test(text[index - 1]))) {
+      const url = matchURL(text, index);
+
+      if (url) {
+        emit({ type: 'link', url, offset: offset + index }, index, index + url.length);
+        continue;
+      }
+    }
+
+    index++;
+  }
+
+  flush(text.length);
+  return nodes;
+}
+
+/**
+ * Bold or italics opening at `start`, if the delimiter is closed later on
+ */
+function parseEmphasis(text: string, start: number, offset: number): { node: MarkdownInline; end: number } | null {
+  const char = text[start];
+  const delimiter = text[start + 1] === char ? char + char : char;
+  const contentStart = start + delimiter.length;
+
+  // The opener must touch the text, and `_` inside a word (snake_case) is no delimiter
+  if (!text[contentStart] || WHITESPACE.test(text[contentStart])) {
+    return null;
+  }
+  if (char === '_' && start > 0 && WORD_CHARACTER.test(text[start - 1])) {
+    return null;
+  }
+
+  let index = contentStart + 1;
+  while (index < text.length) {
+    if (text[index] === '\\') {
+      index += 2;
+      continue;
+    }
+
+    if (text[index] === '`') {
+      const run = runLength(text, index, '`');
+      const closing = findClosingBackticks(text, index + run, run);
+      index = closing === -1 ? index + run : closing + run;
+      continue;
+    }
+
+    if (text.startsWith(delimiter, index)) {
+      const afterIndex = index + delimiter.length;
+      const closes = !WHITESPACE.test(text[index - 1]) &&
+        (char !== '_' || !WORD_CHARACTER.test(text[afterIndex] ?? ''));
+
+      // A single delimiter next to another one belongs to a nested bold
+      if (delimiter.length === 1 && text[afterIndex] === char) {
+        index = afterIndex + 1;
+        continue;
+      }
+
+      if (closes) {
+        const children = parseInline(text.slice(contentStart, index), offset + contentStart);
+        return {
+          node: { type: delimiter.length === 2 ? 'strong' : 'emphasis', children },
+          end: afterIndex,
+        };
+      }
+    }
+
+    index++;
+  }
+
+  return null;
+}
+
+/**
+ * The URL starting at `start`, without punctuation that most likely ends the sentence
+ */
+function matchURL(text: string, start: number): string | null {
+  const match = URL_PATTERN.exec(text.slice(start));
+  if (!match) {
+    return null;
+  }
+
+  let url = match[0];
+  while (
+    URL_TRAILING_PUNCTUATION.test(url) ||
+    (url.endsWith(')') && url.split('(').length < url.split(')').length)
+  ) {
+    url = url.slice(0, -1);
+  }
+
+  // Needs at least a host
+  return /^https?:\/\/[^/?#]+/i.test(url) ? url : null;
+}
+
+function splitLines(source: string): SourceLine[] {
+  const lines: SourceLine[] = [];
+  let offset = 0;
+
+  for (const text of source.split('\n')) {
+    lines.push({ text, offset });
+    offset += text.length + 1;
+  }
+
+  return lines;
+}
+
+function isClosingFence(text: string, opening: string): boolean {
+  const trimmed = text.trim();
+  return trimmed.length >= opening.length &&
+    trimmed === opening[0].repeat(trimmed.length) &&
+    /^ {0,3}\S/.test(text);
+}
+
+function startsParagraphLine(text: string): boolean {
+  return !!text.trim() && !FENCE.test(text) && !BULLET_ITEM.test(text) && !NUMBERED_ITEM.test(text);
+}
+
+function runLength(text: string, start: number, char: string): number {
+  let end = start;
+  while (text[end] === char) {
+    end++;
+  }
+  return end - start;
+}
+
+/**
+ * Position of the backtick run that closes a code span opened by `length` backticks, or -1
+ */
+function findClosingBackticks(text: string, from: number, length: number): number {
+  let index = text.indexOf('`', from);
+
+  while (index !== -1) {
+    const run = runLength(text, index, '`');
+    if (run === length) {
+      return index;
+    }
+    index = text.indexOf('`', index + run);
+  }
+
+  return -1;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { MessageType, serverMessageSchema, clientMessageSchema } from './realtimeProtocol.js';
+
+describe('realtime protocol', () => {
+  const groupMessage = {
+    type: MessageType.GROUP_MESSAGE,
+    payload: {
+      id: 'msg-1',
+      spaceId: 'space-1',
+      senderId: 'user-1',
+      senderName: 'Priya',
+      content: 'hello',
+      createdAt: '2024-01-01T10:00:00.000Z',
+      updatedAt: '2024-01-01T10:00:00.000Z',
+    },
+    timestamp: '2024-01-01T10:00:00.000Z',
+    senderId: 'user-1',
+    seq: 3,
+  };
+
+  it('should parse server messages as they arrive over the wire', () => {
+    const result = serverMessageSchema.safeParse(JSON.parse(JSON.stringify(groupMessage)));
+
+    expect(result.success).toBe(true);
+    expect(result.data?.type).toBe(MessageType.GROUP_MESSAGE);
+    expect(result.data?.timestamp).toEqual(new Date('2024-01-01T10:00:00.000Z'));
+    expect(result.data?.payload).toMatchObject({ content: 'hello', createdAt: new Date('2024-01-01T10:00:00.000Z') });
+  });
+
+  it('should reject server messages whose payload does not match their type', () => {
+    expect(serverMessageSchema.safeParse({ ...groupMessage, type: MessageType.TASK_CREATED }).success).toBe(false);
+    expect(serverMessageSchema.safeParse({ ...groupMessage, type: 'unknown' }).success).toBe(false);
+    expect(serverMessageSchema.safeParse({ ...groupMessage, payload: { spaceId: 'space-1' } }).success).toBe(false);
+  });
+
+  it('should only accept the frames clients are allowed to send', () => {
+    expect(clientMessageSchema.safeParse({ type: MessageType.HEARTBEAT }).success).toBe(true);
+    expect(clientMessageSchema.safeParse({ type: MessageType.ACK, payload: { seq: 4 } }).success).toBe(true);
+
+    expect(clientMessageSchema.safeParse({ type: MessageType.ACK, payload: { seq: 0 } }).success).toBe(false);
+    expect(clientMessageSchema.safeParse({ type: MessageType.ACK, payload: { seq: '4' } }).success).toBe(false);
+    expect(clientMessageSchema.safeParse({ type: MessageType.GROUP_MESSAGE, payload: {} }).success).toBe(false);
+    expect(clientMessageSchema.safeParse('heartbeat').success).toBe(false);
+  });
+
+  it('should require a client id and a valid payload on commands', () => {
+    const command = { type: MessageType.SEND_GROUP_MESSAGE, payload: { spaceId: 'space-1', content: 'hello' } };
+
+    expect(clientMessageSchema.safeParse({ ...command, clientId: 'c-1' }).success).toBe(true);
+    expect(clientMessageSchema.safeParse(command).success).toBe(false);
+    expect(clientMessageSchema.safeParse({ ...command, clientId: 'c-1', payload: { spaceId: 'space-1', content: '' } }).success).toBe(false);
+    expect(clientMessageSchema.safeParse({
+      type: MessageType.MOVE_TASK,
+      clientId: 'c-2',
+      payload: { spaceId: 'space-1', taskId: 'task-1', status: 'In Review' },
+    }).success).toBe(false);
+  });
+});
@@ -0,0 +1,673 @@
+import { z } from 'zod';
+
+/**
+ * WebSocket protocol shared by the server and the web client
+ *
+ * This file is imported by the frontend as well (via the @shared alias), so it
+ * must only depend on zod and use the parts of its API that the server's and
+ * the client's zod versions have in common.
+ *
+ * Every message is a JSON object discriminated by `type`. Server messages are
+ * validated by the client before handlers see them; client messages are
+ * validated by the server before they are acted on.
+ */
+
+export const MessageType = {
+  // Connection management
+  CONNECT: 'connect',
+  DISCONNECT: 'disconnect',
+  HEARTBEAT: 'heartbeat',
+  ACK: 'ack',
+  RESYNC_REQUIRED: 'resync_required',
+
+  // Commands sent by clients, answered with an ack or a nack
+  SEND_GROUP_MESSAGE: 'send_group_message',
+  SEND_SCREENING_MESSAGE: 'send_screening_message',
+  SEND_DIRECT_MESSAGE: 'send_direct_message',
+  MOVE_TASK: 'move_task',
+  COMMAND_ACK: 'command_ack',
+  COMMAND_NACK: 'command_nack',
+
+  // Who has a chat open and who is typing in it
+  OPEN_CHAT: 'open_chat',
+  CLOSE_CHAT: 'close_chat',
+  TYPING_START: 'typing_start',
+  TYPING_STOP: 'typing_stop',
+  CHAT_PRESENCE: 'chat_presence',
+  TYPING: 'typing',
+
+  // How far each participant has read
+  READ_RECEIPT: 'read_receipt',
+
+  // Group chat messages
+  GROUP_MESSAGE: 'group_message',
+  GROUP_MESSAGE_UPDATED: 'group_message_updated',
+  GROUP_MESSAGE_REPLY: 'group_message_reply',
+  GROUP_MESSAGE_REACTION: 'group_message_reaction',
+
+  // Screening chat messages
+  SCREENING_MESSAGE: 'screening_message',
+  SCREENING_MESSAGE_UPDATED: 'screening_message_updated',
+
+  // Direct messages between teammates
+  DIRECT_MESSAGE: 'direct_message',
+
+  // Builder Space updates
+  CHANNEL_UPDATED: 'channel_updated',
+  LINK_ADDED: 'link_added',
+  LINK_REMOVED: 'link_removed',
+  TASK_CREATED: 'task_created',
+  TASK_UPDATED: 'task_updated',
+  TASK_DELETED: 'task_deleted',
+  TASK_LABEL_UPDATED: 'task_label_updated',
+  TASK_LABEL_DELETED: 'task_label_deleted',
+  TASK_COMMENT_CREATED: 'task_comment_created',
+  TASK_COMMENT_DELETED: 'task_comment_deleted',
+  MILESTONE_UPDATED: 'milestone_updated',
+  MILESTONE_DELETED: 'milestone_deleted',
+  TASK_WORKFLOW_UPDATED: 'task_workflow_updated',
+
+  // Team formation
+  TEAM_MEMBER_JOINED: 'team_member_joined',
+  BUILDER_SPACE_CREATED: 'builder_space_created',
+
+  // Screening chat creation
+  SCREENING_CHAT_CREATED: 'screening_chat_created',
+
+  // User status
+  USER_ONLINE: 'user_online',
+  USER_OFFLINE: 'user_offline',
+
+  // Platform stats
+  STATS_UPDATE: 'stats_update',
+
+  // Something happened for one user, e.g. they were mentioned
+  NOTIFICATION: 'notification',
+} as const;
+
+export type MessageType = (typeof MessageType)[keyof typeof MessageType];
+
+// Dates travel as ISO strings and are parsed back into Date objects
+const date = z.coerce.date();
+
+// Set once a message has been edited or deleted; a deleted message has empty content
+const messageChanges = {
+  editedAt: date.nullable().optional(),
+  deletedAt: date.nullable().optional(),
+  deletedBy: z.string().nullable().optional(),
+  // Until when the sender may still edit or delete it
+  editableUntil: date.optional(),
+};
+
+export const messageReactionSchema = z.object({
+  emoji: z.string(),
+  userIds: z.array(z.string()),
+});
+
+export const messageMentionSchema = z.object({
+  userId: z.string(),
+  // Position of the `@` in the content and the length of the mention including it
+  start: z.number().int(),
+  length: z.number().int(),
+});
+
+export const groupMessagePayloadSchema = z.object({
+  id: z.string(),
+  spaceId: z.string(),
+  // The channel the message was posted in; replies are in their thread's channel
+  channelId: z.string().nullable().optional(),
+  senderId: z.string(),
+  senderName: z.string(),
+  content: z.string(),
+  ...messageChanges,
+  // Set on thread replies to the message that started the thread
+  parentMessageId: z.string().nullable().optional(),
+  replyCount: z.number().int().optional(),
+  lastReplyAt: date.nullable().optional(),
+  reactions: z.array(messageReactionSchema).optional(),
+  mentions: z.array(messageMentionSchema).optional(),
+  createdAt: date,
+  updatedAt: date,
+});
+
+export const groupMessageReplyPayloadSchema = z.object({
+  reply: groupMessagePayloadSchema,
+  // The thread as it is after the reply
+  replyCount: z.number().int(),
+  lastReplyAt: date,
+});
+
+export const groupMessageReactionPayloadSchema = z.object({
+  spaceId: z.string(),
+  messageId: z.string(),
+  // Who toggled which emoji, and whether it was added or removed
+  userId: z.string(),
+  emoji: z.string(),
+  added: z.boolean(),
+  // Every reaction on the message after the change
+  reactions: z.array(messageReactionSchema),
+});
+
+export const screeningMessagePayloadSchema = z.object({
+  id: z.string(),
+  applicationId: z.string(),
+  senderId: z.string(),
+  senderName: z.string(),
+  content: z.string(),
+  ...messageChanges,
+  createdAt: date,
+  updatedAt: date,
+});
+
+export const directMessagePayloadSchema = z.object({
+  id: z.string(),
+  conversationId: z.string(),
+  senderId: z.string(),
+  senderName: z.string(),
+  // The other participant, so a client can file a message from a new conversation
+  recipientId: z.string(),
+  content: z.string(),
+  createdAt: date,
+  updatedAt: date,
+});
+
+export const channelPayloadSchema = z.object({
+  id: z.string(),
+  spaceId: z.string(),
+  // Without the leading #
+  name: z.string(),
+  isDefault: z.boolean(),
+  createdBy: z.string().nullable().optional(),
+  // Archived channels keep their history but take no new messages
+  archivedAt: date.nullable().optional(),
+  archivedBy: z.string().nullable().optional(),
+  createdAt: date,
+  updatedAt: date,
+});
+
+export const sharedLinkPayloadSchema = z.object({
+  id: z.string(),
+  spaceId: z.string(),
+  creatorId: z.string(),
+  creatorName: z.string().optional(),
+  title: z.string(),
+  url: z.string(),
+  description: z.string().nullable().optional(),
+  createdAt: date,
+});
+
+// A column of a task board, as a lowercase key like in_progress
+export const taskStatusSchema = z.string().regex(/^[a-z][a-z0-9_]{0,29}$/, 'Invalid status');
+
+export const taskWorkflowColumnSchema = z.object({
+  status: taskStatusSchema,
+  name: z.string().trim().min(1).max(30),
+});
+
+// A Builder Space's task board columns, in order; tasks move through them from left to right.
+// Every workflow starts with todo, where new tasks go, and ends with done, which finishes a task;
+// the columns between them are up to the space
+export const taskWorkflowPayloadSchema = z.object({
+  spaceId: z.string(),
+  columns: z.array(taskWorkflowColumnSchema),
+});
+
+export const DEFAULT_TASK_WORKFLOW: readonly z.infer<typeof taskWorkflowColumnSchema>[] = [
+  { status: 'todo', name: 'To do' },
+  { status: 'in_progress', name: 'In progress' },
+  { status: 'review', name: 'Review' },
+  { status: 'done', name: 'Done' },
+];
+
+// Lowest first
+export const TASK_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+export const taskPrioritySchema = z.enum(TASK_PRIORITIES);
+
+// The colors a task label can have; clients choose how each looks
+export const LABEL_COLORS = ['gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'purple', 'pink'] as const;
+export const labelColorSchema = z.enum(LABEL_COLORS);
+
+export const taskLabelPayloadSchema = z.object({
+  id: z.string(),
+  spaceId: z.string(),
+  name: z.string(),
+  color: labelColorSchema,
+  createdAt: date,
+  updatedAt: date,
+});
+
+export const taskPayloadSchema = z.object({
+  id: z.string(),
+  spaceId: z.string(),
+  creatorId: z.string(),
+  creatorName: z.string().optional(),
+  title: z.string(),
+  description: z.string().nullable().optional(),
+  status: taskStatusSchema,
+  // Order within the column, lowest first
+  position: z.number(),
+  assignees: z.array(z.object({ id: z.string(), name: z.string() })),
+  dueDate: date.nullable().optional(),
+  priority: taskPrioritySchema,
+  // Labels of the task's Builder Space, sent separately as task_label_updated
+  labelIds: z.array(z.string()),
+  // Steps, in order; `done` ones count towards its progress
+  checklist: z.array(z.object({ id: z.string(), text: z.string(), done: z.boolean() })),
+  // Tasks that have to be done before this one can be moved to done
+  blockedByIds: z.array(z.string()),
+  milestoneId: z.string().nullable().optional(),
+  // Who moved it to done, and when
+  completedBy: z.string().nullable().optional(),
+  completedByName: z.string().nullable().optional(),
+  completedAt: date.nullable().optional(),
+  createdAt: date,
+  updatedAt: date,
+});
+
+// Every "blocked by" edge in a Builder Space, with the tasks at either end of one
+export const taskDependencyGraphPayloadSchema = z.object({
+  tasks: z.array(z.object({ id: z.string(), title: z.string(), status: taskStatusSchema })),
+  edges: z.array(z.object({ taskId: z.string(), blockedById: z.string() })),
+});
+
+export const milestonePayloadSchema = z.object({
+  id: z.string(),
+  spaceId: z.string(),
+  name: z.string(),
+  description: z.string().nullable().optional(),
+  // Midnight UTC of its first and last days
+  startDate: date,
+  endDate: date,
+  createdAt: date,
+  updatedAt: date,
+});
+
+// How many of a milestone's tasks were left at the end of each of its days
+export const burndownPayloadSchema = z.object({
+  milestoneId: z.string(),
+  total: z.number(),
+  remaining: z.number(),
+  series: z.array(z.object({
+    // YYYY-MM-DD, in UTC
+    date: z.string(),
+    // Null for days that have not started yet
+    remaining: z.number().nullable(),
+    // Where an even pace through the milestone's tasks would be
+    ideal: z.number(),
+  })),
+});
+
+export const taskCommentPayloadSchema = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  spaceId: z.string(),
+  authorId: z.string(),
+  authorName: z.string(),
+  content: z.string(),
+  createdAt: date,
+});
+
+export const TASK_ACTIVITY_ACTIONS = ['created', 'status_changed', 'assigned', 'edited'] as const;
+
+// One entry of a task's history; which of the optional fields are set depends on the action
+export const taskActivityPayloadSchema = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  spaceId: z.string(),
+  actorId: z.string(),
+  actorName: z.string(),
+  action: z.enum(TASK_ACTIVITY_ACTIONS),
+  fromStatus: taskStatusSchema.nullable().optional(),
+  toStatus: taskStatusSchema.nullable().optional(),
+  addedAssignees: z.array(z.object({ id: z.string(), name: z.string() })).optional(),
+  removedAssignees: z.array(z.object({ id: z.string(), name: z.string() })).optional(),
+  fields: z.array(z.string()).optional(),
+  createdAt: date,
+});
+
+export const statsPayloadSchema = z.object({
+  users: z.number(),
+  startups: z.number(),
+  hackathons: z.number(),
+  applications: z.number(),
+});
+
+export const notificationPayloadSchema = z.object({
+  id: z.string(),
+  type: z.enum(['mention']),
+  actorId: z.string(),
+  actorName: z.string(),
+  spaceId: z.string().nullable().optional(),
+  spaceName: z.string().nullable().optional(),
+  messageId: z.string().nullable().optional(),
+  // Set when the message is a thread reply
+  parentMessageId: z.string().nullable().optional(),
+  preview: z.string(),
+  readAt: date.nullable().optional(),
+  createdAt: date,
+});
+
+// A Builder Space's group chat (chatId is the space id, or the channel id in read receipts),
+// a screening chat (chatId is the application id) or a direct conversation between two teammates
+// (chatId is the conversation id)
+export const ChatKind = {
+  GROUP: 'group',
+  SCREENING: 'screening',
+  DIRECT: 'direct',
+} as const;
+
+export type ChatKind = (typeof ChatKind)[keyof typeof ChatKind];
+
+const chatRef = {
+  chat: z.enum([ChatKind.GROUP, ChatKind.SCREENING, ChatKind.DIRECT]),
+  chatId: z.string().min(1),
+};
+
+export const readReceiptPayloadSchema = z.object({
+  ...chatRef,
+  userId: z.string(),
+  // The newest message the user has read
+  messageId: z.string(),
+  readAt: date,
+});
+
+// Fields every server message carries next to its type and payload
+const envelope = {
+  timestamp: date,
+  senderId: z.string().optional(),
+  // Position in the recipient's event log; ephemeral messages have none
+  seq: z.number().int().optional(),
+};
+
+export const serverMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal(MessageType.CONNECT),
+    payload: z.object({ userId: z.string(), message: z.string() }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.HEARTBEAT),
+    payload: z.object({ timestamp: date }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.RESYNC_REQUIRED),
+    payload: z.object({ latestSeq: z.number().int() }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.COMMAND_ACK),
+    payload: z.object({
+      clientId: z.string(),
+      result: z.union([groupMessagePayloadSchema, screeningMessagePayloadSchema, directMessagePayloadSchema, taskPayloadSchema]),
+    }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.COMMAND_NACK),
+    payload: z.object({ clientId: z.string(), error: z.string() }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.CHAT_PRESENCE),
+    // Everyone who has the chat open right now
+    payload: z.object({ ...chatRef, userIds: z.array(z.string()) }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.TYPING),
+    payload: z.object({ ...chatRef, userId: z.string(), typing: z.boolean() }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.READ_RECEIPT),
+    payload: readReceiptPayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.GROUP_MESSAGE),
+    payload: groupMessagePayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.SCREENING_MESSAGE),
+    payload: screeningMessagePayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.DIRECT_MESSAGE),
+    payload: directMessagePayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    // An edit or deletion; the payload is the message as it now is
+    type: z.literal(MessageType.GROUP_MESSAGE_UPDATED),
+    payload: groupMessagePayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    // A reply in a thread; the main chat only updates the thread's reply count
+    type: z.literal(MessageType.GROUP_MESSAGE_REPLY),
+    payload: groupMessageReplyPayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.GROUP_MESSAGE_REACTION),
+    payload: groupMessageReactionPayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.SCREENING_MESSAGE_UPDATED),
+    payload: screeningMessagePayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    // A channel was created, renamed, archived or unarchived; the payload is the channel as it now is
+    type: z.literal(MessageType.CHANNEL_UPDATED),
+    payload: channelPayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.LINK_ADDED),
+    payload: sharedLinkPayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.LINK_REMOVED),
+    payload: z.object({ id: z.string(), spaceId: z.string() }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.TASK_CREATED),
+    payload: taskPayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.TASK_UPDATED),
+    payload: taskPayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.TASK_DELETED),
+    payload: z.object({ id: z.string(), spaceId: z.string() }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.TASK_LABEL_UPDATED),
+    payload: taskLabelPayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.TASK_LABEL_DELETED),
+    payload: z.object({ id: z.string(), spaceId: z.string() }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.TASK_COMMENT_CREATED),
+    payload: taskCommentPayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.TASK_COMMENT_DELETED),
+    payload: z.object({ id: z.string(), taskId: z.string(), spaceId: z.string() }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.MILESTONE_UPDATED),
+    payload: milestonePayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.MILESTONE_DELETED),
+    payload: z.object({ id: z.string(), spaceId: z.string() }),
+    ...envelope,
+  }),
+  z.object({
+    // The board's columns were renamed, added, removed or reordered
+    type: z.literal(MessageType.TASK_WORKFLOW_UPDATED),
+    payload: taskWorkflowPayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.TEAM_MEMBER_JOINED),
+    payload: z.object({ spaceId: z.string(), userId: z.string(), name: z.string() }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.BUILDER_SPACE_CREATED),
+    payload: z.object({ spaceId: z.string(), name: z.string() }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.SCREENING_CHAT_CREATED),
+    payload: z.object({ applicationId: z.string(), founderId: z.string(), applicantId: z.string() }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.USER_ONLINE),
+    payload: z.object({ userId: z.string() }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.USER_OFFLINE),
+    payload: z.object({ userId: z.string() }),
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.NOTIFICATION),
+    payload: notificationPayloadSchema,
+    ...envelope,
+  }),
+  z.object({
+    type: z.literal(MessageType.STATS_UPDATE),
+    payload: statsPayloadSchema,
+    ...envelope,
+  }),
+]);
+
+// Chosen by the client and echoed in the ack or nack; resending a command with the same id doesn't repeat it
+const clientId = z.string().min(1).max(64);
+const content = z.string().min(1).max(5000);
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal(MessageType.HEARTBEAT),
+  }),
+  z.object({
+    type: z.literal(MessageType.ACK),
+    // Cumulative: everything up to and including seq has been processed
+    payload: z.object({ seq: z.number().int().min(1) }),
+  }),
+  z.object({
+    type: z.literal(MessageType.SEND_GROUP_MESSAGE),
+    clientId,
+    // Posted in #general unless channelId says otherwise; with parentMessageId it is a reply in that message's thread
+    payload: z.object({
+      spaceId: z.string().min(1),
+      content,
+      channelId: z.string().min(1).optional(),
+      parentMessageId: z.string().min(1).optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal(MessageType.SEND_SCREENING_MESSAGE),
+    clientId,
+    payload: z.object({ applicationId: z.string().min(1), content }),
+  }),
+  z.object({
+    type: z.literal(MessageType.SEND_DIRECT_MESSAGE),
+    clientId,
+    payload: z.object({ conversationId: z.string().min(1), content }),
+  }),
+  z.object({
+    type: z.literal(MessageType.MOVE_TASK),
+    clientId,
+    // Where the task ends up rather than a step, so a repeated command changes nothing.
+    // Without an index it goes to the bottom of the column. The task must be in spaceId
+    payload: z.object({
+      spaceId: z.string().min(1),
+      taskId: z.string().min(1),
+      status: taskStatusSchema,
+      index: z.number().int().min(0).optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal(MessageType.OPEN_CHAT),
+    payload: z.object(chatRef),
+  }),
+  z.object({
+    type: z.literal(MessageType.CLOSE_CHAT),
+    payload: z.object(chatRef),
+  }),
+  z.object({
+    type: z.literal(MessageType.TYPING_START),
+    // Repeated while the user keeps typing; the server stops the indicator when they go quiet
+    payload: z.object(chatRef),
+  }),
+  z.object({
+    type: z.literal(MessageType.TYPING_STOP),
+    payload: z.object(chatRef),
+  }),
+]);
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ServerMessageType = ServerMessage['type'];
+// `type?:` so the lookups also work where strictNullChecks is off and every inferred key is optional
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type?: T }>;
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+export type GroupMessagePayload = z.infer<typeof groupMessagePayloadSchema>;
+export type ScreeningMessagePayload = z.infer<typeof screeningMessagePayloadSchema>;
+export type DirectMessagePayload = z.infer<typeof directMessagePayloadSchema>;
+export type ChannelPayload = z.infer<typeof channelPayloadSchema>;
+export type SharedLinkPayload = z.infer<typeof sharedLinkPayloadSchema>;
+export type TaskPayload = z.infer<typeof taskPayloadSchema>;
+export type TaskStatus = z.infer<typeof taskStatusSchema>;
+export type TaskWorkflowColumn = z.infer<typeof taskWorkflowColumnSchema>;
+export type TaskWorkflowPayload = z.infer<typeof taskWorkflowPayloadSchema>;
+export type TaskPriority = z.infer<typeof taskPrioritySchema>;
+export type LabelColor = z.infer<typeof labelColorSchema>;
+export type TaskLabelPayload = z.infer<typeof taskLabelPayloadSchema>;
+export type TaskDependencyGraphPayload = z.infer<typeof taskDependencyGraphPayloadSchema>;
+export type MilestonePayload = z.infer<typeof milestonePayloadSchema>;
+export type BurndownPayload = z.infer<typeof burndownPayloadSchema>;
+export type TaskCommentPayload = z.infer<typeof taskCommentPayloadSchema>;
+export type TaskActivityPayload = z.infer<typeof taskActivityPayloadSchema>;
+export type StatsPayload = z.infer<typeof statsPayloadSchema>;
+export type ReadReceiptPayload = z.infer<typeof readReceiptPayloadSchema>;
+export type MessageReaction = z.infer<typeof messageReactionSchema>;
+export type MessageMention = z.infer<typeof messageMentionSchema>;
+export type NotificationPayload = z.infer<typeof notificationPayloadSchema>;
+export type GroupMessageReplyPayload = z.infer<typeof groupMessageReplyPayloadSchema>;
+export type GroupMessageReactionPayload = z.infer<typeof groupMessageReactionPayloadSchema>;
+
+// What a successful command acknowledges with
+export interface CommandResults {
+  [MessageType.SEND_GROUP_MESSAGE]: GroupMessagePayload;
+  [MessageType.SEND_SCREENING_MESSAGE]: ScreeningMessagePayload;
+  [MessageType.SEND_DIRECT_MESSAGE]: DirectMessagePayload;
+  [MessageType.MOVE_TASK]: TaskPayload;
+}
+export type ClientCommandType = keyof CommandResults;
+export type ClientCommand = Extract<ClientMessage, { type?: ClientCommandType }>;
+export type ClientCommandOf<T extends ClientCommandType> = Extract<ClientMessage, { type?: T }>;
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { createsDependencyCycle, findDependencyPath, getBlockedTaskIds } from './taskDependencies.js';
+
+// deploy waits on tests, which wait on ci; docs waits on nothing
+const edges = [
+  { taskId: 'deploy', blockedById: 'tests' },
+  { taskId: 'tests', blockedById: 'ci' },
+  { taskId: 'deploy', blockedById: 'docs' },
+];
+
+describe('findDependencyPath', () => {
+  it('should find the chain of blockers between two tasks', () => {
+    expect(findDependencyPath(edges, 'deploy', 'ci')).toEqual(['deploy', 'tests', 'ci']);
+    expect(findDependencyPath(edges, 'ci', 'deploy')).toBeNull();
+    expect(findDependencyPath(edges, 'docs', 'docs')).toEqual(['docs']);
+  });
+});
+
+describe('createsDependencyCycle', () => {
+  it('should reject edges that close a cycle, however long', () => {
+    expect(createsDependencyCycle(edges, 'ci', 'deploy')).toBe(true);
+    expect(createsDependencyCycle(edges, 'tests', 'deploy')).toBe(true);
+    expect(createsDependencyCycle(edges, 'ci', 'ci')).toBe(true);
+  });
+
+  it('should allow edges that share blockers without a cycle', () => {
+    expect(createsDependencyCycle(edges, 'docs', 'ci')).toBe(false);
+    expect(createsDependencyCycle(edges, 'deploy', 'ci')).toBe(false);
+  });
+});
+
+describe('getBlockedTaskIds', () => {
+  it('should only count blockers that are not done', () => {
+    const tasks = [
+      { id: 'deploy', title: 'Deploy', status: 'todo' as const },
+      { id: 'tests', title: 'Tests', status: 'in_progress' as const },
+      { id: 'ci', title: 'CI', status: 'done' as const },
+      { id: 'docs', title: 'Docs', status: 'done' as const },
+    ];
+
+    expect([...getBlockedTaskIds({ tasks, edges })]).toEqual(['deploy']);
+  });
+});
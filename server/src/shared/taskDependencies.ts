@@ -0,0 +1,70 @@
+import type { TaskDependencyGraphPayload } from './realtimeProtocol.js';
+
+/**
+ * "Blocked by" relationships between the tasks of a Builder Space
+ *
+ * Each edge says a task cannot be done before another one is. The edges have to
+ * stay acyclic, or the tasks on a cycle could never be finished.
+ *
+ * This file is imported by the frontend as well (via the @shared alias). The
+ * server checks new edges with it, and the board uses it to show blocked cards
+ * and to leave tasks that would close a cycle out of its pickers.
+ */
+
+export interface TaskDependencyEdge {
+  taskId: string;
+  blockedById: string;
+}
+
+/**
+ * The tasks `fromId` waits on, directly or through others, until `toId`
+ *
+ * @returns The task IDs from `fromId` to `toId`, or null if `fromId` does not wait on `toId`
+ */
+export function findDependencyPath(edges: TaskDependencyEdge[], fromId: string, toId: string): string[] | null {
+  const blockers = new Map<string, string[]>();
+  for (const { taskId, blockedById } of edges) {
+    blockers.set(taskId, [...(blockers.get(taskId) ?? []), blockedById]);
+  }
+
+  // Breadth first, remembering how each task was reached
+  const reachedFrom = new Map<string, string | null>([[fromId, null]]);
+  const queue = [fromId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+
+    if (current === toId) {
+      const path = [current];
+      for (let previous = reachedFrom.get(current); previous; previous = reachedFrom.get(previous)) {
+        path.unshift(previous);
+      }
+      return path;
+    }
+
+    for (const blocker of blockers.get(current) ?? []) {
+      if (!reachedFrom.has(blocker)) {
+        reachedFrom.set(blocker, current);
+        queue.push(blocker);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether `taskId` becoming blocked by `blockedById` would close a cycle
+ */
+export function createsDependencyCycle(edges: TaskDependencyEdge[], taskId: string, blockedById: string): boolean {
+  return findDependencyPath(edges, blockedById, taskId) !== null;
+}
+
+/**
+ * The tasks with at least one blocker that is not done yet
+ */
+export function getBlockedTaskIds(graph: TaskDependencyGraphPayload): Set<string> {
+  const openIds = new Set(graph.tasks.filter(task => task.status !== 'done').map(task => task.id));
+
+  return new Set(graph.edges.filter(edge => openIds.has(edge.blockedById)).map(edge => edge.taskId));
+}
@@ -0,0 +1,33 @@
+import { vi } from 'vitest';
+
+// Ids shared by the service tests that mock '../db/index.js': Priya founded the startup,
+// Marcus and Ana joined her team, and they work in one Builder Space
+export const PRIYA_ID = '64b7f0c2a1b2c3d4e5f60718';
+export const MARCUS_ID = '64b7f0c2a1b2c3d4e5f60719';
+export const ANA_ID = '64b7f0c2a1b2c3d4e5f6071a';
+export const SPACE_ID = '64b7f0c2a1b2c3d4e5f60720';
+export const MESSAGE_ID = '64b7f0c2a1b2c3d4e5f60730';
+export const TASK_ID = '64b7f0c2a1b2c3d4e5f60750';
+export const MILESTONE_ID = '64b7f0c2a1b2c3d4e5f607b0';
+export const CREATED_AT = new Date('2024-01-01T10:00:00Z');
+
+/**
+ * Factory for stand-ins of stored Mongoose documents
+ * Each call builds fresh defaults, so arrays aren't shared between documents, and
+ * gives the document its own save() and populate() mocks; changes override both
+ *
+ * @param defaults - The document's fields
+ * @returns A function taking the fields that differ from the defaults
+ */
+export const storedDocument = (defaults: () => Record<string, unknown>) =>
+  (changes: Record<string, unknown> = {}) => ({
+    ...defaults(),
+    save: vi.fn(),
+    populate: vi.fn(),
+    ...changes,
+  });
+
+/**
+ * The Builder Space, as TeamSpace.findById gives it
+ */
+export const storedSpace = storedDocument(() => ({ _id: SPACE_ID, postType: 'startup', postId: 'post-1' }));
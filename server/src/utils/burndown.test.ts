@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildBurndown, isDoneAt, BurndownTask } from './burndown.js';
+
+const at = (date: string) => new Date(`${date}Z`);
+
+const task = (createdAt: string, changes: Partial<BurndownTask> = {}): BurndownTask => ({
+  createdAt: at(createdAt),
+  statusChanges: [],
+  ...changes,
+});
+
+describe('isDoneAt', () => {
+  it('should follow moves in and out of done', () => {
+    const reopened = task('2024-03-01T09:00:00', {
+      statusChanges: [
+        { at: at('2024-03-02T10:00:00'), fromStatus: 'review', toStatus: 'done' },
+        { at: at('2024-03-03T10:00:00'), fromStatus: 'done', toStatus: 'in_progress' },
+      ],
+    });
+
+    expect(isDoneAt(reopened, at('2024-03-01T23:59:59'))).toBe(false);
+    expect(isDoneAt(reopened, at('2024-03-02T23:59:59'))).toBe(true);
+    expect(isDoneAt(reopened, at('2024-03-03T23:59:59'))).toBe(false);
+  });
+
+  it('should use completedAt for tasks that were never moved', () => {
+    const addedDone = task('2024-03-01T09:00:00', { completedAt: at('2024-03-01T09:00:00') });
+
+    expect(isDoneAt(addedDone, at('2024-03-01T10:00:00'))).toBe(true);
+    expect(isDoneAt(task('2024-03-01T09:00:00'), at('2024-03-05T00:00:00'))).toBe(false);
+  });
+});
+
+describe('buildBurndown', () => {
+  it('should count the open tasks at the end of each day up to now', () => {
+    const tasks = [
+      task('2024-02-28T12:00:00', {
+        statusChanges: [{ at: at('2024-03-02T15:00:00'), fromStatus: 'review', toStatus: 'done' }],
+      }),
+      task('2024-02-28T12:00:00'),
+      // Added to the work on the second day
+      task('2024-03-02T08:00:00'),
+    ];
+
+    const series = buildBurndown(tasks, at('2024-03-01T00:00:00'), at('2024-03-04T00:00:00'), at('2024-03-03T12:00:00'));
+
+    expect(series).toEqual([
+      { date: '2024-03-01', remaining: 2, ideal: 3 },
+      { date: '2024-03-02', remaining: 2, ideal: 2 },
+      { date: '2024-03-03', remaining: 2, ideal: 1 },
+      { date: '2024-03-04', remaining: null, ideal: 0 },
+    ]);
+  });
+
+  it('should have a single point for a one-day milestone', () => {
+    const series = buildBurndown([task('2024-03-01T08:00:00')], at('2024-03-01T00:00:00'), at('2024-03-01T00:00:00'), at('2024-03-05T00:00:00'));
+
+    expect(series).toEqual([{ date: '2024-03-01', remaining: 1, ideal: 0 }]);
+  });
+});
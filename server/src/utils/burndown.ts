@@ -0,0 +1,62 @@
+import { BurndownPayload, TaskStatus } from '../shared/realtimeProtocol.js';
+
+/**
+ * Burndown series of a milestone
+ *
+ * The remaining work on a day is the number of the milestone's tasks that existed
+ * and were not done at the end of that day (UTC). Whether a task was done is read
+ * from its history, so a task that was reopened counts as remaining again; tasks
+ * without any moves in their history are done from their completedAt, if any.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BurndownTask {
+  createdAt: Date;
+  completedAt?: Date | null;
+  // Moves between columns, oldest first
+  statusChanges: { at: Date; fromStatus: TaskStatus; toStatus: TaskStatus }[];
+}
+
+export type BurndownPoint = BurndownPayload['series'][number];
+
+/**
+ * Whether a task was done at a moment
+ */
+export function isDoneAt(task: BurndownTask, at: Date): boolean {
+  const [first] = task.statusChanges;
+
+  if (!first) {
+    return !!task.completedAt && task.completedAt.getTime() <= at.getTime();
+  }
+
+  const last = task.statusChanges.filter(change => change.at.getTime() <= at.getTime()).pop();
+  return last ? last.toStatus === 'done' : first.fromStatus === 'done';
+}
+
+/**
+ * The remaining and ideal work on each day from `startDate` to `endDate`, both midnight UTC
+ * Days after `now` have no remaining work yet; the ideal line goes from every task on the
+ * first day to none on the last
+ */
+export function buildBurndown(tasks: BurndownTask[], startDate: Date, endDate: Date, now = new Date()): BurndownPoint[] {
+  const days = Math.floor((endDate.getTime() - startDate.getTime()) / DAY_MS) + 1;
+  const series: BurndownPoint[] = [];
+
+  for (let day = 0; day < days; day++) {
+    const dayStart = startDate.getTime() + day * DAY_MS;
+    const at = new Date(Math.min(dayStart + DAY_MS - 1, now.getTime()));
+    const remaining = dayStart > now.getTime()
+      ? null
+      : tasks.filter(task => task.createdAt.getTime() <= at.getTime() && !isDoneAt(task, at)).length;
+    const ideal = days > 1 ? tasks.length * (1 - day / (days - 1)) : 0;
+
+    series.push({
+      date: new Date(dayStart).toISOString().slice(0, 10),
+      remaining,
+      ideal: Math.round(ideal * 100) / 100,
+    });
+  }
+
+  return series;
+}
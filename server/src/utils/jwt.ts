@@ -1,30 +1,107 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 
-export const generateTokens = (userId: string, email: string) => {
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export interface RefreshTokenPayload {
+  userId: string;
+  email: string;
+  type: 'refresh';
+  familyId: string;
+  jti: string;
+}
+
+const getSecret = () => {
   const secret = process.env.JWT_SECRET;
   if (!secret) {
     throw new Error('JWT_SECRET is not defined');
   }
+  return secret;
+};
 
-  const accessToken = jwt.sign(
+export const generateAccessToken = (userId: string, email: string) => {
+  return jwt.sign(
     { userId, email },
-    secret,
+    getSecret(),
     { expiresIn: '7d' }
   );
+};
+
+export const generateTokens = (userId: string, email: string, familyId: string = crypto.randomUUID()) => {
+  const secret = getSecret();
 
+  const accessToken = generateAccessToken(userId, email);
+
+  // jti makes every refresh token unique, even when two are minted in the same second
   const refreshToken = jwt.sign(
-    { userId, email, type: 'refresh' },
+    { userId, email, type: 'refresh', familyId, jti: crypto.randomUUID() },
     secret,
     { expiresIn: '30d' }
   );
 
-  return { accessToken, refreshToken };
+  return { accessToken, refreshToken, familyId };
 };
 
 export const verifyToken = (token: string) => {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    throw new Error('JWT_SECRET is not defined');
+  return jwt.verify(token, getSecret());
+};
+
+export const verifyRefreshToken = (token: string): RefreshTokenPayload => {
+  const decoded = jwt.verify(token, getSecret()) as RefreshTokenPayload;
+  if (decoded.type !== 'refresh' || !decoded.familyId) {
+    throw new Error('Invalid refresh token');
+  }
+  return decoded;
+};
+
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+export interface EmailVerificationPayload {
+  userId: string;
+  email: string;
+  type: 'email_verification';
+  jti: string;
+}
+
+export const generateEmailVerificationToken = (userId: string, email: string, expiresInSeconds: number) => {
+  return jwt.sign(
+    { userId, email, type: 'email_verification', jti: crypto.randomUUID() },
+    getSecret(),
+    { expiresIn: expiresInSeconds }
+  );
+};
+
+export const verifyEmailVerificationToken = (token: string): EmailVerificationPayload => {
+  const decoded = jwt.verify(token, getSecret()) as EmailVerificationPayload;
+  if (decoded.type !== 'email_verification') {
+    throw new Error('Invalid verification token');
   }
-  return jwt.verify(token, secret);
-};
\ No newline at end of file
+  return decoded;
+};
+
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60; // 5 minutes
+
+export interface TwoFactorChallengePayload {
+  userId: string;
+  email: string;
+  type: 'two_factor';
+}
+
+// Short-lived proof that the first login step succeeded; not usable as an access token
+export const generateTwoFactorChallengeToken = (userId: string, email: string) => {
+  return jwt.sign(
+    { userId, email, type: 'two_factor' },
+    getSecret(),
+    { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS }
+  );
+};
+
+export const verifyTwoFactorChallengeToken = (token: string): TwoFactorChallengePayload => {
+  const decoded = jwt.verify(token, getSecret()) as TwoFactorChallengePayload;
+  if (decoded.type !== 'two_factor') {
+    throw new Error('Invalid two-factor challenge');
+  }
+  return decoded;
+};
@@ -0,0 +1,114 @@
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Outgoing email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * A mail transport delivers outgoing email somewhere
+ *
+ * Selected with MAIL_TRANSPORT:
+ * - smtp (default when SMTP_HOST is set): any SMTP server, including a local
+ *   capture server such as MailHog or smtp4dev
+ * - json: appends each message as one JSON line to MAIL_JSON_PATH, for tests
+ * - console: logs messages to stdout (default when nothing is configured)
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const getFromAddress = () => process.env.MAIL_FROM || 'CodeJam <no-reply@codejam.dev>';
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE === 'true' || port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: getFromAddress(), ...message });
+  }
+}
+
+export class JsonFileMailTransport implements MailTransport {
+  constructor(private filePath: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const entry = { from: getFromAddress(), ...message, sentAt: new Date().toISOString() };
+    await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+  }
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Escape user-provided text for inclusion in an HTML email body
+ */
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ({
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+  }[char]!));
+
+/**
+ * Create the transport configured by the environment
+ */
+export const createMailTransport = (): MailTransport => {
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+
+  switch (transport) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'json':
+      return new JsonFileMailTransport(process.env.MAIL_JSON_PATH || './tmp/mail.jsonl');
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+};
+
+let mailTransport: MailTransport | null = null;
+
+/**
+ * Send an email through the configured transport
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  if (!mailTransport) {
+    mailTransport = createMailTransport();
+  }
+  await mailTransport.send(message);
+};
+
+/**
+ * Replace the mail transport (used by tests)
+ */
+export const setMailTransport = (transport: MailTransport | null): void => {
+  mailTransport = transport;
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { sanitizeContent, sanitizeMarkdown } from './markdown.js';
+
+describe('sanitizeMarkdown', () => {
+  it('should keep Markdown and strip HTML outside code', () => {
+    expect(sanitizeMarkdown('**hi** <b>there</b><script>alert(1)</script>\n- a < b')).toBe('**hi** there\n- a < b');
+  });
+
+  it('should keep code exactly as written', () => {
+    const source = 'Try `<div class="x">` or:\n```html\n<script src="app.js"></script>\nif (a<b) {}\n```';
+
+    expect(sanitizeMarkdown(source)).toBe(source);
+  });
+
+  it('should escape links that fail the URL safety check so they are not linked', () => {
+    expect(sanitizeMarkdown('docs at https://example.com/guide and http://192.168.0.1/admin')).toBe(
+      'docs at https://example.com/guide and http\\://192.168.0.1/admin'
+    );
+    // Inside code nothing is a link
+    expect(sanitizeMarkdown('`http://192.168.0.1`')).toBe('`http://192.168.0.1`');
+  });
+});
+
+describe('sanitizeContent', () => {
+  it('should trim and sanitize content, rejecting what is empty or too long', () => {
+    expect(sanitizeContent('  **hi** <b>there</b>  ')).toBe('**hi** there');
+    expect(() => sanitizeContent('   ')).toThrow('Message content cannot be empty');
+    expect(() => sanitizeContent('<script>alert(1)</script>')).toThrow('Message content cannot be empty after sanitization');
+    expect(() => sanitizeContent('a'.repeat(5001))).toThrow('Message content cannot exceed 5000 characters');
+    expect(() => sanitizeContent('too long', 3, 'Invalid comment: Comment')).toThrow('Invalid comment: Comment cannot exceed 3 characters');
+  });
+});
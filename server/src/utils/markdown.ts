@@ -0,0 +1,135 @@
+import DOMPurify from 'isomorphic-dompurify';
+import { parseMarkdown, MarkdownBlock, MarkdownInline, MarkdownLink } from '../shared/markdown.js';
+import { urlValidationService } from '../services/URLValidationService.js';
+
+/**
+ * Server-side sanitizing of chat messages written in the Markdown dialect of shared/markdown.ts
+ *
+ * The allowlist is the dialect itself: no HTML tags are kept anywhere, except
+ * inside inline code and code blocks, where the client shows them as text. Links
+ * are only the URLs that pass URLValidationService.isSafeURL; any other URL is
+ * escaped (`https\://…`) so it is shown but never linked. The result is still
+ * Markdown source, so clients must render it as text, never as HTML.
+ */
+
+// Longest a chat message may be once sanitized
+export const MAX_MESSAGE_LENGTH = 5000;
+
+interface SourceRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Sanitize message content
+ *
+ * @param content - Markdown source as written by the user
+ * @returns The source with HTML removed outside code and unsafe links escaped
+ */
+export function sanitizeMarkdown(content: string): string {
+  const source = content.replace(/\r\n?/g, '\n');
+
+  // Strip HTML between code spans and blocks, keeping code as written
+  let withoutHtml = '';
+  let position = 0;
+  for (const range of findCodeRanges(parseMarkdown(source))) {
+    withoutHtml += stripHtml(source.slice(position, range.start)) + source.slice(range.start, range.end);
+    position = range.end;
+  }
+  withoutHtml += stripHtml(source.slice(position));
+
+  // Stripping can change what parses as a link, so links are found afterwards
+  const unsafeLinks = findLinks(parseMarkdown(withoutHtml)).filter(link => !urlValidationService.isSafeURL(link.url));
+
+  return unsafeLinks.reduceRight((text, link) => {
+    const colon = link.offset + link.url.indexOf(':');
+    return `${text.slice(0, colon)}\\${text.slice(colon)}`;
+  }, withoutHtml);
+}
+
+/**
+ * Trim and sanitize what a user wrote in a chat message or task comment, and check it
+ * Markdown is kept; HTML outside code and unsafe links are not (see sanitizeMarkdown),
+ * so content that was only HTML ends up empty and is rejected
+ *
+ * @param content - Markdown source as written by the user
+ * @param maxLength - Longest the sanitized content may be
+ * @param subject - What the errors call the content, e.g. "Invalid comment: Comment"
+ * @returns The sanitized content
+ * @throws Error if the content is empty, before or after sanitizing, or too long
+ */
+export function sanitizeContent(content: string, maxLength = MAX_MESSAGE_LENGTH, subject = 'Message content'): string {
+  const trimmed = content.trim();
+
+  if (!trimmed) {
+    throw new Error(`${subject} cannot be empty`);
+  }
+
+  const sanitized = sanitizeMarkdown(trimmed).trim();
+
+  if (!sanitized) {
+    throw new Error(`${subject} cannot be empty after sanitization`);
+  }
+  if (sanitized.length > maxLength) {
+    throw new Error(`${subject} cannot exceed ${maxLength} characters`);
+  }
+
+  return sanitized;
+}
+
+/**
+ * Remove every HTML tag, keeping the text in between
+ */
+function stripHtml(text: string): string {
+  if (!text.includes('<') && !text.includes('&')) {
+    return text;
+  }
+
+  return DOMPurify.sanitize(text, {
+    ALLOWED_TAGS: [],
+    ALLOWED_ATTR: [],
+    KEEP_CONTENT: true,
+    RETURN_DOM_FRAGMENT: true,
+  }).textContent ?? '';
+}
+
+/**
+ * Code spans and blocks in source order
+ */
+function findCodeRanges(blocks: MarkdownBlock[]): SourceRange[] {
+  return blocks.flatMap(block => {
+    switch (block.type) {
+      case 'codeBlock':
+        return [{ start: block.start, end: block.end }];
+      case 'list':
+        return block.items.flatMap(item => collectInline(item, 'code'));
+      default:
+        return collectInline(block.children, 'code');
+    }
+  });
+}
+
+function findLinks(blocks: MarkdownBlock[]): MarkdownLink[] {
+  return blocks.flatMap(block => {
+    switch (block.type) {
+      case 'codeBlock':
+        return [];
+      case 'list':
+        return block.items.flatMap(item => collectInline(item, 'link'));
+      default:
+        return collectInline(block.children, 'link');
+    }
+  });
+}
+
+function collectInline<T extends 'code' | 'link'>(
+  nodes: MarkdownInline[],
+  type: T
+): Extract<MarkdownInline, { type: T }>[] {
+  return nodes.flatMap(node => {
+    if (node.type === type) {
+      return [node as Extract<MarkdownInline, { type: T }>];
+    }
+    return node.type === 'strong' || node.type === 'emphasis' ? collectInline(node.children, type) : [];
+  });
+}
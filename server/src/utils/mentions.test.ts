@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { parseMentions } from './mentions.js';
+
+const members = [
+  { userId: 'priya', name: 'Priya Sharma' },
+  { userId: 'marcus', name: 'Marcus Lee' },
+  { userId: 'marcia', name: 'Marcus' },
+  { userId: 'jo', name: 'Jo' },
+];
+
+describe('parseMentions', () => {
+  it('should find members by full name or unique first name', () => {
+    const content = '@Priya can you review? cc @marcus lee';
+
+    expect(parseMentions(content, members)).toEqual([
+      { userId: 'priya', start: 0, length: 6 },
+      { userId: 'marcus', start: 26, length: 11 },
+    ]);
+  });
+
+  it('should prefer the longest name and skip shared first names', () => {
+    // "Marcus" is both a full name and Marcus Lee's first name
+    expect(parseMentions('@Marcus, ping @Marcus Lee', members).map(m => m.userId)).toEqual(['marcia', 'marcus']);
+  });
+
+  it('should ignore partial names and email addresses', () => {
+    expect(parseMentions('@Priyanka and jo@example.com and @Joe', members)).toEqual([]);
+    expect(parseMentions('thanks @Jo!', members)).toEqual([{ userId: 'jo', start: 7, length: 3 }]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * @mentions in chat messages
+ *
+ * A mention is `@` followed by a team member's full name, or by their first name
+ * when no other member shares it, e.g. `@Priya Sharma` or `@Priya`. Names are
+ * matched case-insensitively and must end at a word boundary, so `@Priyanka`
+ * doesn't mention Priya. Where names overlap the longest one wins.
+ */
+
+export interface MentionCandidate {
+  userId: string;
+  name: string;
+}
+
+export interface ParsedMention {
+  userId: string;
+  // Position of the `@` in the content and the length of the mention including it
+  start: number;
+  length: number;
+}
+
+const WORD_CHARACTER = /[\p{L}\p{N}_]/u;
+
+/**
+ * Find mentions of the given members in message content
+ *
+ * @param content - Message content
+ * @param members - Everyone who can be mentioned
+ * @returns Mentions in the order they appear
+ */
+export function parseMentions(content: string, members: MentionCandidate[]): ParsedMention[] {
+  const aliases = buildAliases(members);
+  const mentions: ParsedMention[] = [];
+  const lowerContent = content.toLowerCase();
+
+  for (let index = content.indexOf('@'); index !== -1; index = content.indexOf('@', index + 1)) {
+    // `@` inside a word, like in an email address, isn't a mention
+    if (index > 0 && WORD_CHARACTER.test(content[index - 1])) {
+      continue;
+    }
+
+    const match = aliases.find(({ alias }) => {
+      const end = index + 1 + alias.length;
+      return lowerContent.startsWith(alias, index + 1) && !WORD_CHARACTER.test(content[end] ?? '');
+    });
+
+    if (match) {
+      mentions.push({ userId: match.userId, start: index, length: match.alias.length + 1 });
+      index += match.alias.length;
+    }
+  }
+
+  return mentions;
+}
+
+/**
+ * Lower-cased names each member can be mentioned by, longest first
+ */
+function buildAliases(members: MentionCandidate[]): { userId: string; alias: string }[] {
+  const firstNameCounts = new Map<string, number>();
+  const named = members
+    .map(member => ({ userId: member.userId, name: member.name.trim().replace(/\s+/g, ' ').toLowerCase() }))
+    .filter(member => member.name);
+
+  for (const { name } of named) {
+    const firstName = name.split(' ')[0];
+    firstNameCounts.set(firstName, (firstNameCounts.get(firstName) ?? 0) + 1);
+  }
+
+  const aliases = named.flatMap(({ userId, name }) => {
+    const firstName = name.split(' ')[0];
+    return firstName !== name && firstNameCounts.get(firstName) === 1
+      ? [{ userId, alias: name }, { userId, alias: firstName }]
+      : [{ userId, alias: name }];
+  });
+
+  return aliases.sort((a, b) => b.alias.length - a.alias.length);
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { RedisMessageBroker, InMemoryMessageBroker } from './messageBroker.js';
+import { RespParser, RespValue } from './resp.js';
+
+const encodeReply = (value: RespValue): string => {
+  if (value === null) return '$-1\r\n';
+  if (typeof value === 'number') return `:${value}\r\n`;
+  if (Array.isArray(value)) return `*${value.length}\r\n${value.map(encodeReply).join('')}`;
+  return `$${Buffer.byteLength(String(value))}\r\n${value}\r\n`;
+};
+
+/**
+ * Tiny server speaking just enough of the Redis protocol for pub/sub
+ */
+const startFakeRedis = async (password?: string) => {
+  const subscribers = new Map<string, Set<net.Socket>>();
+  const commands: string[][] = [];
+  const server = net.createServer((socket) => {
+    const parser = new RespParser();
+    let authenticated = !password;
+
+    socket.on('data', (chunk) => {
+      for (const value of parser.push(chunk)) {
+        const [name, ...args] = value as string[];
+        commands.push(value as string[]);
+
+        if (name === 'AUTH') {
+          authenticated = args[args.length - 1] === password;
+          socket.write(authenticated ? '+OK\r\n' : '-WRONGPASS invalid password\r\n');
+        } else if (!authenticated) {
+          socket.write('-NOAUTH Authentication required\r\n');
+        } else if (name === 'SUBSCRIBE') {
+          if (!subscribers.has(args[0])) subscribers.set(args[0], new Set());
+          subscribers.get(args[0])!.add(socket);
+          socket.write(encodeReply(['subscribe', args[0], 1]));
+        } else if (name === 'PUBLISH' && args[1] === 'unsupported') {
+          // A RESP3 map, which the client does not speak
+          socket.write('%1\r\n+key\r\n+value\r\n');
+        } else if (name === 'PUBLISH') {
+          const receivers = subscribers.get(args[0]) ?? new Set();
+          receivers.forEach((receiver) => receiver.write(encodeReply(['message', args[0], args[1]])));
+          socket.write(encodeReply(receivers.size));
+        }
+      }
+    });
+    socket.on('close', () => subscribers.forEach((sockets) => sockets.delete(socket)));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, commands, port: (server.address() as AddressInfo).port };
+};
+
+describe('message brokers', () => {
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+  it('should deliver in-memory messages to every subscriber asynchronously', async () => {
+    const broker = new InMemoryMessageBroker();
+    const received: string[] = [];
+    await broker.subscribe('chan', (message) => received.push(`a:${message}`));
+    await broker.subscribe('chan', (message) => received.push(`b:${message}`));
+
+    const published = broker.publish('chan', 'hello');
+    expect(received).toEqual([]);
+    await published;
+
+    expect(received).toEqual(['a:hello', 'b:hello']);
+  });
+
+  describe('RedisMessageBroker', () => {
+    let fake: Awaited<ReturnType<typeof startFakeRedis>>;
+    let brokers: RedisMessageBroker[];
+
+    beforeEach(async () => {
+      fake = await startFakeRedis('s3cret');
+      brokers = [];
+    });
+
+    afterEach(async () => {
+      await Promise.all(brokers.map((broker) => broker.close()));
+      await new Promise((resolve) => fake.server.close(resolve));
+    });
+
+    const createBroker = () => {
+      const broker = new RedisMessageBroker(`redis://:s3cret@127.0.0.1:${fake.port}`);
+      brokers.push(broker);
+      return broker;
+    };
+
+    it('should relay messages between two instances sharing one server', async () => {
+      const first = createBroker();
+      const second = createBroker();
+      const received: string[] = [];
+      await first.subscribe('realtime:users', (message) => received.push(`first:${message}`));
+      await second.subscribe('realtime:users', (message) => received.push(`second:${message}`));
+
+      await first.publish('realtime:users', '{"userIds":["u1"]}');
+      await settle();
+
+      expect(received.sort()).toEqual(['first:{"userIds":["u1"]}', 'second:{"userIds":["u1"]}']);
+      expect(fake.commands.filter(([name]) => name === 'AUTH')).toHaveLength(4);
+    });
+
+    it('should reject commands the server refuses', async () => {
+      const broker = new RedisMessageBroker(`redis://:wrong@127.0.0.1:${fake.port}`);
+      brokers.push(broker);
+
+      await expect(broker.publish('chan', 'hello')).rejects.toThrow('NOAUTH');
+    });
+
+    it('should reconnect instead of crashing on a reply it cannot parse', async () => {
+      const broker = createBroker();
+
+      await expect(broker.publish('chan', 'unsupported')).rejects.toThrow('Redis connection closed');
+
+      // Past the reconnect delay
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+      await expect(broker.publish('chan', 'hello')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import net from 'net';
+import tls from 'tls';
+import { encodeCommand, RespParser, RespValue, RespError } from './resp.js';
+
+export type BrokerMessageHandler = (message: string) => void;
+
+/**
+ * A message broker relays real-time events between server instances
+ *
+ * Every instance publishes events to the broker and receives all events on the
+ * channels it subscribed to, including its own, so a message reaches sockets
+ * no matter which instance they are connected to.
+ *
+ * Selected with REDIS_URL:
+ * - unset: in-memory broker, for a single process (default)
+ * - redis://[:password@]host:port or rediss://...: Redis (or any server that
+ *   speaks the Redis protocol, such as Valkey or KeyDB) shared by all instances
+ */
+export interface MessageBroker {
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, handler: BrokerMessageHandler): Promise<void>;
+  close(): Promise<void>;
+}
+
+export class InMemoryMessageBroker implements MessageBroker {
+  private handlers: Map<string, Set<BrokerMessageHandler>> = new Map();
+
+  async publish(channel: string, message: string): Promise<void> {
+    // Deliver asynchronously, like a real broker would
+    await Promise.resolve();
+
+    for (const handler of this.handlers.get(channel) ?? []) {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error(`Error handling broker message on ${channel}:`, error);
+      }
+    }
+  }
+
+  async subscribe(channel: string, handler: BrokerMessageHandler): Promise<void> {
+    let channelHandlers = this.handlers.get(channel);
+    if (!channelHandlers) {
+      channelHandlers = new Set();
+      this.handlers.set(channel, channelHandlers);
+    }
+    channelHandlers.add(handler);
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+  }
+}
+
+/**
+ * One connection to a Redis server
+ * Replies are matched to commands in order; pub/sub messages go to onMessage
+ */
+class RedisConnection {
+  private socket: net.Socket | null = null;
+  private parser = new RespParser();
+  private pending: { resolve: (value: RespValue) => void; reject: (error: Error) => void }[] = [];
+  private closed = false;
+  private readonly RECONNECT_DELAY = 1000;
+
+  constructor(
+    private url: URL,
+    private onMessage?: (channel: string, message: string) => void,
+    private onConnect?: () => void
+  ) {
+    this.connect();
+  }
+
+  command(args: string[]): Promise<RespValue> {
+    if (!this.socket || this.socket.destroyed) {
+      return Promise.reject(new Error('Redis connection is not open'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.socket!.write(encodeCommand(args));
+    });
+  }
+
+  close(): void {
+    this.closed = true;
+    this.socket?.end();
+  }
+
+  private connect(): void {
+    const port = Number(this.url.port) || 6379;
+    const host = this.url.hostname;
+    const socket = this.url.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+
+    this.socket = socket;
+    this.parser = new RespParser();
+
+    socket.on('data', (chunk: Buffer) => {
+      let values: RespValue[];
+      try {
+        values = this.parser.push(chunk);
+      } catch (error) {
+        // The stream can't be read past a reply we don't understand; 'close' rejects what's pending and reconnects
+        console.error('Unreadable Redis reply, reconnecting:', (error as Error).message);
+        socket.destroy();
+        return;
+      }
+
+      for (const value of values) {
+        this.handleReply(value);
+      }
+    });
+
+    socket.on('error', (error) => {
+      console.error('Redis connection error:', error.message);
+    });
+
+    socket.on('close', () => {
+      const pending = this.pending;
+      this.pending = [];
+      pending.forEach(({ reject }) => reject(new Error('Redis connection closed')));
+
+      if (!this.closed) {
+        setTimeout(() => this.connect(), this.RECONNECT_DELAY);
+      }
+    });
+
+    // Commands written before the socket connects are buffered, so this keeps them in order
+    if (this.url.password) {
+      const args = this.url.username
+        ? ['AUTH', decodeURIComponent(this.url.username), decodeURIComponent(this.url.password)]
+        : ['AUTH', decodeURIComponent(this.url.password)];
+      this.command(args).catch((error) => {
+        console.error('Redis authentication failed:', error.message);
+      });
+    }
+
+    this.onConnect?.();
+  }
+
+  private handleReply(value: RespValue): void {
+    if (Array.isArray(value) && value[0] === 'message' && this.onMessage) {
+      this.onMessage(String(value[1]), String(value[2]));
+      return;
+    }
+
+    const next = this.pending.shift();
+    if (!next) {
+      return;
+    }
+
+    if (value instanceof RespError) {
+      next.reject(value);
+    } else {
+      next.resolve(value);
+    }
+  }
+}
+
+export class RedisMessageBroker implements MessageBroker {
+  private handlers: Map<string, Set<BrokerMessageHandler>> = new Map();
+  private publisher: RedisConnection;
+  // A connection in subscribe mode cannot run other commands, so publishing uses its own
+  private subscriber: RedisConnection;
+
+  constructor(url: string) {
+    const parsed = new URL(url);
+    this.publisher = new RedisConnection(parsed);
+    this.subscriber = new RedisConnection(
+      parsed,
+      (channel, message) => this.dispatch(channel, message),
+      () => this.resubscribe()
+    );
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.publisher.command(['PUBLISH', channel, message]);
+  }
+
+  async subscribe(channel: string, handler: BrokerMessageHandler): Promise<void> {
+    let channelHandlers = this.handlers.get(channel);
+    if (channelHandlers) {
+      channelHandlers.add(handler);
+      return;
+    }
+
+    channelHandlers = new Set([handler]);
+    this.handlers.set(channel, channelHandlers);
+    await this.subscriber.command(['SUBSCRIBE', channel]);
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    this.publisher.close();
+    this.subscriber.close();
+  }
+
+  private dispatch(channel: string, message: string): void {
+    for (const handler of this.handlers.get(channel) ?? []) {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error(`Error handling broker message on ${channel}:`, error);
+      }
+    }
+  }
+
+  // Subscriptions do not survive a reconnect
+  private resubscribe(): void {
+    for (const channel of this.handlers.keys()) {
+      this.subscriber.command(['SUBSCRIBE', channel]).catch((error) => {
+        console.error(`Error resubscribing to ${channel}:`, error.message);
+      });
+    }
+  }
+}
+
+/**
+ * Create the broker configured by the environment
+ */
+export const createMessageBroker = (): MessageBroker => {
+  return process.env.REDIS_URL ? new RedisMessageBroker(process.env.REDIS_URL) : new InMemoryMessageBroker();
+};
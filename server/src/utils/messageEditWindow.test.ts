@@ -0,0 +1,31 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { getMessageEditWindowMs, getEditableUntil, isWithinEditWindow } from './messageEditWindow.js';
+
+const sentAt = new Date('2024-01-01T10:00:00Z');
+const minutesLater = (minutes: number) => new Date(sentAt.getTime() + minutes * 60 * 1000);
+
+describe('message edit window', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should allow changes for 15 minutes by default', () => {
+    vi.stubEnv('MESSAGE_EDIT_WINDOW_MINUTES', '');
+
+    expect(getMessageEditWindowMs()).toBe(15 * 60 * 1000);
+    expect(getEditableUntil(sentAt)).toEqual(minutesLater(15));
+    expect(isWithinEditWindow(sentAt, minutesLater(14))).toBe(true);
+    expect(isWithinEditWindow(sentAt, minutesLater(15))).toBe(false);
+  });
+
+  it('should follow MESSAGE_EDIT_WINDOW_MINUTES and ignore invalid values', () => {
+    vi.stubEnv('MESSAGE_EDIT_WINDOW_MINUTES', '60');
+    expect(isWithinEditWindow(sentAt, minutesLater(45))).toBe(true);
+
+    vi.stubEnv('MESSAGE_EDIT_WINDOW_MINUTES', '0');
+    expect(isWithinEditWindow(sentAt, sentAt)).toBe(false);
+
+    vi.stubEnv('MESSAGE_EDIT_WINDOW_MINUTES', 'soon');
+    expect(getMessageEditWindowMs()).toBe(15 * 60 * 1000);
+  });
+});
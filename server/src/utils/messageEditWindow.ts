@@ -0,0 +1,25 @@
+const DEFAULT_EDIT_WINDOW_MINUTES = 15;
+
+/**
+ * How long after sending a message its sender may still edit or delete it
+ * Configured with MESSAGE_EDIT_WINDOW_MINUTES; 0 stops senders from changing messages at all
+ */
+export function getMessageEditWindowMs(): number {
+  const configured = process.env.MESSAGE_EDIT_WINDOW_MINUTES;
+  const minutes = configured ? Number(configured) : DEFAULT_EDIT_WINDOW_MINUTES;
+  return (Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_EDIT_WINDOW_MINUTES) * 60 * 1000;
+}
+
+/**
+ * The moment a message sent at createdAt stops being editable by its sender
+ */
+export function getEditableUntil(createdAt: Date): Date {
+  return new Date(new Date(createdAt).getTime() + getMessageEditWindowMs());
+}
+
+/**
+ * Check whether a message sent at createdAt can still be changed by its sender
+ */
+export function isWithinEditWindow(createdAt: Date, now: Date = new Date()): boolean {
+  return now.getTime() < getEditableUntil(createdAt).getTime();
+}
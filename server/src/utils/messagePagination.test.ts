@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import mongoose from 'mongoose';
+import {
+  encodeMessageCursor,
+  decodeMessageCursor,
+  buildMessagePageQuery,
+  toMessagePage,
+  DEFAULT_MESSAGE_PAGE_SIZE,
+} from './messagePagination.js';
+
+const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 10, minute));
+const message = (minute: number) => ({ _id: new mongoose.Types.ObjectId(), createdAt: at(minute) });
+
+describe('message pagination', () => {
+  it('should round-trip cursors and reject ones it did not produce', () => {
+    const first = message(0);
+    const decoded = decodeMessageCursor(encodeMessageCursor(first));
+
+    expect(decoded.createdAt).toEqual(first.createdAt);
+    expect(decoded.id.equals(first._id)).toBe(true);
+    expect(() => decodeMessageCursor('garbage')).toThrow('Invalid cursor');
+    expect(() => decodeMessageCursor(Buffer.from('123:not-an-id').toString('base64url'))).toThrow('Invalid cursor');
+  });
+
+  it('should read backwards from the newest message by default', () => {
+    const query = buildMessagePageQuery({});
+
+    expect(query.filter).toEqual({});
+    expect(query.sort).toEqual({ createdAt: -1, _id: -1 });
+    expect(query.fetchLimit).toBe(DEFAULT_MESSAGE_PAGE_SIZE + 1);
+  });
+
+  it('should break createdAt ties by id on both sides of a cursor', () => {
+    const boundary = message(5);
+    const cursor = encodeMessageCursor(boundary);
+
+    expect(buildMessagePageQuery({ before: cursor, limit: 10 })).toEqual({
+      filter: {
+        $or: [
+          { createdAt: { $lt: boundary.createdAt } },
+          { createdAt: boundary.createdAt, _id: { $lt: boundary._id } },
+        ],
+      },
+      sort: { createdAt: -1, _id: -1 },
+      fetchLimit: 11,
+    });
+    expect(buildMessagePageQuery({ after: cursor }).sort).toEqual({ createdAt: 1, _id: 1 });
+    expect(() => buildMessagePageQuery({ before: cursor, after: cursor })).toThrow('Invalid cursor');
+  });
+
+  it('should return pages oldest first and tell whether there are more', () => {
+    // Fetched newest first with one extra row
+    const rows = [message(4), message(3), message(2)];
+
+    const page = toMessagePage(rows, { limit: 2 }, (row) => row.createdAt.getUTCMinutes());
+
+    expect(page.messages).toEqual([3, 4]);
+    expect(page.hasMore).toBe(true);
+    expect(page.startCursor).toBe(encodeMessageCursor(rows[1]));
+    expect(page.endCursor).toBe(encodeMessageCursor(rows[0]));
+
+    const newer = toMessagePage([message(6)], { after: page.endCursor!, limit: 2 }, (row) => row.createdAt.getUTCMinutes());
+    expect(newer).toMatchObject({ messages: [6], hasMore: false });
+
+    expect(toMessagePage([], {}, (row) => row)).toEqual({ messages: [], hasMore: false, startCursor: null, endCursor: null });
+  });
+});
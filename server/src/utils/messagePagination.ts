@@ -0,0 +1,120 @@
+import mongoose from 'mongoose';
+
+/**
+ * Cursor pagination for chat history
+ *
+ * Messages are ordered by (createdAt, _id); the _id breaks ties between messages
+ * stored in the same millisecond, so a page boundary never skips or repeats a
+ * message. A cursor encodes both values of one message and is opaque to clients.
+ */
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+export interface MessagePageQuery {
+  // Only messages older than this cursor
+  before?: string;
+  // Only messages newer than this cursor
+  after?: string;
+  limit?: number;
+}
+
+export interface MessagePage<T> {
+  // Oldest first
+  messages: T[];
+  // More messages exist past this page: older ones, or newer ones when paging with `after`
+  hasMore: boolean;
+  // Cursors of the oldest and newest message in the page
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+interface MessagePosition {
+  _id: mongoose.Types.ObjectId | string;
+  createdAt: Date;
+}
+
+type SortDirection = 1 | -1;
+
+export function encodeMessageCursor(message: MessagePosition): string {
+  return Buffer.from(`${new Date(message.createdAt).getTime()}:${message._id.toString()}`).toString('base64url');
+}
+
+/**
+ * @throws Error if the cursor was not produced by encodeMessageCursor
+ */
+export function decodeMessageCursor(cursor: string): { createdAt: Date; id: mongoose.Types.ObjectId } {
+  const [time, id] = Buffer.from(cursor, 'base64url').toString().split(':');
+  const createdAt = new Date(Number(time));
+
+  if (!time || isNaN(createdAt.getTime()) || !id || !mongoose.isValidObjectId(id)) {
+    throw new Error('Invalid cursor');
+  }
+
+  return { createdAt, id: new mongoose.Types.ObjectId(id) };
+}
+
+/**
+ * Filter, sort and batch size for one page of messages
+ * Without `after` the page is read backwards from the newest message (or from `before`).
+ * One message more than the page size is fetched to tell whether there are more.
+ *
+ * @throws Error if both cursors are given or a cursor is invalid
+ */
+export function buildMessagePageQuery(page: MessagePageQuery) {
+  if (page.before && page.after) {
+    throw new Error('Invalid cursor: use either before or after');
+  }
+
+  const direction: SortDirection = page.after ? 1 : -1;
+  const cursor = page.after ?? page.before;
+  let filter = {};
+
+  if (cursor) {
+    const { createdAt, id } = decodeMessageCursor(cursor);
+    const beyond = page.after ? '$gt' : '$lt';
+    filter = {
+      $or: [
+        { createdAt: { [beyond]: createdAt } },
+        { createdAt, _id: { [beyond]: id } },
+      ],
+    };
+  }
+
+  return {
+    filter,
+    sort: { createdAt: direction, _id: direction },
+    fetchLimit: resolvePageSize(page.limit) + 1,
+  };
+}
+
+/**
+ * Turn the messages fetched with buildMessagePageQuery into a page
+ */
+export function toMessagePage<R extends MessagePosition, T>(
+  rows: R[],
+  page: MessagePageQuery,
+  map: (row: R) => T
+): MessagePage<T> {
+  const size = resolvePageSize(page.limit);
+  const pageRows = rows.slice(0, size);
+
+  // Pages read backwards come newest first
+  if (!page.after) {
+    pageRows.reverse();
+  }
+
+  return {
+    messages: pageRows.map(map),
+    hasMore: rows.length > size,
+    startCursor: pageRows.length > 0 ? encodeMessageCursor(pageRows[0]) : null,
+    endCursor: pageRows.length > 0 ? encodeMessageCursor(pageRows[pageRows.length - 1]) : null,
+  };
+}
+
+function resolvePageSize(limit?: number): number {
+  if (!limit || !Number.isFinite(limit)) {
+    return DEFAULT_MESSAGE_PAGE_SIZE;
+  }
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_MESSAGE_PAGE_SIZE);
+}
@@ -1,4 +1,8 @@
 import bcrypt from 'bcryptjs';
+import { z } from 'zod';
+
+// Password rules shared by signup and password reset
+export const passwordSchema = z.string().min(6, 'Password must be at least 6 characters');
 
 export const hashPassword = async (password: string): Promise<string> => {
   const saltRounds = 12;
@@ -10,4 +14,4 @@ export const comparePassword = async (
   hashedPassword: string
 ): Promise<boolean> => {
   return bcrypt.compare(password, hashedPassword);
-};
\ No newline at end of file
+};
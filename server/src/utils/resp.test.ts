@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { encodeCommand, RespParser, RespError } from './resp.js';
+
+describe('RESP', () => {
+  it('should encode commands as bulk string arrays', () => {
+    expect(encodeCommand(['PUBLISH', 'chan', 'héllo']).toString()).toBe(
+      '*3\r\n$7\r\nPUBLISH\r\n$4\r\nchan\r\n$6\r\nhéllo\r\n'
+    );
+  });
+
+  it('should parse every reply type', () => {
+    const parser = new RespParser();
+    const values = parser.push(Buffer.from('+OK\r\n:3\r\n$-1\r\n*2\r\n$3\r\nfoo\r\n:1\r\n-ERR wrong\r\n'));
+
+    expect(values.slice(0, 4)).toEqual(['OK', 3, null, ['foo', 1]]);
+    expect(values[4]).toBeInstanceOf(RespError);
+    expect((values[4] as RespError).message).toBe('ERR wrong');
+  });
+
+  it('should wait for replies split across chunks', () => {
+    const parser = new RespParser();
+    const reply = Buffer.from('*3\r\n$7\r\nmessage\r\n$4\r\nchan\r\n$12\r\n{"a":"héy"}\r\n');
+
+    expect(parser.push(reply.subarray(0, 20))).toEqual([]);
+    expect(parser.push(reply.subarray(20, 40))).toEqual([]);
+    expect(parser.push(reply.subarray(40))).toEqual([['message', 'chan', '{"a":"héy"}']]);
+  });
+});
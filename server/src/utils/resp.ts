@@ -0,0 +1,103 @@
+/**
+ * Minimal encoder and parser for RESP, the Redis wire protocol
+ * Covers what the pub/sub broker needs: commands out, RESP2 replies and pushes in
+ */
+
+export type RespValue = string | number | null | RespError | RespValue[];
+
+/**
+ * An error reply from the server (a "-ERR ..." line)
+ */
+export class RespError extends Error {}
+
+/**
+ * Encode a command as an array of bulk strings
+ */
+export const encodeCommand = (args: string[]): Buffer => {
+  let output = `*${args.length}\r\n`;
+
+  for (const arg of args) {
+    output += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+  }
+
+  return Buffer.from(output);
+};
+
+/**
+ * Incremental reply parser; feed it socket data as it arrives
+ */
+export class RespParser {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  /**
+   * Add received data
+   *
+   * @returns Every reply that is now complete, in order
+   */
+  push(chunk: Buffer): RespValue[] {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+    const values: RespValue[] = [];
+
+    for (;;) {
+      const result = this.parse(0);
+      if (!result) {
+        break;
+      }
+
+      values.push(result.value);
+      this.buffer = this.buffer.subarray(result.end);
+    }
+
+    return values;
+  }
+
+  private parse(start: number): { value: RespValue; end: number } | null {
+    const lineEnd = this.buffer.indexOf('\r\n', start);
+    if (lineEnd === -1) {
+      return null;
+    }
+
+    const prefix = String.fromCharCode(this.buffer[start]);
+    const line = this.buffer.toString('utf8', start + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (prefix) {
+      case '+':
+        return { value: line, end: next };
+      case '-':
+        return { value: new RespError(line), end: next };
+      case ':':
+        return { value: Number(line), end: next };
+      case '$': {
+        const length = Number(line);
+        if (length === -1) {
+          return { value: null, end: next };
+        }
+        if (this.buffer.length < next + length + 2) {
+          return null;
+        }
+        return { value: this.buffer.toString('utf8', next, next + length), end: next + length + 2 };
+      }
+      case '*': {
+        const count = Number(line);
+        if (count === -1) {
+          return { value: null, end: next };
+        }
+
+        const items: RespValue[] = [];
+        let position = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.parse(position);
+          if (!item) {
+            return null;
+          }
+          items.push(item.value);
+          position = item.end;
+        }
+        return { value: items, end: position };
+      }
+      default:
+        throw new Error(`Unexpected RESP type: ${prefix}`);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { parseTaskFilter, sortTasks } from './taskQuery.js';
+import { TaskPayload } from '../shared/realtimeProtocol.js';
+
+const task = (id: string, changes: Partial<TaskPayload> = {}): TaskPayload => ({
+  id,
+  spaceId: 'space-1',
+  creatorId: 'user-1',
+  title: id,
+  status: 'todo',
+  position: 0,
+  assignees: [],
+  priority: 'medium',
+  labelIds: [],
+  checklist: [],
+  blockedByIds: [],
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...changes,
+});
+
+describe('parseTaskFilter', () => {
+  it('should read every kind of term, in any case', () => {
+    expect(parseTaskFilter('  Mine overdue label:Backend label:api priority:urgent status:review ')).toEqual({
+      mine: true,
+      unassigned: false,
+      overdue: true,
+      labels: ['backend', 'api'],
+      priorities: ['urgent'],
+      statuses: ['review'],
+    });
+    expect(parseTaskFilter()).toMatchObject({ mine: false, labels: [] });
+  });
+
+  it('should reject unknown terms and values', () => {
+    expect(() => parseTaskFilter('mine later')).toThrow('Invalid filter: "later" is not a filter term');
+    expect(() => parseTaskFilter('priority:critical')).toThrow('Invalid filter');
+    expect(() => parseTaskFilter('label:')).toThrow('Invalid filter');
+    expect(() => parseTaskFilter('mine:yes')).toThrow('Invalid filter');
+    expect(() => parseTaskFilter('status:In-Review')).toThrow('Invalid filter');
+  });
+});
+
+describe('sortTasks', () => {
+  const tasks = [
+    task('review', { status: 'review', dueDate: new Date('2024-02-01'), priority: 'low' }),
+    task('undated', { position: 1024, priority: 'urgent' }),
+    task('soon', { position: 0, dueDate: new Date('2024-01-15') }),
+  ];
+
+  it('should sort by board order by default', () => {
+    expect(sortTasks(tasks).map(({ id }) => id)).toEqual(['soon', 'undated', 'review']);
+  });
+
+  it('should follow the order of a space\'s own columns', () => {
+    const qa = task('qa', { status: 'qa' });
+
+    expect(sortTasks([...tasks, qa], 'position', ['todo', 'qa', 'review', 'done']).map(({ id }) => id))
+      .toEqual(['soon', 'undated', 'qa', 'review']);
+  });
+
+  it('should put tasks due soonest first and undated ones last', () => {
+    expect(sortTasks(tasks, 'due').map(({ id }) => id)).toEqual(['soon', 'review', 'undated']);
+  });
+
+  it('should put the most urgent first, in board order when equal', () => {
+    const medium = task('medium', { position: 2048 });
+
+    expect(sortTasks([...tasks, medium], 'priority').map(({ id }) => id)).toEqual(['undated', 'soon', 'medium', 'review']);
+  });
+});
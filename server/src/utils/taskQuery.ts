@@ -0,0 +1,103 @@
+import {
+  DEFAULT_TASK_WORKFLOW,
+  TASK_PRIORITIES,
+  taskStatusSchema,
+  TaskPayload,
+  TaskPriority,
+  TaskStatus,
+} from '../shared/realtimeProtocol.js';
+
+/**
+ * Filtering and sorting of task lists
+ *
+ * A filter is a list of terms separated by spaces, all of which a task must match:
+ *   mine              assigned to the user asking
+ *   unassigned        assigned to no one
+ *   overdue           past its due date and not done
+ *   label:<name>      has the label (several label terms: has all of them)
+ *   priority:<level>  has the priority (several: any of them)
+ *   status:<status>   in the column (several: any of them)
+ * For example `mine overdue label:backend`.
+ */
+
+export const TASK_SORTS = ['position', 'due', 'priority', 'created', 'updated'] as const;
+export type TaskSort = typeof TASK_SORTS[number];
+
+export interface TaskFilter {
+  mine: boolean;
+  unassigned: boolean;
+  overdue: boolean;
+  labels: string[];
+  priorities: TaskPriority[];
+  statuses: TaskStatus[];
+}
+
+export interface TaskListQuery {
+  filter?: string;
+  sort?: TaskSort;
+}
+
+/**
+ * Parse a filter
+ *
+ * @param filter - Terms separated by spaces; empty matches every task
+ * @throws Error if a term is unknown or has an invalid value
+ */
+export function parseTaskFilter(filter = ''): TaskFilter {
+  const parsed: TaskFilter = { mine: false, unassigned: false, overdue: false, labels: [], priorities: [], statuses: [] };
+
+  for (const term of filter.trim().split(/\s+/).filter(Boolean)) {
+    const separator = term.indexOf(':');
+    const key = (separator === -1 ? term : term.slice(0, separator)).toLowerCase();
+    const value = separator === -1 ? '' : term.slice(separator + 1).toLowerCase();
+
+    if (separator === -1 && (key === 'mine' || key === 'unassigned' || key === 'overdue')) {
+      parsed[key] = true;
+    } else if (key === 'label' && value) {
+      parsed.labels.push(value);
+    } else if (key === 'priority' && (TASK_PRIORITIES as readonly string[]).includes(value)) {
+      parsed.priorities.push(value as TaskPriority);
+    } else if (key === 'status' && taskStatusSchema.safeParse(value).success) {
+      parsed.statuses.push(value);
+    } else {
+      throw new Error(`Invalid filter: "${term}" is not a filter term`);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Sort tasks
+ * `position` is board order: column by column, then top to bottom. Due dates come
+ * soonest first with undated tasks last, priorities most urgent first, and created
+ * and updated newest first. Ties keep board order.
+ *
+ * @param statuses - The board's columns in order; the default workflow's without them
+ * @returns A new, sorted array
+ */
+export function sortTasks<T extends TaskPayload>(
+  tasks: T[],
+  sort: TaskSort = 'position',
+  statuses: readonly TaskStatus[] = DEFAULT_TASK_WORKFLOW.map(column => column.status)
+): T[] {
+  const time = (date?: Date | string | null) => (date ? new Date(date).getTime() : Infinity);
+
+  const byPosition = (a: T, b: T) =>
+    statuses.indexOf(a.status) - statuses.indexOf(b.status) ||
+    a.position - b.position ||
+    time(a.createdAt) - time(b.createdAt);
+
+  const compare: Record<TaskSort, (a: T, b: T) => number> = {
+    position: () => 0,
+    due: (a, b) => {
+      const [dueA, dueB] = [time(a.dueDate), time(b.dueDate)];
+      return dueA === dueB ? 0 : dueA < dueB ? -1 : 1;
+    },
+    priority: (a, b) => TASK_PRIORITIES.indexOf(b.priority) - TASK_PRIORITIES.indexOf(a.priority),
+    created: (a, b) => time(b.createdAt) - time(a.createdAt),
+    updated: (a, b) => time(b.updatedAt) - time(a.updatedAt),
+  };
+
+  return [...tasks].sort((a, b) => compare[sort](a, b) || byPosition(a, b));
+}
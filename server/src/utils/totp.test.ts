@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  verifyTotp,
+  getTotpTimeStep,
+  buildOtpauthUri,
+} from './totp.js';
+
+// RFC 6238 appendix B secret ("12345678901234567890") in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+  it('should round-trip base32', () => {
+    const buffer = Buffer.from('12345678901234567890');
+    expect(base32Encode(buffer)).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET).equals(buffer)).toBe(true);
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, getTotpTimeStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, getTotpTimeStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, getTotpTimeStep(2000000000 * 1000))).toBe('279037');
+  });
+
+  it('should accept codes from adjacent time steps only', () => {
+    const now = 1111111109 * 1000;
+    const step = getTotpTimeStep(now);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 1, now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), 1, now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), 1, now)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    const uri = buildOtpauthUri(RFC_SECRET, 'priya@test.com');
+    expect(uri).toContain('otpauth://totp/CodeJam%3Apriya%40test.com?');
+    expect(uri).toContain(`secret=${RFC_SECRET}`);
+    expect(uri).toContain('issuer=CodeJam');
+  });
+});
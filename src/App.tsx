@@ -1,5 +1,6 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from '@/context/AuthContext';
+import { WebSocketProvider } from '@/context/WebSocketContext';
 import { Landing } from '@/pages/Landing';
 import { Auth } from '@/pages/Auth';
 import { Onboarding } from '@/pages/Onboarding';
@@ -12,8 +13,10 @@ import { CreatePost } from '@/pages/CreatePost';
 import { Profile } from '@/pages/Profile';
 import { ScreeningChat } from '@/pages/ScreeningChat';
 import { Messages } from '@/pages/Messages';
+import { DirectChat } from '@/pages/DirectChat';
 import { Workspaces } from '@/pages/Workspaces';
 import { WorkspaceDetail } from '@/pages/WorkspaceDetail';
+import { VerifyEmail } from '@/pages/VerifyEmail';
 
 // Protected route component
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -73,6 +76,16 @@ function AppRoutes() {
           </PublicRoute>
         }
       />
+      <Route
+        path="/reset-password"
+        element={
+          <PublicRoute>
+            <Auth />
+          </PublicRoute>
+        }
+      />
+
+      <Route path="/verify-email" element={<VerifyEmail />} />
 
       {/* Protected Routes */}
       <Route
@@ -147,6 +160,14 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/messages/direct/:conversationId"
+        element={
+          <ProtectedRoute>
+            <DirectChat />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/workspaces"
         element={
@@ -181,9 +202,11 @@ function AppRoutes() {
 function App() {
   return (
     <AuthProvider>
-      <Router>
-        <AppRoutes />
-      </Router>
+      <WebSocketProvider>
+        <Router>
+          <AppRoutes />
+        </Router>
+      </WebSocketProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { Archive, ArchiveRestore, Hash, MoreHorizontal, Pencil, Plus } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import type { WorkspaceChannel } from '@/services/api';
+
+interface ChannelListProps {
+  channels: WorkspaceChannel[];
+  activeChannelId: string | null;
+  // Channels with messages that arrived while another channel was open
+  unreadChannelIds: Set<string>;
+  canManage: boolean;
+  // Founders decide whether members may manage channels too
+  isFounder: boolean;
+  membersCanManageChannels: boolean;
+  onSelect: (channelId: string) => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (channelId: string, name: string) => Promise<void>;
+  onSetArchived: (channelId: string, archived: boolean) => Promise<void>;
+  onSetMembersCanManage: (allowed: boolean) => Promise<void>;
+}
+
+/**
+ * The channels of a Builder Space above its chat, with creating, renaming and archiving for those allowed to
+ */
+export function ChannelList({
+  channels,
+  activeChannelId,
+  unreadChannelIds,
+  canManage,
+  isFounder,
+  membersCanManageChannels,
+  onSelect,
+  onCreate,
+  onRename,
+  onSetArchived,
+  onSetMembersCanManage,
+}: ChannelListProps) {
+  const [showArchived, setShowArchived] = useState(false);
+  // Channel being renamed, or 'new' while creating one
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const archivedCount = channels.filter(channel => channel.archivedAt).length;
+  const visibleChannels = channels.filter(channel =>
+    !channel.archivedAt || showArchived || channel.id === activeChannelId
+  );
+
+  const startEditing = (target: string, name = '') => {
+    setDraft(name);
+    setEditing(target);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !draft.trim() || saving) return;
+
+    try {
+      setSaving(true);
+      if (editing === 'new') {
+        await onCreate(draft.trim());
+      } else {
+        await onRename(editing, draft.trim());
+      }
+      setEditing(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save channel');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  const nameForm = (
+    <form onSubmit={handleSave} className="flex items-center gap-1">
+      <Hash className="w-3.5 h-3.5 text-white/50" />
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => e.key === 'Escape' && setEditing(null)}
+        placeholder="channel-name"
+        maxLength={32}
+        autoFocus
+        disabled={saving}
+        className="w-32 bg-transparent border-b border-white/30 text-sm text-white focus:outline-none"
+      />
+    </form>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      {visibleChannels.map(channel => {
+        if (editing === channel.id) {
+          return <div key={channel.id} className="px-3 py-1.5 rounded-lg bg-white/10">{nameForm}</div>;
+        }
+
+        const isActive = channel.id === activeChannelId;
+        return (
+          <div
+            key={channel.id}
+            className={`group flex items-center rounded-lg text-sm transition-colors ${
+              isActive ? 'bg-white text-black' : 'bg-white/10 text-white/70 hover:bg-white/20'
+            } ${channel.archivedAt ? 'opacity-60' : ''}`}
+          >
+            <button type="button" onClick={() => onSelect(channel.id)} className="flex items-center gap-1 pl-3 pr-2 py-1.5">
+              <Hash className="w-3.5 h-3.5" />
+              {channel.name}
+              {channel.archivedAt && <Archive className="w-3 h-3" />}
+              {unreadChannelIds.has(channel.id) && !isActive && (
+                <span className="w-2 h-2 rounded-full bg-white" aria-label="New messages" />
+              )}
+            </button>
+            {canManage && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button type="button" aria-label={`Manage #${channel.name}`} className="pr-2 py-1.5 opacity-50 hover:opacity-100">
+                    <MoreHorizontal className="w-3.5 h-3.5" />
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent align="start" className="w-44 p-1 bg-black border-white/10 text-white">
+                  <button
+                    type="button"
+                    onClick={() => startEditing(channel.id, channel.name)}
+                    className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-white/10"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                    Rename
+                  </button>
+                  {!channel.isDefault && (
+                    <button
+                      type="button"
+                      onClick={() => runAction(() => onSetArchived(channel.id, !channel.archivedAt), 'Failed to update channel')}
+                      className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-white/10"
+                    >
+                      {channel.archivedAt ? <ArchiveRestore className="w-3.5 h-3.5" /> : <Archive className="w-3.5 h-3.5" />}
+                      {channel.archivedAt ? 'Unarchive' : 'Archive'}
+                    </button>
+                  )}
+                </PopoverContent>
+              </Popover>
+            )}
+          </div>
+        );
+      })}
+
+      {editing === 'new' ? (
+        <div className="px-3 py-1.5 rounded-lg bg-white/10">{nameForm}</div>
+      ) : canManage && (
+        <button
+          type="button"
+          onClick={() => startEditing('new')}
+          aria-label="New channel"
+          className="p-1.5 rounded-lg bg-white/10 text-white/70 hover:bg-white/20"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      )}
+
+      {archivedCount > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowArchived(prev => !prev)}
+          className="text-xs text-white/50 hover:text-white"
+        >
+          {showArchived ? 'Hide archived' : `Show archived (${archivedCount})`}
+        </button>
+      )}
+
+      {isFounder && (
+        <label className="ml-auto flex items-center gap-2 text-xs text-white/50">
+          Members can manage channels
+          <Switch
+            checked={membersCanManageChannels}
+            onCheckedChange={(checked) => runAction(() => onSetMembersCanManage(checked), 'Failed to update settings')}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Pencil, Trash2, Check, X } from 'lucide-react';
+import type { MessageMention } from '@shared/realtimeProtocol';
+import { ChatTextarea } from '@/components/ChatTextarea';
+import { MarkdownContent } from '@/components/MarkdownContent';
+
+interface ChatMessageContentProps {
+  message: {
+    content: string;
+    deletedAt?: string | Date | null;
+    // Until when the sender may still edit or delete it
+    editableUntil?: string | Date;
+    mentions?: MessageMention[];
+  };
+  isOwn: boolean;
+  // Founders can delete any message in their Builder Space
+  canModerate?: boolean;
+  onEdit: (content: string) => Promise<void>;
+  onDelete: () => Promise<void>;
+}
+
+/**
+ * The text of a chat message, with inline editing and deleting for messages the user may change
+ */
+export function ChatMessageContent({ message, isOwn, canModerate = false, onEdit, onDelete }: ChatMessageContentProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  if (message.deletedAt) {
+    return <p className="text-sm leading-relaxed italic opacity-60">Message deleted</p>;
+  }
+
+  const canEdit = isOwn && !!message.editableUntil && new Date(message.editableUntil).getTime() > Date.now();
+  const canDelete = canEdit || canModerate;
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = draft.trim();
+    if (!content || saving) return;
+
+    try {
+      setSaving(true);
+      if (content !== message.content) {
+        await onEdit(content);
+      }
+      setEditing(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to edit message');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this message? Everyone in the chat will see that it was deleted.')) return;
+
+    try {
+      await onDelete();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete message');
+    }
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={handleSave} className="flex items-end gap-1">
+        <ChatTextarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && setEditing(false)}
+          autoFocus
+          disabled={saving}
+          className="flex-1 min-w-0 bg-transparent border-b border-current text-sm focus:outline-none"
+        />
+        <button type="submit" disabled={!draft.trim() || saving} aria-label="Save edit" className="opacity-60 hover:opacity-100">
+          <Check className="w-3.5 h-3.5" />
+        </button>
+        <button type="button" onClick={() => setEditing(false)} aria-label="Cancel edit" className="opacity-60 hover:opacity-100">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="group flex items-start gap-2">
+      <MarkdownContent content={message.content} mentions={message.mentions} className="text-sm leading-relaxed flex-1" />
+      {(canEdit || canDelete) && (
+        <div className={`hidden group-hover:flex gap-1 shrink-0 ${isOwn ? 'text-black/50' : 'text-white/50'}`}>
+          {canEdit && (
+            <button type="button" onClick={startEditing} aria-label="Edit message" className="hover:opacity-70">
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {canDelete && (
+            <button type="button" onClick={handleDelete} aria-label="Delete message" className="hover:opacity-70">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
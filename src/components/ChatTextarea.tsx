@@ -0,0 +1,45 @@
+import { useImperativeHandle, useLayoutEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+
+// Beyond this the textarea scrolls instead of growing
+const MAX_HEIGHT = 160;
+
+/**
+ * Chat message textarea: Enter sends, Shift+Enter starts a new line, and it grows with its content
+ *
+ * Sending submits the surrounding form. A keydown handler passed in runs first and
+ * can call preventDefault to keep Enter for itself, e.g. to pick a suggestion.
+ */
+export function ChatTextarea({ ref, value, onKeyDown, className, ...props }: React.ComponentProps<'textarea'>) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  useImperativeHandle(ref, () => textareaRef.current!);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    textarea.style.height = 'auto';
+    textarea.style.height = `${Math.min(textarea.scrollHeight, MAX_HEIGHT)}px`;
+  }, [value]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    onKeyDown?.(e);
+    if (e.defaultPrevented) return;
+
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      e.currentTarget.form?.requestSubmit();
+    }
+  };
+
+  return (
+    <textarea
+      {...props}
+      ref={textareaRef}
+      rows={1}
+      value={value}
+      onKeyDown={handleKeyDown}
+      className={cn('block resize-none overflow-y-auto', className)}
+    />
+  );
+}
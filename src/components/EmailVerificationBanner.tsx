@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/context/AuthContext';
+import { apiService } from '@/services/api';
+
+export function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const [isSending, setIsSending] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  if (!user || user.emailVerified !== false) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    try {
+      setIsSending(true);
+      setNotice(null);
+      await apiService.resendVerificationEmail();
+      setNotice(`We sent a new link to ${user.email}.`);
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : 'Failed to send verification email');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-xl flex flex-col sm:flex-row sm:items-center gap-3">
+      <MailWarning className="w-5 h-5 text-yellow-400 flex-shrink-0" />
+      <div className="flex-1">
+        <p className="text-yellow-200 text-sm">
+          Verify your email address to post startups and hackathons or apply to teams.
+        </p>
+        {notice && <p className="text-white/60 text-xs mt-1">{notice}</p>}
+      </div>
+      <Button
+        onClick={handleResend}
+        disabled={isSending}
+        variant="outline"
+        className="border-yellow-500/30 text-yellow-200 hover:bg-yellow-500/10 rounded-xl"
+      >
+        {isSending ? 'Sending...' : 'Resend email'}
+      </Button>
+    </div>
+  );
+}
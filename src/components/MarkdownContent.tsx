@@ -0,0 +1,113 @@
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@shared/markdown';
+import type { MessageMention } from '@shared/realtimeProtocol';
+import { highlight, type HighlightTokenType } from '@/lib/highlight';
+import { cn } from '@/lib/utils';
+
+interface MarkdownContentProps {
+  content: string;
+  mentions?: MessageMention[];
+  className?: string;
+}
+
+const TOKEN_CLASSES: Record<HighlightTokenType, string | undefined> = {
+  plain: undefined,
+  keyword: 'text-sky-300',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  comment: 'text-white/40 italic',
+};
+
+/**
+ * Chat message content rendered from its Markdown, with each @mention set in bold
+ *
+ * Everything is rendered as React elements, never as HTML, and only the links the
+ * parser found become anchors; the server has already escaped unsafe ones.
+ */
+export function MarkdownContent({ content, mentions = [], className }: MarkdownContentProps) {
+  const sortedMentions = [...mentions].sort((a, b) => a.start - b.start);
+
+  const renderText = (text: string, offset: number, key: number) => {
+    const parts: React.ReactNode[] = [];
+    let position = offset;
+    const end = offset + text.length;
+
+    // A mention may cover several nodes, so each node sets its own part of it in bold
+    for (const mention of sortedMentions) {
+      const start = Math.max(mention.start, position);
+      const mentionEnd = Math.min(mention.start + mention.length, end);
+      if (start >= mentionEnd) continue;
+
+      parts.push(text.slice(position - offset, start - offset));
+      parts.push(
+        <span key={start} className="font-semibold underline decoration-dotted underline-offset-2">
+          {text.slice(start - offset, mentionEnd - offset)}
+        </span>
+      );
+      position = mentionEnd;
+    }
+    parts.push(text.slice(position - offset));
+
+    return <span key={key}>{parts}</span>;
+  };
+
+  const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] => nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return renderText(node.text, node.offset, index);
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return (
+          <code key={index} className="rounded bg-black/20 px-1 py-0.5 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.url}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="underline underline-offset-2 break-all hover:opacity-80"
+          >
+            {node.url}
+          </a>
+        );
+    }
+  });
+
+  const renderBlock = (block: MarkdownBlock, index: number) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index} className="whitespace-pre-wrap break-words">{renderInline(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+        return block.ordered
+          ? <ol key={index} start={block.start} className="list-decimal pl-5 space-y-0.5">{items}</ol>
+          : <ul key={index} className="list-disc pl-5 space-y-0.5">{items}</ul>;
+      }
+      case 'codeBlock':
+        return (
+          <div key={index} className="overflow-hidden rounded-lg bg-neutral-950 text-white/90">
+            {block.language && (
+              <div className="border-b border-white/10 px-3 py-1 text-[11px] uppercase tracking-wide text-white/40">
+                {block.language}
+              </div>
+            )}
+            <pre className="overflow-x-auto p-3 text-xs leading-relaxed">
+              <code className="font-mono">
+                {highlight(block.code, block.language).map((token, tokenIndex) => (
+                  <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+                ))}
+              </code>
+            </pre>
+          </div>
+        );
+    }
+  };
+
+  return <div className={cn('min-w-0 space-y-2', className)}>{parseMarkdown(content).map(renderBlock)}</div>;
+}
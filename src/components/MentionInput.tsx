@@ -0,0 +1,109 @@
+import { useRef, useState } from 'react';
+import { ChatTextarea } from '@/components/ChatTextarea';
+
+export interface MentionMember {
+  userId: string;
+  name: string;
+}
+
+interface MentionInputProps extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+  // Everyone who can be mentioned
+  members: MentionMember[];
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// An `@` at the start or after a non-word character, followed by what has been typed of a name
+const MENTION_QUERY = /(?:^|[^\p{L}\p{N}_])@([\p{L}\p{N}_.'-]*(?: [\p{L}\p{N}_.'-]*)?)$/u;
+
+/**
+ * Chat message textarea that suggests team members after `@` and inserts the chosen name
+ */
+export function MentionInput({ value, onChange, members, onKeyDown, ...inputProps }: MentionInputProps) {
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<{ text: string; start: number } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = query
+    ? members
+      .filter(member => member.name.toLowerCase().startsWith(query.text.toLowerCase()))
+      .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = MENTION_QUERY.exec(text.slice(0, caret));
+    setQuery(match ? { text: match[1], start: caret - match[1].length - 1 } : null);
+    setHighlighted(0);
+  };
+
+  const selectMember = (member: MentionMember) => {
+    if (!query) return;
+
+    const end = query.start + 1 + query.text.length;
+    const inserted = `@${member.name} `;
+    onChange(value.slice(0, query.start) + inserted + value.slice(end));
+    setQuery(null);
+
+    const caret = query.start + inserted.length;
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectMember(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setQuery(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative flex-1">
+      <ChatTextarea
+        {...inputProps}
+        ref={inputRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart ?? e.target.value.length);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setQuery(null)}
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute bottom-full left-0 mb-1 w-64 max-w-full overflow-hidden rounded-lg border border-white/10 bg-black py-1 shadow-lg z-10">
+          {suggestions.map((member, index) => (
+            <li key={member.userId}>
+              <button
+                type="button"
+                // Keep focus in the input so the blur doesn't close the list first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectMember(member)}
+                className={`block w-full text-left px-3 py-1.5 text-sm text-white ${index === highlighted ? 'bg-white/15' : 'hover:bg-white/10'}`}
+              >
+                {member.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { SmilePlus } from 'lucide-react';
+import type { MessageReaction } from '@shared/realtimeProtocol';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+// Offered in the picker; any single emoji is accepted by the server
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '🎉', '👀', '🚀', '🙏', '🔥'];
+
+interface MessageReactionsProps {
+  reactions: MessageReaction[];
+  currentUserId: string | undefined;
+  isOwn: boolean;
+  onToggle: (emoji: string) => void;
+}
+
+/**
+ * Emoji reactions under a chat message; clicking one the user already made takes it back
+ */
+export function MessageReactions({ reactions, currentUserId, isOwn, onToggle }: MessageReactionsProps) {
+  return (
+    <div className={`flex flex-wrap items-center gap-1 mt-1 ${isOwn ? 'justify-end' : 'justify-start'}`}>
+      {reactions.map(reaction => {
+        const reacted = !!currentUserId && reaction.userIds.includes(currentUserId);
+        return (
+          <button
+            key={reaction.emoji}
+            type="button"
+            onClick={() => onToggle(reaction.emoji)}
+            className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+              reacted ? 'border-white/40 bg-white/20 text-white' : 'border-white/10 bg-white/5 text-white/70'
+            }`}
+          >
+            <span>{reaction.emoji}</span>
+            <span>{reaction.userIds.length}</span>
+          </button>
+        );
+      })}
+      <Popover>
+        <PopoverTrigger asChild>
+          <button type="button" aria-label="Add reaction" className="rounded-full p-1 text-white/40 hover:text-white/80">
+            <SmilePlus className="w-3.5 h-3.5" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-1 flex gap-1">
+          {QUICK_REACTIONS.map(emoji => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => onToggle(emoji)}
+              className="rounded p-1 text-lg hover:bg-white/10"
+            >
+              {emoji}
+            </button>
+          ))}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO, startOfToday, subYears } from 'date-fns';
+import { AlertCircle, Milestone, Pencil, Plus, Trash2 } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { DatePicker } from '@/components/ui/date-picker';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { apiService, type MilestoneBurndown, type WorkspaceMilestone, type WorkspaceTask } from '@/services/api';
+import { fromMilestoneDay, toMilestoneDay } from '@/lib/tasks';
+
+interface MilestonePanelProps {
+  workspaceId: string;
+  milestones: WorkspaceMilestone[];
+  // The board's tasks; the burndown is reloaded when those in the shown milestone change
+  tasks: WorkspaceTask[];
+  // A milestone created or changed, as the server saved it
+  onSaved: (milestone: WorkspaceMilestone) => void;
+  onDeleted: (milestone: WorkspaceMilestone) => void;
+}
+
+interface MilestoneFormValues {
+  name: string;
+  description: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+const inputClassName = 'w-full bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-white/20';
+
+const chartConfig = {
+  remaining: { label: 'Remaining', color: '#38bdf8' },
+  ideal: { label: 'Ideal', color: 'rgba(255, 255, 255, 0.35)' },
+} satisfies ChartConfig;
+
+/**
+ * The milestone the panel opens on: the first that has not ended, or else the last one
+ */
+function currentMilestone(milestones: WorkspaceMilestone[]): WorkspaceMilestone | undefined {
+  const today = startOfToday();
+  return milestones.find(milestone => fromMilestoneDay(milestone.endDate) >= today) ?? milestones[milestones.length - 1];
+}
+
+function formatRange(milestone: WorkspaceMilestone): string {
+  const start = fromMilestoneDay(milestone.startDate);
+  const end = fromMilestoneDay(milestone.endDate);
+  return start.getFullYear() === end.getFullYear()
+    ? `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`
+    : `${format(start, 'MMM d, yyyy')} – ${format(end, 'MMM d, yyyy')}`;
+}
+
+/**
+ * The space's milestones, with a burndown of the selected one: the tasks left on each of
+ * its days against a straight line down to zero at the end
+ * Milestones are added and changed here; tasks join one from the task dialog
+ */
+export function MilestonePanel({ workspaceId, milestones, tasks, onSaved, onDeleted }: MilestonePanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [burndown, setBurndown] = useState<MilestoneBurndown | null>(null);
+  // The milestone being edited, or 'new' while adding one
+  const [editing, setEditing] = useState<WorkspaceMilestone | 'new' | null>(null);
+  const [values, setValues] = useState<MilestoneFormValues>({ name: '', description: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = milestones.find(milestone => milestone.id === selectedId) ?? currentMilestone(milestones);
+  const selectedMilestoneId = selected?.id;
+  const selectedUpdatedAt = selected ? new Date(selected.updatedAt).getTime() : 0;
+
+  // Changes only when a task joins or leaves the milestone or moves between columns
+  const taskSignature = useMemo(() => tasks
+    .filter(task => task.milestoneId && task.milestoneId === selectedMilestoneId)
+    .map(task => `${task.id}:${task.status}`)
+    .sort()
+    .join(','), [tasks, selectedMilestoneId]);
+
+  useEffect(() => {
+    if (!selectedMilestoneId) return;
+
+    let cancelled = false;
+    apiService.getMilestoneBurndown(workspaceId, selectedMilestoneId)
+      .then(({ burndown }) => {
+        if (!cancelled) setBurndown(burndown);
+      })
+      .catch(error => console.error('Failed to load burndown:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, selectedMilestoneId, selectedUpdatedAt, taskSignature]);
+
+  const shownBurndown = burndown?.milestoneId === selectedMilestoneId ? burndown : null;
+  const chartData = useMemo(() => (shownBurndown?.series ?? []).map(point => ({
+    ...point,
+    day: format(parseISO(point.date), 'MMM d'),
+  })), [shownBurndown]);
+
+  const openForm = (milestone: WorkspaceMilestone | 'new') => {
+    setEditing(milestone);
+    setValues(milestone === 'new'
+      ? { name: '', description: '' }
+      : {
+        name: milestone.name,
+        description: milestone.description ?? '',
+        startDate: fromMilestoneDay(milestone.startDate),
+        endDate: fromMilestoneDay(milestone.endDate),
+      });
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !values.name.trim() || !values.startDate || !values.endDate) return;
+
+    const fields = {
+      name: values.name.trim(),
+      startDate: toMilestoneDay(values.startDate),
+      endDate: toMilestoneDay(values.endDate),
+    };
+
+    try {
+      setSaving(true);
+      setError(null);
+      const { milestone } = editing === 'new'
+        ? await apiService.createWorkspaceMilestone(workspaceId, { ...fields, description: values.description.trim() || undefined })
+        : await apiService.updateWorkspaceMilestone(workspaceId, editing.id, { ...fields, description: values.description.trim() || null });
+      onSaved(milestone);
+      setSelectedId(milestone.id);
+      setEditing(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save milestone');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (milestone: WorkspaceMilestone) => {
+    if (!confirm(`Delete the milestone "${milestone.name}"? Its tasks stay on the board.`)) return;
+
+    try {
+      await apiService.deleteWorkspaceMilestone(workspaceId, milestone.id);
+      onDeleted(milestone);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete milestone');
+    }
+  };
+
+  const form = editing && (
+    <form onSubmit={handleSubmit} className="bg-white/5 border border-white/10 rounded-lg p-4 space-y-3">
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+      <div>
+        <label className="block text-sm font-medium text-white/70 mb-2">Name *</label>
+        <input
+          type="text"
+          value={values.name}
+          onChange={(e) => setValues({ ...values, name: e.target.value })}
+          placeholder="MVP demo"
+          maxLength={60}
+          className={inputClassName}
+          required
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-white/70 mb-2">Description (optional)</label>
+        <textarea
+          value={values.description}
+          onChange={(e) => setValues({ ...values, description: e.target.value })}
+          placeholder="What the team wants to show by the end"
+          rows={2}
+          maxLength={500}
+          className={`${inputClassName} resize-none`}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-white/70 mb-2">Starts *</label>
+          <DatePicker
+            date={values.startDate}
+            onDateChange={(startDate) => setValues({ ...values, startDate })}
+            placeholder="Start date"
+            // A milestone already underway can be added after the fact
+            minDate={subYears(startOfToday(), 1)}
+            className="bg-white/5 border-white/10"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white/70 mb-2">Ends *</label>
+          <DatePicker
+            date={values.endDate}
+            onDateChange={(endDate) => setValues({ ...values, endDate })}
+            placeholder="End date"
+            minDate={values.startDate ?? subYears(startOfToday(), 1)}
+            className="bg-white/5 border-white/10"
+          />
+        </div>
+      </div>
+      <div className="flex gap-3">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setEditing(null)}
+          className="flex-1 border-white/20 text-white hover:bg-white/10"
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          disabled={saving || !values.name.trim() || !values.startDate || !values.endDate}
+          className="flex-1 bg-white text-black hover:bg-white/90"
+        >
+          {editing === 'new' ? 'Add Milestone' : 'Save'}
+        </Button>
+      </div>
+    </form>
+  );
+
+  if (milestones.length === 0 && !editing) {
+    return (
+      <div className="text-center py-12">
+        <Milestone className="w-12 h-12 text-white/30 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-white mb-2">No milestones yet</h3>
+        <p className="text-white/50 mb-4">Group tasks into sprints or deadlines and follow how fast they get done</p>
+        <Button onClick={() => openForm('new')} className="bg-white text-black hover:bg-white/90">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Milestone
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-white">Milestones</h3>
+        <Button onClick={() => openForm('new')} size="sm" className="bg-white text-black hover:bg-white/90">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Milestone
+        </Button>
+      </div>
+
+      {form}
+
+      {milestones.map(milestone => {
+        const isSelected = milestone.id === selected?.id;
+        return (
+          <div
+            key={milestone.id}
+            className={`border rounded-lg p-4 flex items-start justify-between gap-3 transition-colors ${
+              isSelected ? 'bg-white/10 border-white/30' : 'bg-white/5 border-white/10 hover:bg-white/[0.07]'
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => setSelectedId(milestone.id)}
+              aria-pressed={isSelected}
+              className="flex-1 min-w-0 text-left"
+            >
+              <h4 className="font-medium text-white truncate">{milestone.name}</h4>
+              <p className="text-xs text-white/50">{formatRange(milestone)}</p>
+              {milestone.description && <p className="text-sm text-white/70 mt-1 break-words">{milestone.description}</p>}
+            </button>
+            <div className="flex shrink-0 gap-1">
+              <button
+                type="button"
+                onClick={() => openForm(milestone)}
+                aria-label={`Edit milestone ${milestone.name}`}
+                className="p-1.5 rounded text-white/50 hover:text-white hover:bg-white/10"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(milestone)}
+                aria-label={`Delete milestone ${milestone.name}`}
+                className="p-1.5 rounded text-white/50 hover:text-red-400 hover:bg-red-500/10"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      {selected && (
+        <div className="bg-white/5 border border-white/10 rounded-lg p-4">
+          <div className="flex items-baseline justify-between gap-3 mb-3">
+            <h4 className="font-semibold text-white truncate">{selected.name} burndown</h4>
+            {shownBurndown && (
+              <span className="text-xs text-white/50 shrink-0">
+                {shownBurndown.remaining} of {shownBurndown.total} {shownBurndown.total === 1 ? 'task' : 'tasks'} left
+              </span>
+            )}
+          </div>
+          {!shownBurndown ? (
+            <p className="text-sm text-white/50 text-center py-12">Loading burndown...</p>
+          ) : shownBurndown.total === 0 ? (
+            <p className="text-sm text-white/50 text-center py-12">
+              No tasks in this milestone yet. Pick it when adding or editing a task.
+            </p>
+          ) : (
+            <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+              <LineChart data={chartData} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line
+                  dataKey="ideal"
+                  type="linear"
+                  stroke="var(--color-ideal)"
+                  strokeDasharray="4 4"
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                {/* Days still to come have no value, so the line stops at today */}
+                <Line
+                  dataKey="remaining"
+                  type="stepAfter"
+                  stroke="var(--color-remaining)"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
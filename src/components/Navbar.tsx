@@ -1,18 +1,111 @@
 import { useState, useEffect } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Menu, X, Rocket, User, Plus, Trophy, Home, MessageCircle, Users } from 'lucide-react';
+import { Menu, X, Rocket, User, Plus, Trophy, Home, MessageCircle, Users, Bell, type LucideIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { useAuth } from '@/context/AuthContext';
 import { useScrollPosition } from '@/hooks/useScrollPosition';
+import { useUnreadCounts } from '@/hooks/useUnreadCounts';
+import { useNotifications } from '@/hooks/useNotifications';
+import type { NotificationItem } from '@/services/api';
+
+interface NavLink {
+  name: string;
+  href: string;
+  icon?: LucideIcon;
+  unread?: number;
+}
+
+// Small count next to a nav item, capped so it stays round
+function UnreadBadge({ count }: { count: number }) {
+  if (count <= 0) return null;
+  return (
+    <span className="min-w-[1.25rem] h-5 px-1 bg-white text-black rounded-full inline-flex items-center justify-center text-xs font-bold">
+      {count > 99 ? '99+' : count}
+    </span>
+  );
+}
+
+// Bell with the user's latest notifications; opening one goes to the message it is about
+function NotificationBell() {
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const navigate = useNavigate();
+
+  const openNotification = (notification: NotificationItem) => {
+    markRead(notification);
+    setOpen(false);
+    if (notification.spaceId) {
+      const thread = notification.parentMessageId ? `?thread=${notification.parentMessageId}` : '';
+      navigate(`/workspaces/${notification.spaceId}${thread}`);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          className="relative text-white/70 hover:text-white hover:bg-white/10 rounded-full p-2"
+          title={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        >
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1">
+              <UnreadBadge count={unreadCount} />
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0 bg-black border-white/10 text-white">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+          <span className="text-sm font-semibold">Notifications</span>
+          {unreadCount > 0 && (
+            <button type="button" onClick={markAllRead} className="text-xs text-white/50 hover:text-white">
+              Mark all as read
+            </button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-white/50">No notifications yet</p>
+          ) : (
+            notifications.map(notification => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => openNotification(notification)}
+                className={`block w-full text-left px-4 py-3 border-b border-white/5 hover:bg-white/10 ${
+                  notification.readAt ? 'text-white/50' : 'text-white'
+                }`}
+              >
+                <p className="text-sm">
+                  <span className="font-medium">{notification.actorName}</span> mentioned you
+                  {notification.spaceName && <> in <span className="font-medium">{notification.spaceName}</span></>}
+                </p>
+                <p className="text-xs text-white/60 truncate">{notification.preview}</p>
+                <p className="text-xs text-white/40 mt-1">{new Date(notification.createdAt).toLocaleString()}</p>
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
 
 export function Navbar() {
   const { isAuthenticated, logout } = useAuth();
   const { isScrolled, scrollDirection, scrollPosition } = useScrollPosition();
+  const unread = useUnreadCounts();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const location = useLocation();
   const navigate = useNavigate();
 
+  // The Messages page lists screening chats and direct conversations
+  const unreadMessages = unread.screening + unread.direct;
+
   const isLandingPage = location.pathname === '/';
   const isAuthPage = location.pathname === '/auth';
 
@@ -24,19 +117,23 @@ export function Navbar() {
     setIsMobileMenuOpen(false);
   }, [location.pathname]);
 
-  const publicNavLinks = [
+  const publicNavLinks: NavLink[] = [
     { name: 'Community', href: '/auth' },
     { name: 'Support', href: 'mailto:support@codejam.space' },
   ];
 
-  const privateNavLinks = [
+  const privateNavLinks: NavLink[] = [
     { name: 'Home', href: '/dashboard', icon: Home },
     { name: 'Startups', href: '/startups', icon: Rocket },
     { name: 'Hackathons', href: '/hackathons', icon: Trophy },
-    { name: 'Workspaces', href: '/workspaces', icon: Users },
+    { name: 'Workspaces', href: '/workspaces', icon: Users, unread: unread.group },
     { name: 'Profile', href: '/profile', icon: User },
   ];
 
+  const mobileNavLinks = isAuthenticated
+    ? [...privateNavLinks, { name: 'Messages', href: '/messages', icon: MessageCircle, unread: unreadMessages }]
+    : publicNavLinks;
+
   const navLinks = isAuthenticated ? privateNavLinks : publicNavLinks;
 
   if (isAuthPage) return null;
@@ -88,9 +185,10 @@ export function Navbar() {
                   <Link
                     key={link.name}
                     to={link.href}
-                    className="px-4 py-2 text-sm text-white/70 hover:text-white hover:bg-white/10 rounded-lg transition-all duration-200"
+                    className="px-4 py-2 text-sm text-white/70 hover:text-white hover:bg-white/10 rounded-lg transition-all duration-200 flex items-center gap-2"
                   >
                     {link.name}
+                    <UnreadBadge count={link.unread ?? 0} />
                   </Link>
                 );
               })}
@@ -100,13 +198,19 @@ export function Navbar() {
             <div className="hidden md:flex items-center gap-3">
               {isAuthenticated ? (
                 <>
+                  <NotificationBell />
                   <Button
                     onClick={() => navigate('/messages')}
                     variant="ghost"
-                    className="text-white/70 hover:text-white hover:bg-white/10 rounded-full p-2"
-                    title="Messages"
+                    className="relative text-white/70 hover:text-white hover:bg-white/10 rounded-full p-2"
+                    title={unreadMessages > 0 ? `Messages (${unreadMessages} unread)` : 'Messages'}
                   >
                     <MessageCircle className="w-5 h-5" />
+                    {unreadMessages > 0 && (
+                      <span className="absolute -top-1 -right-1">
+                        <UnreadBadge count={unreadMessages} />
+                      </span>
+                    )}
                   </Button>
                   <Button
                     onClick={() => navigate('/create')}
@@ -166,7 +270,7 @@ export function Navbar() {
             <div className="absolute inset-0 bg-black/95 backdrop-blur-xl" />
             <div className="relative h-full flex flex-col pt-20 px-6">
               <nav className="flex flex-col gap-2">
-                {navLinks.map((link, index) => (
+                {mobileNavLinks.map((link, index) => (
                   <motion.div
                     key={link.name}
                     initial={{ opacity: 0, x: 20 }}
@@ -186,6 +290,7 @@ export function Navbar() {
                         className="flex items-center gap-3 px-4 py-4 text-lg text-white/80 hover:text-white hover:bg-white/10 rounded-xl transition-all"
                       >
                         {link.name}
+                        <UnreadBadge count={link.unread ?? 0} />
                       </Link>
                     )}
                   </motion.div>
@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarDays, CheckSquare, ChevronLeft, ChevronRight, Flag, GripVertical, Lock, Plus, Trash2 } from 'lucide-react';
+import type { TaskStatus, TaskWorkflowColumn } from '@shared/realtimeProtocol';
+import type { WorkspaceLabel, WorkspaceTask } from '@/services/api';
+import { LABEL_COLOR_CLASSES, getColumnTasks, getPriorityOption, isOverdue } from '@/lib/tasks';
+
+interface TaskBoardProps {
+  tasks: WorkspaceTask[];
+  // The space's columns, left to right
+  columns: TaskWorkflowColumn[];
+  // The space's labels, to show the ones on each task
+  labels: WorkspaceLabel[];
+  // Tasks waiting on one that is not done yet
+  blockedTaskIds: Set<string>;
+  currentUserId?: string;
+  onAdd: (status: TaskStatus) => void;
+  onOpen: (task: WorkspaceTask) => void;
+  // `index` is the place in the column, counted without the moved task; the bottom without one
+  onMove: (taskId: string, status: TaskStatus, index?: number) => void;
+  onDelete: (taskId: string) => void;
+}
+
+/**
+ * A Builder Space's tasks as a Kanban board: one column per status, cards dragged between and within them
+ * The arrows on each card move it a column left or right without dragging, e.g. on touch screens;
+ * a card's title opens its details
+ */
+export function TaskBoard({ tasks, columns, labels, blockedTaskIds, currentUserId, onAdd, onOpen, onMove, onDelete }: TaskBoardProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ status: TaskStatus; index: number } | null>(null);
+
+  const endDrag = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  // Where in the column the dragged card would land: below every card whose middle is above the pointer
+  const getDropIndex = (column: HTMLElement, clientY: number) => {
+    const cards = [...column.querySelectorAll<HTMLElement>('[data-task-id]')]
+      .filter(card => card.dataset.taskId !== draggingId);
+    return cards.filter(card => {
+      const rect = card.getBoundingClientRect();
+      return rect.top + rect.height / 2 < clientY;
+    }).length;
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, status: TaskStatus) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+
+    const index = getDropIndex(e.currentTarget, e.clientY);
+    if (dropTarget?.status !== status || dropTarget.index !== index) {
+      setDropTarget({ status, index });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, status: TaskStatus) => {
+    e.preventDefault();
+    if (draggingId) {
+      onMove(draggingId, status, getDropIndex(e.currentTarget, e.clientY));
+    }
+    endDrag();
+  };
+
+  const dropIndicator = <div className="h-0.5 rounded-full bg-white/60" />;
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 xl:grid-flow-col xl:grid-cols-none xl:auto-cols-[minmax(16rem,1fr)] xl:overflow-x-auto">
+      {columns.map(({ status, name }, columnIndex) => {
+        const columnTasks = getColumnTasks(tasks, status);
+        const isTarget = dropTarget?.status === status;
+        let visibleIndex = 0;
+
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => handleDragOver(e, status)}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+            }}
+            onDrop={(e) => handleDrop(e, status)}
+            className={`flex flex-col rounded-xl border p-3 min-h-48 transition-colors ${
+              isTarget ? 'border-white/30 bg-white/10' : 'border-white/10 bg-white/5'
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold text-white">
+                {name} <span className="ml-1 text-white/40 font-normal">{columnTasks.length}</span>
+              </h3>
+              <button
+                type="button"
+                onClick={() => onAdd(status)}
+                aria-label={`Add task to ${name}`}
+                className="text-white/50 hover:text-white"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex flex-col gap-2 flex-1">
+              {columnTasks.map((task) => {
+                const isDragged = task.id === draggingId;
+                const showIndicator = isTarget && !isDragged && dropTarget.index === visibleIndex;
+                if (!isDragged) visibleIndex++;
+
+                return (
+                  <div key={task.id} className="flex flex-col gap-2">
+                    {showIndicator && dropIndicator}
+                    <div
+                      data-task-id={task.id}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData('text/plain', task.id);
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDraggingId(task.id);
+                      }}
+                      onDragEnd={endDrag}
+                      className={`group rounded-lg border border-white/10 bg-black/40 p-3 cursor-grab active:cursor-grabbing ${
+                        isDragged ? 'opacity-40' : ''
+                      }`}
+                    >
+                      <div className="flex items-start gap-2">
+                        <GripVertical className="w-4 h-4 mt-0.5 shrink-0 text-white/20" />
+                        <div className="flex-1 min-w-0">
+                          <button
+                            type="button"
+                            onClick={() => onOpen(task)}
+                            className={`block text-left text-sm font-medium break-words hover:underline ${status === 'done' ? 'text-white/50 line-through' : 'text-white'}`}
+                          >
+                            {task.title}
+                          </button>
+                          {task.description && (
+                            <p className="text-xs text-white/50 mt-1 line-clamp-3 break-words">{task.description}</p>
+                          )}
+                          {task.labelIds.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-2">
+                              {labels.filter(label => task.labelIds.includes(label.id)).map(label => (
+                                <span key={label.id} className={`px-2 py-0.5 rounded-full text-[11px] ${LABEL_COLOR_CLASSES[label.color].chip}`}>
+                                  {label.name}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          <div className="flex items-center gap-3 mt-2 text-xs">
+                            {blockedTaskIds.has(task.id) && status !== 'done' && (
+                              <span className="flex items-center gap-1 text-amber-300" title="Waiting on a task that is not done yet">
+                                <Lock className="w-3 h-3" />
+                                Blocked
+                              </span>
+                            )}
+                            {task.priority !== 'medium' && (
+                              <span className={`flex items-center gap-1 ${getPriorityOption(task.priority).className}`}>
+                                <Flag className="w-3 h-3" />
+                                {getPriorityOption(task.priority).label}
+                              </span>
+                            )}
+                            {task.dueDate && (
+                              <span className={`flex items-center gap-1 ${isOverdue(task) ? 'text-red-400' : 'text-white/50'}`}>
+                                <CalendarDays className="w-3 h-3" />
+                                {format(new Date(task.dueDate), 'MMM d')}
+                              </span>
+                            )}
+                            {task.checklist.length > 0 && (
+                              <span className="flex items-center gap-1 text-white/50">
+                                <CheckSquare className="w-3 h-3" />
+                                {task.checklist.filter(item => item.done).length}/{task.checklist.length}
+                              </span>
+                            )}
+                            {task.assignees.length > 0 && (
+                              <span className="flex -space-x-1.5 ml-auto" title={task.assignees.map(({ name }) => name).join(', ')}>
+                                {task.assignees.slice(0, 3).map(assignee => (
+                                  <span
+                                    key={assignee.id}
+                                    className="w-5 h-5 rounded-full bg-white/20 border border-black/40 flex items-center justify-center text-[10px] font-medium text-white"
+                                  >
+                                    {assignee.name.charAt(0).toUpperCase()}
+                                  </span>
+                                ))}
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-xs text-white/40 mt-2">
+                            {status === 'done' && task.completedByName
+                              ? `✓ Completed by ${task.completedByName}`
+                              : `Added by ${task.creatorName}`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex justify-end gap-1 mt-2 text-white/40 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                        {task.creatorId === currentUserId && (
+                          <button type="button" onClick={() => onDelete(task.id)} aria-label="Delete task" className="mr-auto hover:text-white">
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                        {columnIndex > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => onMove(task.id, columns[columnIndex - 1].status)}
+                            aria-label={`Move to ${columns[columnIndex - 1].name}`}
+                            className="hover:text-white"
+                          >
+                            <ChevronLeft className="w-4 h-4" />
+                          </button>
+                        )}
+                        {columnIndex < columns.length - 1 && (
+                          <button
+                            type="button"
+                            onClick={() => onMove(task.id, columns[columnIndex + 1].status)}
+                            aria-label={`Move to ${columns[columnIndex + 1].name}`}
+                            className="hover:text-white"
+                          >
+                            <ChevronRight className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+              {isTarget && dropTarget.index >= visibleIndex && dropIndicator}
+              {columnTasks.length === 0 && !isTarget && (
+                <p className="text-xs text-white/30 text-center py-6">Drop tasks here</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Check, Plus, X } from 'lucide-react';
+import { startOfToday } from 'date-fns';
+import { LABEL_COLORS, type LabelColor, type TaskPriority, type TaskStatus, type TaskWorkflowColumn } from '@shared/realtimeProtocol';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { WorkspaceLabel, WorkspaceMilestone, WorkspaceTask } from '@/services/api';
+import { LABEL_COLOR_CLASSES, TASK_PRIORITY_OPTIONS } from '@/lib/tasks';
+
+export interface TaskFormValues {
+  title: string;
+  description: string;
+  status: TaskStatus;
+  assigneeIds: string[];
+  dueDate?: Date;
+  priority: TaskPriority;
+  labelIds: string[];
+  // Empty for no milestone
+  milestoneId: string;
+}
+
+interface TaskDialogProps {
+  open: boolean;
+  // The task to edit; a new one is added without it
+  task?: WorkspaceTask | null;
+  // Column a new task goes in
+  initialStatus?: TaskStatus;
+  // The space's task board columns
+  columns: TaskWorkflowColumn[];
+  members: { userId: string; name: string }[];
+  labels: WorkspaceLabel[];
+  milestones: WorkspaceMilestone[];
+  onCreateLabel: (name: string, color: LabelColor) => Promise<WorkspaceLabel>;
+  onDeleteLabel: (label: WorkspaceLabel) => void;
+  onSubmit: (values: TaskFormValues) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-white/20';
+
+function toggle(ids: string[], id: string): string[] {
+  return ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+}
+
+const NO_MILESTONE = 'none';
+
+/**
+ * Add or edit a task: title, description, assignees from the team, due date, priority, labels and milestone
+ * Labels can be created and deleted from here too; they are shared with the whole space
+ */
+export function TaskDialog({
+  open,
+  task,
+  initialStatus = 'todo',
+  columns,
+  members,
+  labels,
+  milestones,
+  onCreateLabel,
+  onDeleteLabel,
+  onSubmit,
+  onClose,
+}: TaskDialogProps) {
+  const [values, setValues] = useState<TaskFormValues>({
+    title: '', description: '', status: initialStatus, assigneeIds: [], priority: 'medium', labelIds: [], milestoneId: '',
+  });
+  const [newLabel, setNewLabel] = useState<{ name: string; color: LabelColor }>({ name: '', color: 'gray' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setValues({
+      title: task?.title ?? '',
+      description: task?.description ?? '',
+      status: task?.status ?? initialStatus,
+      assigneeIds: task?.assignees.map(assignee => assignee.id) ?? [],
+      dueDate: task?.dueDate ? new Date(task.dueDate) : undefined,
+      priority: task?.priority ?? 'medium',
+      labelIds: task?.labelIds ?? [],
+      milestoneId: task?.milestoneId ?? '',
+    });
+    setNewLabel({ name: '', color: 'gray' });
+    setError(null);
+  }, [open, task, initialStatus]);
+
+  // Assignees who have left the team stay listed so they can be taken off
+  const assignable = [
+    ...members,
+    ...(task?.assignees ?? [])
+      .filter(assignee => !members.some(member => member.userId === assignee.id))
+      .map(assignee => ({ userId: assignee.id, name: assignee.name })),
+  ];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!values.title.trim()) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      // Labels and milestones deleted while the dialog was open are left out
+      await onSubmit({
+        ...values,
+        labelIds: values.labelIds.filter(id => labels.some(label => label.id === id)),
+        milestoneId: milestones.some(milestone => milestone.id === values.milestoneId) ? values.milestoneId : '',
+      });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save task');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateLabel = async () => {
+    if (!newLabel.name.trim()) return;
+
+    try {
+      setError(null);
+      const label = await onCreateLabel(newLabel.name, newLabel.color);
+      setValues(prev => ({ ...prev, labelIds: [...prev.labelIds, label.id] }));
+      setNewLabel({ name: '', color: 'gray' });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to create label');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-card border-border text-white max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-white">{task ? 'Edit Task' : 'Add Task'}</DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Title *</label>
+            <input
+              type="text"
+              value={values.title}
+              onChange={(e) => setValues({ ...values, title: e.target.value })}
+              placeholder="Setup development environment"
+              maxLength={200}
+              className={inputClassName}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Description (optional)</label>
+            <textarea
+              value={values.description}
+              onChange={(e) => setValues({ ...values, description: e.target.value })}
+              placeholder="Install dependencies, configure environment..."
+              rows={3}
+              maxLength={2000}
+              className={`${inputClassName} resize-none`}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {!task && (
+              <div>
+                <label className="block text-sm font-medium text-white/70 mb-2">Column</label>
+                <Select value={values.status} onValueChange={(status) => setValues({ ...values, status: status as TaskStatus })}>
+                  <SelectTrigger className="w-full bg-white/5 border-white/10 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columns.map(({ status, name }) => (
+                      <SelectItem key={status} value={status}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">Priority</label>
+              <Select value={values.priority} onValueChange={(priority) => setValues({ ...values, priority: priority as TaskPriority })}>
+                <SelectTrigger className="w-full bg-white/5 border-white/10 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_PRIORITY_OPTIONS.map(({ priority, label, className }) => (
+                    <SelectItem key={priority} value={priority}><span className={className}>{label}</span></SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-white/70">Due date</label>
+              {values.dueDate && (
+                <button type="button" onClick={() => setValues({ ...values, dueDate: undefined })} className="text-xs text-white/50 hover:text-white">
+                  Clear
+                </button>
+              )}
+            </div>
+            <DatePicker
+              date={values.dueDate}
+              onDateChange={(dueDate) => setValues({ ...values, dueDate })}
+              placeholder="No due date"
+              minDate={startOfToday()}
+              className="bg-white/5 border-white/10"
+            />
+          </div>
+
+          {milestones.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">Milestone</label>
+              <Select
+                value={values.milestoneId || NO_MILESTONE}
+                onValueChange={(milestoneId) => setValues({ ...values, milestoneId: milestoneId === NO_MILESTONE ? '' : milestoneId })}
+              >
+                <SelectTrigger className="w-full bg-white/5 border-white/10 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MILESTONE}>No milestone</SelectItem>
+                  {milestones.map(milestone => (
+                    <SelectItem key={milestone.id} value={milestone.id}>{milestone.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Assignees</label>
+            <div className="flex flex-wrap gap-2">
+              {assignable.map(({ userId, name }) => {
+                const isAssigned = values.assigneeIds.includes(userId);
+                return (
+                  <button
+                    key={userId}
+                    type="button"
+                    onClick={() => setValues({ ...values, assigneeIds: toggle(values.assigneeIds, userId) })}
+                    aria-pressed={isAssigned}
+                    className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                      isAssigned ? 'bg-white text-black border-white' : 'border-white/20 text-white/70 hover:bg-white/10'
+                    }`}
+                  >
+                    {isAssigned && <Check className="inline w-3 h-3 mr-1" />}
+                    {name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Labels</label>
+            {labels.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {labels.map(label => {
+                  const isSelected = values.labelIds.includes(label.id);
+                  return (
+                    <span
+                      key={label.id}
+                      className={`group inline-flex items-center rounded-full text-xs transition-opacity ${LABEL_COLOR_CLASSES[label.color].chip} ${
+                        isSelected ? 'ring-1 ring-white/60' : 'opacity-50 hover:opacity-80'
+                      }`}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => setValues({ ...values, labelIds: toggle(values.labelIds, label.id) })}
+                        aria-pressed={isSelected}
+                        className="pl-2.5 pr-1 py-1"
+                      >
+                        {label.name}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDeleteLabel(label)}
+                        aria-label={`Delete label ${label.name}`}
+                        className="pr-2 py-1 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  );
+                })}
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newLabel.name}
+                onChange={(e) => setNewLabel({ ...newLabel, name: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleCreateLabel();
+                  }
+                }}
+                placeholder="New label"
+                maxLength={24}
+                className={`${inputClassName} py-1.5 text-sm`}
+              />
+              <div className="flex gap-1 shrink-0" role="radiogroup" aria-label="Label color">
+                {LABEL_COLORS.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    role="radio"
+                    aria-checked={newLabel.color === color}
+                    aria-label={color}
+                    onClick={() => setNewLabel({ ...newLabel, color })}
+                    className={`w-4 h-4 rounded-full ${LABEL_COLOR_CLASSES[color].swatch} ${
+                      newLabel.color === color ? 'ring-2 ring-white ring-offset-1 ring-offset-card' : ''
+                    }`}
+                  />
+                ))}
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={handleCreateLabel}
+                disabled={!newLabel.name.trim()}
+                aria-label="Create label"
+                className="shrink-0 border-white/20 text-white hover:bg-white/10"
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              className="flex-1 border-white/20 text-white hover:bg-white/10"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !values.title.trim()} className="flex-1 bg-white text-black hover:bg-white/90">
+              {task ? 'Save' : 'Add Task'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
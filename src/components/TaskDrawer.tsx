@@ -0,0 +1,386 @@
+import { useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertCircle, CalendarDays, Flag, Lock, Milestone, Pencil, Send, Trash2, X } from 'lucide-react';
+import type { TaskDependencyGraphPayload, TaskStatus, TaskWorkflowColumn } from '@shared/realtimeProtocol';
+import { createsDependencyCycle } from '@shared/taskDependencies';
+import { Drawer, DrawerContent, DrawerDescription, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import {
+  apiService,
+  type WorkspaceLabel,
+  type WorkspaceMilestone,
+  type WorkspaceTask,
+  type WorkspaceTaskActivity,
+  type WorkspaceTaskComment,
+} from '@/services/api';
+import { LABEL_COLOR_CLASSES, describeActivity, getColumnName, getPriorityOption, isOverdue, upsertTask } from '@/lib/tasks';
+
+interface TaskDrawerProps {
+  workspaceId: string;
+  // The open task; the drawer is closed without one
+  task: WorkspaceTask | null;
+  // The board's tasks, which the open one can be made to wait on
+  tasks: WorkspaceTask[];
+  // The space's task board columns
+  columns: TaskWorkflowColumn[];
+  labels: WorkspaceLabel[];
+  milestones: WorkspaceMilestone[];
+  dependencies: TaskDependencyGraphPayload;
+  currentUserId?: string;
+  onEdit: (task: WorkspaceTask) => void;
+  // A checklist or blocker change, with the task as the server saved it
+  onChange: (task: WorkspaceTask) => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-white/20';
+
+/**
+ * A task in full, sliding in from the right: its details, blockers, checklist, comments and history
+ * Comments from teammates arrive live; the history is reloaded whenever the task changes
+ */
+export function TaskDrawer({ task, onClose, ...props }: TaskDrawerProps) {
+  return (
+    <Drawer direction="right" open={!!task} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DrawerContent className="bg-card border-border text-white data-[vaul-drawer-direction=right]:w-full data-[vaul-drawer-direction=right]:sm:max-w-md">
+        {/* Keyed so another task starts with its own comments and inputs */}
+        {task && <TaskDetails key={task.id} task={task} onClose={onClose} {...props} />}
+      </DrawerContent>
+    </Drawer>
+  );
+}
+
+function TaskDetails({
+  workspaceId,
+  task,
+  tasks,
+  columns,
+  labels,
+  milestones,
+  dependencies,
+  currentUserId,
+  onEdit,
+  onChange,
+  onClose,
+}: TaskDrawerProps & { task: WorkspaceTask }) {
+  const { subscribe } = useWebSocket();
+  const [comments, setComments] = useState<WorkspaceTaskComment[]>([]);
+  const [activity, setActivity] = useState<WorkspaceTaskActivity[]>([]);
+  const [newComment, setNewComment] = useState('');
+  const [newItem, setNewItem] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const taskId = task.id;
+  const milestone = milestones.find(m => m.id === task.milestoneId);
+
+  useEffect(() => {
+    apiService.getTaskComments(workspaceId, taskId)
+      .then(({ comments }) => setComments(comments))
+      .catch(error => console.error('Failed to load comments:', error));
+
+    const unsubscribers = [
+      subscribe('task_comment_created', ({ payload }) => {
+        if (payload.taskId === taskId) setComments(prev => upsertTask(prev, payload));
+      }),
+      subscribe('task_comment_deleted', ({ payload }) => {
+        setComments(prev => prev.filter(comment => comment.id !== payload.id));
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [workspaceId, taskId, subscribe]);
+
+  // Every change to a task that goes in its history also changes its updatedAt
+  const updatedAt = new Date(task.updatedAt).getTime();
+  useEffect(() => {
+    apiService.getTaskActivity(workspaceId, taskId)
+      .then(({ activity }) => setActivity(activity))
+      .catch(error => console.error('Failed to load task history:', error));
+  }, [workspaceId, taskId, updatedAt]);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    try {
+      setError(null);
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : fallback);
+    }
+  };
+
+  const handleAddItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.trim()) return;
+
+    run(async () => {
+      onChange((await apiService.addTaskChecklistItem(workspaceId, task.id, newItem)).task);
+      setNewItem('');
+    }, 'Failed to add checklist item');
+  };
+
+  const handleToggleItem = (itemId: string, done: boolean) => {
+    run(async () => {
+      onChange((await apiService.updateTaskChecklistItem(workspaceId, task.id, itemId, { done })).task);
+    }, 'Failed to update checklist item');
+  };
+
+  const handleRemoveItem = (itemId: string) => {
+    run(async () => {
+      onChange((await apiService.removeTaskChecklistItem(workspaceId, task.id, itemId)).task);
+    }, 'Failed to remove checklist item');
+  };
+
+  const handleAddBlocker = (blockedById: string) => {
+    run(async () => {
+      onChange((await apiService.addTaskDependency(workspaceId, task.id, blockedById)).task);
+    }, 'Failed to add blocker');
+  };
+
+  const handleRemoveBlocker = (blockedById: string) => {
+    run(async () => {
+      onChange((await apiService.removeTaskDependency(workspaceId, task.id, blockedById)).task);
+    }, 'Failed to remove blocker');
+  };
+
+  const handleComment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newComment.trim()) return;
+
+    run(async () => {
+      const { comment } = await apiService.createTaskComment(workspaceId, task.id, newComment);
+      setComments(prev => upsertTask(prev, comment));
+      setNewComment('');
+    }, 'Failed to add comment');
+  };
+
+  const handleDeleteComment = (commentId: string) => {
+    if (!confirm('Delete this comment?')) return;
+
+    run(async () => {
+      await apiService.deleteTaskComment(workspaceId, task.id, commentId);
+      setComments(prev => prev.filter(comment => comment.id !== commentId));
+    }, 'Failed to delete comment');
+  };
+
+  // Tasks off the (possibly filtered) board are still in the graph if they are on an edge
+  const findTask = (id: string): { title: string; status: TaskStatus } | undefined =>
+    tasks.find(t => t.id === id) ?? dependencies.tasks.find(node => node.id === id);
+  const waitingIds = dependencies.edges.filter(edge => edge.blockedById === task.id).map(edge => edge.taskId);
+  // Tasks that would make the two wait on each other are left out
+  const blockerOptions = tasks.filter(t =>
+    t.id !== task.id &&
+    !task.blockedByIds.includes(t.id) &&
+    !createsDependencyCycle(dependencies.edges, task.id, t.id)
+  );
+
+  const checklist = task.checklist;
+  const doneCount = checklist.filter(item => item.done).length;
+
+  return (
+    <>
+      <DrawerHeader className="border-b border-white/10">
+        <div className="flex items-start gap-2">
+          <DrawerTitle className="flex-1 text-lg text-white break-words">{task.title}</DrawerTitle>
+          <button type="button" onClick={() => onEdit(task)} aria-label="Edit task" className="text-white/50 hover:text-white">
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button type="button" onClick={onClose} aria-label="Close" className="text-white/50 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <DrawerDescription className="text-white/50">
+          {getColumnName(columns, task.status)} · Added by {task.creatorName}
+        </DrawerDescription>
+      </DrawerHeader>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        {error && (
+          <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        <section className="space-y-2 text-sm">
+          <div className="flex flex-wrap items-center gap-3 text-xs">
+            <span className={`flex items-center gap-1 ${getPriorityOption(task.priority).className}`}>
+              <Flag className="w-3 h-3" />
+              {getPriorityOption(task.priority).label}
+            </span>
+            {task.dueDate && (
+              <span className={`flex items-center gap-1 ${isOverdue(task) ? 'text-red-400' : 'text-white/50'}`}>
+                <CalendarDays className="w-3 h-3" />
+                Due {format(new Date(task.dueDate), 'MMM d, yyyy')}
+              </span>
+            )}
+            {milestone && (
+              <span className="flex items-center gap-1 text-white/50">
+                <Milestone className="w-3 h-3" />
+                {milestone.name}
+              </span>
+            )}
+          </div>
+          {task.assignees.length > 0 && (
+            <p className="text-white/70">Assigned to {task.assignees.map(({ name }) => name).join(', ')}</p>
+          )}
+          {task.labelIds.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {labels.filter(label => task.labelIds.includes(label.id)).map(label => (
+                <span key={label.id} className={`px-2 py-0.5 rounded-full text-[11px] ${LABEL_COLOR_CLASSES[label.color].chip}`}>
+                  {label.name}
+                </span>
+              ))}
+            </div>
+          )}
+          {task.description && <p className="text-white/70 whitespace-pre-wrap break-words">{task.description}</p>}
+        </section>
+
+        <section>
+          <h4 className="text-sm font-semibold mb-2">Blocked by</h4>
+          <ul className="space-y-1 mb-2">
+            {task.blockedByIds.map(id => {
+              const blocker = findTask(id);
+              return (
+                <li key={id} className="group flex items-center gap-2 text-sm">
+                  <Lock className={`w-3.5 h-3.5 shrink-0 ${blocker?.status === 'done' ? 'text-white/30' : 'text-amber-300'}`} />
+                  <span className={`flex-1 break-words ${blocker?.status === 'done' ? 'text-white/40 line-through' : 'text-white/80'}`}>
+                    {blocker?.title ?? 'Unknown task'}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveBlocker(id)}
+                    aria-label="Remove blocker"
+                    className="text-white/40 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          {blockerOptions.length > 0 && (
+            // Keyed on the blockers so the picker is empty again once one is added
+            <Select key={task.blockedByIds.join()} onValueChange={handleAddBlocker}>
+              <SelectTrigger size="sm" className="w-full bg-white/5 border-white/10 text-white">
+                <SelectValue placeholder="Add a task this waits on" />
+              </SelectTrigger>
+              <SelectContent>
+                {blockerOptions.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {waitingIds.length > 0 && (
+            <p className="text-xs text-white/50 mt-2">
+              Blocking {waitingIds.map(id => findTask(id)?.title ?? 'Unknown task').join(', ')}
+            </p>
+          )}
+        </section>
+
+        <section>
+          <h4 className="text-sm font-semibold mb-2">
+            Checklist
+            {checklist.length > 0 && <span className="ml-2 text-white/40 font-normal">{doneCount}/{checklist.length}</span>}
+          </h4>
+          {checklist.length > 0 && (
+            <div className="h-1.5 rounded-full bg-white/10 mb-3 overflow-hidden">
+              <div className="h-full bg-emerald-400 transition-all" style={{ width: `${(doneCount / checklist.length) * 100}%` }} />
+            </div>
+          )}
+          <ul className="space-y-1 mb-2">
+            {checklist.map(item => (
+              <li key={item.id} className="group flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={item.done}
+                  onChange={(e) => handleToggleItem(item.id, e.target.checked)}
+                  className="accent-emerald-400"
+                />
+                <span className={`flex-1 break-words ${item.done ? 'text-white/40 line-through' : 'text-white/80'}`}>{item.text}</span>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveItem(item.id)}
+                  aria-label="Remove checklist item"
+                  className="text-white/40 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={handleAddItem}>
+            <input
+              type="text"
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              placeholder="Add an item"
+              maxLength={200}
+              className={inputClassName}
+            />
+          </form>
+        </section>
+
+        <section>
+          <h4 className="text-sm font-semibold mb-2">Comments</h4>
+          <div className="space-y-3 mb-3">
+            {comments.length === 0 && <p className="text-xs text-white/40">No comments yet</p>}
+            {comments.map(comment => (
+              <div key={comment.id} className="group rounded-lg bg-white/5 p-3">
+                <div className="flex items-center gap-2 text-xs mb-1">
+                  <span className="font-medium text-white">{comment.authorName}</span>
+                  <span className="text-white/40">{formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}</span>
+                  {comment.authorId === currentUserId && (
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteComment(comment.id)}
+                      aria-label="Delete comment"
+                      className="ml-auto text-white/40 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+                <MarkdownContent content={comment.content} className="text-sm text-white/80" />
+              </div>
+            ))}
+          </div>
+          <form onSubmit={handleComment} className="flex items-end gap-2">
+            <textarea
+              value={newComment}
+              onChange={(e) => setNewComment(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) handleComment(e);
+              }}
+              placeholder="Write a comment… Markdown works here"
+              rows={2}
+              maxLength={2000}
+              className={`${inputClassName} resize-none`}
+            />
+            <Button type="submit" size="sm" disabled={!newComment.trim()} aria-label="Send comment" className="bg-white text-black hover:bg-white/90">
+              <Send className="w-4 h-4" />
+            </Button>
+          </form>
+        </section>
+
+        <section>
+          <h4 className="text-sm font-semibold mb-2">History</h4>
+          <ol className="space-y-2 border-l border-white/10 pl-3">
+            {activity.map(entry => (
+              <li key={entry.id} className="text-xs text-white/60">
+                <span className="text-white">{entry.actorName}</span> {describeActivity(entry, columns)}
+                <span className="block text-white/30" title={format(new Date(entry.createdAt), 'PPpp')}>
+                  {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </section>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, ChevronDown, ChevronUp, Plus, X } from 'lucide-react';
+import type { TaskWorkflowColumn } from '@shared/realtimeProtocol';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+
+interface TaskWorkflowDialogProps {
+  open: boolean;
+  // The board's columns as they are now
+  columns: TaskWorkflowColumn[];
+  onSubmit: (columns: TaskWorkflowColumn[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const MAX_COLUMNS = 8;
+
+const inputClassName = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-white/20';
+
+/**
+ * A status for a new column from its name, e.g. "QA review" becomes qa_review, numbered if the board has it already
+ */
+function toStatus(name: string, taken: string[]): string {
+  const base = (name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '') || 'column').slice(0, 24);
+  let status = base;
+  for (let n = 2; taken.includes(status); n++) {
+    status = `${base}_${n}`;
+  }
+  return status;
+}
+
+/**
+ * Rename, add, remove and reorder the columns of a space's task board (founders only)
+ * The first and last columns can only be renamed: new tasks start in the first, and the last finishes them
+ */
+export function TaskWorkflowDialog({ open, columns, onSubmit, onClose }: TaskWorkflowDialogProps) {
+  const [draft, setDraft] = useState<TaskWorkflowColumn[]>(columns);
+  const [newColumn, setNewColumn] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(columns);
+    setNewColumn('');
+    setError(null);
+  }, [open, columns]);
+
+  const rename = (index: number, name: string) => {
+    setDraft(prev => prev.map((column, i) => i === index ? { ...column, name } : column));
+  };
+
+  const swap = (index: number, other: number) => {
+    setDraft(prev => prev.map((column, i) => i === index ? prev[other] : i === other ? prev[index] : column));
+  };
+
+  // New columns go just before the last one
+  const handleAddColumn = () => {
+    const name = newColumn.trim();
+    if (!name || draft.length >= MAX_COLUMNS) return;
+
+    const status = toStatus(name, draft.map(column => column.status));
+    setDraft(prev => [...prev.slice(0, -1), { status, name }, ...prev.slice(-1)]);
+    setNewColumn('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSubmit(draft.map(column => ({ ...column, name: column.name.trim() })));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save columns');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-card border-border text-white max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-white">Board Columns</DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            {draft.map((column, index) => {
+              const isFixed = index === 0 || index === draft.length - 1;
+              return (
+                <div key={column.status} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={column.name}
+                    onChange={(e) => rename(index, e.target.value)}
+                    aria-label={`Name of column ${index + 1}`}
+                    maxLength={30}
+                    className={inputClassName}
+                  />
+                  <div className="flex shrink-0 text-white/50">
+                    <button
+                      type="button"
+                      onClick={() => swap(index, index - 1)}
+                      disabled={isFixed || index === 1}
+                      aria-label={`Move ${column.name} up`}
+                      className="p-1 hover:text-white disabled:invisible"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => swap(index, index + 1)}
+                      disabled={isFixed || index === draft.length - 2}
+                      aria-label={`Move ${column.name} down`}
+                      className="p-1 hover:text-white disabled:invisible"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                      disabled={isFixed}
+                      aria-label={`Remove ${column.name}`}
+                      className="p-1 hover:text-white disabled:invisible"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {draft.length < MAX_COLUMNS && (
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newColumn}
+                onChange={(e) => setNewColumn(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleAddColumn();
+                  }
+                }}
+                placeholder="New column"
+                maxLength={30}
+                className={inputClassName}
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={handleAddColumn}
+                disabled={!newColumn.trim()}
+                aria-label="Add column"
+                className="shrink-0 border-white/20 text-white hover:bg-white/10"
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+          <p className="text-xs text-white/40">A column can be removed once it has no tasks.</p>
+
+          <div className="flex gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              className="flex-1 border-white/20 text-white hover:bg-white/10"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={saving || draft.some(column => !column.name.trim())}
+              className="flex-1 bg-white text-black hover:bg-white/90"
+            >
+              Save
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
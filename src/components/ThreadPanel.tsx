@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Send } from 'lucide-react';
+import type { GroupMessagePayload } from '@shared/realtimeProtocol';
+import { Button } from '@/components/ui/button';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ChatMessageContent } from '@/components/ChatMessageContent';
+import { MessageReactions } from '@/components/MessageReactions';
+import { MentionInput, type MentionMember } from '@/components/MentionInput';
+import { useAuth } from '@/context/AuthContext';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { apiService } from '@/services/api';
+
+type ThreadMessage = Omit<GroupMessagePayload, 'createdAt' | 'updatedAt'> & {
+  // ISO string when loaded over HTTP, Date when pushed over the WebSocket
+  createdAt: string | Date;
+  updatedAt: string | Date;
+};
+
+interface ThreadPanelProps {
+  workspaceId: string;
+  // The message whose thread is open; the panel is closed while this is null
+  parentMessageId: string | null;
+  canModerate: boolean;
+  // Teammates who can be @mentioned in a reply
+  members: MentionMember[];
+  onClose: () => void;
+  // The user replied, so the main chat can bump the thread's reply count
+  onReplySent: (reply: ThreadMessage) => void;
+}
+
+/**
+ * Side panel with one Builder Space thread: its first message, the replies and a reply box
+ */
+export function ThreadPanel({ workspaceId, parentMessageId, canModerate, members, onClose, onReplySent }: ThreadPanelProps) {
+  const { user } = useAuth();
+  const { subscribe, sendCommand } = useWebSocket();
+  const [parent, setParent] = useState<ThreadMessage | null>(null);
+  const [replies, setReplies] = useState<ThreadMessage[]>([]);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [newReply, setNewReply] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!parentMessageId) return;
+
+    setLoading(true);
+    apiService.getWorkspaceThread(workspaceId, parentMessageId)
+      .then(thread => {
+        setParent(thread.parent);
+        setReplies(thread.messages);
+        setOlderCursor(thread.startCursor);
+        setHasOlder(thread.hasMore);
+      })
+      .catch(error => console.error('Failed to load thread:', error))
+      .finally(() => setLoading(false));
+
+    const unsubscribers = [
+      subscribe('group_message_reply', ({ payload }) => {
+        if (payload.reply.parentMessageId !== parentMessageId) return;
+        setReplies(prev => [...prev, payload.reply]);
+        setParent(prev => prev && { ...prev, replyCount: payload.replyCount, lastReplyAt: payload.lastReplyAt });
+      }),
+      subscribe('group_message_updated', ({ payload }) => {
+        setParent(prev => prev?.id === payload.id ? payload : prev);
+        setReplies(prev => prev.map(reply => reply.id === payload.id ? payload : reply));
+      }),
+      subscribe('group_message_reaction', ({ payload }) => {
+        setParent(prev => prev?.id === payload.messageId ? { ...prev, reactions: payload.reactions } : prev);
+        setReplies(prev => prev.map(reply =>
+          reply.id === payload.messageId ? { ...reply, reactions: payload.reactions } : reply
+        ));
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      setParent(null);
+      setReplies([]);
+      setNewReply('');
+    };
+  }, [workspaceId, parentMessageId, subscribe]);
+
+  const loadOlderReplies = async () => {
+    if (!parentMessageId || !olderCursor) return;
+
+    try {
+      const thread = await apiService.getWorkspaceThread(workspaceId, parentMessageId, { before: olderCursor });
+      setReplies(prev => [...thread.messages, ...prev]);
+      setOlderCursor(thread.startCursor);
+      setHasOlder(thread.hasMore);
+    } catch (error) {
+      console.error('Failed to load older replies:', error);
+    }
+  };
+
+  const handleSendReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!parentMessageId || !newReply.trim() || sending) return;
+
+    try {
+      setSending(true);
+      const content = newReply.trim();
+      const reply = await sendCommand(
+        'send_group_message',
+        { spaceId: workspaceId, content, parentMessageId },
+        async (clientId) => (await apiService.sendWorkspaceMessage(workspaceId, content, clientId, parentMessageId)).data
+      );
+      setReplies(prev => [...prev, reply]);
+      setParent(prev => prev && { ...prev, replyCount: (prev.replyCount ?? 0) + 1, lastReplyAt: reply.createdAt });
+      onReplySent(reply);
+      setNewReply('');
+    } catch (error) {
+      console.error('Failed to send reply:', error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const replaceInThread = (updated: ThreadMessage) => {
+    setParent(prev => prev?.id === updated.id ? updated : prev);
+    setReplies(prev => prev.map(reply => reply.id === updated.id ? updated : reply));
+  };
+
+  const renderMessage = (message: ThreadMessage) => {
+    const isOwn = message.senderId === user?.id;
+
+    return (
+      <div key={message.id} className="rounded-lg bg-white/5 px-3 py-2 text-white">
+        <p className="text-xs opacity-70 mb-1">
+          {message.senderName} · {new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          {message.editedAt && !message.deletedAt && ' · edited'}
+        </p>
+        <ChatMessageContent
+          message={message}
+          isOwn={isOwn}
+          canModerate={canModerate}
+          onEdit={async (content) => {
+            replaceInThread((await apiService.editWorkspaceMessage(workspaceId, message.id, content)).data);
+          }}
+          onDelete={async () => {
+            replaceInThread((await apiService.deleteWorkspaceMessage(workspaceId, message.id)).data);
+          }}
+        />
+        {!message.deletedAt && (
+          <MessageReactions
+            reactions={message.reactions ?? []}
+            currentUserId={user?.id}
+            isOwn={false}
+            onToggle={(emoji) => {
+              apiService.toggleWorkspaceReaction(workspaceId, message.id, emoji)
+                .catch(error => console.error('Failed to react:', error));
+            }}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={!!parentMessageId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="bg-black border-white/10 flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="text-white">Thread</SheetTitle>
+          <SheetDescription>
+            {parent ? `${parent.replyCount ?? 0} ${parent.replyCount === 1 ? 'reply' : 'replies'}` : 'Loading…'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 space-y-3">
+          {loading || !parent ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 text-white/40 animate-spin" />
+            </div>
+          ) : (
+            <>
+              {renderMessage(parent)}
+              <div className="border-t border-white/10" />
+              {hasOlder && (
+                <button type="button" onClick={loadOlderReplies} className="text-xs text-white/50 hover:text-white">
+                  Show earlier replies
+                </button>
+              )}
+              {replies.map(renderMessage)}
+            </>
+          )}
+        </div>
+
+        <form onSubmit={handleSendReply} className="flex items-end gap-2 p-4 border-t border-white/10">
+          <MentionInput
+            value={newReply}
+            onChange={setNewReply}
+            members={members}
+            placeholder="Reply in thread..."
+            className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-white/20"
+            disabled={sending || !parent || !!parent.deletedAt}
+          />
+          <Button type="submit" disabled={!newReply.trim() || sending} className="bg-white text-black hover:bg-white/90">
+            {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
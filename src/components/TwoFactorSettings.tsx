@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { ShieldCheck, ShieldOff, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useAuth } from '@/context/AuthContext';
+import { apiService } from '@/services/api';
+
+type Step = 'idle' | 'setup' | 'recovery-codes' | 'disable';
+
+export function TwoFactorSettings() {
+  const { user, refreshUser } = useAuth();
+  const [step, setStep] = useState<Step>('idle');
+  const [setup, setSetup] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user) {
+    return null;
+  }
+
+  const reset = (next: Step = 'idle') => {
+    setStep(next);
+    setCode('');
+    setError(null);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await action();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Something went wrong');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStartSetup = () =>
+    run(async () => {
+      const response = await apiService.setupTwoFactor();
+      setSetup(response);
+      reset('setup');
+    });
+
+  const handleEnable = () =>
+    run(async () => {
+      const response = await apiService.enableTwoFactor(code);
+      setRecoveryCodes(response.recoveryCodes);
+      setSetup(null);
+      reset('recovery-codes');
+      await refreshUser();
+    });
+
+  const handleDisable = () =>
+    run(async () => {
+      await apiService.disableTwoFactor(code);
+      reset();
+      await refreshUser();
+    });
+
+  const handleRegenerate = () =>
+    run(async () => {
+      const response = await apiService.regenerateRecoveryCodes(code);
+      setRecoveryCodes(response.recoveryCodes);
+      reset('recovery-codes');
+    });
+
+  const codeInput = (
+    <div className="flex justify-center">
+      <InputOTP maxLength={6} value={code} onChange={setCode} autoComplete="one-time-code">
+        <InputOTPGroup>
+          {Array.from({ length: 6 }, (_, index) => (
+            <InputOTPSlot key={index} index={index} className="h-11 w-11 text-white" />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  );
+
+  return (
+    <div className="bg-card border border-border rounded-2xl p-6 mt-10">
+      <div className="flex items-start gap-4">
+        {user.twoFactorEnabled ? (
+          <ShieldCheck className="w-6 h-6 text-green-400 flex-shrink-0" />
+        ) : (
+          <ShieldOff className="w-6 h-6 text-white/40 flex-shrink-0" />
+        )}
+        <div className="flex-1">
+          <h3 className="text-white font-semibold">Two-factor authentication</h3>
+          <p className="text-white/60 text-sm mt-1">
+            {user.twoFactorEnabled
+              ? 'Sign-ins require a code from your authenticator app.'
+              : 'Protect your account with a code from an authenticator app when you sign in.'}
+          </p>
+        </div>
+      </div>
+
+      {error && <p className="text-red-400 text-sm mt-4">{error}</p>}
+
+      {step === 'idle' && (
+        <div className="flex flex-wrap gap-3 mt-5">
+          {user.twoFactorEnabled ? (
+            <Button variant="outline" className="rounded-xl" onClick={() => reset('disable')}>
+              Turn off or replace recovery codes
+            </Button>
+          ) : (
+            <Button
+              onClick={handleStartSetup}
+              disabled={isSubmitting}
+              className="bg-white text-black hover:bg-white/90 rounded-xl"
+            >
+              {isSubmitting ? 'Starting...' : 'Set up two-factor'}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {step === 'setup' && setup && (
+        <div className="mt-5 space-y-4">
+          <p className="text-white/70 text-sm">
+            Add CodeJam to your authenticator app by opening the setup link on your phone or by entering the key
+            manually, then type the 6-digit code it shows.
+          </p>
+          <div className="flex gap-2">
+            <Input readOnly value={setup.secret} className="bg-background border-border text-white font-mono rounded-xl" />
+            <Button
+              variant="outline"
+              size="icon"
+              className="rounded-xl"
+              onClick={() => navigator.clipboard.writeText(setup.secret)}
+              aria-label="Copy setup key"
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <a href={setup.otpauthUri} className="block text-sm text-white/60 hover:text-white underline">
+            Open in authenticator app
+          </a>
+          {codeInput}
+          <div className="flex gap-3">
+            <Button
+              onClick={handleEnable}
+              disabled={isSubmitting || code.length < 6}
+              className="flex-1 bg-white text-black hover:bg-white/90 rounded-xl"
+            >
+              {isSubmitting ? 'Verifying...' : 'Turn on'}
+            </Button>
+            <Button variant="ghost" className="rounded-xl text-white/60" onClick={() => reset()}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'recovery-codes' && (
+        <div className="mt-5 space-y-4">
+          <p className="text-white/70 text-sm">
+            Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose your
+            authenticator. They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 bg-background border border-border rounded-xl p-4 font-mono text-sm text-white">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              className="rounded-xl"
+              onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              Copy codes
+            </Button>
+            <Button
+              className="bg-white text-black hover:bg-white/90 rounded-xl"
+              onClick={() => {
+                setRecoveryCodes([]);
+                reset();
+              }}
+            >
+              I saved them
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'disable' && (
+        <div className="mt-5 space-y-4">
+          <p className="text-white/70 text-sm">Enter a code from your authenticator app to continue.</p>
+          {codeInput}
+          <div className="flex flex-wrap gap-3">
+            <Button
+              onClick={handleRegenerate}
+              disabled={isSubmitting || code.length < 6}
+              variant="outline"
+              className="rounded-xl"
+            >
+              New recovery codes
+            </Button>
+            <Button
+              onClick={handleDisable}
+              disabled={isSubmitting || code.length < 6}
+              className="bg-red-500/80 text-white hover:bg-red-500 rounded-xl"
+            >
+              Turn off two-factor
+            </Button>
+            <Button variant="ghost" className="rounded-xl text-white/60" onClick={() => reset()}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ interface DatePickerProps {
   placeholder?: string
   className?: string
   disabled?: boolean
+  // Earliest date that can be picked; now by default
+  minDate?: Date
 }
 
 export function DatePicker({
@@ -27,6 +29,7 @@ export function DatePicker({
   placeholder = "Pick a date",
   className,
   disabled = false,
+  minDate,
 }: DatePickerProps) {
   const [open, setOpen] = React.useState(false)
 
@@ -54,7 +57,7 @@ export function DatePicker({
             onDateChange?.(selectedDate)
             setOpen(false)
           }}
-          disabled={(date) => date < new Date()}
+          disabled={(date) => date < (minDate ?? new Date())}
           initialFocus
           className="bg-card"
         />
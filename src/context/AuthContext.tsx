@@ -6,11 +6,15 @@ interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<{ twoFactorRequired: boolean }>;
   signup: (name: string, email: string, password: string) => Promise<void>;
-  googleLogin: (token: string) => Promise<void>;
+  googleLogin: (token: string) => Promise<{ twoFactorRequired: boolean }>;
+  twoFactorChallenge: string | null;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  cancelTwoFactor: () => void;
   logout: () => Promise<void>;
   updateUser: (userData: Partial<User>) => Promise<void>;
+  refreshUser: () => Promise<void>;
   error: string | null;
   clearError: () => void;
 }
@@ -21,6 +25,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Set while a login is waiting for its two-factor code
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
 
   useEffect(() => {
     // Check if user is already authenticated
@@ -59,10 +65,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setIsLoading(true);
       
       const response = await apiService.login({ email, password });
+
+      if (response.twoFactorRequired && response.challengeToken) {
+        setTwoFactorChallenge(response.challengeToken);
+        return { twoFactorRequired: true };
+      }
       
       // Store token
-      localStorage.setItem('kaivan_token', response.accessToken);
+      localStorage.setItem('kaivan_token', response.accessToken!);
       setUser(response.user);
+      return { twoFactorRequired: false };
     } catch (error: any) {
       setError(error.message || 'Login failed');
       throw error;
@@ -95,10 +107,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setIsLoading(true);
       
       const response = await apiService.googleAuth(token);
+
+      if (response.twoFactorRequired && response.challengeToken) {
+        setTwoFactorChallenge(response.challengeToken);
+        return { twoFactorRequired: true };
+      }
       
       // Store token
-      localStorage.setItem('kaivan_token', response.accessToken);
+      localStorage.setItem('kaivan_token', response.accessToken!);
       setUser(response.user);
+      return { twoFactorRequired: false };
     } catch (error: any) {
       setError(error.message || 'Google login failed');
       throw error;
@@ -107,6 +125,37 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const verifyTwoFactor = async (code: string) => {
+    if (!twoFactorChallenge) return;
+
+    try {
+      setError(null);
+      setIsLoading(true);
+
+      const response = await apiService.verifyTwoFactorLogin(twoFactorChallenge, code);
+
+      // Store token
+      localStorage.setItem('kaivan_token', response.accessToken);
+      setTwoFactorChallenge(null);
+      setUser(response.user);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      // An expired challenge cannot be retried, so send the user back to sign in
+      if (message.includes('challenge')) {
+        setTwoFactorChallenge(null);
+      }
+      setError(message || 'Two-factor verification failed');
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    setTwoFactorChallenge(null);
+    setError(null);
+  };
+
   const logout = async () => {
     try {
       await apiService.logout();
@@ -142,8 +191,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         login,
         signup,
         googleLogin,
+        twoFactorChallenge,
+        verifyTwoFactor,
+        cancelTwoFactor,
         logout,
         updateUser,
+        refreshUser: getCurrentUser,
         error,
         clearError,
       }}
@@ -0,0 +1,379 @@
+import React, { useEffect, useRef, useCallback, useMemo } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { WebSocketContext, type MessageHandler } from '@/hooks/useWebSocket';
+import { apiService } from '@/services/api';
+import {
+  MessageType,
+  serverMessageSchema,
+  type ChatKind,
+  type ClientCommandOf,
+  type ClientCommandType,
+  type ClientMessage,
+  type CommandResults,
+  type ServerMessage,
+  type ServerMessageType,
+} from '@shared/realtimeProtocol';
+
+// Must match the server's close codes and auth subprotocol (MessageBroadcastService)
+const WS_CLOSE_TOKEN_EXPIRED = 4001;
+const WS_CLOSE_SESSION_REVOKED = 4003;
+const WS_AUTH_PROTOCOL = 'bearer';
+
+// Acknowledgements are cumulative, so one ack can cover a burst of messages
+const ACK_DELAY_MS = 1000;
+
+// How long a command waits for its ack before the caller gives up on the socket
+const COMMAND_TIMEOUT_MS = 10000;
+
+/**
+ * The server answered a command with a nack; sending it again won't help
+ */
+export class CommandRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandRejectedError';
+  }
+}
+
+interface PendingCommand {
+  resolve: (result: CommandResults[ClientCommandType]) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+// crypto.randomUUID only exists in secure contexts, and the dev server is also reached over plain http
+const createClientId = () =>
+  typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * One WebSocket connection for the whole app, opened while a user is signed in
+ * Pages and components share it through useWebSocket()
+ */
+export function WebSocketProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const wsRef = useRef<WebSocket | null>(null);
+  const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const heartbeatIntervalRef = useRef<ReturnType<typeof setInterval> | undefined>(undefined);
+  // Handlers by message type; each only ever sees messages of its own type
+  const messageHandlersRef = useRef<Map<ServerMessageType, Set<(message: ServerMessage) => void>>>(new Map());
+  const isConnectingRef = useRef(false);
+  // False once disconnect() runs, so a connect() waiting on a token refresh doesn't open a socket afterwards
+  const activeRef = useRef(false);
+  // Highest sequence number seen; sent on reconnect so the server replays only the gap
+  const lastSeqRef = useRef<number | null>(null);
+  const ackTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // Commands waiting for their ack or nack, by client id
+  const pendingCommandsRef = useRef<Map<string, PendingCommand>>(new Map());
+  // Chats open on this page; the server forgets them with the socket, so they're reopened on reconnect
+  const openChatsRef = useRef<Map<string, { chat: ChatKind; chatId: string }>>(new Map());
+  // The latest connect(), for the reconnect timer that the previous socket's onclose starts
+  const connectRef = useRef<() => Promise<void>>(async () => {});
+
+  // Frames sent while the socket is down are dropped
+  const send = useCallback((message: ClientMessage) => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    wsRef.current.send(JSON.stringify(message));
+    return true;
+  }, []);
+
+  // Whether a command reached the server is unknown once its socket is gone
+  const failPendingCommands = useCallback((reason: string) => {
+    pendingCommandsRef.current.forEach(({ reject, timeout }) => {
+      clearTimeout(timeout);
+      reject(new Error(reason));
+    });
+    pendingCommandsRef.current.clear();
+  }, []);
+
+  const connect = useCallback(async () => {
+    if (!user?.id) return;
+    
+    // Prevent multiple simultaneous connection attempts
+    if (isConnectingRef.current) {
+      console.log('[WebSocket] Already connecting, skipping...');
+      return;
+    }
+    
+    // Check if already connected
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      console.log('[WebSocket] Already connected, skipping...');
+      return;
+    }
+    
+    // Check if currently connecting
+    if (wsRef.current?.readyState === WebSocket.CONNECTING) {
+      console.log('[WebSocket] Connection in progress, skipping...');
+      return;
+    }
+
+    isConnectingRef.current = true;
+
+    // Logged messages stay unacknowledged on the server until a client confirms them
+    const scheduleAck = () => {
+      if (ackTimeoutRef.current) return;
+      ackTimeoutRef.current = setTimeout(() => {
+        ackTimeoutRef.current = undefined;
+        if (wsRef.current?.readyState === WebSocket.OPEN && lastSeqRef.current !== null) {
+          send({ type: MessageType.ACK, payload: { seq: lastSeqRef.current } });
+        }
+      }, ACK_DELAY_MS);
+    };
+
+    // The server verifies the access token during the handshake
+    const token = await apiService.getFreshAccessToken();
+    if (!activeRef.current) {
+      isConnectingRef.current = false;
+      return;
+    }
+    if (!token) {
+      console.log('[WebSocket] No valid access token, not connecting');
+      isConnectingRef.current = false;
+      return;
+    }
+
+    // Automatically detect the correct WebSocket URL
+    const currentHost = window.location.hostname;
+    let wsBaseUrl: string;
+    
+    if (import.meta.env.VITE_API_URL) {
+      // Use environment variable if set
+      const apiUrl = import.meta.env.VITE_API_URL;
+      wsBaseUrl = apiUrl.replace('/api', '').replace('http://', 'ws://').replace('https://', 'wss://');
+    } else if (currentHost !== 'localhost' && currentHost !== '127.0.0.1') {
+      // If accessing from network, use the same host
+      wsBaseUrl = `ws://${currentHost}:3001`;
+    } else {
+      // Default to localhost
+      wsBaseUrl = 'ws://localhost:3001';
+    }
+    
+    const lastSeq = lastSeqRef.current;
+    const wsUrl = lastSeq === null ? `${wsBaseUrl}/ws` : `${wsBaseUrl}/ws?lastSeq=${lastSeq}`;
+    console.log('[WebSocket] Connecting to:', wsUrl);
+    // Browsers cannot send an Authorization header here, so the token rides along as a subprotocol
+    const ws = new WebSocket(wsUrl, [WS_AUTH_PROTOCOL, token]);
+
+    ws.onopen = () => {
+      console.log('[WebSocket] Connected successfully');
+      isConnectingRef.current = false;
+
+      openChatsRef.current.forEach(({ chat, chatId }) => {
+        send({ type: MessageType.OPEN_CHAT, payload: { chat, chatId } });
+      });
+      
+      // Start sending heartbeat messages every 20 seconds
+      heartbeatIntervalRef.current = setInterval(() => {
+        if (wsRef.current?.readyState === WebSocket.OPEN) {
+          send({ type: MessageType.HEARTBEAT });
+          console.log('[WebSocket] Sent heartbeat');
+        }
+      }, 20000); // Send every 20 seconds (server expects within 60 seconds)
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        console.log('[WebSocket] Received message:', data);
+
+        // Counted before validation, so a malformed event is acknowledged rather than replayed forever
+        if (typeof data.seq === 'number') {
+          // Already handled, e.g. replayed again after a reconnect
+          if (lastSeqRef.current !== null && data.seq <= lastSeqRef.current) {
+            return;
+          }
+          lastSeqRef.current = data.seq;
+          scheduleAck();
+        }
+
+        // Handlers can rely on the payload shapes; anything else is logged and dropped
+        const result = serverMessageSchema.safeParse(data);
+        if (!result.success) {
+          console.warn('[WebSocket] Ignoring invalid message:', result.error.issues);
+          return;
+        }
+        const message = result.data;
+
+        // The gap since lastSeq is gone; handlers reload their data and we continue from the latest event
+        if (message.type === MessageType.RESYNC_REQUIRED) {
+          lastSeqRef.current = message.payload.latestSeq;
+        }
+
+        if (message.type === MessageType.COMMAND_ACK || message.type === MessageType.COMMAND_NACK) {
+          const pending = pendingCommandsRef.current.get(message.payload.clientId);
+          if (pending) {
+            pendingCommandsRef.current.delete(message.payload.clientId);
+            clearTimeout(pending.timeout);
+            if (message.type === MessageType.COMMAND_ACK) {
+              pending.resolve(message.payload.result);
+            } else {
+              pending.reject(new CommandRejectedError(message.payload.error));
+            }
+          }
+        }
+
+        messageHandlersRef.current.get(message.type)?.forEach(handler => handler(message));
+      } catch (error) {
+        console.error('[WebSocket] Failed to parse message:', error);
+      }
+    };
+
+    ws.onerror = (error) => {
+      console.error('[WebSocket] Connection error:', error);
+      isConnectingRef.current = false;
+    };
+
+    ws.onclose = (event) => {
+      wsRef.current = null;
+      isConnectingRef.current = false;
+      failPendingCommands('WebSocket closed before the command was acknowledged');
+      
+      // Clear heartbeat interval
+      if (heartbeatIntervalRef.current) {
+        clearInterval(heartbeatIntervalRef.current);
+        heartbeatIntervalRef.current = undefined;
+      }
+
+      // The session was ended on the server (password reset or deleted account); don't keep retrying
+      if (event.code === WS_CLOSE_SESSION_REVOKED) {
+        console.log('[WebSocket] Session revoked, not reconnecting');
+        return;
+      }
+
+      // An expired token is refreshed by connect(), so reconnect right away
+      const delay = event.code === WS_CLOSE_TOKEN_EXPIRED ? 0 : 3000;
+      console.log(`[WebSocket] Disconnected, will reconnect in ${delay / 1000}s`);
+      
+      // Attempt to reconnect
+      reconnectTimeoutRef.current = setTimeout(() => {
+        if (user?.id) {
+          connectRef.current();
+        }
+      }, delay);
+    };
+
+    wsRef.current = ws;
+  }, [user?.id, send, failPendingCommands]);
+
+  useEffect(() => {
+    connectRef.current = connect;
+  }, [connect]);
+
+  const disconnect = useCallback(() => {
+    activeRef.current = false;
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+    }
+    if (heartbeatIntervalRef.current) {
+      clearInterval(heartbeatIntervalRef.current);
+    }
+    if (ackTimeoutRef.current) {
+      clearTimeout(ackTimeoutRef.current);
+      ackTimeoutRef.current = undefined;
+    }
+    if (wsRef.current) {
+      wsRef.current.close();
+      wsRef.current = null;
+    }
+    failPendingCommands('WebSocket closed before the command was acknowledged');
+  }, [failPendingCommands]);
+
+  const subscribe = useCallback(<T extends ServerMessageType>(type: T, handler: MessageHandler<T>) => {
+    const handlers = messageHandlersRef.current;
+    if (!handlers.has(type)) {
+      handlers.set(type, new Set());
+    }
+    // Only messages of this type are dispatched to it, so the narrowing holds
+    const listener = handler as (message: ServerMessage) => void;
+    handlers.get(type)!.add(listener);
+
+    return () => {
+      handlers.get(type)?.delete(listener);
+    };
+  }, []);
+
+  /**
+   * Send a command over the socket and wait for the server's answer
+   *
+   * Resolves with the ack's result and rejects with CommandRejectedError on a nack.
+   * If the socket is down, closes or the ack doesn't come in time, `fallback` (usually
+   * the REST endpoint) is called with the same client id, so the server can tell it's
+   * the same command and won't carry it out twice.
+   */
+  const sendCommand = useCallback(async <T extends ClientCommandType>(
+    type: T,
+    payload: ClientCommandOf<T>['payload'],
+    fallback?: (clientId: string) => Promise<CommandResults[T]>
+  ): Promise<CommandResults[T]> => {
+    const clientId = createClientId();
+
+    try {
+      return await new Promise<CommandResults[T]>((resolve, reject) => {
+        const ws = wsRef.current;
+        if (ws?.readyState !== WebSocket.OPEN) {
+          reject(new Error('WebSocket is not connected'));
+          return;
+        }
+
+        const timeout = setTimeout(() => {
+          pendingCommandsRef.current.delete(clientId);
+          reject(new Error('Timed out waiting for the command to be acknowledged'));
+        }, COMMAND_TIMEOUT_MS);
+        pendingCommandsRef.current.set(clientId, {
+          resolve: resolve as PendingCommand['resolve'],
+          reject,
+          timeout,
+        });
+        ws.send(JSON.stringify({ type, clientId, payload } as ClientMessage));
+      });
+    } catch (error) {
+      if (!fallback || error instanceof CommandRejectedError) {
+        throw error;
+      }
+      console.log(`[WebSocket] ${type} not acknowledged, falling back:`, (error as Error).message);
+      return fallback(clientId);
+    }
+  }, []);
+
+  /**
+   * Tell the server this page shows a chat, so the other participants see the user in it
+   * Returns a function that closes the chat again
+   */
+  const openChat = useCallback((chat: ChatKind, chatId: string) => {
+    const key = `${chat}:${chatId}`;
+    openChatsRef.current.set(key, { chat, chatId });
+    send({ type: MessageType.OPEN_CHAT, payload: { chat, chatId } });
+
+    return () => {
+      openChatsRef.current.delete(key);
+      send({ type: MessageType.CLOSE_CHAT, payload: { chat, chatId } });
+    };
+  }, [send]);
+
+  const sendTyping = useCallback((chat: ChatKind, chatId: string, typing: boolean) => {
+    send({ type: typing ? MessageType.TYPING_START : MessageType.TYPING_STOP, payload: { chat, chatId } });
+  }, [send]);
+
+  useEffect(() => {
+    if (user?.id) {
+      activeRef.current = true;
+      // Sequence numbers are per user, so a different account starts from scratch
+      lastSeqRef.current = null;
+      connect();
+    }
+
+    return () => {
+      disconnect();
+    };
+  }, [user?.id, connect, disconnect]);
+
+  const value = useMemo(
+    () => ({ subscribe, sendCommand, openChat, sendTyping }),
+    [subscribe, sendCommand, openChat, sendTyping]
+  );
+
+  return <WebSocketContext.Provider value={value}>{children}</WebSocketContext.Provider>;
+}
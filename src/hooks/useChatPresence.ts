@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import type { ChatKind } from '@shared/realtimeProtocol';
+import { useWebSocket } from '@/hooks/useWebSocket';
+
+// typing_start is repeated this often while the user types; the server drops the indicator after 6s without one
+const TYPING_REPEAT_MS = 3000;
+// The indicator stops this long after the last keystroke
+const TYPING_IDLE_MS = 3000;
+
+/**
+ * Who has a chat open and who is typing in it, plus the calls that report the user's own typing
+ *
+ * @param chat - 'group' for a Builder Space chat, 'screening' for a screening chat, 'direct' for a direct conversation
+ * @param chatId - Space ID, application ID or conversation ID; nothing is opened while it is undefined
+ */
+export function useChatPresence(chat: ChatKind, chatId: string | undefined) {
+  const { subscribe, openChat, sendTyping } = useWebSocket();
+  const [viewerIds, setViewerIds] = useState<string[]>([]);
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const lastTypingSentRef = useRef(0);
+  const idleTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const stopTyping = useCallback(() => {
+    clearTimeout(idleTimeoutRef.current);
+    idleTimeoutRef.current = undefined;
+    if (chatId && lastTypingSentRef.current) {
+      sendTyping(chat, chatId, false);
+    }
+    lastTypingSentRef.current = 0;
+  }, [chat, chatId, sendTyping]);
+
+  // Call on every keystroke in the message box
+  const notifyTyping = useCallback(() => {
+    if (!chatId) return;
+
+    if (Date.now() - lastTypingSentRef.current > TYPING_REPEAT_MS) {
+      sendTyping(chat, chatId, true);
+      lastTypingSentRef.current = Date.now();
+    }
+
+    clearTimeout(idleTimeoutRef.current);
+    idleTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [chat, chatId, sendTyping, stopTyping]);
+
+  useEffect(() => {
+    if (!chatId) return;
+
+    const closeChat = openChat(chat, chatId);
+    const isThisChat = (payload: { chat: ChatKind; chatId: string }) =>
+      payload.chat === chat && payload.chatId === chatId;
+
+    const unsubscribers = [
+      subscribe('chat_presence', ({ payload }) => {
+        if (!isThisChat(payload)) return;
+        setViewerIds(payload.userIds);
+        // Whoever left the chat isn't typing in it either
+        setTypingUserIds(prev => prev.filter(id => payload.userIds.includes(id)));
+      }),
+
+      subscribe('typing', ({ payload }) => {
+        if (!isThisChat(payload)) return;
+        setTypingUserIds(prev => {
+          const others = prev.filter(id => id !== payload.userId);
+          return payload.typing ? [...others, payload.userId] : others;
+        });
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      stopTyping();
+      closeChat();
+      setViewerIds([]);
+      setTypingUserIds([]);
+    };
+  }, [chat, chatId, subscribe, openChat, stopTyping]);
+
+  return { viewerIds, typingUserIds, notifyTyping, stopTyping };
+}
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+// Older history starts loading this close to the top of the list
+const LOAD_OLDER_THRESHOLD_PX = 80;
+
+interface ChatScrollOptions {
+  // Oldest loaded message; changes when older history is added above
+  firstMessageId: string | undefined;
+  // Newest loaded message; changes when a message arrives
+  lastMessageId: string | undefined;
+  // Whether the server has history older than what is loaded
+  hasOlder: boolean;
+  // Fetches the previous page and adds it above; resolves with how many messages were added
+  loadOlder: () => Promise<number>;
+}
+
+/**
+ * Scrolling for a chat's message list: follows new messages to the bottom and
+ * loads older history when the list is scrolled to the top, keeping the messages
+ * on screen where they are while older ones are added above them
+ *
+ * Attach containerRef and onScroll to the scrolling element.
+ */
+export function useChatScroll({ firstMessageId, lastMessageId, hasOlder, loadOlder }: ChatScrollOptions) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const loadingRef = useRef(false);
+  // Scroll position from before older messages were added, restored once they render
+  const anchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const anchor = anchorRef.current;
+    if (!container || !anchor) return;
+
+    container.scrollTop = anchor.scrollTop + container.scrollHeight - anchor.scrollHeight;
+    anchorRef.current = null;
+  }, [firstMessageId]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !lastMessageId) return;
+
+    container.scrollTo({ top: container.scrollHeight, behavior: 'smooth' });
+  }, [lastMessageId]);
+
+  const onScroll = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || container.scrollTop > LOAD_OLDER_THRESHOLD_PX || !hasOlder || loadingRef.current) return;
+
+    loadingRef.current = true;
+    setLoadingOlder(true);
+    anchorRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+
+    loadOlder()
+      .then(added => {
+        if (added === 0) anchorRef.current = null;
+      })
+      .catch(error => {
+        anchorRef.current = null;
+        console.error('Failed to load older messages:', error);
+      })
+      .finally(() => {
+        loadingRef.current = false;
+        setLoadingOlder(false);
+      });
+  }, [hasOlder, loadOlder]);
+
+  return { containerRef, onScroll, loadingOlder };
+}
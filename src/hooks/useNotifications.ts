@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { apiService, type NotificationItem } from '@/services/api';
+
+/**
+ * The user's latest notifications and unread count, kept up to date as new ones are pushed
+ */
+export function useNotifications() {
+  const { isAuthenticated } = useAuth();
+  const { subscribe } = useWebSocket();
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  // Replayed after a reconnect, the same notification can arrive twice
+  const seenIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const load = async () => {
+      try {
+        const result = await apiService.getNotifications();
+        seenIds.current = new Set(result.notifications.map(item => item.id));
+        setNotifications(result.notifications);
+        setUnreadCount(result.unreadCount);
+      } catch (error) {
+        console.error('Failed to load notifications:', error);
+      }
+    };
+
+    load();
+    const unsubscribers = [
+      subscribe('notification', ({ payload }) => {
+        if (seenIds.current.has(payload.id)) return;
+        seenIds.current.add(payload.id);
+        setNotifications(prev => [payload, ...prev]);
+        setUnreadCount(prev => prev + 1);
+      }),
+      subscribe('resync_required', load),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      setNotifications([]);
+      setUnreadCount(0);
+    };
+  }, [isAuthenticated, subscribe]);
+
+  const markRead = useCallback(async (notification: NotificationItem) => {
+    if (notification.readAt) return;
+
+    setNotifications(prev => prev.map(item =>
+      item.id === notification.id ? { ...item, readAt: new Date() } : item
+    ));
+    setUnreadCount(prev => Math.max(prev - 1, 0));
+    try {
+      await apiService.markNotificationRead(notification.id);
+    } catch (error) {
+      console.error('Failed to mark notification read:', error);
+    }
+  }, []);
+
+  const markAllRead = useCallback(async () => {
+    setNotifications(prev => prev.map(item => item.readAt ? item : { ...item, readAt: new Date() }));
+    setUnreadCount(0);
+    try {
+      await apiService.markAllNotificationsRead();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  }, []);
+
+  return { notifications, unreadCount, markRead, markAllRead };
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import type { ChatKind } from '@shared/realtimeProtocol';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { apiService } from '@/services/api';
+
+const getReadReceipts = (chat: ChatKind, chatId: string, spaceId?: string) => {
+  switch (chat) {
+    case 'group':
+      return apiService.getWorkspaceChannelReadReceipts(spaceId!, chatId);
+    case 'direct':
+      return apiService.getDirectConversationReadReceipts(chatId);
+    default:
+      return apiService.getScreeningChatReadReceipts(chatId);
+  }
+};
+
+const markRead = (chat: ChatKind, chatId: string, messageId: string, spaceId?: string) => {
+  switch (chat) {
+    case 'group':
+      return apiService.markWorkspaceChannelRead(spaceId!, chatId, messageId);
+    case 'direct':
+      return apiService.markDirectConversationRead(chatId, messageId);
+    default:
+      return apiService.markScreeningChatRead(chatId, messageId);
+  }
+};
+
+/**
+ * How far everyone in a chat has read, and marks the chat read for the user
+ * whenever a newer message shows up while the page is visible
+ *
+ * @param chat - 'group' for a Builder Space channel, 'screening' for a screening chat, 'direct' for a direct conversation
+ * @param chatId - Channel ID, application ID or conversation ID; nothing happens while it is undefined
+ * @param latestMessageId - Newest message on screen
+ * @param spaceId - The Builder Space the channel is in, for group chats
+ * @returns The last message each user has read, keyed by user ID
+ */
+export function useReadReceipts(
+  chat: ChatKind,
+  chatId: string | undefined,
+  latestMessageId: string | undefined,
+  spaceId?: string
+) {
+  const { subscribe } = useWebSocket();
+  const [lastReadByUser, setLastReadByUser] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!chatId) return;
+
+    getReadReceipts(chat, chatId, spaceId)
+      .then(({ readReceipts }) => {
+        setLastReadByUser(Object.fromEntries(readReceipts.map(receipt => [receipt.userId, receipt.messageId])));
+      })
+      .catch(error => console.error('Failed to load read receipts:', error));
+
+    const unsubscribe = subscribe('read_receipt', ({ payload }) => {
+      if (payload.chat === chat && payload.chatId === chatId) {
+        setLastReadByUser(prev => ({ ...prev, [payload.userId]: payload.messageId }));
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      setLastReadByUser({});
+    };
+  }, [chat, chatId, spaceId, subscribe]);
+
+  useEffect(() => {
+    if (!chatId || !latestMessageId) return;
+
+    const markVisibleRead = () => {
+      if (document.visibilityState !== 'visible') return;
+      markRead(chat, chatId, latestMessageId, spaceId)
+        .catch(error => console.error('Failed to mark chat as read:', error));
+    };
+
+    // Messages that arrive in a background tab are marked read once it is shown again
+    markVisibleRead();
+    document.addEventListener('visibilitychange', markVisibleRead);
+    return () => document.removeEventListener('visibilitychange', markVisibleRead);
+  }, [chat, chatId, latestMessageId, spaceId]);
+
+  return lastReadByUser;
+}
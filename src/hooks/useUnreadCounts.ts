@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { apiService } from '@/services/api';
+
+// Bursts of messages and receipts are folded into one reload
+const REFRESH_DELAY_MS = 300;
+
+const sumUnread = (chats: { unreadCount?: number }[]) =>
+  chats.reduce((total, chat) => total + (chat.unreadCount || 0), 0);
+
+/**
+ * Unread messages across the user's screening chats, direct conversations and Builder Spaces,
+ * reloaded when messages arrive or the user reads a chat on any device
+ */
+export function useUnreadCounts() {
+  const { user, isAuthenticated } = useAuth();
+  const { subscribe } = useWebSocket();
+  const [screening, setScreening] = useState(0);
+  const [group, setGroup] = useState(0);
+  const [direct, setDirect] = useState(0);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let refreshTimeout: ReturnType<typeof setTimeout> | undefined;
+    const load = async () => {
+      try {
+        const [chatsRes, spacesRes, directRes] = await Promise.all([
+          apiService.getMyScreeningChats(),
+          apiService.getMyWorkspaces(),
+          apiService.getDirectConversations(),
+        ]);
+        setScreening(sumUnread(chatsRes.screeningChats));
+        setGroup(sumUnread(spacesRes.spaces));
+        setDirect(sumUnread(directRes.conversations));
+      } catch (error) {
+        console.error('Failed to load unread counts:', error);
+      }
+    };
+    const refresh = () => {
+      clearTimeout(refreshTimeout);
+      refreshTimeout = setTimeout(load, REFRESH_DELAY_MS);
+    };
+
+    load();
+    const unsubscribers = [
+      subscribe('screening_message', ({ payload }) => {
+        if (payload.senderId !== user?.id) refresh();
+      }),
+      subscribe('group_message', ({ payload }) => {
+        if (payload.senderId !== user?.id) refresh();
+      }),
+      subscribe('direct_message', ({ payload }) => {
+        if (payload.senderId !== user?.id) refresh();
+      }),
+      subscribe('read_receipt', ({ payload }) => {
+        if (payload.userId === user?.id) refresh();
+      }),
+      subscribe('resync_required', refresh),
+    ];
+
+    return () => {
+      clearTimeout(refreshTimeout);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      setScreening(0);
+      setGroup(0);
+      setDirect(0);
+    };
+  }, [isAuthenticated, user?.id, subscribe]);
+
+  return { screening, group, direct };
+}
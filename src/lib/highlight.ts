@@ -0,0 +1,231 @@
+export type HighlightTokenType = 'plain' | 'keyword' | 'string' | 'number' | 'comment';
+
+export interface HighlightToken {
+  type: HighlightTokenType;
+  text: string;
+}
+
+interface LanguageGrammar {
+  keywords: Set<string>;
+  lineComments: string[];
+  blockComment?: [string, string];
+  quotes: string[];
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const C_LIKE_COMMENTS = { lineComments: ['//'], blockComment: ['/*', '*/'] as [string, string] };
+
+const JAVASCRIPT: LanguageGrammar = {
+  ...C_LIKE_COMMENTS,
+  keywords: words(
+    'as async await break case catch class const continue debugger default delete do else enum export extends ' +
+    'false finally for from function if implements import in instanceof interface let new null of private ' +
+    'protected public readonly return static super switch this throw true try type typeof undefined var void ' +
+    'while yield'
+  ),
+  quotes: ['"', "'", '`'],
+};
+
+const PYTHON: LanguageGrammar = {
+  keywords: words(
+    'and as assert async await break class continue def del elif else except False finally for from global if ' +
+    'import in is lambda None nonlocal not or pass raise return self True try while with yield'
+  ),
+  lineComments: ['#'],
+  quotes: ['"', "'"],
+};
+
+const GRAMMARS: Record<string, LanguageGrammar> = {
+  javascript: JAVASCRIPT,
+  typescript: JAVASCRIPT,
+  python: PYTHON,
+  java: {
+    ...C_LIKE_COMMENTS,
+    keywords: words(
+      'abstract boolean break byte case catch char class continue default do double else enum extends false final ' +
+      'finally float for if implements import instanceof int interface long new null package private protected ' +
+      'public return short static super switch this throw throws true try var void while'
+    ),
+    quotes: ['"', "'"],
+  },
+  c: {
+    ...C_LIKE_COMMENTS,
+    keywords: words(
+      'auto bool break case char class const continue default delete do double else enum extern false float for ' +
+      'if include int long namespace new nullptr private protected public return short signed sizeof static ' +
+      'struct switch template this true typedef union unsigned using virtual void while'
+    ),
+    quotes: ['"', "'"],
+  },
+  go: {
+    ...C_LIKE_COMMENTS,
+    keywords: words(
+      'break case chan const continue default defer else false fallthrough for func go goto if import interface ' +
+      'map nil package range return select struct switch true type var'
+    ),
+    quotes: ['"', "'", '`'],
+  },
+  rust: {
+    ...C_LIKE_COMMENTS,
+    keywords: words(
+      'as async await break const continue crate else enum false fn for if impl in let loop match mod move mut ' +
+      'pub ref return self Self static struct super trait true type unsafe use where while'
+    ),
+    quotes: ['"'],
+  },
+  shell: {
+    keywords: words('case do done echo elif else esac exit export fi for function if in local return then while'),
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+  },
+  sql: {
+    keywords: words(
+      'ALTER AND AS ASC BY CREATE DELETE DESC DISTINCT DROP FROM GROUP HAVING IN INDEX INNER INSERT INTO IS JOIN ' +
+      'KEY LEFT LIMIT NOT NULL ON OR ORDER PRIMARY SELECT SET TABLE UPDATE VALUES WHERE'
+    ),
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+  },
+  json: {
+    keywords: words('true false null'),
+    lineComments: [],
+    quotes: ['"'],
+  },
+  css: {
+    keywords: words('important inherit initial none auto'),
+    lineComments: [],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  kotlin: 'java',
+  kt: 'java',
+  'c++': 'c',
+  cpp: 'c',
+  'c#': 'c',
+  cs: 'c',
+  csharp: 'c',
+  h: 'c',
+  golang: 'go',
+  rs: 'rust',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  scss: 'css',
+};
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*/;
+const NUMBER = /^(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)/i;
+
+/**
+ * Split code into tokens for syntax highlighting
+ *
+ * Covers keywords, strings, numbers and comments of the common languages; code in
+ * any other language, or without one, comes back as a single plain token.
+ *
+ * @param code - The code
+ * @param language - Language tag of the code block, if any
+ */
+export function highlight(code: string, language: string | null): HighlightToken[] {
+  const grammar = language ? GRAMMARS[ALIASES[language] ?? language] : undefined;
+  if (!grammar) {
+    return [{ type: 'plain', text: code }];
+  }
+
+  // SQL keywords are written in any case
+  const isKeyword = grammar === GRAMMARS.sql
+    ? (word: string) => grammar.keywords.has(word.toUpperCase())
+    : (word: string) => grammar.keywords.has(word);
+
+  const tokens: HighlightToken[] = [];
+  const push = (type: HighlightTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let index = 0;
+  while (index < code.length) {
+    const rest = code.slice(index);
+
+    const lineComment = grammar.lineComments.find(marker => rest.startsWith(marker));
+    if (lineComment) {
+      const end = code.indexOf('\n', index);
+      const commentEnd = end === -1 ? code.length : end;
+      push('comment', code.slice(index, commentEnd));
+      index = commentEnd;
+      continue;
+    }
+
+    if (grammar.blockComment && rest.startsWith(grammar.blockComment[0])) {
+      const close = code.indexOf(grammar.blockComment[1], index + grammar.blockComment[0].length);
+      const commentEnd = close === -1 ? code.length : close + grammar.blockComment[1].length;
+      push('comment', code.slice(index, commentEnd));
+      index = commentEnd;
+      continue;
+    }
+
+    if (grammar.quotes.includes(code[index])) {
+      const stringEnd = findStringEnd(code, index);
+      push('string', code.slice(index, stringEnd));
+      index = stringEnd;
+      continue;
+    }
+
+    const identifier = IDENTIFIER.exec(rest);
+    if (identifier) {
+      push(isKeyword(identifier[0]) ? 'keyword' : 'plain', identifier[0]);
+      index += identifier[0].length;
+      continue;
+    }
+
+    const number = NUMBER.exec(rest);
+    if (number) {
+      push('number', number[0]);
+      index += number[0].length;
+      continue;
+    }
+
+    push('plain', code[index]);
+    index++;
+  }
+
+  return tokens;
+}
+
+/**
+ * End of the string opened at `start`; strings other than template literals end at the line
+ */
+function findStringEnd(code: string, start: number): number {
+  const quote = code[start];
+  let index = start + 1;
+
+  while (index < code.length) {
+    if (code[index] === '\\') {
+      index += 2;
+      continue;
+    }
+    if (code[index] === quote) {
+      return index + 1;
+    }
+    if (code[index] === '\n' && quote !== '`') {
+      return index;
+    }
+    index++;
+  }
+
+  return code.length;
+}
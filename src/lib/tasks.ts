@@ -0,0 +1,157 @@
+import { endOfDay, format, parseISO } from 'date-fns';
+import { TASK_PRIORITIES, type LabelColor, type TaskPriority, type TaskStatus, type TaskWorkflowColumn } from '@shared/realtimeProtocol';
+import type { WorkspaceLabel, WorkspaceMilestone, WorkspaceTask, WorkspaceTaskActivity } from '@/services/api';
+
+/**
+ * The title of a column on a space's task board, or the status itself if the board no longer has it
+ */
+export function getColumnName(columns: TaskWorkflowColumn[], status?: TaskStatus | null): string {
+  return columns.find(column => column.status === status)?.name ?? status ?? '';
+}
+
+// Priorities most urgent first, as pickers list them
+export const TASK_PRIORITY_OPTIONS: { priority: TaskPriority; label: string; className: string }[] = [...TASK_PRIORITIES]
+  .reverse()
+  .map(priority => ({
+    priority,
+    label: { low: 'Low', medium: 'Medium', high: 'High', urgent: 'Urgent' }[priority],
+    className: {
+      low: 'text-white/40',
+      medium: 'text-sky-300',
+      high: 'text-orange-300',
+      urgent: 'text-red-400',
+    }[priority],
+  }));
+
+export function getPriorityOption(priority: TaskPriority) {
+  return TASK_PRIORITY_OPTIONS.find(option => option.priority === priority)!;
+}
+
+// How each label color looks as a chip, and as a swatch when picking one
+export const LABEL_COLOR_CLASSES: Record<LabelColor, { chip: string; swatch: string }> = {
+  gray: { chip: 'bg-white/10 text-white/70', swatch: 'bg-gray-400' },
+  red: { chip: 'bg-red-500/20 text-red-300', swatch: 'bg-red-500' },
+  orange: { chip: 'bg-orange-500/20 text-orange-300', swatch: 'bg-orange-500' },
+  yellow: { chip: 'bg-yellow-500/20 text-yellow-300', swatch: 'bg-yellow-500' },
+  green: { chip: 'bg-green-500/20 text-green-300', swatch: 'bg-green-500' },
+  teal: { chip: 'bg-teal-500/20 text-teal-300', swatch: 'bg-teal-500' },
+  blue: { chip: 'bg-blue-500/20 text-blue-300', swatch: 'bg-blue-500' },
+  purple: { chip: 'bg-purple-500/20 text-purple-300', swatch: 'bg-purple-500' },
+  pink: { chip: 'bg-pink-500/20 text-pink-300', swatch: 'bg-pink-500' },
+};
+
+/**
+ * A picked due date as sent to the server: the end of that day, so the task is overdue once the day is over
+ */
+export function toDueDate(day: Date): string {
+  return endOfDay(day).toISOString();
+}
+
+export function isOverdue(task: Pick<WorkspaceTask, 'dueDate' | 'status'>): boolean {
+  return !!task.dueDate && task.status !== 'done' && new Date(task.dueDate).getTime() < Date.now();
+}
+
+/**
+ * The tasks in one column, top to bottom
+ */
+export function getColumnTasks<T extends WorkspaceTask>(tasks: T[], status: TaskStatus): T[] {
+  return tasks
+    .filter(task => task.status === status)
+    .sort((a, b) => a.position - b.position || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+/**
+ * The tasks with one moved to `index` in a column (the bottom without one), as the server will place it
+ * Used to show a move right away; the server's answer replaces it
+ */
+export function placeTask<T extends WorkspaceTask>(tasks: T[], taskId: string, status: TaskStatus, index?: number): T[] {
+  const column = getColumnTasks(tasks.filter(task => task.id !== taskId), status);
+  const at = Math.min(index ?? column.length, column.length);
+  const before = column[at - 1]?.position;
+  const after = column[at]?.position;
+
+  const position = before === undefined
+    ? (after === undefined ? 0 : after - 1)
+    : (after === undefined ? before + 1 : (before + after) / 2);
+
+  return tasks.map(task => task.id === taskId ? { ...task, status, position } : task);
+}
+
+/**
+ * Add a task, or replace it if it is already there, e.g. when its update arrives twice
+ */
+export function upsertTask<T extends { id: string }>(tasks: T[], task: T): T[] {
+  return tasks.some(existing => existing.id === task.id)
+    ? tasks.map(existing => existing.id === task.id ? task : existing)
+    : [...tasks, task];
+}
+
+/**
+ * Add or replace a label, keeping the list in name order like the server sends it
+ */
+export function upsertLabel(labels: WorkspaceLabel[], label: WorkspaceLabel): WorkspaceLabel[] {
+  return upsertTask(labels, label).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * A picked day as milestones store it, e.g. "2024-03-01"
+ */
+export function toMilestoneDay(day: Date): string {
+  return format(day, 'yyyy-MM-dd');
+}
+
+/**
+ * A milestone date, stored as midnight UTC, as that day in the user's time zone
+ * Formatting the stored date directly would show the day before west of UTC
+ */
+export function fromMilestoneDay(date: string | Date): Date {
+  return parseISO(new Date(date).toISOString().slice(0, 10));
+}
+
+/**
+ * Add or replace a milestone, keeping the list soonest first like the server sends it
+ */
+export function upsertMilestone(milestones: WorkspaceMilestone[], milestone: WorkspaceMilestone): WorkspaceMilestone[] {
+  const time = (date: string | Date) => new Date(date).getTime();
+  return upsertTask(milestones, milestone)
+    .sort((a, b) => time(a.startDate) - time(b.startDate) || time(a.endDate) - time(b.endDate));
+}
+
+const FIELD_NAMES: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  dueDate: 'due date',
+  priority: 'priority',
+  labels: 'labels',
+  checklist: 'checklist',
+  dependencies: 'blockers',
+  milestone: 'milestone',
+};
+
+function listNames(names: string[]): string {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0] ?? '';
+}
+
+/**
+ * What a history entry did, to follow its actor's name, e.g. "moved this from To do to Review"
+ */
+export function describeActivity(entry: WorkspaceTaskActivity, columns: TaskWorkflowColumn[]): string {
+  const columnName = (status?: TaskStatus | null) => getColumnName(columns, status);
+
+  switch (entry.action) {
+    case 'created':
+      return 'created this task';
+    case 'status_changed':
+      return `moved this from ${columnName(entry.fromStatus)} to ${columnName(entry.toStatus)}`;
+    case 'assigned': {
+      const added = (entry.addedAssignees ?? []).map(({ name }) => name);
+      const removed = (entry.removedAssignees ?? []).map(({ name }) => name);
+      return [
+        added.length > 0 && `assigned ${listNames(added)}`,
+        removed.length > 0 && `unassigned ${listNames(removed)}`,
+      ].filter(Boolean).join(' and ');
+    }
+    case 'edited':
+      return `edited the ${listNames((entry.fields ?? []).map(field => FIELD_NAMES[field] ?? field))}`;
+  }
+}
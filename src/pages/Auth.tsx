@@ -1,14 +1,16 @@
 import { useState, useEffect, useRef } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, Link, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Rocket, Mail, ArrowRight, Chrome, Eye, EyeOff, AlertCircle } from 'lucide-react';
+import { Rocket, Mail, ArrowRight, Chrome, Eye, EyeOff, AlertCircle, CheckCircle2, ArrowLeft, ShieldCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { useAuth } from '@/context/AuthContext';
+import { apiService } from '@/services/api';
 
 export function Auth() {
   const navigate = useNavigate();
-  const { login, signup, googleLogin, isAuthenticated, error, clearError } = useAuth();
+  const { login, signup, googleLogin, twoFactorChallenge, verifyTwoFactor, cancelTwoFactor, isAuthenticated, error, clearError } = useAuth();
   const [isSignUp, setIsSignUp] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
@@ -18,6 +20,16 @@ export function Auth() {
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const googleButtonRef = useRef<HTMLDivElement>(null);
+  const [searchParams] = useSearchParams();
+  const resetToken = searchParams.get('token');
+  const [screen, setScreen] = useState<'credentials' | 'forgot' | 'reset'>(resetToken ? 'reset' : 'credentials');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [screenError, setScreenError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  // A pending two-factor challenge takes over the page until it is completed or cancelled
+  const activeScreen = twoFactorChallenge ? 'two-factor' : screen;
 
   // Redirect if already authenticated
   if (isAuthenticated) {
@@ -81,7 +93,8 @@ export function Auth() {
     try {
       setIsLoading(true);
       clearError();
-      await googleLogin(response.credential);
+      const { twoFactorRequired } = await googleLogin(response.credential);
+      if (twoFactorRequired) return;
       navigate('/onboarding');
     } catch (error: any) {
       console.error('Google login failed:', error);
@@ -103,7 +116,8 @@ export function Auth() {
       if (isSignUp) {
         await signup(formData.name, formData.email, formData.password);
       } else {
-        await login(formData.email, formData.password);
+        const { twoFactorRequired } = await login(formData.email, formData.password);
+        if (twoFactorRequired) return;
       }
       
       navigate('/onboarding');
@@ -126,6 +140,100 @@ export function Auth() {
     clearError();
   };
 
+  const showScreen = (next: 'credentials' | 'forgot') => {
+    setScreen(next);
+    setScreenError(null);
+    setNotice(null);
+    clearError();
+  };
+
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.email.trim()) return;
+
+    try {
+      setIsLoading(true);
+      setScreenError(null);
+      const response = await apiService.forgotPassword(formData.email);
+      setNotice(response.message);
+    } catch (error) {
+      setScreenError(error instanceof Error ? error.message : 'Failed to send reset link');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resetToken) return;
+
+    if (formData.password !== confirmPassword) {
+      setScreenError('Passwords do not match');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setScreenError(null);
+      const response = await apiService.resetPassword(resetToken, formData.password);
+      setFormData({ name: '', email: '', password: '' });
+      setConfirmPassword('');
+      setIsSignUp(false);
+      setScreen('credentials');
+      setNotice(response.message);
+      navigate('/auth', { replace: true });
+    } catch (error) {
+      setScreenError(error instanceof Error ? error.message : 'Failed to reset password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!twoFactorCode.trim()) return;
+
+    try {
+      setIsLoading(true);
+      await verifyTwoFactor(twoFactorCode);
+      navigate('/onboarding');
+    } catch (error) {
+      console.error('Two-factor error:', error);
+      setTwoFactorCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelTwoFactor = () => {
+    cancelTwoFactor();
+    setTwoFactorCode('');
+    setUseRecoveryCode(false);
+  };
+
+  const headings = {
+    credentials: {
+      title: isSignUp ? 'Create your account' : 'Welcome back',
+      subtitle: isSignUp
+        ? 'Join CodeJam to find your team and build your ideas'
+        : 'Sign in to find your team and build your ideas',
+    },
+    forgot: {
+      title: 'Forgot your password?',
+      subtitle: "Enter your email and we'll send you a link to reset it",
+    },
+    reset: {
+      title: 'Choose a new password',
+      subtitle: 'Resetting your password signs you out on every device',
+    },
+    'two-factor': {
+      title: 'Two-factor authentication',
+      subtitle: useRecoveryCode
+        ? 'Enter one of the recovery codes you saved when you turned on two-factor'
+        : 'Enter the 6-digit code from your authenticator app',
+    },
+  };
+
   return (
     <div className="min-h-screen bg-black flex items-center justify-center p-4">
       <motion.div
@@ -146,137 +254,313 @@ export function Auth() {
         <div className="bg-card border border-border rounded-2xl p-8">
           <div className="text-center mb-8">
             <h1 className="text-2xl font-bold text-white mb-2">
-              {isSignUp ? 'Create your account' : 'Welcome back'}
+              {headings[activeScreen].title}
             </h1>
             <p className="text-white/60">
-              {isSignUp 
-                ? 'Join CodeJam to find your team and build your ideas'
-                : 'Sign in to find your team and build your ideas'
-              }
+              {headings[activeScreen].subtitle}
             </p>
           </div>
 
           {/* Error Message */}
-          {error && (
+          {(error || screenError) && (
             <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3">
               <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
-              <p className="text-red-400 text-sm">{error}</p>
+              <p className="text-red-400 text-sm">{screenError || error}</p>
             </div>
           )}
 
-          {/* Google Login */}
-          <div ref={googleButtonRef} className="w-full mb-6" style={{ minHeight: '44px' }} />
-
-          {/* Divider */}
-          <div className="relative mb-6">
-            <div className="absolute inset-0 flex items-center">
-              <div className="w-full border-t border-border" />
-            </div>
-            <div className="relative flex justify-center text-sm">
-              <span className="px-4 bg-card text-white/40">or</span>
+          {/* Notice */}
+          {notice && (
+            <div className="mb-6 p-4 bg-green-500/10 border border-green-500/20 rounded-xl flex items-center gap-3">
+              <CheckCircle2 className="w-5 h-5 text-green-400 flex-shrink-0" />
+              <p className="text-green-400 text-sm">{notice}</p>
             </div>
-          </div>
+          )}
 
-          {/* Email/Password Form */}
-          <form onSubmit={handleSubmit}>
-            <div className="space-y-4">
-              {isSignUp && (
-                <div>
-                  <label className="block text-sm text-white/70 mb-2">
-                    Full name
-                  </label>
-                  <Input
-                    type="text"
-                    name="name"
-                    value={formData.name}
-                    onChange={handleInputChange}
-                    placeholder="John Doe"
-                    className="w-full bg-background border-border text-white px-4 py-6 rounded-xl placeholder:text-white/30"
-                    required={isSignUp}
-                  />
+          {activeScreen === 'credentials' && (
+            <>
+              {/* Google Login */}
+              <div ref={googleButtonRef} className="w-full mb-6" style={{ minHeight: '44px' }} />
+
+              {/* Divider */}
+              <div className="relative mb-6">
+                <div className="absolute inset-0 flex items-center">
+                  <div className="w-full border-t border-border" />
+                </div>
+                <div className="relative flex justify-center text-sm">
+                  <span className="px-4 bg-card text-white/40">or</span>
                 </div>
-              )}
-
-              <div>
-                <label className="block text-sm text-white/70 mb-2">
-                  Email address
-                </label>
-                <div className="relative">
-                  <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-white/40" />
+              </div>
+
+              {/* Email/Password Form */}
+              <form onSubmit={handleSubmit}>
+                <div className="space-y-4">
+                  {isSignUp && (
+                    <div>
+                      <label className="block text-sm text-white/70 mb-2">
+                        Full name
+                      </label>
+                      <Input
+                        type="text"
+                        name="name"
+                        value={formData.name}
+                        onChange={handleInputChange}
+                        placeholder="John Doe"
+                        className="w-full bg-background border-border text-white px-4 py-6 rounded-xl placeholder:text-white/30"
+                        required={isSignUp}
+                      />
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm text-white/70 mb-2">
+                      Email address
+                    </label>
+                    <div className="relative">
+                      <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-white/40" />
+                      <Input
+                        type="email"
+                        name="email"
+                        value={formData.email}
+                        onChange={handleInputChange}
+                        placeholder="you@university.edu"
+                        className="w-full bg-background border-border text-white pl-12 pr-4 py-6 rounded-xl placeholder:text-white/30"
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-white/70 mb-2">
+                      Password
+                    </label>
+                    <div className="relative">
+                      <Input
+                        type={showPassword ? 'text' : 'password'}
+                        name="password"
+                        value={formData.password}
+                        onChange={handleInputChange}
+                        placeholder={isSignUp ? 'Create a strong password' : 'Enter your password'}
+                        className="w-full bg-background border-border text-white px-4 pr-12 py-6 rounded-xl placeholder:text-white/30"
+                        required
+                        minLength={6}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                        className="absolute right-4 top-1/2 -translate-y-1/2 text-white/40 hover:text-white/60 transition-colors"
+                      >
+                        {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                      </button>
+                    </div>
+                    {isSignUp && (
+                      <p className="text-xs text-white/40 mt-2">
+                        Password must be at least 6 characters long
+                      </p>
+                    )}
+                    {!isSignUp && (
+                      <div className="text-right mt-2">
+                        <button
+                          type="button"
+                          onClick={() => showScreen('forgot')}
+                          className="text-xs text-white/50 hover:text-white transition-colors"
+                        >
+                          Forgot password?
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  <Button
+                    type="submit"
+                    disabled={isLoading || !formData.email.trim() || !formData.password.trim() || (isSignUp && !formData.name.trim())}
+                    className="w-full bg-white text-black hover:bg-white/90 rounded-xl py-6 text-base font-medium disabled:opacity-50 disabled:bg-white/50"
+                  >
+                    {isLoading ? (
+                      <div className="flex items-center gap-2">
+                        <div className="w-4 h-4 border-2 border-black/20 border-t-black rounded-full animate-spin" />
+                        {isSignUp ? 'Creating account...' : 'Signing in...'}
+                      </div>
+                    ) : (
+                      <>
+                        {isSignUp ? 'Create account' : 'Sign in'}
+                        <ArrowRight className="w-5 h-5 ml-2" />
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </form>
+
+              {/* Toggle Mode */}
+              <div className="mt-6 text-center">
+                <button
+                  onClick={toggleMode}
+                  className="text-white/60 hover:text-white transition-colors text-sm"
+                >
+                  {isSignUp 
+                    ? 'Already have an account? Sign in'
+                    : "Don't have an account? Sign up"
+                  }
+                </button>
+              </div>
+            </>
+          )}
+
+          {/* Two-Factor Challenge */}
+          {activeScreen === 'two-factor' && (
+            <form onSubmit={handleTwoFactorSubmit}>
+              <div className="space-y-6">
+                {useRecoveryCode ? (
                   <Input
-                    type="email"
-                    name="email"
-                    value={formData.email}
-                    onChange={handleInputChange}
-                    placeholder="you@university.edu"
-                    className="w-full bg-background border-border text-white pl-12 pr-4 py-6 rounded-xl placeholder:text-white/30"
-                    required
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    placeholder="xxxxx-xxxxx"
+                    autoComplete="one-time-code"
+                    className="w-full bg-background border-border text-white px-4 py-6 rounded-xl placeholder:text-white/30 text-center tracking-widest"
+                    autoFocus
                   />
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={6}
+                      value={twoFactorCode}
+                      onChange={setTwoFactorCode}
+                      autoComplete="one-time-code"
+                      autoFocus
+                    >
+                      <InputOTPGroup>
+                        {Array.from({ length: 6 }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} className="h-12 w-12 text-lg text-white" />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  disabled={isLoading || (useRecoveryCode ? !twoFactorCode.trim() : twoFactorCode.length < 6)}
+                  className="w-full bg-white text-black hover:bg-white/90 rounded-xl py-6 text-base font-medium disabled:opacity-50 disabled:bg-white/50"
+                >
+                  <ShieldCheck className="w-5 h-5 mr-2" />
+                  {isLoading ? 'Verifying...' : 'Verify'}
+                </Button>
+
+                <div className="flex items-center justify-between text-sm">
+                  <button
+                    type="button"
+                    onClick={handleCancelTwoFactor}
+                    className="flex items-center gap-2 text-white/60 hover:text-white transition-colors"
+                  >
+                    <ArrowLeft className="w-4 h-4" />
+                    Back to sign in
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setTwoFactorCode('');
+                      clearError();
+                    }}
+                    className="text-white/60 hover:text-white transition-colors"
+                  >
+                    {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                  </button>
                 </div>
               </div>
+            </form>
+          )}
+
+          {/* Forgot Password */}
+          {activeScreen === 'forgot' && (
+            <form onSubmit={handleForgotPassword}>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm text-white/70 mb-2">
+                    Email address
+                  </label>
+                  <div className="relative">
+                    <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-white/40" />
+                    <Input
+                      type="email"
+                      name="email"
+                      value={formData.email}
+                      onChange={handleInputChange}
+                      placeholder="you@university.edu"
+                      className="w-full bg-background border-border text-white pl-12 pr-4 py-6 rounded-xl placeholder:text-white/30"
+                      required
+                    />
+                  </div>
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={isLoading || !formData.email.trim()}
+                  className="w-full bg-white text-black hover:bg-white/90 rounded-xl py-6 text-base font-medium disabled:opacity-50 disabled:bg-white/50"
+                >
+                  {isLoading ? 'Sending link...' : 'Send reset link'}
+                </Button>
+
+                <button
+                  type="button"
+                  onClick={() => showScreen('credentials')}
+                  className="w-full flex items-center justify-center gap-2 text-white/60 hover:text-white transition-colors text-sm"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  Back to sign in
+                </button>
+              </div>
+            </form>
+          )}
 
-              <div>
-                <label className="block text-sm text-white/70 mb-2">
-                  Password
-                </label>
-                <div className="relative">
+          {/* Reset Password */}
+          {activeScreen === 'reset' && (
+            <form onSubmit={handleResetPassword}>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm text-white/70 mb-2">
+                    New password
+                  </label>
                   <Input
                     type={showPassword ? 'text' : 'password'}
                     name="password"
                     value={formData.password}
                     onChange={handleInputChange}
-                    placeholder={isSignUp ? 'Create a strong password' : 'Enter your password'}
-                    className="w-full bg-background border-border text-white px-4 pr-12 py-6 rounded-xl placeholder:text-white/30"
+                    placeholder="Create a strong password"
+                    className="w-full bg-background border-border text-white px-4 py-6 rounded-xl placeholder:text-white/30"
                     required
                     minLength={6}
                   />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-4 top-1/2 -translate-y-1/2 text-white/40 hover:text-white/60 transition-colors"
-                  >
-                    {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                  </button>
                 </div>
-                {isSignUp && (
+
+                <div>
+                  <label className="block text-sm text-white/70 mb-2">
+                    Confirm new password
+                  </label>
+                  <Input
+                    type={showPassword ? 'text' : 'password'}
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    placeholder="Repeat your new password"
+                    className="w-full bg-background border-border text-white px-4 py-6 rounded-xl placeholder:text-white/30"
+                    required
+                    minLength={6}
+                  />
                   <p className="text-xs text-white/40 mt-2">
                     Password must be at least 6 characters long
                   </p>
-                )}
-              </div>
+                </div>
 
-              <Button
-                type="submit"
-                disabled={isLoading || !formData.email.trim() || !formData.password.trim() || (isSignUp && !formData.name.trim())}
-                className="w-full bg-white text-black hover:bg-white/90 rounded-xl py-6 text-base font-medium disabled:opacity-50 disabled:bg-white/50"
-              >
-                {isLoading ? (
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 border-2 border-black/20 border-t-black rounded-full animate-spin" />
-                    {isSignUp ? 'Creating account...' : 'Signing in...'}
-                  </div>
-                ) : (
-                  <>
-                    {isSignUp ? 'Create account' : 'Sign in'}
-                    <ArrowRight className="w-5 h-5 ml-2" />
-                  </>
-                )}
-              </Button>
-            </div>
-          </form>
-
-          {/* Toggle Mode */}
-          <div className="mt-6 text-center">
-            <button
-              onClick={toggleMode}
-              className="text-white/60 hover:text-white transition-colors text-sm"
-            >
-              {isSignUp 
-                ? 'Already have an account? Sign in'
-                : "Don't have an account? Sign up"
-              }
-            </button>
-          </div>
+                <Button
+                  type="submit"
+                  disabled={isLoading || !formData.password || !confirmPassword}
+                  className="w-full bg-white text-black hover:bg-white/90 rounded-xl py-6 text-base font-medium disabled:opacity-50 disabled:bg-white/50"
+                >
+                  {isLoading ? 'Saving...' : 'Reset password'}
+                </Button>
+              </div>
+            </form>
+          )}
         </div>
 
         {/* Footer */}
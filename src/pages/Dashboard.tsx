@@ -1,12 +1,15 @@
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Rocket, Trophy, Plus, ArrowRight, TrendingUp, Users, Calendar, Loader2, MessageCircle } from 'lucide-react';
+import { Rocket, Trophy, Plus, ArrowRight, TrendingUp, Users, Calendar, Loader2, MessageCircle, CalendarDays, Flag } from 'lucide-react';
+import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Navbar } from '@/components/Navbar';
 import { useAuth } from '@/context/AuthContext';
 import { StartupCard } from '@/components/StartupCard';
 import { HackathonCard } from '@/components/HackathonCard';
-import { apiService } from '@/services/api';
+import { EmailVerificationBanner } from '@/components/EmailVerificationBanner';
+import { apiService, type MyTask } from '@/services/api';
+import { LABEL_COLOR_CLASSES, getPriorityOption, isOverdue } from '@/lib/tasks';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import { useState, useEffect } from 'react';
 
@@ -31,11 +34,12 @@ export function Dashboard() {
   const [applications, setApplications] = useState<any[]>([]);
   const [receivedApplications, setReceivedApplications] = useState<any[]>([]);
   const [screeningChats, setScreeningChats] = useState<any[]>([]);
+  const [myTasks, setMyTasks] = useState<MyTask[]>([]);
   const [stats, setStats] = useState({ users: 0, startups: 0, hackathons: 0, applications: 0 });
   const [loading, setLoading] = useState(true);
 
   // Connect to WebSocket for real-time stats updates
-  const { lastMessage } = useWebSocket(user?.id || null);
+  const { subscribe } = useWebSocket();
 
   useEffect(() => {
     loadDashboardData();
@@ -43,20 +47,21 @@ export function Dashboard() {
 
   // Listen for real-time stats updates
   useEffect(() => {
-    if (lastMessage?.type === 'stats_update') {
-      setStats(lastMessage.payload);
-    }
-  }, [lastMessage]);
+    return subscribe('stats_update', ({ payload }) => {
+      setStats(payload);
+    });
+  }, [subscribe]);
 
   const loadDashboardData = async () => {
     try {
       setLoading(true);
-      const [startupsRes, hackathonsRes, applicationsRes, receivedRes, chatsRes, statsRes] = await Promise.all([
+      const [startupsRes, hackathonsRes, applicationsRes, receivedRes, chatsRes, tasksRes, statsRes] = await Promise.all([
         apiService.getStartups({ limit: 3 }),
         apiService.getHackathons({ limit: 3 }),
         apiService.getMyApplications().catch(() => ({ applications: [] })), // Handle if user has no applications
         apiService.getReceivedApplications().catch(() => ({ applications: [] })), // Handle if user has no received applications
         apiService.getMyScreeningChats().catch(() => ({ screeningChats: [] })), // Handle if user has no chats
+        apiService.getMyTasks().catch(() => ({ tasks: [] })), // Handle if user has no Builder Spaces
         apiService.getStats().catch(() => ({ stats: { users: 0, startups: 0, hackathons: 0, applications: 0 } })),
       ]);
       
@@ -65,6 +70,7 @@ export function Dashboard() {
       setApplications(applicationsRes.applications);
       setReceivedApplications(receivedRes.applications);
       setScreeningChats(chatsRes.screeningChats);
+      setMyTasks(tasksRes.tasks);
       setStats(statsRes.stats);
     } catch (error) {
       console.error('Failed to load dashboard data:', error);
@@ -111,6 +117,8 @@ export function Dashboard() {
             </p>
           </motion.div>
 
+          <EmailVerificationBanner />
+
           {/* Stats Grid */}
           <motion.div
             variants={staggerContainer}
@@ -342,6 +350,54 @@ export function Dashboard() {
                 )}
               </motion.section>
 
+              {/* My Tasks, from every Builder Space the user is in */}
+              {myTasks.length > 0 && (
+                <motion.section
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.5, delay: 0.5 }}
+                  className="mb-12"
+                >
+                  <h2 className="text-xl font-semibold text-white mb-6">My Tasks</h2>
+                  <div className="space-y-3">
+                    {myTasks.map((task) => (
+                      <div
+                        key={task.id}
+                        onClick={() => navigate(`/workspaces/${task.spaceId}`)}
+                        className="bg-card border border-border rounded-xl p-4 flex items-center justify-between gap-4 cursor-pointer hover:bg-white/5 transition-colors"
+                      >
+                        <div className="min-w-0">
+                          <h3 className="font-medium text-white truncate">{task.title}</h3>
+                          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-sm text-white/50">
+                            <span>{task.spaceName}</span>
+                            {task.dueDate && (
+                              <span className={`flex items-center gap-1 ${isOverdue(task) ? 'text-red-400' : ''}`}>
+                                <CalendarDays className="w-3.5 h-3.5" />
+                                {isOverdue(task) ? 'Overdue, was due' : 'Due'} {format(new Date(task.dueDate), 'MMM d')}
+                              </span>
+                            )}
+                            {task.priority !== 'medium' && (
+                              <span className={`flex items-center gap-1 ${getPriorityOption(task.priority).className}`}>
+                                <Flag className="w-3.5 h-3.5" />
+                                {getPriorityOption(task.priority).label}
+                              </span>
+                            )}
+                            {task.labels.map((label) => (
+                              <span key={label.id} className={`px-2 py-0.5 rounded-full text-xs ${LABEL_COLOR_CLASSES[label.color].chip}`}>
+                                {label.name}
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                        <span className="shrink-0 px-3 py-1 rounded-full text-xs font-medium bg-white/10 text-white/70">
+                          {task.statusName}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </motion.section>
+              )}
+
               {/* My Applications */}
               {applications.length > 0 && (
                 <motion.section
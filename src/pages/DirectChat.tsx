@@ -0,0 +1,276 @@
+import { useEffect, useState, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Send, ArrowLeft, Loader2, MessageCircle } from 'lucide-react';
+import type { DirectMessagePayload } from '@shared/realtimeProtocol';
+import { Button } from '@/components/ui/button';
+import { Navbar } from '@/components/Navbar';
+import { useAuth } from '@/context/AuthContext';
+import { apiService, type DirectConversation } from '@/services/api';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { useChatPresence } from '@/hooks/useChatPresence';
+import { useReadReceipts } from '@/hooks/useReadReceipts';
+import { useChatScroll } from '@/hooks/useChatScroll';
+import { ChatTextarea } from '@/components/ChatTextarea';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import { formatDistanceToNow } from 'date-fns';
+
+type Message = Omit<DirectMessagePayload, 'createdAt' | 'updatedAt'> & {
+  // ISO string when loaded over HTTP, Date when pushed over the WebSocket
+  createdAt: string | Date;
+  updatedAt: string | Date;
+};
+
+export function DirectChat() {
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { subscribe, sendCommand } = useWebSocket();
+  const { viewerIds, typingUserIds, notifyTyping, stopTyping } = useChatPresence('direct', conversationId);
+  const [conversation, setConversation] = useState<DirectConversation | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [newMessage, setNewMessage] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  // Cursor of the oldest loaded message, for fetching the page before it
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const lastReadByUser = useReadReceipts('direct', conversationId, messages.at(-1)?.id);
+
+  const loadOlderMessages = useCallback(async () => {
+    if (!conversationId || !olderCursor) return 0;
+
+    const page = await apiService.getDirectMessages(conversationId, { before: olderCursor });
+    setMessages(prev => [...page.messages, ...prev]);
+    setOlderCursor(page.startCursor);
+    setHasOlder(page.hasMore);
+    return page.messages.length;
+  }, [conversationId, olderCursor]);
+
+  const { containerRef, onScroll, loadingOlder } = useChatScroll({
+    firstMessageId: messages[0]?.id,
+    lastMessageId: messages.at(-1)?.id,
+    hasOlder,
+    loadOlder: loadOlderMessages,
+  });
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const [conversationRes, messagesRes] = await Promise.all([
+          apiService.getDirectConversation(conversationId),
+          apiService.getDirectMessages(conversationId),
+        ]);
+        setConversation(conversationRes.conversation);
+        setMessages(messagesRes.messages);
+        setOlderCursor(messagesRes.startCursor);
+        setHasOlder(messagesRes.hasMore);
+      } catch (error) {
+        console.error('Failed to load conversation:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+    const unsubscribers = [
+      subscribe('direct_message', ({ payload }) => {
+        if (payload.conversationId === conversationId) {
+          setMessages(prev => prev.some(message => message.id === payload.id) ? prev : [...prev, payload]);
+        }
+      }),
+
+      // Too much was missed while disconnected to replay, so reload the conversation
+      subscribe('resync_required', () => {
+        load();
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [conversationId, subscribe]);
+
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newMessage.trim() || sending || !conversationId) return;
+
+    try {
+      setSending(true);
+      setError(null);
+      stopTyping();
+      const content = newMessage.trim();
+      const message = await sendCommand(
+        'send_direct_message',
+        { conversationId, content },
+        async (clientId) => (await apiService.sendDirectMessage(conversationId, content, clientId)).message
+      );
+      setMessages(prev => prev.some(existing => existing.id === message.id) ? prev : [...prev, message]);
+      setNewMessage('');
+    } catch (error) {
+      console.error('Failed to send message:', error);
+      setError(error instanceof Error ? error.message : 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black">
+        <Navbar />
+        <div className="flex items-center justify-center h-[calc(100vh-80px)]">
+          <Loader2 className="w-8 h-8 text-white/60 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!conversation) {
+    return (
+      <div className="min-h-screen bg-black">
+        <Navbar />
+        <div className="flex flex-col items-center justify-center h-[calc(100vh-80px)]">
+          <MessageCircle className="w-16 h-16 text-white/30 mb-4" />
+          <h2 className="text-xl font-semibold text-white mb-2">Conversation not found</h2>
+          <Button onClick={() => navigate('/messages')} variant="outline">
+            Back to Messages
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { otherUser } = conversation;
+  // "Seen" goes under the user's latest message once the other person has read up to it
+  const lastOwnMessageId = messages.filter(message => message.senderId === user?.id).at(-1)?.id;
+  const otherReadIndex = messages.findIndex(message => message.id === lastReadByUser[otherUser.id]);
+  const isLastOwnSeen = otherReadIndex !== -1 &&
+    otherReadIndex >= messages.findIndex(message => message.id === lastOwnMessageId);
+
+  return (
+    <div className="min-h-screen bg-black">
+      <Navbar />
+
+      <main className="pt-20 pb-4 h-screen flex flex-col">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 w-full flex-1 flex flex-col">
+          {/* Header */}
+          <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-card border border-border rounded-xl p-4 mb-4"
+          >
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate('/messages')}
+                className="text-white/60 hover:text-white"
+              >
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+              <div className="flex-1">
+                <h1 className="text-lg font-semibold text-white">{otherUser.name}</h1>
+                <p className="text-xs text-white/40 mt-1 flex items-center gap-1.5">
+                  {typingUserIds.includes(otherUser.id) ? (
+                    'Typing…'
+                  ) : viewerIds.includes(otherUser.id) ? (
+                    <>
+                      <span className="w-2 h-2 rounded-full bg-green-400" />
+                      In this chat
+                    </>
+                  ) : otherUser.lastSeenAt ? (
+                    `Last seen ${formatDistanceToNow(new Date(otherUser.lastSeenAt), { addSuffix: true })}`
+                  ) : null}
+                </p>
+              </div>
+            </div>
+          </motion.div>
+
+          {/* Messages */}
+          <div
+            ref={containerRef}
+            onScroll={onScroll}
+            className="flex-1 bg-card border border-border rounded-xl p-4 overflow-y-auto mb-4"
+          >
+            {messages.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-full text-center">
+                <MessageCircle className="w-12 h-12 text-white/30 mb-4" />
+                <h3 className="text-lg font-medium text-white mb-2">No messages yet</h3>
+                <p className="text-white/50">Say hi to {otherUser.name}!</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {loadingOlder && (
+                  <div className="flex justify-center">
+                    <Loader2 className="w-5 h-5 text-white/40 animate-spin" />
+                  </div>
+                )}
+                {messages.map((message) => {
+                  const isOwn = message.senderId === user?.id;
+                  return (
+                    <motion.div
+                      key={message.id}
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}
+                    >
+                      <div
+                        className={`max-w-[70%] rounded-2xl px-4 py-2 ${
+                          isOwn
+                            ? 'bg-white text-black'
+                            : 'bg-white/10 text-white'
+                        }`}
+                      >
+                        <MarkdownContent content={message.content} className="text-sm leading-relaxed" />
+                        <p className={`text-xs mt-1 ${isOwn ? 'text-black/50' : 'text-white/50'}`}>
+                          {new Date(message.createdAt).toLocaleTimeString([], {
+                            hour: '2-digit',
+                            minute: '2-digit',
+                          })}
+                          {message.id === lastOwnMessageId && isLastOwnSeen && ' · Seen'}
+                        </p>
+                      </div>
+                    </motion.div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Message Input */}
+          <form onSubmit={handleSendMessage} className="bg-card border border-border rounded-xl p-4">
+            {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+            <div className="flex items-end gap-2">
+              <ChatTextarea
+                value={newMessage}
+                onChange={(e) => {
+                  setNewMessage(e.target.value);
+                  notifyTyping();
+                }}
+                placeholder={`Message ${otherUser.name}...`}
+                className="flex-1 bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-white/20"
+                disabled={sending}
+              />
+              <Button
+                type="submit"
+                disabled={!newMessage.trim() || sending}
+                className="bg-white text-black hover:bg-white/90"
+              >
+                {sending ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Send className="w-4 h-4" />
+                )}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { MessageCircle, Loader2, ArrowRight } from 'lucide-react';
+import { MessageCircle, Loader2, ArrowRight, PenSquare, User } from 'lucide-react';
 import { Navbar } from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { useAuth } from '@/context/AuthContext';
-import { apiService } from '@/services/api';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { apiService, type DirectContact, type DirectConversation } from '@/services/api';
 
 interface ScreeningChat {
   id: string;
@@ -32,23 +36,110 @@ interface ScreeningChat {
     content: string;
     createdAt: string;
     senderId: string;
+    deletedAt?: string | null;
   };
   unreadCount?: number;
 }
 
+/**
+ * Picker for starting a direct conversation with anyone the user shares a team with
+ */
+function NewDirectMessageButton({ onSelect }: { onSelect: (contact: DirectContact) => void }) {
+  const [open, setOpen] = useState(false);
+  const [contacts, setContacts] = useState<DirectContact[] | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      apiService.getDirectContacts()
+        .then(response => setContacts(response.contacts))
+        .catch(error => console.error('Failed to load contacts:', error));
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <PenSquare className="w-4 h-4" />
+          New message
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-0">
+        <Command>
+          <CommandInput placeholder="Search teammates..." />
+          <CommandList>
+            {contacts === null ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-4 h-4 text-white/40 animate-spin" />
+              </div>
+            ) : (
+              <>
+                <CommandEmpty>No teammates to message yet</CommandEmpty>
+                {contacts.map(contact => (
+                  <CommandItem
+                    key={contact.id}
+                    value={`${contact.name} ${contact.id}`}
+                    onSelect={() => {
+                      setOpen(false);
+                      onSelect(contact);
+                    }}
+                  >
+                    <User className="w-4 h-4" />
+                    {contact.name}
+                  </CommandItem>
+                ))}
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 export function Messages() {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { subscribe } = useWebSocket();
   const [chats, setChats] = useState<ScreeningChat[]>([]);
+  const [conversations, setConversations] = useState<DirectConversation[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadChats();
+    loadConversations();
   }, []);
 
+  // Keep previews and unread counts current while the list is open
+  useEffect(() => {
+    const unsubscribers = [
+      subscribe('screening_message', () => {
+        loadChats();
+      }),
+      subscribe('screening_message_updated', () => {
+        loadChats();
+      }),
+      subscribe('direct_message', () => {
+        loadConversations();
+      }),
+      subscribe('read_receipt', ({ payload }) => {
+        if (payload.userId !== user?.id) return;
+        if (payload.chat === 'screening') {
+          loadChats();
+        } else if (payload.chat === 'direct') {
+          loadConversations();
+        }
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [subscribe, user?.id]);
+
   const loadChats = async () => {
     try {
-      setLoading(true);
       const response = await apiService.getMyScreeningChats();
       // Sort by most recent message
       const sortedChats = response.screeningChats.sort((a: ScreeningChat, b: ScreeningChat) => {
@@ -64,6 +155,24 @@ export function Messages() {
     }
   };
 
+  const loadConversations = async () => {
+    try {
+      const response = await apiService.getDirectConversations();
+      setConversations(response.conversations);
+    } catch (error) {
+      console.error('Failed to load direct messages:', error);
+    }
+  };
+
+  const openConversation = async (contact: DirectContact) => {
+    try {
+      const { conversation } = await apiService.openDirectConversation(contact.id);
+      navigate(`/messages/direct/${conversation.id}`);
+    } catch (error) {
+      console.error('Failed to open conversation:', error);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-black">
       <Navbar />
@@ -80,6 +189,61 @@ export function Messages() {
             <p className="text-white/60">Your screening chats and conversations</p>
           </motion.div>
 
+          {/* Direct messages */}
+          <section className="mb-10">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-white">Direct messages</h2>
+              <NewDirectMessageButton onSelect={openConversation} />
+            </div>
+
+            {loading ? null : conversations.length === 0 ? (
+              <p className="text-sm text-white/50">
+                Message anyone you share a team with. Start a conversation with New message.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {conversations.map((conversation, index) => {
+                  const hasUnread = !!conversation.unreadCount && conversation.unreadCount > 0;
+
+                  return (
+                    <motion.div
+                      key={conversation.id}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      onClick={() => navigate(`/messages/direct/${conversation.id}`)}
+                      className="bg-card border border-border rounded-xl p-4 flex items-center justify-between cursor-pointer hover:bg-white/5 transition-colors"
+                    >
+                      <div className="flex items-center gap-4 flex-1 min-w-0">
+                        <div className="w-12 h-12 bg-white/10 rounded-full flex items-center justify-center relative">
+                          <User className="w-6 h-6 text-white" />
+                          {hasUnread && (
+                            <div className="absolute -top-1 -right-1 w-5 h-5 bg-white text-black rounded-full flex items-center justify-center text-xs font-bold">
+                              {conversation.unreadCount}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <h3 className={`font-medium ${hasUnread ? 'text-white' : 'text-white/80'}`}>
+                            {conversation.otherUser.name}
+                          </h3>
+                          <p className={`text-sm truncate ${hasUnread ? 'text-white/70 font-medium' : 'text-white/50'}`}>
+                            {conversation.lastMessage
+                              ? `${conversation.lastMessage.senderId === user?.id ? 'You: ' : ''}${conversation.lastMessage.content}`
+                              : 'No messages yet'}
+                          </p>
+                        </div>
+                      </div>
+                      <ArrowRight className="w-5 h-5 text-white/40 flex-shrink-0" />
+                    </motion.div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+
+          <h2 className="text-lg font-semibold text-white mb-4">Screening chats</h2>
+
           {/* Chats List */}
           {loading ? (
             <div className="flex items-center justify-center py-20">
@@ -92,7 +256,7 @@ export function Messages() {
               className="text-center py-20"
             >
               <MessageCircle className="w-16 h-16 text-white/30 mx-auto mb-4" />
-              <h2 className="text-xl font-semibold text-white mb-2">No messages yet</h2>
+              <h2 className="text-xl font-semibold text-white mb-2">No screening chats yet</h2>
               <p className="text-white/50 mb-6">
                 When you accept applications, you'll be able to chat with applicants here.
               </p>
@@ -138,7 +302,7 @@ export function Messages() {
                         {chat.lastMessage && (
                           <p className={`text-sm truncate ${hasUnread ? 'text-white/70 font-medium' : 'text-white/50'}`}>
                             {chat.lastMessage.senderId === user?.id ? 'You: ' : ''}
-                            {chat.lastMessage.content}
+                            {chat.lastMessage.deletedAt ? 'Message deleted' : chat.lastMessage.content}
                           </p>
                         )}
                       </div>
@@ -4,6 +4,7 @@ import { User, MapPin, GraduationCap, Edit, Rocket, Trophy, FileText } from 'luc
 import { Button } from '@/components/ui/button';
 import { Navbar } from '@/components/Navbar';
 import { SkillBadge } from '@/components/SkillBadge';
+import { TwoFactorSettings } from '@/components/TwoFactorSettings';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/context/AuthContext';
@@ -379,6 +380,15 @@ export function Profile() {
             </Tabs>
           </motion.div>
 
+          {/* Security */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.15 }}
+          >
+            <TwoFactorSettings />
+          </motion.div>
+
           {/* Logout */}
           <motion.div
             initial={{ opacity: 0 }}
@@ -1,4 +1,4 @@
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useState, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Send, ArrowLeft, Loader2, MessageCircle } from 'lucide-react';
@@ -7,18 +7,24 @@ import { Navbar } from '@/components/Navbar';
 import { useAuth } from '@/context/AuthContext';
 import { apiService } from '@/services/api';
 import { useWebSocket } from '@/hooks/useWebSocket';
+import { useChatPresence } from '@/hooks/useChatPresence';
+import { useReadReceipts } from '@/hooks/useReadReceipts';
+import { useChatScroll } from '@/hooks/useChatScroll';
+import { ChatMessageContent } from '@/components/ChatMessageContent';
+import { ChatTextarea } from '@/components/ChatTextarea';
+import { formatDistanceToNow } from 'date-fns';
 
 interface Message {
   id: string;
-  chatId: string;
+  applicationId: string;
   senderId: string;
+  senderName: string;
   content: string;
-  createdAt: string;
-  sender?: {
-    id: string;
-    name: string;
-    avatar?: string;
-  };
+  // ISO string when loaded over HTTP, Date when pushed over the WebSocket
+  createdAt: string | Date;
+  editedAt?: string | Date | null;
+  deletedAt?: string | Date | null;
+  editableUntil?: string | Date;
 }
 
 interface ScreeningChat {
@@ -37,11 +43,13 @@ interface ScreeningChat {
     id: string;
     name: string;
     avatar?: string;
+    lastSeenAt?: string;
   };
   applicant?: {
     id: string;
     name: string;
     avatar?: string;
+    lastSeenAt?: string;
   };
 }
 
@@ -49,45 +57,36 @@ export function ScreeningChat() {
   const { chatId } = useParams<{ chatId: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { subscribe } = useWebSocket();
+  const { subscribe, sendCommand } = useWebSocket();
+  const { viewerIds, typingUserIds, notifyTyping, stopTyping } = useChatPresence('screening', chatId);
   const [chat, setChat] = useState<ScreeningChat | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Cursor of the oldest loaded message, for fetching the page before it
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [hasOlder, setHasOlder] = useState(false);
+  const lastReadByUser = useReadReceipts('screening', chatId, messages.at(-1)?.id);
 
-  useEffect(() => {
-    if (chatId) {
-      loadChatData();
-    }
-  }, [chatId]);
+  const loadOlderMessages = useCallback(async () => {
+    if (!chatId || !olderCursor) return 0;
 
-  // Subscribe to WebSocket messages for real-time updates
-  useEffect(() => {
-    if (!chatId) return;
-
-    const unsubscribe = subscribe((data: any) => {
-      // Handle screening messages for this chat
-      if (data.type === 'screening_message' && data.payload?.chatId === chatId) {
-        setMessages(prev => [...prev, data.payload]);
-      }
-    });
-
-    return () => {
-      unsubscribe();
-    };
-  }, [chatId, subscribe]);
+    const page = await apiService.getScreeningMessages(chatId, { before: olderCursor });
+    setMessages(prev => [...page.messages, ...prev]);
+    setOlderCursor(page.startCursor);
+    setHasOlder(page.hasMore);
+    return page.messages.length;
+  }, [chatId, olderCursor]);
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
-
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
+  const { containerRef, onScroll, loadingOlder } = useChatScroll({
+    firstMessageId: messages[0]?.id,
+    lastMessageId: messages.at(-1)?.id,
+    hasOlder,
+    loadOlder: loadOlderMessages,
+  });
 
-  const loadChatData = async () => {
+  const loadChatData = useCallback(async () => {
     try {
       setLoading(true);
       const [chatRes, messagesRes] = await Promise.all([
@@ -96,11 +95,53 @@ export function ScreeningChat() {
       ]);
       setChat(chatRes.screeningChat);
       setMessages(messagesRes.messages);
+      setOlderCursor(messagesRes.startCursor);
+      setHasOlder(messagesRes.hasMore);
     } catch (error) {
       console.error('Failed to load chat:', error);
     } finally {
       setLoading(false);
     }
+  }, [chatId]);
+
+  useEffect(() => {
+    if (chatId) {
+      loadChatData();
+    }
+  }, [chatId, loadChatData]);
+
+  // Subscribe to WebSocket messages for real-time updates
+  useEffect(() => {
+    if (!chatId) return;
+
+    const unsubscribers = [
+      // Handle screening messages for this chat (the chat id is the application id)
+      subscribe('screening_message', ({ payload }) => {
+        if (payload.applicationId === chatId) {
+          setMessages(prev => [...prev, payload]);
+        }
+      }),
+
+      // An edit or deletion, by the user on another device or by the other participant
+      subscribe('screening_message_updated', ({ payload }) => {
+        if (payload.applicationId === chatId) {
+          replaceMessage(payload);
+        }
+      }),
+
+      // Too much was missed while disconnected to replay, so reload the chat
+      subscribe('resync_required', () => {
+        loadChatData();
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [chatId, subscribe, loadChatData]);
+
+  const replaceMessage = (updated: Message) => {
+    setMessages(prev => prev.map(message => message.id === updated.id ? updated : message));
   };
 
   const handleSendMessage = async (e: React.FormEvent) => {
@@ -109,8 +150,14 @@ export function ScreeningChat() {
 
     try {
       setSending(true);
-      const response = await apiService.sendScreeningMessage(chatId!, newMessage.trim());
-      setMessages([...messages, response.message]);
+      stopTyping();
+      const content = newMessage.trim();
+      const message = await sendCommand(
+        'send_screening_message',
+        { applicationId: chatId!, content },
+        async (clientId) => (await apiService.sendScreeningMessage(chatId!, content, clientId)).message
+      );
+      setMessages(prev => [...prev, message]);
       setNewMessage('');
     } catch (error) {
       console.error('Failed to send message:', error);
@@ -146,6 +193,12 @@ export function ScreeningChat() {
   }
 
   const otherUser = user?.id === chat.founderId ? chat.applicant : chat.founder;
+  const otherUserId = user?.id === chat.founderId ? chat.applicantId : chat.founderId;
+  // "Seen" goes under the user's latest message once the other person has read up to it
+  const lastOwnMessageId = messages.filter(message => message.senderId === user?.id).at(-1)?.id;
+  const otherReadIndex = messages.findIndex(message => message.id === lastReadByUser[otherUserId]);
+  const isLastOwnSeen = otherReadIndex !== -1 &&
+    otherReadIndex >= messages.findIndex(message => message.id === lastOwnMessageId);
 
   return (
     <div className="min-h-screen bg-black">
@@ -175,12 +228,28 @@ export function ScreeningChat() {
                 <p className="text-sm text-white/50">
                   {chat.application?.post?.name || 'Screening Chat'}
                 </p>
+                <p className="text-xs text-white/40 mt-1 flex items-center gap-1.5">
+                  {typingUserIds.includes(otherUserId) ? (
+                    'Typing…'
+                  ) : viewerIds.includes(otherUserId) ? (
+                    <>
+                      <span className="w-2 h-2 rounded-full bg-green-400" />
+                      In this chat
+                    </>
+                  ) : otherUser?.lastSeenAt ? (
+                    `Last seen ${formatDistanceToNow(new Date(otherUser.lastSeenAt), { addSuffix: true })}`
+                  ) : null}
+                </p>
               </div>
             </div>
           </motion.div>
 
           {/* Messages */}
-          <div className="flex-1 bg-card border border-border rounded-xl p-4 overflow-y-auto mb-4">
+          <div
+            ref={containerRef}
+            onScroll={onScroll}
+            className="flex-1 bg-card border border-border rounded-xl p-4 overflow-y-auto mb-4"
+          >
             {messages.length === 0 ? (
               <div className="flex flex-col items-center justify-center h-full text-center">
                 <MessageCircle className="w-12 h-12 text-white/30 mb-4" />
@@ -189,6 +258,11 @@ export function ScreeningChat() {
               </div>
             ) : (
               <div className="space-y-4">
+                {loadingOlder && (
+                  <div className="flex justify-center">
+                    <Loader2 className="w-5 h-5 text-white/40 animate-spin" />
+                  </div>
+                )}
                 {messages.map((message) => {
                   const isOwn = message.senderId === user?.id;
                   return (
@@ -205,29 +279,41 @@ export function ScreeningChat() {
                             : 'bg-white/10 text-white'
                         }`}
                       >
-                        <p className="text-sm leading-relaxed">{message.content}</p>
+                        <ChatMessageContent
+                          message={message}
+                          isOwn={isOwn}
+                          onEdit={async (content) => {
+                            replaceMessage((await apiService.editScreeningMessage(chatId!, message.id, content)).message);
+                          }}
+                          onDelete={async () => {
+                            replaceMessage((await apiService.deleteScreeningMessage(chatId!, message.id)).message);
+                          }}
+                        />
                         <p className={`text-xs mt-1 ${isOwn ? 'text-black/50' : 'text-white/50'}`}>
                           {new Date(message.createdAt).toLocaleTimeString([], {
                             hour: '2-digit',
                             minute: '2-digit',
                           })}
+                          {message.editedAt && !message.deletedAt && ' · edited'}
+                          {message.id === lastOwnMessageId && isLastOwnSeen && ' · Seen'}
                         </p>
                       </div>
                     </motion.div>
                   );
                 })}
-                <div ref={messagesEndRef} />
               </div>
             )}
           </div>
 
           {/* Message Input */}
           <form onSubmit={handleSendMessage} className="bg-card border border-border rounded-xl p-4">
-            <div className="flex gap-2">
-              <input
-                type="text"
+            <div className="flex items-end gap-2">
+              <ChatTextarea
                 value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
+                onChange={(e) => {
+                  setNewMessage(e.target.value);
+                  notifyTyping();
+                }}
                 placeholder="Type a message..."
                 className="flex-1 bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-white/20"
                 disabled={sending}
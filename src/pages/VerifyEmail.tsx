@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/context/AuthContext';
+import { apiService } from '@/services/api';
+
+export function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const { isAuthenticated, refreshUser } = useAuth();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<'verifying' | 'success' | 'error'>(token ? 'verifying' : 'error');
+  const [errorMessage, setErrorMessage] = useState(token ? '' : 'This verification link is missing its token.');
+  // Verification links are single-use, so never submit the token twice
+  const submittedRef = useRef(false);
+
+  useEffect(() => {
+    if (!token || submittedRef.current) return;
+    submittedRef.current = true;
+
+    apiService
+      .verifyEmail(token)
+      .then(async () => {
+        setStatus('success');
+        if (isAuthenticated) {
+          await refreshUser();
+        }
+      })
+      .catch((error: Error) => {
+        setStatus('error');
+        setErrorMessage(error.message || 'Verification failed');
+      });
+  }, [token, isAuthenticated, refreshUser]);
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, ease: [0.4, 0, 0.2, 1] }}
+        className="w-full max-w-md"
+      >
+        <div className="flex justify-center mb-8">
+          <Link to="/" className="flex items-center gap-2">
+            <img src="/logo.svg" alt="CodeJam" className="w-10 h-10" />
+            <span className="text-xl font-semibold text-white">CodeJam</span>
+          </Link>
+        </div>
+
+        <div className="bg-card border border-border rounded-2xl p-8 text-center">
+          {status === 'verifying' && (
+            <>
+              <Loader2 className="w-10 h-10 text-white/60 animate-spin mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-white mb-2">Verifying your email</h1>
+              <p className="text-white/60">Just a moment...</p>
+            </>
+          )}
+
+          {status === 'success' && (
+            <>
+              <CheckCircle2 className="w-10 h-10 text-green-400 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-white mb-2">Email verified</h1>
+              <p className="text-white/60 mb-6">
+                You can now post startups and hackathons and apply to teams.
+              </p>
+              <Button asChild className="w-full bg-white text-black hover:bg-white/90 rounded-xl py-6">
+                <Link to={isAuthenticated ? '/dashboard' : '/auth'}>
+                  {isAuthenticated ? 'Go to dashboard' : 'Sign in'}
+                </Link>
+              </Button>
+            </>
+          )}
+
+          {status === 'error' && (
+            <>
+              <AlertCircle className="w-10 h-10 text-red-400 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-white mb-2">Verification failed</h1>
+              <p className="text-white/60 mb-6">{errorMessage}</p>
+              <Button asChild variant="outline" className="w-full rounded-xl py-6">
+                <Link to={isAuthenticated ? '/dashboard' : '/auth'}>
+                  {isAuthenticated ? 'Back to dashboard' : 'Back to sign in'}
+                </Link>
+              </Button>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,26 +1,87 @@
-import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Users, MessageCircle, Link as LinkIcon, CheckSquare, Send, Plus, Loader2, ArrowLeft, UserPlus } from 'lucide-react';
+import { Users, MessageCircle, Link as LinkIcon, CheckSquare, Milestone, Send, Plus, Loader2, ArrowLeft, UserPlus, Columns3 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Navbar } from '@/components/Navbar';
 import { useAuth } from '@/context/AuthContext';
-import { apiService } from '@/services/api';
+import { DEFAULT_TASK_WORKFLOW, type LabelColor, type TaskDependencyGraphPayload, type TaskStatus, type TaskWorkflowColumn } from '@shared/realtimeProtocol';
+import { getBlockedTaskIds } from '@shared/taskDependencies';
+import {
+  apiService,
+  type WorkspaceChannel,
+  type WorkspaceLabel,
+  type WorkspaceMilestone,
+  type WorkspaceTask,
+} from '@/services/api';
 import { useWebSocket } from '@/hooks/useWebSocket';
+import { useChatPresence } from '@/hooks/useChatPresence';
+import { useReadReceipts } from '@/hooks/useReadReceipts';
+import { useChatScroll } from '@/hooks/useChatScroll';
+import { ChatMessageContent } from '@/components/ChatMessageContent';
+import { MessageReactions } from '@/components/MessageReactions';
+import { ThreadPanel } from '@/components/ThreadPanel';
+import { MentionInput } from '@/components/MentionInput';
+import { ChannelList } from '@/components/ChannelList';
+import { TaskBoard } from '@/components/TaskBoard';
+import { TaskDialog, type TaskFormValues } from '@/components/TaskDialog';
+import { TaskDrawer } from '@/components/TaskDrawer';
+import { TaskWorkflowDialog } from '@/components/TaskWorkflowDialog';
+import { MilestonePanel } from '@/components/MilestonePanel';
+import { TASK_PRIORITY_OPTIONS, placeTask, toDueDate, upsertLabel, upsertMilestone, upsertTask } from '@/lib/tasks';
+import { formatDistanceToNow } from 'date-fns';
 
 export function WorkspaceDetail() {
   const { workspaceId } = useParams<{ workspaceId: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useAuth();
-  const { subscribe } = useWebSocket();
+  const { subscribe, sendCommand } = useWebSocket();
+  const { viewerIds, typingUserIds, notifyTyping, stopTyping } = useChatPresence('group', workspaceId);
   const [workspace, setWorkspace] = useState<any>(null);
-  const [activeTab, setActiveTab] = useState<'chat' | 'links' | 'tasks' | 'members'>('chat');
+  const [activeTab, setActiveTab] = useState<'chat' | 'links' | 'tasks' | 'milestones' | 'members'>('chat');
   const [loading, setLoading] = useState(true);
   
   // Chat state
+  const [channels, setChannels] = useState<WorkspaceChannel[]>([]);
+  const [activeChannelId, setActiveChannelId] = useState<string | null>(null);
+  // Read by the WebSocket handlers, which are set up once per workspace
+  const activeChannelRef = useRef<string | null>(null);
+  const [unreadChannelIds, setUnreadChannelIds] = useState<Set<string>>(new Set());
   const [messages, setMessages] = useState<any[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [sending, setSending] = useState(false);
+  // Cursor of the oldest loaded message, for fetching the page before it
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [hasOlder, setHasOlder] = useState(false);
+  // Message whose thread is open in the side panel
+  const [threadId, setThreadId] = useState<string | null>(null);
+  // Only the chat tab shows messages, so only it marks them read and scrolls with them
+  const isChatOpen = activeTab === 'chat';
+  const lastReadByUser = useReadReceipts(
+    'group',
+    activeChannelId ?? undefined,
+    isChatOpen ? messages.at(-1)?.id : undefined,
+    workspaceId
+  );
+
+  const loadOlderMessages = useCallback(async () => {
+    if (!workspaceId || !olderCursor) return 0;
+
+    const page = await apiService.getWorkspaceMessages(workspaceId, { before: olderCursor }, activeChannelId ?? undefined);
+    setMessages(prev => [...page.messages, ...prev]);
+    setOlderCursor(page.startCursor);
+    setHasOlder(page.hasMore);
+    return page.messages.length;
+  }, [workspaceId, olderCursor, activeChannelId]);
+
+  const { containerRef, onScroll, loadingOlder } = useChatScroll({
+    firstMessageId: messages[0]?.id,
+    lastMessageId: isChatOpen ? messages.at(-1)?.id : undefined,
+    hasOlder: isChatOpen && hasOlder,
+    loadOlder: loadOlderMessages,
+  });
   
   // Links state
   const [links, setLinks] = useState<any[]>([]);
@@ -28,9 +89,37 @@ export function WorkspaceDetail() {
   const [newLink, setNewLink] = useState({ title: '', url: '' });
   
   // Tasks state
-  const [tasks, setTasks] = useState<any[]>([]);
-  const [showAddTask, setShowAddTask] = useState(false);
-  const [newTask, setNewTask] = useState({ title: '', description: '' });
+  const [tasks, setTasks] = useState<WorkspaceTask[]>([]);
+  // The board's columns, left to right
+  const [taskColumns, setTaskColumns] = useState<TaskWorkflowColumn[]>([...DEFAULT_TASK_WORKFLOW]);
+  const [showWorkflow, setShowWorkflow] = useState(false);
+  const [labels, setLabels] = useState<WorkspaceLabel[]>([]);
+  const [milestones, setMilestones] = useState<WorkspaceMilestone[]>([]);
+  // The task being edited, or the column a new one goes in
+  const [taskDialog, setTaskDialog] = useState<{ task?: WorkspaceTask; status: TaskStatus } | null>(null);
+  // The task open in the drawer, kept as an ID so it shows the board's latest copy
+  const [openTaskId, setOpenTaskId] = useState<string | null>(null);
+  const openTask = tasks.find(t => t.id === openTaskId) ?? null;
+  // Every blocked-by edge of the space; the board may only show some of the tasks on them
+  const [dependencies, setDependencies] = useState<TaskDependencyGraphPayload>({ tasks: [], edges: [] });
+  const dependenciesRef = useRef(dependencies);
+  const blockedTaskIds = useMemo(() => getBlockedTaskIds({
+    ...dependencies,
+    // The board's copy of a task is the latest, e.g. while a move is on its way to the server
+    tasks: dependencies.tasks.map(node => {
+      const task = tasks.find(t => t.id === node.id);
+      return task ? { ...node, status: task.status } : node;
+    }),
+  }), [dependencies, tasks]);
+  const [taskFilter, setTaskFilter] = useState({ mine: false, overdue: false, label: '', priority: '' });
+  // The filter the board shows, in the list endpoint's syntax, e.g. "mine label:backend"
+  const taskFilterQuery = [
+    taskFilter.mine && 'mine',
+    taskFilter.overdue && 'overdue',
+    taskFilter.label && `label:${taskFilter.label}`,
+    taskFilter.priority && `priority:${taskFilter.priority}`,
+  ].filter(Boolean).join(' ');
+  const taskFilterRef = useRef(taskFilterQuery);
 
   // Invite state
   const [showInvite, setShowInvite] = useState(false);
@@ -41,72 +130,42 @@ export function WorkspaceDetail() {
   const [members, setMembers] = useState<any[]>([]);
   const [isFounder, setIsFounder] = useState(false);
 
-  useEffect(() => {
-    if (workspaceId) {
-      loadWorkspaceData();
-    }
-  }, [workspaceId]);
-
-  // Subscribe to WebSocket messages for real-time updates
-  useEffect(() => {
-    if (!workspaceId) return;
-
-    console.log('[WorkspaceDetail] Setting up WebSocket subscription for workspace:', workspaceId);
-
-    const unsubscribe = subscribe((data: any) => {
-      console.log('[WorkspaceDetail] Received WebSocket message:', data);
-      
-      // Handle group messages for this workspace
-      if (data.type === 'group_message' && data.payload?.spaceId === workspaceId) {
-        console.log('[WorkspaceDetail] Adding new message to chat');
-        setMessages(prev => [...prev, data.payload]);
-      }
-      
-      // Handle task updates
-      if (data.type === 'task_updated' && data.payload?.spaceId === workspaceId) {
-        console.log('[WorkspaceDetail] Updating task:', data.payload);
-        setTasks(prev => prev.map(t => 
-          t.id === data.payload.id ? data.payload : t
-        ));
-      }
-      
-      // Handle task creation
-      if (data.type === 'task_created' && data.payload?.spaceId === workspaceId) {
-        console.log('[WorkspaceDetail] Adding new task');
-        setTasks(prev => [...prev, data.payload]);
-      }
-      
-      // Handle link addition
-      if (data.type === 'link_added' && data.payload?.spaceId === workspaceId) {
-        console.log('[WorkspaceDetail] Adding new link');
-        setLinks(prev => [...prev, data.payload]);
-      }
-    });
-
-    return () => {
-      console.log('[WorkspaceDetail] Cleaning up WebSocket subscription');
-      unsubscribe();
-    };
-  }, [workspaceId, subscribe]);
-
-  const loadWorkspaceData = async () => {
+  const loadWorkspaceData = useCallback(async () => {
     try {
       setLoading(true);
       console.log('[WorkspaceDetail] Loading workspace data for ID:', workspaceId);
       
-      const [workspaceRes, messagesRes, linksRes, tasksRes, membersRes] = await Promise.all([
+      const [workspaceRes, channelsRes, messagesRes, linksRes, tasksRes, workflowRes, labelsRes, milestonesRes, dependenciesRes, membersRes] = await Promise.all([
         apiService.getWorkspace(workspaceId!),
+        apiService.getWorkspaceChannels(workspaceId!),
         apiService.getWorkspaceMessages(workspaceId!),
         apiService.getWorkspaceLinks(workspaceId!),
-        apiService.getWorkspaceTasks(workspaceId!),
+        apiService.getWorkspaceTasks(workspaceId!, { filter: taskFilterRef.current }),
+        apiService.getWorkspaceTaskWorkflow(workspaceId!),
+        apiService.getWorkspaceLabels(workspaceId!),
+        apiService.getWorkspaceMilestones(workspaceId!),
+        apiService.getTaskDependencies(workspaceId!),
         apiService.getWorkspaceMembers(workspaceId!),
       ]);
       
       console.log('[WorkspaceDetail] Workspace data loaded:', workspaceRes);
       setWorkspace(workspaceRes.space);
+      // The chat opens on #general, which is what the messages request returns without a channelId
+      const defaultChannel = channelsRes.channels.find(c => c.isDefault);
+      setChannels(channelsRes.channels);
+      setActiveChannelId(defaultChannel?.id ?? null);
+      activeChannelRef.current = defaultChannel?.id ?? null;
+      setUnreadChannelIds(new Set());
       setMessages(messagesRes.messages || []);
+      setOlderCursor(messagesRes.startCursor);
+      setHasOlder(messagesRes.hasMore);
       setLinks(linksRes.links || []);
       setTasks(tasksRes.tasks || []);
+      setTaskColumns(workflowRes.workflow.columns);
+      setLabels(labelsRes.labels || []);
+      setMilestones(milestonesRes.milestones || []);
+      setDependencies(dependenciesRes.dependencies);
+      dependenciesRef.current = dependenciesRes.dependencies;
       setMembers(membersRes.members || []);
       setIsFounder(membersRes.isFounder || false);
     } catch (error: any) {
@@ -117,16 +176,254 @@ export function WorkspaceDetail() {
     } finally {
       setLoading(false);
     }
+  }, [workspaceId]);
+
+  // Only the tasks matching the board's filter
+  const loadTasks = useCallback(async () => {
+    try {
+      const response = await apiService.getWorkspaceTasks(workspaceId!, { filter: taskFilterRef.current });
+      setTasks(response.tasks || []);
+    } catch (error) {
+      console.error('Failed to load tasks:', error);
+    }
+  }, [workspaceId]);
+
+  const loadDependencies = useCallback(async () => {
+    try {
+      const { dependencies } = await apiService.getTaskDependencies(workspaceId!);
+      setDependencies(dependencies);
+      dependenciesRef.current = dependencies;
+    } catch (error) {
+      console.error('Failed to load task dependencies:', error);
+    }
+  }, [workspaceId]);
+
+  // Only a task with blockers, or one that was on an edge, can change the graph
+  const refreshDependencies = useCallback((task: WorkspaceTask) => {
+    if (task.blockedByIds.length > 0 || dependenciesRef.current.tasks.some(node => node.id === task.id)) {
+      loadDependencies();
+    }
+  }, [loadDependencies]);
+
+  useEffect(() => {
+    if (workspaceId) {
+      loadWorkspaceData();
+    }
+  }, [workspaceId, loadWorkspaceData]);
+
+  // loadTasks reads the filter from taskFilterRef, so the ref is brought up to date first
+  useEffect(() => {
+    if (taskFilterRef.current === taskFilterQuery) return;
+    taskFilterRef.current = taskFilterQuery;
+    loadTasks();
+  }, [taskFilterQuery, loadTasks]);
+
+  // Subscribe to WebSocket messages for real-time updates
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    console.log('[WorkspaceDetail] Setting up WebSocket subscription for workspace:', workspaceId);
+
+    const unsubscribers = [
+      // Handle group messages for this workspace
+      subscribe('group_message', ({ payload }) => {
+        if (payload.spaceId !== workspaceId) return;
+        if (payload.channelId && payload.channelId !== activeChannelRef.current) {
+          setUnreadChannelIds(prev => new Set(prev).add(payload.channelId!));
+          return;
+        }
+        console.log('[WorkspaceDetail] Adding new message to chat');
+        setMessages(prev => [...prev, payload]);
+      }),
+
+      // Channels created, renamed or archived by a teammate
+      subscribe('channel_updated', ({ payload }) => {
+        if (payload.spaceId !== workspaceId) return;
+        setChannels(prev => prev.some(c => c.id === payload.id)
+          ? prev.map(c => c.id === payload.id ? payload : c)
+          : [...prev, payload]);
+      }),
+
+      // Handle edited and deleted messages
+      subscribe('group_message_updated', ({ payload }) => {
+        if (payload.spaceId !== workspaceId) return;
+        replaceMessage(payload);
+      }),
+
+      // A reply in a thread only changes the thread's reply count here
+      subscribe('group_message_reply', ({ payload }) => {
+        if (payload.reply.spaceId !== workspaceId) return;
+        setMessages(prev => prev.map(m =>
+          m.id === payload.reply.parentMessageId
+            ? { ...m, replyCount: payload.replyCount, lastReplyAt: payload.lastReplyAt }
+            : m
+        ));
+      }),
+
+      subscribe('group_message_reaction', ({ payload }) => {
+        if (payload.spaceId !== workspaceId) return;
+        setMessages(prev => prev.map(m => m.id === payload.messageId ? { ...m, reactions: payload.reactions } : m));
+      }),
+
+      // Tasks added, changed or deleted by a teammate; a filtered board asks the server what still matches
+      subscribe('task_updated', ({ payload }) => {
+        if (payload.spaceId !== workspaceId) return;
+        refreshDependencies(payload);
+        if (taskFilterRef.current) {
+          loadTasks();
+        } else {
+          setTasks(prev => prev.map(t => t.id === payload.id ? payload : t));
+        }
+      }),
+      subscribe('task_created', ({ payload }) => {
+        if (payload.spaceId !== workspaceId) return;
+        if (taskFilterRef.current) {
+          loadTasks();
+        } else {
+          setTasks(prev => upsertTask(prev, payload));
+        }
+      }),
+      subscribe('task_deleted', ({ payload }) => {
+        if (payload.spaceId !== workspaceId) return;
+        // Tasks it was blocking are no longer waiting on it
+        setTasks(prev => prev
+          .filter(t => t.id !== payload.id)
+          .map(t => ({ ...t, blockedByIds: t.blockedByIds.filter(id => id !== payload.id) })));
+        if (dependenciesRef.current.tasks.some(node => node.id === payload.id)) {
+          loadDependencies();
+        }
+      }),
+      subscribe('task_label_updated', ({ payload }) => {
+        if (payload.spaceId !== workspaceId) return;
+        setLabels(prev => upsertLabel(prev, payload));
+      }),
+      subscribe('task_label_deleted', ({ payload }) => {
+        if (payload.spaceId !== workspaceId) return;
+        setLabels(prev => prev.filter(l => l.id !== payload.id));
+        setTasks(prev => prev.map(t => ({ ...t, labelIds: t.labelIds.filter(id => id !== payload.id) })));
+      }),
+      subscribe('task_workflow_updated', ({ payload }) => {
+        if (payload.spaceId !== workspaceId) return;
+        setTaskColumns(payload.columns);
+      }),
+      subscribe('milestone_updated', ({ payload }) => {
+        if (payload.spaceId !== workspaceId) return;
+        setMilestones(prev => upsertMilestone(prev, payload));
+      }),
+      subscribe('milestone_deleted', ({ payload }) => {
+        if (payload.spaceId !== workspaceId) return;
+        removeMilestone(payload.id);
+      }),
+
+      // Handle link addition
+      subscribe('link_added', ({ payload }) => {
+        if (payload.spaceId !== workspaceId) return;
+        console.log('[WorkspaceDetail] Adding new link');
+        setLinks(prev => [...prev, payload]);
+      }),
+
+      // Keep the member list's online status current
+      subscribe('user_online', ({ payload }) => {
+        setMembers(prev => prev.map(m => m.userId === payload.userId ? { ...m, isOnline: true } : m));
+      }),
+      subscribe('user_offline', ({ payload, timestamp }) => {
+        setMembers(prev => prev.map(m =>
+          m.userId === payload.userId ? { ...m, isOnline: false, lastSeenAt: timestamp } : m
+        ));
+      }),
+
+      // Too much was missed while disconnected to replay, so reload everything
+      subscribe('resync_required', () => {
+        console.log('[WorkspaceDetail] Missed too many updates, reloading workspace');
+        loadWorkspaceData();
+      }),
+    ];
+
+    return () => {
+      console.log('[WorkspaceDetail] Cleaning up WebSocket subscription');
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [workspaceId, subscribe, loadWorkspaceData, loadTasks, loadDependencies, refreshDependencies]);
+
+  const replaceMessage = (updated: { id: string }) => {
+    setMessages(prev => prev.map(m => m.id === updated.id ? updated : m));
+  };
+
+  const handleTaskChanged = (task: WorkspaceTask) => {
+    setTasks(prev => prev.map(t => t.id === task.id ? task : t));
+    refreshDependencies(task);
+  };
+
+  const selectChannel = async (channelId: string) => {
+    if (channelId === activeChannelId) return;
+
+    setActiveChannelId(channelId);
+    activeChannelRef.current = channelId;
+    setUnreadChannelIds(prev => {
+      const next = new Set(prev);
+      next.delete(channelId);
+      return next;
+    });
+    setMessages([]);
+
+    try {
+      const page = await apiService.getWorkspaceMessages(workspaceId!, undefined, channelId);
+      // The user may have switched again while this loaded
+      if (activeChannelRef.current !== channelId) return;
+      setMessages(page.messages);
+      setOlderCursor(page.startCursor);
+      setHasOlder(page.hasMore);
+    } catch (error) {
+      console.error('Failed to load channel:', error);
+    }
   };
 
+  const upsertChannel = (channel: WorkspaceChannel) => {
+    setChannels(prev => prev.some(c => c.id === channel.id)
+      ? prev.map(c => c.id === channel.id ? channel : c)
+      : [...prev, channel]);
+  };
+
+  const activeChannel = channels.find(c => c.id === activeChannelId);
+  const canManageChannels = isFounder || !!workspace?.membersCanManageChannels;
+
+  // Notification links open a thread with ?thread=
+  const linkedThreadId = searchParams.get('thread');
+  useEffect(() => {
+    if (linkedThreadId) setThreadId(linkedThreadId);
+  }, [linkedThreadId]);
+
+  const mentionableMembers = useMemo(
+    () => members.filter(m => m.userId !== user?.id).map(m => ({ userId: m.userId, name: m.userName })),
+    [members, user?.id]
+  );
+
+  const typingNames = typingUserIds
+    .filter(id => id !== user?.id)
+    .map(id => members.find(m => m.userId === id)?.userName || 'Someone');
+
+  // Teammates who have read up to the user's latest message
+  const lastOwnIndex = messages.map(m => m.senderId).lastIndexOf(user?.id);
+  const seenByNames = lastOwnIndex === -1 ? [] : members
+    .filter(m => m.userId !== user?.id)
+    .filter(m => messages.findIndex(message => message.id === lastReadByUser[m.userId]) >= lastOwnIndex)
+    .map(m => m.userName);
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newMessage.trim() || sending) return;
 
     try {
       setSending(true);
-      const response = await apiService.sendWorkspaceMessage(workspaceId!, newMessage.trim());
-      setMessages([...messages, response.data]);
+      stopTyping();
+      const content = newMessage.trim();
+      const channelId = activeChannelId ?? undefined;
+      const message = await sendCommand(
+        'send_group_message',
+        { spaceId: workspaceId!, content, channelId },
+        async (clientId) => (await apiService.sendWorkspaceMessage(workspaceId!, content, clientId, undefined, channelId)).data
+      );
+      setMessages(prev => [...prev, message]);
       setNewMessage('');
     } catch (error) {
       console.error('Failed to send message:', error);
@@ -149,30 +446,110 @@ export function WorkspaceDetail() {
     }
   };
 
-  const handleAddTask = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newTask.title.trim()) return;
+  // Errors are shown in the dialog, which stays open
+  const handleSaveTask = async (values: TaskFormValues) => {
+    const details = {
+      title: values.title,
+      assigneeIds: values.assigneeIds,
+      dueDate: values.dueDate ? toDueDate(values.dueDate) : null,
+      priority: values.priority,
+      labelIds: values.labelIds,
+      milestoneId: values.milestoneId || null,
+    };
+
+    const { task } = taskDialog?.task
+      ? await apiService.updateWorkspaceTask(workspaceId!, taskDialog.task.id, {
+        ...details,
+        description: values.description || null,
+      })
+      : await apiService.createWorkspaceTask(workspaceId!, {
+        ...details,
+        description: values.description || undefined,
+        status: values.status,
+      });
+
+    if (taskFilterRef.current) {
+      loadTasks();
+    } else {
+      setTasks(prev => upsertTask(prev, task));
+    }
+    setTaskDialog(null);
+  };
+
+  const openAddTask = (status: TaskStatus) => {
+    setTaskDialog({ status });
+  };
+
+  const openEditTask = (task: WorkspaceTask) => {
+    setOpenTaskId(null);
+    setTaskDialog({ task, status: task.status });
+  };
+
+  const handleSaveWorkflow = async (columns: TaskWorkflowColumn[]) => {
+    const { workflow } = await apiService.updateWorkspaceTaskWorkflow(workspaceId!, columns);
+    setTaskColumns(workflow.columns);
+    setShowWorkflow(false);
+  };
+
+  const handleCreateLabel = async (name: string, color: LabelColor) => {
+    const { label } = await apiService.createWorkspaceLabel(workspaceId!, { name, color });
+    setLabels(prev => upsertLabel(prev, label));
+    return label;
+  };
+
+  const handleDeleteLabel = async (label: WorkspaceLabel) => {
+    if (!confirm(`Delete the label "${label.name}"? It will be taken off every task.`)) return;
+
+    try {
+      await apiService.deleteWorkspaceLabel(workspaceId!, label.id);
+      setLabels(prev => prev.filter(l => l.id !== label.id));
+      setTasks(prev => prev.map(t => ({ ...t, labelIds: t.labelIds.filter(id => id !== label.id) })));
+      if (taskFilter.label === label.name) {
+        setTaskFilter(prev => ({ ...prev, label: '' }));
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete label');
+    }
+  };
+
+  // Its tasks stay on the board without a milestone
+  const removeMilestone = (milestoneId: string) => {
+    setMilestones(prev => prev.filter(m => m.id !== milestoneId));
+    setTasks(prev => prev.map(t => t.milestoneId === milestoneId ? { ...t, milestoneId: null } : t));
+  };
+
+  const handleMoveTask = async (taskId: string, status: TaskStatus, index?: number) => {
+    // The card moves right away; the server's answer then settles its position
+    const previousTasks = tasks;
+    setTasks(prev => placeTask(prev, taskId, status, index));
 
     try {
-      const response = await apiService.createWorkspaceTask(workspaceId!, newTask);
-      setTasks([...tasks, response.task]);
-      setNewTask({ title: '', description: '' });
-      setShowAddTask(false);
+      const task = await sendCommand(
+        'move_task',
+        { spaceId: workspaceId!, taskId, status, index },
+        async () => (await apiService.moveWorkspaceTask(workspaceId!, taskId, { status, index })).task
+      );
+      handleTaskChanged(task);
     } catch (error) {
-      console.error('Failed to create task:', error);
+      console.error('Failed to move task:', error);
+      setTasks(previousTasks);
+      alert(error instanceof Error ? error.message : 'Failed to move task');
     }
   };
 
-  const handleToggleTask = async (taskId: string, completed: boolean) => {
+  const handleDeleteTask = async (taskId: string) => {
+    if (!confirm('Delete this task?')) return;
+
     try {
-      console.log('[WorkspaceDetail] Toggling task:', taskId, 'from', completed, 'to', !completed);
-      const response = await apiService.updateWorkspaceTask(workspaceId!, taskId, { completed: !completed });
-      console.log('[WorkspaceDetail] Task update response:', response);
-      // Update the task in the list with the response data
-      setTasks(tasks.map(t => t.id === taskId ? response.task : t));
-      console.log('[WorkspaceDetail] Updated tasks state');
+      await apiService.deleteWorkspaceTask(workspaceId!, taskId);
+      setTasks(prev => prev
+        .filter(t => t.id !== taskId)
+        .map(t => ({ ...t, blockedByIds: t.blockedByIds.filter(id => id !== taskId) })));
+      if (dependenciesRef.current.tasks.some(node => node.id === taskId)) {
+        loadDependencies();
+      }
     } catch (error) {
-      console.error('Failed to update task:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete task');
     }
   };
 
@@ -331,6 +708,17 @@ export function WorkspaceDetail() {
               <CheckSquare className="w-4 h-4" />
               Tasks
             </button>
+            <button
+              onClick={() => setActiveTab('milestones')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                activeTab === 'milestones'
+                  ? 'bg-white text-black'
+                  : 'bg-white/10 text-white/70 hover:bg-white/20'
+              }`}
+            >
+              <Milestone className="w-4 h-4" />
+              Milestones
+            </button>
             <button
               onClick={() => setActiveTab('members')}
               className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
@@ -344,8 +732,39 @@ export function WorkspaceDetail() {
             </button>
           </div>
 
+          {activeTab === 'chat' && channels.length > 0 && (
+            <ChannelList
+              channels={channels}
+              activeChannelId={activeChannelId}
+              unreadChannelIds={unreadChannelIds}
+              canManage={canManageChannels}
+              isFounder={isFounder}
+              membersCanManageChannels={!!workspace?.membersCanManageChannels}
+              onSelect={selectChannel}
+              onCreate={async (name) => {
+                const { channel } = await apiService.createWorkspaceChannel(workspaceId!, name);
+                upsertChannel(channel);
+                selectChannel(channel.id);
+              }}
+              onRename={async (channelId, name) => {
+                upsertChannel((await apiService.renameWorkspaceChannel(workspaceId!, channelId, name)).channel);
+              }}
+              onSetArchived={async (channelId, archived) => {
+                upsertChannel((await apiService.setWorkspaceChannelArchived(workspaceId!, channelId, archived)).channel);
+              }}
+              onSetMembersCanManage={async (allowed) => {
+                await apiService.updateWorkspaceSettings(workspaceId!, { membersCanManageChannels: allowed });
+                setWorkspace(prev => prev && { ...prev, membersCanManageChannels: allowed });
+              }}
+            />
+          )}
+
           {/* Content Area */}
-          <div className="flex-1 bg-card border border-border rounded-xl p-4 overflow-y-auto mb-4">
+          <div
+            ref={containerRef}
+            onScroll={onScroll}
+            className="flex-1 bg-card border border-border rounded-xl p-4 overflow-y-auto mb-4"
+          >
             {activeTab === 'chat' && (
               <div className="h-full flex flex-col">
                 {messages.length === 0 ? (
@@ -358,7 +777,12 @@ export function WorkspaceDetail() {
                   </div>
                 ) : (
                   <div className="flex-1 space-y-4 mb-4">
-                    {messages.map((message) => {
+                    {loadingOlder && (
+                      <div className="flex justify-center">
+                        <Loader2 className="w-5 h-5 text-white/40 animate-spin" />
+                      </div>
+                    )}
+                    {messages.map((message, index) => {
                       const isOwn = message.senderId === user?.id;
                       return (
                         <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
@@ -368,13 +792,47 @@ export function WorkspaceDetail() {
                             {!isOwn && (
                               <p className="text-xs opacity-70 mb-1">{message.senderName}</p>
                             )}
-                            <p className="text-sm leading-relaxed">{message.content}</p>
+                            <ChatMessageContent
+                              message={message}
+                              isOwn={isOwn}
+                              canModerate={isFounder}
+                              onEdit={async (content) => {
+                                replaceMessage((await apiService.editWorkspaceMessage(workspaceId!, message.id, content)).data);
+                              }}
+                              onDelete={async () => {
+                                replaceMessage((await apiService.deleteWorkspaceMessage(workspaceId!, message.id)).data);
+                              }}
+                            />
                             <p className={`text-xs mt-1 ${isOwn ? 'text-black/50' : 'text-white/50'}`}>
                               {new Date(message.createdAt).toLocaleTimeString([], {
                                 hour: '2-digit',
                                 minute: '2-digit',
                               })}
+                              {message.editedAt && !message.deletedAt && ' · edited'}
+                              {index === lastOwnIndex && seenByNames.length > 0 && ` · Seen by ${seenByNames.join(', ')}`}
                             </p>
+                            {!message.deletedAt && (
+                              <MessageReactions
+                                reactions={message.reactions ?? []}
+                                currentUserId={user?.id}
+                                isOwn={isOwn}
+                                onToggle={(emoji) => {
+                                  apiService.toggleWorkspaceReaction(workspaceId!, message.id, emoji)
+                                    .catch(error => console.error('Failed to react:', error));
+                                }}
+                              />
+                            )}
+                            {(message.replyCount > 0 || !message.deletedAt) && (
+                              <button
+                                type="button"
+                                onClick={() => setThreadId(message.id)}
+                                className={`text-xs mt-1 hover:underline ${isOwn ? 'text-black/60' : 'text-white/60'}`}
+                              >
+                                {message.replyCount > 0
+                                  ? `${message.replyCount} ${message.replyCount === 1 ? 'reply' : 'replies'}`
+                                  : 'Reply'}
+                              </button>
+                            )}
                           </div>
                         </div>
                       );
@@ -425,12 +883,12 @@ export function WorkspaceDetail() {
 
             {activeTab === 'tasks' && (
               <div className="space-y-3">
-                {tasks.length === 0 && !showAddTask ? (
+                {tasks.length === 0 && !taskFilterQuery ? (
                   <div className="text-center py-12">
                     <CheckSquare className="w-12 h-12 text-white/30 mx-auto mb-4" />
                     <h3 className="text-lg font-medium text-white mb-2">No tasks yet</h3>
                     <p className="text-white/50 mb-4">Create tasks to track your work</p>
-                    <Button onClick={() => setShowAddTask(true)} className="bg-white text-black hover:bg-white/90">
+                    <Button onClick={() => openAddTask('todo')} className="bg-white text-black hover:bg-white/90">
                       <Plus className="w-4 h-4 mr-2" />
                       Add Task
                     </Button>
@@ -439,39 +897,107 @@ export function WorkspaceDetail() {
                   <>
                     <div className="flex justify-between items-center mb-4">
                       <h3 className="text-lg font-semibold text-white">Tasks</h3>
-                      <Button onClick={() => setShowAddTask(true)} size="sm" className="bg-white text-black hover:bg-white/90">
-                        <Plus className="w-4 h-4 mr-2" />
-                        Add Task
-                      </Button>
-                    </div>
-                    {tasks.map((task) => (
-                      <div key={task.id} className="bg-white/5 border border-white/10 rounded-lg p-4 flex items-start gap-3">
-                        <input
-                          type="checkbox"
-                          checked={task.completed}
-                          onChange={() => handleToggleTask(task.id, task.completed)}
-                          className="mt-1 w-4 h-4 rounded border-white/20"
-                        />
-                        <div className="flex-1">
-                          <h4 className={`font-medium ${task.completed ? 'text-white/50 line-through' : 'text-white'}`}>
-                            {task.title}
-                          </h4>
-                          {task.description && (
-                            <p className="text-sm text-white/50 mt-1">{task.description}</p>
-                          )}
-                          {task.completed && task.completedByName && (
-                            <p className="text-xs text-white/40 mt-2">
-                              ✓ Completed by {task.completedByName}
-                            </p>
-                          )}
-                        </div>
+                      <div className="flex items-center gap-2">
+                        {isFounder && (
+                          <Button
+                            onClick={() => setShowWorkflow(true)}
+                            size="sm"
+                            variant="outline"
+                            className="border-white/20 text-white hover:bg-white/10"
+                          >
+                            <Columns3 className="w-4 h-4 mr-2" />
+                            Columns
+                          </Button>
+                        )}
+                        <Button onClick={() => openAddTask('todo')} size="sm" className="bg-white text-black hover:bg-white/90">
+                          <Plus className="w-4 h-4 mr-2" />
+                          Add Task
+                        </Button>
                       </div>
-                    ))}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 mb-4">
+                      {([['mine', 'My tasks'], ['overdue', 'Overdue']] as const).map(([key, label]) => (
+                        <button
+                          key={key}
+                          type="button"
+                          onClick={() => setTaskFilter(prev => ({ ...prev, [key]: !prev[key] }))}
+                          aria-pressed={taskFilter[key]}
+                          className={`px-3 py-1.5 rounded-full text-xs border transition-colors ${
+                            taskFilter[key] ? 'bg-white text-black border-white' : 'border-white/20 text-white/70 hover:bg-white/10'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                      {labels.length > 0 && (
+                        <Select
+                          value={taskFilter.label || 'all'}
+                          onValueChange={(label) => setTaskFilter(prev => ({ ...prev, label: label === 'all' ? '' : label }))}
+                        >
+                          <SelectTrigger size="sm" className="w-auto bg-white/5 border-white/10 text-white text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">All labels</SelectItem>
+                            {labels.map(label => (
+                              <SelectItem key={label.id} value={label.name}>{label.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <Select
+                        value={taskFilter.priority || 'all'}
+                        onValueChange={(priority) => setTaskFilter(prev => ({ ...prev, priority: priority === 'all' ? '' : priority }))}
+                      >
+                        <SelectTrigger size="sm" className="w-auto bg-white/5 border-white/10 text-white text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">Any priority</SelectItem>
+                          {TASK_PRIORITY_OPTIONS.map(({ priority, label }) => (
+                            <SelectItem key={priority} value={priority}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {taskFilterQuery && (
+                        <button
+                          type="button"
+                          onClick={() => setTaskFilter({ mine: false, overdue: false, label: '', priority: '' })}
+                          className="text-xs text-white/50 hover:text-white"
+                        >
+                          Clear filters
+                        </button>
+                      )}
+                    </div>
+                    {tasks.length === 0 && (
+                      <p className="text-sm text-white/50 text-center py-6">No tasks match these filters</p>
+                    )}
+                    <TaskBoard
+                      tasks={tasks}
+                      columns={taskColumns}
+                      labels={labels}
+                      blockedTaskIds={blockedTaskIds}
+                      currentUserId={user?.id}
+                      onAdd={openAddTask}
+                      onOpen={(task) => setOpenTaskId(task.id)}
+                      onMove={handleMoveTask}
+                      onDelete={handleDeleteTask}
+                    />
                   </>
                 )}
               </div>
             )}
 
+            {activeTab === 'milestones' && (
+              <MilestonePanel
+                workspaceId={workspaceId!}
+                milestones={milestones}
+                tasks={tasks}
+                onSaved={(milestone) => setMilestones(prev => upsertMilestone(prev, milestone))}
+                onDeleted={(milestone) => removeMilestone(milestone.id)}
+              />
+            )}
+
             {activeTab === 'members' && (
               <div className="space-y-3">
                 <div className="flex justify-between items-center mb-4">
@@ -488,6 +1014,23 @@ export function WorkspaceDetail() {
                       <div>
                         <h4 className="font-medium text-white">{member.userName || 'Unknown'}</h4>
                         <p className="text-sm text-white/50">{member.userEmail}</p>
+                        <p className="text-xs text-white/40 mt-1 flex items-center gap-1.5">
+                          {viewerIds.includes(member.userId) ? (
+                            <>
+                              <span className="w-2 h-2 rounded-full bg-green-400" />
+                              In this space
+                            </>
+                          ) : member.isOnline ? (
+                            <>
+                              <span className="w-2 h-2 rounded-full bg-green-400/50" />
+                              Online
+                            </>
+                          ) : member.lastSeenAt ? (
+                            `Last seen ${formatDistanceToNow(new Date(member.lastSeenAt), { addSuffix: true })}`
+                          ) : (
+                            'Offline'
+                          )}
+                        </p>
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
@@ -516,14 +1059,28 @@ export function WorkspaceDetail() {
           {/* Input Area (only for chat) */}
           {activeTab === 'chat' && (
             <form onSubmit={handleSendMessage} className="bg-card border border-border rounded-xl p-4">
-              <div className="flex gap-2">
-                <input
-                  type="text"
+              {typingNames.length > 0 && (
+                <p className="text-xs text-white/50 mb-2">
+                  {typingNames.length === 1
+                    ? `${typingNames[0]} is typing…`
+                    : typingNames.length === 2
+                      ? `${typingNames[0]} and ${typingNames[1]} are typing…`
+                      : 'Several people are typing…'}
+                </p>
+              )}
+              <div className="flex items-end gap-2">
+                <MentionInput
                   value={newMessage}
-                  onChange={(e) => setNewMessage(e.target.value)}
-                  placeholder="Type a message..."
-                  className="flex-1 bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-white/20"
-                  disabled={sending}
+                  onChange={(value) => {
+                    setNewMessage(value);
+                    notifyTyping();
+                  }}
+                  members={mentionableMembers}
+                  placeholder={activeChannel?.archivedAt
+                    ? `#${activeChannel.name} is archived`
+                    : `Message ${activeChannel ? `#${activeChannel.name}` : 'the team'}... (@ to mention)`}
+                  className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-white/20"
+                  disabled={sending || !!activeChannel?.archivedAt}
                 />
                 <Button
                   type="submit"
@@ -538,6 +1095,26 @@ export function WorkspaceDetail() {
         </div>
       </main>
 
+      <ThreadPanel
+        workspaceId={workspaceId!}
+        parentMessageId={threadId}
+        canModerate={isFounder}
+        members={mentionableMembers}
+        onClose={() => {
+          setThreadId(null);
+          if (searchParams.has('thread')) {
+            setSearchParams({}, { replace: true });
+          }
+        }}
+        onReplySent={(reply) => {
+          setMessages(prev => prev.map(m =>
+            m.id === reply.parentMessageId
+              ? { ...m, replyCount: (m.replyCount || 0) + 1, lastReplyAt: reply.createdAt }
+              : m
+          ));
+        }}
+      />
+
       {/* Add Link Modal */}
       {showAddLink && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
@@ -591,57 +1168,40 @@ export function WorkspaceDetail() {
         </div>
       )}
 
-      {/* Add Task Modal */}
-      {showAddTask && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
-          <motion.div
-            initial={{ opacity: 0, scale: 0.95 }}
-            animate={{ opacity: 1, scale: 1 }}
-            className="bg-card border border-border rounded-xl p-6 w-full max-w-md"
-          >
-            <h2 className="text-xl font-semibold text-white mb-4">Add Task</h2>
-            <form onSubmit={handleAddTask} className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-2">Title *</label>
-                <input
-                  type="text"
-                  value={newTask.title}
-                  onChange={(e) => setNewTask({ ...newTask, title: e.target.value })}
-                  placeholder="Setup development environment"
-                  className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-white/20"
-                  required
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-2">Description (optional)</label>
-                <textarea
-                  value={newTask.description}
-                  onChange={(e) => setNewTask({ ...newTask, description: e.target.value })}
-                  placeholder="Install dependencies, configure environment..."
-                  rows={3}
-                  className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-white/20 resize-none"
-                />
-              </div>
-              <div className="flex gap-3">
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => {
-                    setShowAddTask(false);
-                    setNewTask({ title: '', description: '' });
-                  }}
-                  className="flex-1 border-white/20 text-white hover:bg-white/10"
-                >
-                  Cancel
-                </Button>
-                <Button type="submit" className="flex-1 bg-white text-black hover:bg-white/90">
-                  Add Task
-                </Button>
-              </div>
-            </form>
-          </motion.div>
-        </div>
-      )}
+      <TaskDialog
+        open={!!taskDialog}
+        task={taskDialog?.task}
+        initialStatus={taskDialog?.status}
+        columns={taskColumns}
+        members={members.map(m => ({ userId: m.userId, name: m.userName }))}
+        labels={labels}
+        milestones={milestones}
+        onCreateLabel={handleCreateLabel}
+        onDeleteLabel={handleDeleteLabel}
+        onSubmit={handleSaveTask}
+        onClose={() => setTaskDialog(null)}
+      />
+
+      <TaskWorkflowDialog
+        open={showWorkflow}
+        columns={taskColumns}
+        onSubmit={handleSaveWorkflow}
+        onClose={() => setShowWorkflow(false)}
+      />
+
+      <TaskDrawer
+        workspaceId={workspaceId!}
+        task={openTask}
+        tasks={tasks}
+        columns={taskColumns}
+        labels={labels}
+        milestones={milestones}
+        dependencies={dependencies}
+        currentUserId={user?.id}
+        onEdit={openEditTask}
+        onChange={handleTaskChanged}
+        onClose={() => setOpenTaskId(null)}
+      />
 
       {/* Invite Modal */}
       {showInvite && (
@@ -1,3 +1,26 @@
+import type { User } from '@/types';
+import type {
+  BurndownPayload,
+  ChannelPayload,
+  ChatKind,
+  DirectMessagePayload,
+  GroupMessagePayload,
+  LabelColor,
+  MessageReaction,
+  MilestonePayload,
+  NotificationPayload,
+  ScreeningMessagePayload,
+  TaskActivityPayload,
+  TaskCommentPayload,
+  TaskDependencyGraphPayload,
+  TaskLabelPayload,
+  TaskPayload,
+  TaskPriority,
+  TaskStatus,
+  TaskWorkflowColumn,
+  TaskWorkflowPayload,
+} from '@shared/realtimeProtocol';
+
 // Automatically detect the correct API URL based on current host
 const getApiBaseUrl = () => {
   // If VITE_API_URL is set, use it
@@ -17,15 +40,186 @@ const getApiBaseUrl = () => {
 
 const API_BASE_URL = getApiBaseUrl();
 
+// Chat history is paged from the newest message backwards
+export interface MessagePageParams {
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
+export interface MessagePage<T> {
+  // Oldest first
+  messages: T[];
+  hasMore: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export type WorkspaceChannel = Omit<ChannelPayload, 'archivedAt' | 'createdAt' | 'updatedAt'> & {
+  // ISO strings when loaded over HTTP, Dates when pushed over the WebSocket
+  archivedAt?: string | Date | null;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+};
+
+export type WorkspaceTask = Omit<TaskPayload, 'dueDate' | 'completedAt' | 'createdAt' | 'updatedAt'> & {
+  // ISO strings when loaded over HTTP, Dates when pushed over the WebSocket
+  dueDate?: string | Date | null;
+  completedAt?: string | Date | null;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+};
+
+export type WorkspaceLabel = Omit<TaskLabelPayload, 'createdAt' | 'updatedAt'> & {
+  // ISO strings when loaded over HTTP, Dates when pushed over the WebSocket
+  createdAt: string | Date;
+  updatedAt: string | Date;
+};
+
+export type WorkspaceTaskComment = Omit<TaskCommentPayload, 'createdAt'> & {
+  // ISO string when loaded over HTTP, Date when pushed over the WebSocket
+  createdAt: string | Date;
+};
+
+export type WorkspaceTaskActivity = Omit<TaskActivityPayload, 'createdAt'> & {
+  createdAt: string;
+};
+
+export type WorkspaceMilestone = Omit<MilestonePayload, 'startDate' | 'endDate' | 'createdAt' | 'updatedAt'> & {
+  // ISO strings when loaded over HTTP, Dates when pushed over the WebSocket
+  startDate: string | Date;
+  endDate: string | Date;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+};
+
+export type MilestoneBurndown = BurndownPayload;
+
+// A task assigned to the user, from any of their Builder Spaces
+export type MyTask = WorkspaceTask & {
+  spaceName: string;
+  // What the task's column is called on its space's board
+  statusName: string;
+  labels: WorkspaceLabel[];
+};
+
+// Which tasks to list and in what order; see the Tasks section of the README for the filter terms
+export interface TaskListParams {
+  filter?: string;
+  sort?: 'position' | 'due' | 'priority' | 'created' | 'updated';
+}
+
+// Task fields besides title, description and status; null clears one
+export interface TaskDetails {
+  assigneeIds?: string[];
+  dueDate?: string | null;
+  priority?: TaskPriority;
+  labelIds?: string[];
+  milestoneId?: string | null;
+}
+
+export type NotificationItem = Omit<NotificationPayload, 'readAt' | 'createdAt'> & {
+  // ISO strings when loaded over HTTP, Dates when pushed over the WebSocket
+  readAt?: string | Date | null;
+  createdAt: string | Date;
+};
+
+// Someone the user shares a team with, and so can message directly
+export interface DirectContact {
+  id: string;
+  name: string;
+  avatar?: string;
+  lastSeenAt?: string;
+}
+
+export interface DirectConversation {
+  id: string;
+  otherUser: DirectContact;
+  lastMessage: {
+    content: string;
+    senderId: string;
+    createdAt: string;
+  } | null;
+  lastMessageAt: string | null;
+  createdAt: string;
+  unreadCount?: number;
+}
+
+// A Builder Space thread: the message that started it and a page of its replies
+export interface MessageThread extends MessagePage<GroupMessagePayload> {
+  parent: GroupMessagePayload;
+}
+
+// How far one user has read in a chat
+export interface ReadReceipt {
+  chat: ChatKind;
+  chatId: string;
+  userId: string;
+  messageId: string;
+  readAt: string;
+}
+
+// Endpoints whose 401 means bad credentials, not an expired access token
+const NO_REFRESH_ENDPOINTS = ['/auth/login', '/auth/signup', '/auth/google', '/auth/2fa/verify', '/auth/refresh', '/auth/logout'];
+
 class ApiService {
+  private refreshPromise: Promise<boolean> | null = null;
+
   private getAuthHeaders(): Record<string, string> {
     const token = localStorage.getItem('kaivan_token');
     return token ? { Authorization: `Bearer ${token}` } : {};
   }
 
+  // Exchange the httpOnly refresh token cookie for a new access token.
+  // Concurrent callers share one in-flight refresh so the token is only rotated once.
+  private refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = fetch(`${API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        credentials: 'include',
+      })
+        .then(async (response) => {
+          if (!response.ok) return false;
+          const data = await response.json();
+          localStorage.setItem('kaivan_token', data.accessToken);
+          return true;
+        })
+        .catch(() => false)
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Get an access token that is good for at least another 30 seconds,
+   * refreshing it first if needed. Used where requests cannot be retried
+   * after a 401, such as opening a WebSocket.
+   */
+  async getFreshAccessToken(): Promise<string | null> {
+    const token = localStorage.getItem('kaivan_token');
+    if (!token) return null;
+
+    let expiresAt = 0;
+    try {
+      const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+      expiresAt = payload.exp * 1000;
+    } catch {
+      // Unreadable token; let the refresh decide
+    }
+
+    if (expiresAt - Date.now() > 30000) {
+      return token;
+    }
+
+    return (await this.refreshAccessToken()) ? localStorage.getItem('kaivan_token') : null;
+  }
+
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    allowRefresh = true
   ): Promise<T> {
     const url = `${API_BASE_URL}${endpoint}`;
     
@@ -41,6 +235,13 @@ class ApiService {
 
     try {
       const response = await fetch(url, config);
+
+      // Access token expired: refresh it once and retry the request
+      if (response.status === 401 && allowRefresh && !NO_REFRESH_ENDPOINTS.includes(endpoint)) {
+        if (await this.refreshAccessToken()) {
+          return this.request<T>(endpoint, options, false);
+        }
+      }
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -80,8 +281,10 @@ class ApiService {
   async login(data: { email: string; password: string }) {
     return this.request<{
       message: string;
-      user: any;
-      accessToken: string;
+      user?: User;
+      accessToken?: string;
+      twoFactorRequired?: boolean;
+      challengeToken?: string;
     }>('/auth/login', {
       method: 'POST',
       body: JSON.stringify(data),
@@ -91,20 +294,84 @@ class ApiService {
   async googleAuth(token: string) {
     return this.request<{
       message: string;
-      user: any;
-      accessToken: string;
+      user?: User;
+      accessToken?: string;
+      twoFactorRequired?: boolean;
+      challengeToken?: string;
     }>('/auth/google', {
       method: 'POST',
       body: JSON.stringify({ token }),
     });
   }
 
+  async verifyTwoFactorLogin(challengeToken: string, code: string) {
+    return this.request<{
+      message: string;
+      user: User;
+      accessToken: string;
+    }>('/auth/2fa/verify', {
+      method: 'POST',
+      body: JSON.stringify({ challengeToken, code }),
+    });
+  }
+
+  async setupTwoFactor() {
+    return this.request<{ secret: string; otpauthUri: string }>('/auth/2fa/setup', {
+      method: 'POST',
+    });
+  }
+
+  async enableTwoFactor(code: string) {
+    return this.request<{ message: string; recoveryCodes: string[] }>('/auth/2fa/enable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async disableTwoFactor(code: string) {
+    return this.request<{ message: string }>('/auth/2fa/disable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async regenerateRecoveryCodes(code: string) {
+    return this.request<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
   async logout() {
     return this.request<{ message: string }>('/auth/logout', {
       method: 'POST',
     });
   }
 
+  async verifyEmail(token: string) {
+    return this.request<{ message: string }>(`/auth/verify-email?token=${encodeURIComponent(token)}`);
+  }
+
+  async resendVerificationEmail() {
+    return this.request<{ message: string }>('/auth/resend-verification', {
+      method: 'POST',
+    });
+  }
+
+  async forgotPassword(email: string) {
+    return this.request<{ message: string }>('/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async resetPassword(token: string, password: string) {
+    return this.request<{ message: string }>('/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
   async getCurrentUser() {
     return this.request<{ user: any }>('/auth/me');
   }
@@ -237,6 +504,25 @@ class ApiService {
     return this.request<{ hackathons: any[] }>('/hackathons/my');
   }
 
+  private taskListQuery(params?: TaskListParams) {
+    const searchParams = new URLSearchParams();
+    if (params?.filter?.trim()) searchParams.append('filter', params.filter.trim());
+    if (params?.sort) searchParams.append('sort', params.sort);
+
+    const query = searchParams.toString();
+    return query ? `?${query}` : '';
+  }
+
+  private messagePageQuery(page?: MessagePageParams) {
+    const searchParams = new URLSearchParams();
+    if (page?.before) searchParams.append('before', page.before);
+    if (page?.after) searchParams.append('after', page.after);
+    if (page?.limit) searchParams.append('limit', page.limit.toString());
+
+    const query = searchParams.toString();
+    return query ? `?${query}` : '';
+  }
+
   // Screening Chats endpoints
   async getMyScreeningChats() {
     return this.request<{ screeningChats: any[] }>('/screening-chats');
@@ -246,17 +532,84 @@ class ApiService {
     return this.request<{ screeningChat: any }>(`/screening-chats/${chatId}`);
   }
 
-  async getScreeningMessages(chatId: string) {
-    return this.request<{ messages: any[] }>(`/screening-chats/${chatId}/messages`);
+  async getScreeningMessages(chatId: string, page?: MessagePageParams) {
+    return this.request<MessagePage<ScreeningMessagePayload>>(`/screening-chats/${chatId}/messages${this.messagePageQuery(page)}`);
   }
 
-  async sendScreeningMessage(chatId: string, content: string) {
+  async sendScreeningMessage(chatId: string, content: string, clientId?: string) {
     return this.request<{ message: any }>(`/screening-chats/${chatId}/messages`, {
       method: 'POST',
+      body: JSON.stringify({ content, clientId }),
+    });
+  }
+
+  async editScreeningMessage(chatId: string, messageId: string, content: string) {
+    return this.request<{ message: ScreeningMessagePayload }>(`/screening-chats/${chatId}/messages/${messageId}`, {
+      method: 'PATCH',
       body: JSON.stringify({ content }),
     });
   }
 
+  async deleteScreeningMessage(chatId: string, messageId: string) {
+    return this.request<{ message: ScreeningMessagePayload }>(`/screening-chats/${chatId}/messages/${messageId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async markScreeningChatRead(chatId: string, messageId?: string) {
+    return this.request<{ readReceipt: ReadReceipt | null }>(`/screening-chats/${chatId}/read`, {
+      method: 'POST',
+      body: JSON.stringify({ messageId }),
+    });
+  }
+
+  async getScreeningChatReadReceipts(chatId: string) {
+    return this.request<{ readReceipts: ReadReceipt[] }>(`/screening-chats/${chatId}/read`);
+  }
+
+  // Direct message endpoints
+  async getDirectConversations() {
+    return this.request<{ conversations: DirectConversation[] }>('/direct-messages');
+  }
+
+  async getDirectContacts() {
+    return this.request<{ contacts: DirectContact[] }>('/direct-messages/contacts');
+  }
+
+  // Opens the conversation with a teammate, starting it if they haven't talked yet
+  async openDirectConversation(userId: string) {
+    return this.request<{ conversation: DirectConversation }>('/direct-messages', {
+      method: 'POST',
+      body: JSON.stringify({ userId }),
+    });
+  }
+
+  async getDirectConversation(conversationId: string) {
+    return this.request<{ conversation: DirectConversation }>(`/direct-messages/${conversationId}`);
+  }
+
+  async getDirectMessages(conversationId: string, page?: MessagePageParams) {
+    return this.request<MessagePage<DirectMessagePayload>>(`/direct-messages/${conversationId}/messages${this.messagePageQuery(page)}`);
+  }
+
+  async sendDirectMessage(conversationId: string, content: string, clientId?: string) {
+    return this.request<{ message: DirectMessagePayload }>(`/direct-messages/${conversationId}/messages`, {
+      method: 'POST',
+      body: JSON.stringify({ content, clientId }),
+    });
+  }
+
+  async markDirectConversationRead(conversationId: string, messageId?: string) {
+    return this.request<{ readReceipt: ReadReceipt | null }>(`/direct-messages/${conversationId}/read`, {
+      method: 'POST',
+      body: JSON.stringify({ messageId }),
+    });
+  }
+
+  async getDirectConversationReadReceipts(conversationId: string) {
+    return this.request<{ readReceipts: ReadReceipt[] }>(`/direct-messages/${conversationId}/read`);
+  }
+
   // Workspaces endpoints
   async getMyWorkspaces() {
     return this.request<{ spaces: any[] }>('/builder-spaces/my');
@@ -273,17 +626,101 @@ class ApiService {
     return this.request<{ space: any }>(`/builder-spaces/${workspaceId}`);
   }
 
-  async getWorkspaceMessages(workspaceId: string) {
-    return this.request<{ messages: any[] }>(`/builder-spaces/${workspaceId}/messages`);
+  // Messages of one channel; #general without a channelId
+  async getWorkspaceMessages(workspaceId: string, page?: MessagePageParams, channelId?: string) {
+    const query = this.messagePageQuery(page);
+    const channel = channelId ? `${query ? '&' : '?'}channelId=${encodeURIComponent(channelId)}` : '';
+    return this.request<MessagePage<GroupMessagePayload>>(`/builder-spaces/${workspaceId}/messages${query}${channel}`);
   }
 
-  async sendWorkspaceMessage(workspaceId: string, content: string) {
+  async sendWorkspaceMessage(
+    workspaceId: string,
+    content: string,
+    clientId?: string,
+    parentMessageId?: string,
+    channelId?: string
+  ) {
     return this.request<{ data: any }>(`/builder-spaces/${workspaceId}/messages`, {
       method: 'POST',
+      body: JSON.stringify({ content, clientId, parentMessageId, channelId }),
+    });
+  }
+
+  async getWorkspaceChannels(workspaceId: string) {
+    return this.request<{ channels: WorkspaceChannel[] }>(`/builder-spaces/${workspaceId}/channels`);
+  }
+
+  async createWorkspaceChannel(workspaceId: string, name: string) {
+    return this.request<{ channel: WorkspaceChannel }>(`/builder-spaces/${workspaceId}/channels`, {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async renameWorkspaceChannel(workspaceId: string, channelId: string, name: string) {
+    return this.request<{ channel: WorkspaceChannel }>(`/builder-spaces/${workspaceId}/channels/${channelId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async setWorkspaceChannelArchived(workspaceId: string, channelId: string, archived: boolean) {
+    return this.request<{ channel: WorkspaceChannel }>(
+      `/builder-spaces/${workspaceId}/channels/${channelId}/${archived ? 'archive' : 'unarchive'}`,
+      { method: 'POST' }
+    );
+  }
+
+  async updateWorkspaceSettings(workspaceId: string, settings: { membersCanManageChannels: boolean }) {
+    return this.request<{ message: string; settings: { membersCanManageChannels: boolean } }>(
+      `/builder-spaces/${workspaceId}/settings`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(settings),
+      }
+    );
+  }
+
+  async getWorkspaceThread(workspaceId: string, messageId: string, page?: MessagePageParams) {
+    return this.request<MessageThread>(
+      `/builder-spaces/${workspaceId}/messages/${messageId}/replies${this.messagePageQuery(page)}`
+    );
+  }
+
+  async toggleWorkspaceReaction(workspaceId: string, messageId: string, emoji: string) {
+    return this.request<{ reaction: { messageId: string; added: boolean; reactions: MessageReaction[] } }>(
+      `/builder-spaces/${workspaceId}/messages/${messageId}/reactions`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ emoji }),
+      }
+    );
+  }
+
+  async editWorkspaceMessage(workspaceId: string, messageId: string, content: string) {
+    return this.request<{ data: GroupMessagePayload }>(`/builder-spaces/${workspaceId}/messages/${messageId}`, {
+      method: 'PATCH',
       body: JSON.stringify({ content }),
     });
   }
 
+  async deleteWorkspaceMessage(workspaceId: string, messageId: string) {
+    return this.request<{ data: GroupMessagePayload }>(`/builder-spaces/${workspaceId}/messages/${messageId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async markWorkspaceChannelRead(workspaceId: string, channelId: string, messageId?: string) {
+    return this.request<{ readReceipt: ReadReceipt | null }>(`/builder-spaces/${workspaceId}/channels/${channelId}/read`, {
+      method: 'POST',
+      body: JSON.stringify({ messageId }),
+    });
+  }
+
+  async getWorkspaceChannelReadReceipts(workspaceId: string, channelId: string) {
+    return this.request<{ readReceipts: ReadReceipt[] }>(`/builder-spaces/${workspaceId}/channels/${channelId}/read`);
+  }
+
   async getWorkspaceLinks(workspaceId: string) {
     return this.request<{ links: any[] }>(`/builder-spaces/${workspaceId}/links`);
   }
@@ -295,24 +732,185 @@ class ApiService {
     });
   }
 
-  async getWorkspaceTasks(workspaceId: string) {
-    return this.request<{ tasks: any[] }>(`/builder-spaces/${workspaceId}/tasks`);
+  async getWorkspaceTasks(workspaceId: string, params?: TaskListParams) {
+    return this.request<{ tasks: WorkspaceTask[] }>(`/builder-spaces/${workspaceId}/tasks${this.taskListQuery(params)}`);
+  }
+
+  // Tasks assigned to the user in all of their Builder Spaces, soonest due first
+  async getMyTasks(params?: TaskListParams) {
+    return this.request<{ tasks: MyTask[] }>(`/builder-spaces/my/tasks${this.taskListQuery(params)}`);
   }
 
-  async createWorkspaceTask(workspaceId: string, data: { title: string; description?: string }) {
-    return this.request<{ task: any }>(`/builder-spaces/${workspaceId}/tasks`, {
+  async createWorkspaceTask(
+    workspaceId: string,
+    data: { title: string; description?: string; status?: TaskStatus } & TaskDetails
+  ) {
+    return this.request<{ task: WorkspaceTask }>(`/builder-spaces/${workspaceId}/tasks`, {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
-  async updateWorkspaceTask(workspaceId: string, taskId: string, data: { completed: boolean }) {
-    return this.request<{ task: any }>(`/builder-spaces/${workspaceId}/tasks/${taskId}`, {
+  // Move a task to a column, at `index` within it or at the bottom
+  async moveWorkspaceTask(workspaceId: string, taskId: string, data: { status: TaskStatus; index?: number }) {
+    return this.request<{ task: TaskPayload }>(`/builder-spaces/${workspaceId}/tasks/${taskId}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     });
   }
 
+  async updateWorkspaceTask(
+    workspaceId: string,
+    taskId: string,
+    data: { title?: string; description?: string | null } & TaskDetails
+  ) {
+    return this.request<{ task: WorkspaceTask }>(`/builder-spaces/${workspaceId}/tasks/${taskId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteWorkspaceTask(workspaceId: string, taskId: string) {
+    return this.request<{ message: string }>(`/builder-spaces/${workspaceId}/tasks/${taskId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async addTaskChecklistItem(workspaceId: string, taskId: string, text: string) {
+    return this.request<{ task: WorkspaceTask }>(`/builder-spaces/${workspaceId}/tasks/${taskId}/checklist`, {
+      method: 'POST',
+      body: JSON.stringify({ text }),
+    });
+  }
+
+  async updateTaskChecklistItem(
+    workspaceId: string,
+    taskId: string,
+    itemId: string,
+    data: { text?: string; done?: boolean }
+  ) {
+    return this.request<{ task: WorkspaceTask }>(`/builder-spaces/${workspaceId}/tasks/${taskId}/checklist/${itemId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async removeTaskChecklistItem(workspaceId: string, taskId: string, itemId: string) {
+    return this.request<{ task: WorkspaceTask }>(`/builder-spaces/${workspaceId}/tasks/${taskId}/checklist/${itemId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getTaskDependencies(workspaceId: string) {
+    return this.request<{ dependencies: TaskDependencyGraphPayload }>(`/builder-spaces/${workspaceId}/dependencies`);
+  }
+
+  async addTaskDependency(workspaceId: string, taskId: string, blockedById: string) {
+    return this.request<{ task: WorkspaceTask }>(`/builder-spaces/${workspaceId}/tasks/${taskId}/dependencies`, {
+      method: 'POST',
+      body: JSON.stringify({ blockedById }),
+    });
+  }
+
+  async removeTaskDependency(workspaceId: string, taskId: string, blockedById: string) {
+    return this.request<{ task: WorkspaceTask }>(`/builder-spaces/${workspaceId}/tasks/${taskId}/dependencies/${blockedById}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getTaskComments(workspaceId: string, taskId: string) {
+    return this.request<{ comments: WorkspaceTaskComment[] }>(`/builder-spaces/${workspaceId}/tasks/${taskId}/comments`);
+  }
+
+  async createTaskComment(workspaceId: string, taskId: string, content: string) {
+    return this.request<{ comment: WorkspaceTaskComment }>(`/builder-spaces/${workspaceId}/tasks/${taskId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ content }),
+    });
+  }
+
+  async deleteTaskComment(workspaceId: string, taskId: string, commentId: string) {
+    return this.request<{ message: string }>(`/builder-spaces/${workspaceId}/tasks/${taskId}/comments/${commentId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getTaskActivity(workspaceId: string, taskId: string) {
+    return this.request<{ activity: WorkspaceTaskActivity[] }>(`/builder-spaces/${workspaceId}/tasks/${taskId}/activity`);
+  }
+
+  async getWorkspaceLabels(workspaceId: string) {
+    return this.request<{ labels: WorkspaceLabel[] }>(`/builder-spaces/${workspaceId}/labels`);
+  }
+
+  async createWorkspaceLabel(workspaceId: string, data: { name: string; color?: LabelColor }) {
+    return this.request<{ label: WorkspaceLabel }>(`/builder-spaces/${workspaceId}/labels`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateWorkspaceLabel(workspaceId: string, labelId: string, data: { name?: string; color?: LabelColor }) {
+    return this.request<{ label: WorkspaceLabel }>(`/builder-spaces/${workspaceId}/labels/${labelId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteWorkspaceLabel(workspaceId: string, labelId: string) {
+    return this.request<{ message: string }>(`/builder-spaces/${workspaceId}/labels/${labelId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getWorkspaceTaskWorkflow(workspaceId: string) {
+    return this.request<{ workflow: TaskWorkflowPayload }>(`/builder-spaces/${workspaceId}/task-workflow`);
+  }
+
+  // Every column in order; a column not listed is removed, which needs it to be empty
+  async updateWorkspaceTaskWorkflow(workspaceId: string, columns: TaskWorkflowColumn[]) {
+    return this.request<{ workflow: TaskWorkflowPayload }>(`/builder-spaces/${workspaceId}/task-workflow`, {
+      method: 'PUT',
+      body: JSON.stringify({ columns }),
+    });
+  }
+
+  async getWorkspaceMilestones(workspaceId: string) {
+    return this.request<{ milestones: WorkspaceMilestone[] }>(`/builder-spaces/${workspaceId}/milestones`);
+  }
+
+  // Dates are calendar days like 2024-03-01
+  async createWorkspaceMilestone(
+    workspaceId: string,
+    data: { name: string; description?: string; startDate: string; endDate: string }
+  ) {
+    return this.request<{ milestone: WorkspaceMilestone }>(`/builder-spaces/${workspaceId}/milestones`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateWorkspaceMilestone(
+    workspaceId: string,
+    milestoneId: string,
+    data: { name?: string; description?: string | null; startDate?: string; endDate?: string }
+  ) {
+    return this.request<{ milestone: WorkspaceMilestone }>(`/builder-spaces/${workspaceId}/milestones/${milestoneId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteWorkspaceMilestone(workspaceId: string, milestoneId: string) {
+    return this.request<{ message: string }>(`/builder-spaces/${workspaceId}/milestones/${milestoneId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getMilestoneBurndown(workspaceId: string, milestoneId: string) {
+    return this.request<{ burndown: MilestoneBurndown }>(`/builder-spaces/${workspaceId}/milestones/${milestoneId}/burndown`);
+  }
+
   async inviteToWorkspace(workspaceId: string, email: string) {
     return this.request<{ message: string; user: any }>(`/builder-spaces/${workspaceId}/invite`, {
       method: 'POST',
@@ -335,6 +933,45 @@ class ApiService {
     return this.request<{ stats: { users: number; startups: number; hackathons: number; applications: number } }>('/stats');
   }
 
+  // Real-time events endpoints
+  async getMissedEvents(after?: number) {
+    const query = after === undefined ? '' : `?after=${after}`;
+    return this.request<{
+      events: { type: string; payload: unknown; timestamp: string; senderId?: string; seq: number }[];
+      latestSeq: number;
+      resyncRequired: boolean;
+    }>(`/events/missed${query}`);
+  }
+
+  async acknowledgeEvents(seq: number) {
+    return this.request<{ message: string }>('/events/ack', {
+      method: 'POST',
+      body: JSON.stringify({ seq }),
+    });
+  }
+
+  async getNotifications(params: { unreadOnly?: boolean; limit?: number } = {}) {
+    const query = new URLSearchParams();
+    if (params.unreadOnly) query.set('unreadOnly', 'true');
+    if (params.limit) query.set('limit', String(params.limit));
+    const queryString = query.toString();
+    return this.request<{ notifications: NotificationItem[]; unreadCount: number }>(
+      `/notifications${queryString ? `?${queryString}` : ''}`
+    );
+  }
+
+  async markNotificationRead(notificationId: string) {
+    return this.request<{ message: string }>(`/notifications/${notificationId}/read`, {
+      method: 'POST',
+    });
+  }
+
+  async markAllNotificationsRead() {
+    return this.request<{ message: string; updated: number }>('/notifications/read-all', {
+      method: 'POST',
+    });
+  }
+
   // Delete methods
   async deleteStartup(startupId: string) {
     return this.request<{ message: string }>(`/startups/${startupId}`, {
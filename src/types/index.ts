@@ -13,6 +13,8 @@ export type User = {
     joinHackathons: boolean;
   };
   onboardingCompleted?: boolean;
+  emailVerified?: boolean;
+  twoFactorEnabled?: boolean;
   createdAt: Date;
   updatedAt?: Date;
 }
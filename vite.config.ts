@@ -10,7 +10,11 @@ export default defineConfig({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Code shared with the backend, e.g. the WebSocket protocol
+      "@shared": path.resolve(__dirname, "./server/src/shared"),
     },
+    // Shared files must use the frontend's copy of zod, not the one under server/
+    dedupe: ["zod"],
   },
   server: {
     host: '0.0.0.0', // Listen on all network interfaces